@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * Pre-Tool Hook - Records progress-node writes and reports new nearby nodes
+ *
+ * Forwards the tool call to Voicetree, which records markdown files the agent writes
+ * (so the stop hook knows a progress node exists) and returns nodes created nearby
+ * since they were last reported, printed as hookSpecificOutput.additionalContext.
+ * Always exits 0 - this hook never blocks a tool call.
+ */
+
+const http = require('http');
+
+function postHook(port, route, terminalId, body) {
+  return new Promise((resolve) => {
+    const payload = JSON.stringify(body);
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path: `/hook/${route}/${encodeURIComponent(terminalId)}`,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) },
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => {
+        try {
+          resolve(JSON.parse(data));
+        } catch {
+          resolve({ additionalContext: null });
+        }
+      });
+    });
+    req.on('error', () => resolve({ additionalContext: null }));
+    req.end(payload);
+  });
+}
+
+async function main() {
+  let inputData = '';
+  for await (const chunk of process.stdin) {
+    inputData += chunk;
+  }
+
+  let input = {};
+  try {
+    input = JSON.parse(inputData);
+  } catch (e) {
+    // No valid JSON - nothing to record
+  }
+
+  const port = process.env.VOICETREE_MCP_PORT;
+  const terminalId = process.env.VOICETREE_TERMINAL_ID;
+  if (!port || !terminalId) {
+    process.exit(0);
+  }
+
+  const result = await postHook(port, 'pre-tool', terminalId, {
+    tool_name: input.tool_name,
+    tool_input: input.tool_input,
+  });
+  if (result.additionalContext) {
+    console.log(JSON.stringify({
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        additionalContext: result.additionalContext,
+      },
+    }));
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(`Pre-tool hook error: ${error.message}`);
+  process.exit(0);
+});
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+/**
+ * Session Start Hook - Injects the agent's task, context node and unseen nearby nodes
+ *
+ * Prints hookSpecificOutput.additionalContext for the agent CLI.
+ * Always exits 0 - a missing or unreachable Voicetree just adds no context.
+ */
+
+const http = require('http');
+
+function postHook(port, route, terminalId, body) {
+  return new Promise((resolve) => {
+    const payload = JSON.stringify(body);
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path: `/hook/${route}/${encodeURIComponent(terminalId)}`,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) },
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => {
+        try {
+          resolve(JSON.parse(data));
+        } catch {
+          resolve({ additionalContext: null });
+        }
+      });
+    });
+    req.on('error', () => resolve({ additionalContext: null }));
+    req.end(payload);
+  });
+}
+
+async function main() {
+  let inputData = '';
+  for await (const chunk of process.stdin) {
+    inputData += chunk;
+  }
+
+  let input = {};
+  try {
+    input = JSON.parse(inputData);
+  } catch (e) {
+    // No valid JSON - the hook input is not needed to build the context
+  }
+
+  const port = process.env.VOICETREE_MCP_PORT;
+  const terminalId = process.env.VOICETREE_TERMINAL_ID;
+  if (!port || !terminalId) {
+    process.exit(0);
+  }
+
+  const result = await postHook(port, 'session-start', terminalId, { source: input.source });
+  if (result.additionalContext) {
+    console.log(JSON.stringify({
+      hookSpecificOutput: {
+        hookEventName: 'SessionStart',
+        additionalContext: result.additionalContext,
+      },
+    }));
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(`Session start hook error: ${error.message}`);
+  process.exit(0);
+});
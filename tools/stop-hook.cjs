@@ -2,9 +2,12 @@
 /**
  * Stop Hook - Checks for unseen nodes and reminds agents to create progress nodes
  *
+ * Blocks the first stop attempt while there are unseen nodes nearby, or while the
+ * agent has not created a progress node yet (as reported by Voicetree).
+ *
  * EXIT CODES:
  *   0 - Allow stop
- *   2 - Block stop (unseen nodes or first attempt)
+ *   2 - Block stop (unseen nodes or no progress node)
  */
 
 const http = require('http');
@@ -52,31 +55,41 @@ async function main() {
   const port = process.env.VOICETREE_MCP_PORT;
   const terminalId = process.env.VOICETREE_TERMINAL_ID;
 
-  let unseenNodes = [];
-
-  // Try to fetch unseen nodes if we have the required env vars
-  if (port && terminalId) {
-    const result = await fetchUnseenNodes(port, terminalId);
-    unseenNodes = result.unseenNodes || [];
+  // MCP unavailable → allow stop
+  if (!port || !terminalId) {
+    process.exit(0);
   }
 
-  // No unseen nodes or MCP unavailable → allow stop
-  if (!port || !terminalId || unseenNodes.length === 0) {
+  const result = await fetchUnseenNodes(port, terminalId);
+  const unseenNodes = result.unseenNodes || [];
+  // Older Voicetree versions don't report progress nodes - don't block on them then
+  const missingProgressNode = Array.isArray(result.progressNodes) && result.progressNodes.length === 0;
+
+  if (unseenNodes.length === 0 && !missingProgressNode) {
     process.exit(0);
   }
 
-  // Unseen nodes found → block and show them
   console.error('');
   console.error('════════════════════════════════════════════');
-  console.error('⚠️  UNSEEN NODES NEARBY - READ BEFORE STOPPING:');
-  console.error('════════════════════════════════════════════');
-  console.error('');
-  unseenNodes.forEach((node, i) => {
-    const title = node.title || node.id || 'Untitled';
-    console.error(`   ${i + 1}. ${title}`);
-  });
-  console.error('');
-  console.error('→ Call get_unseen_nodes_nearby to read their content');
+  if (unseenNodes.length > 0) {
+    // Unseen nodes found → block and show them
+    console.error('⚠️  UNSEEN NODES NEARBY - READ BEFORE STOPPING:');
+    console.error('════════════════════════════════════════════');
+    console.error('');
+    unseenNodes.forEach((node, i) => {
+      const title = node.title || node.id || 'Untitled';
+      console.error(`   ${i + 1}. ${title}`);
+    });
+    console.error('');
+    console.error('→ Call get_unseen_nodes_nearby to read their content');
+  }
+  if (missingProgressNode) {
+    if (unseenNodes.length > 0) {
+      console.error('');
+    }
+    console.error('⚠️  NO PROGRESS NODE YET:');
+    console.error('→ Read addProgressTree.md and create a progress node documenting your work');
+  }
   console.error('════════════════════════════════════════════');
   console.error('');
 
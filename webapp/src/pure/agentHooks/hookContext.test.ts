@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getWrittenMarkdownFile, formatSessionStartContext, formatNewNearbyNodesContext } from './hookContext';
+
+describe('getWrittenMarkdownFile', () => {
+    it('returns the markdown file written by Write/Edit tool calls', () => {
+        expect(getWrittenMarkdownFile('Write', { file_path: '/vault/progress.md', content: '# Done' })).toBe('/vault/progress.md');
+        expect(getWrittenMarkdownFile('Edit', { file_path: '/vault/notes.MD' })).toBe('/vault/notes.MD');
+    });
+
+    it('ignores other tools, other files and malformed input', () => {
+        expect(getWrittenMarkdownFile('Read', { file_path: '/vault/progress.md' })).toBeNull();
+        expect(getWrittenMarkdownFile('Write', { file_path: '/src/index.ts' })).toBeNull();
+        expect(getWrittenMarkdownFile('Write', null)).toBeNull();
+        expect(getWrittenMarkdownFile(undefined, { file_path: '/vault/progress.md' })).toBeNull();
+    });
+});
+
+describe('formatSessionStartContext', () => {
+    it('lists the task, context and unseen nearby nodes', () => {
+        const context: string = formatSessionStartContext(
+            'Ama',
+            { id: '/vault/task.md', title: 'Fix login' },
+            '/vault/ctx-nodes/task_context.md',
+            [{ id: '/vault/design.md', title: 'Design' }]
+        );
+        expect(context).toContain('You are agent Ama.');
+        expect(context).toContain('Your task node: Fix login (/vault/task.md)');
+        expect(context).toContain('- Design (/vault/design.md)');
+    });
+});
+
+describe('formatNewNearbyNodesContext', () => {
+    it('returns null when there is nothing new', () => {
+        expect(formatNewNearbyNodesContext([])).toBeNull();
+        expect(formatNewNearbyNodesContext([{ id: '/vault/a.md', title: 'A' }])).toContain('- A (/vault/a.md)');
+    });
+});
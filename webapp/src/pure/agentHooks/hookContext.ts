@@ -0,0 +1,67 @@
+/**
+ * Payloads for agent CLI hooks (tools/*-hook.cjs).
+ *
+ * Hooks call the /hook/* HTTP routes of the main process and relay the result to the
+ * agent: session-start injects the agent's nearby context, pre-tool records the markdown
+ * files the agent writes (its progress nodes) and surfaces new nearby nodes, and stop
+ * blocks until unseen nodes are read and a progress node exists.
+ */
+
+/** A node as shown to an agent by a hook */
+export interface HookNodeSummary {
+    readonly id: string;
+    readonly title: string;
+}
+
+// Agent tools whose input names a file they write
+const FILE_WRITING_TOOLS: ReadonlySet<string> = new Set(['Write', 'Edit', 'MultiEdit']);
+
+/**
+ * The markdown file a tool call writes, or null if it writes none.
+ * Tool names and inputs follow Claude Code's PreToolUse hook payload.
+ */
+export function getWrittenMarkdownFile(toolName: unknown, toolInput: unknown): string | null {
+    if (typeof toolName !== 'string' || !FILE_WRITING_TOOLS.has(toolName)) {
+        return null;
+    }
+    if (typeof toolInput !== 'object' || toolInput === null) {
+        return null;
+    }
+    const filePath: unknown = (toolInput as { readonly file_path?: unknown }).file_path;
+    return typeof filePath === 'string' && filePath.toLowerCase().endsWith('.md') ? filePath : null;
+}
+
+function formatNodeList(nodes: readonly HookNodeSummary[]): string {
+    return nodes.map((node: HookNodeSummary) => `- ${node.title} (${node.id})`).join('\n');
+}
+
+/**
+ * Context injected when an agent session starts (or resumes).
+ */
+export function formatSessionStartContext(
+    agentName: string,
+    taskNode: HookNodeSummary | null,
+    contextNodeId: string,
+    unseenNodes: readonly HookNodeSummary[]
+): string {
+    const lines: readonly string[] = [
+        `[VOICETREE] You are agent ${agentName}.`,
+        taskNode ? `Your task node: ${taskNode.title} (${taskNode.id})` : null,
+        `Your context node: ${contextNodeId}`,
+        unseenNodes.length > 0
+            ? `Nodes created nearby since your context was generated:\n${formatNodeList(unseenNodes)}`
+            : null,
+        'Before stopping, create a progress node documenting your work (see addProgressTree.md).',
+    ].filter((line: string | null): line is string => line !== null);
+    return lines.join('\n');
+}
+
+/**
+ * Reminder injected before a tool call when new nodes appeared nearby, or null if none did.
+ */
+export function formatNewNearbyNodesContext(newNodes: readonly HookNodeSummary[]): string | null {
+    if (newNodes.length === 0) {
+        return null;
+    }
+    return `[VOICETREE] New nodes created nearby while you were working:\n${formatNodeList(newNodes)}\nCall get_unseen_nodes_nearby to read them.`;
+}
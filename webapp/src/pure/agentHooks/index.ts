@@ -0,0 +1,6 @@
+export {
+    getWrittenMarkdownFile,
+    formatSessionStartContext,
+    formatNewNearbyNodesContext,
+    type HookNodeSummary,
+} from './hookContext';
@@ -0,0 +1,19 @@
+export {
+    DEPENDS_ON_YAML_KEY,
+    parseDependsOnValue,
+    getTaskPrerequisites,
+    buildTaskDependencyMap,
+    findNodesInDependencyCycles,
+    computeTaskScheduleStates,
+    selectTasksToSpawn,
+    type TaskScheduleState,
+    type TaskAgentStatus,
+} from './taskDependencies';
+export {
+    getSpawnDepth,
+    checkSpawnLimits,
+    selectQueuedSpawnsToStart,
+    type AgentSpawnLimits,
+    type OccupiedAgentSlot,
+    type SpawnLimitCheck,
+} from './spawnLimits';
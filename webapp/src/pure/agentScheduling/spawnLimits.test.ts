@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getSpawnDepth,
+    checkSpawnLimits,
+    selectQueuedSpawnsToStart,
+    type AgentSpawnLimits,
+    type OccupiedAgentSlot,
+} from './spawnLimits';
+
+const LIMITS: AgentSpawnLimits = { maxRunningAgents: 3, maxRunningChildrenPerAgent: 2, maxSpawnDepth: 2 };
+
+function slots(...parents: readonly (string | null)[]): readonly OccupiedAgentSlot[] {
+    return parents.map((parentTerminalId: string | null) => ({ parentTerminalId }));
+}
+
+describe('getSpawnDepth', () => {
+    it('counts levels along the parent chain', () => {
+        const depths: ReadonlyMap<string, number> = new Map([['root', 0], ['child', 1]]);
+        expect(getSpawnDepth(null, (id: string) => depths.get(id))).toBe(0);
+        expect(getSpawnDepth('root', (id: string) => depths.get(id))).toBe(1);
+        expect(getSpawnDepth('child', (id: string) => depths.get(id))).toBe(2);
+        // Unknown parents are treated as roots
+        expect(getSpawnDepth('other', (id: string) => depths.get(id))).toBe(1);
+    });
+});
+
+describe('checkSpawnLimits', () => {
+    it('rejects spawns deeper than the maximum depth', () => {
+        expect(checkSpawnLimits('child', 3, slots(), LIMITS).kind).toBe('tooDeep');
+        expect(checkSpawnLimits('child', 2, slots(), LIMITS).kind).toBe('allowed');
+    });
+
+    it('queues spawns over the global or per-parent cap', () => {
+        expect(checkSpawnLimits(null, 0, slots(null, null, null), LIMITS).kind).toBe('atCapacity');
+        expect(checkSpawnLimits('a', 1, slots('a', 'a'), LIMITS).kind).toBe('atCapacity');
+        expect(checkSpawnLimits('b', 1, slots('a', 'a'), LIMITS).kind).toBe('allowed');
+    });
+});
+
+describe('selectQueuedSpawnsToStart', () => {
+    it('starts queued spawns in order until slots run out, skipping parents at their cap', () => {
+        const queue: readonly { readonly id: string; readonly parentTerminalId: string | null }[] = [
+            { id: 'a2', parentTerminalId: 'a' },
+            { id: 'a3', parentTerminalId: 'a' },
+            { id: 'b1', parentTerminalId: 'b' },
+            { id: 'c1', parentTerminalId: 'c' },
+        ];
+        const started: readonly { readonly id: string }[] = selectQueuedSpawnsToStart(queue, slots('a'), LIMITS);
+        expect(started.map((s: { readonly id: string }) => s.id)).toEqual(['a2', 'b1']);
+    });
+});
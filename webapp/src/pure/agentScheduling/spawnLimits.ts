@@ -0,0 +1,96 @@
+/**
+ * Limits on agents spawning agents.
+ *
+ * Agents can spawn child agents (spawn_agent), which can spawn their own children, so a
+ * runaway orchestrator could open terminals without bound. Three limits apply:
+ * - a global cap on running agents
+ * - a cap on running children per parent agent
+ * - a maximum recursion depth along the parentTerminalId chain
+ *
+ * A spawn over one of the caps is queued and started when a slot frees up. A spawn
+ * deeper than the maximum depth is rejected, since waiting would never help.
+ */
+
+export interface AgentSpawnLimits {
+    readonly maxRunningAgents: number;
+    readonly maxRunningChildrenPerAgent: number;
+    /** Depth of root agents is 0, their children 1, and so on */
+    readonly maxSpawnDepth: number;
+}
+
+/** A running agent, or a spawn that has started but whose terminal has not registered yet */
+export interface OccupiedAgentSlot {
+    readonly parentTerminalId: string | null;
+}
+
+export type SpawnLimitCheck =
+    | { readonly kind: 'allowed' }
+    | { readonly kind: 'atCapacity'; readonly reason: string }
+    | { readonly kind: 'tooDeep'; readonly reason: string };
+
+/**
+ * Depth of a terminal spawned by the given parent.
+ *
+ * @param getParentDepth - Depth of the parent terminal, undefined if it is unknown
+ */
+export function getSpawnDepth(
+    parentTerminalId: string | null,
+    getParentDepth: (terminalId: string) => number | undefined
+): number {
+    if (parentTerminalId === null) {
+        return 0;
+    }
+    return (getParentDepth(parentTerminalId) ?? 0) + 1;
+}
+
+/**
+ * Check whether a new agent may start now, must wait for a free slot, or may never start.
+ */
+export function checkSpawnLimits(
+    parentTerminalId: string | null,
+    spawnDepth: number,
+    occupied: readonly OccupiedAgentSlot[],
+    limits: AgentSpawnLimits
+): SpawnLimitCheck {
+    if (spawnDepth > limits.maxSpawnDepth) {
+        return {
+            kind: 'tooDeep',
+            reason: `Maximum agent spawn depth reached (${limits.maxSpawnDepth}): ${parentTerminalId ?? 'this agent'} is already ${spawnDepth - 1} level(s) deep. Do the task yourself instead of spawning another agent.`,
+        };
+    }
+    if (occupied.length >= limits.maxRunningAgents) {
+        return {
+            kind: 'atCapacity',
+            reason: `${occupied.length} of ${limits.maxRunningAgents} agents are running`,
+        };
+    }
+    if (parentTerminalId !== null) {
+        const siblings: number = occupied.filter((slot: OccupiedAgentSlot) => slot.parentTerminalId === parentTerminalId).length;
+        if (siblings >= limits.maxRunningChildrenPerAgent) {
+            return {
+                kind: 'atCapacity',
+                reason: `${parentTerminalId} already has ${siblings} of ${limits.maxRunningChildrenPerAgent} child agents running`,
+            };
+        }
+    }
+    return { kind: 'allowed' };
+}
+
+/**
+ * Pick the queued spawns that can start now, in queue order. A spawn held back by its
+ * parent's cap does not hold back spawns of other parents.
+ */
+export function selectQueuedSpawnsToStart<T extends OccupiedAgentSlot>(
+    queue: readonly T[],
+    occupied: readonly OccupiedAgentSlot[],
+    limits: AgentSpawnLimits
+): readonly T[] {
+    return queue.reduce(
+        (acc: { readonly started: readonly T[]; readonly occupied: readonly OccupiedAgentSlot[] }, queued: T) =>
+            // Depth was checked when the spawn was queued
+            checkSpawnLimits(queued.parentTerminalId, 0, acc.occupied, limits).kind === 'allowed'
+                ? { started: [...acc.started, queued], occupied: [...acc.occupied, queued] }
+                : acc,
+        { started: [], occupied }
+    ).started;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import * as O from 'fp-ts/lib/Option.js';
+import type { Edge, Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph';
+import { createGraph } from '@/pure/graph/createGraph';
+import {
+    parseDependsOnValue,
+    buildTaskDependencyMap,
+    computeTaskScheduleStates,
+    findNodesInDependencyCycles,
+    selectTasksToSpawn,
+    type TaskAgentStatus,
+    type TaskScheduleState,
+} from './taskDependencies';
+
+function createTaskNode(id: string, options: { readonly dependsOn?: string; readonly edges?: readonly Edge[] } = {}): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        contentWithoutYamlOrLinks: `# ${id}`,
+        outgoingEdges: options.edges ?? [],
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: options.dependsOn ? { depends_on: options.dependsOn } : {},
+        },
+    };
+}
+
+describe('parseDependsOnValue', () => {
+    it('accepts YAML lists, wikilink lists and comma-separated strings', () => {
+        expect(parseDependsOnValue('["design.md","api"]')).toEqual(['design.md', 'api']);
+        expect(parseDependsOnValue('[["design"],["api"]]')).toEqual(['design', 'api']);
+        expect(parseDependsOnValue('[[design]], [[api]]')).toEqual(['design', 'api']);
+        expect(parseDependsOnValue('design, api')).toEqual(['design', 'api']);
+    });
+});
+
+describe('buildTaskDependencyMap', () => {
+    it('resolves depends_on names and ignores labeled edges', () => {
+        const graph: Graph = createGraph({
+            '/v/design.md': createTaskNode('/v/design.md'),
+            '/v/api.md': createTaskNode('/v/api.md', { dependsOn: '["design"]' }),
+            '/v/ui.md': createTaskNode('/v/ui.md', {
+                edges: [
+                    { targetId: '/v/api.md', label: 'after' },
+                    { targetId: '/v/design.md', label: 'depends on' },
+                ],
+            }),
+        });
+
+        expect(buildTaskDependencyMap(graph)).toEqual(new Map([
+            ['/v/api.md', ['/v/design.md']],
+        ]));
+    });
+});
+
+describe('findNodesInDependencyCycles', () => {
+    it('finds every node of a cycle, but not the nodes depending on it', () => {
+        const dependencies: ReadonlyMap<NodeIdAndFilePath, readonly NodeIdAndFilePath[]> = new Map([
+            // root -> a -> root, and root -> via -> a: via is in the cycle too
+            ['root', ['a', 'via']],
+            ['a', ['root']],
+            ['via', ['a']],
+            ['dependent', ['root']],
+            ['self', ['self']],
+        ]);
+
+        expect(findNodesInDependencyCycles(dependencies)).toEqual(new Set(['root', 'a', 'via', 'self']));
+    });
+
+    it('handles long chains of diamonds', () => {
+        // Each layer depends on both nodes of the next: 2^60 paths from the top
+        const dependencies: ReadonlyMap<NodeIdAndFilePath, readonly NodeIdAndFilePath[]> = new Map(
+            Array.from({ length: 60 }, (_, layer) => [
+                [`left-${layer}`, [`left-${layer + 1}`, `right-${layer + 1}`]] as const,
+                [`right-${layer}`, [`left-${layer + 1}`, `right-${layer + 1}`]] as const,
+            ]).flat()
+        );
+
+        expect(findNodesInDependencyCycles(dependencies).size).toBe(0);
+    });
+});
+
+describe('computeTaskScheduleStates / selectTasksToSpawn', () => {
+    const dependencies: ReadonlyMap<NodeIdAndFilePath, readonly NodeIdAndFilePath[]> = new Map([
+        ['api', ['design']],
+        ['ui', ['api']],
+        ['docs', ['design']],
+        ['tests', ['design']],
+        ['loop-a', ['loop-b']],
+        ['loop-b', ['loop-a']],
+    ]);
+
+    it('queues tasks whose prerequisites are done and blocks the rest', () => {
+        const agentStatus: ReadonlyMap<NodeIdAndFilePath, TaskAgentStatus> = new Map([['design', 'done']]);
+        const states: ReadonlyMap<NodeIdAndFilePath, TaskScheduleState> = computeTaskScheduleStates(dependencies, agentStatus);
+
+        expect(Object.fromEntries(states)).toEqual({
+            design: 'done',
+            api: 'queued',
+            ui: 'blocked',
+            docs: 'queued',
+            tests: 'queued',
+            'loop-a': 'blocked',
+            'loop-b': 'blocked',
+        });
+        expect(selectTasksToSpawn(states, 2)).toEqual(['api', 'docs']);
+    });
+
+    it('respects the concurrency limit and leaves unstarted roots alone', () => {
+        const agentStatus: ReadonlyMap<NodeIdAndFilePath, TaskAgentStatus> = new Map([
+            ['design', 'done'],
+            ['api', 'running'],
+            ['docs', 'failed'],
+        ]);
+        const states: ReadonlyMap<NodeIdAndFilePath, TaskScheduleState> = computeTaskScheduleStates(dependencies, agentStatus);
+
+        expect(states.get('docs')).toBe('blocked');
+        expect(selectTasksToSpawn(states, 1)).toEqual([]);
+        expect(selectTasksToSpawn(states, 2)).toEqual(['tests']);
+        expect(computeTaskScheduleStates(dependencies, new Map()).has('design')).toBe(false);
+    });
+});
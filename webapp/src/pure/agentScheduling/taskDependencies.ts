@@ -0,0 +1,180 @@
+import * as E from 'fp-ts/lib/Either.js';
+import type { FrontmatterValue, Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph';
+import { getFrontmatterStrings } from '@/pure/graph/frontmatter';
+import { findBestMatchingNode } from '@/pure/graph/markdown-parsing/extract-edges';
+
+/**
+ * Task node dependency DAG for agent scheduling.
+ *
+ * A task node declares prerequisites with `depends_on` frontmatter (a list or
+ * comma-separated string of node names/links). Its agent is spawned once the agents of all
+ * its prerequisites have exited. Labeled edges such as `after [[x]]` don't count: they are
+ * often prose, and would start agents for every note that mentions x.
+ */
+
+/**
+ * Scheduling state shown on task nodes:
+ * - blocked: waiting for prerequisites (or part of a dependency cycle)
+ * - queued: prerequisites done, waiting for a free agent slot
+ * - running: agent running
+ * - done: agent exited
+ */
+export type TaskScheduleState = 'blocked' | 'queued' | 'running' | 'done';
+
+/** What is known about the agent of a task node; absent if it never had one */
+export type TaskAgentStatus = 'running' | 'done' | 'failed';
+
+export const DEPENDS_ON_YAML_KEY: string = 'depends_on';
+
+/**
+ * Parse a `depends_on` value: a YAML list (`[[a]]` parses as a nested list) or a string,
+ * which may be comma-separated or a JSON list. Wikilink brackets and quotes are stripped.
+ */
+export function parseDependsOnValue(value: FrontmatterValue): readonly string[] {
+    const trimmed: string = typeof value === 'string' ? value.trim() : '';
+    const items: readonly unknown[] = typeof value !== 'string'
+        ? getFrontmatterStrings(value)
+        : trimmed.startsWith('[')
+            ? parseJsonList(trimmed).flat()
+            : trimmed.split(',');
+    return items
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.replace(/[[\]"']/g, '').trim())
+        .filter(item => item !== '');
+}
+
+function parseJsonList(text: string): readonly unknown[] {
+    // Malformed lists fall back to comma splitting
+    const parsed: unknown = E.getOrElse((): unknown => undefined)(E.tryCatch((): unknown => JSON.parse(text), (error: unknown) => error));
+    return Array.isArray(parsed) ? parsed : text.replace(/^\[|\]$/g, '').split(',');
+}
+
+/**
+ * Prerequisite task nodes of a node, resolved to node ids. Unresolvable names are ignored.
+ */
+export function getTaskPrerequisites(node: GraphNode, graph: Graph): readonly NodeIdAndFilePath[] {
+    const dependsOn: FrontmatterValue | undefined = node.nodeUIMetadata.additionalYAMLProps[DEPENDS_ON_YAML_KEY];
+    const prerequisites: readonly NodeIdAndFilePath[] = dependsOn !== undefined && dependsOn !== null
+        ? parseDependsOnValue(dependsOn).flatMap(name => {
+            const resolved: NodeIdAndFilePath | undefined = graph.nodes[name]
+                ? name
+                : findBestMatchingNode(name, graph.nodes, graph.nodeByBaseName, graph.nodeByAlias);
+            return resolved ? [resolved] : [];
+        })
+        : [];
+    return [...new Set(prerequisites)].filter(id => id !== node.absoluteFilePathIsID);
+}
+
+/**
+ * Map of every task node that declares prerequisites to those prerequisites.
+ * Context nodes are never scheduled.
+ */
+export function buildTaskDependencyMap(graph: Graph): ReadonlyMap<NodeIdAndFilePath, readonly NodeIdAndFilePath[]> {
+    return new Map(
+        Object.values(graph.nodes)
+            .filter(node => !node.nodeUIMetadata.isContextNode)
+            .map(node => [node.absoluteFilePathIsID, getTaskPrerequisites(node, graph)] as const)
+            .filter(([, prerequisites]) => prerequisites.length > 0)
+    );
+}
+
+/**
+ * Nodes that (transitively) depend on themselves. They can never become ready.
+ * Tarjan's strongly connected components, so linear in the number of dependencies.
+ */
+export function findNodesInDependencyCycles(
+    dependencies: ReadonlyMap<NodeIdAndFilePath, readonly NodeIdAndFilePath[]>
+): ReadonlySet<NodeIdAndFilePath> {
+    // eslint-disable-next-line functional/prefer-readonly-type
+    const indexByNode: Map<NodeIdAndFilePath, number> = new Map();
+    // eslint-disable-next-line functional/prefer-readonly-type
+    const lowLinkByNode: Map<NodeIdAndFilePath, number> = new Map();
+    // Visited nodes whose component isn't complete yet
+    // eslint-disable-next-line functional/prefer-readonly-type
+    const stack: NodeIdAndFilePath[] = [];
+    // eslint-disable-next-line functional/prefer-readonly-type
+    const onStack: Set<NodeIdAndFilePath> = new Set();
+    // eslint-disable-next-line functional/prefer-readonly-type
+    const cyclic: Set<NodeIdAndFilePath> = new Set();
+
+    const lowLink: (nodeId: NodeIdAndFilePath) => number = nodeId => lowLinkByNode.get(nodeId) ?? 0;
+
+    const visit: (nodeId: NodeIdAndFilePath) => void = nodeId => {
+        const index: number = indexByNode.size;
+        indexByNode.set(nodeId, index);
+        lowLinkByNode.set(nodeId, index);
+        stack.push(nodeId);
+        onStack.add(nodeId);
+
+        const prerequisites: readonly NodeIdAndFilePath[] = dependencies.get(nodeId) ?? [];
+        prerequisites.forEach(prerequisite => {
+            const prerequisiteIndex: number | undefined = indexByNode.get(prerequisite);
+            if (prerequisiteIndex === undefined) {
+                visit(prerequisite);
+                lowLinkByNode.set(nodeId, Math.min(lowLink(nodeId), lowLink(prerequisite)));
+            } else if (onStack.has(prerequisite)) {
+                lowLinkByNode.set(nodeId, Math.min(lowLink(nodeId), prerequisiteIndex));
+            }
+        });
+
+        // nodeId is the root of a component: the stack from nodeId on
+        if (lowLink(nodeId) === index) {
+            const component: readonly NodeIdAndFilePath[] = stack.splice(stack.lastIndexOf(nodeId));
+            component.forEach(componentNodeId => onStack.delete(componentNodeId));
+            if (component.length > 1 || prerequisites.includes(nodeId)) {
+                component.forEach(componentNodeId => cyclic.add(componentNodeId));
+            }
+        }
+    };
+
+    // Visiting a node also visits the nodes it depends on
+    [...dependencies.keys()].forEach(nodeId => {
+        if (!indexByNode.has(nodeId)) {
+            visit(nodeId);
+        }
+    });
+    return cyclic;
+}
+
+/**
+ * Scheduling state of every node in the DAG (dependents and their prerequisites).
+ * Prerequisites without dependencies of their own only get a state once they have an agent,
+ * since the scheduler never starts them.
+ */
+export function computeTaskScheduleStates(
+    dependencies: ReadonlyMap<NodeIdAndFilePath, readonly NodeIdAndFilePath[]>,
+    agentStatus: ReadonlyMap<NodeIdAndFilePath, TaskAgentStatus>
+): ReadonlyMap<NodeIdAndFilePath, TaskScheduleState> {
+    const cyclic: ReadonlySet<NodeIdAndFilePath> = findNodesInDependencyCycles(dependencies);
+    const dagNodeIds: readonly NodeIdAndFilePath[] = [...new Set([...dependencies.keys(), ...[...dependencies.values()].flat()])];
+
+    return new Map(dagNodeIds.flatMap((nodeId): readonly (readonly [NodeIdAndFilePath, TaskScheduleState])[] => {
+        const status: TaskAgentStatus | undefined = agentStatus.get(nodeId);
+        if (status === 'running' || status === 'done') {
+            return [[nodeId, status]];
+        }
+        const prerequisites: readonly NodeIdAndFilePath[] | undefined = dependencies.get(nodeId);
+        if (!prerequisites) {
+            return [];
+        }
+        const isReady: boolean = status !== 'failed'
+            && !cyclic.has(nodeId)
+            && prerequisites.every(prerequisite => agentStatus.get(prerequisite) === 'done');
+        return [[nodeId, isReady ? 'queued' : 'blocked']];
+    }));
+}
+
+/**
+ * Queued tasks to spawn now, in DAG order, without exceeding maxConcurrent running agents.
+ */
+export function selectTasksToSpawn(
+    states: ReadonlyMap<NodeIdAndFilePath, TaskScheduleState>,
+    maxConcurrent: number
+): readonly NodeIdAndFilePath[] {
+    const runningCount: number = [...states.values()].filter(state => state === 'running').length;
+    const freeSlots: number = Math.max(0, maxConcurrent - runningCount);
+    return [...states]
+        .filter(([, state]) => state === 'queued')
+        .map(([nodeId]) => nodeId)
+        .slice(0, freeSlots);
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import * as O from 'fp-ts/lib/Option.js';
+import {
+  toPersistedTerminalSession,
+  getRestoreCommand,
+  getAvailableRestoreModes,
+  orderSessionsParentFirst,
+  buildRestorableSessions,
+  type PersistedTerminalSession,
+} from './terminalSessions';
+import type { AgentConfig } from '@/pure/settings/types';
+import type { TerminalData } from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType';
+import type { TerminalId } from '@/shell/edge/UI-edge/floating-windows/types';
+
+const AGENTS: readonly AgentConfig[] = [
+  { name: 'Claude', command: 'claude "$AGENT_PROMPT"', resumeCommand: 'claude --resume' },
+  { name: 'Gemini', command: 'gemini -i "$AGENT_PROMPT"' },
+];
+
+function createSession(
+  terminalId: string,
+  parentTerminalId: string | null = null,
+  initialCommand: string = 'claude "$AGENT_PROMPT"'
+): PersistedTerminalSession {
+  return {
+    terminalId,
+    agentName: terminalId,
+    title: `Task for ${terminalId}`,
+    attachedToNodeId: `/vault/ctx-nodes/${terminalId}.md`,
+    anchoredToNodeId: '/vault/task.md',
+    parentTerminalId,
+    terminalCount: 0,
+    initialCommand,
+    isPinned: true,
+    isDone: false,
+  };
+}
+
+describe('toPersistedTerminalSession', () => {
+  it('flattens Option fields and drops UI-only state', () => {
+    const terminalData: TerminalData = {
+      type: 'Terminal',
+      terminalId: 'Ama' as TerminalId,
+      attachedToNodeId: '/vault/ctx-nodes/ama.md',
+      anchoredToNodeId: O.some('/vault/task.md'),
+      terminalCount: 1,
+      title: 'Task',
+      resizable: true,
+      shadowNodeDimensions: { width: 340, height: 380 },
+      initialCommand: 'claude',
+      isPinned: false,
+      isDone: true,
+      lastOutputTime: 123,
+      activityCount: 4,
+      parentTerminalId: 'Ben' as TerminalId,
+      agentName: 'Ama',
+    };
+
+    const session: PersistedTerminalSession = toPersistedTerminalSession(terminalData);
+
+    expect(session).toMatchObject({
+      terminalId: 'Ama',
+      anchoredToNodeId: '/vault/task.md',
+      parentTerminalId: 'Ben',
+      isPinned: false,
+      isDone: true,
+    });
+    expect(session).not.toHaveProperty('lastOutputTime');
+    expect(JSON.parse(JSON.stringify(session))).toEqual(session);
+  });
+});
+
+describe('getRestoreCommand', () => {
+  it('uses the resume command of the matching agent', () => {
+    expect(getRestoreCommand(createSession('Ama'), 'resume', AGENTS)).toBe('claude --resume');
+  });
+
+  it('keeps any prefix in front of the agent command when resuming', () => {
+    const session: PersistedTerminalSession = createSession('Ama', null, 'cd wt && claude "$AGENT_PROMPT"');
+
+    expect(getRestoreCommand(session, 'resume', AGENTS)).toBe('cd wt && claude --resume');
+  });
+
+  it('relaunches with the original command', () => {
+    const session: PersistedTerminalSession = createSession('Ama', null, 'gemini -i "$AGENT_PROMPT"');
+
+    expect(getRestoreCommand(session, 'relaunch', AGENTS)).toBe('gemini -i "$AGENT_PROMPT"');
+  });
+
+  it('returns undefined for agents without a resume command and for skip', () => {
+    const session: PersistedTerminalSession = createSession('Ama', null, 'gemini -i "$AGENT_PROMPT"');
+
+    expect(getRestoreCommand(session, 'resume', AGENTS)).toBeUndefined();
+    expect(getRestoreCommand(session, 'skip', AGENTS)).toBeUndefined();
+  });
+});
+
+describe('getAvailableRestoreModes', () => {
+  it('offers resume only when the agent supports it', () => {
+    expect(getAvailableRestoreModes(createSession('Ama'), AGENTS)).toEqual(['resume', 'relaunch', 'skip']);
+    expect(getAvailableRestoreModes(createSession('Ama', null, 'gemini -i "$AGENT_PROMPT"'), AGENTS)).toEqual(['relaunch', 'skip']);
+  });
+});
+
+describe('orderSessionsParentFirst', () => {
+  it('places parents before their children with depths', () => {
+    const sessions: readonly PersistedTerminalSession[] = [
+      createSession('child', 'root'),
+      createSession('grandchild', 'child'),
+      createSession('root'),
+    ];
+
+    expect(orderSessionsParentFirst(sessions).map(({ session, depth }) => [session.terminalId, depth])).toEqual([
+      ['root', 0],
+      ['child', 1],
+      ['grandchild', 2],
+    ]);
+  });
+
+  it('treats sessions whose parent was not persisted as roots', () => {
+    const sessions: readonly PersistedTerminalSession[] = [createSession('orphan', 'gone')];
+
+    expect(orderSessionsParentFirst(sessions).map(({ depth }) => depth)).toEqual([0]);
+  });
+});
+
+describe('buildRestorableSessions', () => {
+  it('combines ordering and available modes', () => {
+    const result: ReturnType<typeof buildRestorableSessions> = buildRestorableSessions(
+      [createSession('child', 'root', 'gemini -i "$AGENT_PROMPT"'), createSession('root')],
+      AGENTS
+    );
+
+    expect(result.map(r => [r.session.terminalId, r.depth, r.availableModes])).toEqual([
+      ['root', 0, ['resume', 'relaunch', 'skip']],
+      ['child', 1, ['relaunch', 'skip']],
+    ]);
+  });
+});
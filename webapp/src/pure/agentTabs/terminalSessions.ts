@@ -0,0 +1,136 @@
+import * as O from 'fp-ts/lib/Option.js';
+import type { NodeIdAndFilePath } from '@/pure/graph';
+import type { AgentConfig } from '@/pure/settings/types';
+import type { TerminalData } from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType';
+
+/**
+ * Serializable snapshot of a terminal, persisted per project so the agent tree
+ * can be offered for restore after the app restarts.
+ * Only plain JSON values - no Option, no UI references.
+ */
+export type PersistedTerminalSession = {
+  readonly terminalId: string;
+  readonly agentName: string;
+  readonly title: string;
+  readonly attachedToNodeId: NodeIdAndFilePath;
+  readonly anchoredToNodeId: NodeIdAndFilePath | null;
+  readonly parentTerminalId: string | null;
+  readonly terminalCount: number;
+  readonly initialCommand?: string;
+  readonly initialSpawnDirectory?: string;
+  readonly initialEnvVars?: Record<string, string>;
+  readonly isPinned: boolean;
+  readonly isDone: boolean;
+};
+
+/**
+ * How to bring a persisted session back:
+ * - resume: run the agent's resumeCommand (continues the previous conversation)
+ * - relaunch: run the original command again from scratch
+ * - skip: forget the session
+ */
+export type SessionRestoreMode = 'resume' | 'relaunch' | 'skip';
+
+/**
+ * A persisted session together with the restore modes available for it.
+ * Sent to the renderer so the user can pick a mode per agent.
+ */
+export type RestorableTerminalSession = {
+  readonly session: PersistedTerminalSession;
+  readonly depth: number; // 0 = root, 1 = child, ... (for tree-style display)
+  readonly availableModes: readonly SessionRestoreMode[];
+};
+
+export function toPersistedTerminalSession(terminalData: TerminalData): PersistedTerminalSession {
+  return {
+    terminalId: terminalData.terminalId,
+    agentName: terminalData.agentName,
+    title: terminalData.title,
+    attachedToNodeId: terminalData.attachedToNodeId,
+    anchoredToNodeId: O.isSome(terminalData.anchoredToNodeId) ? terminalData.anchoredToNodeId.value : null,
+    parentTerminalId: terminalData.parentTerminalId,
+    terminalCount: terminalData.terminalCount,
+    initialCommand: terminalData.initialCommand,
+    initialSpawnDirectory: terminalData.initialSpawnDirectory,
+    initialEnvVars: terminalData.initialEnvVars,
+    isPinned: terminalData.isPinned,
+    isDone: terminalData.isDone,
+  };
+}
+
+/**
+ * Find the agent whose command a terminal was spawned with.
+ * Commands may carry a prefix (e.g. a worktree `cd ... &&`), so a suffix match is accepted.
+ */
+export function findAgentForCommand(
+  command: string | undefined,
+  agents: readonly AgentConfig[]
+): AgentConfig | undefined {
+  if (!command) return undefined;
+  return agents.find(agent => agent.command !== '' && command.endsWith(agent.command));
+}
+
+/**
+ * Compute the command to run when restoring a session in the given mode.
+ * Returns undefined when the mode isn't possible for this session (or is 'skip').
+ *
+ * Resume replaces the agent's command with its resumeCommand, keeping any prefix.
+ */
+export function getRestoreCommand(
+  session: PersistedTerminalSession,
+  mode: SessionRestoreMode,
+  agents: readonly AgentConfig[]
+): string | undefined {
+  if (mode === 'skip') return undefined;
+  if (mode === 'relaunch') return session.initialCommand;
+
+  const agent: AgentConfig | undefined = findAgentForCommand(session.initialCommand, agents);
+  if (!agent?.resumeCommand || !session.initialCommand) return undefined;
+  const prefix: string = session.initialCommand.slice(0, session.initialCommand.length - agent.command.length);
+  return prefix + agent.resumeCommand;
+}
+
+export function getAvailableRestoreModes(
+  session: PersistedTerminalSession,
+  agents: readonly AgentConfig[]
+): readonly SessionRestoreMode[] {
+  const modes: readonly SessionRestoreMode[] = ['resume', 'relaunch'];
+  return [...modes.filter(mode => getRestoreCommand(session, mode, agents) !== undefined), 'skip'];
+}
+
+/**
+ * Order sessions parent-first (depth-first), so that restoring them in order
+ * rebuilds the tree-style tabs with every parent spawned before its children.
+ * Sessions whose parent isn't persisted are treated as roots.
+ */
+export function orderSessionsParentFirst(
+  sessions: readonly PersistedTerminalSession[]
+): readonly { readonly session: PersistedTerminalSession; readonly depth: number }[] {
+  const ids: ReadonlySet<string> = new Set(sessions.map(s => s.terminalId));
+  const isRoot: (s: PersistedTerminalSession) => boolean = (s: PersistedTerminalSession): boolean =>
+    s.parentTerminalId === null || !ids.has(s.parentTerminalId);
+
+  const visit: (session: PersistedTerminalSession, depth: number) => readonly { readonly session: PersistedTerminalSession; readonly depth: number }[] =
+    (session: PersistedTerminalSession, depth: number) => [
+      { session, depth },
+      ...sessions
+        .filter(child => child.parentTerminalId === session.terminalId && !isRoot(child))
+        .flatMap(child => visit(child, depth + 1)),
+    ];
+
+  return sessions.filter(isRoot).flatMap(root => visit(root, 0));
+}
+
+/**
+ * Build the list offered to the user on project open.
+ */
+export function buildRestorableSessions(
+  sessions: readonly PersistedTerminalSession[],
+  agents: readonly AgentConfig[]
+): readonly RestorableTerminalSession[] {
+  return orderSessionsParentFirst(sessions).map(({ session, depth }) => ({
+    session,
+    depth,
+    availableModes: getAvailableRestoreModes(session, agents),
+  }));
+}
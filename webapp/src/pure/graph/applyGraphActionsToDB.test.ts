@@ -8,7 +8,6 @@ import path from 'path'
 import { promises as fs } from 'fs'
 import { markdownToTitle } from '@/pure/graph/markdown-parsing/markdown-to-title'
 import { loadGraphFromDisk } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
-import type { FileLimitExceededError } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce'
 
 // Helper to find a node by filename (since node IDs are now absolute paths)
 function findNodeByFilename(graph: Graph, filename: string): GraphNode | undefined {
@@ -43,7 +42,7 @@ describe('apply_graph_deltas_to_db', () => {
       nodeUIMetadata: {
         color: O.none,
         position: O.none,
-        additionalYAMLProps: new Map(),
+        additionalYAMLProps: {},
         isContextNode: false
       }
     }
@@ -76,10 +75,7 @@ describe('apply_graph_deltas_to_db', () => {
       expect(fileContent).toBe('---\nisContextNode: false\n---\n# New Node\n\nThis is content')
 
       // Verify we can load it back from disk
-      const loadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(loadResult)) throw new Error('Expected Right')
-      const graph: Graph = loadResult.right
+      const graph: Graph = await loadGraphFromDisk([testVaultPath])
       // Node IDs are now absolute paths - use helper to find by filename
       const node1: GraphNode | undefined = findNodeByFilename(graph, 'node-1.md')
       expect(node1).toBeDefined()
@@ -101,10 +97,7 @@ describe('apply_graph_deltas_to_db', () => {
       expect(E.isRight(result)).toBe(true)
 
       // Load from disk and verify title
-      const loadResult2: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(loadResult2)) throw new Error('Expected Right')
-      const graph: Graph = loadResult2.right
+      const graph: Graph = await loadGraphFromDisk([testVaultPath])
       // Node IDs are now absolute paths - use helper to find by filename
       const node2: GraphNode | undefined = findNodeByFilename(graph, 'node-2.md')
       expect(node2).toBeDefined()
@@ -127,10 +120,7 @@ describe('apply_graph_deltas_to_db', () => {
       expect(E.isRight(result)).toBe(true)
 
       // Load from disk and verify title
-      const loadResult3: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(loadResult3)) throw new Error('Expected Right')
-      const graph: Graph = loadResult3.right
+      const graph: Graph = await loadGraphFromDisk([testVaultPath])
       // Node IDs are now absolute paths - use helper to find by filename
       const node3: GraphNode | undefined = findNodeByFilename(graph, 'node-3.md')
       expect(node3).toBeDefined()
@@ -192,10 +182,7 @@ describe('apply_graph_deltas_to_db', () => {
       expect(fileContent).toBe('---\nisContextNode: false\n---\n# Updated Title\n\nNew content')
 
       // Load from disk and verify
-      const loadResult4: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(loadResult4)) throw new Error('Expected Right')
-      const graph: Graph = loadResult4.right
+      const graph: Graph = await loadGraphFromDisk([testVaultPath])
       // Node IDs are now absolute paths - use helper to find by filename
       const nodeUpdate1: GraphNode | undefined = findNodeByFilename(graph, 'node-update-1.md')
       expect(nodeUpdate1).toBeDefined()
@@ -229,10 +216,7 @@ describe('apply_graph_deltas_to_db', () => {
       expect(E.isRight(result)).toBe(true)
 
       // Load from disk and verify ID is preserved
-      const loadResult5: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(loadResult5)) throw new Error('Expected Right')
-      const graph: Graph = loadResult5.right
+      const graph: Graph = await loadGraphFromDisk([testVaultPath])
       // Node IDs are now absolute paths - use helper to find by filename
       const nodeUpdate2: GraphNode | undefined = findNodeByFilename(graph, 'node-update-2.md')
       expect(nodeUpdate2).toBeDefined()
@@ -273,10 +257,7 @@ describe('apply_graph_deltas_to_db', () => {
       expect(existsAfter).toBe(false)
 
       // Verify it's not in the graph when loaded from disk
-      const loadResult6: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(loadResult6)) throw new Error('Expected Right')
-      const graph: Graph = loadResult6.right
+      const graph: Graph = await loadGraphFromDisk([testVaultPath])
       // Node IDs are now absolute paths - verify node is not found by filename
       const nodeDelete1: GraphNode | undefined = findNodeByFilename(graph, 'node-delete-1.md')
       expect(nodeDelete1).toBeUndefined()
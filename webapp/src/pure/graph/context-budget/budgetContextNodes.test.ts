@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import {
+    assignContextDetailLevels,
+    estimateTokens,
+    getContextTokenBudget,
+    getSummaryLine,
+    getTruncatedNodeIds,
+    DEFAULT_CONTEXT_TOKEN_BUDGET,
+    type BudgetedContextNode
+} from './budgetContextNodes'
+import type { FrontmatterProps, Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import type { VTSettings } from '@/pure/settings/types'
+import { DEFAULT_SETTINGS } from '@/pure/settings/DEFAULT_SETTINGS'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, content: string, additionalYAMLProps: FrontmatterProps = {}): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges: [],
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps
+        }
+    }
+}
+
+const LONG_BODY: string = 'word '.repeat(100)
+
+function createVault(): Graph {
+    return createGraph({
+        'a.md': createNode('a.md', `# Alpha\n\n${LONG_BODY}`),
+        'b.md': createNode('b.md', `# Beta\n\n${LONG_BODY}`),
+        'c.md': createNode('c.md', '# Gamma\n\nshort'),
+        'd.md': createNode('d.md', `# Delta\n\n${LONG_BODY}`)
+    })
+}
+
+describe('getSummaryLine', () => {
+    it('should take the first body line and strip link markers', () => {
+        const node: GraphNode = createNode('a.md', '# Title\n\n## Section\nSee [other note]* for details\nmore')
+
+        expect(getSummaryLine(node)).toBe('See other note for details')
+    })
+
+    it('should cut long lines', () => {
+        const summary: string = getSummaryLine(createNode('a.md', `# Title\n${'x'.repeat(500)}`))
+
+        expect(summary).toHaveLength(200)
+        expect(summary.endsWith('…')).toBe(true)
+    })
+})
+
+describe('assignContextDetailLevels', () => {
+    it('should keep every node in full when the budget allows', () => {
+        const levels: readonly BudgetedContextNode[] = assignContextDetailLevels(['a.md', 'b.md'], createVault(), 10000)
+
+        expect(levels).toEqual([{ nodeId: 'a.md', level: 'full' }, { nodeId: 'b.md', level: 'full' }])
+    })
+
+    it('should degrade lower ranked nodes to a summary, then to their title', () => {
+        const fullCost: number = estimateTokens(createVault().nodes['a.md'].contentWithoutYamlOrLinks)
+        const levels: readonly BudgetedContextNode[] = assignContextDetailLevels(
+            ['a.md', 'b.md', 'c.md', 'd.md'],
+            createVault(),
+            fullCost + 60
+        )
+
+        expect(levels.map(node => node.level)).toEqual(['full', 'summary', 'summary', 'title'])
+    })
+
+    it('should never give a lower ranked node more detail than a higher ranked one', () => {
+        // c.md is short enough to fit in full, but b.md above it was shortened
+        const levels: readonly BudgetedContextNode[] = assignContextDetailLevels(['b.md', 'c.md'], createVault(), 60)
+
+        expect(levels).toEqual([{ nodeId: 'b.md', level: 'summary' }, { nodeId: 'c.md', level: 'summary' }])
+    })
+
+    it('should keep titles even with no budget left', () => {
+        const levels: readonly BudgetedContextNode[] = assignContextDetailLevels(['a.md', 'missing.md'], createVault(), 0)
+
+        expect(levels).toEqual([{ nodeId: 'a.md', level: 'title' }])
+    })
+})
+
+describe('getContextTokenBudget', () => {
+    const settings: VTSettings = {
+        ...DEFAULT_SETTINGS,
+        contextNodeTokenBudget: 8000,
+        agents: [
+            { name: 'Big', command: 'big-agent', contextTokenBudget: 50000 },
+            { name: 'Plain', command: 'plain-agent' }
+        ]
+    }
+
+    it('should prefer the agent budget, then the settings budget', () => {
+        expect(getContextTokenBudget(settings, 'big-agent')).toBe(50000)
+        expect(getContextTokenBudget(settings, 'plain-agent')).toBe(8000)
+        expect(getContextTokenBudget(settings)).toBe(8000)
+    })
+
+    it('should fall back to the default budget', () => {
+        expect(getContextTokenBudget({ ...settings, contextNodeTokenBudget: undefined }, 'plain-agent')).toBe(DEFAULT_CONTEXT_TOKEN_BUDGET)
+    })
+})
+
+describe('getTruncatedNodeIds', () => {
+    it('should read the truncatedNodeIds frontmatter list', () => {
+        expect(getTruncatedNodeIds(createNode('ctx.md', '# ctx', { truncatedNodeIds: ['a.md', 'b.md'] }))).toEqual(['a.md', 'b.md'])
+        expect(getTruncatedNodeIds(createNode('ctx.md', '# ctx'))).toEqual([])
+    })
+})
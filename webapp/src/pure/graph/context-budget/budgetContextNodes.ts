@@ -0,0 +1,107 @@
+import type { FrontmatterValue, Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { getNodeTitle } from '@/pure/graph/markdown-parsing'
+import { findAgentByCommand, type VTSettings } from '@/pure/settings/types'
+
+/**
+ * How much of a node a context node includes: its full content,
+ * its title and one summary line, or only its title.
+ */
+export type ContextDetailLevel = 'full' | 'summary' | 'title'
+
+export interface BudgetedContextNode {
+    readonly nodeId: NodeIdAndFilePath
+    readonly level: ContextDetailLevel
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET: number = 16000
+
+// Frontmatter key listing the nodes a context node shortened to fit its budget
+export const TRUNCATED_NODE_IDS_KEY: string = 'truncatedNodeIds'
+
+const MAX_SUMMARY_LENGTH: number = 200
+
+const DETAIL_LEVELS: readonly ContextDetailLevel[] = ['full', 'summary', 'title']
+
+/**
+ * Rough token count (about four characters per token), good enough for budgeting.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4)
+}
+
+/**
+ * First line of body text (skipping headings and blank lines), with [link]* markers
+ * reduced to their text and cut to MAX_SUMMARY_LENGTH characters. Empty if the node has none.
+ */
+export function getSummaryLine(node: GraphNode): string {
+    const line: string = node.contentWithoutYamlOrLinks
+        .split('\n')
+        .map(text => text.trim())
+        .find(text => text !== '' && !text.startsWith('#')) ?? ''
+    const plain: string = line.replace(/\[([^\]]+)\]\*/g, '$1')
+    return plain.length > MAX_SUMMARY_LENGTH ? `${plain.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : plain
+}
+
+function getLevelCost(node: GraphNode, level: ContextDetailLevel): number {
+    switch (level) {
+        case 'full':
+            return estimateTokens(node.contentWithoutYamlOrLinks)
+        case 'summary':
+            return estimateTokens(`${getNodeTitle(node)}: ${getSummaryLine(node)}`)
+        case 'title':
+            return estimateTokens(getNodeTitle(node))
+    }
+}
+
+/**
+ * Picks a detail level for each ranked node (most relevant first) so their content fits in tokenBudget.
+ * Levels only degrade down the ranking - full, then summary, then title-only - so a less relevant
+ * node never gets more space than a more relevant one. Every node keeps at least its title.
+ */
+export function assignContextDetailLevels(
+    rankedNodeIds: readonly NodeIdAndFilePath[],
+    graph: Graph,
+    tokenBudget: number
+): readonly BudgetedContextNode[] {
+    interface BudgetState {
+        readonly remaining: number
+        readonly lowestLevelIndex: number
+        readonly assigned: readonly BudgetedContextNode[]
+    }
+
+    const initialState: BudgetState = { remaining: Math.max(0, tokenBudget), lowestLevelIndex: 0, assigned: [] }
+    return rankedNodeIds
+        .filter(nodeId => graph.nodes[nodeId] !== undefined)
+        .reduce<BudgetState>((state, nodeId) => {
+            const node: GraphNode = graph.nodes[nodeId]
+            const fittingLevelIndex: number = DETAIL_LEVELS.findIndex(
+                (level, index) => index >= state.lowestLevelIndex && getLevelCost(node, level) <= state.remaining
+            )
+            const levelIndex: number = fittingLevelIndex === -1 ? DETAIL_LEVELS.length - 1 : fittingLevelIndex
+            const level: ContextDetailLevel = DETAIL_LEVELS[levelIndex]
+            return {
+                remaining: Math.max(0, state.remaining - getLevelCost(node, level)),
+                lowestLevelIndex: levelIndex,
+                assigned: [...state.assigned, { nodeId, level }]
+            }
+        }, initialState)
+        .assigned
+}
+
+/**
+ * Node IDs a context node recorded as shortened (summary or title-only) in its frontmatter.
+ */
+export function getTruncatedNodeIds(contextNode: GraphNode): readonly NodeIdAndFilePath[] {
+    const value: FrontmatterValue | undefined = contextNode.nodeUIMetadata.additionalYAMLProps[TRUNCATED_NODE_IDS_KEY]
+    return Array.isArray(value)
+        ? value.filter((id): id is string => typeof id === 'string')
+        : []
+}
+
+/**
+ * Context node token budget for the agent launched with agentCommand: the agent's own
+ * contextTokenBudget, else the settings-wide contextNodeTokenBudget, else the default.
+ */
+export function getContextTokenBudget(settings: VTSettings, agentCommand?: string): number {
+    return findAgentByCommand(settings, agentCommand)?.contextTokenBudget ?? settings.contextNodeTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET
+}
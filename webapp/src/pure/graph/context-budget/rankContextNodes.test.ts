@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { getWeightedDistances, rankContextNodes, type ContextRankingInput, type RankedContextNode } from './rankContextNodes'
+import type { Edge, Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, targetIds: readonly string[] = [], isContextNode: boolean = false): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges: targetIds.map((targetId: string): Edge => ({ targetId, label: '' })),
+        contentWithoutYamlOrLinks: `# ${id}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode
+        }
+    }
+}
+
+// parent -> task -> child -> grandchild, plus an unconnected semantic hit and a context node
+function createVault(): Graph {
+    return createGraph({
+        'parent.md': createNode('parent.md', ['task.md']),
+        'task.md': createNode('task.md', ['child.md']),
+        'child.md': createNode('child.md', ['grandchild.md']),
+        'grandchild.md': createNode('grandchild.md'),
+        'semantic.md': createNode('semantic.md'),
+        'ctx-nodes/task_context.md': createNode('ctx-nodes/task_context.md', [], true)
+    })
+}
+
+function createInput(overrides: Partial<ContextRankingInput> = {}): ContextRankingInput {
+    const graph: Graph = createVault()
+    return {
+        subgraph: graph,
+        graph,
+        startNodeId: 'task.md',
+        maxDistance: 5,
+        semanticNodeIds: [],
+        modifiedAt: new Map(),
+        ...overrides
+    }
+}
+
+describe('getWeightedDistances', () => {
+    it('should cost 1.5 per child edge and 1.0 per parent edge', () => {
+        const distances: ReadonlyMap<string, number> = getWeightedDistances(createVault(), 'task.md')
+
+        expect(Object.fromEntries(distances)).toEqual({
+            'task.md': 0,
+            'parent.md': 1,
+            'child.md': 1.5,
+            'grandchild.md': 3
+        })
+    })
+
+    it('should take the cheapest path when several reach a node', () => {
+        const graph: Graph = createGraph({
+            'a.md': createNode('a.md', ['b.md', 'c.md']),
+            'b.md': createNode('b.md', ['d.md']),
+            'c.md': createNode('c.md'),
+            'd.md': createNode('d.md', ['c.md'])
+        })
+
+        // a -> c directly (1.5) beats c <- d <- b <- a
+        expect(getWeightedDistances(graph, 'a.md').get('c.md')).toBe(1.5)
+        // from d: d -> c (1.5) beats d <- b <- a -> c (1 + 1 + 1.5)
+        expect(getWeightedDistances(graph, 'd.md').get('c.md')).toBe(1.5)
+    })
+})
+
+describe('rankContextNodes', () => {
+    it('should leave out the start node and context nodes', () => {
+        const ranked: readonly RankedContextNode[] = rankContextNodes(createInput())
+
+        expect(ranked.map(node => node.nodeId).sort()).toEqual(['child.md', 'grandchild.md', 'parent.md', 'semantic.md'])
+    })
+
+    it('should rank closer nodes first when no other signal differs', () => {
+        const ranked: readonly RankedContextNode[] = rankContextNodes(
+            createInput(),
+            { distance: 1, recency: 0, semantic: 0, degree: 0 }
+        )
+
+        expect(ranked.map(node => node.nodeId)).toEqual(['parent.md', 'child.md', 'grandchild.md', 'semantic.md'])
+    })
+
+    it('should lift semantic hits above farther nodes', () => {
+        const ranked: readonly RankedContextNode[] = rankContextNodes(createInput({ semanticNodeIds: ['semantic.md'] }))
+
+        expect(ranked.map(node => node.nodeId)).toEqual(['child.md', 'parent.md', 'semantic.md', 'grandchild.md'])
+    })
+
+    it('should rank recently modified nodes higher by recency', () => {
+        const ranked: readonly RankedContextNode[] = rankContextNodes(
+            createInput({ modifiedAt: new Map([['grandchild.md', 3000], ['parent.md', 2000], ['child.md', 1000]]) }),
+            { distance: 0, recency: 1, semantic: 0, degree: 0 }
+        )
+
+        expect(ranked.map(node => node.nodeId)).toEqual(['grandchild.md', 'parent.md', 'child.md', 'semantic.md'])
+        expect(ranked[0].score).toBe(1)
+    })
+
+    it('should rank well-connected nodes higher by degree', () => {
+        const ranked: readonly RankedContextNode[] = rankContextNodes(
+            createInput(),
+            { distance: 0, recency: 0, semantic: 0, degree: 1 }
+        )
+
+        // child has one incoming and one outgoing edge; parent and grandchild have one each
+        expect(ranked[0]).toEqual({ nodeId: 'child.md', score: 1 })
+        expect(ranked[ranked.length - 1]).toEqual({ nodeId: 'semantic.md', score: 0 })
+    })
+})
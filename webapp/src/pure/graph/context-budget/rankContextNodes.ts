@@ -0,0 +1,140 @@
+import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { getIncomingNodes } from '@/pure/graph/graph-operations/getIncomingNodes'
+
+/**
+ * How much each signal counts towards a node's rank in a context node.
+ * Each signal is normalized to [0, 1] before weighting.
+ */
+export interface ContextRankingWeights {
+    readonly distance: number
+    readonly recency: number
+    readonly semantic: number
+    readonly degree: number
+}
+
+export const DEFAULT_CONTEXT_RANKING_WEIGHTS: ContextRankingWeights = {
+    distance: 0.4,
+    recency: 0.2,
+    semantic: 0.25,
+    degree: 0.15
+}
+
+export interface ContextRankingInput {
+    // Nodes gathered for the context node (distance traversal plus semantic hits)
+    readonly subgraph: Graph
+    // Full graph, for node degree
+    readonly graph: Graph
+    readonly startNodeId: NodeIdAndFilePath
+    readonly maxDistance: number
+    // Semantic search hits, best match first
+    readonly semanticNodeIds: readonly NodeIdAndFilePath[]
+    // Last modification time (ms) per node; nodes without one get no recency credit
+    readonly modifiedAt: ReadonlyMap<NodeIdAndFilePath, number>
+}
+
+export interface RankedContextNode {
+    readonly nodeId: NodeIdAndFilePath
+    readonly score: number
+}
+
+// Same costs as getSubgraphByDistance: children are further away than parents
+const CHILD_EDGE_COST: number = 1.5
+const PARENT_EDGE_COST: number = 1.0
+
+/**
+ * Weighted distance from the start node to every node reachable in the graph
+ * (outgoing edges cost 1.5, incoming edges 1.0). Unreachable nodes are absent.
+ */
+export function getWeightedDistances(
+    graph: Graph,
+    startNodeId: NodeIdAndFilePath
+): ReadonlyMap<NodeIdAndFilePath, number> {
+    const getNeighbours: (nodeId: NodeIdAndFilePath) => readonly (readonly [NodeIdAndFilePath, number])[] = (nodeId: NodeIdAndFilePath) => {
+        const node: GraphNode = graph.nodes[nodeId]
+        return [
+            ...node.outgoingEdges
+                .filter(edge => graph.nodes[edge.targetId] !== undefined)
+                .map(edge => [edge.targetId, CHILD_EDGE_COST] as const),
+            ...getIncomingNodes(node, graph).map(parent => [parent.absoluteFilePathIsID, PARENT_EDGE_COST] as const)
+        ]
+    }
+
+    // Relax from the nodes whose distance just improved until nothing improves
+    const relax: (
+        frontier: ReadonlyMap<NodeIdAndFilePath, number>,
+        distances: ReadonlyMap<NodeIdAndFilePath, number>
+    ) => ReadonlyMap<NodeIdAndFilePath, number> = (frontier, distances) => {
+        if (frontier.size === 0) {
+            return distances
+        }
+        const improved: ReadonlyMap<NodeIdAndFilePath, number> = [...frontier]
+            .flatMap(([nodeId, distance]) => getNeighbours(nodeId).map(([neighbourId, cost]) => [neighbourId, distance + cost] as const))
+            .filter(([neighbourId, distance]) => distance < (distances.get(neighbourId) ?? Infinity))
+            .reduce<ReadonlyMap<NodeIdAndFilePath, number>>(
+                (best, [neighbourId, distance]) => distance < (best.get(neighbourId) ?? Infinity)
+                    ? new Map([...best, [neighbourId, distance]])
+                    : best,
+                new Map()
+            )
+        return relax(improved, new Map([...distances, ...improved]))
+    }
+
+    if (!graph.nodes[startNodeId]) {
+        return new Map()
+    }
+    const start: ReadonlyMap<NodeIdAndFilePath, number> = new Map([[startNodeId, 0]])
+    return relax(start, start)
+}
+
+function getDegree(nodeId: NodeIdAndFilePath, graph: Graph): number {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    return node ? node.outgoingEdges.length + (graph.incomingEdgesIndex.get(nodeId)?.length ?? 0) : 0
+}
+
+/**
+ * Ranks the nodes of a context subgraph, most relevant first, by a weighted sum of
+ * closeness to the start node, recency, semantic search rank and degree.
+ * The start node and context nodes are left out: the start node is always included in full.
+ */
+export function rankContextNodes(
+    input: ContextRankingInput,
+    weights: ContextRankingWeights = DEFAULT_CONTEXT_RANKING_WEIGHTS
+): readonly RankedContextNode[] {
+    const candidateIds: readonly NodeIdAndFilePath[] = Object.keys(input.subgraph.nodes).filter(
+        nodeId => nodeId !== input.startNodeId && !input.subgraph.nodes[nodeId].nodeUIMetadata.isContextNode
+    )
+    const distances: ReadonlyMap<NodeIdAndFilePath, number> = getWeightedDistances(input.subgraph, input.startNodeId)
+
+    const times: readonly number[] = candidateIds
+        .map(nodeId => input.modifiedAt.get(nodeId))
+        .filter((time): time is number => time !== undefined)
+    const oldest: number = Math.min(...times)
+    const newest: number = Math.max(...times)
+
+    const degrees: ReadonlyMap<NodeIdAndFilePath, number> = new Map(candidateIds.map(nodeId => [nodeId, getDegree(nodeId, input.graph)]))
+    const maxDegree: number = Math.max(0, ...degrees.values())
+
+    const scoreNode: (nodeId: NodeIdAndFilePath) => number = (nodeId: NodeIdAndFilePath): number => {
+        const distance: number | undefined = distances.get(nodeId)
+        const distanceScore: number = distance === undefined || input.maxDistance <= 0
+            ? 0
+            : Math.max(0, 1 - distance / input.maxDistance)
+
+        const time: number | undefined = input.modifiedAt.get(nodeId)
+        const recencyScore: number = time === undefined ? 0 : newest === oldest ? 1 : (time - oldest) / (newest - oldest)
+
+        const semanticIndex: number = input.semanticNodeIds.indexOf(nodeId)
+        const semanticScore: number = semanticIndex === -1 ? 0 : 1 - semanticIndex / input.semanticNodeIds.length
+
+        const degreeScore: number = maxDegree === 0 ? 0 : (degrees.get(nodeId) ?? 0) / maxDegree
+
+        return weights.distance * distanceScore
+            + weights.recency * recencyScore
+            + weights.semantic * semanticScore
+            + weights.degree * degreeScore
+    }
+
+    return candidateIds
+        .map((nodeId): RankedContextNode => ({ nodeId, score: scoreNode(nodeId) }))
+        .sort((a, b) => b.score - a.score || a.nodeId.localeCompare(b.nodeId))
+}
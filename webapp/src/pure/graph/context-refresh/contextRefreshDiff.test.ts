@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+    formatContextRefreshChanges,
+    formatContextRefreshSummary,
+    getContextRefreshDiff,
+    type ContextRefreshDiff
+} from './contextRefreshDiff'
+import type { Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, title: string): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges: [],
+        contentWithoutYamlOrLinks: `# ${title}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {}
+        }
+    }
+}
+
+const graph: Graph = createGraph({
+    'task.md': createNode('task.md', 'Task'),
+    'new.md': createNode('new.md', 'New')
+})
+
+describe('getContextRefreshDiff', () => {
+    it('should list added and removed nodes in their original order', () => {
+        const diff: ContextRefreshDiff = getContextRefreshDiff(['task.md', 'old.md', 'kept.md'], ['task.md', 'kept.md', 'new.md'])
+
+        expect(diff).toEqual({ added: ['new.md'], removed: ['old.md'] })
+    })
+})
+
+describe('formatContextRefreshChanges', () => {
+    it('should write a diff block, describing deleted nodes by path', () => {
+        const section: string = formatContextRefreshChanges({ added: ['new.md'], removed: ['old.md'] }, graph, '1/2/2026')
+
+        expect(section).toBe('## Changes since last refresh (1/2/2026)\n```diff\n+ New (new.md)\n- old.md\n```\n')
+    })
+
+    it('should say when nothing changed', () => {
+        expect(formatContextRefreshChanges({ added: [], removed: [] }, graph, 'now')).toContain('(no nodes added or removed)')
+    })
+})
+
+describe('formatContextRefreshSummary', () => {
+    it('should only list the kinds of change that happened', () => {
+        const summary: string = formatContextRefreshSummary({ added: ['new.md'], removed: [] }, graph, 'ctx.md')
+
+        expect(summary).toContain('Your context node was refreshed (ctx.md).')
+        expect(summary).toContain('Added:\n- New (new.md)')
+        expect(summary).not.toContain('Removed:')
+    })
+})
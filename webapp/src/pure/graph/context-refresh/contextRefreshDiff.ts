@@ -0,0 +1,62 @@
+import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { getNodeTitle } from '@/pure/graph/markdown-parsing'
+
+/**
+ * Nodes that entered or left a context node when it was refreshed.
+ */
+export interface ContextRefreshDiff {
+    readonly added: readonly NodeIdAndFilePath[]
+    readonly removed: readonly NodeIdAndFilePath[]
+}
+
+export function getContextRefreshDiff(
+    previousNodeIds: readonly NodeIdAndFilePath[],
+    nextNodeIds: readonly NodeIdAndFilePath[]
+): ContextRefreshDiff {
+    const previous: ReadonlySet<NodeIdAndFilePath> = new Set(previousNodeIds)
+    const next: ReadonlySet<NodeIdAndFilePath> = new Set(nextNodeIds)
+    return {
+        added: nextNodeIds.filter(nodeId => !previous.has(nodeId)),
+        removed: previousNodeIds.filter(nodeId => !next.has(nodeId))
+    }
+}
+
+export function isEmptyContextRefreshDiff(diff: ContextRefreshDiff): boolean {
+    return diff.added.length === 0 && diff.removed.length === 0
+}
+
+// Removed nodes may have been deleted from the graph - fall back to their path
+function describeNode(graph: Graph, nodeId: NodeIdAndFilePath): string {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    return node ? `${getNodeTitle(node)} (${nodeId})` : nodeId
+}
+
+/**
+ * Markdown section listing the refresh's changes as a diff block, appended to the refreshed context node.
+ */
+export function formatContextRefreshChanges(diff: ContextRefreshDiff, graph: Graph, refreshedAt: string): string {
+    const lines: readonly string[] = isEmptyContextRefreshDiff(diff)
+        ? ['  (no nodes added or removed)']
+        : [
+            ...diff.added.map(nodeId => `+ ${describeNode(graph, nodeId)}`),
+            ...diff.removed.map(nodeId => `- ${describeNode(graph, nodeId)}`)
+        ]
+    return `## Changes since last refresh (${refreshedAt})
+\`\`\`diff
+${lines.join('\n')}
+\`\`\`
+`
+}
+
+/**
+ * Short message telling an agent its context node was refreshed, for its terminal.
+ */
+export function formatContextRefreshSummary(diff: ContextRefreshDiff, graph: Graph, contextNodeId: NodeIdAndFilePath): string {
+    const added: string = diff.added.length > 0
+        ? `\nAdded:\n${diff.added.map(nodeId => `- ${describeNode(graph, nodeId)}`).join('\n')}`
+        : ''
+    const removed: string = diff.removed.length > 0
+        ? `\nRemoved:\n${diff.removed.map(nodeId => `- ${describeNode(graph, nodeId)}`).join('\n')}`
+        : ''
+    return `\n\n[VOICETREE] Your context node was refreshed (${contextNodeId}).${added}${removed}\nRe-read it for the updated context.\n\n`
+}
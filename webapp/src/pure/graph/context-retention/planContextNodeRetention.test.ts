@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+    getContextNodeArchiveFolderName,
+    getContextNodeTimestampFromId,
+    planContextNodeRetention,
+    type ContextNodeRetentionPlan
+} from './planContextNodeRetention'
+import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, containedNodeIds?: readonly NodeIdAndFilePath[]): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges: [],
+        contentWithoutYamlOrLinks: `# ${id}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode: containedNodeIds !== undefined,
+            containedNodeIds
+        }
+    }
+}
+
+// Three context nodes for task a (a1 oldest), one for task b, and a screen recording without a task
+const graph: Graph = createGraph({
+    'a.md': createNode('a.md'),
+    'b.md': createNode('b.md'),
+    'ctx-nodes/a1.md': createNode('ctx-nodes/a1.md', ['a.md', 'b.md']),
+    'ctx-nodes/a2.md': createNode('ctx-nodes/a2.md', ['a.md']),
+    'ctx-nodes/a3.md': createNode('ctx-nodes/a3.md', ['a.md']),
+    'ctx-nodes/b1.md': createNode('ctx-nodes/b1.md', ['b.md']),
+    'ctx-nodes/recording.md': createNode('ctx-nodes/recording.md', [])
+})
+
+const createdAt: ReadonlyMap<NodeIdAndFilePath, number> = new Map([
+    ['ctx-nodes/a1.md', 100],
+    ['ctx-nodes/a2.md', 200],
+    ['ctx-nodes/a3.md', 300],
+    ['ctx-nodes/b1.md', 150],
+    ['ctx-nodes/recording.md', 50]
+])
+
+describe('planContextNodeRetention', () => {
+    it('should keep the newest nodes of each task and remove the rest, oldest first', () => {
+        const plan: ContextNodeRetentionPlan = planContextNodeRetention({
+            graph,
+            terminalNodeIds: new Set(),
+            createdAt,
+            policy: { keepPerTask: 1, action: 'archive' }
+        })
+
+        expect(plan.kept.map(kept => kept.nodeId)).toEqual(['ctx-nodes/a3.md', 'ctx-nodes/b1.md', 'ctx-nodes/recording.md'])
+        expect(plan.removed.map(removed => removed.nodeId)).toEqual(['ctx-nodes/a1.md', 'ctx-nodes/a2.md'])
+        expect(plan.removed[0]).toEqual({ nodeId: 'ctx-nodes/a1.md', taskNodeId: 'a.md', createdAt: 100 })
+    })
+
+    it('should never remove a node a terminal references, without counting it towards keepPerTask', () => {
+        const plan: ContextNodeRetentionPlan = planContextNodeRetention({
+            graph,
+            terminalNodeIds: new Set(['ctx-nodes/a1.md']),
+            createdAt,
+            policy: { keepPerTask: 1, action: 'delete' }
+        })
+
+        expect(plan.kept).toContainEqual({ nodeId: 'ctx-nodes/a1.md', reason: 'terminal' })
+        expect(plan.kept).toContainEqual({ nodeId: 'ctx-nodes/a3.md', reason: 'recent' })
+        expect(plan.removed.map(removed => removed.nodeId)).toEqual(['ctx-nodes/a2.md'])
+    })
+
+    it('should remove every unreferenced context node when keepPerTask is 0, treating unknown times as oldest', () => {
+        const plan: ContextNodeRetentionPlan = planContextNodeRetention({
+            graph,
+            terminalNodeIds: new Set(['ctx-nodes/b1.md']),
+            createdAt: new Map([['ctx-nodes/a2.md', 200]]),
+            policy: { keepPerTask: 0, action: 'delete' }
+        })
+
+        expect(plan.kept).toEqual([{ nodeId: 'ctx-nodes/b1.md', reason: 'terminal' }])
+        expect(plan.removed.map(removed => removed.nodeId)).toEqual([
+            'ctx-nodes/a1.md', 'ctx-nodes/a3.md', 'ctx-nodes/recording.md', 'ctx-nodes/a2.md'
+        ])
+    })
+})
+
+describe('getContextNodeTimestampFromId', () => {
+    it('should read the creation time from context node file names', () => {
+        expect(getContextNodeTimestampFromId('/vault/ctx-nodes/task_context_1760000000000.md')).toBe(1760000000000)
+        expect(getContextNodeTimestampFromId('/vault/ctx-nodes/ask_1760000000000_2.md')).toBe(1760000000000)
+        expect(getContextNodeTimestampFromId('/vault/ctx-nodes/recordings/demo.md')).toBeUndefined()
+    })
+})
+
+describe('getContextNodeArchiveFolderName', () => {
+    it('should name the folder after the local date', () => {
+        expect(getContextNodeArchiveFolderName(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05')
+    })
+})
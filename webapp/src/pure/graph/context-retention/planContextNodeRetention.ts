@@ -0,0 +1,110 @@
+/**
+ * Retention policy for context nodes.
+ *
+ * Every spawn, ask-mode question and screen recording adds a context node, so the ctx-nodes
+ * folder grows without bound. The plan keeps context nodes a terminal still references and the
+ * newest few per task node (the first containedNodeId), and marks the rest for archiving or deletion.
+ * Planning never touches the disk, so the same plan doubles as the dry-run preview.
+ */
+
+import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import type { ContextNodeRetentionSettings } from '@/pure/settings/types'
+
+export const DEFAULT_CONTEXT_NODE_RETENTION: ContextNodeRetentionSettings = { keepPerTask: 3, action: 'archive' }
+
+/**
+ * Why a context node survives the cleanup.
+ */
+export type ContextNodeKeepReason = 'terminal' | 'recent'
+
+export interface KeptContextNode {
+    readonly nodeId: NodeIdAndFilePath
+    readonly reason: ContextNodeKeepReason
+}
+
+export interface RemovedContextNode {
+    readonly nodeId: NodeIdAndFilePath
+    // Task node the context node was built for, undefined for nodes without containedNodeIds (e.g. screen recordings)
+    readonly taskNodeId: NodeIdAndFilePath | undefined
+    readonly createdAt: number | undefined
+}
+
+export interface ContextNodeRetentionPlan {
+    readonly policy: ContextNodeRetentionSettings
+    readonly kept: readonly KeptContextNode[]
+    readonly removed: readonly RemovedContextNode[]
+}
+
+export interface ContextNodeRetentionInput {
+    readonly graph: Graph
+    // Context nodes attached to a terminal, running or exited, or to a persisted session - these are never removed
+    readonly terminalNodeIds: ReadonlySet<NodeIdAndFilePath>
+    // When each context node was created (ms since epoch); nodes without a time count as oldest
+    readonly createdAt: ReadonlyMap<NodeIdAndFilePath, number>
+    readonly policy: ContextNodeRetentionSettings
+}
+
+/**
+ * Creation time encoded in a context node's file name (`*_context_<ms>.md`, `ask_<ms>.md`,
+ * `task_context_<ms>.md`), or undefined if the name has none.
+ */
+export function getContextNodeTimestampFromId(nodeId: NodeIdAndFilePath): number | undefined {
+    const match: RegExpMatchArray | null = /_(\d{13})(?:_\d+)?\.md$/.exec(nodeId)
+    return match ? Number(match[1]) : undefined
+}
+
+function getTaskNodeId(node: GraphNode): NodeIdAndFilePath | undefined {
+    return node.nodeUIMetadata.containedNodeIds?.[0]
+}
+
+/**
+ * Decides which context nodes to keep: any node a terminal references, plus the newest
+ * policy.keepPerTask nodes of each task. Terminal-referenced nodes don't count towards
+ * keepPerTask. Context nodes without a task node form one group of their own.
+ * Removed nodes are listed oldest first.
+ */
+export function planContextNodeRetention(input: ContextNodeRetentionInput): ContextNodeRetentionPlan {
+    const keepPerTask: number = Math.max(0, Math.floor(input.policy.keepPerTask))
+    const contextNodes: readonly GraphNode[] = Object.values(input.graph.nodes)
+        .filter(node => node.nodeUIMetadata.isContextNode === true)
+
+    const terminalKept: readonly KeptContextNode[] = contextNodes
+        .filter(node => input.terminalNodeIds.has(node.absoluteFilePathIsID))
+        .map(node => ({ nodeId: node.absoluteFilePathIsID, reason: 'terminal' as const }))
+
+    const candidates: readonly RemovedContextNode[] = contextNodes
+        .filter(node => !input.terminalNodeIds.has(node.absoluteFilePathIsID))
+        .map(node => ({
+            nodeId: node.absoluteFilePathIsID,
+            taskNodeId: getTaskNodeId(node),
+            createdAt: input.createdAt.get(node.absoluteFilePathIsID)
+        }))
+        // Newest first, ties broken by ID so the plan is deterministic
+        .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0) || a.nodeId.localeCompare(b.nodeId))
+
+    const taskNodeIds: readonly (NodeIdAndFilePath | undefined)[] = [...new Set(candidates.map(candidate => candidate.taskNodeId))]
+    const groups: readonly (readonly RemovedContextNode[])[] = taskNodeIds.map(
+        taskNodeId => candidates.filter(candidate => candidate.taskNodeId === taskNodeId)
+    )
+
+    const recentKept: readonly KeptContextNode[] = groups.flatMap(
+        group => group.slice(0, keepPerTask).map(candidate => ({ nodeId: candidate.nodeId, reason: 'recent' as const }))
+    )
+    const removed: readonly RemovedContextNode[] = groups
+        .flatMap(group => group.slice(keepPerTask))
+        .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0) || a.nodeId.localeCompare(b.nodeId))
+
+    return {
+        policy: input.policy,
+        kept: [...terminalKept, ...recentKept],
+        removed
+    }
+}
+
+/**
+ * Dated archive folder for a cleanup run, e.g. 2026-10-19 (local date).
+ */
+export function getContextNodeArchiveFolderName(date: Date): string {
+    const pad: (value: number) => string = value => String(value).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import {
+    getAncestorIds,
+    getContextTemplateBody,
+    getSiblingIds,
+    isInContextTemplatesFolder,
+    renderContextTemplate,
+    type ContextTemplateData
+} from './renderContextTemplate'
+import type { Edge, Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, title: string, targetIds: readonly string[] = [], isContextNode: boolean = false): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges: targetIds.map((targetId: string): Edge => ({ targetId, label: '' })),
+        contentWithoutYamlOrLinks: `# ${title}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode
+        }
+    }
+}
+
+// root -> epic -> task, epic -> sibling, epic -> ctx (context node)
+function createVault(): Graph {
+    return createGraph({
+        'root.md': createNode('root.md', 'Root', ['epic.md']),
+        'epic.md': createNode('epic.md', 'Epic', ['task.md', 'sibling.md', 'ctx-nodes/ctx.md']),
+        'task.md': createNode('task.md', 'Task'),
+        'sibling.md': createNode('sibling.md', 'Sibling'),
+        'ctx-nodes/ctx.md': createNode('ctx-nodes/ctx.md', 'ctx', [], true)
+    })
+}
+
+function createData(overrides: Partial<ContextTemplateData> = {}): ContextTemplateData {
+    return {
+        taskNodeId: 'task.md',
+        taskTitle: 'Task',
+        taskContent: '# Task',
+        ancestorIds: ['root.md', 'epic.md'],
+        siblingIds: ['sibling.md'],
+        neighborhoodAscii: 'Task\n└── Epic',
+        nodeContents: '<task.md> ... </task.md>',
+        semanticNodeIds: [],
+        unseenNodeIds: [],
+        containedNodeIds: ['task.md', 'epic.md'],
+        ...overrides
+    }
+}
+
+describe('getAncestorIds', () => {
+    it('should return the path from the root to the parent', () => {
+        expect(getAncestorIds(createVault(), 'task.md')).toEqual(['root.md', 'epic.md'])
+        expect(getAncestorIds(createVault(), 'root.md')).toEqual([])
+    })
+
+    it('should stop at cycles', () => {
+        const graph: Graph = createGraph({
+            'a.md': createNode('a.md', 'A', ['b.md']),
+            'b.md': createNode('b.md', 'B', ['a.md'])
+        })
+
+        expect(getAncestorIds(graph, 'a.md')).toEqual(['b.md'])
+    })
+})
+
+describe('getSiblingIds', () => {
+    it('should return the other children of the parents, without context nodes', () => {
+        expect(getSiblingIds(createVault(), 'task.md')).toEqual(['sibling.md'])
+    })
+})
+
+describe('renderContextTemplate', () => {
+    it('should fill placeholders, writing node lists as titles with paths', () => {
+        const rendered: string = renderContextTemplate(
+            '<task id="{{TASK_NODE_ID}}">{{TASK_TITLE}}</task>\n<path>\n{{ANCESTORS}}\n</path>\n{{SIBLINGS}}\n{{NODE_PATHS}}',
+            createData(),
+            createVault()
+        )
+
+        expect(rendered).toBe([
+            '<task id="task.md">Task</task>',
+            '<path>',
+            '- Root (root.md)',
+            '- Epic (epic.md)',
+            '</path>',
+            '- Sibling (sibling.md)',
+            'task.md',
+            'epic.md'
+        ].join('\n'))
+    })
+
+    it('should leave unknown placeholders and placeholders inside node content alone', () => {
+        const rendered: string = renderContextTemplate(
+            '{{TASK}} {{UNKNOWN}}',
+            createData({ taskContent: 'Fill in {{SIBLINGS}} later' }),
+            createVault()
+        )
+
+        expect(rendered).toBe('Fill in {{SIBLINGS}} later {{UNKNOWN}}')
+    })
+})
+
+describe('getContextTemplateBody', () => {
+    it('should strip the template file frontmatter', () => {
+        expect(getContextTemplateBody('---\ndescription: for codex\n---\n{{TASK}}\n')).toBe('{{TASK}}\n')
+        expect(getContextTemplateBody('{{TASK}}')).toBe('{{TASK}}')
+    })
+})
+
+describe('isInContextTemplatesFolder', () => {
+    it('should match the folder and files inside it', () => {
+        expect(isInContextTemplatesFolder('/vault/ctx-templates')).toBe(true)
+        expect(isInContextTemplatesFolder('/vault/ctx-templates/codex.md')).toBe(true)
+        expect(isInContextTemplatesFolder('/vault/notes/ctx-templates-guide.md')).toBe(false)
+    })
+})
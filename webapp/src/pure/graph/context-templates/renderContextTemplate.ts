@@ -0,0 +1,129 @@
+/**
+ * User-defined context node templates.
+ *
+ * A template is a markdown file in the vault's ctx-templates/ folder. Its body becomes the
+ * context node's body, with {{PLACEHOLDER}} markers replaced by the task node, its
+ * ancestors and siblings, the neighborhood tree and contents, semantic hits and unseen nodes.
+ * The context node's frontmatter (containedNodeIds etc.) is always generated, not templated.
+ *
+ * Placeholders:
+ * - {{TASK_NODE_ID}}, {{TASK_TITLE}}, {{TASK}}: path, title and content of the task node
+ * - {{ANCESTORS}}: the task node's ancestors, root first (only the path from root to task)
+ * - {{SIBLINGS}}: other children of the task node's parents
+ * - {{NEIGHBORHOOD_ASCII}}: ASCII tree of the nodes around the task node
+ * - {{NODE_CONTENTS}}: contents of those nodes, most relevant first, ending with the task
+ * - {{SEMANTIC_HITS}}: nodes found by semantic search
+ * - {{UNSEEN_NODES}}: nodes shortened to fit the token budget (get_unseen_nodes_nearby returns their full content)
+ * - {{NODE_PATHS}}: plain list of the path of every node in the context, for tools
+ * Lists are written as "- Title (path)" lines.
+ */
+
+import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { getIncomingNodes } from '@/pure/graph/graph-operations/getIncomingNodes'
+import { getNodeTitle } from '@/pure/graph/markdown-parsing'
+
+export const CONTEXT_TEMPLATES_FOLDER: string = 'ctx-templates'
+
+/**
+ * Whether a path lies in (or is) a ctx-templates/ folder. Templates hold raw placeholders,
+ * so vault scanning, watching and link resolution skip them rather than load them as nodes.
+ */
+export function isInContextTemplatesFolder(filePath: string): boolean {
+    return filePath.split(/[/\\]/).includes(CONTEXT_TEMPLATES_FOLDER)
+}
+
+export interface ContextTemplateData {
+    readonly taskNodeId: NodeIdAndFilePath
+    readonly taskTitle: string
+    readonly taskContent: string
+    // Root first, down to the task node's parent
+    readonly ancestorIds: readonly NodeIdAndFilePath[]
+    readonly siblingIds: readonly NodeIdAndFilePath[]
+    readonly neighborhoodAscii: string
+    // Budgeted contents of the neighborhood, ending with the task block
+    readonly nodeContents: string
+    readonly semanticNodeIds: readonly NodeIdAndFilePath[]
+    // Nodes not shown in full (shortened to fit the token budget)
+    readonly unseenNodeIds: readonly NodeIdAndFilePath[]
+    // Every node the context node covers
+    readonly containedNodeIds: readonly NodeIdAndFilePath[]
+}
+
+/**
+ * Layout used when no template is chosen: the neighborhood tree, then the node contents.
+ */
+export const DEFAULT_CONTEXT_TEMPLATE: string = `# ctx
+Nearby nodes to: {{TASK_NODE_ID}}
+\`\`\`
+{{NEIGHBORHOOD_ASCII}}
+\`\`\`
+
+## Node Contents
+{{NODE_CONTENTS}}
+
+`
+
+/**
+ * Ancestors of a node, root first, following the first non-context parent of each node.
+ * Stops at a root or when a cycle would repeat a node.
+ */
+export function getAncestorIds(graph: Graph, nodeId: NodeIdAndFilePath): readonly NodeIdAndFilePath[] {
+    const collect: (currentId: NodeIdAndFilePath, ancestors: readonly NodeIdAndFilePath[]) => readonly NodeIdAndFilePath[] = (currentId, ancestors) => {
+        const node: GraphNode | undefined = graph.nodes[currentId]
+        const parent: GraphNode | undefined = node
+            ? getIncomingNodes(node, graph).find(candidate => !candidate.nodeUIMetadata.isContextNode)
+            : undefined
+        if (!parent || parent.absoluteFilePathIsID === nodeId || ancestors.includes(parent.absoluteFilePathIsID)) {
+            return ancestors
+        }
+        return collect(parent.absoluteFilePathIsID, [parent.absoluteFilePathIsID, ...ancestors])
+    }
+    return collect(nodeId, [])
+}
+
+/**
+ * Other children of the node's parents (context nodes excluded), in parent then edge order.
+ */
+export function getSiblingIds(graph: Graph, nodeId: NodeIdAndFilePath): readonly NodeIdAndFilePath[] {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    if (!node) {
+        return []
+    }
+    const siblingIds: readonly NodeIdAndFilePath[] = getIncomingNodes(node, graph)
+        .flatMap(parent => parent.outgoingEdges.map(edge => edge.targetId))
+        .filter(id => id !== nodeId && graph.nodes[id] !== undefined && !graph.nodes[id].nodeUIMetadata.isContextNode)
+    return [...new Set(siblingIds)]
+}
+
+/**
+ * Strips the template file's own frontmatter, if any.
+ */
+export function getContextTemplateBody(templateFileContent: string): string {
+    return templateFileContent.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '')
+}
+
+function formatNodeList(graph: Graph, nodeIds: readonly NodeIdAndFilePath[]): string {
+    return nodeIds
+        .map(nodeId => graph.nodes[nodeId] ? `- ${getNodeTitle(graph.nodes[nodeId])} (${nodeId})` : `- ${nodeId}`)
+        .join('\n')
+}
+
+/**
+ * Replaces the {{PLACEHOLDER}} markers in a template. Unknown placeholders are left as written,
+ * and placeholders inside inserted node content are not expanded.
+ */
+export function renderContextTemplate(template: string, data: ContextTemplateData, graph: Graph): string {
+    const values: Readonly<Record<string, string>> = {
+        TASK_NODE_ID: data.taskNodeId,
+        TASK_TITLE: data.taskTitle,
+        TASK: data.taskContent,
+        ANCESTORS: formatNodeList(graph, data.ancestorIds),
+        SIBLINGS: formatNodeList(graph, data.siblingIds),
+        NEIGHBORHOOD_ASCII: data.neighborhoodAscii,
+        NODE_CONTENTS: data.nodeContents,
+        SEMANTIC_HITS: formatNodeList(graph, data.semanticNodeIds),
+        UNSEEN_NODES: formatNodeList(graph, data.unseenNodeIds),
+        NODE_PATHS: data.containedNodeIds.join('\n')
+    }
+    return template.replace(/\{\{([A-Z_]+)\}\}/g, (placeholder: string, name: string) => values[name] ?? placeholder)
+}
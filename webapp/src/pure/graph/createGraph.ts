@@ -4,7 +4,8 @@
 
 import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
 import { buildIncomingEdgesIndex } from '@/pure/graph/graph-operations/incomingEdgesIndex'
-import { buildNodeByBaseNameIndex, buildUnresolvedLinksIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import { buildTagIndex } from '@/pure/graph/graph-operations/tagIndex'
+import { buildNodeByAliasIndex, buildNodeByBaseNameIndex, buildUnresolvedLinksIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
 
 /**
  * Create an empty graph with initialized (empty) indexes.
@@ -14,7 +15,9 @@ export function createEmptyGraph(): Graph {
     nodes: {},
     incomingEdgesIndex: new Map(),
     nodeByBaseName: new Map(),
-    unresolvedLinksIndex: new Map()
+    nodeByAlias: new Map(),
+    unresolvedLinksIndex: new Map(),
+    tagIndex: new Map()
   }
 }
 
@@ -26,6 +29,8 @@ export function createGraph(nodes: Record<NodeIdAndFilePath, GraphNode>): Graph
     nodes,
     incomingEdgesIndex: buildIncomingEdgesIndex(nodes),
     nodeByBaseName: buildNodeByBaseNameIndex(nodes),
-    unresolvedLinksIndex: buildUnresolvedLinksIndex(nodes)
+    nodeByAlias: buildNodeByAliasIndex(nodes),
+    unresolvedLinksIndex: buildUnresolvedLinksIndex(nodes),
+    tagIndex: buildTagIndex(nodes)
   }
 }
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { exportGraph, graphToDot, graphToGraphML, graphToJson, graphToMermaid, toExportedGraph } from './exportGraph'
+import type { Edge, FrontmatterProps, Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(
+    id: string,
+    content: string,
+    outgoingEdges: readonly Edge[] = [],
+    additionalYAMLProps: FrontmatterProps = {}
+): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: id.endsWith('api.md') ? O.some('#ff0000') : O.none,
+            position: O.some({ x: 10, y: 20 }),
+            additionalYAMLProps
+        }
+    }
+}
+
+function createVault(): Graph {
+    return createGraph({
+        '/vault/docs/api.md': createNode('/vault/docs/api.md', '# API "v2"', [
+            { targetId: '/vault/docs/db/store.md', label: 'depends on' },
+            { targetId: 'missing', label: '' }
+        ], { tags: ['spec'] }),
+        '/vault/docs/db/store.md': createNode('/vault/docs/db/store.md', '# Store | cache', [
+            { targetId: '/vault/docs/api.md', label: '', anchor: '#Usage' }
+        ])
+    })
+}
+
+describe('toExportedGraph', () => {
+    it('should write IDs relative to the common folder and skip unresolved links', () => {
+        expect(toExportedGraph(createVault())).toEqual({
+            nodes: [
+                { id: 'api.md', title: 'API "v2"', position: { x: 10, y: 20 }, color: '#ff0000', tags: ['spec'], metadata: { tags: ['spec'] } },
+                { id: 'db/store.md', title: 'Store | cache', position: { x: 10, y: 20 }, color: null, tags: [], metadata: {} }
+            ],
+            edges: [
+                { source: 'api.md', target: 'db/store.md', label: 'depends on' },
+                { source: 'db/store.md', target: 'api.md', label: '', anchor: '#Usage' }
+            ]
+        })
+    })
+})
+
+describe('graphToJson', () => {
+    it('should round-trip through JSON.parse', () => {
+        expect(JSON.parse(graphToJson(createVault()))).toEqual(toExportedGraph(createVault()))
+    })
+})
+
+describe('graphToGraphML', () => {
+    it('should escape XML and keep positions and labels', () => {
+        const graphML: string = graphToGraphML(createVault())
+
+        expect(graphML).toContain('<node id="api.md"><data key="title">API &quot;v2&quot;</data><data key="x">10</data><data key="y">20</data><data key="color">#ff0000</data><data key="tags">spec</data></node>')
+        expect(graphML).toContain('<edge id="e0" source="api.md" target="db/store.md"><data key="label">depends on</data></edge>')
+    })
+})
+
+describe('graphToDot', () => {
+    it('should quote IDs and titles', () => {
+        expect(graphToDot(createVault())).toBe([
+            'digraph G {',
+            '  "api.md" [label="API \\"v2\\"", color="#ff0000"];',
+            '  "db/store.md" [label="Store | cache"];',
+            '  "api.md" -> "db/store.md" [label="depends on"];',
+            '  "db/store.md" -> "api.md";',
+            '}',
+            ''
+        ].join('\n'))
+    })
+})
+
+describe('graphToMermaid', () => {
+    it('should use short IDs and entity codes for quotes and pipes', () => {
+        expect(graphToMermaid(createVault())).toBe([
+            'flowchart TD',
+            '    n0["API #quot;v2#quot;"]',
+            '    n1["Store #124; cache"]',
+            '    n0 -->|depends on| n1',
+            '    n1 --> n0',
+            ''
+        ].join('\n'))
+    })
+})
+
+describe('exportGraph', () => {
+    it('should dispatch on the format', () => {
+        expect(exportGraph(createVault(), 'mermaid')).toBe(graphToMermaid(createVault()))
+        expect(exportGraph(createGraph({}), 'dot')).toBe('digraph G {\n}\n')
+    })
+})
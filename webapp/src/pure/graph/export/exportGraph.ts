@@ -0,0 +1,210 @@
+/**
+ * Pure exporters turning a Graph into text for other tools:
+ * JSON (full data), GraphML (Gephi, yEd), DOT (Graphviz) and Mermaid flowcharts (Markdown docs and PRs).
+ *
+ * Node IDs are written relative to the folder containing all exported nodes, so exports don't
+ * leak local paths and stay stable when the vault moves. Edges to nodes outside the graph
+ * (unresolved links, or nodes outside the export scope) are left out.
+ */
+
+import type { Edge, FrontmatterProps, Graph, GraphNode, NodeIdAndFilePath, Position } from '@/pure/graph'
+import * as O from 'fp-ts/lib/Option.js'
+import { getNodeTitle } from '@/pure/graph/markdown-parsing'
+import { getNodeTags } from '@/pure/graph/tags'
+
+export const GRAPH_EXPORT_FORMATS: readonly ['json', 'graphml', 'dot', 'mermaid'] = ['json', 'graphml', 'dot', 'mermaid']
+
+export type GraphExportFormat = typeof GRAPH_EXPORT_FORMATS[number]
+
+export const GRAPH_EXPORT_FILE_EXTENSIONS: Readonly<Record<GraphExportFormat, string>> = {
+    json: 'json',
+    graphml: 'graphml',
+    dot: 'dot',
+    mermaid: 'mmd'
+}
+
+export const GRAPH_EXPORT_FORMAT_LABELS: Readonly<Record<GraphExportFormat, string>> = {
+    json: 'JSON',
+    graphml: 'GraphML',
+    dot: 'DOT (Graphviz)',
+    mermaid: 'Mermaid'
+}
+
+export interface ExportedNode {
+    readonly id: string
+    readonly title: string
+    readonly position: Position | null
+    readonly color: string | null
+    readonly tags: readonly string[]
+    readonly metadata: FrontmatterProps
+}
+
+export interface ExportedEdge {
+    readonly source: string
+    readonly target: string
+    readonly label: string
+    readonly anchor?: string
+}
+
+export interface ExportedGraph {
+    readonly nodes: readonly ExportedNode[]
+    readonly edges: readonly ExportedEdge[]
+}
+
+/**
+ * Folder shared by every node ID, with trailing slash ('' if they share none).
+ *
+ * @example
+ * getCommonFolder(['/vault/a/x.md', '/vault/b/y.md']) => '/vault/'
+ */
+function getCommonFolder(nodeIds: readonly NodeIdAndFilePath[]): string {
+    const folders: readonly (readonly string[])[] = nodeIds.map(id => id.split('/').slice(0, -1))
+    if (folders.length === 0) {
+        return ''
+    }
+    const common: readonly string[] = folders.reduce((prefix, folder) => {
+        const mismatchIndex: number = prefix.findIndex((part, i) => part !== folder[i])
+        return mismatchIndex === -1 ? prefix : prefix.slice(0, mismatchIndex)
+    }, folders[0])
+    return common.length === 0 ? '' : `${common.join('/')}/`
+}
+
+/**
+ * The graph as plain data: nodes sorted by ID, then edges in node order.
+ */
+export function toExportedGraph(graph: Graph): ExportedGraph {
+    const nodeIds: readonly NodeIdAndFilePath[] = Object.keys(graph.nodes).sort()
+    const commonFolder: string = getCommonFolder(nodeIds)
+    const toExportId: (nodeId: NodeIdAndFilePath) => string = (nodeId: NodeIdAndFilePath): string => nodeId.slice(commonFolder.length)
+
+    const nodes: readonly ExportedNode[] = nodeIds.map((nodeId): ExportedNode => {
+        const node: GraphNode = graph.nodes[nodeId]
+        return {
+            id: toExportId(nodeId),
+            title: getNodeTitle(node),
+            position: O.toNullable(node.nodeUIMetadata.position),
+            color: O.toNullable(node.nodeUIMetadata.color),
+            tags: getNodeTags(node),
+            metadata: node.nodeUIMetadata.additionalYAMLProps
+        }
+    })
+    const edges: readonly ExportedEdge[] = nodeIds.flatMap(nodeId => graph.nodes[nodeId].outgoingEdges
+        .filter((edge: Edge) => graph.nodes[edge.targetId] !== undefined)
+        .map((edge: Edge): ExportedEdge => ({
+            source: toExportId(nodeId),
+            target: toExportId(edge.targetId),
+            label: edge.label,
+            ...(edge.anchor ? { anchor: edge.anchor } : {})
+        })))
+
+    return { nodes, edges }
+}
+
+export function graphToJson(graph: Graph): string {
+    return JSON.stringify(toExportedGraph(graph), null, 2) + '\n'
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+function graphMLData(key: string, value: string | number): string {
+    return `<data key="${key}">${escapeXml(String(value))}</data>`
+}
+
+/**
+ * GraphML with title, position and color on nodes and the relationship label on edges.
+ */
+export function graphToGraphML(graph: Graph): string {
+    const exported: ExportedGraph = toExportedGraph(graph)
+    const nodeLines: readonly string[] = exported.nodes.map(node => [
+        `    <node id="${escapeXml(node.id)}">`,
+        graphMLData('title', node.title),
+        ...(node.position ? [graphMLData('x', node.position.x), graphMLData('y', node.position.y)] : []),
+        ...(node.color ? [graphMLData('color', node.color)] : []),
+        ...(node.tags.length > 0 ? [graphMLData('tags', node.tags.join(' '))] : []),
+        '</node>'
+    ].join(''))
+    const edgeLines: readonly string[] = exported.edges.map((edge, index) =>
+        `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">${graphMLData('label', edge.label)}</edge>`
+    )
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        '  <key id="title" for="node" attr.name="title" attr.type="string"/>',
+        '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+        '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+        '  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+        '  <key id="tags" for="node" attr.name="tags" attr.type="string"/>',
+        '  <key id="label" for="edge" attr.name="label" attr.type="string"/>',
+        '  <graph id="G" edgedefault="directed">',
+        ...nodeLines,
+        ...edgeLines,
+        '  </graph>',
+        '</graphml>',
+        ''
+    ].join('\n')
+}
+
+function quoteDot(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`
+}
+
+/**
+ * Graphviz digraph; nodes are labelled with their titles.
+ */
+export function graphToDot(graph: Graph): string {
+    const exported: ExportedGraph = toExportedGraph(graph)
+    const nodeLines: readonly string[] = exported.nodes.map(node => {
+        const color: string = node.color ? `, color=${quoteDot(node.color)}` : ''
+        return `  ${quoteDot(node.id)} [label=${quoteDot(node.title)}${color}];`
+    })
+    const edgeLines: readonly string[] = exported.edges.map(edge => {
+        const label: string = edge.label ? ` [label=${quoteDot(edge.label)}]` : ''
+        return `  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${label};`
+    })
+    return ['digraph G {', ...nodeLines, ...edgeLines, '}', ''].join('\n')
+}
+
+/**
+ * Mermaid has no escape character; quotes and pipes are written as entity codes.
+ */
+function escapeMermaid(text: string): string {
+    return text.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\r?\n/g, ' ')
+}
+
+/**
+ * Mermaid flowchart (top-down). Nodes get short IDs (n0, n1, ...) since Mermaid IDs can't hold paths.
+ */
+export function graphToMermaid(graph: Graph): string {
+    const exported: ExportedGraph = toExportedGraph(graph)
+    const mermaidIds: ReadonlyMap<string, string> = new Map(exported.nodes.map((node, index) => [node.id, `n${index}`]))
+    const nodeLines: readonly string[] = exported.nodes.map(node =>
+        `    ${mermaidIds.get(node.id)}["${escapeMermaid(node.title)}"]`
+    )
+    const edgeLines: readonly string[] = exported.edges.map(edge => {
+        const arrow: string = edge.label ? `-->|${escapeMermaid(edge.label)}|` : '-->'
+        return `    ${mermaidIds.get(edge.source)} ${arrow} ${mermaidIds.get(edge.target)}`
+    })
+    return ['flowchart TD', ...nodeLines, ...edgeLines, ''].join('\n')
+}
+
+/**
+ * Exports a graph in the given format. Use getGraphForExportScope to export part of the graph.
+ */
+export function exportGraph(graph: Graph, format: GraphExportFormat): string {
+    switch (format) {
+        case 'json':
+            return graphToJson(graph)
+        case 'graphml':
+            return graphToGraphML(graph)
+        case 'dot':
+            return graphToDot(graph)
+        case 'mermaid':
+            return graphToMermaid(graph)
+    }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { getGraphForExportScope } from './graphExportScope'
+import type { Edge, Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, outgoingEdges: readonly Edge[] = [], isContextNode: boolean = false): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges,
+        contentWithoutYamlOrLinks: '# Node',
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode
+        }
+    }
+}
+
+// a -> b -> c -> d, plus a context node pointing at a
+function createChain(): Graph {
+    return createGraph({
+        '/vault/a.md': createNode('/vault/a.md', [{ targetId: '/vault/b.md', label: '' }]),
+        '/vault/b.md': createNode('/vault/b.md', [{ targetId: '/vault/c.md', label: '' }]),
+        '/vault/c.md': createNode('/vault/c.md', [{ targetId: '/vault/d.md', label: '' }]),
+        '/vault/d.md': createNode('/vault/d.md'),
+        '/vault/ctx-nodes/ctx.md': createNode('/vault/ctx-nodes/ctx.md', [{ targetId: '/vault/a.md', label: '' }], true)
+    })
+}
+
+describe('getGraphForExportScope', () => {
+    it('should export every node but context nodes for the vault scope', () => {
+        const result: Graph = getGraphForExportScope(createChain(), { kind: 'vault' })
+
+        expect(Object.keys(result.nodes).sort()).toEqual(['/vault/a.md', '/vault/b.md', '/vault/c.md', '/vault/d.md'])
+    })
+
+    it('should keep only the edges between selected nodes', () => {
+        const result: Graph = getGraphForExportScope(createChain(), { kind: 'selection', nodeIds: ['/vault/a.md', '/vault/b.md', '/vault/d.md', '/vault/missing.md'] })
+
+        expect(Object.keys(result.nodes).sort()).toEqual(['/vault/a.md', '/vault/b.md', '/vault/d.md'])
+        expect(result.nodes['/vault/b.md'].outgoingEdges).toEqual([])
+        expect(result.nodes['/vault/a.md'].outgoingEdges).toEqual([{ targetId: '/vault/b.md', label: '' }])
+    })
+
+    it('should export the neighborhood of a node', () => {
+        // Outgoing hops cost 1.5: b and c are within 3.5 of a, d is not
+        const result: Graph = getGraphForExportScope(createChain(), { kind: 'neighborhood', nodeId: '/vault/a.md', distance: 3.5 })
+
+        expect(Object.keys(result.nodes).sort()).toEqual(['/vault/a.md', '/vault/b.md', '/vault/c.md'])
+    })
+})
@@ -0,0 +1,39 @@
+import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import { removeContextNodes } from '@/pure/graph/graph-operations/removeContextNodes'
+import { getSubgraphByDistance } from '@/pure/graph/graph-operations/traversal/getSubgraphByDistance'
+
+/**
+ * Which part of the graph an export covers:
+ * - vault: every node
+ * - selection: the given nodes and the edges between them
+ * - neighborhood: every node within `distance` of nodeId (see getSubgraphByDistance)
+ */
+export type GraphExportScope =
+    | { readonly kind: 'vault' }
+    | { readonly kind: 'selection'; readonly nodeIds: readonly NodeIdAndFilePath[] }
+    | { readonly kind: 'neighborhood'; readonly nodeId: NodeIdAndFilePath; readonly distance: number }
+
+/**
+ * The graph to export for a scope. Context nodes are left out of every scope (with their edges
+ * bridged, as in removeContextNodes): they are agent scaffolding, not part of the architecture.
+ */
+export function getGraphForExportScope(graph: Graph, scope: GraphExportScope): Graph {
+    switch (scope.kind) {
+        case 'vault':
+            return removeContextNodes(graph)
+        case 'selection': {
+            const selectedIds: ReadonlySet<NodeIdAndFilePath> = new Set(
+                scope.nodeIds.filter(id => graph.nodes[id] !== undefined && graph.nodes[id].nodeUIMetadata.isContextNode !== true)
+            )
+            return createGraph(Object.fromEntries(
+                [...selectedIds].map((id): readonly [NodeIdAndFilePath, GraphNode] => [id, {
+                    ...graph.nodes[id],
+                    outgoingEdges: graph.nodes[id].outgoingEdges.filter(edge => selectedIds.has(edge.targetId))
+                }])
+            ))
+        }
+        case 'neighborhood':
+            return getSubgraphByDistance(graph, scope.nodeId, scope.distance)
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Splitting raw frontmatter text into its top-level entries, so entries whose value did
+ * not change can be written back exactly as they were read (formatting, quoting, comments).
+ */
+
+import * as E from 'fp-ts/lib/Either.js'
+import matter from 'gray-matter'
+import type { FrontmatterProps } from '@/pure/graph'
+import { toFrontmatterProps } from './frontmatterValues'
+
+export interface FrontmatterSourceEntry {
+    readonly key: string
+    // The entry's lines, each ending in '\n', including nested lines and trailing comments
+    readonly text: string
+}
+
+export interface FrontmatterSource {
+    // Comment and blank lines before the first key
+    readonly preamble: string
+    readonly entries: readonly FrontmatterSourceEntry[]
+    // The parsed value of each key, for telling which entries are unchanged
+    readonly values: FrontmatterProps
+}
+
+// A top-level key: a line starting in column 0 that is not a list item, comment or indentation
+const TOP_LEVEL_KEY_REGEX: RegExp = /^(?![-#\s]|\.\.\.)(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^:]*?[^\s:]))\s*:(?=\s|$)/
+
+function parseTopLevelKey(line: string): string | undefined {
+    const match: RegExpMatchArray | null = line.match(TOP_LEVEL_KEY_REGEX)
+    if (!match) {
+        return undefined
+    }
+    if (match[1] !== undefined) {
+        return E.getOrElse(() => match[1])(E.tryCatch(() => JSON.parse(`"${match[1]}"`) as string, () => match[1]))
+    }
+    return match[2] !== undefined ? match[2].replace(/''/g, "'") : match[3]
+}
+
+function parseSourceValues(source: string): FrontmatterProps {
+    return E.getOrElse((): FrontmatterProps => ({}))(E.tryCatch(
+        () => toFrontmatterProps(matter(`---\n${source}\n---\n`).data),
+        (error: unknown) => error
+    ))
+}
+
+/**
+ * Splits frontmatter text (without the --- fences) into its top-level entries.
+ * Lines that belong to no key (e.g. leading comments) form the preamble.
+ *
+ * @example
+ * splitFrontmatterSource('# note\ntags:\n  - a\nstatus: draft')
+ * // => { preamble: '# note\n',
+ * //      entries: [{ key: 'tags', text: 'tags:\n  - a\n' }, { key: 'status', text: 'status: draft\n' }], ... }
+ */
+export function splitFrontmatterSource(source: string): FrontmatterSource {
+    type Split = { readonly preamble: string; readonly entries: readonly FrontmatterSourceEntry[] }
+    const split: Split = source.split('\n').reduce<Split>(
+        (acc: Split, line: string): Split => {
+            const key: string | undefined = parseTopLevelKey(line)
+            if (key !== undefined) {
+                return { ...acc, entries: [...acc.entries, { key, text: `${line}\n` }] }
+            }
+            if (acc.entries.length === 0) {
+                return { ...acc, preamble: `${acc.preamble}${line}\n` }
+            }
+            const last: FrontmatterSourceEntry = acc.entries[acc.entries.length - 1]
+            return { ...acc, entries: [...acc.entries.slice(0, -1), { ...last, text: `${last.text}${line}\n` }] }
+        },
+        { preamble: '', entries: [] }
+    )
+    return { ...split, values: parseSourceValues(source) }
+}
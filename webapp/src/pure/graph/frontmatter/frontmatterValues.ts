@@ -0,0 +1,100 @@
+/**
+ * Typed frontmatter values (see FrontmatterValue in pure/graph).
+ *
+ * YAML is parsed into plain data: lists, nested objects, numbers and booleans keep their
+ * types, and dates become ISO date strings, so values survive IPC and can be written back
+ * as the same YAML.
+ */
+
+import type { FrontmatterProps, FrontmatterValue } from '@/pure/graph'
+
+/**
+ * ISO form of a YAML date: "2024-01-15" for dates without a time, full ISO otherwise.
+ */
+function dateToFrontmatterValue(date: Date): string {
+    const iso: string = date.toISOString()
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso
+}
+
+/**
+ * Converts a value parsed by the YAML parser into a FrontmatterValue.
+ */
+export function toFrontmatterValue(value: unknown): FrontmatterValue {
+    if (value === null || value === undefined) {
+        return null
+    }
+    if (typeof value === 'string' || typeof value === 'boolean') {
+        return value
+    }
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? value : String(value)
+    }
+    if (value instanceof Date) {
+        return dateToFrontmatterValue(value)
+    }
+    if (Array.isArray(value)) {
+        return value.map(toFrontmatterValue)
+    }
+    if (typeof value === 'object') {
+        return toFrontmatterProps(value as Record<string, unknown>)
+    }
+    return String(value)
+}
+
+/**
+ * Converts parsed YAML data into FrontmatterProps, dropping undefined entries.
+ */
+export function toFrontmatterProps(data: Record<string, unknown>): FrontmatterProps {
+    return Object.fromEntries(
+        Object.entries(data)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, toFrontmatterValue(value)])
+    )
+}
+
+export function isFrontmatterObject(value: FrontmatterValue | undefined): value is FrontmatterProps {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Deep equality of two frontmatter values. Object key order is ignored.
+ */
+export function isSameFrontmatterValue(a: FrontmatterValue, b: FrontmatterValue): boolean {
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length
+            && a.every((item: FrontmatterValue, index: number) => isSameFrontmatterValue(item, b[index]))
+    }
+    if (isFrontmatterObject(a) || isFrontmatterObject(b)) {
+        if (!isFrontmatterObject(a) || !isFrontmatterObject(b)) {
+            return false
+        }
+        const keys: readonly string[] = Object.keys(a)
+        return keys.length === Object.keys(b).length
+            && keys.every((key: string) => key in b && isSameFrontmatterValue(a[key], b[key]))
+    }
+    return a === b
+}
+
+/**
+ * A scalar frontmatter value as a string (numbers and booleans included).
+ * Lists, objects, null and missing keys give undefined.
+ */
+export function getFrontmatterString(props: FrontmatterProps | undefined, key: string): string | undefined {
+    const value: FrontmatterValue | undefined = props?.[key]
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+        ? String(value)
+        : undefined
+}
+
+/**
+ * The scalars of a value as strings: a list is flattened (`[[a]]` parses as a nested list),
+ * a scalar gives one string, null and objects give none.
+ */
+export function getFrontmatterStrings(value: FrontmatterValue | undefined): readonly string[] {
+    if (Array.isArray(value)) {
+        return value.flatMap(getFrontmatterStrings)
+    }
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+        ? [String(value)]
+        : []
+}
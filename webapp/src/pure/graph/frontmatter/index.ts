@@ -0,0 +1,14 @@
+export {
+    getFrontmatterString,
+    getFrontmatterStrings,
+    isFrontmatterObject,
+    isSameFrontmatterValue,
+    toFrontmatterProps,
+    toFrontmatterValue,
+} from './frontmatterValues'
+
+export {
+    splitFrontmatterSource,
+    type FrontmatterSource,
+    type FrontmatterSourceEntry,
+} from './frontmatterSource'
@@ -1,13 +1,10 @@
 import {describe, it, expect} from 'vitest'
 import * as O from 'fp-ts/lib/Option.js'
 import {getNodesByAgentName} from './getNodesByAgentName'
-import type {Graph, GraphNode} from '@/pure/graph'
+import type {FrontmatterProps, Graph, GraphNode} from '@/pure/graph'
 
 function createMockNode(nodeId: string, agentName?: string): GraphNode {
-    const additionalYAMLProps: Map<string, string> = new Map()
-    if (agentName) {
-        additionalYAMLProps.set('agent_name', agentName)
-    }
+    const additionalYAMLProps: FrontmatterProps = agentName ? {agent_name: agentName} : {}
     return {
         absoluteFilePathIsID: nodeId,
         contentWithoutYamlOrLinks: 'test content',
@@ -29,7 +26,9 @@ function createMockGraph(nodes: GraphNode[]): Graph {
         nodes: nodesRecord,
         incomingEdgesIndex: new Map(),
         nodeByBaseName: new Map(),
-        unresolvedLinksIndex: new Map()
+        nodeByAlias: new Map(),
+        unresolvedLinksIndex: new Map(),
+        tagIndex: new Map()
     }
 }
 
@@ -1,4 +1,5 @@
 import type {Graph, GraphNode} from '@/pure/graph'
+import {getFrontmatterString} from '@/pure/graph/frontmatter'
 
 /**
  * Find all nodes in a graph that were created by a specific agent.
@@ -14,7 +15,7 @@ export function getNodesByAgentName(
 ): readonly GraphNode[] {
     const result: GraphNode[] = []
     for (const node of Object.values(graph.nodes)) {
-        const nodeAgentName: string | undefined = node.nodeUIMetadata.additionalYAMLProps.get('agent_name')
+        const nodeAgentName: string | undefined = getFrontmatterString(node.nodeUIMetadata.additionalYAMLProps, 'agent_name')
         if (nodeAgentName === agentName) {
             result.push(node)
         }
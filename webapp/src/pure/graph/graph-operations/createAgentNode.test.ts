@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import { createAgentNode } from '@/pure/graph/graph-operations/createAgentNode'
+import type { Graph, GraphNode, Edge, NodeIdAndFilePath, GraphDelta, UpsertNodeDelta } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+const createTestNode: (id: string, edges?: readonly Edge[], content?: string) => GraphNode = (
+  id: string,
+  edges: readonly Edge[] = [],
+  content: string = '# test'
+): GraphNode => ({
+  absoluteFilePathIsID: id as NodeIdAndFilePath,
+  outgoingEdges: edges,
+  contentWithoutYamlOrLinks: content,
+  nodeUIMetadata: {
+    color: O.none,
+    position: O.some({ x: 0, y: 0 }),
+    additionalYAMLProps: {},
+    isContextNode: false
+  }
+})
+
+function getUpsertedNode(delta: GraphDelta): GraphNode {
+  return (delta[0] as UpsertNodeDelta).nodeToUpsert
+}
+
+describe('createAgentNode', () => {
+  it('derives a snake_case node ID from the title inside writePath', () => {
+    const graph: Graph = createGraph({})
+
+    const delta: GraphDelta = createAgentNode({
+      title: 'Fix Auth Bug',
+      content: 'Details here',
+      agentName: 'Wendy',
+      graph,
+      writePath: '/vault'
+    })
+
+    expect(delta).toHaveLength(1)
+    expect(getUpsertedNode(delta).absoluteFilePathIsID).toBe('/vault/fix_auth_bug.md')
+    expect((delta[0] as UpsertNodeDelta).previousNode).toEqual(O.none)
+  })
+
+  it('appends a suffix when the derived ID already exists', () => {
+    const graph: Graph = createGraph({
+      '/vault/fix_auth_bug.md': createTestNode('/vault/fix_auth_bug.md')
+    })
+
+    const delta: GraphDelta = createAgentNode({
+      title: 'Fix Auth Bug',
+      content: '',
+      agentName: 'Wendy',
+      graph,
+      writePath: '/vault'
+    })
+
+    expect(getUpsertedNode(delta).absoluteFilePathIsID).toBe('/vault/fix_auth_bug_2.md')
+  })
+
+  it('stamps agent_name into additionalYAMLProps', () => {
+    const graph: Graph = createGraph({})
+
+    const node: GraphNode = getUpsertedNode(createAgentNode({
+      title: 'Progress',
+      content: 'Did things',
+      agentName: 'Wendy',
+      graph,
+      writePath: '/vault'
+    }))
+
+    expect(node.nodeUIMetadata.additionalYAMLProps.agent_name).toBe('Wendy')
+  })
+
+  it('uses the title as heading and keeps the content', () => {
+    const graph: Graph = createGraph({})
+
+    const node: GraphNode = getUpsertedNode(createAgentNode({
+      title: 'Progress',
+      content: 'Did things',
+      agentName: 'Wendy',
+      graph,
+      writePath: '/vault'
+    }))
+
+    expect(node.contentWithoutYamlOrLinks).toContain('# Progress')
+    expect(node.contentWithoutYamlOrLinks).toContain('Did things')
+  })
+
+  it('links to the parent and positions the node around it', () => {
+    const parent: GraphNode = createTestNode('/vault/parent.md')
+    const graph: Graph = createGraph({ '/vault/parent.md': parent })
+
+    const node: GraphNode = getUpsertedNode(createAgentNode({
+      title: 'Child',
+      content: '',
+      agentName: 'Wendy',
+      graph,
+      writePath: '/vault',
+      parentNodeId: '/vault/parent.md'
+    }))
+
+    expect(node.outgoingEdges.map(e => e.targetId)).toEqual(['/vault/parent.md'])
+    expect(O.isSome(node.nodeUIMetadata.position)).toBe(true)
+  })
+
+  it('resolves wikilinks in content against the graph', () => {
+    const graph: Graph = createGraph({ '/vault/other.md': createTestNode('/vault/other.md') })
+
+    const node: GraphNode = getUpsertedNode(createAgentNode({
+      title: 'Linked',
+      content: 'see [[other]]',
+      agentName: 'Wendy',
+      graph,
+      writePath: '/vault'
+    }))
+
+    expect(node.outgoingEdges.map(e => e.targetId)).toEqual(['/vault/other.md'])
+  })
+
+  it('applies the color when given', () => {
+    const graph: Graph = createGraph({})
+
+    const node: GraphNode = getUpsertedNode(createAgentNode({
+      title: 'Colored',
+      content: '',
+      agentName: 'Wendy',
+      graph,
+      writePath: '/vault',
+      color: 'green'
+    }))
+
+    expect(node.nodeUIMetadata.color).toEqual(O.some('green'))
+  })
+})
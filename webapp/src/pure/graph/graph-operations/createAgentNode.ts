@@ -0,0 +1,77 @@
+import type { Graph, GraphDelta, GraphNode, NodeIdAndFilePath, Position } from '@/pure/graph'
+import { computeNewNodeIdFromTitle } from '@/pure/graph/rename/computeNewNodeIdFromTitle'
+import { parseMarkdownToGraphNode } from '@/pure/graph/markdown-parsing/parse-markdown-to-node'
+import { calculateInitialPositionForChild } from '@/pure/graph/positioning/calculateInitialPosition'
+import * as O from 'fp-ts/lib/Option.js'
+
+export interface AgentNodeCreationParams {
+  readonly title: string
+  readonly content: string
+  readonly agentName: string
+  readonly graph: Graph
+  readonly writePath: string
+  readonly parentNodeId?: NodeIdAndFilePath
+  readonly color?: string
+}
+
+/**
+ * Computes the position of a new node linked to its parent.
+ *
+ * Agent nodes link child -> parent (like task nodes), so the parent's outgoing edge count
+ * does not grow as siblings are added. Use the parent's incoming edge count as the sibling index instead.
+ */
+function computeAgentNodePosition(graph: Graph, parentNodeId: NodeIdAndFilePath | undefined): O.Option<Position> {
+  if (parentNodeId === undefined) {
+    return O.none
+  }
+  const parentNode: GraphNode | undefined = graph.nodes[parentNodeId]
+  if (parentNode === undefined) {
+    return O.none
+  }
+  const siblingCount: number = graph.incomingEdgesIndex.get(parentNodeId)?.length ?? 0
+  return calculateInitialPositionForChild(parentNode, graph, siblingCount)
+}
+
+/**
+ * Creates a node on behalf of an agent.
+ *
+ * - Node ID is derived from the title (snake_case, unique within the graph) in writePath
+ * - agent_name is stamped into YAML so the node is attributed to the agent's terminal
+ * - If parentNodeId is given, the node links to its parent and is positioned around it
+ *
+ * @returns GraphDelta containing the new node
+ */
+export function createAgentNode(params: AgentNodeCreationParams): GraphDelta {
+  const { title, content, agentName, graph, writePath, parentNodeId, color } = params
+
+  // Only the folder prefix of the second argument is used
+  const existingIds: ReadonlySet<string> = new Set(Object.keys(graph.nodes))
+  const nodeId: NodeIdAndFilePath = computeNewNodeIdFromTitle(title, `${writePath}/`, existingIds)
+
+  const body: string = content.trim() === '' ? '' : `\n\n${content.trim()}`
+  const parentLink: string = parentNodeId !== undefined ? `\n\n- parent [[${parentNodeId}]]` : ''
+  const markdownContent: string = `# ${title}${body}${parentLink}\n`
+
+  const parsedNode: GraphNode = parseMarkdownToGraphNode(markdownContent, nodeId, graph)
+
+  const agentNode: GraphNode = {
+    ...parsedNode,
+    nodeUIMetadata: {
+      ...parsedNode.nodeUIMetadata,
+      color: color !== undefined ? O.some(color) : parsedNode.nodeUIMetadata.color,
+      position: computeAgentNodePosition(graph, parentNodeId),
+      additionalYAMLProps: {
+        ...parsedNode.nodeUIMetadata.additionalYAMLProps,
+        agent_name: agentName
+      }
+    }
+  }
+
+  return [
+    {
+      type: 'UpsertNode',
+      nodeToUpsert: agentNode,
+      previousNode: O.none
+    }
+  ]
+}
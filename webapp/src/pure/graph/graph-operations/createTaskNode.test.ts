@@ -15,7 +15,7 @@ const createTestNode: (id: string, edges?: readonly Edge[], content?: string) =>
   nodeUIMetadata: {
     color: O.none,
     position: O.some({ x: 0, y: 0 }),
-    additionalYAMLProps: new Map(),
+    additionalYAMLProps: {},
     isContextNode: false
   }
 })
@@ -52,6 +52,25 @@ describe('createTaskNode', () => {
       expect(delta.nodeToUpsert.contentWithoutYamlOrLinks).toContain('# Implement feature X')
     })
 
+    it('should start the task with a todo status in frontmatter', () => {
+      const nodes: Record<NodeIdAndFilePath, GraphNode> = {
+        '/vault/a.md': createTestNode('/vault/a.md', [])
+      }
+      const graph: Graph = createGraphFromNodes(nodes)
+
+      const result: GraphDelta = createTaskNode({
+        taskDescription: 'Implement feature X',
+        selectedNodeIds: ['/vault/a.md'],
+        graph,
+        writePath: '/vault',
+        position: { x: 0, y: 0 }
+      })
+
+      const delta: UpsertNodeDelta = result[0] as UpsertNodeDelta
+      expect(delta.nodeToUpsert.nodeUIMetadata.additionalYAMLProps).toEqual({ status: 'todo' })
+      expect(delta.nodeToUpsert.contentWithoutYamlOrLinks).not.toContain('status:')
+    })
+
     it('should create node with position from params', () => {
       const nodes: Record<NodeIdAndFilePath, GraphNode> = {
         '/vault/a.md': createTestNode('/vault/a.md', [])
@@ -2,6 +2,7 @@ import type { Graph, GraphDelta, GraphNode, NodeIdAndFilePath, Position } from '
 import { ensureUniqueNodeId } from '@/pure/graph/ensureUniqueNodeId'
 import { findMostConnectedNode } from '@/pure/graph/graph-operations/findMostConnectedNode'
 import { parseMarkdownToGraphNode } from '@/pure/graph/markdown-parsing/parse-markdown-to-node'
+import { INITIAL_TASK_STATUS, TASK_STATUS_YAML_KEY } from '@/pure/graph/task-status/taskStatus'
 import * as O from 'fp-ts/lib/Option.js'
 
 export interface TaskNodeCreationParams {
@@ -15,6 +16,7 @@ export interface TaskNodeCreationParams {
 /**
  * Creates a task node with the user's description and a parent edge to the most-connected
  * node from the selection. Context node references are handled separately.
+ * The node starts with a todo status, which terminal lifecycle events then advance.
  *
  * @param params - Parameters for task node creation
  * @returns GraphDelta containing the new task node
@@ -32,10 +34,13 @@ export function createTaskNode(params: TaskNodeCreationParams): GraphDelta {
   // Find most-connected node for parent relationship
   const mostConnectedNodeId: NodeIdAndFilePath = findMostConnectedNode(selectedNodeIds, graph)
 
-  // Build markdown content with task description and parent link only.
+  // Build markdown content with task status, description and parent link only.
   // Selected node references are stored in the context node, not here,
   // to avoid duplicate edges cluttering the graph.
-  const markdownContent: string = `# ${taskDescription}
+  const markdownContent: string = `---
+${TASK_STATUS_YAML_KEY}: ${INITIAL_TASK_STATUS}
+---
+# ${taskDescription}
 
 - parent [[${mostConnectedNodeId}]]
 `
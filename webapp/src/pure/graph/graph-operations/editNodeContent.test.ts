@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { replaceNodeContent, appendToNodeContent, addLabeledEdge } from '@/pure/graph/graph-operations/editNodeContent'
+import type { Graph, GraphNode, Edge, NodeIdAndFilePath, GraphDelta, UpsertNodeDelta } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import { fromNodeToMarkdownContent } from '@/pure/graph/markdown-writing/node_to_markdown'
+import { parseMarkdownToGraphNode } from '@/pure/graph/markdown-parsing/parse-markdown-to-node'
+import * as O from 'fp-ts/lib/Option.js'
+
+const createTestNode: (id: string, edges?: readonly Edge[], content?: string) => GraphNode = (
+  id: string,
+  edges: readonly Edge[] = [],
+  content: string = '# test'
+): GraphNode => ({
+  absoluteFilePathIsID: id as NodeIdAndFilePath,
+  outgoingEdges: edges,
+  contentWithoutYamlOrLinks: content,
+  nodeUIMetadata: {
+    color: O.some('blue'),
+    position: O.some({ x: 10, y: 20 }),
+    additionalYAMLProps: { agent_name: 'Wendy' },
+    isContextNode: false
+  }
+})
+
+function getUpsertedNode(delta: GraphDelta): GraphNode {
+  return (delta[0] as UpsertNodeDelta).nodeToUpsert
+}
+
+const baseGraph: Graph = createGraph({
+  '/vault/a.md': createTestNode('/vault/a.md', [{ targetId: '/vault/b.md', label: '' }], '# A\n[/vault/b.md]*'),
+  '/vault/b.md': createTestNode('/vault/b.md'),
+  '/vault/c.md': createTestNode('/vault/c.md')
+})
+
+describe('replaceNodeContent', () => {
+  it('replaces content and re-derives edges from the new wikilinks', () => {
+    const node: GraphNode = getUpsertedNode(replaceNodeContent(baseGraph, '/vault/a.md', '# A v2\nnow see [[c]]'))
+
+    expect(node.contentWithoutYamlOrLinks).toContain('# A v2')
+    expect(node.outgoingEdges.map(e => e.targetId)).toEqual(['/vault/c.md'])
+  })
+
+  it('preserves metadata', () => {
+    const node: GraphNode = getUpsertedNode(replaceNodeContent(baseGraph, '/vault/a.md', '# A v2'))
+
+    expect(node.nodeUIMetadata).toEqual(baseGraph.nodes['/vault/a.md'].nodeUIMetadata)
+  })
+
+  it('records the previous node for undo', () => {
+    const delta: GraphDelta = replaceNodeContent(baseGraph, '/vault/a.md', '# A v2')
+
+    expect((delta[0] as UpsertNodeDelta).previousNode).toEqual(O.some(baseGraph.nodes['/vault/a.md']))
+  })
+
+  it('returns an empty delta for missing nodes', () => {
+    expect(replaceNodeContent(baseGraph, '/vault/missing.md', '# x')).toEqual([])
+  })
+})
+
+describe('appendToNodeContent', () => {
+  it('keeps existing content and edges and adds new ones', () => {
+    const node: GraphNode = getUpsertedNode(appendToNodeContent(baseGraph, '/vault/a.md', 'more about [[c]]'))
+
+    expect(node.contentWithoutYamlOrLinks).toContain('# A')
+    expect(node.contentWithoutYamlOrLinks).toContain('more about')
+    expect(node.outgoingEdges.map(e => e.targetId)).toEqual(['/vault/b.md', '/vault/c.md'])
+  })
+
+  it('returns an empty delta for missing nodes', () => {
+    expect(appendToNodeContent(baseGraph, '/vault/missing.md', 'x')).toEqual([])
+  })
+})
+
+describe('addLabeledEdge', () => {
+  it('adds an edge with its label', () => {
+    const node: GraphNode = getUpsertedNode(addLabeledEdge(baseGraph, '/vault/b.md', '/vault/c.md', 'depends on'))
+
+    expect(node.outgoingEdges).toEqual([{ targetId: '/vault/c.md', label: 'depends on' }])
+  })
+
+  it('writes the label so it survives a markdown round-trip', () => {
+    const node: GraphNode = getUpsertedNode(addLabeledEdge(baseGraph, '/vault/b.md', '/vault/c.md', 'depends on'))
+
+    const reparsed: GraphNode = parseMarkdownToGraphNode(fromNodeToMarkdownContent(node), '/vault/b.md', baseGraph)
+
+    expect(reparsed.outgoingEdges).toEqual([{ targetId: '/vault/c.md', label: 'depends on' }])
+  })
+
+  it('returns an empty delta when the edge already exists', () => {
+    expect(addLabeledEdge(baseGraph, '/vault/a.md', '/vault/b.md')).toEqual([])
+  })
+
+  it('returns an empty delta when either node is missing', () => {
+    expect(addLabeledEdge(baseGraph, '/vault/missing.md', '/vault/c.md')).toEqual([])
+    expect(addLabeledEdge(baseGraph, '/vault/a.md', '/vault/missing.md')).toEqual([])
+  })
+})
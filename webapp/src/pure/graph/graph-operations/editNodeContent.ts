@@ -0,0 +1,87 @@
+import type { Graph, GraphDelta, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { parseMarkdownToGraphNode } from '@/pure/graph/markdown-parsing/parse-markdown-to-node'
+import { fromNodeToContentWithWikilinks } from '@/pure/graph/markdown-writing/node_to_markdown'
+import * as O from 'fp-ts/lib/Option.js'
+
+/**
+ * Content edits for existing nodes, expressed as GraphDeltas.
+ *
+ * Content is given as markdown WITHOUT frontmatter (wikilinks allowed).
+ * Node metadata (position, color, YAML props) is always preserved - only
+ * content and the edges derived from it change.
+ */
+
+function upsertWithParsedContent(graph: Graph, node: GraphNode, markdownWithoutYaml: string): GraphDelta {
+    const parsedNode: GraphNode = parseMarkdownToGraphNode(markdownWithoutYaml, node.absoluteFilePathIsID, graph)
+    return [{
+        type: 'UpsertNode',
+        nodeToUpsert: {
+            ...node,
+            contentWithoutYamlOrLinks: parsedNode.contentWithoutYamlOrLinks,
+            outgoingEdges: parsedNode.outgoingEdges
+        },
+        previousNode: O.some(node)
+    }]
+}
+
+/**
+ * Replaces the content of a node. Edges are re-derived from the wikilinks in the new content.
+ *
+ * @returns GraphDelta with the updated node, or empty delta if the node doesn't exist
+ */
+export function replaceNodeContent(graph: Graph, nodeId: NodeIdAndFilePath, markdownWithoutYaml: string): GraphDelta {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    if (node === undefined) {
+        return []
+    }
+    return upsertWithParsedContent(graph, node, markdownWithoutYaml)
+}
+
+/**
+ * Appends markdown to the end of a node's content. Existing edges are kept.
+ *
+ * @returns GraphDelta with the updated node, or empty delta if the node doesn't exist
+ */
+export function appendToNodeContent(graph: Graph, nodeId: NodeIdAndFilePath, markdownToAppend: string): GraphDelta {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    if (node === undefined) {
+        return []
+    }
+    const existingContent: string = fromNodeToContentWithWikilinks(node).trimEnd()
+    return upsertWithParsedContent(graph, node, `${existingContent}\n\n${markdownToAppend.trim()}\n`)
+}
+
+/**
+ * Adds an edge from source to target, written as a `- label [[target]]` line so the
+ * label survives the markdown round-trip (labels are parsed from the text preceding the link).
+ *
+ * @returns GraphDelta with the updated source node, or empty delta if either node is missing
+ *          or the edge already exists
+ */
+export function addLabeledEdge(
+    graph: Graph,
+    sourceNodeId: NodeIdAndFilePath,
+    targetNodeId: NodeIdAndFilePath,
+    label: string = ''
+): GraphDelta {
+    const sourceNode: GraphNode | undefined = graph.nodes[sourceNodeId]
+    if (sourceNode === undefined || graph.nodes[targetNodeId] === undefined) {
+        return []
+    }
+    if (sourceNode.outgoingEdges.some(e => e.targetId === targetNodeId)) {
+        return []
+    }
+
+    const trimmedLabel: string = label.trim()
+    const linkLine: string = trimmedLabel === '' ? `- [${targetNodeId}]*` : `- ${trimmedLabel} [${targetNodeId}]*`
+
+    return [{
+        type: 'UpsertNode',
+        nodeToUpsert: {
+            ...sourceNode,
+            contentWithoutYamlOrLinks: `${sourceNode.contentWithoutYamlOrLinks.trimEnd()}\n${linkLine}\n`,
+            outgoingEdges: [...sourceNode.outgoingEdges, { targetId: targetNodeId, label: trimmedLabel }]
+        },
+        previousNode: O.some(sourceNode)
+    }]
+}
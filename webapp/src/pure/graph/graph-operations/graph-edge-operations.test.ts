@@ -17,7 +17,7 @@ describe('graph-edge-operations', () => {
       color: O.none,
       position: O.none,
 
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
@@ -12,7 +12,7 @@ describe('graphToSpanningTree', () => {
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
@@ -380,7 +380,7 @@ describe('graphToSpanningTree', () => {
         nodeUIMetadata: {
           color: O.none,
           position: O.none,
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
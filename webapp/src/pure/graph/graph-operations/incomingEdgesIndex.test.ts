@@ -15,7 +15,7 @@ const createTestNode: (id: string, edges?: readonly Edge[]) => GraphNode = (id:
   nodeUIMetadata: {
     color: O.none,
     position: O.none,
-    additionalYAMLProps: new Map(),
+    additionalYAMLProps: {},
     isContextNode: false
   }
 })
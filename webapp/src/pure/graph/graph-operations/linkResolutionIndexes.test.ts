@@ -1,15 +1,19 @@
 import { describe, it, expect } from 'vitest'
 import {
+  buildNodeByAliasIndex,
   buildNodeByBaseNameIndex,
   buildUnresolvedLinksIndex,
   updateNodeByBaseNameIndexForUpsert,
   updateNodeByBaseNameIndexForDelete,
   updateUnresolvedLinksIndexForUpsert,
   updateUnresolvedLinksIndexForDelete,
-  getBaseName
+  updateNodeByAliasIndexForUpsert,
+  updateNodeByAliasIndexForDelete,
+  getBaseName,
+  getNodeAliases
 } from '@/pure/graph/graph-operations/linkResolutionIndexes'
-import type { NodeByBaseNameIndex, UnresolvedLinksIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
-import type { GraphNode, Edge, NodeIdAndFilePath } from '@/pure/graph'
+import type { NodeByAliasIndex, NodeByBaseNameIndex, UnresolvedLinksIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import type { FrontmatterProps, GraphNode, Edge, NodeIdAndFilePath } from '@/pure/graph'
 import * as O from 'fp-ts/lib/Option.js'
 
 const createTestNode: (id: string, edges?: readonly Edge[]) => GraphNode = (id: string, edges: readonly Edge[] = []): GraphNode => ({
@@ -19,11 +23,19 @@ const createTestNode: (id: string, edges?: readonly Edge[]) => GraphNode = (id:
   nodeUIMetadata: {
     color: O.none,
     position: O.none,
-    additionalYAMLProps: new Map(),
+    additionalYAMLProps: {},
     isContextNode: false
   }
 })
 
+const createAliasedNode: (id: string, yamlProps: FrontmatterProps) => GraphNode = (
+  id: string,
+  yamlProps: FrontmatterProps
+): GraphNode => {
+  const node: GraphNode = createTestNode(id)
+  return { ...node, nodeUIMetadata: { ...node.nodeUIMetadata, additionalYAMLProps: yamlProps } }
+}
+
 describe('getBaseName', () => {
   it('should extract basename from absolute path', () => {
     expect(getBaseName('/vault/a/foo.md')).toBe('foo')
@@ -176,6 +188,47 @@ describe('nodeByBaseNameIndex', () => {
   })
 })
 
+describe('getNodeAliases', () => {
+  it('should read YAML lists (stored as JSON) and comma-separated strings', () => {
+    expect(getNodeAliases(createAliasedNode('/vault/a.md', { aliases: ['Auth Service', 'auth'] }))).toEqual(['Auth Service', 'auth'])
+    expect(getNodeAliases(createAliasedNode('/vault/a.md', { alias: 'Auth Service, auth' }))).toEqual(['Auth Service', 'auth'])
+  })
+
+  it('should return no aliases when none are declared', () => {
+    expect(getNodeAliases(createTestNode('/vault/a.md'))).toEqual([])
+    expect(getNodeAliases(createAliasedNode('/vault/a.md', { aliases: [] }))).toEqual([])
+  })
+})
+
+describe('nodeByAliasIndex', () => {
+  it('should index lowercase aliases', () => {
+    const index: NodeByAliasIndex = buildNodeByAliasIndex({
+      '/vault/auth-v2.md': createAliasedNode('/vault/auth-v2.md', { aliases: ['Auth Service'] }),
+      '/vault/plain.md': createTestNode('/vault/plain.md')
+    })
+
+    expect(Array.from(index.entries())).toEqual([['auth service', ['/vault/auth-v2.md']]])
+  })
+
+  it('should replace a node\'s aliases when it is updated', () => {
+    const previousNode: GraphNode = createAliasedNode('/vault/auth-v2.md', { aliases: ['Auth Service'] })
+    const updatedNode: GraphNode = createAliasedNode('/vault/auth-v2.md', { aliases: ['Identity'] })
+    const index: NodeByAliasIndex = buildNodeByAliasIndex({ '/vault/auth-v2.md': previousNode })
+
+    const newIndex: NodeByAliasIndex = updateNodeByAliasIndexForUpsert(index, updatedNode, O.some(previousNode))
+
+    expect(newIndex.get('auth service')).toBeUndefined()
+    expect(newIndex.get('identity')).toEqual(['/vault/auth-v2.md'])
+  })
+
+  it('should remove a deleted node\'s aliases', () => {
+    const node: GraphNode = createAliasedNode('/vault/auth-v2.md', { aliases: ['Auth Service'] })
+    const index: NodeByAliasIndex = buildNodeByAliasIndex({ '/vault/auth-v2.md': node })
+
+    expect(updateNodeByAliasIndexForDelete(index, node).size).toBe(0)
+  })
+})
+
 describe('unresolvedLinksIndex', () => {
   describe('buildUnresolvedLinksIndex', () => {
     it('should index unresolved links (dangling edges)', () => {
@@ -251,6 +304,19 @@ describe('unresolvedLinksIndex', () => {
       expect(newIndex.get('bar')).toBeUndefined()
     })
 
+    it('should remove links resolved by an alias of the new node', () => {
+      const index: UnresolvedLinksIndex = new Map([['auth service', ['/vault/foo.md']]])
+      const newNode: GraphNode = createAliasedNode('/vault/auth-v2.md', { aliases: ['Auth Service'] })
+      const allNodes: Record<NodeIdAndFilePath, GraphNode> = {
+        '/vault/foo.md': createTestNode('/vault/foo.md', [{ targetId: 'Auth Service', label: '' }]),
+        '/vault/auth-v2.md': newNode
+      }
+
+      const newIndex: UnresolvedLinksIndex = updateUnresolvedLinksIndexForUpsert(index, newNode, O.none, allNodes)
+
+      expect(newIndex.get('auth service')).toBeUndefined()
+    })
+
     it('should add new unresolved links from added node', () => {
       const index: UnresolvedLinksIndex = new Map()
       const newNode: GraphNode = createTestNode('/vault/foo.md', [{ targetId: 'missing', label: '' }])
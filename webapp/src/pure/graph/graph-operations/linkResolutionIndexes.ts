@@ -1,28 +1,35 @@
 /**
  * Link resolution indexes for O(1) lookup during edge resolution and healing.
  *
- * Two indexes are maintained:
+ * Three indexes are maintained:
  * 1. nodeByBaseName - Maps lowercase basenames to node IDs for O(1) link resolution
- * 2. unresolvedLinksIndex - Maps unresolved link basenames to nodes with dangling edges for O(1) edge healing
+ * 2. nodeByAlias - Maps lowercase frontmatter aliases to node IDs, for links no filename matches
+ * 3. unresolvedLinksIndex - Maps unresolved link basenames to nodes with dangling edges for O(1) edge healing
  */
 
-import type { GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import type { FrontmatterProps, FrontmatterValue, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
 import * as O from 'fp-ts/lib/Option.js'
+import { getFrontmatterStrings } from '@/pure/graph/frontmatter'
+import { splitWikilinkAnchor } from '@/pure/graph/markdown-parsing/wikilink-anchor'
 
 export type NodeByBaseNameIndex = ReadonlyMap<string, readonly NodeIdAndFilePath[]>
+export type NodeByAliasIndex = ReadonlyMap<string, readonly NodeIdAndFilePath[]>
 export type UnresolvedLinksIndex = ReadonlyMap<string, readonly NodeIdAndFilePath[]>
 
+const ALIAS_YAML_KEYS: readonly string[] = ['aliases', 'alias']
+
 /**
  * Extract the lowercase basename from a path.
- * Strips .md extension and normalizes to lowercase for consistent matching.
+ * Strips any heading/block anchor and the .md extension, and normalizes to lowercase for consistent matching.
  *
  * @example
  * getBaseName('/vault/a/foo.md') => 'foo'
  * getBaseName('./foo.md') => 'foo'
  * getBaseName('FooBar.md') => 'foobar'
+ * getBaseName('foo#Section') => 'foo'
  */
 export function getBaseName(path: string): string {
-  const components: readonly string[] = path
+  const components: readonly string[] = splitWikilinkAnchor(path).path
     .split(/[/\\]/)
     .filter(p => p !== '' && p !== '.' && p !== '..')
 
@@ -32,6 +39,38 @@ export function getBaseName(path: string): string {
   return lastComponent.replace(/\.md$/, '').toLowerCase()
 }
 
+/**
+ * Aliases a node declares in its frontmatter, as a YAML list or a comma-separated string.
+ *
+ * @example
+ * // aliases: [Auth Service, auth]  => ['Auth Service', 'auth']
+ * // alias: Auth Service, auth      => ['Auth Service', 'auth']
+ */
+export function getNodeAliases(node: GraphNode): readonly string[] {
+  const yamlProps: FrontmatterProps | undefined = node.nodeUIMetadata.additionalYAMLProps
+  return ALIAS_YAML_KEYS.flatMap((key: string): readonly string[] => {
+    const value: FrontmatterValue | undefined = yamlProps?.[key]
+    const aliases: readonly string[] = Array.isArray(value)
+      ? getFrontmatterStrings(value)
+      : getFrontmatterStrings(value).flatMap((text: string) => text.split(','))
+    return aliases
+      .map((alias: string) => alias.trim())
+      .filter((alias: string) => alias !== '')
+  })
+}
+
+/**
+ * Lookup key for an alias, or for link text being resolved against aliases.
+ * Link text loses its heading/block anchor; aliases match case-insensitively.
+ */
+export function getAliasKey(aliasOrLinkText: string): string {
+  return splitWikilinkAnchor(aliasOrLinkText).path.trim().toLowerCase()
+}
+
+function getNodeAliasKeys(node: GraphNode): readonly string[] {
+  return [...new Set(getNodeAliases(node).map(getAliasKey))]
+}
+
 /**
  * Immutable helper: add a nodeId to a basename entry, returning new map.
  */
@@ -107,6 +146,28 @@ export function buildNodeByBaseNameIndex(
   return new Map(entries)
 }
 
+/**
+ * Build nodeByAlias index: maps lowercase alias to all node IDs declaring that alias.
+ *
+ * @example
+ * "auth service" → ["/vault/auth-service-v2.md"]
+ */
+export function buildNodeByAliasIndex(
+  nodes: Record<NodeIdAndFilePath, GraphNode>
+): NodeByAliasIndex {
+  const entries: readonly (readonly [string, readonly NodeIdAndFilePath[]])[] = Object.entries(nodes).reduce<
+    readonly (readonly [string, readonly NodeIdAndFilePath[]])[]
+  >(
+    (acc, [nodeId, node]) => getNodeAliasKeys(node).reduce(
+      (innerAcc, aliasKey) => addToIndex(innerAcc, aliasKey, nodeId),
+      acc
+    ),
+    []
+  )
+
+  return new Map(entries)
+}
+
 /**
  * Build unresolvedLinksIndex: maps unresolved link basenames to nodes with those dangling edges.
  *
@@ -190,11 +251,63 @@ export function updateNodeByBaseNameIndexForDelete(
   return new Map(afterRemoval)
 }
 
+/**
+ * Update nodeByAlias index when a node is upserted.
+ */
+export function updateNodeByAliasIndexForUpsert(
+  index: NodeByAliasIndex,
+  node: GraphNode,
+  previousNode: O.Option<GraphNode>
+): NodeByAliasIndex {
+  const nodeId: NodeIdAndFilePath = node.absoluteFilePathIsID
+
+  // Defensive: handle undefined index
+  const initialEntries: readonly (readonly [string, readonly NodeIdAndFilePath[]])[] =
+    index ? Array.from(index.entries()) : []
+
+  // If update, drop all of the previous node's aliases (it may have been renamed too)
+  const afterRemoval: readonly (readonly [string, readonly NodeIdAndFilePath[]])[] = O.isSome(previousNode)
+    ? getNodeAliasKeys(previousNode.value).reduce(
+        (acc, aliasKey) => removeFromIndex(acc, aliasKey, previousNode.value.absoluteFilePathIsID),
+        initialEntries
+      )
+    : initialEntries
+
+  const afterAddition: readonly (readonly [string, readonly NodeIdAndFilePath[]])[] =
+    getNodeAliasKeys(node).reduce(
+      (acc, aliasKey) => addToIndex(acc, aliasKey, nodeId),
+      afterRemoval
+    )
+
+  return new Map(afterAddition)
+}
+
+/**
+ * Update nodeByAlias index when a node is deleted.
+ */
+export function updateNodeByAliasIndexForDelete(
+  index: NodeByAliasIndex,
+  deletedNode: GraphNode
+): NodeByAliasIndex {
+  // Defensive: handle undefined index
+  if (!index) return new Map()
+
+  const aliasKeys: readonly string[] = getNodeAliasKeys(deletedNode)
+  if (aliasKeys.length === 0) return index
+
+  const afterRemoval: readonly (readonly [string, readonly NodeIdAndFilePath[]])[] = aliasKeys.reduce(
+    (acc, aliasKey) => removeFromIndex(acc, aliasKey, deletedNode.absoluteFilePathIsID),
+    Array.from(index.entries()) as readonly (readonly [string, readonly NodeIdAndFilePath[]])[]
+  )
+
+  return new Map(afterRemoval)
+}
+
 /**
  * Update unresolvedLinksIndex when a node is upserted.
  *
  * This handles:
- * 1. Removing entries where this new node resolves a dangling link
+ * 1. Removing entries where this new node resolves a dangling link (by basename or alias)
  * 2. Adding new unresolved links from this node's edges
  * 3. Removing old unresolved links if this is an update
  */
@@ -221,7 +334,7 @@ export function updateUnresolvedLinksIndexForUpsert(
 
   // Step 2: Remove entries where this new node resolves the dangling link
   const afterResolution: readonly (readonly [string, readonly NodeIdAndFilePath[]])[] =
-    removeKey(afterOldRemoval, nodeBasename)
+    [nodeBasename, ...getNodeAliasKeys(node)].reduce((acc, key) => removeKey(acc, key), afterOldRemoval)
 
   // Step 3: Add new unresolved links from this node's edges
   const unresolvedEdges: readonly { readonly targetId: string; readonly label: string }[] =
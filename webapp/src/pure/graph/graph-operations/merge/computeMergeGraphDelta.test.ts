@@ -18,7 +18,7 @@ function createNode(
         nodeUIMetadata: {
             color: O.none,
             position: position ? O.some(position) : O.none,
-            additionalYAMLProps: new Map()
+            additionalYAMLProps: {}
         }
     }
 }
@@ -206,7 +206,7 @@ describe('computeMergeGraphDelta', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 50, y: 50 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: true
                 }
             }
@@ -246,7 +246,7 @@ describe('computeMergeGraphDelta', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 50, y: 50 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: true
                 }
             }
@@ -271,7 +271,7 @@ describe('computeMergeGraphDelta', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: true
                 }
             },
@@ -282,7 +282,7 @@ describe('computeMergeGraphDelta', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: true
                 }
             }
@@ -13,7 +13,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -23,7 +23,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 200 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -45,7 +45,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -55,7 +55,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -79,7 +79,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -89,7 +89,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.none,
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -99,7 +99,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 200 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -121,7 +121,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.some('#ff0000'),
                     position: O.some({ x: 50, y: 75 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -148,7 +148,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -158,7 +158,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -181,7 +181,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -191,7 +191,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -215,7 +215,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -225,7 +225,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -247,7 +247,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -257,7 +257,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -279,7 +279,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -298,7 +298,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.some('#ff0000'),
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             },
             {
@@ -308,7 +308,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.some('#00ff00'),
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -330,7 +330,7 @@ describe('createRepresentativeNode', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 0, y: 0 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
         ]
@@ -351,7 +351,7 @@ describe('createRepresentativeNode', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.some({ x: 0, y: 0 }),
-                        additionalYAMLProps: new Map()
+                        additionalYAMLProps: {}
                     }
                 },
                 {
@@ -361,7 +361,7 @@ describe('createRepresentativeNode', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.some({ x: 100, y: 100 }),
-                        additionalYAMLProps: new Map()
+                        additionalYAMLProps: {}
                     }
                 }
             ]
@@ -380,7 +380,7 @@ describe('createRepresentativeNode', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.some({ x: 0, y: 0 }),
-                        additionalYAMLProps: new Map()
+                        additionalYAMLProps: {}
                     }
                 },
                 {
@@ -390,7 +390,7 @@ describe('createRepresentativeNode', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.some({ x: 100, y: 100 }),
-                        additionalYAMLProps: new Map()
+                        additionalYAMLProps: {}
                     }
                 },
                 {
@@ -400,7 +400,7 @@ describe('createRepresentativeNode', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.some({ x: 200, y: 200 }),
-                        additionalYAMLProps: new Map()
+                        additionalYAMLProps: {}
                     }
                 }
             ]
@@ -422,7 +422,7 @@ describe('createRepresentativeNode', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.some({ x: 0, y: 0 }),
-                        additionalYAMLProps: new Map()
+                        additionalYAMLProps: {}
                     }
                 },
                 {
@@ -432,7 +432,7 @@ describe('createRepresentativeNode', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.some({ x: 100, y: 100 }),
-                        additionalYAMLProps: new Map()
+                        additionalYAMLProps: {}
                     }
                 }
             ]
@@ -455,7 +455,7 @@ describe('createRepresentativeNode', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.some({ x: 0, y: 0 }),
-                        additionalYAMLProps: new Map()
+                        additionalYAMLProps: {}
                     }
                 }
             ]
@@ -16,7 +16,7 @@ function createNode(
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map()
+      additionalYAMLProps: {}
     }
   }
 }
@@ -124,4 +124,15 @@ describe('redirectEdgeTarget', () => {
       { targetId: 'new-target.md', label: '' }
     ])
   })
+  it('should keep heading and block anchors on redirected edges', () => {
+    const node: GraphNode = createNode('node.md', [
+      { targetId: 'old-target.md', label: 'references', anchor: '#Setup' }
+    ])
+
+    const result: GraphNode = redirectEdgeTarget(node, 'old-target.md', 'new-target.md')
+
+    expect(result.outgoingEdges).toEqual([
+      { targetId: 'new-target.md', label: 'references', anchor: '#Setup' }
+    ])
+  })
 })
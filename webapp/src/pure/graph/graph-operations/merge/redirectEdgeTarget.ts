@@ -3,6 +3,7 @@ import type { GraphNode, NodeIdAndFilePath, Edge } from '@/pure/graph'
 /**
  * Redirects edges in a node from oldTargetId to newTargetId.
  * Returns a new node with updated edges (immutable operation).
+ * Labels and heading/block anchors are kept.
  *
  * @param node - The GraphNode to update
  * @param oldTargetId - The target ID to replace
@@ -17,8 +18,8 @@ export function redirectEdgeTarget(
   const updatedEdges: readonly Edge[] = node.outgoingEdges.map((edge): Edge => {
     if (edge.targetId === oldTargetId) {
       return {
-        targetId: newTargetId,
-        label: edge.label
+        ...edge,
+        targetId: newTargetId
       }
     }
     return edge
@@ -12,7 +12,7 @@ function createNode(id: string, edges: readonly string[] = []): GraphNode {
         nodeUIMetadata: {
             color: O.none,
             position: O.none,
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: false
         }
     }
@@ -26,7 +26,7 @@ function createContextNode(id: string, edges: readonly string[] = []): GraphNode
         nodeUIMetadata: {
             color: O.none,
             position: O.none,
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: true
         }
     }
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import { computeSplitGraphDelta } from './computeSplitGraphDelta'
+import type { Edge, Graph, GraphDelta, GraphNode, UpsertNodeDelta } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import { applyGraphDeltaToGraph } from '@/pure/graph/graphDelta/applyGraphDeltaToGraph'
+import { reverseDelta } from '@/pure/graph/undo'
+import { getNodeTitle } from '@/pure/graph/markdown-parsing'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(
+    id: string,
+    content: string,
+    outgoingEdges: readonly Edge[] = [],
+    position?: Readonly<{ readonly x: number; readonly y: number }>
+): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.some('#ff0000'),
+            position: position ? O.some(position) : O.none,
+            additionalYAMLProps: { status: 'draft' }
+        }
+    }
+}
+
+function getUpserts(delta: GraphDelta): readonly GraphNode[] {
+    return delta
+        .filter((action): action is UpsertNodeDelta => action.type === 'UpsertNode')
+        .map(action => action.nodeToUpsert)
+}
+
+const BIG_NODE_CONTENT: string = [
+    '# Meeting',
+    'Intro about [other.md]*',
+    '',
+    '## Decisions',
+    'We chose [alpha.md]*',
+    '',
+    '## Follow Ups',
+    '- blocks [beta.md]*',
+    ''
+].join('\n')
+
+function createBigNodeGraph(): Graph {
+    return createGraph({
+        '/vault/meeting.md': createNode(
+            '/vault/meeting.md',
+            BIG_NODE_CONTENT,
+            [
+                { targetId: '/vault/other.md', label: 'Intro about' },
+                { targetId: '/vault/alpha.md', label: 'We chose' },
+                { targetId: '/vault/beta.md', label: 'blocks' }
+            ],
+            { x: 0, y: 0 }
+        ),
+        '/vault/other.md': createNode('/vault/other.md', '# Other'),
+        '/vault/alpha.md': createNode('/vault/alpha.md', '# Alpha'),
+        '/vault/beta.md': createNode('/vault/beta.md', '# Beta')
+    })
+}
+
+describe('computeSplitGraphDelta', () => {
+    it('should return empty delta for a missing node', () => {
+        const graph: Graph = createBigNodeGraph()
+
+        expect(computeSplitGraphDelta('/vault/missing.md', graph)).toEqual([])
+    })
+
+    it('should return empty delta when the node has no heading of the level', () => {
+        const graph: Graph = createGraph({
+            '/vault/flat.md': createNode('/vault/flat.md', '# Flat\njust text\n### Deep')
+        })
+
+        expect(computeSplitGraphDelta('/vault/flat.md', graph)).toEqual([])
+    })
+
+    it('should not split context nodes', () => {
+        const contextNode: GraphNode = createNode('/vault/ctx.md', '# Ctx\n## A\n## B')
+        const graph: Graph = createGraph({
+            '/vault/ctx.md': { ...contextNode, nodeUIMetadata: { ...contextNode.nodeUIMetadata, isContextNode: true } }
+        })
+
+        expect(computeSplitGraphDelta('/vault/ctx.md', graph)).toEqual([])
+    })
+
+    it('should create one child per section titled by its heading, next to the parent', () => {
+        const graph: Graph = createBigNodeGraph()
+
+        const delta: GraphDelta = computeSplitGraphDelta('/vault/meeting.md', graph)
+        const children: readonly GraphNode[] = getUpserts(delta).filter(node => node.absoluteFilePathIsID !== '/vault/meeting.md')
+
+        expect(children.map(child => child.absoluteFilePathIsID)).toEqual(['/vault/decisions.md', '/vault/follow_ups.md'])
+        expect(children.map(getNodeTitle)).toEqual(['Decisions', 'Follow Ups'])
+        expect(children.every(child => O.isSome(child.nodeUIMetadata.position))).toBe(true)
+    })
+
+    it('should keep each wikilink in the section it appears in', () => {
+        const graph: Graph = createBigNodeGraph()
+
+        const delta: GraphDelta = computeSplitGraphDelta('/vault/meeting.md', graph)
+        const result: Graph = applyGraphDeltaToGraph(graph, delta)
+
+        expect(result.nodes['/vault/decisions.md'].outgoingEdges).toEqual([{ targetId: '/vault/alpha.md', label: 'We chose' }])
+        expect(result.nodes['/vault/follow_ups.md'].outgoingEdges).toEqual([{ targetId: '/vault/beta.md', label: 'blocks' }])
+    })
+
+    it('should slim the parent to its intro and link it to the children', () => {
+        const graph: Graph = createBigNodeGraph()
+
+        const delta: GraphDelta = computeSplitGraphDelta('/vault/meeting.md', graph)
+        const parent: GraphNode = applyGraphDeltaToGraph(graph, delta).nodes['/vault/meeting.md']
+
+        expect(parent.contentWithoutYamlOrLinks).not.toContain('We chose')
+        expect(parent.outgoingEdges.map(edge => edge.targetId)).toEqual([
+            '/vault/other.md',
+            '/vault/decisions.md',
+            '/vault/follow_ups.md'
+        ])
+        expect(parent.nodeUIMetadata.color).toEqual(O.some('#ff0000'))
+        expect(parent.nodeUIMetadata.additionalYAMLProps).toEqual({ status: 'draft' })
+    })
+
+    it('should keep edges that are not written in the content on the parent', () => {
+        const graph: Graph = createGraph({
+            '/vault/notes.md': createNode('/vault/notes.md', '## A\na\n## B\nb', [{ targetId: '/vault/target.md', label: '' }]),
+            '/vault/target.md': createNode('/vault/target.md', '# Target')
+        })
+
+        const delta: GraphDelta = computeSplitGraphDelta('/vault/notes.md', graph)
+        const parent: GraphNode = applyGraphDeltaToGraph(graph, delta).nodes['/vault/notes.md']
+
+        expect(parent.outgoingEdges.map(edge => edge.targetId)).toContain('/vault/target.md')
+    })
+
+    it('should not reuse IDs of existing nodes or of sibling sections', () => {
+        const graph: Graph = createGraph({
+            '/vault/notes.md': createNode('/vault/notes.md', '## Todo\na\n## Todo\nb'),
+            '/vault/todo.md': createNode('/vault/todo.md', '# Existing')
+        })
+
+        const delta: GraphDelta = computeSplitGraphDelta('/vault/notes.md', graph)
+
+        expect(getUpserts(delta).map(node => node.absoluteFilePathIsID)).toEqual([
+            '/vault/todo_2.md',
+            '/vault/todo_3.md',
+            '/vault/notes.md'
+        ])
+    })
+
+    it('should be fully undone by reverseDelta', () => {
+        const graph: Graph = createBigNodeGraph()
+
+        const delta: GraphDelta = computeSplitGraphDelta('/vault/meeting.md', graph)
+        const undone: Graph = applyGraphDeltaToGraph(applyGraphDeltaToGraph(graph, delta), reverseDelta(delta))
+
+        expect(undone.nodes).toEqual(graph.nodes)
+    })
+})
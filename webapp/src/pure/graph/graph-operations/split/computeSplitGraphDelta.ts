@@ -0,0 +1,115 @@
+import type { Edge, Graph, GraphDelta, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import * as O from 'fp-ts/lib/Option.js'
+import { parseMarkdownToGraphNode } from '@/pure/graph/markdown-parsing/parse-markdown-to-node'
+import { fromNodeToContentWithWikilinks } from '@/pure/graph/markdown-writing/node_to_markdown'
+import { computeNewNodeIdFromTitle } from '@/pure/graph/rename/computeNewNodeIdFromTitle'
+import { calculateInitialPositionForChild } from '@/pure/graph/positioning/calculateInitialPosition'
+import { splitMarkdownByHeadings, type HeadingSection, type SplitMarkdown } from './splitMarkdownByHeadings'
+
+export const DEFAULT_SPLIT_HEADING_LEVEL: number = 2
+
+/**
+ * Allocates a unique ID per section, next to the split node and named after the section heading.
+ */
+function allocateChildIds(
+    headings: readonly string[],
+    parentNodeId: NodeIdAndFilePath,
+    graph: Graph
+): readonly NodeIdAndFilePath[] {
+    return headings.reduce<readonly NodeIdAndFilePath[]>(
+        (ids, heading) => [
+            ...ids,
+            computeNewNodeIdFromTitle(heading, parentNodeId, new Set([...Object.keys(graph.nodes), ...ids]))
+        ],
+        []
+    )
+}
+
+/**
+ * The section with its heading promoted to `#`, so the heading becomes the child's title.
+ */
+function toChildMarkdown(section: HeadingSection): string {
+    const body: readonly string[] = section.markdown.split('\n').slice(1)
+    return [`# ${section.heading}`, ...body].join('\n') + '\n'
+}
+
+/**
+ * Computes the GraphDelta for splitting a node into one child node per heading section.
+ * The inverse of computeMergeGraphDelta for the common "one huge node with many ## sections" case.
+ *
+ * - Each section becomes a new child node titled by its heading (promoted to `#`)
+ * - Wikilinks move with the section they appear in, so each child keeps its own outgoing edges
+ * - The parent keeps the text before the first heading and links to each child
+ * - Edges of the parent that are not written in its content stay on the parent
+ *
+ * Undo is the plain reverseDelta: the parent is upserted with its previous state and the
+ * children are created with no previous node.
+ *
+ * @param nodeId - The node to split
+ * @param graph - The current graph state
+ * @param headingLevel - Heading level that starts a section (2 splits on `##`)
+ * @returns GraphDelta creating the children and updating the parent, or empty delta if the node
+ *          is missing, is a context node, or has no heading of that level
+ */
+export function computeSplitGraphDelta(
+    nodeId: NodeIdAndFilePath,
+    graph: Graph,
+    headingLevel: number = DEFAULT_SPLIT_HEADING_LEVEL
+): GraphDelta {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    if (node === undefined || node.nodeUIMetadata.isContextNode === true) {
+        return []
+    }
+
+    // Only the links written in the content are split; the rest are kept on the parent below
+    const contentWithWikilinks: string = fromNodeToContentWithWikilinks({ ...node, outgoingEdges: [] })
+    const split: SplitMarkdown = splitMarkdownByHeadings(contentWithWikilinks, headingLevel)
+    if (split.sections.length === 0) {
+        return []
+    }
+
+    const childIds: readonly NodeIdAndFilePath[] = allocateChildIds(
+        split.sections.map(section => section.heading),
+        nodeId,
+        graph
+    )
+    const parsedChildren: readonly GraphNode[] = split.sections.map((section, index) =>
+        parseMarkdownToGraphNode(toChildMarkdown(section), childIds[index], graph)
+    )
+
+    const childLinks: string = childIds.map(childId => `- [[${childId}]]`).join('\n')
+    const parentMarkdown: string = split.preamble === '' ? `${childLinks}\n` : `${split.preamble}\n\n${childLinks}\n`
+    const parsedParent: GraphNode = parseMarkdownToGraphNode(parentMarkdown, nodeId, graph)
+
+    const writtenTargets: ReadonlySet<NodeIdAndFilePath> = new Set(
+        [parsedParent, ...parsedChildren].flatMap(parsed => parsed.outgoingEdges.map(edge => edge.targetId))
+    )
+    const unwrittenEdges: readonly Edge[] = node.outgoingEdges.filter(edge => !writtenTargets.has(edge.targetId))
+    const updatedParent: GraphNode = {
+        ...node,
+        contentWithoutYamlOrLinks: parsedParent.contentWithoutYamlOrLinks,
+        outgoingEdges: [...parsedParent.outgoingEdges, ...unwrittenEdges]
+    }
+
+    const firstChildIndex: number = parsedParent.outgoingEdges.length - childIds.length
+    const childNodes: readonly GraphNode[] = parsedChildren.map((parsed, index) => ({
+        ...parsed,
+        nodeUIMetadata: {
+            ...parsed.nodeUIMetadata,
+            position: calculateInitialPositionForChild(updatedParent, graph, firstChildIndex + index)
+        }
+    }))
+
+    return [
+        ...childNodes.map(childNode => ({
+            type: 'UpsertNode' as const,
+            nodeToUpsert: childNode,
+            previousNode: O.none  // New node - reverse is a delete
+        })),
+        {
+            type: 'UpsertNode',
+            nodeToUpsert: updatedParent,
+            previousNode: O.some(node)  // Capture previous state for undo
+        }
+    ]
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { splitMarkdownByHeadings, type SplitMarkdown } from './splitMarkdownByHeadings'
+
+describe('splitMarkdownByHeadings', () => {
+    it('should split on headings of the given level and keep the text before the first one', () => {
+        const result: SplitMarkdown = splitMarkdownByHeadings('# Notes\nintro\n\n## First\none\n\n## Second\ntwo\n', 2)
+
+        expect(result.preamble).toBe('# Notes\nintro')
+        expect(result.sections).toEqual([
+            { heading: 'First', markdown: '## First\none' },
+            { heading: 'Second', markdown: '## Second\ntwo' }
+        ])
+    })
+
+    it('should keep deeper headings inside their section', () => {
+        const result: SplitMarkdown = splitMarkdownByHeadings('## A\n### A.1\ndetail\n## B', 2)
+
+        expect(result.sections.map(section => section.heading)).toEqual(['A', 'B'])
+        expect(result.sections[0].markdown).toBe('## A\n### A.1\ndetail')
+    })
+
+    it('should ignore headings inside fenced code blocks', () => {
+        const markdown: string = '## Script\n```bash\n## not a heading\n```\n## Next'
+
+        const result: SplitMarkdown = splitMarkdownByHeadings(markdown, 2)
+
+        expect(result.sections.map(section => section.heading)).toEqual(['Script', 'Next'])
+        expect(result.sections[0].markdown).toContain('## not a heading')
+    })
+
+    it('should strip closing hashes from headings', () => {
+        const result: SplitMarkdown = splitMarkdownByHeadings('## Closed ##\nbody', 2)
+
+        expect(result.sections[0].heading).toBe('Closed')
+    })
+
+    it('should return no sections when there is no heading of the level', () => {
+        const result: SplitMarkdown = splitMarkdownByHeadings('# Title\n### Deep\ntext', 2)
+
+        expect(result.sections).toEqual([])
+        expect(result.preamble).toBe('# Title\n### Deep\ntext')
+    })
+})
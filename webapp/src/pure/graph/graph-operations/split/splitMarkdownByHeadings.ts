@@ -0,0 +1,65 @@
+/**
+ * Splits markdown into the text before the first heading of a level and one section per heading.
+ *
+ * Headings of other levels stay inside the current section, and headings inside fenced
+ * code blocks are ignored.
+ */
+
+export interface HeadingSection {
+    readonly heading: string
+    readonly markdown: string
+}
+
+export interface SplitMarkdown {
+    readonly preamble: string
+    readonly sections: readonly HeadingSection[]
+}
+
+const FENCE_REGEX: RegExp = /^\s{0,3}(```|~~~)/
+
+function getHeadingText(line: string, level: number): string | undefined {
+    const match: RegExpMatchArray | null = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/)
+    return match !== null && match[1].length === level && match[2] !== '' ? match[2] : undefined
+}
+
+/**
+ * @example
+ * splitMarkdownByHeadings('# Notes\nintro\n## A\na\n## B\nb', 2)
+ * // => { preamble: '# Notes\nintro', sections: [{heading: 'A', markdown: '## A\na'}, {heading: 'B', markdown: '## B\nb'}] }
+ */
+export function splitMarkdownByHeadings(markdown: string, level: number): SplitMarkdown {
+    type Scan = {
+        readonly fence: string | undefined
+        readonly preambleLines: readonly string[]
+        readonly sections: readonly { readonly heading: string; readonly lines: readonly string[] }[]
+    }
+
+    const scan: Scan = markdown.split('\n').reduce<Scan>(
+        (acc: Scan, line: string): Scan => {
+            const fenceMatch: RegExpMatchArray | null = line.match(FENCE_REGEX)
+            const fence: string | undefined = fenceMatch === null
+                ? acc.fence
+                : acc.fence === undefined ? fenceMatch[1] : acc.fence === fenceMatch[1] ? undefined : acc.fence
+            const heading: string | undefined = acc.fence === undefined ? getHeadingText(line, level) : undefined
+
+            if (heading !== undefined) {
+                return { ...acc, fence, sections: [...acc.sections, { heading, lines: [line] }] }
+            }
+            if (acc.sections.length === 0) {
+                return { ...acc, fence, preambleLines: [...acc.preambleLines, line] }
+            }
+            const current: { readonly heading: string; readonly lines: readonly string[] } = acc.sections[acc.sections.length - 1]
+            return {
+                ...acc,
+                fence,
+                sections: [...acc.sections.slice(0, -1), { heading: current.heading, lines: [...current.lines, line] }]
+            }
+        },
+        { fence: undefined, preambleLines: [], sections: [] }
+    )
+
+    return {
+        preamble: scan.preambleLines.join('\n').trim(),
+        sections: scan.sections.map(section => ({ heading: section.heading, markdown: section.lines.join('\n').trim() }))
+    }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type { GraphNode } from '@/pure/graph'
+import {
+  buildTagIndex,
+  getNodeIdsWithTag,
+  updateTagIndexForDelete,
+  updateTagIndexForUpsert
+} from '@/pure/graph/graph-operations/tagIndex'
+import type { TagIndex } from '@/pure/graph/graph-operations/tagIndex'
+
+function createTaggedNode(id: string, content: string): GraphNode {
+  return {
+    absoluteFilePathIsID: id,
+    outgoingEdges: [],
+    contentWithoutYamlOrLinks: content,
+    nodeUIMetadata: {
+      color: O.none,
+      position: O.none,
+      additionalYAMLProps: {},
+      isContextNode: false
+    }
+  }
+}
+
+describe('tagIndex', () => {
+  const decision: GraphNode = createTaggedNode('/vault/a.md', '#decision #project/alpha')
+  const bug: GraphNode = createTaggedNode('/vault/b.md', '#bug #project')
+
+  it('builds an index from node tags', () => {
+    const index: TagIndex = buildTagIndex({ '/vault/a.md': decision, '/vault/b.md': bug })
+
+    expect(index.get('decision')).toEqual(['/vault/a.md'])
+    expect(index.get('project')).toEqual(['/vault/b.md'])
+    expect(index.get('project/alpha')).toEqual(['/vault/a.md'])
+  })
+
+  it('replaces a node\'s tags when it is updated', () => {
+    const index: TagIndex = buildTagIndex({ '/vault/a.md': decision })
+    const updated: GraphNode = createTaggedNode('/vault/a.md', '#spec')
+
+    const newIndex: TagIndex = updateTagIndexForUpsert(index, updated, O.some(decision))
+
+    expect(newIndex.get('decision')).toBeUndefined()
+    expect(newIndex.get('spec')).toEqual(['/vault/a.md'])
+  })
+
+  it('removes a deleted node\'s tags', () => {
+    const index: TagIndex = buildTagIndex({ '/vault/a.md': decision, '/vault/b.md': bug })
+
+    const newIndex: TagIndex = updateTagIndexForDelete(index, decision)
+
+    expect(newIndex.get('decision')).toBeUndefined()
+    expect(newIndex.get('bug')).toEqual(['/vault/b.md'])
+  })
+
+  it('looks up nested tags under their parent', () => {
+    const index: TagIndex = buildTagIndex({ '/vault/a.md': decision, '/vault/b.md': bug })
+
+    expect([...getNodeIdsWithTag(index, '#Project')].sort()).toEqual(['/vault/a.md', '/vault/b.md'])
+    expect(getNodeIdsWithTag(index, 'project/alpha')).toEqual(['/vault/a.md'])
+    expect(getNodeIdsWithTag(index, '')).toEqual([])
+  })
+})
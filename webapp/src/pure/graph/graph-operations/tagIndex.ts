@@ -0,0 +1,80 @@
+/**
+ * Tag index for O(1) lookup of the nodes carrying a tag.
+ *
+ * Maps each normalized tag (see pure/graph/tags) to the IDs of the nodes that have it.
+ */
+
+import type { GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import * as O from 'fp-ts/lib/Option.js'
+import { getNodeTags, normalizeTag, tagMatches } from '@/pure/graph/tags'
+
+export type TagIndex = ReadonlyMap<string, readonly NodeIdAndFilePath[]>
+
+function withoutNode(index: TagIndex, tags: readonly string[], nodeId: NodeIdAndFilePath): TagIndex {
+  return tags.reduce<TagIndex>(
+    (acc, tag) => {
+      const remaining: readonly NodeIdAndFilePath[] = (acc.get(tag) ?? []).filter(id => id !== nodeId)
+      return remaining.length === 0
+        ? new Map(Array.from(acc.entries()).filter(([indexedTag]) => indexedTag !== tag))
+        : new Map(acc).set(tag, remaining)
+    },
+    index
+  )
+}
+
+function withNode(index: TagIndex, tags: readonly string[], nodeId: NodeIdAndFilePath): TagIndex {
+  return tags.reduce<TagIndex>(
+    (acc, tag) => {
+      const existing: readonly NodeIdAndFilePath[] = acc.get(tag) ?? []
+      return existing.includes(nodeId) ? acc : new Map(acc).set(tag, [...existing, nodeId])
+    },
+    index
+  )
+}
+
+/**
+ * Build the tag index from a record of nodes.
+ */
+export function buildTagIndex(nodes: Record<NodeIdAndFilePath, GraphNode>): TagIndex {
+  return Object.entries(nodes).reduce<TagIndex>(
+    (acc, [nodeId, node]) => withNode(acc, getNodeTags(node), nodeId),
+    new Map()
+  )
+}
+
+/**
+ * Update the tag index when a node is upserted.
+ */
+export function updateTagIndexForUpsert(
+  index: TagIndex,
+  node: GraphNode,
+  previousNode: O.Option<GraphNode>
+): TagIndex {
+  // Defensive: handle undefined index
+  const initialIndex: TagIndex = index ?? new Map()
+  const afterRemoval: TagIndex = O.isSome(previousNode)
+    ? withoutNode(initialIndex, getNodeTags(previousNode.value), previousNode.value.absoluteFilePathIsID)
+    : initialIndex
+  return withNode(afterRemoval, getNodeTags(node), node.absoluteFilePathIsID)
+}
+
+/**
+ * Update the tag index when a node is deleted.
+ */
+export function updateTagIndexForDelete(index: TagIndex, deletedNode: GraphNode): TagIndex {
+  // Defensive: handle undefined index
+  if (!index) return new Map()
+  return withoutNode(index, getNodeTags(deletedNode), deletedNode.absoluteFilePathIsID)
+}
+
+/**
+ * IDs of the nodes carrying a tag or one of its nested tags ("project" includes "project/alpha").
+ */
+export function getNodeIdsWithTag(index: TagIndex, tag: string): readonly NodeIdAndFilePath[] {
+  const normalized: string = normalizeTag(tag)
+  if (normalized === '') return []
+  const nodeIds: readonly NodeIdAndFilePath[] = Array.from(index.entries())
+    .filter(([indexedTag]) => tagMatches(indexedTag, normalized))
+    .flatMap(([, ids]) => ids)
+  return [...new Set(nodeIds)]
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { findShortestPath } from '@/pure/graph/graph-operations/traversal/findShortestPath'
+import type { Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+describe('findShortestPath', () => {
+  const createTestNode: (id: string, edges?: readonly string[]) => GraphNode = (id: string, edges: readonly string[] = []): GraphNode => ({
+    absoluteFilePathIsID: id,
+    outgoingEdges: edges.map(targetId => ({ targetId, label: '' })),
+    contentWithoutYamlOrLinks: `content of ${id}`,
+    nodeUIMetadata: {
+      color: O.none,
+      position: O.none,
+      additionalYAMLProps: {},
+      isContextNode: false
+    }
+  })
+
+  it('should return a single-node path when start equals end', () => {
+    const graph: Graph = createGraph({ 'A': createTestNode('A') })
+
+    expect(findShortestPath(graph, 'A', 'A')).toEqual(['A'])
+  })
+
+  it('should follow outgoing edges', () => {
+    const graph: Graph = createGraph({
+      'A': createTestNode('A', ['B']),
+      'B': createTestNode('B', ['C']),
+      'C': createTestNode('C')
+    })
+
+    expect(findShortestPath(graph, 'A', 'C')).toEqual(['A', 'B', 'C'])
+  })
+
+  it('should follow incoming edges (direction is ignored)', () => {
+    // A -> B <- C
+    const graph: Graph = createGraph({
+      'A': createTestNode('A', ['B']),
+      'B': createTestNode('B'),
+      'C': createTestNode('C', ['B'])
+    })
+
+    expect(findShortestPath(graph, 'A', 'C')).toEqual(['A', 'B', 'C'])
+  })
+
+  it('should prefer the shorter of two routes', () => {
+    // A -> B -> C -> D, A -> D
+    const graph: Graph = createGraph({
+      'A': createTestNode('A', ['B', 'D']),
+      'B': createTestNode('B', ['C']),
+      'C': createTestNode('C', ['D']),
+      'D': createTestNode('D')
+    })
+
+    expect(findShortestPath(graph, 'A', 'D')).toEqual(['A', 'D'])
+  })
+
+  it('should handle cycles', () => {
+    const graph: Graph = createGraph({
+      'A': createTestNode('A', ['B']),
+      'B': createTestNode('B', ['A', 'C']),
+      'C': createTestNode('C')
+    })
+
+    expect(findShortestPath(graph, 'A', 'C')).toEqual(['A', 'B', 'C'])
+  })
+
+  it('should return undefined for disconnected nodes', () => {
+    const graph: Graph = createGraph({
+      'A': createTestNode('A'),
+      'B': createTestNode('B')
+    })
+
+    expect(findShortestPath(graph, 'A', 'B')).toBeUndefined()
+  })
+
+  it('should return undefined when either node is missing', () => {
+    const graph: Graph = createGraph({ 'A': createTestNode('A') })
+
+    expect(findShortestPath(graph, 'A', 'missing')).toBeUndefined()
+    expect(findShortestPath(graph, 'missing', 'A')).toBeUndefined()
+  })
+
+  it('should ignore dangling edges to nodes not in the graph', () => {
+    const graph: Graph = createGraph({
+      'A': createTestNode('A', ['ghost', 'B']),
+      'B': createTestNode('B')
+    })
+
+    expect(findShortestPath(graph, 'A', 'B')).toEqual(['A', 'B'])
+  })
+})
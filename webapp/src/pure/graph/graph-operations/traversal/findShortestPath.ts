@@ -0,0 +1,70 @@
+/**
+ * Finds the shortest path between two nodes, ignoring edge direction.
+ * Uses breadth-first search over both outgoing and incoming edges.
+ */
+
+import type { Graph, NodeIdAndFilePath } from '@/pure/graph'
+
+// Each visited node's BFS parent; the start node maps to null
+type Predecessors = Record<NodeIdAndFilePath, NodeIdAndFilePath | null>
+
+function getUndirectedNeighbors(graph: Graph, nodeId: NodeIdAndFilePath): readonly NodeIdAndFilePath[] {
+  const outgoing: readonly NodeIdAndFilePath[] = (graph.nodes[nodeId]?.outgoingEdges ?? [])
+    .map(edge => edge.targetId)
+  const incoming: readonly NodeIdAndFilePath[] = graph.incomingEdgesIndex.get(nodeId) ?? []
+  return [...outgoing, ...incoming].filter(id => graph.nodes[id] !== undefined)
+}
+
+function rebuildPath(predecessors: Readonly<Predecessors>, endNodeId: NodeIdAndFilePath): readonly NodeIdAndFilePath[] {
+  const previous: NodeIdAndFilePath | null = predecessors[endNodeId] ?? null
+  return previous ? [...rebuildPath(predecessors, previous), endNodeId] : [endNodeId]
+}
+
+/**
+ * Finds the shortest undirected path from startNodeId to endNodeId.
+ *
+ * @param graph - The graph to search
+ * @param startNodeId - Node ID to start from
+ * @param endNodeId - Node ID to reach
+ * @returns Node IDs along the path (including both ends), or undefined if unreachable
+ *
+ * @example
+ * // Given: a -> b, c -> b
+ * findShortestPath(graph, 'a', 'c') // => ['a', 'b', 'c']
+ */
+export function findShortestPath(
+  graph: Graph,
+  startNodeId: NodeIdAndFilePath,
+  endNodeId: NodeIdAndFilePath
+): readonly NodeIdAndFilePath[] | undefined {
+  if (!graph.nodes[startNodeId] || !graph.nodes[endNodeId]) {
+    return undefined
+  }
+
+  // Doubles as the visited set: a node is visited once it has an entry
+  const predecessors: Predecessors = { [startNodeId]: null }
+
+  /**
+   * Expands the BFS one level at a time until the target is reached or the frontier is empty.
+   */
+  function bfs(frontier: readonly NodeIdAndFilePath[]): boolean {
+    if (predecessors[endNodeId] !== undefined) {
+      return true
+    }
+    if (frontier.length === 0) {
+      return false
+    }
+    const nextFrontier: readonly NodeIdAndFilePath[] = frontier.flatMap(nodeId =>
+      getUndirectedNeighbors(graph, nodeId).filter(neighborId => {
+        if (predecessors[neighborId] !== undefined) {
+          return false
+        }
+        predecessors[neighborId] = nodeId
+        return true
+      })
+    )
+    return bfs(nextFrontier)
+  }
+
+  return bfs([startNodeId]) ? rebuildPath(predecessors, endNodeId) : undefined
+}
@@ -13,7 +13,7 @@ describe('getNodeIdsInTraversalOrder', () => {
       color: O.none,
       position: O.none,
 
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
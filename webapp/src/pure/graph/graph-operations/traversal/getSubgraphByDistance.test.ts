@@ -13,7 +13,7 @@ describe('getSubgraphByDistance', () => {
       color: O.none,
       position: O.none,
 
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
@@ -254,7 +254,7 @@ describe('getSubgraphByDistance', () => {
       nodeUIMetadata: {
         color: O.none,
         position: O.none,
-        additionalYAMLProps: new Map(),
+        additionalYAMLProps: {},
         isContextNode: true
       }
     })
@@ -515,7 +515,7 @@ describe('getSubgraphByDistance', () => {
       nodeUIMetadata: {
         color: O.none,
         position: O.none,
-        additionalYAMLProps: new Map(),
+        additionalYAMLProps: {},
         isContextNode: true
       }
     })
@@ -690,7 +690,7 @@ describe('getUnionSubgraphByDistance', () => {
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
@@ -702,7 +702,7 @@ describe('getUnionSubgraphByDistance', () => {
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: true
     }
   })
@@ -3,13 +3,11 @@ import * as fs from 'fs/promises'
 import * as path from 'path'
 import * as os from 'os'
 import * as O from 'fp-ts/lib/Option.js'
-import * as E from 'fp-ts/lib/Either.js'
 import type { Graph, FSUpdate, GraphDelta, GraphNode } from '@/pure/graph'
 import { createGraph } from '@/pure/graph/createGraph'
 import { applyGraphDeltaToGraph } from '@/pure/graph/graphDelta/applyGraphDeltaToGraph'
 import { loadGraphFromDisk } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
 import { mapFSEventsToGraphDelta } from '@/pure/graph/mapFSEventsToGraphDelta'
-import type { FileLimitExceededError } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce'
 
 // Helper to find a node by filename or relative path (since node IDs are now absolute paths)
 // Works with both 'file.md' and 'subdir/file.md' patterns
@@ -74,10 +72,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
         '# Source Node\n\n- links to [[target]]'
       )
 
-      const result: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([forwardVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(result)) throw new Error('Expected Right')
-      const graph: Graph = result.right
+      const graph: Graph = await loadGraphFromDisk([forwardVaultPath])
 
       // Verify: source node has edge to target (using helpers for absolute paths)
       const sourceNode: GraphNode | undefined = findNodeByFilename(graph, 'source.md')
@@ -106,10 +101,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
         '# Target Node'
       )
 
-      const result2: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([reverseVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(result2)) throw new Error('Expected Right')
-      const graph: Graph = result2.right
+      const graph: Graph = await loadGraphFromDisk([reverseVaultPath])
 
       // Verify: SAME RESULT as forward order (using helpers for absolute paths)
       const sourceNode2: GraphNode | undefined = findNodeByFilename(graph, 'source.md')
@@ -138,10 +130,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
         '# Node 1'
       )
 
-      const result3: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([subfolderVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(result3)) throw new Error('Expected Right')
-      const graph: Graph = result3.right
+      const graph: Graph = await loadGraphFromDisk([subfolderVaultPath])
 
       // Verify: Link resolves to felix/1 (not just "1") - using helpers for absolute paths
       const felix2: GraphNode | undefined = findNodeByFilename(graph, 'felix/2.md')
@@ -175,10 +164,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
         '# A\n\n- extends [[b]]'
       )
 
-      const result4: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([chainVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(result4)) throw new Error('Expected Right')
-      const graph: Graph = result4.right
+      const graph: Graph = await loadGraphFromDisk([chainVaultPath])
 
       // Verify: All edges resolved (using helpers for absolute paths)
       const nodeA: GraphNode | undefined = findNodeByFilename(graph, 'a.md')
@@ -204,7 +190,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
 
             color: O.none,
             position: O.none,
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: false
           }
         }
@@ -266,7 +252,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
 
             color: O.none,
             position: O.none,
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: false
           }
         }
@@ -296,7 +282,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
           absoluteFilePathIsID: 'parent.md',
           contentWithoutYamlOrLinks: '# Parent',
           outgoingEdges: [{ targetId: 'child.md', label: 'links to' }],
-          nodeUIMetadata: { color: O.none, position: O.none, additionalYAMLProps: new Map(), isContextNode: false }
+          nodeUIMetadata: { color: O.none, position: O.none, additionalYAMLProps: {}, isContextNode: false }
         }
       })
 
@@ -329,7 +315,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
           contentWithoutYamlOrLinks: '# Source',
           // Edge targetId EXACTLY matches the node ID that will be created - no fuzzy matching needed
           outgoingEdges: [{ targetId: 'target.md', label: 'links to' }],
-          nodeUIMetadata: { color: O.none, position: O.none, additionalYAMLProps: new Map(), isContextNode: false }
+          nodeUIMetadata: { color: O.none, position: O.none, additionalYAMLProps: {}, isContextNode: false }
         }
       })
 
@@ -357,13 +343,13 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
           absoluteFilePathIsID: 'parent.md',
           contentWithoutYamlOrLinks: '# Parent',
           outgoingEdges: [{ targetId: 'child.md', label: 'links to' }],
-          nodeUIMetadata: { color: O.none, position: O.none, additionalYAMLProps: new Map(), isContextNode: false }
+          nodeUIMetadata: { color: O.none, position: O.none, additionalYAMLProps: {}, isContextNode: false }
         },
         'child.md': {
           absoluteFilePathIsID: 'child.md',
           contentWithoutYamlOrLinks: '# Child',
           outgoingEdges: [],
-          nodeUIMetadata: { color: O.none, position: O.none, additionalYAMLProps: new Map(), isContextNode: false }
+          nodeUIMetadata: { color: O.none, position: O.none, additionalYAMLProps: {}, isContextNode: false }
         }
       })
 
@@ -390,10 +376,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
       await fs.writeFile(path.join(bulkVaultPath, 'b.md'), '# B\n\n- links [[c]]')
       await fs.writeFile(path.join(bulkVaultPath, 'c.md'), '# C')
 
-      const bulkResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([bulkVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(bulkResult)) throw new Error('Expected Right')
-      const bulkGraph: Graph = bulkResult.right
+      const bulkGraph: Graph = await loadGraphFromDisk([bulkVaultPath])
 
       // INCREMENTAL (simulate sequential file additions)
       const incrementalVaultPath: string = path.join(testVaultPath, 'incremental-unified')
@@ -450,10 +433,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
       await fs.writeFile(path.join(bulkVaultPath, 'a.md'), '# A\n\n- links [[b]]')
       await fs.writeFile(path.join(bulkVaultPath, 'b.md'), '# B')
 
-      const bulkResult2: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([bulkVaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(bulkResult2)) throw new Error('Expected Right')
-      const bulkGraph: Graph = bulkResult2.right
+      const bulkGraph: Graph = await loadGraphFromDisk([bulkVaultPath])
 
       // INCREMENTAL (reverse order - b before a)
       const incrementalVaultPath: string = path.join(testVaultPath, 'incremental-reverse')
@@ -499,10 +479,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
         '# Source\n\n- broken link [[does-not-exist]]'
       )
 
-      const result5: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([vaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(result5)) throw new Error('Expected Right')
-      const graph: Graph = result5.right
+      const graph: Graph = await loadGraphFromDisk([vaultPath])
 
       // Verify: Edge preserved with raw link text (using helper for absolute paths)
       const sourceNodeBulk: GraphNode | undefined = findNodeByFilename(graph, 'source.md')
@@ -540,10 +517,7 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
         '# Source\n\n- link1 [[a]]\n- link2 [[b]]\n- link3 [[c]]'
       )
 
-      const result6: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([vaultPath])
-      // eslint-disable-next-line functional/no-throw-statements
-      if (E.isLeft(result6)) throw new Error('Expected Right')
-      const graph: Graph = result6.right
+      const graph: Graph = await loadGraphFromDisk([vaultPath])
 
       // Verify: All edges preserved as raw text (using helper for absolute paths)
       const sourceNodeMulti: GraphNode | undefined = findNodeByFilename(graph, 'source.md')
@@ -554,4 +528,59 @@ describe('Progressive Edge Validation - Unified Behavior', () => {
       await fs.rm(vaultPath, { recursive: true })
     })
   })
+  describe('Frontmatter Aliases', () => {
+    const aliasedContent: string = '---\naliases: [Auth Service, auth]\n---\n# Auth Service v2'
+
+    it('should resolve links to a frontmatter alias', () => {
+      const targetPath: string = path.join(testVaultPath, 'aliases', 'auth-service-v2.md')
+      const graphWithTarget: Graph = applyGraphDeltaToGraph(createGraph({}), mapFSEventsToGraphDelta(
+        { absolutePath: targetPath, content: aliasedContent, eventType: 'Added' },
+        createGraph({})
+      ))
+
+      const delta: GraphDelta = mapFSEventsToGraphDelta(
+        { absolutePath: path.join(testVaultPath, 'aliases', 'api.md'), content: '# API\n\n- depends on [[Auth Service]]', eventType: 'Added' },
+        graphWithTarget
+      )
+
+      expect(delta[0].type === 'UpsertNode' && delta[0].nodeToUpsert.outgoingEdges[0].targetId).toBe(targetPath)
+    })
+
+    it('should prefer a matching filename over an alias', () => {
+      const aliasedPath: string = path.join(testVaultPath, 'aliases', 'auth-service-v2.md')
+      const filenamePath: string = path.join(testVaultPath, 'aliases', 'auth.md')
+      const graph: Graph = [
+        { absolutePath: aliasedPath, content: aliasedContent, eventType: 'Added' as const },
+        { absolutePath: filenamePath, content: '# Auth', eventType: 'Added' as const }
+      ].reduce((acc: Graph, fsEvent: FSUpdate) => applyGraphDeltaToGraph(acc, mapFSEventsToGraphDelta(fsEvent, acc)), createGraph({}))
+
+      const delta: GraphDelta = mapFSEventsToGraphDelta(
+        { absolutePath: path.join(testVaultPath, 'aliases', 'api.md'), content: '[[auth]]', eventType: 'Added' },
+        graph
+      )
+
+      expect(delta[0].type === 'UpsertNode' && delta[0].nodeToUpsert.outgoingEdges[0].targetId).toBe(filenamePath)
+    })
+
+    it('should heal dangling links when a node declaring the alias is added', () => {
+      const sourcePath: string = path.join(testVaultPath, 'aliases', 'api.md')
+      const targetPath: string = path.join(testVaultPath, 'aliases', 'auth-service-v2.md')
+      const graphWithSource: Graph = applyGraphDeltaToGraph(createGraph({}), mapFSEventsToGraphDelta(
+        { absolutePath: sourcePath, content: '# API\n\n- depends on [[Auth Service#Tokens]]', eventType: 'Added' },
+        createGraph({})
+      ))
+      expect(graphWithSource.nodes[sourcePath].outgoingEdges[0].targetId).toBe('Auth Service')
+
+      const delta: GraphDelta = mapFSEventsToGraphDelta(
+        { absolutePath: targetPath, content: aliasedContent, eventType: 'Added' },
+        graphWithSource
+      )
+      const graphAfter: Graph = applyGraphDeltaToGraph(graphWithSource, delta)
+
+      expect(graphAfter.nodes[sourcePath].outgoingEdges).toEqual([
+        { targetId: targetPath, label: 'depends on', anchor: '#Tokens' }
+      ])
+      expect(graphAfter.unresolvedLinksIndex.get('auth service')).toBeUndefined()
+    })
+  })
 })
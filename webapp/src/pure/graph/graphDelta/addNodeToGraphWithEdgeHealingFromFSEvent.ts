@@ -5,7 +5,8 @@ import {findBestMatchingNode} from '@/pure/graph/markdown-parsing/extract-edges'
 import {setOutgoingEdges} from '@/pure/graph/graph-operations/graph-edge-operations'
 import {filenameToNodeId} from '@/pure/graph/markdown-parsing/filename-utils'
 import {calculateInitialPositionForChild} from "@/pure/graph/positioning/calculateInitialPosition";
-import {getBaseName, updateNodeByBaseNameIndexForUpsert, updateUnresolvedLinksIndexForUpsert} from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import {getAliasKey, getBaseName, getNodeAliases, updateNodeByAliasIndexForUpsert, updateNodeByBaseNameIndexForUpsert, updateUnresolvedLinksIndexForUpsert} from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import {DEFAULT_RELATIONSHIP_VOCABULARY, type RelationshipVocabulary} from '@/pure/graph/relationships'
 
 /**
  * Resolve position for a node based on priority:
@@ -45,13 +46,13 @@ function healNodeEdges(affectedNodeIds: readonly NodeIdAndFilePath[], currentGra
         const affectedNode: GraphNode = currentGraph.nodes[affectedNodeId]
 
         // Re-resolve the existing edges against the updated graph
-        // Pass nodeByBaseName index for O(1) link resolution
+        // Pass nodeByBaseName and nodeByAlias indexes for O(1) link resolution
         const healedEdges: readonly {
             readonly targetId: string;
             readonly label: string;
         }[] = affectedNode.outgoingEdges.map((edge) => {
             // Try to resolve the raw targetId to an actual node
-            const resolvedTargetId: string | undefined = findBestMatchingNode(edge.targetId, graphWithNewNode.nodes, graphWithNewNode.nodeByBaseName)
+            const resolvedTargetId: string | undefined = findBestMatchingNode(edge.targetId, graphWithNewNode.nodes, graphWithNewNode.nodeByBaseName, graphWithNewNode.nodeByAlias)
             return {
                 ...edge,
                 targetId: resolvedTargetId ?? edge.targetId
@@ -96,6 +97,7 @@ function healNodeEdges(affectedNodeIds: readonly NodeIdAndFilePath[], currentGra
  *
  * @param fsEvent - Filesystem event with content and absolute path
  * @param currentGraph - Current graph state (used for edge resolution)
+ * @param vocabulary - Relationship types edge labels are normalized against
  * @returns GraphDelta containing the new node and all healed nodes
  *
  * @example
@@ -121,10 +123,11 @@ function healNodeEdges(affectedNodeIds: readonly NodeIdAndFilePath[], currentGra
  */
 export function addNodeToGraphWithEdgeHealingFromFSEvent(
     fsEvent: FSUpdate,
-    currentGraph: Graph
+    currentGraph: Graph,
+    vocabulary: RelationshipVocabulary = DEFAULT_RELATIONSHIP_VOCABULARY
 ): GraphDelta {
     const nodeId: string = extractNodeIdFromPath(fsEvent.absolutePath)
-    const parsedNode: GraphNode = parseMarkdownToGraphNode(fsEvent.content, nodeId, currentGraph)
+    const parsedNode: GraphNode = parseMarkdownToGraphNode(fsEvent.content, nodeId, currentGraph, vocabulary)
 
     // Check if this is a new node or an update to an existing node
     //console.log(`nodeId: ${nodeId}, relativeFilePathIsID: ${parsedNode.absoluteFilePathIsID}`)
@@ -156,7 +159,9 @@ export function addNodeToGraphWithEdgeHealingFromFSEvent(
         nodes: newNodes,
         incomingEdgesIndex: currentGraph.incomingEdgesIndex,
         nodeByBaseName: updateNodeByBaseNameIndexForUpsert(currentGraph.nodeByBaseName, newNode, previousNode),
-        unresolvedLinksIndex: updateUnresolvedLinksIndexForUpsert(currentGraph.unresolvedLinksIndex, newNode, previousNode, newNodes)
+        nodeByAlias: updateNodeByAliasIndexForUpsert(currentGraph.nodeByAlias, newNode, previousNode),
+        unresolvedLinksIndex: updateUnresolvedLinksIndexForUpsert(currentGraph.unresolvedLinksIndex, newNode, previousNode, newNodes),
+        tagIndex: currentGraph.tagIndex
     }
 
 
@@ -177,6 +182,7 @@ export function addNodeToGraphWithEdgeHealingFromFSEvent(
  * Finds all nodes that have edges potentially pointing to the newly added node.
  *
  * Uses unresolvedLinksIndex for O(1) lookup instead of scanning all nodes.
+ * Dangling links are looked up by the node's basename and by each of its frontmatter aliases.
  *
  * @param newNode - The newly added node
  * @param currentGraph - Current graph state
@@ -187,6 +193,10 @@ export function addNodeToGraphWithEdgeHealingFromFSEvent(
  * // New node: "ctx-nodes/VT/foo.md"
  * // unresolvedLinksIndex: { "foo": ["/vault/other.md"] }
  * // => Returns ["/vault/other.md"]
+ *
+ * // New node: "auth-service-v2.md" with aliases: [Auth Service]
+ * // unresolvedLinksIndex: { "auth service": ["/vault/api.md"] }
+ * // => Returns ["/vault/api.md"]
  * ```
  */
 function findNodesWithPotentialEdgesToNode(
@@ -194,8 +204,9 @@ function findNodesWithPotentialEdgesToNode(
     currentGraph: Graph
 ): readonly NodeIdAndFilePath[] {
     const newNodeBasename: string = getBaseName(newNode.absoluteFilePathIsID)
-    // O(1) lookup using unresolvedLinksIndex
-    return currentGraph.unresolvedLinksIndex.get(newNodeBasename) ?? []
+    const lookupKeys: readonly string[] = [newNodeBasename, ...getNodeAliases(newNode).map(getAliasKey)]
+    // O(1) lookup per key using unresolvedLinksIndex
+    return [...new Set(lookupKeys.flatMap(key => currentGraph.unresolvedLinksIndex.get(key) ?? []))]
 }
 
 /**
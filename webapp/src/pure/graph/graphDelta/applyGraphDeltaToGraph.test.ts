@@ -19,7 +19,7 @@ function makeNode(
         nodeUIMetadata: {
             color: O.none,
             position: O.none,
-            additionalYAMLProps: new Map()
+            additionalYAMLProps: {}
         }
     }
 }
@@ -65,7 +65,7 @@ describe('applyGraphDeltaToGraph', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 200 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
             const graph: Graph = makeGraph([existingNode])
@@ -112,7 +112,7 @@ describe('applyGraphDeltaToGraph', () => {
                 nodeUIMetadata: {
                     color: O.some('blue'),
                     position: O.some({ x: 300, y: 400 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
             const graph: Graph = makeGraph([oldNode])
@@ -137,7 +137,7 @@ describe('applyGraphDeltaToGraph', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 200 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
             const graph: Graph = makeGraph([oldNode])
@@ -147,7 +147,7 @@ describe('applyGraphDeltaToGraph', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 500, y: 600 }),
-                    additionalYAMLProps: new Map()
+                    additionalYAMLProps: {}
                 }
             }
             const delta: GraphDelta = [
@@ -4,10 +4,14 @@ import type { IncomingEdgesIndex } from '@/pure/graph/graph-operations/incomingE
 import {
   updateNodeByBaseNameIndexForUpsert,
   updateNodeByBaseNameIndexForDelete,
+  updateNodeByAliasIndexForUpsert,
+  updateNodeByAliasIndexForDelete,
   updateUnresolvedLinksIndexForUpsert,
   updateUnresolvedLinksIndexForDelete
 } from '@/pure/graph/graph-operations/linkResolutionIndexes'
-import type { NodeByBaseNameIndex, UnresolvedLinksIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import type { NodeByAliasIndex, NodeByBaseNameIndex, UnresolvedLinksIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import { updateTagIndexForUpsert, updateTagIndexForDelete } from '@/pure/graph/graph-operations/tagIndex'
+import type { TagIndex } from '@/pure/graph/graph-operations/tagIndex'
 import * as O from 'fp-ts/lib/Option.js'
 
 /**
@@ -61,13 +65,17 @@ export function applyGraphDeltaToGraph(graph: Graph, delta: GraphDelta): Graph {
             // Update all indexes
             const newIncomingEdgesIndex: IncomingEdgesIndex = updateIndexForUpsert(currentGraph.incomingEdgesIndex, mergedNode, previousNode)
             const newNodeByBaseName: NodeByBaseNameIndex = updateNodeByBaseNameIndexForUpsert(currentGraph.nodeByBaseName, mergedNode, previousNode)
+            const newNodeByAlias: NodeByAliasIndex = updateNodeByAliasIndexForUpsert(currentGraph.nodeByAlias, mergedNode, previousNode)
             const newUnresolvedLinksIndex: UnresolvedLinksIndex = updateUnresolvedLinksIndexForUpsert(currentGraph.unresolvedLinksIndex, mergedNode, previousNode, newNodes)
+            const newTagIndex: TagIndex = updateTagIndexForUpsert(currentGraph.tagIndex, mergedNode, previousNode)
 
             return {
                 nodes: newNodes,
                 incomingEdgesIndex: newIncomingEdgesIndex,
                 nodeByBaseName: newNodeByBaseName,
-                unresolvedLinksIndex: newUnresolvedLinksIndex
+                nodeByAlias: newNodeByAlias,
+                unresolvedLinksIndex: newUnresolvedLinksIndex,
+                tagIndex: newTagIndex
             }
         } else if (nodeDelta.type === 'DeleteNode') {
             // Simple delete - just remove the node
@@ -80,13 +88,17 @@ export function applyGraphDeltaToGraph(graph: Graph, delta: GraphDelta): Graph {
             // Update all indexes
             const newIncomingEdgesIndex: IncomingEdgesIndex = updateIndexForDelete(currentGraph.incomingEdgesIndex, deletedNode)
             const newNodeByBaseName: NodeByBaseNameIndex = updateNodeByBaseNameIndexForDelete(currentGraph.nodeByBaseName, deletedNode)
+            const newNodeByAlias: NodeByAliasIndex = updateNodeByAliasIndexForDelete(currentGraph.nodeByAlias, deletedNode)
             const newUnresolvedLinksIndex: UnresolvedLinksIndex = updateUnresolvedLinksIndexForDelete(currentGraph.unresolvedLinksIndex, deletedNode, remaining)
+            const newTagIndex: TagIndex = updateTagIndexForDelete(currentGraph.tagIndex, deletedNode)
 
             return {
                 nodes: remaining,
                 incomingEdgesIndex: newIncomingEdgesIndex,
                 nodeByBaseName: newNodeByBaseName,
-                unresolvedLinksIndex: newUnresolvedLinksIndex
+                nodeByAlias: newNodeByAlias,
+                unresolvedLinksIndex: newUnresolvedLinksIndex,
+                tagIndex: newTagIndex
             }
         }
 
@@ -6,6 +6,7 @@ import * as O from "fp-ts/lib/Option.js";
 // TODO: parseMarkdownToGraphNode uses gray-matter which requires Node.js Buffer - move parsing to main process
 import {parseMarkdownToGraphNode} from "@/pure/graph/markdown-parsing/parse-markdown-to-node";
 import {ensureUniqueNodeId} from "@/pure/graph/ensureUniqueNodeId";
+import {DEFAULT_RELATIONSHIP_VOCABULARY, type RelationshipVocabulary} from "@/pure/graph/relationships";
 
 /**
  * Pure action creator functions.
@@ -96,12 +97,13 @@ export function fromContentChangeToGraphDelta(
     node: GraphNode,
     content: string,
     graph: Graph,
+    vocabulary: RelationshipVocabulary = DEFAULT_RELATIONSHIP_VOCABULARY,
 ): GraphDelta {
     // Look up current state from graph for previousNode
     const previousNode: O.Option<GraphNode> = O.fromNullable(graph.nodes[node.absoluteFilePathIsID])
     // Extract wikilinks from new content and update outgoingEdges
     // This ensures markdown is the source of truth for edges
-    const nodeUpdated: GraphNode = parseMarkdownToGraphNode(content, node.absoluteFilePathIsID, graph)
+    const nodeUpdated: GraphNode = parseMarkdownToGraphNode(content, node.absoluteFilePathIsID, graph, vocabulary)
     // todo review if this new logic works
     return [{
         type: 'UpsertNode',
@@ -158,7 +160,7 @@ export function createNewNodeNoParent(pos: Position, writePath: string, graph: G
             // NOTE: title is derived via getNodeTitle from contentWithoutYamlOrLinks
             color: O.none,
             position: O.of(pos),
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: false
         },
     }
@@ -9,6 +9,7 @@ import { prettyPrintGraphDelta } from './graph-operations/prettyPrint'
 import { graphToAscii } from './markdown-writing/graphToAscii'
 import { getSubgraphByDistance, getUnionSubgraphByDistance } from './graph-operations/traversal/getSubgraphByDistance'
 import { getNodeIdsInTraversalOrder } from './graph-operations/traversal/getNodeIdsInTraversalOrder'
+import { findShortestPath } from './graph-operations/traversal/findShortestPath'
 import { mapFSEventsToGraphDelta } from './mapFSEventsToGraphDelta'
 
 
@@ -18,13 +19,16 @@ export interface Graph {
     readonly nodes: Record<NodeIdAndFilePath, GraphNode>
     readonly incomingEdgesIndex: ReadonlyMap<NodeIdAndFilePath, readonly NodeIdAndFilePath[]>
     readonly nodeByBaseName: ReadonlyMap<string, readonly NodeIdAndFilePath[]>
+    readonly nodeByAlias: ReadonlyMap<string, readonly NodeIdAndFilePath[]>  // lowercase frontmatter alias -> node IDs
     readonly unresolvedLinksIndex: ReadonlyMap<string, readonly NodeIdAndFilePath[]>
+    readonly tagIndex: ReadonlyMap<string, readonly NodeIdAndFilePath[]>  // normalized tag -> node IDs
 }
 
 
 export interface Edge {
     readonly targetId: NodeIdAndFilePath
     readonly label: string  // empty string if no relationship label
+    readonly anchor?: string  // heading or block the link points into, e.g. "#Section" or "^block-id"
 }
 
 /**
@@ -56,38 +60,40 @@ export interface GraphNode {
     // readonly fileName:  (filePath: FilePath) => string, derived
 }
 
+/**
+ * A frontmatter value as YAML parsed it, keeping its type (lists, nested objects, numbers, booleans).
+ * Plain JSON-compatible data, so nodes survive Electron IPC unchanged (Maps and Dates don't).
+ * YAML dates are kept as ISO date strings.
+ */
+export type FrontmatterValue =
+    | string
+    | number
+    | boolean
+    | null
+    | readonly FrontmatterValue[]
+    | { readonly [key: string]: FrontmatterValue }
+
+export type FrontmatterProps = { readonly [key: string]: FrontmatterValue }
+
 export interface NodeUIMetadata {
     // NOTE: title is NOT stored here - it's derived via getNodeTitle(node) from Markdown content
     readonly color: O.Option<string>
     readonly position: O.Option<Position>
-    // todo,ReadonlyMap doesn't serialize over IPC? must be record?
-    readonly additionalYAMLProps: ReadonlyMap<string,string> // todo support this at both read and write paths for Node <-> Markdown
+    // Frontmatter keys without an explicit field below, with their YAML types
+    readonly additionalYAMLProps: FrontmatterProps
     readonly isContextNode?: boolean // undefined means false
     readonly containedNodeIds?: readonly NodeIdAndFilePath[] // Node IDs whose content is contained in this context node
+    // Frontmatter text (between the --- fences) the node was parsed from. Keys whose value is
+    // unchanged are written back from it verbatim, keeping their formatting and comments.
+    readonly frontmatterSource?: string
     // width/height is derived from node degree
 }
 
-// {}.entries() throws an error:
-//     Error: emptyObj.entries is not a function
-//
-// So after IPC:
-//     1. additionalYAMLProps: Map(...) becomes {}
-// 2. buildFrontmatterFromMetadata calls metadata.additionalYAMLProps.entries()
-// 3. This throws an error!
-// 4. The error is probably caught somewhere, returning incomplete data
-//
-// The Map type doesn't survive Electron IPC serialization. You need to either:
-//
-// 1. Convert Map to Array/Object before IPC (and back after)
-// 2. Use Object instead of Map for additionalYAMLProps
-//     3. Add serialization handling in the IPC layer
-
-
 // Example object used to derive YAML keys at runtime (types are erased, but object keys remain)
 const _exampleNodeUIMetadata: NodeUIMetadata = {
     color: O.some('purple'),
     position: O.some({ x: 100, y: 200 }),
-    additionalYAMLProps: new Map([['agent_name', 'Wendy']]),
+    additionalYAMLProps: { agent_name: 'Wendy' },
     isContextNode: false
 }
 
@@ -191,6 +197,8 @@ export type GraphToAscii = (graph: Graph, forcedRootNodeId?: NodeIdAndFilePath)
 
 export type GetNodeIdsInTraversalOrder = (graph: Graph) => readonly NodeIdAndFilePath[]
 
+export type FindShortestPath = (graph: Graph, startNodeId: NodeIdAndFilePath, endNodeId: NodeIdAndFilePath) => readonly NodeIdAndFilePath[] | undefined
+
 export type PrettyPrintGraphDelta = (delta: GraphDelta) => string
 
 // === CORE GRAPH DELTA OPERATIONS ===
@@ -228,6 +236,9 @@ void (graphToAscii satisfies GraphToAscii)
 export { getNodeIdsInTraversalOrder } from './graph-operations/traversal/getNodeIdsInTraversalOrder'
 void (getNodeIdsInTraversalOrder satisfies GetNodeIdsInTraversalOrder)
 
+export { findShortestPath } from './graph-operations/traversal/findShortestPath'
+void (findShortestPath satisfies FindShortestPath)
+
 export { prettyPrintGraphDelta } from './graph-operations/prettyPrint'
 void (prettyPrintGraphDelta satisfies PrettyPrintGraphDelta)
 
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type { Edge, Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import {
+  addFilesToLargeVaultIndex,
+  applyFSEventToLargeVaultIndex,
+  chooseVaultLoadMode,
+  createEmptyLargeVaultIndex,
+  extractLinkTexts,
+  filterLargeVaultIndex,
+  findUnloadedNeighborFiles,
+  selectSeedFiles,
+  type IndexedVaultFile,
+  type LargeVaultIndex,
+} from './largeVaultIndex'
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, edges: readonly Edge[] = []): GraphNode {
+  return {
+    outgoingEdges: edges,
+    absoluteFilePathIsID: nodeId,
+    contentWithoutYamlOrLinks: '# Node',
+    nodeUIMetadata: {
+      color: O.none,
+      position: O.none,
+      additionalYAMLProps: {},
+      isContextNode: false
+    }
+  }
+}
+
+function indexedFile(absolutePath: string, modifiedAt: number, linkTexts: readonly string[] = []): IndexedVaultFile {
+  return { absolutePath, modifiedAt, linkTexts }
+}
+
+describe('chooseVaultLoadMode', () => {
+  it('switches to large-vault mode only above the threshold', () => {
+    expect(chooseVaultLoadMode(300, 300)).toBe('full')
+    expect(chooseVaultLoadMode(301, 300)).toBe('large-vault')
+  })
+})
+
+describe('extractLinkTexts', () => {
+  it('keeps raw wikilink texts', () => {
+    expect(extractLinkTexts('- implements [[tasks/task-a]]\nsee [[Note B.md]]')).toEqual(['tasks/task-a', 'Note B.md'])
+  })
+})
+
+describe('selectSeedFiles', () => {
+  it('picks the most recently modified files up to the budget', () => {
+    const files: readonly IndexedVaultFile[] = [
+      indexedFile('/vault/old.md', 1),
+      indexedFile('/vault/newest.md', 3),
+      indexedFile('/vault/newer.md', 2),
+    ]
+
+    expect(selectSeedFiles(files, 2)).toEqual(['/vault/newest.md', '/vault/newer.md'])
+    expect(selectSeedFiles(files, -5)).toEqual([])
+  })
+})
+
+describe('addFilesToLargeVaultIndex / filterLargeVaultIndex', () => {
+  it('replaces entries by path and maintains the basename index', () => {
+    const index: LargeVaultIndex = addFilesToLargeVaultIndex(
+      addFilesToLargeVaultIndex(createEmptyLargeVaultIndex(), [indexedFile('/vault/a/note.md', 1)]),
+      [indexedFile('/vault/a/note.md', 2), indexedFile('/vault/b/note.md', 1)]
+    )
+
+    expect(index.files.get('/vault/a/note.md')?.modifiedAt).toBe(2)
+    expect(index.fileByBaseName.get('note')).toEqual(['/vault/a/note.md', '/vault/b/note.md'])
+
+    const filtered: LargeVaultIndex = filterLargeVaultIndex(index, filePath => filePath.startsWith('/vault/a/'))
+    expect([...filtered.files.keys()]).toEqual(['/vault/a/note.md'])
+    expect(filtered.fileByBaseName.get('note')).toEqual(['/vault/a/note.md'])
+  })
+})
+
+describe('applyFSEventToLargeVaultIndex', () => {
+  const index: LargeVaultIndex = addFilesToLargeVaultIndex(createEmptyLargeVaultIndex(), [indexedFile('/vault/note.md', 1)])
+
+  it('drops deleted files', () => {
+    const updated: LargeVaultIndex = applyFSEventToLargeVaultIndex(index, { type: 'Delete', absolutePath: '/vault/note.md' }, 5)
+
+    expect(updated.files.size).toBe(0)
+    expect(updated.fileByBaseName.get('note')).toBeUndefined()
+  })
+
+  it('indexes added files with their links', () => {
+    const updated: LargeVaultIndex = applyFSEventToLargeVaultIndex(index, { absolutePath: '/vault/new.md', content: 'See [[note]]', eventType: 'Added' }, 5)
+
+    expect(updated.files.get('/vault/new.md')).toEqual(indexedFile('/vault/new.md', 5, ['note']))
+    expect(updated.fileByBaseName.get('new')).toEqual(['/vault/new.md'])
+  })
+
+  it('re-indexes changed files only if they were indexed', () => {
+    const changed: LargeVaultIndex = applyFSEventToLargeVaultIndex(index, { absolutePath: '/vault/note.md', content: '[[other]]', eventType: 'Changed' }, 5)
+    expect(changed.files.get('/vault/note.md')?.linkTexts).toEqual(['other'])
+
+    expect(applyFSEventToLargeVaultIndex(index, { absolutePath: '/elsewhere/a.md', content: '', eventType: 'Changed' }, 5)).toBe(index)
+    expect(applyFSEventToLargeVaultIndex(index, { type: 'Delete', absolutePath: '/elsewhere/a.md' }, 5)).toBe(index)
+  })
+})
+
+describe('findUnloadedNeighborFiles', () => {
+  // focus.md is loaded and links to [[child]]; parent.md links to focus; unrelated.md links elsewhere
+  const index: LargeVaultIndex = addFilesToLargeVaultIndex(createEmptyLargeVaultIndex(), [
+    indexedFile('/vault/focus.md', 5, ['child']),
+    indexedFile('/vault/child.md', 1),
+    indexedFile('/vault/parent.md', 1, ['focus']),
+    indexedFile('/vault/unrelated.md', 1, ['elsewhere']),
+    indexedFile('/vault/loaded.md', 1, ['focus']),
+  ])
+  const graph: Graph = createGraph({
+    '/vault/focus.md': buildGraphNode('/vault/focus.md', [{ targetId: 'child', label: '' }]),
+    '/vault/loaded.md': buildGraphNode('/vault/loaded.md', [{ targetId: '/vault/focus.md', label: '' }]),
+  })
+
+  it('returns unloaded files linked from and linking to the node', () => {
+    expect(findUnloadedNeighborFiles(index, graph, '/vault/focus.md')).toEqual(['/vault/child.md', '/vault/parent.md'])
+  })
+
+  it('returns nothing for nodes that are not in the graph', () => {
+    expect(findUnloadedNeighborFiles(index, graph, '/vault/child.md')).toEqual([])
+  })
+})
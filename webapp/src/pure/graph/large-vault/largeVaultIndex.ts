@@ -0,0 +1,182 @@
+/**
+ * Large-vault mode: an index of every file in a vault, used to materialize nodes lazily.
+ *
+ * When a vault has more files than the configured threshold, only a seed set of
+ * nodes is loaded into the graph. The rest of the vault is kept as a lightweight
+ * index (path, mtime, raw wikilink texts), and nodes are materialized on demand
+ * around the node the user is focusing.
+ */
+
+import type { FSEvent, Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { isImageNode } from '@/pure/graph'
+import { filenameToNodeId } from '@/pure/graph/markdown-parsing/filename-utils'
+import { extractEdges, findBestMatchingNode } from '@/pure/graph/markdown-parsing/extract-edges'
+import { getBaseName, type NodeByBaseNameIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+
+/** Default number of files above which a vault is loaded lazily */
+export const DEFAULT_LARGE_VAULT_THRESHOLD: 300 = 300 as const
+
+/**
+ * - full: every file is loaded into the graph
+ * - large-vault: only a seed set is loaded, the rest is expanded lazily from the index
+ */
+export type VaultLoadMode = 'full' | 'large-vault'
+
+export type IndexedVaultFile = {
+    readonly absolutePath: NodeIdAndFilePath
+    readonly modifiedAt: number
+    /** Raw wikilink texts in the file, unresolved */
+    readonly linkTexts: readonly string[]
+}
+
+export type LargeVaultIndex = {
+    readonly files: ReadonlyMap<NodeIdAndFilePath, IndexedVaultFile>
+    readonly fileByBaseName: NodeByBaseNameIndex
+}
+
+export function createEmptyLargeVaultIndex(): LargeVaultIndex {
+    return { files: new Map(), fileByBaseName: new Map() }
+}
+
+/**
+ * The threshold is a soft limit: exceeding it switches to lazy loading instead of failing.
+ */
+export function chooseVaultLoadMode(fileCount: number, threshold: number): VaultLoadMode {
+    return fileCount > threshold ? 'large-vault' : 'full'
+}
+
+/**
+ * Raw wikilink texts of a markdown file (resolved against no nodes, so link text is kept as-is).
+ */
+export function extractLinkTexts(content: string): readonly string[] {
+    return extractEdges(content, {}).map(edge => edge.targetId)
+}
+
+/**
+ * Group file paths by basename in linear passes (after one sort): vaults in this mode have
+ * thousands of files, where growing the index one entry at a time would be quadratic.
+ * The sort is stable, so paths sharing a basename keep their order.
+ */
+function buildLargeVaultIndex(files: ReadonlyMap<NodeIdAndFilePath, IndexedVaultFile>): LargeVaultIndex {
+    const byBaseName: readonly (readonly [string, NodeIdAndFilePath])[] = [...files.keys()]
+        .map(filePath => [getBaseName(filePath), filePath] as const)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    const groupStarts: readonly number[] = byBaseName
+        .map((_, index) => index)
+        .filter(index => index === 0 || byBaseName[index - 1][0] !== byBaseName[index][0])
+    const fileByBaseName: NodeByBaseNameIndex = new Map(groupStarts.map((start, groupIndex) => [
+        byBaseName[start][0],
+        byBaseName.slice(start, groupStarts[groupIndex + 1] ?? byBaseName.length).map(([, filePath]) => filePath)
+    ] as const))
+    return { files, fileByBaseName }
+}
+
+/**
+ * Add files to an index, replacing entries with the same path.
+ */
+export function addFilesToLargeVaultIndex(
+    index: LargeVaultIndex,
+    files: readonly IndexedVaultFile[]
+): LargeVaultIndex {
+    return buildLargeVaultIndex(new Map([
+        ...index.files,
+        ...files.map(file => [file.absolutePath, file] as const)
+    ]))
+}
+
+/**
+ * Keep only the indexed files matching the predicate (e.g. when a vault path is removed).
+ */
+export function filterLargeVaultIndex(
+    index: LargeVaultIndex,
+    keep: (filePath: NodeIdAndFilePath) => boolean
+): LargeVaultIndex {
+    return buildLargeVaultIndex(new Map([...index.files].filter(([filePath]) => keep(filePath))))
+}
+
+/**
+ * Keep an index in step with a file watcher event, so expansion never loads deleted files
+ * and resolves links to files created after the vault was indexed.
+ *
+ * - Delete: drops the file
+ * - Added: indexes the file
+ * - Changed: re-indexes the file if it was indexed
+ *
+ * Returns the same index when nothing changed (rebuilding is linear in the vault size).
+ *
+ * @param modifiedAt - When the event was observed
+ */
+export function applyFSEventToLargeVaultIndex(
+    index: LargeVaultIndex,
+    fsEvent: FSEvent,
+    modifiedAt: number
+): LargeVaultIndex {
+    const filePath: NodeIdAndFilePath = filenameToNodeId(fsEvent.absolutePath)
+    if ('type' in fsEvent) {
+        return index.files.has(filePath)
+            ? filterLargeVaultIndex(index, indexedPath => indexedPath !== filePath)
+            : index
+    }
+    if (fsEvent.eventType === 'Changed' && !index.files.has(filePath)) {
+        return index
+    }
+    // Image files have no links
+    const linkTexts: readonly string[] = isImageNode(filePath) ? [] : extractLinkTexts(fsEvent.content)
+    return addFilesToLargeVaultIndex(index, [{ absolutePath: filePath, modifiedAt, linkTexts }])
+}
+
+/**
+ * Pick the files to load up-front in large-vault mode: the most recently modified ones.
+ *
+ * @param files - Candidate files (not yet in the graph)
+ * @param budget - Maximum number of files to pick
+ */
+export function selectSeedFiles(
+    files: readonly IndexedVaultFile[],
+    budget: number
+): readonly NodeIdAndFilePath[] {
+    return [...files]
+        .sort((a, b) => b.modifiedAt - a.modifiedAt || a.absolutePath.localeCompare(b.absolutePath))
+        .slice(0, Math.max(0, budget))
+        .map(file => file.absolutePath)
+}
+
+function resolveLinkInIndex(linkText: string, index: LargeVaultIndex): NodeIdAndFilePath | undefined {
+    return findBestMatchingNode(linkText, {}, index.fileByBaseName)
+}
+
+/**
+ * Files of the index that are one hop away from a node but not yet in the graph.
+ *
+ * - Outgoing: the node's dangling links that resolve to an indexed file
+ * - Incoming: indexed files whose links resolve to the node
+ *
+ * @returns Absolute paths to materialize, sorted for deterministic loading
+ */
+export function findUnloadedNeighborFiles(
+    index: LargeVaultIndex,
+    graph: Graph,
+    nodeId: NodeIdAndFilePath
+): readonly NodeIdAndFilePath[] {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    if (!node) return []
+
+    const outgoing: readonly NodeIdAndFilePath[] = node.outgoingEdges
+        .filter(edge => !graph.nodes[edge.targetId])
+        .flatMap(edge => {
+            const resolved: NodeIdAndFilePath | undefined = resolveLinkInIndex(edge.targetId, index)
+            return resolved ? [resolved] : []
+        })
+
+    const incoming: readonly NodeIdAndFilePath[] = [...index.files.values()]
+        .filter(file => !graph.nodes[file.absolutePath])
+        .filter(file => file.linkTexts.some(linkText =>
+            getBaseName(linkText) === getBaseName(nodeId)
+            && (resolveLinkInIndex(linkText, index) ?? findBestMatchingNode(linkText, graph.nodes, graph.nodeByBaseName, graph.nodeByAlias)) === nodeId
+        ))
+        .map(file => file.absolutePath)
+
+    return [...new Set([...outgoing, ...incoming])]
+        .filter(filePath => filePath !== nodeId && !graph.nodes[filePath])
+        .sort()
+}
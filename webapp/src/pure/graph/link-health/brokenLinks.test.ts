@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { getBrokenLinks } from './brokenLinks'
+import type { Edge, Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, outgoingEdges: readonly Edge[] = []): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges,
+        contentWithoutYamlOrLinks: '# Node',
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {}
+        }
+    }
+}
+
+describe('getBrokenLinks', () => {
+    it('should list each unresolved link with the nodes containing it', () => {
+        const graph: Graph = createGraph({
+            '/vault/a.md': createNode('/vault/a.md', [{ targetId: 'missing', label: '' }, { targetId: '/vault/b.md', label: '' }]),
+            '/vault/b.md': createNode('/vault/b.md', [{ targetId: 'missing', label: 'see' }]),
+            '/vault/c.md': createNode('/vault/c.md')
+        })
+
+        expect(getBrokenLinks(graph)).toEqual([
+            { linkText: 'missing', sourceNodeIds: ['/vault/a.md', '/vault/b.md'] }
+        ])
+    })
+
+    it('should report links sharing a basename but not a path separately', () => {
+        const graph: Graph = createGraph({
+            '/vault/a.md': createNode('/vault/a.md', [{ targetId: 'old/plan', label: '' }]),
+            '/vault/b.md': createNode('/vault/b.md', [{ targetId: 'plan', label: '' }])
+        })
+
+        expect(getBrokenLinks(graph)).toEqual([
+            { linkText: 'old/plan', sourceNodeIds: ['/vault/a.md'] },
+            { linkText: 'plan', sourceNodeIds: ['/vault/b.md'] }
+        ])
+    })
+
+    it('should be empty when every link resolves', () => {
+        const graph: Graph = createGraph({
+            '/vault/a.md': createNode('/vault/a.md', [{ targetId: '/vault/b.md', label: '' }]),
+            '/vault/b.md': createNode('/vault/b.md')
+        })
+
+        expect(getBrokenLinks(graph)).toEqual([])
+    })
+})
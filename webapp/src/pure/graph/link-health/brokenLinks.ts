@@ -0,0 +1,47 @@
+import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { getBaseName } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+
+/**
+ * One unresolved wikilink of the graph and the nodes containing it.
+ * linkText is the link as written, without anchor (it is also the dangling edge's targetId).
+ */
+export interface BrokenLink {
+    readonly linkText: string
+    readonly sourceNodeIds: readonly NodeIdAndFilePath[]
+}
+
+function getUnresolvedTargets(node: GraphNode, graph: Graph, basename: string): readonly string[] {
+    return node.outgoingEdges
+        .filter(edge => graph.nodes[edge.targetId] === undefined && getBaseName(edge.targetId) === basename)
+        .map(edge => edge.targetId)
+}
+
+/**
+ * Lists every unresolved wikilink of the graph with the nodes containing it, sorted by link text.
+ *
+ * Reads graph.unresolvedLinksIndex, which is keyed by basename: links that share a basename but
+ * not a path ([[old/plan]] and [[plan]]) are reported separately.
+ *
+ * @example
+ * // note1 and note2 contain [[bar]], bar.md doesn't exist
+ * getBrokenLinks(graph) => [{ linkText: 'bar', sourceNodeIds: ['/vault/note1.md', '/vault/note2.md'] }]
+ */
+export function getBrokenLinks(graph: Graph): readonly BrokenLink[] {
+    const pairs: readonly (readonly [string, NodeIdAndFilePath])[] = [...graph.unresolvedLinksIndex.entries()]
+        .flatMap(([basename, sourceNodeIds]) => [...new Set(sourceNodeIds)]
+            .filter(sourceNodeId => graph.nodes[sourceNodeId] !== undefined)
+            .flatMap(sourceNodeId => getUnresolvedTargets(graph.nodes[sourceNodeId], graph, basename)
+                .map(linkText => [linkText, sourceNodeId] as const)))
+
+    const sourcesByLink: ReadonlyMap<string, readonly NodeIdAndFilePath[]> = pairs.reduce<ReadonlyMap<string, readonly NodeIdAndFilePath[]>>(
+        (acc, [linkText, sourceNodeId]) => {
+            const sources: readonly NodeIdAndFilePath[] = acc.get(linkText) ?? []
+            return sources.includes(sourceNodeId) ? acc : new Map(acc).set(linkText, [...sources, sourceNodeId])
+        },
+        new Map()
+    )
+
+    return [...sourcesByLink.entries()]
+        .map(([linkText, sourceNodeIds]): BrokenLink => ({ linkText, sourceNodeIds: [...sourceNodeIds].sort() }))
+        .sort((a, b) => a.linkText.localeCompare(b.linkText))
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { computeCreateMissingNodeDelta, computeRemoveLinkDelta, computeRetargetLinkDelta, getMissingNodeId } from './computeLinkRepairDelta'
+import { getBrokenLinks } from './brokenLinks'
+import type { Edge, Graph, GraphDelta, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import { applyGraphDeltaToGraph } from '@/pure/graph/graphDelta/applyGraphDeltaToGraph'
+import { reverseDelta } from '@/pure/graph/undo'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, content: string = '# Node', outgoingEdges: readonly Edge[] = []): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.some({ x: 0, y: 0 }),
+            additionalYAMLProps: {}
+        }
+    }
+}
+
+function createVault(): Graph {
+    return createGraph({
+        '/vault/notes/index.md': createNode('/vault/notes/index.md', '# Index\n- see [old/plan#Steps]*\n- [specs/api]*', [
+            { targetId: 'old/plan', label: 'see', anchor: '#Steps' },
+            { targetId: 'specs/api', label: '' }
+        ]),
+        '/vault/notes/todo.md': createNode('/vault/notes/todo.md', 'do [old/plan]* first', [{ targetId: 'old/plan', label: 'do' }]),
+        '/vault/new/plan.md': createNode('/vault/new/plan.md', '# Plan')
+    })
+}
+
+describe('computeRetargetLinkDelta', () => {
+    it('should rewrite the link and redirect the edge in every source node', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeRetargetLinkDelta('old/plan', ['/vault/notes/index.md', '/vault/notes/todo.md'], '/vault/new/plan.md', graph)
+        const result: Graph = applyGraphDeltaToGraph(graph, delta)
+
+        expect(result.nodes['/vault/notes/index.md'].contentWithoutYamlOrLinks).toBe('# Index\n- see [new/plan#Steps]*\n- [specs/api]*')
+        expect(result.nodes['/vault/notes/index.md'].outgoingEdges[0]).toEqual({ targetId: '/vault/new/plan.md', label: 'see', anchor: '#Steps' })
+        expect(result.nodes['/vault/notes/todo.md'].contentWithoutYamlOrLinks).toBe('do [new/plan]* first')
+        expect(getBrokenLinks(result).map(link => link.linkText)).toEqual(['specs/api'])
+    })
+
+    it('should drop the dangling edge when the node already links to the target', () => {
+        const graph: Graph = createGraph({
+            '/vault/a.md': createNode('/vault/a.md', '[b]* and [bb]*', [{ targetId: '/vault/b.md', label: '' }, { targetId: 'bb', label: '' }]),
+            '/vault/b.md': createNode('/vault/b.md')
+        })
+
+        const delta: GraphDelta = computeRetargetLinkDelta('bb', ['/vault/a.md'], '/vault/b.md', graph)
+        const node: GraphNode = applyGraphDeltaToGraph(graph, delta).nodes['/vault/a.md']
+
+        expect(node.contentWithoutYamlOrLinks).toBe('[b]* and [b]*')
+        expect(node.outgoingEdges).toEqual([{ targetId: '/vault/b.md', label: '' }])
+    })
+
+    it('should do nothing when the target does not exist', () => {
+        expect(computeRetargetLinkDelta('old/plan', ['/vault/notes/todo.md'], '/vault/nope.md', createVault())).toEqual([])
+    })
+})
+
+describe('computeRemoveLinkDelta', () => {
+    it('should keep the link text as plain text and remove the edge', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeRemoveLinkDelta('old/plan', ['/vault/notes/index.md'], graph)
+        const node: GraphNode = applyGraphDeltaToGraph(graph, delta).nodes['/vault/notes/index.md']
+
+        expect(node.contentWithoutYamlOrLinks).toBe('# Index\n- see old/plan\n- [specs/api]*')
+        expect(node.outgoingEdges).toEqual([{ targetId: 'specs/api', label: '' }])
+    })
+})
+
+describe('computeCreateMissingNodeDelta', () => {
+    it('should create the node next to the source so the link resolves unchanged', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeCreateMissingNodeDelta('specs/api', ['/vault/notes/index.md'], graph)
+        const result: Graph = applyGraphDeltaToGraph(graph, delta)
+
+        expect(result.nodes['/vault/notes/specs/api.md'].contentWithoutYamlOrLinks).toBe('# api\n')
+        expect(result.nodes['/vault/notes/index.md'].outgoingEdges[1]).toEqual({ targetId: '/vault/notes/specs/api.md', label: '' })
+        expect(result.nodes['/vault/notes/index.md'].contentWithoutYamlOrLinks).toContain('[specs/api]*')
+    })
+
+    it('should refuse links leaving the source folder', () => {
+        expect(computeCreateMissingNodeDelta('../api', ['/vault/notes/index.md'], createVault())).toEqual([])
+        expect(computeCreateMissingNodeDelta('/etc/api', ['/vault/notes/index.md'], createVault())).toEqual([])
+    })
+
+    it('should be undone in one step by reverseDelta', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeCreateMissingNodeDelta('specs/api', ['/vault/notes/index.md'], graph)
+        const undone: Graph = applyGraphDeltaToGraph(applyGraphDeltaToGraph(graph, delta), reverseDelta(delta))
+
+        expect(undone.nodes).toEqual(graph.nodes)
+    })
+})
+
+describe('getMissingNodeId', () => {
+    it('should resolve the link path from the source folder', () => {
+        expect(getMissingNodeId('./specs/api.md', '/vault/notes/index.md')).toBe('/vault/notes/specs/api.md')
+    })
+})
@@ -0,0 +1,159 @@
+import type { Edge, Graph, GraphDelta, GraphNode, NodeDelta, NodeIdAndFilePath } from '@/pure/graph'
+import * as O from 'fp-ts/lib/Option.js'
+import { getUniqueLinkText, getNodeFolder } from '@/pure/graph/move/computeMoveNodesDelta'
+import { splitWikilinkAnchor, joinWikilinkAnchor, type WikilinkParts } from '@/pure/graph/markdown-parsing/wikilink-anchor'
+import { calculateInitialPositionForChild } from '@/pure/graph/positioning/calculateInitialPosition'
+
+/**
+ * Rewrites the `[link]*` placeholders of one link text (any anchor) with replace().
+ */
+function replaceLinkPlaceholders(
+    content: string,
+    linkText: string,
+    replace: (parts: WikilinkParts) => string
+): string {
+    return content.replace(/\[([^\]]+)\]\*/g, (match: string, placeholderText: string): string => {
+        const parts: WikilinkParts = splitWikilinkAnchor(placeholderText.trim())
+        return parts.path === linkText ? replace(parts) : match
+    })
+}
+
+/**
+ * Upserts each source node changed by fix(), keeping its previous state for undo.
+ */
+function upsertSourceNodes(
+    sourceNodeIds: readonly NodeIdAndFilePath[],
+    graph: Graph,
+    fix: (node: GraphNode) => GraphNode
+): GraphDelta {
+    return [...new Set(sourceNodeIds)]
+        .filter(sourceNodeId => graph.nodes[sourceNodeId] !== undefined)
+        .map((sourceNodeId): NodeDelta => ({
+            type: 'UpsertNode',
+            nodeToUpsert: fix(graph.nodes[sourceNodeId]),
+            previousNode: O.some(graph.nodes[sourceNodeId])
+        }))
+}
+
+/**
+ * Points the dangling edge at targetNodeId; dropped if the node already links there.
+ */
+function retargetEdges(edges: readonly Edge[], linkText: string, targetNodeId: NodeIdAndFilePath): readonly Edge[] {
+    const alreadyLinked: boolean = edges.some(edge => edge.targetId === targetNodeId)
+    return edges.flatMap((edge: Edge): readonly Edge[] => {
+        if (edge.targetId !== linkText) return [edge]
+        return alreadyLinked ? [] : [{ ...edge, targetId: targetNodeId }]
+    })
+}
+
+/**
+ * Computes the GraphDelta pointing an unresolved link at an existing node.
+ *
+ * The link is rewritten to the shortest text that resolves to the target (keeping its anchor),
+ * and the dangling edge of each source node is redirected to the target.
+ *
+ * @param linkText - The unresolved link, as reported by getBrokenLinks
+ * @param sourceNodeIds - Nodes to fix (usually every node containing the link)
+ * @returns One upsert per source node, or empty delta if the target doesn't exist
+ */
+export function computeRetargetLinkDelta(
+    linkText: string,
+    sourceNodeIds: readonly NodeIdAndFilePath[],
+    targetNodeId: NodeIdAndFilePath,
+    graph: Graph
+): GraphDelta {
+    if (graph.nodes[targetNodeId] === undefined) {
+        return []
+    }
+    const newLinkText: string = getUniqueLinkText(linkText, targetNodeId, Object.keys(graph.nodes))
+    return upsertSourceNodes(sourceNodeIds, graph, (node: GraphNode): GraphNode => ({
+        ...node,
+        contentWithoutYamlOrLinks: replaceLinkPlaceholders(
+            node.contentWithoutYamlOrLinks,
+            linkText,
+            ({ anchor }) => `[${joinWikilinkAnchor(newLinkText, anchor)}]*`
+        ),
+        outgoingEdges: retargetEdges(node.outgoingEdges, linkText, targetNodeId)
+    }))
+}
+
+/**
+ * Computes the GraphDelta removing an unresolved link from its source nodes.
+ * The link text stays in the content as plain text; only the wikilink and the edge go.
+ */
+export function computeRemoveLinkDelta(
+    linkText: string,
+    sourceNodeIds: readonly NodeIdAndFilePath[],
+    graph: Graph
+): GraphDelta {
+    return upsertSourceNodes(sourceNodeIds, graph, (node: GraphNode): GraphNode => ({
+        ...node,
+        contentWithoutYamlOrLinks: replaceLinkPlaceholders(node.contentWithoutYamlOrLinks, linkText, ({ path }) => path),
+        outgoingEdges: node.outgoingEdges.filter(edge => edge.targetId !== linkText)
+    }))
+}
+
+/**
+ * ID of the node created for a missing link: the link's path taken from the first source
+ * node's folder, so the existing link text resolves to it unchanged.
+ *
+ * @example
+ * getMissingNodeId('specs/api', '/vault/notes/index.md') => '/vault/notes/specs/api.md'
+ */
+export function getMissingNodeId(linkText: string, sourceNodeId: NodeIdAndFilePath): NodeIdAndFilePath {
+    const path: string = linkText.replace(/^(\.\/)+/, '')
+    const withExtension: string = /\.md$/.test(path) ? path : `${path}.md`
+    const folder: string = getNodeFolder(sourceNodeId)
+    return folder === '' ? withExtension : `${folder}/${withExtension}`
+}
+
+/**
+ * Computes the GraphDelta creating the node an unresolved link points to.
+ *
+ * The node is titled after the link and placed next to the first source node; the source nodes'
+ * dangling edges are resolved to it in the same delta so undo removes it cleanly.
+ *
+ * @returns Empty delta if there is no source node, the link is absolute or leaves the source
+ *          folder (".."), or a node already has that ID
+ */
+export function computeCreateMissingNodeDelta(
+    linkText: string,
+    sourceNodeIds: readonly NodeIdAndFilePath[],
+    graph: Graph
+): GraphDelta {
+    const sources: readonly GraphNode[] = sourceNodeIds
+        .map(sourceNodeId => graph.nodes[sourceNodeId])
+        .filter((node): node is GraphNode => node !== undefined)
+    if (sources.length === 0 || linkText.startsWith('/') || linkText.split(/[/\\]/).includes('..')) {
+        return []
+    }
+    const newNodeId: NodeIdAndFilePath = getMissingNodeId(linkText, sources[0].absoluteFilePathIsID)
+    if (graph.nodes[newNodeId] !== undefined) {
+        return []
+    }
+
+    const title: string = linkText.split(/[/\\]/).pop()!.replace(/\.md$/, '')
+    const newNode: GraphNode = {
+        absoluteFilePathIsID: newNodeId,
+        outgoingEdges: [],
+        contentWithoutYamlOrLinks: `# ${title}\n`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: calculateInitialPositionForChild(sources[0], graph),
+            additionalYAMLProps: {},
+            isContextNode: false
+        }
+    }
+
+    return [
+        {
+            type: 'UpsertNode',
+            nodeToUpsert: newNode,
+            previousNode: O.none  // New node - reverse is a delete
+        },
+        ...upsertSourceNodes(sourceNodeIds, graph, (node: GraphNode): GraphNode => ({
+            ...node,
+            outgoingEdges: retargetEdges(node.outgoingEdges, linkText, newNodeId)
+        }))
+    ]
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { fuzzySimilarity, rankLinkCandidates, type LinkCandidate } from './rankLinkCandidates'
+import type { Graph, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, content: string, isContextNode: boolean = false): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges: [],
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode
+        }
+    }
+}
+
+function createVault(): Graph {
+    return createGraph({
+        '/vault/new/plan.md': createNode('/vault/new/plan.md', '# Plan'),
+        '/vault/auth.md': createNode('/vault/auth.md', '# Auth Service'),
+        '/vault/index.md': createNode('/vault/index.md', '# Index\n- [old/plan]*'),
+        '/vault/ctx-nodes/plan.md': createNode('/vault/ctx-nodes/plan.md', '# Plan context', true)
+    })
+}
+
+describe('rankLinkCandidates', () => {
+    it('should find a moved note by its file name', () => {
+        const candidates: readonly LinkCandidate[] = rankLinkCandidates('old/plan', createVault(), ['/vault/index.md'])
+
+        expect(candidates.map(candidate => candidate.nodeId)).toEqual(['/vault/new/plan.md'])
+    })
+
+    it('should match typos against titles', () => {
+        const candidates: readonly LinkCandidate[] = rankLinkCandidates('Auth Servce', createVault())
+
+        expect(candidates[0]).toMatchObject({ nodeId: '/vault/auth.md', title: 'Auth Service' })
+    })
+
+    it('should rank path matches above fuzzy matches', () => {
+        const graph: Graph = createGraph({
+            '/vault/plans.md': createNode('/vault/plans.md', '# Plans'),
+            '/vault/b/plan.md': createNode('/vault/b/plan.md', '# Something else')
+        })
+
+        expect(rankLinkCandidates('a/plan', graph).map(candidate => candidate.nodeId)).toEqual(['/vault/b/plan.md', '/vault/plans.md'])
+    })
+
+    it('should not offer unrelated nodes, context nodes or the excluded nodes', () => {
+        const candidates: readonly LinkCandidate[] = rankLinkCandidates('zebra', createVault())
+
+        expect(candidates).toEqual([])
+        expect(rankLinkCandidates('plan', createVault(), ['/vault/new/plan.md'])).toEqual([])
+    })
+})
+
+describe('fuzzySimilarity', () => {
+    it('should ignore case and separators', () => {
+        expect(fuzzySimilarity('Auth-Service', 'auth service')).toBe(1)
+    })
+
+    it('should decrease with the edit distance', () => {
+        expect(fuzzySimilarity('plan', 'plans')).toBeCloseTo(0.8)
+        expect(fuzzySimilarity('plan', 'zebra')).toBeLessThan(0.6)
+    })
+})
@@ -0,0 +1,91 @@
+import type { Graph, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { getNodeTitle } from '@/pure/graph/markdown-parsing'
+import { getBaseName } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import { linkMatchScore } from '@/pure/graph/markdown-parsing/extract-edges'
+
+export const DEFAULT_MAX_LINK_CANDIDATES: number = 5
+
+/**
+ * Titles or file names at least this similar to the link count as candidates
+ * even when no path component matches.
+ */
+const MIN_FUZZY_SIMILARITY: number = 0.6
+
+export interface LinkCandidate {
+    readonly nodeId: NodeIdAndFilePath
+    readonly title: string
+    readonly score: number
+}
+
+/**
+ * Lowercases and collapses separators, so "Auth-Service", "auth_service" and "Auth Service" compare equal.
+ */
+function normalizeForComparison(text: string): string {
+    return text.toLowerCase().replace(/[\s_-]+/g, ' ').trim()
+}
+
+/**
+ * Levenshtein distance, one row of the DP table at a time.
+ */
+function editDistance(a: string, b: string): number {
+    const firstRow: readonly number[] = Array.from({ length: b.length + 1 }, (_, j: number) => j)
+    const lastRow: readonly number[] = [...a].reduce<readonly number[]>(
+        (previousRow, charA, i) => [...b].reduce<readonly number[]>(
+            (row, charB, j) => [
+                ...row,
+                Math.min(previousRow[j + 1] + 1, row[j] + 1, previousRow[j] + (charA === charB ? 0 : 1))
+            ],
+            [i + 1]
+        ),
+        firstRow
+    )
+    return lastRow[b.length]
+}
+
+/**
+ * Similarity in [0, 1] of two names after normalization (1 = equal).
+ */
+export function fuzzySimilarity(a: string, b: string): number {
+    const normalizedA: string = normalizeForComparison(a)
+    const normalizedB: string = normalizeForComparison(b)
+    const maxLength: number = Math.max(normalizedA.length, normalizedB.length)
+    return maxLength === 0 ? 0 : 1 - editDistance(normalizedA, normalizedB) / maxLength
+}
+
+function scoreCandidate(linkText: string, node: GraphNode, title: string): number {
+    const linkName: string = getBaseName(linkText)
+    const similarity: number = Math.max(
+        fuzzySimilarity(linkName, getBaseName(node.absoluteFilePathIsID)),
+        fuzzySimilarity(linkName, title)
+    )
+    const pathScore: number = linkMatchScore(linkText, node.absoluteFilePathIsID)
+    return pathScore === 0 && similarity < MIN_FUZZY_SIMILARITY ? 0 : pathScore + similarity
+}
+
+/**
+ * Ranks the nodes an unresolved link most likely meant, best first.
+ *
+ * Path components matching from the end (linkMatchScore) rank highest, so a link to a note that
+ * was moved ([[old/plan]] -> /vault/new/plan.md) finds it; fuzzy matching of the file name and the
+ * node title catches typos and renamed titles ([[Auth Servce]] -> "Auth Service").
+ * Context nodes and the nodes containing the link are never offered.
+ *
+ * @returns At most maxCandidates candidates; ties prefer shorter node IDs
+ */
+export function rankLinkCandidates(
+    linkText: string,
+    graph: Graph,
+    excludedNodeIds: readonly NodeIdAndFilePath[] = [],
+    maxCandidates: number = DEFAULT_MAX_LINK_CANDIDATES
+): readonly LinkCandidate[] {
+    const excluded: ReadonlySet<NodeIdAndFilePath> = new Set(excludedNodeIds)
+    return Object.values(graph.nodes)
+        .filter(node => !excluded.has(node.absoluteFilePathIsID) && node.nodeUIMetadata.isContextNode !== true)
+        .map((node): LinkCandidate => {
+            const title: string = getNodeTitle(node)
+            return { nodeId: node.absoluteFilePathIsID, title, score: scoreCandidate(linkText, node, title) }
+        })
+        .filter(candidate => candidate.score > 0)
+        .sort((a, b) => b.score - a.score || a.nodeId.length - b.nodeId.length || a.nodeId.localeCompare(b.nodeId))
+        .slice(0, maxCandidates)
+}
@@ -2,6 +2,7 @@ import type {FSEvent, GraphDelta, DeleteNode, NodeIdAndFilePath, FSUpdate, Graph
 import * as O from 'fp-ts/lib/Option.js'
 import { filenameToNodeId } from '@/pure/graph/markdown-parsing/filename-utils'
 import { addNodeToGraphWithEdgeHealingFromFSEvent } from '@/pure/graph/graphDelta/addNodeToGraphWithEdgeHealingFromFSEvent'
+import { DEFAULT_RELATIONSHIP_VOCABULARY, type RelationshipVocabulary } from '@/pure/graph/relationships'
 
 /**
  * Maps filesystem events to graph deltas.
@@ -15,6 +16,7 @@ import { addNodeToGraphWithEdgeHealingFromFSEvent } from '@/pure/graph/graphDelt
  *
  * @param fsEvent - Filesystem event (add, change, or delete)
  * @param currentGraph - Current graph state (used to resolve wikilinks to node IDs)
+ * @param vocabulary - Relationship types edge labels are normalized against
  * @returns GraphDelta representing the state change
  *
  * @example
@@ -25,7 +27,11 @@ import { addNodeToGraphWithEdgeHealingFromFSEvent } from '@/pure/graph/graphDelt
  * // delta = [{ type: 'UpsertNode', nodeToUpsert: {...} }]
  * ```
  */
-export function mapFSEventsToGraphDelta(fsEvent: FSEvent, currentGraph: Graph): GraphDelta {
+export function mapFSEventsToGraphDelta(
+  fsEvent: FSEvent,
+  currentGraph: Graph,
+  vocabulary: RelationshipVocabulary = DEFAULT_RELATIONSHIP_VOCABULARY
+): GraphDelta {
   // Discriminate based on type field for FSDelete, or content field for FSUpdate
   if ('type' in fsEvent && fsEvent.type === 'Delete') {
     // This is FSDelete - node ID is the absolute path
@@ -40,7 +46,7 @@ export function mapFSEventsToGraphDelta(fsEvent: FSEvent, currentGraph: Graph):
   } else {
     // This is FSUpdate (Added or Changed)
     const fsUpdate: FSUpdate = fsEvent as FSUpdate
-    return handleUpsert(fsUpdate, currentGraph)
+    return handleUpsert(fsUpdate, currentGraph, vocabulary)
   }
 }
 
@@ -48,9 +54,9 @@ export function mapFSEventsToGraphDelta(fsEvent: FSEvent, currentGraph: Graph):
  * Handle add/change events by creating an upsert action.
  * Uses the unified addNodeToGraph function for progressive edge validation.
  */
-function handleUpsert(fsUpdate: FSUpdate, currentGraph: Graph): GraphDelta {
+function handleUpsert(fsUpdate: FSUpdate, currentGraph: Graph, vocabulary: RelationshipVocabulary): GraphDelta {
   // Use unified function - handles both outgoing and incoming edge validation
-  return addNodeToGraphWithEdgeHealingFromFSEvent(fsUpdate, currentGraph)
+  return addNodeToGraphWithEdgeHealingFromFSEvent(fsUpdate, currentGraph, vocabulary)
 }
 
 /**
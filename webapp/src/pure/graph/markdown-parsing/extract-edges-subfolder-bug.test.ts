@@ -11,7 +11,7 @@ describe('findBestMatchingNode - full path match requirement', () => {
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
@@ -91,7 +91,7 @@ describe('extractEdges - empty wikilink handling', () => {
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
@@ -150,7 +150,7 @@ describe('extractEdges - subfolder bug reproduction', () => {
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
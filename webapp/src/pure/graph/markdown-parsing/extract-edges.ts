@@ -1,10 +1,13 @@
 import type { NodeIdAndFilePath, GraphNode, Edge } from '@/pure/graph'
-import { getBaseName } from '@/pure/graph/graph-operations/linkResolutionIndexes'
-import type { NodeByBaseNameIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import { getAliasKey, getBaseName, getNodeAliases } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import type { NodeByAliasIndex, NodeByBaseNameIndex } from '@/pure/graph/graph-operations/linkResolutionIndexes'
+import { splitWikilinkAnchor, type WikilinkParts } from '@/pure/graph/markdown-parsing/wikilink-anchor'
+import { DEFAULT_RELATIONSHIP_VOCABULARY, normalizeRelationshipLabel, type RelationshipVocabulary } from '@/pure/graph/relationships'
 
 /**
  * Extracts path components, normalizing for comparison.
  * - Filters out empty strings, '.', and '..' (relative path markers)
+ * - Strips any heading/block anchor ("#Section", "^block-id")
  * - Strips .md extension from final component (baseName)
  *
  * LIMITATION: Only strips .md extension. This means:
@@ -22,9 +25,10 @@ import type { NodeByBaseNameIndex } from '@/pure/graph/graph-operations/linkReso
  * getPathComponents("./foo.md")             => ["foo"]
  * getPathComponents("../bar/foo.md")        => ["bar", "foo"]
  * getPathComponents("foo")                  => ["foo"]
+ * getPathComponents("bar/foo#Section")      => ["bar", "foo"]
  */
 export function getPathComponents(path: string): readonly string[] {
-  const components: readonly string[] = path
+  const components: readonly string[] = splitWikilinkAnchor(path).path
     .split(/[/\\]/)
     .filter(p => p !== '' && p !== '.' && p !== '..')
 
@@ -76,21 +80,48 @@ export function linkMatchScore(linkText: string, nodeId: string): number {
   return firstMismatchIdx === -1 ? minLen : firstMismatchIdx
 }
 
+/**
+ * Finds the node declaring the link text as a frontmatter alias, e.g. [[Auth Service]] for a
+ * node with `aliases: [Auth Service]`. Prefers the shortest node path when several declare it.
+ */
+function findNodeByAlias(
+  linkText: string,
+  nodes: Record<NodeIdAndFilePath, GraphNode>,
+  nodeByAlias?: NodeByAliasIndex
+): NodeIdAndFilePath | undefined {
+  const aliasKey: string = getAliasKey(linkText)
+  if (aliasKey === '') return undefined
+
+  const candidateNodeIds: readonly NodeIdAndFilePath[] = nodeByAlias
+    ? (nodeByAlias.get(aliasKey) ?? [])
+    : Object.values(nodes)
+      .filter(node => getNodeAliases(node).some(alias => getAliasKey(alias) === aliasKey))
+      .map(node => node.absoluteFilePathIsID)
+
+  return candidateNodeIds.reduce<NodeIdAndFilePath | undefined>(
+    (best, nodeId) => best === undefined || nodeId.length < best.length ? nodeId : best,
+    undefined
+  )
+}
+
 /**
  * Finds the best matching node ID for a given link text.
  * Uses linkMatchScore to find the node with the highest match score.
  * When scores are equal, prefers shorter node paths (more specific match).
+ * Links no filename matches fall back to frontmatter aliases.
  *
- * @param linkText - The link text to match (can be absolute path, relative path, or filename)
+ * @param linkText - The link text to match (can be absolute path, relative path, filename or alias)
  * @param nodes - All available nodes
  * @param nodeByBaseName - Optional index for O(1) candidate lookup. When provided, only scores
  *                         candidates from the index instead of all nodes. O(1) vs O(N).
+ * @param nodeByAlias - Optional index for O(1) alias lookup. Without it, aliases are found by scanning all nodes.
  * @returns The best matching node ID, or undefined if no match
  */
 export function findBestMatchingNode(
   linkText: string,
   nodes: Record<NodeIdAndFilePath, GraphNode>,
-  nodeByBaseName?: NodeByBaseNameIndex
+  nodeByBaseName?: NodeByBaseNameIndex,
+  nodeByAlias?: NodeByAliasIndex
 ): NodeIdAndFilePath | undefined {
   const linkComponents: readonly string[] = getPathComponents(linkText)
   if (linkComponents.length === 0) return undefined
@@ -126,12 +157,12 @@ export function findBestMatchingNode(
   // - [a/b/foo.md] (3 components) vs [x/foo.md] (2):
   //   score=1 (only 'foo'), minRequired=min(3,2)=2 → 1 < 2 ✗ rejected
   if (result.nodeId === undefined) {
-    return undefined
+    return findNodeByAlias(linkText, nodes, nodeByAlias)
   }
   const bestNodeComponents: readonly string[] = getPathComponents(result.nodeId)
   const minRequiredScore: number = Math.min(linkComponents.length, bestNodeComponents.length)
   if (result.score < minRequiredScore) {
-    return undefined
+    return findNodeByAlias(linkText, nodes, nodeByAlias)
   }
 
   return result.nodeId
@@ -143,13 +174,18 @@ export function findBestMatchingNode(
  * Pure function: same input -> same output, no side effects
  *
  * Extracts all wikilinks ([[link]]) from content and resolves them to edges.
- * For each wikilink, the label is the text from the start of the line to the [[.
+ * For each wikilink, the label is the text from the start of the line to the [[,
+ * normalized against the relationship vocabulary (e.g. "Requires:" -> "depends on").
+ * Links into a heading or block ([[note#Section]], [[note^block-id]]) resolve to the note
+ * and keep the anchor on the edge.
  *
  * @param content - Markdown content with wikilinks
  * @param nodes - Record of all available nodes to resolve links against
  * @param nodeByBaseName - Optional index for O(1) link resolution. When provided,
  *                         uses O(1) candidate lookup instead of O(N) scan.
- * @returns Array of edges with targetId and label (duplicates removed, order preserved)
+ * @param vocabulary - Relationship types of the vault (default: DEFAULT_RELATIONSHIP_VOCABULARY)
+ * @param nodeByAlias - Optional index for O(1) resolution of links by frontmatter alias
+ * @returns Array of edges with targetId, label and anchor (duplicates by targetId removed, first kept, order preserved)
  *
  * @example
  * ```typescript
@@ -166,14 +202,16 @@ export function findBestMatchingNode(
 export function extractEdges(
   content: string,
   nodes: Record<NodeIdAndFilePath, GraphNode>,
-  nodeByBaseName?: NodeByBaseNameIndex
+  nodeByBaseName?: NodeByBaseNameIndex,
+  vocabulary: RelationshipVocabulary = DEFAULT_RELATIONSHIP_VOCABULARY,
+  nodeByAlias?: NodeByAliasIndex
 ): readonly Edge[] {
   const wikilinkRegex: RegExp = /\[\[([^\]\n\r]+)\]\]/g
   const matches: readonly RegExpExecArray[] = [...content.matchAll(wikilinkRegex)]
 
-  const edges: readonly { readonly targetId: string; readonly label: string; }[] = matches
-    .map((match) => {
-      const rawLinkText: string = match[1].trim()
+  const edges: readonly Edge[] = matches
+    .map((match): Edge => {
+      const { path: rawLinkText, anchor }: WikilinkParts = splitWikilinkAnchor(match[1].trim())
       const matchIndex: number = match.index!
 
       // Find start of line containing this wikilink
@@ -183,14 +221,14 @@ export function extractEdges(
       const labelText: string = content.substring(lineStart, matchIndex).trim()
 
       // Remove list markers (-, *, +) from start
-      const label: string = labelText.replace(/^[-*+]\s+/, '')
+      const label: string = normalizeRelationshipLabel(labelText.replace(/^[-*+]\s+/, ''), vocabulary)
 
 
       // Find best matching node, preferring longer path matches
       // If no match found, use raw link text to preserve for future node creation
-      const targetId: string = nodes ? findBestMatchingNode(rawLinkText, nodes, nodeByBaseName) ?? rawLinkText : rawLinkText
+      const targetId: string = nodes ? findBestMatchingNode(rawLinkText, nodes, nodeByBaseName, nodeByAlias) ?? rawLinkText : rawLinkText
 
-      return { targetId, label }
+      return anchor ? { targetId, label, anchor } : { targetId, label }
     })
     // Filter out invalid edges from empty/malformed wikilinks like [[]], [.], [ ]
     .filter(edge => edge.targetId.trim() !== '' && edge.targetId !== '.')
@@ -198,7 +236,7 @@ export function extractEdges(
   // Remove duplicates while preserving order (by targetId)
   type Accumulator = { readonly seen: ReadonlySet<string>; readonly result: readonly Edge[] }
   const deduplicated: Accumulator = edges.reduce<Accumulator>(
-    (acc: Accumulator, edge: { readonly targetId: string; readonly label: string }) => {
+    (acc: Accumulator, edge: Edge) => {
       if (acc.seen.has(edge.targetId)) {
         return acc
       }
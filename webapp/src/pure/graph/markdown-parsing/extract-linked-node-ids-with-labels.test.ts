@@ -17,7 +17,7 @@ describe('extractLinkedNodeIds - relationship labels integration', () => {
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
@@ -315,4 +315,43 @@ Parent:
       ] as readonly Edge[])
     })
   })
+  describe('heading and block anchors', () => {
+    it('should resolve [[note#Section]] to the note and keep the anchor', () => {
+      const content: string = '- references [[folder/note#Setup Steps]]'
+
+      const nodes: { readonly 'folder/note.md': GraphNode; } = {
+        'folder/note.md': createNode('folder/note.md')
+      }
+
+      const result: readonly Edge[] = extractEdges(content, nodes)
+
+      expect(result).toEqual([
+        { targetId: 'folder/note.md', label: 'references', anchor: '#Setup Steps' }
+      ] as readonly Edge[])
+    })
+
+    it('should resolve block references in both ^id and #^id forms', () => {
+      const content: string = '[[first^abc123]]\n[[second#^def456]]'
+
+      const nodes: { readonly 'first.md': GraphNode; readonly 'second.md': GraphNode; } = {
+        'first.md': createNode('first.md'),
+        'second.md': createNode('second.md')
+      }
+
+      const result: readonly Edge[] = extractEdges(content, nodes)
+
+      expect(result).toEqual([
+        { targetId: 'first.md', label: '', anchor: '^abc123' },
+        { targetId: 'second.md', label: '', anchor: '#^def456' }
+      ] as readonly Edge[])
+    })
+
+    it('should keep the anchor on unresolved links, with the path as targetId', () => {
+      const result: readonly Edge[] = extractEdges('[[missing#Intro]]', {})
+
+      expect(result).toEqual([
+        { targetId: 'missing', label: '', anchor: '#Intro' }
+      ] as readonly Edge[])
+    })
+  })
 })
@@ -206,13 +206,13 @@ custom_field: "some value"
 
       // color has an explicit typed field, so NOT in additionalYAMLProps
       // author and custom_field don't have explicit fields, so they ARE in additionalYAMLProps
-      expect(result.nodeUIMetadata.additionalYAMLProps.size).toBe(2)
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('author')).toBe('John Doe')
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('custom_field')).toBe('some value')
-      expect(result.nodeUIMetadata.additionalYAMLProps.has('color')).toBe(false)
+      expect(Object.keys(result.nodeUIMetadata.additionalYAMLProps)).toHaveLength(2)
+      expect(result.nodeUIMetadata.additionalYAMLProps.author).toBe('John Doe')
+      expect(result.nodeUIMetadata.additionalYAMLProps.custom_field).toBe('some value')
+      expect(result.nodeUIMetadata.additionalYAMLProps).not.toHaveProperty('color')
     })
 
-    it('should convert number properties to strings', () => {
+    it('should keep number properties as numbers', () => {
       const content: "---\npriority: 5\nversion: 2.1\n---\n# Test" = `---
 priority: 5
 version: 2.1
@@ -221,11 +221,11 @@ version: 2.1
 
       const result: GraphNode = parseMarkdownToGraphNode(content, 'test.md', emptyGraph)
 
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('priority')).toBe('5')
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('version')).toBe('2.1')
+      expect(result.nodeUIMetadata.additionalYAMLProps.priority).toBe(5)
+      expect(result.nodeUIMetadata.additionalYAMLProps.version).toBe(2.1)
     })
 
-    it('should convert boolean properties to strings', () => {
+    it('should keep boolean properties as booleans', () => {
       const content: "---\npublished: true\narchived: false\n---\n# Test" = `---
 published: true
 archived: false
@@ -234,11 +234,11 @@ archived: false
 
       const result: GraphNode = parseMarkdownToGraphNode(content, 'test.md', emptyGraph)
 
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('published')).toBe('true')
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('archived')).toBe('false')
+      expect(result.nodeUIMetadata.additionalYAMLProps.published).toBe(true)
+      expect(result.nodeUIMetadata.additionalYAMLProps.archived).toBe(false)
     })
 
-    it('should convert array properties to JSON strings', () => {
+    it('should keep array properties as lists', () => {
       const content: "---\ntags:\n  - important\n  - draft\nnumbers:\n  - 1\n  - 2\n  - 3\n---\n# Test" = `---
 tags:
   - important
@@ -252,11 +252,11 @@ numbers:
 
       const result: GraphNode = parseMarkdownToGraphNode(content, 'test.md', emptyGraph)
 
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('tags')).toBe('["important","draft"]')
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('numbers')).toBe('[1,2,3]')
+      expect(result.nodeUIMetadata.additionalYAMLProps.tags).toEqual(['important', 'draft'])
+      expect(result.nodeUIMetadata.additionalYAMLProps.numbers).toEqual([1, 2, 3])
     })
 
-    it('should convert object properties to JSON strings', () => {
+    it('should keep object properties as nested objects', () => {
       const content: "---\nmetadata:\n  created: \"2024-01-15\"\n  version: 2\n---\n# Test" = `---
 metadata:
   created: "2024-01-15"
@@ -266,11 +266,33 @@ metadata:
 
       const result: GraphNode = parseMarkdownToGraphNode(content, 'test.md', emptyGraph)
 
-      const metadata: string | undefined = result.nodeUIMetadata.additionalYAMLProps.get('metadata')
-      expect(metadata).toBeDefined()
-      const parsed: { readonly created: string; readonly version: number; } = JSON.parse(metadata!)
-      expect(parsed.created).toBe('2024-01-15')
-      expect(parsed.version).toBe(2)
+      expect(result.nodeUIMetadata.additionalYAMLProps.metadata).toEqual({ created: '2024-01-15', version: 2 })
+    })
+
+    it('should keep YAML dates as ISO strings and empty values as null', () => {
+      const content: string = '---\ndue: 2024-01-15\nupdated: 2024-01-15T10:30:00Z\nreviewer:\n---\n# Test'
+
+      const result: GraphNode = parseMarkdownToGraphNode(content, 'test.md', emptyGraph)
+
+      expect(result.nodeUIMetadata.additionalYAMLProps).toEqual({
+        due: '2024-01-15',
+        updated: '2024-01-15T10:30:00.000Z',
+        reviewer: null
+      })
+    })
+
+    it('should keep the frontmatter text for writing unchanged keys back verbatim', () => {
+      const content: string = '---\n# owner: infra\ntags: [a, b]\n---\n# Test'
+
+      const result: GraphNode = parseMarkdownToGraphNode(content, 'test.md', emptyGraph)
+
+      expect(result.nodeUIMetadata.frontmatterSource).toBe('# owner: infra\ntags: [a, b]')
+    })
+
+    it('should not keep a frontmatter text when there is no frontmatter', () => {
+      const result: GraphNode = parseMarkdownToGraphNode('# Test', 'test.md', emptyGraph)
+
+      expect(result.nodeUIMetadata.frontmatterSource).toBeUndefined()
     })
 
     it('should preserve YAML properties without explicit fields, exclude color/position/isContextNode/title', () => {
@@ -290,13 +312,13 @@ custom_prop: "should be included"
 
       // color, position, isContextNode, title have explicit typed fields → NOT in additionalYAMLProps
       // summary, node_id, custom_prop don't → ARE in additionalYAMLProps
-      expect(result.nodeUIMetadata.additionalYAMLProps.size).toBe(3)
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('custom_prop')).toBe('should be included')
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('summary')).toBe('My Summary')
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('node_id')).toBe('legacy-id')
-      expect(result.nodeUIMetadata.additionalYAMLProps.has('color')).toBe(false)
-      expect(result.nodeUIMetadata.additionalYAMLProps.has('position')).toBe(false)
-      expect(result.nodeUIMetadata.additionalYAMLProps.has('title')).toBe(false)
+      expect(Object.keys(result.nodeUIMetadata.additionalYAMLProps)).toHaveLength(3)
+      expect(result.nodeUIMetadata.additionalYAMLProps.custom_prop).toBe('should be included')
+      expect(result.nodeUIMetadata.additionalYAMLProps.summary).toBe('My Summary')
+      expect(result.nodeUIMetadata.additionalYAMLProps.node_id).toBe('legacy-id')
+      expect(result.nodeUIMetadata.additionalYAMLProps).not.toHaveProperty('color')
+      expect(result.nodeUIMetadata.additionalYAMLProps).not.toHaveProperty('position')
+      expect(result.nodeUIMetadata.additionalYAMLProps).not.toHaveProperty('title')
     })
 
     it('should have empty additionalYAMLProps when only color/position exist (they have explicit fields)', () => {
@@ -311,7 +333,7 @@ position:
       const result: GraphNode = parseMarkdownToGraphNode(content, 'test.md', emptyGraph)
 
       // color and position have explicit typed fields, so NOT in additionalYAMLProps
-      expect(result.nodeUIMetadata.additionalYAMLProps.size).toBe(0)
+      expect(Object.keys(result.nodeUIMetadata.additionalYAMLProps)).toHaveLength(0)
       // But they ARE in the explicit fields
       expect(result.nodeUIMetadata.color._tag).toBe('Some')
       expect(result.nodeUIMetadata.position._tag).toBe('Some')
@@ -324,7 +346,7 @@ Content without frontmatter`
 
       const result: GraphNode = parseMarkdownToGraphNode(content, 'test.md', emptyGraph)
 
-      expect(result.nodeUIMetadata.additionalYAMLProps.size).toBe(0)
+      expect(Object.keys(result.nodeUIMetadata.additionalYAMLProps)).toHaveLength(0)
     })
   })
 
@@ -445,9 +467,9 @@ Parent:
       expect(result.nodeUIMetadata.isContextNode).toBe(false)
 
       // Check agent_name is in additionalYAMLProps (not an explicit field)
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('agent_name')).toBe('Victor')
+      expect(result.nodeUIMetadata.additionalYAMLProps.agent_name).toBe('Victor')
       // node_id should also be in additionalYAMLProps (legacy field, not an explicit typed field)
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('node_id')).toBe('141')
+      expect(result.nodeUIMetadata.additionalYAMLProps.node_id).toBe(141)
 
       // Check wikilinks are replaced with [link]* notation
       expect(result.contentWithoutYamlOrLinks).toContain('[27_Two_Streams_of_Work]*')
@@ -493,7 +515,7 @@ Parent:
       expect(O.isNone(result.nodeUIMetadata.color)).toBe(true)
 
       // Check node_id is in additionalYAMLProps
-      expect(result.nodeUIMetadata.additionalYAMLProps.get('node_id')).toBe('5')
+      expect(result.nodeUIMetadata.additionalYAMLProps.node_id).toBe(5)
 
       // Check edges are extracted
       expect(result.outgoingEdges.length).toBe(2)
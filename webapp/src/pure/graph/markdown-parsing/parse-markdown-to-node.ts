@@ -1,10 +1,12 @@
 import * as O from 'fp-ts/lib/Option.js'
 import * as E from 'fp-ts/lib/Either.js'
 import matter from 'gray-matter'
-import type {Graph, GraphNode, Edge} from '@/pure/graph'
+import type {Graph, GraphNode, Edge, FrontmatterProps} from '@/pure/graph'
 import {NODE_UI_METADATA_YAML_KEYS} from '@/pure/graph'
 import {filenameToNodeId} from '@/pure/graph/markdown-parsing/filename-utils'
 import {extractEdges} from "@/pure/graph/markdown-parsing/extract-edges";
+import {toFrontmatterProps} from '@/pure/graph/frontmatter'
+import {DEFAULT_RELATIONSHIP_VOCABULARY, type RelationshipVocabulary} from '@/pure/graph/relationships'
 
 /**
  * Parses markdown content into a GraphNode.
@@ -13,6 +15,7 @@ import {extractEdges} from "@/pure/graph/markdown-parsing/extract-edges";
  *
  * @param content - Full markdown content including frontmatter
  * @param filename - Filename of the markdown file (used as fallback for node_id)
+ * @param vocabulary - Relationship types edge labels are normalized against
  * @returns GraphNode with all fields populated
  *
  * Field resolution:
@@ -75,41 +78,26 @@ function parsePosition(position: unknown): { readonly x: number; readonly y: num
     return undefined
 }
 
-/**
- * Convert any value to a string representation.
- * - Primitives (string, number, boolean) are converted directly
- * - Arrays and objects are converted via JSON.stringify
- */
-function valueToString(value: unknown): string {
-    if (typeof value === 'string') {
-        return value
-    }
-    if (typeof value === 'number' || typeof value === 'boolean') {
-        return String(value)
-    }
-    // For arrays and objects, use JSON
-    return JSON.stringify(value)
-}
-
 /**
  * Extract YAML properties, excluding keys that have explicit typed fields in NodeUIMetadata.
+ * Values keep their YAML types (see toFrontmatterValue).
  */
 function extractAdditionalYAMLProps(
     rawYAMLData: Record<string, unknown>,
     keysWithExplicitFields: ReadonlySet<string>
-): ReadonlyMap<string, string> {
-    const additionalProps: ReadonlyMap<string, string> = Object.entries(rawYAMLData).reduce((acc, [key, value]) => {
-        if (!keysWithExplicitFields.has(key) && value !== undefined && value !== null) {
-            acc.set(key, valueToString(value))
-        }
-        return acc
-    }, new Map<string, string>())
-
-    return additionalProps
+): FrontmatterProps {
+    return toFrontmatterProps(Object.fromEntries(
+        Object.entries(rawYAMLData).filter(([key]) => !keysWithExplicitFields.has(key))
+    ))
 }
 
 // filename can be relative or absolute, prefer relative to watched vault.
-export function parseMarkdownToGraphNode(content: string, filename: string, graph : Graph): GraphNode {
+export function parseMarkdownToGraphNode(
+    content: string,
+    filename: string,
+    graph : Graph,
+    vocabulary: RelationshipVocabulary = DEFAULT_RELATIONSHIP_VOCABULARY
+): GraphNode {
     // Parse markdown and extract YAML frontmatter (with error handling for invalid YAML)
     const parseResult: E.Either<unknown, matter.GrayMatterFile<string>> = E.tryCatch(
         () => matter(content),
@@ -131,8 +119,8 @@ export function parseMarkdownToGraphNode(content: string, filename: string, grap
 
 
     // Extract edges from original content (before stripping wikilinks)
-    // Pass nodeByBaseName index for O(1) link resolution
-    const edges: readonly Edge[] = extractEdges(content, graph.nodes, graph.nodeByBaseName)
+    // Pass nodeByBaseName and nodeByAlias indexes for O(1) link resolution
+    const edges: readonly Edge[] = extractEdges(content, graph.nodes, graph.nodeByBaseName, vocabulary, graph.nodeByAlias)
 
     // Replace [[link]] with [link]* (strip wikilink syntax)
     const contentWithoutYamlOrLinks: string = contentWithoutFrontmatter.replace(/\[\[([^\]]+)\]\]/g, '[$1]*')
@@ -144,7 +132,13 @@ export function parseMarkdownToGraphNode(content: string, filename: string, grap
         : undefined
 
     // Extract additional YAML properties, excluding keys that have explicit fields in NodeUIMetadata
-    const additionalYAMLProps: ReadonlyMap<string, string> = extractAdditionalYAMLProps(parsed.data, NODE_UI_METADATA_YAML_KEYS)
+    const additionalYAMLProps: FrontmatterProps = extractAdditionalYAMLProps(parsed.data, NODE_UI_METADATA_YAML_KEYS)
+
+    // Keep the frontmatter text so unchanged keys are written back verbatim
+    // (gray-matter leaves `matter` unset when the file has no frontmatter)
+    const frontmatterSource: string = E.isRight(parseResult) && parseResult.right.matter
+        ? parseResult.right.matter.replace(/^\r?\n/, '')
+        : ''
 
     // Return node (title is derived via getNodeTitle when needed, not stored)
     return {
@@ -156,7 +150,8 @@ export function parseMarkdownToGraphNode(content: string, filename: string, grap
             position: position ? O.some(position) : O.none,
             additionalYAMLProps,
             isContextNode,
-            containedNodeIds
+            containedNodeIds,
+            ...(frontmatterSource.trim() !== '' ? {frontmatterSource} : {})
         }
     }
 }
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findWikilinkAnchorOffset,
+  getAnchorDisplayText,
+  joinWikilinkAnchor,
+  splitWikilinkAnchor,
+} from '@/pure/graph/markdown-parsing/wikilink-anchor'
+
+describe('splitWikilinkAnchor', () => {
+  it('splits heading and block anchors from the path', () => {
+    expect(splitWikilinkAnchor('folder/note#Section')).toEqual({ path: 'folder/note', anchor: '#Section' })
+    expect(splitWikilinkAnchor('note^block-id')).toEqual({ path: 'note', anchor: '^block-id' })
+    expect(splitWikilinkAnchor('note#^block-id')).toEqual({ path: 'note', anchor: '#^block-id' })
+  })
+
+  it('returns no anchor for plain links and bare markers', () => {
+    expect(splitWikilinkAnchor('note.md')).toEqual({ path: 'note.md', anchor: undefined })
+    expect(splitWikilinkAnchor('note#')).toEqual({ path: 'note', anchor: undefined })
+  })
+
+  it('round-trips with joinWikilinkAnchor', () => {
+    const { path, anchor } = splitWikilinkAnchor('a/b#Parent#Child')
+    expect(joinWikilinkAnchor(path, anchor)).toBe('a/b#Parent#Child')
+  })
+})
+
+describe('getAnchorDisplayText', () => {
+  it('shows the last heading of a heading path, and block ids with their caret', () => {
+    expect(getAnchorDisplayText('#Parent#Child')).toBe('Child')
+    expect(getAnchorDisplayText('#^abc')).toBe('^abc')
+    expect(getAnchorDisplayText('^abc')).toBe('^abc')
+  })
+})
+
+describe('findWikilinkAnchorOffset', () => {
+  const content: string = '# Title\n\nIntro text\n\n## Setup  Steps ##\n\nA paragraph ^para-1\nEnd'
+
+  it('finds headings case-insensitively, ignoring closing hashes and extra spaces', () => {
+    expect(findWikilinkAnchorOffset(content, '#setup steps')).toBe(content.indexOf('## Setup'))
+    expect(findWikilinkAnchorOffset(content, '#Title#Setup Steps')).toBe(content.indexOf('## Setup'))
+  })
+
+  it('finds block ids at the end of a line', () => {
+    expect(findWikilinkAnchorOffset(content, '^para-1')).toBe(content.indexOf('A paragraph'))
+    expect(findWikilinkAnchorOffset(content, '#^para-1')).toBe(content.indexOf('A paragraph'))
+  })
+
+  it('returns undefined when nothing matches', () => {
+    expect(findWikilinkAnchorOffset(content, '#Missing')).toBeUndefined()
+    expect(findWikilinkAnchorOffset(content, '^nope')).toBeUndefined()
+    expect(findWikilinkAnchorOffset(content, '#Intro text')).toBeUndefined()
+  })
+})
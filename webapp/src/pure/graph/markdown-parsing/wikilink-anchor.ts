@@ -0,0 +1,98 @@
+/**
+ * Heading and block anchors in wikilinks (Obsidian syntax).
+ *
+ * - [[note#Section]]      -> heading "Section" in note
+ * - [[note#Parent#Child]] -> heading "Child" (heading paths resolve to their last heading)
+ * - [[note^block-id]]     -> the line ending in "^block-id"
+ * - [[note#^block-id]]    -> same, Obsidian's canonical form
+ *
+ * Anchors are kept with their prefix ("#Section", "^block-id") so links can be written
+ * back exactly as they were read.
+ */
+
+export interface WikilinkParts {
+  readonly path: string
+  readonly anchor: string | undefined
+}
+
+/**
+ * Splits link text into the path of the target note and its anchor.
+ *
+ * @example
+ * splitWikilinkAnchor("folder/note#Section") => { path: "folder/note", anchor: "#Section" }
+ * splitWikilinkAnchor("note^block-id")       => { path: "note", anchor: "^block-id" }
+ * splitWikilinkAnchor("note.md")             => { path: "note.md", anchor: undefined }
+ */
+export function splitWikilinkAnchor(linkText: string): WikilinkParts {
+  const anchorStart: number = linkText.search(/[#^]/)
+  if (anchorStart === -1) {
+    return { path: linkText, anchor: undefined }
+  }
+  const anchor: string = linkText.slice(anchorStart).trim()
+  return {
+    path: linkText.slice(0, anchorStart).trim(),
+    anchor: anchor.length > 1 ? anchor : undefined
+  }
+}
+
+/**
+ * Inverse of splitWikilinkAnchor.
+ */
+export function joinWikilinkAnchor(path: string, anchor: string | undefined): string {
+  return anchor ? `${path}${anchor}` : path
+}
+
+/**
+ * Human-readable form of an anchor, e.g. "#Parent#Child" -> "Child", "^block-id" -> "^block-id".
+ */
+export function getAnchorDisplayText(anchor: string): string {
+  const blockId: string | undefined = getBlockId(anchor)
+  if (blockId !== undefined) {
+    return `^${blockId}`
+  }
+  const headings: readonly string[] = anchor.split('#').filter(part => part.trim() !== '')
+  return headings.length > 0 ? headings[headings.length - 1].trim() : anchor
+}
+
+function getBlockId(anchor: string): string | undefined {
+  const match: RegExpMatchArray | null = anchor.match(/^#?\^(.+)$/)
+  return match ? match[1].trim() : undefined
+}
+
+function normalizeHeadingText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+function lineMatchesAnchor(line: string, blockId: string | undefined, heading: string): boolean {
+  if (blockId !== undefined) {
+    return line.trimEnd().endsWith(`^${blockId}`)
+  }
+  const headingMatch: RegExpMatchArray | null = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/)
+  return headingMatch !== null && normalizeHeadingText(headingMatch[1]) === heading
+}
+
+/**
+ * Finds the character offset of the line an anchor points to.
+ * Headings match case-insensitively; block ids match the end of the line.
+ *
+ * @returns Offset of the start of the first matching line, or undefined if none matches
+ */
+export function findWikilinkAnchorOffset(content: string, anchor: string): number | undefined {
+  const blockId: string | undefined = getBlockId(anchor)
+  const heading: string = normalizeHeadingText(getAnchorDisplayText(anchor))
+
+  type Scan = { readonly offset: number; readonly found: number | undefined }
+  const result: Scan = content.split('\n').reduce<Scan>(
+    (scan: Scan, line: string): Scan => {
+      if (scan.found !== undefined) {
+        return scan
+      }
+      return {
+        offset: scan.offset + line.length + 1,
+        found: lineMatchesAnchor(line, blockId, heading) ? scan.offset : undefined
+      }
+    },
+    { offset: 0, found: undefined }
+  )
+  return result.found
+}
@@ -4,9 +4,7 @@ import type { Graph, GraphNode } from '@/pure/graph'
 import { createGraph, createEmptyGraph } from '@/pure/graph/createGraph'
 import { getNodeTitle } from '@/pure/graph/markdown-parsing'
 import * as O from 'fp-ts/lib/Option.js'
-import * as E from 'fp-ts/lib/Either.js'
 import { loadGraphFromDisk } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
-import type { FileLimitExceededError } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce'
 
 import { EXAMPLE_SMALL_PATH, EXAMPLE_LARGE_PATH } from '@/utils/test-utils/fixture-paths'
 
@@ -19,7 +17,7 @@ describe('graphToAscii', () => {
     nodeUIMetadata: {
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   })
@@ -176,10 +174,7 @@ describe('graphToAscii', () => {
 
   it('should render example_large fixture - visual output inspection', async () => {
     // Load the real example_large graph from disk
-    const loadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([EXAMPLE_LARGE_PATH])
-    // eslint-disable-next-line functional/no-throw-statements
-    if (E.isLeft(loadResult)) throw new Error('Expected Right')
-    const graph: Graph = loadResult.right
+    const graph: Graph = await loadGraphFromDisk([EXAMPLE_LARGE_PATH])
 
     // Generate ASCII visualization
     const result: string = graphToAscii(graph)
@@ -201,10 +196,7 @@ describe('graphToAscii', () => {
 
   it('should render example_small fixture - visual output inspection', async () => {
     // Load the real example_small graph from disk
-    const loadResult2: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([EXAMPLE_SMALL_PATH])
-    // eslint-disable-next-line functional/no-throw-statements
-    if (E.isLeft(loadResult2)) throw new Error('Expected Right')
-    const graph: Graph = loadResult2.right
+    const graph: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH])
 
     // Debug: Check if edges are loaded
     const edgeCount: number = Object.values(graph.nodes).reduce((sum, node: GraphNode) => sum + node.outgoingEdges.length, 0)
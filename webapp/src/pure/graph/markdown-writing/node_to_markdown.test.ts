@@ -19,7 +19,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.some('#00FF00'),
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -40,7 +40,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.some('#00FF00'),
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -61,7 +61,7 @@ describe('fromNodeToMarkdownContent', () => {
         nodeUIMetadata: {
           color: O.none,
           position: O.some({ x: 100, y: 200 }),
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -83,7 +83,7 @@ describe('fromNodeToMarkdownContent', () => {
         nodeUIMetadata: {
           color: O.none,
           position: O.some({ x: 497.79198993276833, y: -19.08618457963695 }),
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -106,7 +106,7 @@ describe('fromNodeToMarkdownContent', () => {
         nodeUIMetadata: {
           color: O.some('#FFAA00'),
           position: O.some({ x: 300, y: 400 }),
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -129,7 +129,7 @@ describe('fromNodeToMarkdownContent', () => {
         nodeUIMetadata: {
           color: O.some('#0000FF'),
           position: O.some({ x: 50, y: 75 }),
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -153,7 +153,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.some('#AABBCC'),
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -173,7 +173,7 @@ describe('fromNodeToMarkdownContent', () => {
         nodeUIMetadata: {
           color: O.some('#DDEEFF'),
           position: O.some({ x: 10, y: 20 }),
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -196,7 +196,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -221,7 +221,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -235,6 +235,53 @@ describe('fromNodeToMarkdownContent', () => {
       expect(result.indexOf('# Test Content')).toBeLessThan(result.indexOf('[[child1.md]]'))
     })
 
+    it('should write edge labels before appended wikilinks so they survive a re-parse', () => {
+      const node: GraphNode = {
+        absoluteFilePathIsID: 'test.md',
+        contentWithoutYamlOrLinks: '# Test Content',
+        outgoingEdges: [{ targetId: 'child1.md', label: 'depends on' }, { targetId: 'child2.md', label: '' }],
+        nodeUIMetadata: {
+          color: O.none,
+          position: O.none,
+
+          additionalYAMLProps: {},
+          isContextNode: false
+        }
+      }
+
+      const result: string = fromNodeToMarkdownContent(node)
+
+      expect(result).toContain('- depends on [[child1.md]]')
+      expect(parseMarkdownToGraphNode(result, 'test.md', emptyGraph).outgoingEdges).toEqual([
+        { targetId: 'child1.md', label: 'depends on' },
+        { targetId: 'child2.md', label: '' }
+      ])
+    })
+
+    it('should write heading and block anchors on appended wikilinks', () => {
+      const node: GraphNode = {
+        absoluteFilePathIsID: 'test.md',
+        contentWithoutYamlOrLinks: '# Test Content',
+        outgoingEdges: [{ targetId: 'child1.md', label: 'references', anchor: '#Setup' }, { targetId: 'child2.md', label: '', anchor: '^abc123' }],
+        nodeUIMetadata: {
+          color: O.none,
+          position: O.none,
+
+          additionalYAMLProps: {},
+          isContextNode: false
+        }
+      }
+
+      const result: string = fromNodeToMarkdownContent(node)
+
+      expect(result).toContain('- references [[child1.md#Setup]]')
+      expect(result).toContain('[[child2.md^abc123]]')
+      expect(parseMarkdownToGraphNode(result, 'test.md', emptyGraph).outgoingEdges).toEqual([
+        { targetId: 'child1.md', label: 'references', anchor: '#Setup' },
+        { targetId: 'child2.md', label: '', anchor: '^abc123' }
+      ])
+    })
+
     it('should not append wikilinks when outgoingEdges is empty', () => {
       const node: GraphNode = {
         absoluteFilePathIsID: 'test.md',
@@ -244,7 +291,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -264,7 +311,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -302,7 +349,7 @@ describe('fromNodeToMarkdownContent', () => {
         nodeUIMetadata: {
           color: O.none,
           position: O.none,
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -329,7 +376,7 @@ describe('fromNodeToMarkdownContent', () => {
         nodeUIMetadata: {
           color: O.none,
           position: O.none,
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -358,10 +405,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map([
-            ['author', 'John Doe'],
-            ['custom_field', 'some value']
-          ]),
+          additionalYAMLProps: { author: 'John Doe', custom_field: 'some value' },
           isContextNode: false
         }
       }
@@ -372,7 +416,7 @@ describe('fromNodeToMarkdownContent', () => {
       expect(result).toContain('custom_field: some value')
     })
 
-    it('should write numeric string properties', () => {
+    it('should write number properties', () => {
       const node: GraphNode = {
         absoluteFilePathIsID: 'test.md',
         contentWithoutYamlOrLinks: '# Test Content',
@@ -381,10 +425,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map([
-            ['priority', '5'],
-            ['version', '2.1']
-          ]),
+          additionalYAMLProps: { priority: 5, version: 2.1 },
           isContextNode: false
         }
       }
@@ -395,7 +436,7 @@ describe('fromNodeToMarkdownContent', () => {
       expect(result).toContain('version: 2.1')
     })
 
-    it('should write boolean string properties', () => {
+    it('should write boolean properties', () => {
       const node: GraphNode = {
         absoluteFilePathIsID: 'test.md',
         contentWithoutYamlOrLinks: '# Test Content',
@@ -404,10 +445,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map([
-            ['published', 'true'],
-            ['archived', 'false']
-          ]),
+          additionalYAMLProps: { published: true, archived: false },
           isContextNode: false
         }
       }
@@ -418,7 +456,7 @@ describe('fromNodeToMarkdownContent', () => {
       expect(result).toContain('archived: false')
     })
 
-    it('should write JSON array properties from additionalYAMLProps', () => {
+    it('should write list properties from additionalYAMLProps', () => {
       const node: GraphNode = {
         absoluteFilePathIsID: 'test.md',
         contentWithoutYamlOrLinks: '# Test Content',
@@ -427,22 +465,20 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map([
-            ['tags', '["important","draft"]']
-          ]),
+          additionalYAMLProps: { tags: ['important', 'draft'] },
           isContextNode: false
         }
       }
 
       const result: string = fromNodeToMarkdownContent(node)
 
-      // Should restore as proper YAML array
+      // Should write a YAML block list
       expect(result).toContain('tags:')
       expect(result).toContain('- important')
       expect(result).toContain('- draft')
     })
 
-    it('should write JSON object properties from additionalYAMLProps', () => {
+    it('should write nested object properties from additionalYAMLProps', () => {
       const node: GraphNode = {
         absoluteFilePathIsID: 'test.md',
         contentWithoutYamlOrLinks: '# Test Content',
@@ -451,16 +487,14 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map([
-            ['metadata', '{"created":"2024-01-15","version":2}']
-          ]),
+          additionalYAMLProps: { metadata: { created: '2024-01-15', version: 2 } },
           isContextNode: false
         }
       }
 
       const result: string = fromNodeToMarkdownContent(node)
 
-      // Should restore as proper YAML object
+      // Should write a nested YAML mapping
       expect(result).toContain('metadata:')
       expect(result).toContain('created: 2024-01-15')
       expect(result).toContain('version: 2')
@@ -474,10 +508,7 @@ describe('fromNodeToMarkdownContent', () => {
         nodeUIMetadata: {
           color: O.some('#FF0000'),
           position: O.some({ x: 100, y: 200 }),
-          additionalYAMLProps: new Map([
-            ['author', 'Jane Smith'],
-            ['priority', '3']
-          ]),
+          additionalYAMLProps: { author: 'Jane Smith', priority: 3 },
           isContextNode: false
         }
       }
@@ -502,7 +533,7 @@ describe('fromNodeToMarkdownContent', () => {
           color: O.some('#FF0000'),
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -536,9 +567,9 @@ Some content here`
       const reparsedNode: GraphNode = parseMarkdownToGraphNode(writtenMarkdown, 'test.md', emptyGraph)
 
       // Check that additionalYAMLProps are preserved
-      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.get('author')).toBe('John Doe')
-      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.get('status')).toBe('draft')
-      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.size).toBe(2)
+      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.author).toBe('John Doe')
+      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.status).toBe('draft')
+      expect(Object.keys(reparsedNode.nodeUIMetadata.additionalYAMLProps)).toHaveLength(2)
     })
 
     it('should preserve additionalYAMLProps through round-trip with various types', () => {
@@ -561,8 +592,8 @@ Content with complex frontmatter`
       const node: GraphNode = parseMarkdownToGraphNode(originalMarkdown, 'test.md', emptyGraph)
 
       // Verify initial parsing
-      expect(node.nodeUIMetadata.additionalYAMLProps.get('priority')).toBe('5')
-      expect(node.nodeUIMetadata.additionalYAMLProps.get('published')).toBe('true')
+      expect(node.nodeUIMetadata.additionalYAMLProps.priority).toBe(5)
+      expect(node.nodeUIMetadata.additionalYAMLProps.published).toBe(true)
 
       // Write node back to markdown
       const writtenMarkdown: string = fromNodeToMarkdownContent(node)
@@ -570,19 +601,83 @@ Content with complex frontmatter`
       // Parse again
       const reparsedNode: GraphNode = parseMarkdownToGraphNode(writtenMarkdown, 'test.md', emptyGraph)
 
-      // Check that all properties are preserved
-      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.get('priority')).toBe('5')
-      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.get('published')).toBe('true')
+      // Check that all properties are preserved with their types
+      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps).toEqual(node.nodeUIMetadata.additionalYAMLProps)
+      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.tags).toEqual(['important', 'review'])
+      expect(reparsedNode.nodeUIMetadata.additionalYAMLProps.metadata).toEqual({ created: '2024-01-15', version: 2 })
+    })
+
+    it('should write an unchanged parsed node back byte-for-byte', () => {
+      const originalMarkdown: string = [
+        '---',
+        '# managed by the release tool',
+        'color: "#00FF00"',
+        "title: 'Legacy title'",
+        'position:',
+        '  x: 100',
+        '  y: 200',
+        'tags: [release, "2.0"]',
+        'due: 2024-03-01',
+        'owners:',
+        '- name: Ana   # lead',
+        '  role: dev',
+        'notes: >',
+        '  folded text',
+        'isContextNode: false',
+        '---',
+        '# Release plan',
+        '',
+        'Ship it.'
+      ].join('\n')
+
+      const node: GraphNode = parseMarkdownToGraphNode(originalMarkdown, 'test.md', emptyGraph)
+
+      expect(fromNodeToMarkdownContent(node)).toBe(originalMarkdown.replace("title: 'Legacy title'\n", ''))
+    })
+
+    it('should rewrite only the frontmatter keys whose value changed', () => {
+      const originalMarkdown: string = '---\ntags: [a, b]   # kept\nstatus: draft\nposition:\n  x: 1\n  y: 2\n---\n# Note'
+      const node: GraphNode = parseMarkdownToGraphNode(originalMarkdown, 'test.md', emptyGraph)
+      const changed: GraphNode = {
+        ...node,
+        nodeUIMetadata: {
+          ...node.nodeUIMetadata,
+          position: O.some({ x: 10.4, y: 2 }),
+          additionalYAMLProps: { ...node.nodeUIMetadata.additionalYAMLProps, status: 'done', reviewed: true }
+        }
+      }
+
+      expect(fromNodeToMarkdownContent(changed)).toBe(
+        '---\ntags: [a, b]   # kept\nstatus: done\nposition:\n  x: 10\n  y: 2\nisContextNode: false\nreviewed: true\n---\n# Note'
+      )
+    })
+
+    it('should quote strings that YAML would read back as another type', () => {
+      const node: GraphNode = {
+        absoluteFilePathIsID: 'test.md',
+        contentWithoutYamlOrLinks: '# Test Content',
+        outgoingEdges: [],
+        nodeUIMetadata: {
+          color: O.none,
+          position: O.none,
+          additionalYAMLProps: {
+            version: '2.0',
+            enabled: 'true',
+            empty: '',
+            quote: 'say "hi"',
+            nested: [['a', 1], { name: 'Ana', tags: ['x'] }],
+            nothing: null
+          },
+          isContextNode: false
+        }
+      }
 
-      // Arrays and objects are stored as JSON strings and should be preserved
-      const tags: string | undefined = reparsedNode.nodeUIMetadata.additionalYAMLProps.get('tags')
-      expect(tags).toBeDefined()
-      // After round-trip, arrays are parsed back from YAML so they may be JSON-stringified again
-      expect(tags).toBeTruthy()
+      const written: string = fromNodeToMarkdownContent(node)
 
-      const metadata: string | undefined = reparsedNode.nodeUIMetadata.additionalYAMLProps.get('metadata')
-      expect(metadata).toBeDefined()
-      expect(metadata).toBeTruthy()
+      expect(written).toContain('version: "2.0"\n')
+      expect(written).toContain('enabled: "true"\n')
+      expect(parseMarkdownToGraphNode(written, 'test.md', emptyGraph).nodeUIMetadata.additionalYAMLProps)
+        .toEqual(node.nodeUIMetadata.additionalYAMLProps)
     })
 
     it('should write and parse additionalYAMLProps alongside color and position', () => {
@@ -594,10 +689,7 @@ Content with complex frontmatter`
         nodeUIMetadata: {
           color: O.some('#ABCDEF'),
           position: O.some({ x: 150, y: 250 }),
-          additionalYAMLProps: new Map([
-            ['author', 'Jane Smith'],
-            ['category', 'research']
-          ]),
+          additionalYAMLProps: { author: 'Jane Smith', category: 'research' },
           isContextNode: false
         }
       }
@@ -617,8 +709,8 @@ Content with complex frontmatter`
       const node2: GraphNode = parseMarkdownToGraphNode(markdown, 'test.md', emptyGraph)
 
       // Verify additionalYAMLProps are preserved (main goal of this feature)
-      expect(node2.nodeUIMetadata.additionalYAMLProps.get('author')).toBe('Jane Smith')
-      expect(node2.nodeUIMetadata.additionalYAMLProps.get('category')).toBe('research')
+      expect(node2.nodeUIMetadata.additionalYAMLProps.author).toBe('Jane Smith')
+      expect(node2.nodeUIMetadata.additionalYAMLProps.category).toBe('research')
 
       // Note: color and position may end up in additionalYAMLProps after parsing,
       // but that's acceptable as long as they're preserved in the markdown
@@ -634,7 +726,7 @@ Just content, no frontmatter`
       const node2: GraphNode = parseMarkdownToGraphNode(markdown2, 'test.md', emptyGraph)
 
       // Should have empty additionalYAMLProps
-      expect(node2.nodeUIMetadata.additionalYAMLProps.size).toBe(0)
+      expect(Object.keys(node2.nodeUIMetadata.additionalYAMLProps)).toHaveLength(0)
       expect(O.isNone(node2.nodeUIMetadata.color)).toBe(true)
       expect(O.isNone(node2.nodeUIMetadata.position)).toBe(true)
     })
@@ -650,7 +742,7 @@ Just content, no frontmatter`
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: true,
           containedNodeIds: ['node1.md', 'folder/node2.md', 'node3.md']
         }
@@ -697,7 +789,7 @@ containedNodeIds:
           color: O.none,
           position: O.none,
 
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -1,7 +1,23 @@
-import type {GraphNode, NodeUIMetadata} from "@/pure/graph";
+import type {Edge, FrontmatterValue, GraphNode, NodeUIMetadata} from "@/pure/graph";
 import * as O from 'fp-ts/lib/Option.js'
-import * as E from 'fp-ts/lib/Either.js'
+import {
+    isFrontmatterObject,
+    isSameFrontmatterValue,
+    splitFrontmatterSource,
+    toFrontmatterValue,
+    type FrontmatterSource,
+} from '@/pure/graph/frontmatter'
 import { linkMatchScore } from '@/pure/graph/markdown-parsing/extract-edges'
+import { joinWikilinkAnchor } from '@/pure/graph/markdown-parsing/wikilink-anchor'
+
+/**
+ * Wikilink line for an edge missing from the content. The label goes before the link,
+ * where extractEdges reads it back from.
+ */
+function toWikilinkLine(edge: Edge): string {
+    const link: string = `[[${joinWikilinkAnchor(edge.targetId, edge.anchor)}]]`;
+    return edge.label === '' ? link : `- ${edge.label} ${link}`;
+}
 
 /**
  * Converts node content (without YAML) back to markdown with wikilinks restored.
@@ -23,7 +39,7 @@ export function fromNodeToContentWithWikilinks(node: GraphNode): string {
     const existingWikilinks: readonly string[] = [...contentWithWikilinks.matchAll(/\[\[([^\]]+)\]\]/g)].map(m => m[1])
     const wikilinks: string = node.outgoingEdges
         .filter(edge => !existingWikilinks.some(linkText => linkMatchScore(linkText, edge.targetId) > 0))
-        .map(edge => (`[[${edge.targetId}]]`))
+        .map(toWikilinkLine)
         .join('\n');
 
     const wikilinksSuffix: string = wikilinks.length > 0 ? '\n' + wikilinks : '';
@@ -43,7 +59,7 @@ export function fromNodeToContentWithWikilinks(node: GraphNode): string {
  * ---
  * <content>
  * [[child1]]
- * [[child2]]
+ * - depends on [[child2]]  (labeled edge)
  */
 export function fromNodeToMarkdownContent(node: GraphNode): string {
     // 1. Build frontmatter from nodeUIMetadata (content no longer has frontmatter)
@@ -57,7 +73,7 @@ export function fromNodeToMarkdownContent(node: GraphNode): string {
     const existingWikilinks: readonly string[] = [...contentWithWikilinks.matchAll(/\[\[([^\]]+)\]\]/g)].map(m => m[1])
     const wikilinks: string = node.outgoingEdges
         .filter(edge => !existingWikilinks.some(linkText => linkMatchScore(linkText, edge.targetId) > 0))
-        .map(edge => (`[[${edge.targetId}]]`))
+        .map(toWikilinkLine)
         .join('\n');
 
     const wikilinksSuffix: string = wikilinks.length > 0 ? '\n' + wikilinks : '';
@@ -65,22 +81,6 @@ export function fromNodeToMarkdownContent(node: GraphNode): string {
     return `${frontmatter}${contentWithWikilinks}${wikilinksSuffix}`;
 }
 
-/**
- * Attempts to parse a string as JSON, returning the parsed value or the original string.
- */
- // todo seems awful way of doing it
-function tryParseJSON(value: string): unknown {
-    // Try to detect if this is likely JSON (starts with [ or {)
-    if ((value.startsWith('[') && value.endsWith(']')) ||
-        (value.startsWith('{') && value.endsWith('}'))) {
-        return E.getOrElse(() => value as unknown)(E.tryCatch(
-            () => JSON.parse(value) as unknown,
-            () => value // On error, return original string
-        ))
-    }
-    return value
-}
-
 /**
  * Checks if a value is an fp-ts Option type
  */
@@ -94,12 +94,10 @@ function isOption(value: unknown): value is O.Option<unknown> {
  * Note: title is NOT written to YAML - it's derived from Markdown content (single source of truth).
  */
 function buildFrontmatterFromMetadata(metadata: NodeUIMetadata): string {
-    // todo, do order determinisitcally, otherwhise yaml order will keep changing?
-
     // Build frontmatter from typed metadata fields
     // Note: title is excluded - Markdown content is the single source of truth for titles
     const typedFieldsData: Record<string, unknown> = Object.keys(metadata)
-        .filter((key) => key !== 'additionalYAMLProps' && key !== 'title')
+        .filter((key) => key !== 'additionalYAMLProps' && key !== 'frontmatterSource' && key !== 'title')
         .reduce((acc: Record<string, unknown>, key: string) => {
             const value: unknown = metadata[key as keyof NodeUIMetadata];
 
@@ -110,86 +108,115 @@ function buildFrontmatterFromMetadata(metadata: NodeUIMetadata): string {
             return value !== undefined && value !== null ? { ...acc, [key]: value } : acc;
         }, {});
 
-    // Add additional YAML properties
-    const additionalData: Record<string, unknown> = Array.from(metadata.additionalYAMLProps.entries())
-        .reduce((acc: Record<string, unknown>, [key, value]: readonly [string, string]) => ({
-            ...acc,
-            [key]: tryParseJSON(value)
-        }), {});
+    return buildFrontmatterFromData({ ...typedFieldsData, ...metadata.additionalYAMLProps }, metadata.frontmatterSource);
+}
+
+// Plain strings YAML would read as another type: numbers, booleans, null (incl. YAML 1.1 forms)
+const NON_STRING_SCALAR_REGEX: RegExp = /^(?:[-+]?(?:\.\d+|\d[\d_]*(?:\.\d*)?)(?:[eE][-+]?\d+)?|0x[\da-fA-F]+|0o[0-7]+|[-+]?\.(?:inf|Inf|INF)|\.(?:nan|NaN|NAN)|true|True|TRUE|false|False|FALSE|yes|Yes|YES|no|No|NO|on|On|ON|off|Off|OFF|null|Null|NULL|~)$/;
+
+function needsQuotes(value: string): boolean {
+    return value === ''
+        || value !== value.trim()
+        || /[\n"\\]/.test(value)
+        || /^['-]/.test(value)
+        || /[:{}[\],&*#?|<>=!%@`]/.test(value)
+        || NON_STRING_SCALAR_REGEX.test(value);
+}
+
+function formatScalar(value: string | number | boolean | null): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (typeof value !== 'string') {
+        return String(value);
+    }
+    // JSON strings are valid double-quoted YAML strings
+    return needsQuotes(value) ? JSON.stringify(value) : value;
+}
 
-    return buildFrontmatterFromData({ ...typedFieldsData, ...additionalData });
+function formatKey(key: string): string {
+    return /^[\w$][\w$\-. /]*$/.test(key) && key === key.trim() ? key : JSON.stringify(key);
 }
 
 /**
- * Convert a value to YAML string representation with proper indentation
+ * Block-style YAML for one key, indented by `indent`. Lists nested directly in lists are
+ * written in flow style (JSON), which YAML reads back as the same list.
  */
- // todo this feels unnecessary
-function valueToYAML(value: unknown, indent: string = ''): string {
-    if (value === null || value === undefined) {
-        return 'null'
+function formatEntry(key: string, value: FrontmatterValue, indent: string): string {
+    if (Array.isArray(value)) {
+        return value.length === 0
+            ? `${indent}${formatKey(key)}: []\n`
+            : `${indent}${formatKey(key)}:\n${value.map(item => formatListItem(item, `${indent}  `)).join('')}`;
     }
-
-    if (typeof value === 'string') {
-        return value
+    if (isFrontmatterObject(value)) {
+        const body: string = Object.entries(value).map(([nestedKey, nestedValue]) => formatEntry(nestedKey, nestedValue, `${indent}  `)).join('');
+        return body === '' ? `${indent}${formatKey(key)}: {}\n` : `${indent}${formatKey(key)}:\n${body}`;
     }
+    return `${indent}${formatKey(key)}: ${formatScalar(value as string | number | boolean | null)}\n`;
+}
 
-    if (typeof value === 'number' || typeof value === 'boolean') {
-        return String(value)
+function formatListItem(item: FrontmatterValue, indent: string): string {
+    if (Array.isArray(item)) {
+        return `${indent}- ${JSON.stringify(item)}\n`;
     }
-
-    if (Array.isArray(value)) {
-        // Convert array to YAML list format
-        return value.reduce((acc, item) => {
-            const itemValue: string = typeof item === 'string' ? item : String(item)
-            return `${acc}\n${indent}- ${itemValue}`
-        }, '')
+    if (isFrontmatterObject(item)) {
+        const body: string = Object.entries(item).map(([key, value]) => formatEntry(key, value, `${indent}  `)).join('');
+        return body === '' ? `${indent}- {}\n` : `${indent}- ${body.slice(indent.length + 2)}`;
     }
+    return `${indent}- ${formatScalar(item as string | number | boolean | null)}\n`;
+}
 
-    if (typeof value === 'object') {
-        // Convert object to nested YAML
-        const entries: readonly (readonly [string, unknown])[] = Object.entries(value)
-        return entries.reduce((acc, [k, v]) => {
-            const nestedValue: string = typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean'
-                ? String(v)
-                : valueToYAML(v, indent + '  ')
-            return `${acc}\n${indent}${k}: ${nestedValue}`
-        }, '')
+/**
+ * The value as it will be written: positions are rounded to avoid noisy diffs.
+ */
+function toWrittenValue(key: string, value: unknown): FrontmatterValue {
+    if (key === 'position' && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        const pos: { readonly x: number; readonly y: number; } = value as { readonly x: number; readonly y: number };
+        return { x: Math.round(pos.x), y: Math.round(pos.y) };
     }
+    return toFrontmatterValue(value);
+}
 
-    return String(value)
+function formatTopLevelEntry(key: string, value: FrontmatterValue): string {
+    // Colors (hex codes starting with #) are written unquoted
+    if (key === 'color' && typeof value === 'string' && /^#[0-9A-Fa-f]{6}$/.test(value)) {
+        return `${key}: ${value}\n`;
+    }
+    return formatEntry(key, value, '');
 }
 
-function buildFrontmatterFromData(data: Record<string, unknown>): string {
-    const entries: readonly (readonly [string, unknown])[] = Object.entries(data).filter(([, value]) => value !== undefined);
+/**
+ * Builds the frontmatter block. When the node was parsed from a file, entries whose value is
+ * unchanged are copied from the original frontmatter text and keep their position, so an
+ * unmodified node is written back byte-for-byte. New keys go after the original ones.
+ */
+function buildFrontmatterFromData(data: Record<string, unknown>, frontmatterSource?: string): string {
+    const entries: readonly (readonly [string, FrontmatterValue])[] = Object.entries(data)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, toWrittenValue(key, value)] as const);
 
     if (entries.length === 0) {
         return '---\n---\n';
     }
 
-    const frontmatterContent: string = entries.reduce((acc, [key, value]) => {
-        if (key === 'position' && typeof value === 'object' && value !== null && !Array.isArray(value)) {
-            const pos: { readonly x: number; readonly y: number; } = value as { readonly x: number; readonly y: number };
-            return `${acc}position:\n  x: ${Math.round(pos.x)}\n  y: ${Math.round(pos.y)}\n`;
-        } else if (typeof value === 'string') {
-            // Colors (hex codes starting with #) don't need quotes in YAML
-            // Quote strings that contain special YAML chars
-            const isHexColor: boolean = key === 'color' && /^#[0-9A-Fa-f]{6}$/.test(value);
-            const needsQuotes: boolean = !isHexColor && /[:{}[\],&*#?|<>=!%@`]/.test(value);
-            return `${acc}${key}: ${needsQuotes ? `"${value}"` : value}\n`;
-        } else if (typeof value === 'number' || typeof value === 'boolean') {
-            return `${acc}${key}: ${value}\n`;
-        } else if (Array.isArray(value)) {
-            const yamlArray: string = valueToYAML(value, '  ')
-            return `${acc}${key}:${yamlArray}\n`;
-        } else if (typeof value === 'object' && value !== null) {
-            const yamlObject: string = valueToYAML(value, '  ')
-            return `${acc}${key}:${yamlObject}\n`;
-        } else {
-            return `${acc}${key}: ${value}\n`;
-        }
-    }, '');
-
-    return `---\n${frontmatterContent}---\n`;
+    const source: FrontmatterSource | undefined = frontmatterSource !== undefined ? splitFrontmatterSource(frontmatterSource) : undefined;
+    const values: ReadonlyMap<string, FrontmatterValue> = new Map(entries);
+    const sourceKeys: ReadonlySet<string> = new Set(source?.entries.map(entry => entry.key));
+
+    const keptOrUpdated: string = (source?.entries ?? [])
+        .filter(entry => values.has(entry.key))
+        .map(entry => {
+            const value: FrontmatterValue = values.get(entry.key) as FrontmatterValue;
+            const original: FrontmatterValue | undefined = source?.values[entry.key];
+            return original !== undefined && isSameFrontmatterValue(original, value)
+                ? entry.text
+                : formatTopLevelEntry(entry.key, value);
+        })
+        .join('');
+    const added: string = entries
+        .filter(([key]) => !sourceKeys.has(key))
+        .map(([key, value]) => formatTopLevelEntry(key, value))
+        .join('');
+
+    return `---\n${source?.preamble ?? ''}${keptOrUpdated}${added}---\n`;
 }
-
-
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import { computeMoveFolderDelta, computeMoveNodesDelta, getGraphFolders, getNodeFolders, resolveMoveTargetFolder } from './computeMoveNodesDelta'
+import type { Edge, Graph, GraphDelta, GraphNode } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import { applyGraphDeltaToGraph } from '@/pure/graph/graphDelta/applyGraphDeltaToGraph'
+import { reverseDelta } from '@/pure/graph/undo'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(
+    id: string,
+    content: string = '# Node',
+    outgoingEdges: readonly Edge[] = [],
+    position?: Readonly<{ readonly x: number; readonly y: number }>
+): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: position ? O.some(position) : O.none,
+            additionalYAMLProps: {}
+        }
+    }
+}
+
+function createVault(): Graph {
+    return createGraph({
+        '/vault/drafts/idea.md': createNode('/vault/drafts/idea.md', '# Idea\nsee [drafts/plan]*', [{ targetId: '/vault/drafts/plan.md', label: 'see' }], { x: 10, y: 20 }),
+        '/vault/drafts/plan.md': createNode('/vault/drafts/plan.md', '# Plan'),
+        '/vault/drafts/old/notes.md': createNode('/vault/drafts/old/notes.md', '# Notes'),
+        '/vault/index.md': createNode('/vault/index.md', '# Index\n- [idea]*\n- [drafts/plan.md#Steps]*', [
+            { targetId: '/vault/drafts/idea.md', label: '' },
+            { targetId: '/vault/drafts/plan.md', label: '', anchor: '#Steps' }
+        ]),
+        '/vault/archive/plan.md': createNode('/vault/archive/plan.md', '# Archived plan')
+    })
+}
+
+describe('computeMoveNodesDelta', () => {
+    it('should move nodes into the folder keeping position and file name', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeMoveNodesDelta(['/vault/drafts/idea.md'], '/vault/archive/', graph)
+        const result: Graph = applyGraphDeltaToGraph(graph, delta)
+
+        expect(result.nodes['/vault/drafts/idea.md']).toBeUndefined()
+        expect(result.nodes['/vault/archive/idea.md'].nodeUIMetadata.position).toEqual(O.some({ x: 10, y: 20 }))
+    })
+
+    it('should redirect incoming edges and rewrite the wikilinks pointing at moved nodes', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeMoveNodesDelta(['/vault/drafts/idea.md'], '/vault/archive', graph)
+        const index: GraphNode = applyGraphDeltaToGraph(graph, delta).nodes['/vault/index.md']
+
+        expect(index.outgoingEdges[0]).toEqual({ targetId: '/vault/archive/idea.md', label: '' })
+        // Basename links stay basename links while they are unambiguous
+        expect(index.contentWithoutYamlOrLinks).toContain('- [idea]*')
+    })
+
+    it('should suffix colliding file names and link to the renamed file', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeMoveNodesDelta(['/vault/drafts/plan.md'], '/vault/archive', graph)
+        const result: Graph = applyGraphDeltaToGraph(graph, delta)
+
+        expect(result.nodes['/vault/archive/plan_2.md']).toBeDefined()
+        expect(result.nodes['/vault/archive/plan.md'].contentWithoutYamlOrLinks).toBe('# Archived plan')
+        expect(result.nodes['/vault/index.md'].outgoingEdges[1]).toEqual({ targetId: '/vault/archive/plan_2.md', label: '', anchor: '#Steps' })
+        expect(result.nodes['/vault/index.md'].contentWithoutYamlOrLinks).toContain('[archive/plan_2.md#Steps]*')
+        expect(result.nodes['/vault/drafts/idea.md'].contentWithoutYamlOrLinks).toContain('see [archive/plan_2]*')
+    })
+
+    it('should use more path components when the new location makes a link ambiguous', () => {
+        const graph: Graph = createGraph({
+            '/vault/a/topic.md': createNode('/vault/a/topic.md', '# A'),
+            '/vault/b/x/topic.md': createNode('/vault/b/x/topic.md', '# B'),
+            '/vault/linker.md': createNode('/vault/linker.md', 'see [a/topic]*', [{ targetId: '/vault/a/topic.md', label: 'see' }])
+        })
+
+        const delta: GraphDelta = computeMoveNodesDelta(['/vault/a/topic.md'], '/vault/c/x', graph)
+        const linker: GraphNode = applyGraphDeltaToGraph(graph, delta).nodes['/vault/linker.md']
+
+        // "x/topic" would also match /vault/b/x/topic.md
+        expect(linker.contentWithoutYamlOrLinks).toBe('see [c/x/topic]*')
+        expect(linker.outgoingEdges[0].targetId).toBe('/vault/c/x/topic.md')
+    })
+
+    it('should ignore nodes already in the target folder', () => {
+        const graph: Graph = createVault()
+
+        expect(computeMoveNodesDelta(['/vault/archive/plan.md', '/vault/missing.md'], '/vault/archive', graph)).toEqual([])
+    })
+
+    it('should be undone in one step by reverseDelta', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeMoveNodesDelta(['/vault/drafts/plan.md', '/vault/drafts/idea.md'], '/vault/archive', graph)
+        const undone: Graph = applyGraphDeltaToGraph(applyGraphDeltaToGraph(graph, delta), reverseDelta(delta))
+
+        expect(undone.nodes).toEqual(graph.nodes)
+    })
+})
+
+describe('computeMoveFolderDelta', () => {
+    it('should move the folder with its subfolders under the target folder', () => {
+        const graph: Graph = createVault()
+
+        const delta: GraphDelta = computeMoveFolderDelta('/vault/drafts', '/vault/archive', graph)
+        const result: Graph = applyGraphDeltaToGraph(graph, delta)
+
+        expect(Object.keys(result.nodes).sort()).toEqual([
+            '/vault/archive/drafts/idea.md',
+            '/vault/archive/drafts/old/notes.md',
+            '/vault/archive/drafts/plan.md',
+            '/vault/archive/plan.md',
+            '/vault/index.md'
+        ])
+        // Links between moved nodes follow them
+        expect(result.nodes['/vault/archive/drafts/idea.md'].outgoingEdges[0].targetId).toBe('/vault/archive/drafts/plan.md')
+        expect(result.nodes['/vault/archive/drafts/idea.md'].contentWithoutYamlOrLinks).toContain('[drafts/plan]*')
+    })
+
+    it('should refuse to move a folder into itself', () => {
+        const graph: Graph = createVault()
+
+        expect(computeMoveFolderDelta('/vault/drafts', '/vault/drafts/old', graph)).toEqual([])
+    })
+})
+
+describe('getGraphFolders', () => {
+    it('should list every folder containing a node', () => {
+        expect(getGraphFolders(createVault())).toEqual(['/vault', '/vault/archive', '/vault/drafts', '/vault/drafts/old'])
+    })
+})
+
+describe('getNodeFolders', () => {
+    it('should list the folders of the given nodes once, skipping ids without a folder', () => {
+        expect(getNodeFolders(['/vault/drafts/b.md', 'terminal-shadow', '/vault/a.md', '/vault/drafts/c.md'])).toEqual(['/vault', '/vault/drafts'])
+    })
+})
+
+describe('resolveMoveTargetFolder', () => {
+    const vaultPaths: readonly string[] = ['/project/vault', '/project/docs/']
+
+    it('should resolve relative folders against the write path', () => {
+        expect(resolveMoveTargetFolder('archive/', '/project/vault', vaultPaths)).toBe('/project/vault/archive')
+    })
+
+    it('should accept absolute folders inside any vault path', () => {
+        expect(resolveMoveTargetFolder('/project/docs', '/project/vault', vaultPaths)).toBe('/project/docs')
+    })
+
+    it('should reject folders outside the vaults', () => {
+        expect(resolveMoveTargetFolder('/project/vault-other', '/project/vault', vaultPaths)).toBeUndefined()
+        expect(resolveMoveTargetFolder('../escape', '/project/vault', vaultPaths)).toBeUndefined()
+    })
+})
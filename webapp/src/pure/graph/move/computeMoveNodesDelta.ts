@@ -0,0 +1,257 @@
+import type { Edge, Graph, GraphDelta, GraphNode, NodeDelta, NodeIdAndFilePath } from '@/pure/graph'
+import * as O from 'fp-ts/lib/Option.js'
+import { ensureUniqueNodeId } from '@/pure/graph/ensureUniqueNodeId'
+import { findBestMatchingNode, getPathComponents, linkMatchScore } from '@/pure/graph/markdown-parsing/extract-edges'
+import { joinWikilinkAnchor, splitWikilinkAnchor, type WikilinkParts } from '@/pure/graph/markdown-parsing/wikilink-anchor'
+
+/**
+ * Old node ID -> new node ID for every node being moved.
+ */
+export type MovePlan = ReadonlyMap<NodeIdAndFilePath, NodeIdAndFilePath>
+
+function trimTrailingSlashes(folder: string): string {
+    return folder.replace(/[/\\]+$/, '')
+}
+
+/**
+ * Folder of a node ID, without trailing slash ('' for IDs without a folder).
+ *
+ * @example
+ * getNodeFolder('/vault/notes/a.md') => '/vault/notes'
+ */
+export function getNodeFolder(nodeId: NodeIdAndFilePath): string {
+    const lastSlashIndex: number = nodeId.lastIndexOf('/')
+    return lastSlashIndex === -1 ? '' : nodeId.slice(0, lastSlashIndex)
+}
+
+function getFileName(nodeId: NodeIdAndFilePath): string {
+    return nodeId.slice(nodeId.lastIndexOf('/') + 1)
+}
+
+/**
+ * Every folder that contains one of the nodes, sorted.
+ */
+export function getNodeFolders(nodeIds: readonly NodeIdAndFilePath[]): readonly string[] {
+    return [...new Set(nodeIds.map(getNodeFolder))]
+        .filter(folder => folder !== '')
+        .sort()
+}
+
+/**
+ * Every folder that contains a node, sorted. Used to offer move targets.
+ */
+export function getGraphFolders(graph: Graph): readonly string[] {
+    return getNodeFolders(Object.keys(graph.nodes))
+}
+
+/**
+ * Resolves a destination folder typed by a user or agent: relative folders are taken from the
+ * write path, and folders outside every vault path are rejected.
+ *
+ * @returns The absolute folder without trailing slash, or undefined if it is outside the vaults
+ */
+export function resolveMoveTargetFolder(
+    folder: string,
+    writePath: string,
+    vaultPaths: readonly string[]
+): string | undefined {
+    const trimmed: string = trimTrailingSlashes(folder.trim())
+    const absolute: string = trimmed.startsWith('/') ? trimmed : `${trimTrailingSlashes(writePath)}/${trimmed}`
+    if (absolute.split('/').some(segment => segment === '..')) {
+        return undefined
+    }
+    const isInVault: boolean = vaultPaths
+        .map(trimTrailingSlashes)
+        .some(vaultPath => absolute === vaultPath || absolute.startsWith(`${vaultPath}/`))
+    return isInVault ? absolute : undefined
+}
+
+/**
+ * Allocates the new IDs for a set of moves. Nodes already at their destination are skipped,
+ * and colliding destinations get _2, _3, ... via ensureUniqueNodeId.
+ */
+function planMoves(
+    moves: readonly { readonly nodeId: NodeIdAndFilePath; readonly candidateId: NodeIdAndFilePath }[],
+    graph: Graph
+): MovePlan {
+    const pending: readonly { readonly nodeId: NodeIdAndFilePath; readonly candidateId: NodeIdAndFilePath }[] = moves
+        .filter(move => graph.nodes[move.nodeId] !== undefined && move.nodeId !== move.candidateId)
+    const movingIds: ReadonlySet<NodeIdAndFilePath> = new Set(pending.map(move => move.nodeId))
+    // IDs that stay taken after the move: every node that is not moving
+    const stayingIds: readonly NodeIdAndFilePath[] = Object.keys(graph.nodes).filter(id => !movingIds.has(id))
+
+    return pending.reduce<MovePlan>(
+        (plan, move) => new Map(plan).set(
+            move.nodeId,
+            ensureUniqueNodeId(move.candidateId, new Set([...stayingIds, ...plan.values()]))
+        ),
+        new Map()
+    )
+}
+
+function getSuffixKey(components: readonly string[], length: number): string {
+    return components.slice(-length).join('/')
+}
+
+/**
+ * Shortest link text that resolves to the target ID among the given IDs, keeping at least
+ * as many path components (and the .md extension) as the original link.
+ *
+ * @example
+ * // "notes/a" pointing at a node moved to /vault/archive/a.md, no other "a" in archive
+ * getUniqueLinkText('notes/a', '/vault/archive/a.md', ids) => 'archive/a'
+ */
+export function getUniqueLinkText(linkPath: string, targetId: NodeIdAndFilePath, allIds: readonly NodeIdAndFilePath[]): string {
+    const newComponents: readonly string[] = getPathComponents(targetId)
+    const otherComponents: readonly (readonly string[])[] = allIds
+        .filter(id => id !== targetId)
+        .map(getPathComponents)
+    const minLength: number = Math.max(1, getPathComponents(linkPath).length)
+    const uniqueLength: number | undefined = Array.from(
+        { length: Math.max(0, newComponents.length - minLength + 1) },
+        (_, i: number) => minLength + i
+    ).find(length => otherComponents.every(components => getSuffixKey(components, length) !== getSuffixKey(newComponents, length)))
+
+    if (uniqueLength === undefined || uniqueLength >= newComponents.length) {
+        return targetId
+    }
+    const extension: string = /\.md$/.test(linkPath) ? '.md' : ''
+    return `${getSuffixKey(newComponents, uniqueLength)}${extension}`
+}
+
+/**
+ * Rewrites `[link]*` placeholders that resolve to a moved node. Alias links are left alone
+ * since the alias moves with the node.
+ */
+function rewriteMovedLinks(content: string, plan: MovePlan, graph: Graph, idsAfterMove: readonly NodeIdAndFilePath[]): string {
+    return content.replace(/\[([^\]]+)\]\*/g, (match: string, linkText: string): string => {
+        const { path, anchor }: WikilinkParts = splitWikilinkAnchor(linkText)
+        const resolvedId: NodeIdAndFilePath | undefined = findBestMatchingNode(path, graph.nodes, graph.nodeByBaseName, graph.nodeByAlias)
+        const newId: NodeIdAndFilePath | undefined = resolvedId !== undefined ? plan.get(resolvedId) : undefined
+        if (newId === undefined || resolvedId === undefined || linkMatchScore(path, resolvedId) === 0) {
+            return match
+        }
+        return `[${joinWikilinkAnchor(getUniqueLinkText(path, newId, idsAfterMove), anchor)}]*`
+    })
+}
+
+function redirectMovedTargets(node: GraphNode, plan: MovePlan, graph: Graph, idsAfterMove: readonly NodeIdAndFilePath[]): GraphNode {
+    const containedNodeIds: readonly NodeIdAndFilePath[] | undefined = node.nodeUIMetadata.containedNodeIds
+    return {
+        ...node,
+        outgoingEdges: node.outgoingEdges.map((edge: Edge): Edge => {
+            const newTargetId: NodeIdAndFilePath | undefined = plan.get(edge.targetId)
+            return newTargetId === undefined ? edge : { ...edge, targetId: newTargetId }
+        }),
+        contentWithoutYamlOrLinks: rewriteMovedLinks(node.contentWithoutYamlOrLinks, plan, graph, idsAfterMove),
+        nodeUIMetadata: containedNodeIds === undefined
+            ? node.nodeUIMetadata
+            : { ...node.nodeUIMetadata, containedNodeIds: containedNodeIds.map(id => plan.get(id) ?? id) }
+    }
+}
+
+/**
+ * Computes one GraphDelta applying a move plan.
+ *
+ * - Each moved node is created at its new ID (keeping its position and metadata), then deleted at its old ID
+ * - Every node linking to a moved node gets its edges redirected and its wikilinks rewritten
+ *   to link text that resolves to the new location
+ *
+ * The whole move is a single delta, so it is undone in one step via reverseDelta.
+ */
+export function computeMovePlanDelta(plan: MovePlan, graph: Graph): GraphDelta {
+    if (plan.size === 0) {
+        return []
+    }
+
+    const idsAfterMove: readonly NodeIdAndFilePath[] = Object.keys(graph.nodes).map(id => plan.get(id) ?? id)
+
+    const linkingNodeIds: readonly NodeIdAndFilePath[] = [...new Set(
+        [...plan.keys()].flatMap(oldId => graph.incomingEdgesIndex.get(oldId) ?? [])
+    )].filter(sourceId => !plan.has(sourceId) && graph.nodes[sourceId] !== undefined)
+
+    const movedNodeDeltas: GraphDelta = [...plan.entries()].map(([oldId, newId]): NodeDelta => ({
+        type: 'UpsertNode',
+        nodeToUpsert: { ...redirectMovedTargets(graph.nodes[oldId], plan, graph, idsAfterMove), absoluteFilePathIsID: newId },
+        previousNode: O.none  // New path - reverse is a delete
+    }))
+
+    const linkingNodeDeltas: GraphDelta = linkingNodeIds.map((sourceId): NodeDelta => ({
+        type: 'UpsertNode',
+        nodeToUpsert: redirectMovedTargets(graph.nodes[sourceId], plan, graph, idsAfterMove),
+        previousNode: O.some(graph.nodes[sourceId])
+    }))
+
+    // Old paths are deleted last, once nothing links to them anymore
+    const oldPathDeltas: GraphDelta = [...plan.keys()].map((oldId): NodeDelta => ({
+        type: 'DeleteNode',
+        nodeId: oldId,
+        deletedNode: O.some(graph.nodes[oldId])  // Capture for undo support
+    }))
+
+    return [...movedNodeDeltas, ...linkingNodeDeltas, ...oldPathDeltas]
+}
+
+/**
+ * Plans moving nodes into a folder, keeping their file names.
+ * Missing nodes and nodes already in the folder are left out of the plan.
+ */
+export function planMoveNodes(
+    nodeIds: readonly NodeIdAndFilePath[],
+    targetFolder: string,
+    graph: Graph
+): MovePlan {
+    const folder: string = trimTrailingSlashes(targetFolder)
+    return planMoves(
+        [...new Set(nodeIds)].map(nodeId => ({ nodeId, candidateId: `${folder}/${getFileName(nodeId)}` })),
+        graph
+    )
+}
+
+/**
+ * Plans moving a folder (with its subfolders) into another folder.
+ *
+ * @example
+ * // /vault/drafts/a.md and /vault/drafts/old/b.md moved into /vault/archive
+ * // => /vault/archive/drafts/a.md and /vault/archive/drafts/old/b.md
+ */
+export function planMoveFolder(
+    sourceFolder: string,
+    targetFolder: string,
+    graph: Graph
+): MovePlan {
+    const source: string = trimTrailingSlashes(sourceFolder)
+    const destination: string = `${trimTrailingSlashes(targetFolder)}/${getFileName(source)}`
+    // Moving a folder into itself would never terminate on disk
+    if (source === '' || destination.startsWith(`${source}/`)) {
+        return new Map()
+    }
+    return planMoves(
+        Object.keys(graph.nodes)
+            .filter(nodeId => nodeId.startsWith(`${source}/`))
+            .map(nodeId => ({ nodeId, candidateId: `${destination}${nodeId.slice(source.length)}` })),
+        graph
+    )
+}
+
+/**
+ * Computes the GraphDelta for moving nodes into a folder. See planMoveNodes.
+ */
+export function computeMoveNodesDelta(
+    nodeIds: readonly NodeIdAndFilePath[],
+    targetFolder: string,
+    graph: Graph
+): GraphDelta {
+    return computeMovePlanDelta(planMoveNodes(nodeIds, targetFolder, graph), graph)
+}
+
+/**
+ * Computes the GraphDelta for moving a folder into another folder. See planMoveFolder.
+ */
+export function computeMoveFolderDelta(
+    sourceFolder: string,
+    targetFolder: string,
+    graph: Graph
+): GraphDelta {
+    return computeMovePlanDelta(planMoveFolder(sourceFolder, targetFolder, graph), graph)
+}
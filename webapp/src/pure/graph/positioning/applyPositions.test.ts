@@ -192,7 +192,7 @@ function createNode(id: NodeIdAndFilePath, outgoingEdges: readonly NodeIdAndFile
 
       color: O.none,
       position: O.none,
-      additionalYAMLProps: new Map(),
+      additionalYAMLProps: {},
       isContextNode: false
     }
   }
@@ -44,7 +44,7 @@ export function applyPositions(graph: Graph): Graph {
         nodeUIMetadata: {
             color: O.none,
             position: O.some(GHOST_ROOT_POSITION),
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: false
         }
     }
@@ -172,6 +172,8 @@ function positionNodeIfNeeded(
         },
         incomingEdgesIndex: tree.incomingEdgesIndex,
         nodeByBaseName: tree.nodeByBaseName,
-        unresolvedLinksIndex: tree.unresolvedLinksIndex
+        nodeByAlias: tree.nodeByAlias,
+        unresolvedLinksIndex: tree.unresolvedLinksIndex,
+        tagIndex: tree.tagIndex
     }
 }
@@ -0,0 +1,13 @@
+export {
+    DEFAULT_RELATIONSHIP_VOCABULARY,
+    OTHER_RELATIONSHIP_KEY,
+    UNLABELED_RELATIONSHIP_KEY,
+    findRelationshipType,
+    getRelationshipFilterKey,
+    normalizeRelationshipLabel,
+    parseRelationshipVocabulary,
+    toRelationshipKey,
+    type RelationshipLineStyle,
+    type RelationshipType,
+    type RelationshipVocabulary,
+} from './relationshipVocabulary'
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import {
+    DEFAULT_RELATIONSHIP_VOCABULARY,
+    OTHER_RELATIONSHIP_KEY,
+    UNLABELED_RELATIONSHIP_KEY,
+    getRelationshipFilterKey,
+    normalizeRelationshipLabel,
+    parseRelationshipVocabulary,
+    type RelationshipVocabulary,
+} from './relationshipVocabulary'
+
+describe('normalizeRelationshipLabel', () => {
+    it('maps names and aliases to the canonical name regardless of case and separators', () => {
+        expect(normalizeRelationshipLabel('Depends-On:', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe('depends on')
+        expect(normalizeRelationshipLabel('depends_on', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe('depends on')
+        expect(normalizeRelationshipLabel('Blocked by', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe('depends on')
+        expect(normalizeRelationshipLabel('**Implements**', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe('implements')
+    })
+
+    it('keeps labels outside the vocabulary as written', () => {
+        expect(normalizeRelationshipLabel('  this was inspired by ', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe('this was inspired by')
+        expect(normalizeRelationshipLabel('', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe('')
+    })
+
+    it('uses the vault vocabulary instead of the default', () => {
+        const vocabulary: RelationshipVocabulary = [{ name: 'supersedes', aliases: ['replaces'] }]
+        expect(normalizeRelationshipLabel('Replaces', vocabulary)).toBe('supersedes')
+        expect(normalizeRelationshipLabel('requires', vocabulary)).toBe('requires')
+    })
+})
+
+describe('getRelationshipFilterKey', () => {
+    it('separates typed, free-text and unlabeled edges', () => {
+        expect(getRelationshipFilterKey('Refers to', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe('references')
+        expect(getRelationshipFilterKey('some prose', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe(OTHER_RELATIONSHIP_KEY)
+        expect(getRelationshipFilterKey(' ', DEFAULT_RELATIONSHIP_VOCABULARY)).toBe(UNLABELED_RELATIONSHIP_KEY)
+    })
+})
+
+describe('parseRelationshipVocabulary', () => {
+    it('drops malformed entries, unknown line styles and repeated names', () => {
+        expect(parseRelationshipVocabulary([
+            { name: 'blocks', color: '#f00', lineStyle: 'wavy', aliases: ['stops', 3] },
+            { name: 'Blocks' },
+            { color: '#0f0' },
+            'implements',
+        ])).toEqual([{ name: 'blocks', color: '#f00', aliases: ['stops'] }])
+    })
+
+    it('falls back to the default vocabulary when the config is not a list', () => {
+        expect(parseRelationshipVocabulary(undefined)).toBe(DEFAULT_RELATIONSHIP_VOCABULARY)
+        expect(parseRelationshipVocabulary([])).toEqual([])
+    })
+})
@@ -0,0 +1,122 @@
+/**
+ * Relationship vocabulary: the edge labels a vault recognizes as relationship types.
+ *
+ * An edge's label is the text before its [[wikilink]] on the line (see extractEdges).
+ * Labels that match a type's name or one of its aliases are normalized to the type's
+ * name, so "- Depends-On: [[x]]" and "- requires [[x]]" both become "depends on".
+ * Labels that match no type are kept as written.
+ *
+ * Each vault can define its own vocabulary in its vault config; vaults without one use
+ * DEFAULT_RELATIONSHIP_VOCABULARY.
+ */
+
+export type RelationshipLineStyle = 'solid' | 'dashed' | 'dotted'
+
+export interface RelationshipType {
+    /** Canonical label, written before the wikilink */
+    readonly name: string
+    /** Other labels that mean the same relationship */
+    readonly aliases?: readonly string[]
+    /** Edge line color in the graph */
+    readonly color?: string
+    readonly lineStyle?: RelationshipLineStyle
+}
+
+export type RelationshipVocabulary = readonly RelationshipType[]
+
+export const DEFAULT_RELATIONSHIP_VOCABULARY: RelationshipVocabulary = [
+    { name: 'blocks', aliases: ['blocking'], color: '#ef4444' },
+    { name: 'depends on', aliases: ['requires', 'blocked by', 'after'], color: '#f59e0b', lineStyle: 'dashed' },
+    { name: 'implements', aliases: ['implemented in'], color: '#3b82f6' },
+    { name: 'contradicts', aliases: ['conflicts with'], color: '#a855f7', lineStyle: 'dotted' },
+    { name: 'references', aliases: ['refers to'], lineStyle: 'dashed' },
+]
+
+/** Filter key of edges without a label */
+export const UNLABELED_RELATIONSHIP_KEY: string = '(unlabeled)'
+/** Filter key of edges whose label is not in the vocabulary */
+export const OTHER_RELATIONSHIP_KEY: string = '(other)'
+
+const LINE_STYLES: ReadonlySet<string> = new Set<RelationshipLineStyle>(['solid', 'dashed', 'dotted'])
+
+/**
+ * Comparison key of a label: lowercased, with `_`, `-` and whitespace runs collapsed to
+ * one space and surrounding punctuation (e.g. a trailing colon) removed.
+ */
+export function toRelationshipKey(label: string): string {
+    return label
+        .toLowerCase()
+        .replace(/[\s_-]+/g, ' ')
+        .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+}
+
+export function findRelationshipType(
+    label: string,
+    vocabulary: RelationshipVocabulary
+): RelationshipType | undefined {
+    const key: string = toRelationshipKey(label)
+    if (key === '') {
+        return undefined
+    }
+    return vocabulary.find((type: RelationshipType) =>
+        [type.name, ...(type.aliases ?? [])].some((candidate: string) => toRelationshipKey(candidate) === key)
+    )
+}
+
+/**
+ * The canonical name of the label's relationship type, or the trimmed label itself if
+ * it matches no type.
+ */
+export function normalizeRelationshipLabel(label: string, vocabulary: RelationshipVocabulary): string {
+    return findRelationshipType(label, vocabulary)?.name ?? label.trim()
+}
+
+/**
+ * Key used to show or hide an edge by relationship type: the type's name,
+ * UNLABELED_RELATIONSHIP_KEY or OTHER_RELATIONSHIP_KEY.
+ */
+export function getRelationshipFilterKey(label: string, vocabulary: RelationshipVocabulary): string {
+    if (label.trim() === '') {
+        return UNLABELED_RELATIONSHIP_KEY
+    }
+    return findRelationshipType(label, vocabulary)?.name ?? OTHER_RELATIONSHIP_KEY
+}
+
+function toStringList(value: unknown): readonly string[] {
+    return Array.isArray(value)
+        ? value.filter((item: unknown): item is string => typeof item === 'string' && item.trim() !== '')
+        : []
+}
+
+function toRelationshipType(value: unknown): RelationshipType | undefined {
+    if (typeof value !== 'object' || value === null) {
+        return undefined
+    }
+    const raw: Record<string, unknown> = value as Record<string, unknown>
+    if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+        return undefined
+    }
+    const aliases: readonly string[] = toStringList(raw.aliases)
+    return {
+        name: raw.name.trim(),
+        ...(aliases.length > 0 ? { aliases } : {}),
+        ...(typeof raw.color === 'string' && raw.color !== '' ? { color: raw.color } : {}),
+        ...(typeof raw.lineStyle === 'string' && LINE_STYLES.has(raw.lineStyle) ? { lineStyle: raw.lineStyle as RelationshipLineStyle } : {}),
+    }
+}
+
+/**
+ * Read a vocabulary from hand-editable config. Malformed entries and repeated names
+ * are dropped; anything that is not a list gives the default vocabulary.
+ */
+export function parseRelationshipVocabulary(value: unknown): RelationshipVocabulary {
+    if (!Array.isArray(value)) {
+        return DEFAULT_RELATIONSHIP_VOCABULARY
+    }
+    return value
+        .map(toRelationshipType)
+        .filter((type: RelationshipType | undefined): type is RelationshipType => type !== undefined)
+        .filter((type: RelationshipType, index: number, types: readonly RelationshipType[]) =>
+            types.findIndex((other: RelationshipType) => toRelationshipKey(other.name) === toRelationshipKey(type.name)) === index
+        )
+}
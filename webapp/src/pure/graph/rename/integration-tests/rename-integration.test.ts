@@ -38,7 +38,7 @@ function createTestNode(
         nodeUIMetadata: {
             color: O.none,
             position: position ? O.some(position) : O.none,
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: false
         }
     }
@@ -287,7 +287,7 @@ describe('Rename Node - Integration Tests', () => {
                     nodeUIMetadata: {
                         color: O.some('#ff5500'),
                         position: O.some({ x: 42, y: 84 }),
-                        additionalYAMLProps: new Map([['agent_name', 'TestAgent']]),
+                        additionalYAMLProps: { agent_name: 'TestAgent' },
                         isContextNode: false
                     }
                 }
@@ -350,7 +350,7 @@ describe('Rename Node - Integration Tests', () => {
                     nodeUIMetadata: {
                         color: O.none,
                         position: O.none,
-                        additionalYAMLProps: new Map(),
+                        additionalYAMLProps: {},
                         isContextNode: true
                     }
                 },
@@ -66,6 +66,18 @@ describe('replaceWikilinkPlaceholders', () => {
         })
     })
 
+    describe('anchored placeholders', () => {
+        it('keeps heading and block anchors', () => {
+            const content: string = 'See [my_node#Setup]* and [folder/my_node^abc123]* and [my_node]*'
+            const result: string = replaceWikilinkPlaceholders(
+                content,
+                'folder/my_node.md',
+                'folder/new_title.md'
+            )
+            expect(result).toBe('See [new_title#Setup]* and [new_title^abc123]* and [new_title]*')
+        })
+    })
+
     describe('no matching placeholders', () => {
         it('returns content unchanged when no placeholders match', () => {
             const content: string = 'Link to [unrelated_node]* here'
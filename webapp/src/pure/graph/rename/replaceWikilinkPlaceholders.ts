@@ -1,5 +1,6 @@
 import type { NodeIdAndFilePath } from '@/pure/graph'
 import { linkMatchScore } from '@/pure/graph/markdown-parsing/extract-edges'
+import { joinWikilinkAnchor, splitWikilinkAnchor } from '@/pure/graph/markdown-parsing/wikilink-anchor'
 
 /**
  * Extracts the basename (filename without extension) from a node ID path.
@@ -21,9 +22,10 @@ function getBasename(nodeId: NodeIdAndFilePath): string {
  * - Just basename: "my_node"
  * - Relative path: "folder/my_node"
  * - Full path with extension: "folder/my_node.md"
+ * - Any of the above with a heading or block anchor: "my_node#Section", "my_node^block-id"
  *
  * Uses linkMatchScore to determine if a placeholder resolves to the old node ID.
- * If score > 0, replaces with the new node's basename.
+ * If score > 0, replaces with the new node's basename, keeping any anchor.
  *
  * @param content - Content with [link]* placeholders
  * @param oldNodeId - The node ID being renamed (e.g., "folder/my_node.md")
@@ -55,7 +57,7 @@ export function replaceWikilinkPlaceholders(
     return content.replace(placeholderRegex, (match: string, linkText: string): string => {
         const score: number = linkMatchScore(linkText, oldNodeId)
         if (score > 0) {
-            return `[${newBasename}]*`
+            return `[${joinWikilinkAnchor(newBasename, splitWikilinkAnchor(linkText).anchor)}]*`
         }
         return match
     })
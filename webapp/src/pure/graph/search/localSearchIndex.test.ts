@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type { Graph, GraphDelta, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import {
+    applyGraphDeltaToLocalSearchIndex,
+    buildLocalSearchIndex,
+    cosineSimilarity,
+    fuseHybridScores,
+    searchLocalIndex,
+    tokenize,
+    type LocalSearchHit,
+    type LocalSearchIndex,
+} from './localSearchIndex'
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, content: string, isContextNode: boolean = false): GraphNode {
+    return {
+        outgoingEdges: [],
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode
+        }
+    }
+}
+
+const graph: Graph = createGraph({
+    '/vault/auth.md': buildGraphNode('/vault/auth.md', '# Authentication flow\nLogin uses OAuth tokens.'),
+    '/vault/db.md': buildGraphNode('/vault/db.md', '# Database schema\nTables for users and sessions.'),
+    '/vault/notes.md': buildGraphNode('/vault/notes.md', '# Meeting notes\nDiscussed the database migration and login bugs.'),
+    '/vault/ctx-nodes/ctx.md': buildGraphNode('/vault/ctx-nodes/ctx.md', '# Context\ndatabase database database', true),
+})
+
+function resultIds(hits: readonly LocalSearchHit[]): readonly string[] {
+    return hits.map(hit => hit.nodeId)
+}
+
+describe('tokenize', () => {
+    it('lowercases, splits on punctuation and drops stop words', () => {
+        expect(tokenize('What is the OAuth-token flow? Ünïcode a')).toEqual(['oauth', 'token', 'flow', 'ünïcode'])
+    })
+})
+
+describe('searchLocalIndex', () => {
+    const index: LocalSearchIndex = buildLocalSearchIndex(graph)
+
+    it('ranks title matches above body matches and skips context nodes', () => {
+        expect(resultIds(searchLocalIndex(index, 'database', 10))).toEqual(['/vault/db.md', '/vault/notes.md'])
+    })
+
+    it('returns titles and respects topK', () => {
+        const hits: readonly LocalSearchHit[] = searchLocalIndex(index, 'login database', 1)
+        expect(hits).toHaveLength(1)
+        expect(hits[0].title).toBe('Meeting notes')
+    })
+
+    it('returns nothing for queries without indexable terms', () => {
+        expect(searchLocalIndex(index, 'the of', 10)).toEqual([])
+    })
+})
+
+describe('applyGraphDeltaToLocalSearchIndex', () => {
+    it('matches a full rebuild after upserts and deletes', () => {
+        const delta: GraphDelta = [
+            {
+                type: 'UpsertNode',
+                nodeToUpsert: buildGraphNode('/vault/auth.md', '# Authentication flow\nNow uses passkeys.'),
+                previousNode: O.some(graph.nodes['/vault/auth.md'])
+            },
+            { type: 'DeleteNode', nodeId: '/vault/db.md', deletedNode: O.some(graph.nodes['/vault/db.md']) },
+        ]
+        const updated: LocalSearchIndex = applyGraphDeltaToLocalSearchIndex(buildLocalSearchIndex(graph), delta)
+
+        expect(resultIds(searchLocalIndex(updated, 'passkeys database', 10))).toEqual(['/vault/auth.md', '/vault/notes.md'])
+        expect(updated.totalLength).toBe(buildLocalSearchIndex(createGraph({
+            '/vault/auth.md': buildGraphNode('/vault/auth.md', '# Authentication flow\nNow uses passkeys.'),
+            '/vault/notes.md': graph.nodes['/vault/notes.md'],
+        })).totalLength)
+    })
+})
+
+describe('fuseHybridScores', () => {
+    it('lets embedding similarity reorder lexical hits', () => {
+        const hits: readonly LocalSearchHit[] = [
+            { nodeId: '/a.md', title: 'A', score: 2 },
+            { nodeId: '/b.md', title: 'B', score: 1.5 },
+        ]
+        const fused: readonly LocalSearchHit[] = fuseHybridScores(hits, new Map([['/a.md', 0], ['/b.md', 1]]), 0.5)
+
+        expect(resultIds(fused)).toEqual(['/b.md', '/a.md'])
+        expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+        expect(cosineSimilarity([1, 1], [2, 2])).toBeCloseTo(1)
+    })
+})
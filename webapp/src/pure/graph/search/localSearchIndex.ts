@@ -0,0 +1,191 @@
+import type { Graph, GraphDelta, GraphNode, NodeDelta, NodeIdAndFilePath } from '@/pure/graph'
+import { getNodeTitle } from '@/pure/graph/markdown-parsing'
+
+/**
+ * In-process BM25 search index over graph nodes.
+ *
+ * Used when the Python backend is unavailable, so search and context retrieval keep
+ * working offline. Documents are the node title (counted twice, as a title boost)
+ * plus contentWithoutYamlOrLinks. Context nodes are not indexed.
+ */
+
+const BM25_K1: number = 1.2
+const BM25_B: number = 0.75
+const TITLE_BOOST: number = 2
+
+const STOP_WORDS: ReadonlySet<string> = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+    'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which',
+    'who', 'why', 'with',
+])
+
+export interface SearchDocument {
+    readonly nodeId: NodeIdAndFilePath
+    readonly title: string
+    /** Text handed to embedding providers */
+    readonly text: string
+    readonly termFrequencies: ReadonlyMap<string, number>
+    readonly length: number
+}
+
+export interface LocalSearchIndex {
+    readonly documents: ReadonlyMap<NodeIdAndFilePath, SearchDocument>
+    readonly totalLength: number
+}
+
+export interface LocalSearchHit {
+    readonly nodeId: NodeIdAndFilePath
+    readonly title: string
+    readonly score: number
+}
+
+/**
+ * Pluggable embedding backend for hybrid search.
+ * Returns one vector per input text, in order.
+ */
+export interface EmbeddingProvider {
+    readonly embed: (texts: readonly string[]) => Promise<readonly (readonly number[])[]>
+}
+
+export function createEmptyLocalSearchIndex(): LocalSearchIndex {
+    return { documents: new Map(), totalLength: 0 }
+}
+
+/**
+ * Lowercase word tokens (letters and digits), without stop words and single characters.
+ */
+export function tokenize(text: string): readonly string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+}
+
+/**
+ * Term counts as run lengths of the sorted tokens (linear after the sort, unlike growing a map per token).
+ */
+function countTerms(tokens: readonly string[]): ReadonlyMap<string, number> {
+    const sorted: readonly string[] = [...tokens].sort()
+    const runStarts: readonly number[] = sorted
+        .map((_, index) => index)
+        .filter(index => index === 0 || sorted[index - 1] !== sorted[index])
+    return new Map(runStarts.map((start, runIndex) => [
+        sorted[start],
+        (runStarts[runIndex + 1] ?? sorted.length) - start
+    ] as const))
+}
+
+export function nodeToSearchDocument(node: GraphNode): SearchDocument {
+    const title: string = getNodeTitle(node)
+    const tokens: readonly string[] = [
+        ...Array.from({ length: TITLE_BOOST }, () => tokenize(title)).flat(),
+        ...tokenize(node.contentWithoutYamlOrLinks),
+    ]
+    return {
+        nodeId: node.absoluteFilePathIsID,
+        title,
+        text: `${title}\n${node.contentWithoutYamlOrLinks}`,
+        termFrequencies: countTerms(tokens),
+        length: tokens.length,
+    }
+}
+
+export function buildLocalSearchIndex(graph: Graph): LocalSearchIndex {
+    const documents: readonly SearchDocument[] = Object.values(graph.nodes)
+        .filter(node => !node.nodeUIMetadata.isContextNode)
+        .map(nodeToSearchDocument)
+    return {
+        documents: new Map(documents.map(document => [document.nodeId, document])),
+        totalLength: documents.reduce((sum, document) => sum + document.length, 0),
+    }
+}
+
+/**
+ * Incrementally update the index: re-tokenize upserted nodes and drop deleted ones.
+ * Nodes whose title and content did not change keep their existing document.
+ */
+export function applyGraphDeltaToLocalSearchIndex(index: LocalSearchIndex, delta: GraphDelta): LocalSearchIndex {
+    // Only the last delta for a node matters
+    const latestDeltaByNodeId: ReadonlyMap<NodeIdAndFilePath, NodeDelta> = new Map(delta.map(nodeDelta => [
+        nodeDelta.type === 'DeleteNode' ? nodeDelta.nodeId : nodeDelta.nodeToUpsert.absoluteFilePathIsID,
+        nodeDelta
+    ] as const))
+    const updatedDocuments: readonly SearchDocument[] = [...latestDeltaByNodeId].flatMap(([nodeId, nodeDelta]): readonly SearchDocument[] => {
+        if (nodeDelta.type === 'DeleteNode' || nodeDelta.nodeToUpsert.nodeUIMetadata.isContextNode) {
+            return []
+        }
+        const existing: SearchDocument | undefined = index.documents.get(nodeId)
+        const replacement: SearchDocument = nodeToSearchDocument(nodeDelta.nodeToUpsert)
+        return [existing && existing.text === replacement.text ? existing : replacement]
+    })
+    const documents: ReadonlyMap<NodeIdAndFilePath, SearchDocument> = new Map([
+        ...[...index.documents].filter(([nodeId]) => !latestDeltaByNodeId.has(nodeId)),
+        ...updatedDocuments.map(document => [document.nodeId, document] as const)
+    ])
+    return {
+        documents,
+        totalLength: [...documents.values()].reduce((sum, document) => sum + document.length, 0),
+    }
+}
+
+/**
+ * Rank documents with Okapi BM25. Documents that match no query term are omitted.
+ */
+export function searchLocalIndex(index: LocalSearchIndex, query: string, topK: number): readonly LocalSearchHit[] {
+    const queryTerms: readonly string[] = [...new Set(tokenize(query))]
+    const documentCount: number = index.documents.size
+    if (queryTerms.length === 0 || documentCount === 0 || topK <= 0) {
+        return []
+    }
+
+    const documents: readonly SearchDocument[] = [...index.documents.values()]
+    const averageLength: number = Math.max(index.totalLength / documentCount, 1)
+    const idfByTerm: ReadonlyMap<string, number> = new Map(queryTerms.map(term => {
+        const documentFrequency: number = documents.filter(document => document.termFrequencies.has(term)).length
+        return [term, Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5))]
+    }))
+
+    return documents
+        .map((document: SearchDocument): LocalSearchHit => ({
+            nodeId: document.nodeId,
+            title: document.title,
+            score: queryTerms.reduce((score: number, term: string) => {
+                const termFrequency: number = document.termFrequencies.get(term) ?? 0
+                const normalization: number = BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength)
+                return score + (idfByTerm.get(term) ?? 0) * termFrequency * (BM25_K1 + 1) / (termFrequency + normalization)
+            }, 0),
+        }))
+        .filter(hit => hit.score > 0)
+        .sort((a, b) => b.score - a.score || a.nodeId.localeCompare(b.nodeId))
+        .slice(0, topK)
+}
+
+export function cosineSimilarity(a: readonly number[], b: readonly number[]): number {
+    const dot: number = a.reduce((sum, value, i) => sum + value * (b[i] ?? 0), 0)
+    const normA: number = Math.sqrt(a.reduce((sum, value) => sum + value * value, 0))
+    const normB: number = Math.sqrt(b.reduce((sum, value) => sum + value * value, 0))
+    return normA === 0 || normB === 0 ? 0 : dot / (normA * normB)
+}
+
+/**
+ * Blend BM25 hits with embedding similarities.
+ * BM25 scores are normalized to [0, 1] by the best hit; `semanticWeight` is the share
+ * given to the similarity score. Hits without a similarity keep only their lexical part.
+ */
+export function fuseHybridScores(
+    hits: readonly LocalSearchHit[],
+    similarityByNodeId: ReadonlyMap<NodeIdAndFilePath, number>,
+    semanticWeight: number
+): readonly LocalSearchHit[] {
+    const maxScore: number = Math.max(...hits.map(hit => hit.score), 0)
+    if (maxScore === 0) {
+        return hits
+    }
+    return hits
+        .map(hit => ({
+            ...hit,
+            score: (1 - semanticWeight) * hit.score / maxScore
+                + semanticWeight * Math.max(similarityByNodeId.get(hit.nodeId) ?? 0, 0),
+        }))
+        .sort((a, b) => b.score - a.score || a.nodeId.localeCompare(b.nodeId))
+}
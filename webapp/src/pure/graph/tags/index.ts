@@ -0,0 +1,6 @@
+export {
+    extractInlineTags,
+    getNodeTags,
+    normalizeTag,
+    tagMatches,
+} from './nodeTags'
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type { FrontmatterProps, GraphNode } from '@/pure/graph'
+import { extractInlineTags, getNodeTags, normalizeTag, tagMatches } from '@/pure/graph/tags'
+
+function buildNode(content: string, yamlProps: FrontmatterProps = {}): GraphNode {
+    return {
+        absoluteFilePathIsID: '/vault/node.md',
+        outgoingEdges: [],
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: yamlProps,
+            isContextNode: false
+        }
+    }
+}
+
+describe('normalizeTag', () => {
+    it('lowercases and strips the leading # and surrounding slashes', () => {
+        expect(normalizeTag('#Decision')).toBe('decision')
+        expect(normalizeTag(' Project/Alpha/ ')).toBe('project/alpha')
+        expect(normalizeTag('#')).toBe('')
+    })
+})
+
+describe('tagMatches', () => {
+    it('matches the tag itself and its nested tags only', () => {
+        expect(tagMatches('project', 'project')).toBe(true)
+        expect(tagMatches('project/alpha', '#Project')).toBe(true)
+        expect(tagMatches('projects', 'project')).toBe(false)
+    })
+})
+
+describe('extractInlineTags', () => {
+    it('finds inline tags but not headings, numbers, anchors or code', () => {
+        const markdown: string = [
+            '# Heading',
+            'A #decision about #Project/Alpha, see [note#Section]* and issue #42.',
+            'Inline `#notatag` code.',
+            '```',
+            '#also-not-a-tag',
+            '```',
+            '#bug'
+        ].join('\n')
+
+        expect(extractInlineTags(markdown)).toEqual(['decision', 'project/alpha', 'bug'])
+    })
+})
+
+describe('getNodeTags', () => {
+    it('combines frontmatter lists, frontmatter strings and inline tags without duplicates', () => {
+        expect(getNodeTags(buildNode('Body with #spec and #bug', { tags: ['bug', 'Decision'] })))
+            .toEqual(['bug', 'decision', 'spec'])
+        expect(getNodeTags(buildNode('', { tags: 'spec, #bug decision' })))
+            .toEqual(['spec', 'bug', 'decision'])
+    })
+
+    it('returns no tags for untagged nodes', () => {
+        expect(getNodeTags(buildNode('# Just a title'))).toEqual([])
+    })
+})
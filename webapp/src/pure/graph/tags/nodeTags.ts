@@ -0,0 +1,63 @@
+/**
+ * Node tags: `tags:` frontmatter plus inline #tags in the markdown body.
+ *
+ * Tags are normalized to lowercase without the leading '#'. Nested tags use '/', and a
+ * parent tag matches its children: filtering by "project" also selects "project/alpha".
+ */
+
+import type { FrontmatterProps, FrontmatterValue, GraphNode } from '@/pure/graph'
+import { getFrontmatterStrings } from '@/pure/graph/frontmatter'
+
+const TAG_YAML_KEYS: readonly string[] = ['tags', 'tag']
+
+// Obsidian rules: preceded by start or whitespace, made of letters, digits, _ - /, not only digits
+const INLINE_TAG_REGEX: RegExp = /(?:^|\s)#([\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*)/gu
+const FENCED_CODE_REGEX: RegExp = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm
+const INLINE_CODE_REGEX: RegExp = /`[^`\n]*`/g
+
+/**
+ * Lowercase a tag and drop its leading '#' and surrounding slashes. Returns '' for empty tags.
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, '').replace(/^\/+|\/+$/g, '').toLowerCase()
+}
+
+/**
+ * Whether a node tag is selected by a filter tag (the same tag or one of its parents).
+ *
+ * @example
+ * tagMatches('project/alpha', 'project') => true
+ * tagMatches('projects', 'project')      => false
+ */
+export function tagMatches(tag: string, filterTag: string): boolean {
+    const normalizedFilter: string = normalizeTag(filterTag)
+    return tag === normalizedFilter || tag.startsWith(`${normalizedFilter}/`)
+}
+
+function parseFrontmatterTags(value: FrontmatterValue): readonly string[] {
+    const tags: readonly string[] = Array.isArray(value)
+        ? getFrontmatterStrings(value)
+        : getFrontmatterStrings(value).flatMap((text: string) => text.split(/[,\s]+/))
+    return tags.map(normalizeTag)
+}
+
+/**
+ * Inline #tags in markdown, ignoring code blocks, inline code and headings.
+ */
+export function extractInlineTags(markdown: string): readonly string[] {
+    const withoutCode: string = markdown.replace(FENCED_CODE_REGEX, '').replace(INLINE_CODE_REGEX, '')
+    return [...withoutCode.matchAll(INLINE_TAG_REGEX)].map((match: RegExpMatchArray) => normalizeTag(match[1]))
+}
+
+/**
+ * All tags of a node, frontmatter first, without duplicates.
+ */
+export function getNodeTags(node: GraphNode): readonly string[] {
+    const yamlProps: FrontmatterProps | undefined = node.nodeUIMetadata.additionalYAMLProps
+    const frontmatterTags: readonly string[] = TAG_YAML_KEYS.flatMap((key: string): readonly string[] => {
+        const value: FrontmatterValue | undefined = yamlProps?.[key]
+        return value === undefined ? [] : parseFrontmatterTags(value)
+    })
+    const inlineTags: readonly string[] = extractInlineTags(node.contentWithoutYamlOrLinks ?? '')
+    return [...new Set([...frontmatterTags, ...inlineTags])].filter((tag: string) => tag !== '')
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+    computeSetTaskStatusDelta,
+    computeTaskStatusDeltaForTerminalEvent,
+    getTaskStatus,
+    getTaskStatusAfterTerminalEvent,
+    groupTaskNodesByStatus
+} from './taskStatus'
+import type { FrontmatterProps, Graph, GraphDelta, GraphNode, UpsertNodeDelta } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+import * as O from 'fp-ts/lib/Option.js'
+
+function createNode(id: string, additionalYAMLProps: FrontmatterProps = {}): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges: [],
+        contentWithoutYamlOrLinks: `# ${id}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps
+        }
+    }
+}
+
+const graph: Graph = createGraph({
+    'b.md': createNode('b.md', { status: 'in-progress', agent_name: 'Wendy' }),
+    'a.md': createNode('a.md', { status: 'In-Progress' }),
+    'done.md': createNode('done.md', { status: 'done' }),
+    'blocked.md': createNode('blocked.md', { status: 'blocked' }),
+    'note.md': createNode('note.md'),
+    'draft.md': createNode('draft.md', { status: 'draft' })
+})
+
+describe('getTaskStatus', () => {
+    it('should read the status case-insensitively and ignore unknown values', () => {
+        expect(getTaskStatus(graph.nodes['a.md'])).toBe('in-progress')
+        expect(getTaskStatus(graph.nodes['draft.md'])).toBeUndefined()
+        expect(getTaskStatus(graph.nodes['note.md'])).toBeUndefined()
+    })
+})
+
+describe('getTaskStatusAfterTerminalEvent', () => {
+    it('should move tasks between in-progress and review', () => {
+        expect(getTaskStatusAfterTerminalEvent('todo', 'spawned')).toBe('in-progress')
+        expect(getTaskStatusAfterTerminalEvent('in-progress', 'idle')).toBe('review')
+        expect(getTaskStatusAfterTerminalEvent('review', 'active')).toBe('in-progress')
+        expect(getTaskStatusAfterTerminalEvent('in-progress', 'exited')).toBe('review')
+    })
+
+    it('should never override blocked or done', () => {
+        expect(getTaskStatusAfterTerminalEvent('blocked', 'spawned')).toBeUndefined()
+        expect(getTaskStatusAfterTerminalEvent('done', 'active')).toBeUndefined()
+        expect(getTaskStatusAfterTerminalEvent('done', 'exited')).toBeUndefined()
+    })
+})
+
+describe('computeSetTaskStatusDelta', () => {
+    it('should update the status and keep the other frontmatter', () => {
+        const delta: GraphDelta = computeSetTaskStatusDelta(graph, 'b.md', 'blocked')
+
+        expect(delta).toHaveLength(1)
+        const upsert: UpsertNodeDelta = delta[0] as UpsertNodeDelta
+        expect(upsert.nodeToUpsert.nodeUIMetadata.additionalYAMLProps).toEqual({ status: 'blocked', agent_name: 'Wendy' })
+        expect(upsert.previousNode).toEqual(O.some(graph.nodes['b.md']))
+    })
+
+    it('should be empty for a missing node or an unchanged status', () => {
+        expect(computeSetTaskStatusDelta(graph, 'missing.md', 'done')).toEqual([])
+        expect(computeSetTaskStatusDelta(graph, 'done.md', 'done')).toEqual([])
+    })
+})
+
+describe('computeTaskStatusDeltaForTerminalEvent', () => {
+    it('should only update task nodes whose status the event changes', () => {
+        const delta: GraphDelta = computeTaskStatusDeltaForTerminalEvent(graph, 'b.md', 'idle')
+
+        expect((delta[0] as UpsertNodeDelta).nodeToUpsert.nodeUIMetadata.additionalYAMLProps.status).toBe('review')
+        expect(computeTaskStatusDeltaForTerminalEvent(graph, 'note.md', 'spawned')).toEqual([])
+        expect(computeTaskStatusDeltaForTerminalEvent(graph, 'done.md', 'spawned')).toEqual([])
+    })
+})
+
+describe('groupTaskNodesByStatus', () => {
+    it('should put every task node in its status column, sorted by ID', () => {
+        expect(groupTaskNodesByStatus(graph)).toEqual({
+            'todo': [],
+            'in-progress': ['a.md', 'b.md'],
+            'blocked': ['blocked.md'],
+            'review': [],
+            'done': ['done.md']
+        })
+    })
+})
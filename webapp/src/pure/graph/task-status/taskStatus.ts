@@ -0,0 +1,118 @@
+/**
+ * Task status lifecycle: a `status:` frontmatter field on task nodes.
+ *
+ * New task nodes start as todo. Terminal lifecycle events move a task between in-progress and
+ * review; blocked and done are only ever set by a person (kanban board) or an agent (MCP), so
+ * automatic updates never override them. Nodes without a valid status are not task nodes.
+ */
+
+import type { Graph, GraphDelta, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { getFrontmatterString } from '@/pure/graph/frontmatter'
+import * as O from 'fp-ts/lib/Option.js'
+
+export const TASK_STATUSES: readonly ['todo', 'in-progress', 'blocked', 'review', 'done'] = ['todo', 'in-progress', 'blocked', 'review', 'done']
+
+export type TaskStatus = typeof TASK_STATUSES[number]
+
+export const TASK_STATUS_LABELS: Readonly<Record<TaskStatus, string>> = {
+    'todo': 'To do',
+    'in-progress': 'In progress',
+    'blocked': 'Blocked',
+    'review': 'Review',
+    'done': 'Done'
+}
+
+export const TASK_STATUS_YAML_KEY: string = 'status'
+
+export const INITIAL_TASK_STATUS: TaskStatus = 'todo'
+
+/**
+ * Terminal lifecycle events that move a task's status:
+ * - spawned: an agent started on the task
+ * - idle: the agent stopped producing output and is waiting
+ * - active: the agent resumed work after being idle
+ * - exited: the agent's process ended
+ */
+export type TerminalLifecycleEvent = 'spawned' | 'idle' | 'active' | 'exited'
+
+export function isTaskStatus(value: string | undefined): value is TaskStatus {
+    return value !== undefined && (TASK_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * The node's task status, or undefined if it isn't a task node.
+ */
+export function getTaskStatus(node: GraphNode): TaskStatus | undefined {
+    const value: string | undefined = getFrontmatterString(node.nodeUIMetadata.additionalYAMLProps, TASK_STATUS_YAML_KEY)?.trim().toLowerCase()
+    return isTaskStatus(value) ? value : undefined
+}
+
+/**
+ * Status a task moves to after a terminal lifecycle event, or undefined if it stays as it is.
+ * Only todo, in-progress and review change automatically.
+ */
+export function getTaskStatusAfterTerminalEvent(current: TaskStatus, event: TerminalLifecycleEvent): TaskStatus | undefined {
+    switch (event) {
+        case 'spawned':
+        case 'active':
+            return current === 'todo' || current === 'review' ? 'in-progress' : undefined
+        case 'idle':
+        case 'exited':
+            return current === 'in-progress' ? 'review' : undefined
+    }
+}
+
+/**
+ * Delta setting a node's status frontmatter. Empty if the node is missing or already has the status.
+ */
+export function computeSetTaskStatusDelta(graph: Graph, nodeId: NodeIdAndFilePath, status: TaskStatus): GraphDelta {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    if (!node || getTaskStatus(node) === status) {
+        return []
+    }
+    const updatedNode: GraphNode = {
+        ...node,
+        nodeUIMetadata: {
+            ...node.nodeUIMetadata,
+            additionalYAMLProps: { ...node.nodeUIMetadata.additionalYAMLProps, [TASK_STATUS_YAML_KEY]: status }
+        }
+    }
+    return [{ type: 'UpsertNode', nodeToUpsert: updatedNode, previousNode: O.some(node) }]
+}
+
+/**
+ * Delta applying a terminal lifecycle event to a task node. Empty for nodes without a status
+ * and for events that don't change it.
+ */
+export function computeTaskStatusDeltaForTerminalEvent(
+    graph: Graph,
+    taskNodeId: NodeIdAndFilePath,
+    event: TerminalLifecycleEvent
+): GraphDelta {
+    const node: GraphNode | undefined = graph.nodes[taskNodeId]
+    const current: TaskStatus | undefined = node ? getTaskStatus(node) : undefined
+    const next: TaskStatus | undefined = current !== undefined ? getTaskStatusAfterTerminalEvent(current, event) : undefined
+    return next !== undefined ? computeSetTaskStatusDelta(graph, taskNodeId, next) : []
+}
+
+/**
+ * Task nodes grouped into kanban columns, in TASK_STATUSES order. Cards within a column are sorted by node ID.
+ */
+export function groupTaskNodesByStatus(graph: Graph): Readonly<Record<TaskStatus, readonly NodeIdAndFilePath[]>> {
+    const taskNodes: readonly (readonly [NodeIdAndFilePath, TaskStatus])[] = Object.values(graph.nodes)
+        .flatMap((node: GraphNode): readonly (readonly [NodeIdAndFilePath, TaskStatus])[] => {
+            const status: TaskStatus | undefined = getTaskStatus(node)
+            return status !== undefined ? [[node.absoluteFilePathIsID, status]] : []
+        })
+    const getColumn: (status: TaskStatus) => readonly NodeIdAndFilePath[] = status => taskNodes
+        .filter(([, nodeStatus]) => nodeStatus === status)
+        .map(([nodeId]) => nodeId)
+        .sort((a, b) => a.localeCompare(b))
+    return {
+        'todo': getColumn('todo'),
+        'in-progress': getColumn('in-progress'),
+        'blocked': getColumn('blocked'),
+        'review': getColumn('review'),
+        'done': getColumn('done')
+    }
+}
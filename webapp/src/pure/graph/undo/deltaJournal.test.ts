@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import {
+    appendJournalEntry,
+    buildAgentRevert,
+    buildRangeRevert,
+    deriveFSEventSource,
+    findFileWriterBySpawnDirectory,
+    isEntryByAgentSession,
+    parseJournal,
+    previewDelta,
+    previewJournalEntry,
+    serializeJournalEntry,
+    summarizeJournalEntry,
+    JOURNAL_COALESCE_WINDOW_MS,
+    MAX_JOURNAL_ENTRIES,
+    USER_DELTA_SOURCE,
+    type AgentSession,
+    type DeltaJournalEntry,
+    type DeltaSource,
+    type FileWriter,
+    type RangeRevert,
+    type TerminalSpawnDirectory
+} from './deltaJournal'
+import type { FrontmatterProps, Graph, GraphDelta, GraphNode, UpsertNodeDelta } from '@/pure/graph'
+import { createGraph } from '@/pure/graph/createGraph'
+
+// Helper to create a minimal GraphNode for testing
+function createTestNode(id: string, content: string = '# Test', yaml: FrontmatterProps = {}): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        contentWithoutYamlOrLinks: content,
+        outgoingEdges: [],
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: yaml
+        }
+    }
+}
+
+function upsert(node: GraphNode, previous?: GraphNode): UpsertNodeDelta {
+    return { type: 'UpsertNode', nodeToUpsert: node, previousNode: O.fromNullable(previous) }
+}
+
+function entry(id: number, delta: GraphDelta, source: DeltaSource = USER_DELTA_SOURCE, timestamp: number = id * 60_000): DeltaJournalEntry {
+    return { id, timestamp, source, delta }
+}
+
+const editor: DeltaSource = { type: 'floating-editor' }
+
+describe('appendJournalEntry', () => {
+    it('coalesces rapid editor saves of the same node, keeping the first previous state', () => {
+        const v1: GraphNode = createTestNode('a.md', 'v1')
+        const v2: GraphNode = createTestNode('a.md', 'v2')
+        const v3: GraphNode = createTestNode('a.md', 'v3')
+
+        const entries: readonly DeltaJournalEntry[] = [
+            entry(1, [upsert(v2, v1)], editor, 1000),
+            entry(2, [upsert(v3, v2)], editor, 1000 + JOURNAL_COALESCE_WINDOW_MS),
+        ].reduce(appendJournalEntry, [])
+
+        expect(entries).toHaveLength(1)
+        expect(entries[0].id).toBe(2)
+        expect(previewJournalEntry(entries[0])).toEqual([
+            { nodeId: 'a.md', kind: 'updated', contentBefore: 'v1', contentAfter: 'v3' }
+        ])
+    })
+
+    it('keeps user actions and slow edits as separate entries', () => {
+        const node: GraphNode = createTestNode('a.md')
+        const entries: readonly DeltaJournalEntry[] = [
+            entry(1, [upsert(node)], editor, 0),
+            entry(2, [upsert(node, node)], editor, JOURNAL_COALESCE_WINDOW_MS + 1),
+            entry(3, [upsert(node, node)], USER_DELTA_SOURCE, JOURNAL_COALESCE_WINDOW_MS + 2),
+        ].reduce(appendJournalEntry, [])
+
+        expect(entries.map(e => e.id)).toEqual([1, 2, 3])
+    })
+
+    it('drops the oldest entries beyond the cap', () => {
+        const node: GraphNode = createTestNode('a.md')
+        const entries: readonly DeltaJournalEntry[] = Array.from({ length: MAX_JOURNAL_ENTRIES + 5 }, (_, i) => entry(i + 1, [upsert(node)]))
+            .reduce(appendJournalEntry, [])
+
+        expect(entries).toHaveLength(MAX_JOURNAL_ENTRIES)
+        expect(entries[0].id).toBe(6)
+    })
+})
+
+describe('serializeJournalEntry / parseJournal', () => {
+    it('round-trips Options and YAML Maps and skips truncated lines', () => {
+        const node: GraphNode = createTestNode('a.md', '# A', { agent_name: 'Wendy' })
+        const original: DeltaJournalEntry = entry(1, [
+            upsert(node),
+            { type: 'DeleteNode', nodeId: 'b.md', deletedNode: O.none },
+        ], { type: 'agent', agentName: 'Wendy', terminalId: 'Wendy-1' })
+
+        const text: string = `${serializeJournalEntry(original)}\n{"id":2,"timest`
+        const parsed: readonly DeltaJournalEntry[] = parseJournal(text)
+
+        expect(parsed).toHaveLength(1)
+        expect(parsed[0]).toEqual(original)
+        const parsedNode: GraphNode = (parsed[0].delta[0] as UpsertNodeDelta).nodeToUpsert
+        expect(parsedNode.nodeUIMetadata.additionalYAMLProps.agent_name).toBe('Wendy')
+        expect(O.isNone(parsedNode.nodeUIMetadata.color)).toBe(true)
+    })
+})
+
+describe('deriveFSEventSource', () => {
+    const ana: FileWriter = { agentName: 'Ana', terminalId: 'Ana' }
+    const writtenByAna: (filePath: string) => FileWriter | undefined = filePath => filePath === 'user.md' ? ana : undefined
+
+    it('attributes an agent editing a user node to the agent', () => {
+        const userNode: GraphNode = createTestNode('user.md', '# Edited by Ana')
+        expect(deriveFSEventSource([upsert(userNode)], writtenByAna)).toEqual({ type: 'fs-event', agentName: 'Ana', terminalId: 'Ana' })
+    })
+
+    it('does not attribute a user editing an agent node to the agent', () => {
+        const agentNode: GraphNode = createTestNode('agent.md', '# Edited by the user', { agent_name: 'Ana' })
+        expect(deriveFSEventSource([upsert(agentNode)], writtenByAna)).toEqual({ type: 'fs-event' })
+    })
+})
+
+describe('findFileWriterBySpawnDirectory', () => {
+    const ana: FileWriter = { agentName: 'Ana', terminalId: 'Ana' }
+    const bob: FileWriter = { agentName: 'Bob', terminalId: 'Bob' }
+
+    it('attributes files in an agent\'s own worktree to it', () => {
+        const terminals: readonly TerminalSpawnDirectory[] = [
+            { writer: ana, spawnDirectory: '/repo/.worktrees/ana/' },
+            { writer: bob, spawnDirectory: '/repo' },
+        ]
+        expect(findFileWriterBySpawnDirectory('/repo/.worktrees/ana/notes/a.md', terminals, '/repo')).toEqual(ana)
+    })
+
+    it('ignores the shared project root and directories several terminals share', () => {
+        expect(findFileWriterBySpawnDirectory('/repo/notes/a.md', [{ writer: ana, spawnDirectory: '/repo' }], '/repo')).toBeUndefined()
+        expect(findFileWriterBySpawnDirectory('/repo/.worktrees/x/a.md', [
+            { writer: ana, spawnDirectory: '/repo/.worktrees/x' },
+            { writer: bob, spawnDirectory: '/repo/.worktrees/x' },
+        ], '/repo')).toBeUndefined()
+    })
+})
+
+describe('summarizeJournalEntry', () => {
+    it('lists changed nodes without their contents', () => {
+        const node: GraphNode = createTestNode('a.md')
+        expect(summarizeJournalEntry(entry(4, [upsert(node), { type: 'DeleteNode', nodeId: 'b.md', deletedNode: O.none }])).changes)
+            .toEqual([{ nodeId: 'a.md', kind: 'created' }, { nodeId: 'b.md', kind: 'deleted' }])
+    })
+})
+
+describe('buildRangeRevert', () => {
+    const a1: GraphNode = createTestNode('a.md', 'a1')
+    const a2: GraphNode = createTestNode('a.md', 'a2')
+    const a3: GraphNode = createTestNode('a.md', 'a3')
+    const b: GraphNode = createTestNode('b.md', 'b')
+    const c: GraphNode = createTestNode('c.md', 'c')
+
+    // 1: edit a (a1→a2), 2: create b, 3: edit a (a2→a3), 4: delete c
+    const entries: readonly DeltaJournalEntry[] = [
+        entry(1, [upsert(a2, a1)]),
+        entry(2, [upsert(b)]),
+        entry(3, [upsert(a3, a2)]),
+        entry(4, [{ type: 'DeleteNode', nodeId: 'c.md', deletedNode: O.some(c) }]),
+    ]
+    const graph: Graph = createGraph({ 'a.md': a3, 'b.md': b })
+
+    it('restores each touched node to its state before the range', () => {
+        const revert: RangeRevert = buildRangeRevert(entries, 1, 4, graph)
+
+        expect(revert.conflictingNodeIds).toEqual([])
+        expect(revert.delta).toHaveLength(3)
+        expect(revert.delta).toContainEqual(upsert(a1, a3))
+        expect(revert.delta).toContainEqual({ type: 'DeleteNode', nodeId: 'b.md', deletedNode: O.some(b) })
+        expect(revert.delta).toContainEqual(upsert(c))
+    })
+
+    it('reports nodes changed again after the range', () => {
+        const revert: RangeRevert = buildRangeRevert(entries, 2, 1, graph)
+
+        expect(revert.delta).toContainEqual(upsert(a1, a3))
+        expect(revert.conflictingNodeIds).toEqual(['a.md'])
+    })
+})
+
+describe('buildAgentRevert', () => {
+    const ana: AgentSession = { agentName: 'Ana', terminalId: 'Ana', spawnTime: 100_000 }
+    const anaSource: DeltaSource = { type: 'agent', agentName: 'Ana', terminalId: 'Ana' }
+
+    const existing1: GraphNode = createTestNode('existing.md', 'original')
+    const existing2: GraphNode = createTestNode('existing.md', 'edited by Ana')
+    const created: GraphNode = createTestNode('new.md', 'by Ana', { agent_name: 'Ana' })
+    const createdEdited: GraphNode = createTestNode('new.md', 'appended by Ana', { agent_name: 'Ana' })
+    const oldSession: GraphNode = createTestNode('old.md', 'previous Ana', { agent_name: 'Ana' })
+    const other1: GraphNode = createTestNode('other.md', 'other')
+    const other2: GraphNode = createTestNode('other.md', 'edited by Ana')
+    const other3: GraphNode = createTestNode('other.md', 'edited by user')
+
+    const entries: readonly DeltaJournalEntry[] = [
+        // A previous agent with the recycled name, before this session's spawn
+        entry(1, [upsert(oldSession)], anaSource, 50_000),
+        entry(2, [upsert(existing2, existing1)], anaSource, 120_000),
+        entry(3, [upsert(created)], anaSource, 130_000),
+        entry(4, [upsert(createdEdited, created)], { type: 'fs-event', agentName: 'Ana', terminalId: 'Ana' }, 140_000),
+        entry(5, [upsert(other2, other1)], anaSource, 150_000),
+        entry(6, [upsert(other3, other2)], USER_DELTA_SOURCE, 160_000),
+    ]
+    const graph: Graph = createGraph({ 'existing.md': existing2, 'new.md': createdEdited, 'old.md': oldSession, 'other.md': other3 })
+
+    it('reverts nodes the agent created or modified during its session', () => {
+        const revert: RangeRevert = buildAgentRevert(entries, ana, graph)
+
+        expect(revert.delta).toHaveLength(3)
+        expect(revert.delta).toContainEqual(upsert(existing1, existing2))
+        expect(revert.delta).toContainEqual({ type: 'DeleteNode', nodeId: 'new.md', deletedNode: O.some(createdEdited) })
+        expect(revert.delta).toContainEqual(upsert(other1, other3))
+        expect(revert.conflictingNodeIds).toEqual(['other.md'])
+    })
+
+    it('ignores other terminals and earlier sessions', () => {
+        expect(isEntryByAgentSession(entries[0], ana)).toBe(false)
+        expect(isEntryByAgentSession(entry(7, [], { type: 'agent', agentName: 'Ana', terminalId: 'Bob' }, 170_000), ana)).toBe(false)
+        expect(isEntryByAgentSession(entries[3], ana)).toBe(true)
+    })
+
+    it('previews the reverting delta', () => {
+        expect(previewDelta(buildAgentRevert(entries, ana, graph).delta)).toContainEqual(
+            { nodeId: 'existing.md', kind: 'updated', contentBefore: 'edited by Ana', contentAfter: 'original' }
+        )
+    })
+})
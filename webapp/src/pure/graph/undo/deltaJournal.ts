@@ -0,0 +1,345 @@
+import type { DeleteNode, Graph, GraphDelta, GraphNode, NodeIdAndFilePath, UpsertNodeDelta } from '@/pure/graph'
+import * as O from 'fp-ts/lib/Option.js'
+import * as E from 'fp-ts/lib/Either.js'
+import { pipe } from 'fp-ts/lib/function.js'
+
+/**
+ * Journal of every GraphDelta applied to a vault, persisted across sessions.
+ *
+ * Unlike the undo stack (capped at MAX_UNDO_SIZE, memory only), the journal records
+ * who made each change so the timeline can show, preview and revert ranges of history.
+ */
+
+/** Who produced a delta */
+export type DeltaSource =
+    | { readonly type: 'user' }
+    | { readonly type: 'floating-editor' }
+    | { readonly type: 'fs-event'; readonly agentName?: string; readonly terminalId?: string }
+    | { readonly type: 'agent'; readonly agentName: string; readonly terminalId: string }
+    | { readonly type: 'undo' }
+    | { readonly type: 'redo' }
+    | { readonly type: 'revert' }
+
+export interface DeltaJournalEntry {
+    readonly id: number
+    readonly timestamp: number
+    readonly source: DeltaSource
+    readonly delta: GraphDelta
+}
+
+export type JournalNodeChangeKind = 'created' | 'updated' | 'deleted'
+
+export interface JournalNodeChange {
+    readonly nodeId: NodeIdAndFilePath
+    readonly kind: JournalNodeChangeKind
+    readonly contentBefore: string | null
+    readonly contentAfter: string | null
+}
+
+/** Entry without node contents, for listing the timeline over IPC */
+export interface DeltaJournalSummary {
+    readonly id: number
+    readonly timestamp: number
+    readonly source: DeltaSource
+    readonly changes: readonly Omit<JournalNodeChange, 'contentBefore' | 'contentAfter'>[]
+}
+
+export interface RangeRevert {
+    readonly delta: GraphDelta
+    /** Nodes changed again after the range - reverting overwrites those later changes */
+    readonly conflictingNodeIds: readonly NodeIdAndFilePath[]
+}
+
+export const USER_DELTA_SOURCE: DeltaSource = { type: 'user' }
+
+export const MAX_JOURNAL_ENTRIES: number = 1000
+
+// Consecutive editor saves of the same node within this window become one entry
+export const JOURNAL_COALESCE_WINDOW_MS: number = 5000
+
+export function agentDeltaSource(agentName: string, terminalId: string): DeltaSource {
+    return { type: 'agent', agentName, terminalId }
+}
+
+/** The agent terminal that wrote a file */
+export interface FileWriter {
+    readonly agentName: string
+    readonly terminalId: string
+}
+
+/** A live agent terminal and the directory it was spawned in */
+export interface TerminalSpawnDirectory {
+    readonly writer: FileWriter
+    readonly spawnDirectory: string
+}
+
+/**
+ * Attribute a filesystem delta to the agent terminal that wrote one of its files, if known.
+ * Attribution follows the writer, not the node's `agent_name`: agents edit user nodes and
+ * users edit agent nodes.
+ */
+export function deriveFSEventSource(
+    delta: GraphDelta,
+    getFileWriter: (filePath: NodeIdAndFilePath) => FileWriter | undefined
+): DeltaSource {
+    const writer: FileWriter | undefined = delta
+        .map(nodeDelta => getFileWriter(getDeltaNodeId(nodeDelta)))
+        .find((found): found is FileWriter => found !== undefined)
+    return writer ? { type: 'fs-event', agentName: writer.agentName, terminalId: writer.terminalId } : { type: 'fs-event' }
+}
+
+/**
+ * The agent terminal whose own spawn directory (e.g. its worktree) holds a file.
+ * Directories shared with the user (the project root) say nothing about who wrote a file,
+ * and neither does a directory several terminals were spawned in.
+ */
+export function findFileWriterBySpawnDirectory(
+    filePath: string,
+    terminals: readonly TerminalSpawnDirectory[],
+    sharedDirectory: string | null
+): FileWriter | undefined {
+    const trimSlash: (directory: string) => string = directory => directory.replace(/\/+$/, '')
+    const matches: readonly TerminalSpawnDirectory[] = terminals.filter(({ spawnDirectory }) =>
+        (sharedDirectory === null || trimSlash(spawnDirectory) !== trimSlash(sharedDirectory))
+        && filePath.startsWith(`${trimSlash(spawnDirectory)}/`)
+    )
+    return matches.length === 1 ? matches[0].writer : undefined
+}
+
+export function describeDeltaSource(source: DeltaSource): string {
+    switch (source.type) {
+        case 'user':
+            return 'You'
+        case 'floating-editor':
+            return 'Editor'
+        case 'fs-event':
+            return source.agentName ? `${source.agentName} (file)` : 'File system'
+        case 'agent':
+            return source.agentName
+        case 'undo':
+            return 'Undo'
+        case 'redo':
+            return 'Redo'
+        case 'revert':
+            return 'Timeline revert'
+    }
+}
+
+function getDeltaNodeId(nodeDelta: GraphDelta[number]): NodeIdAndFilePath {
+    return nodeDelta.type === 'UpsertNode' ? nodeDelta.nodeToUpsert.absoluteFilePathIsID : nodeDelta.nodeId
+}
+
+function isSameSingleNodeEdit(previous: DeltaJournalEntry, next: DeltaJournalEntry): boolean {
+    return next.source.type === 'floating-editor'
+        && previous.source.type === 'floating-editor'
+        && next.timestamp - previous.timestamp <= JOURNAL_COALESCE_WINDOW_MS
+        && previous.delta.length === 1 && next.delta.length === 1
+        && previous.delta[0].type === 'UpsertNode' && next.delta[0].type === 'UpsertNode'
+        && getDeltaNodeId(previous.delta[0]) === getDeltaNodeId(next.delta[0])
+}
+
+/**
+ * Append an entry, coalescing rapid editor saves of one node and dropping the oldest
+ * entries beyond MAX_JOURNAL_ENTRIES. A coalesced entry takes the newer id and keeps the
+ * older previousNode, so it still reverts to the state before the first save.
+ */
+export function appendJournalEntry(
+    entries: readonly DeltaJournalEntry[],
+    entry: DeltaJournalEntry
+): readonly DeltaJournalEntry[] {
+    const last: DeltaJournalEntry | undefined = entries[entries.length - 1]
+    if (last && isSameSingleNodeEdit(last, entry)) {
+        const first: UpsertNodeDelta = last.delta[0] as UpsertNodeDelta
+        const latest: UpsertNodeDelta = entry.delta[0] as UpsertNodeDelta
+        const merged: DeltaJournalEntry = { ...entry, delta: [{ ...latest, previousNode: first.previousNode }] }
+        return [...entries.slice(0, -1), merged]
+    }
+    return [...entries, entry].slice(-MAX_JOURNAL_ENTRIES)
+}
+
+export function nextJournalEntryId(entries: readonly DeltaJournalEntry[]): number {
+    return (entries[entries.length - 1]?.id ?? 0) + 1
+}
+
+// === SERIALIZATION (one JSON line per entry; Maps are not JSON-representable) ===
+
+interface SerializedMap {
+    readonly dataType: 'Map'
+    readonly entries: readonly (readonly [unknown, unknown])[]
+}
+
+function isSerializedMap(value: unknown): value is SerializedMap {
+    return typeof value === 'object' && value !== null && (value as { readonly dataType?: unknown }).dataType === 'Map'
+}
+
+export function serializeJournalEntry(entry: DeltaJournalEntry): string {
+    return JSON.stringify(entry, (_key: string, value: unknown) =>
+        value instanceof Map ? { dataType: 'Map', entries: [...value] } : value
+    )
+}
+
+/**
+ * Parse journal file contents, skipping malformed lines (e.g. a write cut off by a crash).
+ */
+export function parseJournal(text: string): readonly DeltaJournalEntry[] {
+    return text
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .flatMap((line: string): readonly DeltaJournalEntry[] => pipe(
+            E.tryCatch(
+                () => JSON.parse(line, (_key: string, value: unknown) =>
+                    isSerializedMap(value) ? new Map(value.entries) : value
+                ) as DeltaJournalEntry,
+                (error: unknown) => error
+            ),
+            E.fold(() => [], (entry: DeltaJournalEntry) => [entry])
+        ))
+        .reduce(appendJournalEntry, [])
+}
+
+// === TIMELINE ===
+
+function toNodeChange(nodeDelta: GraphDelta[number]): JournalNodeChange {
+    if (nodeDelta.type === 'DeleteNode') {
+        return {
+            nodeId: nodeDelta.nodeId,
+            kind: 'deleted',
+            contentBefore: O.isSome(nodeDelta.deletedNode) ? nodeDelta.deletedNode.value.contentWithoutYamlOrLinks : null,
+            contentAfter: null,
+        }
+    }
+    return {
+        nodeId: nodeDelta.nodeToUpsert.absoluteFilePathIsID,
+        kind: O.isSome(nodeDelta.previousNode) ? 'updated' : 'created',
+        contentBefore: O.isSome(nodeDelta.previousNode) ? nodeDelta.previousNode.value.contentWithoutYamlOrLinks : null,
+        contentAfter: nodeDelta.nodeToUpsert.contentWithoutYamlOrLinks,
+    }
+}
+
+/** Before/after content of every node a delta changes */
+export function previewDelta(delta: GraphDelta): readonly JournalNodeChange[] {
+    return delta.map(toNodeChange)
+}
+
+export function previewJournalEntry(entry: DeltaJournalEntry): readonly JournalNodeChange[] {
+    return previewDelta(entry.delta)
+}
+
+export function summarizeJournalEntry(entry: DeltaJournalEntry): DeltaJournalSummary {
+    return {
+        id: entry.id,
+        timestamp: entry.timestamp,
+        source: entry.source,
+        changes: entry.delta.map(nodeDelta => ({ nodeId: getDeltaNodeId(nodeDelta), kind: toNodeChange(nodeDelta).kind })),
+    }
+}
+
+/** State of a node before a delta touched it; O.none if the delta created it */
+function getStateBefore(nodeDelta: GraphDelta[number]): O.Option<GraphNode> {
+    return nodeDelta.type === 'UpsertNode' ? nodeDelta.previousNode : nodeDelta.deletedNode
+}
+
+/**
+ * Build the delta that restores every node touched by the selected entries to its state
+ * before the first selected entry that touched it, relative to the current graph.
+ *
+ * Nodes are restored to their net prior state rather than by replaying reverseDelta
+ * entry by entry, so repeated edits of one node collapse into a single change and
+ * previousNode/deletedNode reflect the current graph (keeping the revert undoable).
+ */
+function buildSelectiveRevert(
+    entries: readonly DeltaJournalEntry[],
+    isSelected: (entry: DeltaJournalEntry) => boolean,
+    graph: Graph
+): RangeRevert {
+    const indexedDeltas: readonly (readonly [number, GraphDelta[number]])[] = entries
+        .flatMap((entry, index) => isSelected(entry) ? entry.delta.map(nodeDelta => [index, nodeDelta] as const) : [])
+
+    // First selected occurrence of each node holds its prior state and where it was first touched
+    const firstTouch: ReadonlyMap<NodeIdAndFilePath, { readonly index: number; readonly before: O.Option<GraphNode> }> = indexedDeltas.reduceRight(
+        (acc: ReadonlyMap<NodeIdAndFilePath, { readonly index: number; readonly before: O.Option<GraphNode> }>, [index, nodeDelta]) =>
+            new Map([...acc, [getDeltaNodeId(nodeDelta), { index, before: getStateBefore(nodeDelta) }]]),
+        new Map()
+    )
+
+    const delta: GraphDelta = [...firstTouch].flatMap(([nodeId, { before }]): GraphDelta => {
+        const current: GraphNode | undefined = graph.nodes[nodeId]
+        if (O.isNone(before)) {
+            if (!current) {
+                return []
+            }
+            const deleteAction: DeleteNode = { type: 'DeleteNode', nodeId, deletedNode: O.some(current) }
+            return [deleteAction]
+        }
+        if (current === before.value) {
+            return []
+        }
+        const restoreAction: UpsertNodeDelta = {
+            type: 'UpsertNode',
+            nodeToUpsert: before.value,
+            previousNode: O.fromNullable(current),
+        }
+        return [restoreAction]
+    })
+
+    // A node conflicts if an unselected entry changed it after the selection first did
+    const conflictingNodeIds: readonly NodeIdAndFilePath[] = [...firstTouch]
+        .filter(([nodeId, { index }]) => entries.some((entry, entryIndex) =>
+            entryIndex > index && !isSelected(entry) && entry.delta.some(nodeDelta => getDeltaNodeId(nodeDelta) === nodeId)
+        ))
+        .map(([nodeId]) => nodeId)
+
+    return { delta, conflictingNodeIds }
+}
+
+/**
+ * Build the delta that restores every node touched by entries fromId..toId (inclusive)
+ * to its state before the range. Nodes changed again after the range are reported as conflicts.
+ */
+export function buildRangeRevert(
+    entries: readonly DeltaJournalEntry[],
+    fromId: number,
+    toId: number,
+    graph: Graph
+): RangeRevert {
+    const [lowId, highId] = fromId <= toId ? [fromId, toId] : [toId, fromId]
+    return buildSelectiveRevert(entries, entry => entry.id >= lowId && entry.id <= highId, graph)
+}
+
+/** One agent terminal's session, identifying which journal entries it produced */
+export interface AgentSession {
+    readonly agentName: string
+    readonly terminalId: string
+    /** Agent names are recycled, so only entries from this session's spawn onwards count */
+    readonly spawnTime: number
+}
+
+/**
+ * Whether an entry was produced during an agent's session: either through its MCP tools,
+ * or as an external file write attributed to its terminal.
+ */
+export function isEntryByAgentSession(entry: DeltaJournalEntry, session: AgentSession): boolean {
+    if (entry.timestamp < session.spawnTime) {
+        return false
+    }
+    switch (entry.source.type) {
+        case 'agent':
+        case 'fs-event':
+            return entry.source.terminalId === session.terminalId
+        default:
+            return false
+    }
+}
+
+/**
+ * Build the single delta that undoes everything an agent created or modified during its
+ * session, including edits to nodes that existed before it started. Nodes changed by
+ * anyone else after the agent touched them are reported as conflicts.
+ */
+export function buildAgentRevert(
+    entries: readonly DeltaJournalEntry[],
+    session: AgentSession,
+    graph: Graph
+): RangeRevert {
+    return buildSelectiveRevert(entries, entry => isEntryByAgentSession(entry, session), graph)
+}
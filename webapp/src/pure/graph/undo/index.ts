@@ -7,3 +7,31 @@ export {
     MAX_UNDO_SIZE,
     type UndoState
 } from './undoStack'
+export {
+    agentDeltaSource,
+    appendJournalEntry,
+    buildAgentRevert,
+    buildRangeRevert,
+    deriveFSEventSource,
+    describeDeltaSource,
+    findFileWriterBySpawnDirectory,
+    isEntryByAgentSession,
+    nextJournalEntryId,
+    parseJournal,
+    previewDelta,
+    previewJournalEntry,
+    serializeJournalEntry,
+    summarizeJournalEntry,
+    USER_DELTA_SOURCE,
+    MAX_JOURNAL_ENTRIES,
+    JOURNAL_COALESCE_WINDOW_MS,
+    type AgentSession,
+    type DeltaSource,
+    type DeltaJournalEntry,
+    type DeltaJournalSummary,
+    type FileWriter,
+    type JournalNodeChange,
+    type JournalNodeChangeKind,
+    type RangeRevert,
+    type TerminalSpawnDirectory
+} from './deltaJournal'
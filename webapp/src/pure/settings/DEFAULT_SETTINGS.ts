@@ -53,6 +53,13 @@ export const DEFAULT_SETTINGS: VTSettings = {
     terminalSpawnPathRelativeToWatchedDirectory: '/',
     contextNodeMaxDistance: 5,
     askModeContextDistance: 3,
+    contextNodeTokenBudget: 16000,
+    contextNodeRetention: {keepPerTask: 3, action: 'archive'},
+    largeVaultThreshold: 300,
+    maxConcurrentScheduledAgents: 3,
+    maxRunningAgents: 10,
+    maxRunningChildrenPerAgent: 5,
+    maxAgentSpawnDepth: 3,
     emptyFolderTemplate: `# {{DATE}}
 
 Highest priority task: `,
@@ -60,6 +67,7 @@ Highest priority task: `,
         {
             name: 'Claude',
             command: `claude "${AGENT_PROMPT_VAR}"`,
+            resumeCommand: 'claude --resume',
         },
         {
             name: 'Gemini',
@@ -68,6 +76,7 @@ Highest priority task: `,
         {
             name: 'Codex',
             command: `codex "${AGENT_PROMPT_VAR}"`,
+            resumeCommand: 'codex resume',
         },
         {
             name: 'Rovodev',
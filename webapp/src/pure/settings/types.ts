@@ -1,6 +1,14 @@
+import type { RelationshipVocabulary } from '@/pure/graph/relationships';
+
 export interface AgentConfig {
     readonly name: string;
     readonly command: string;
+    /** Command that resumes the agent's previous conversation (e.g. `claude --resume`). Used when restoring terminals after a restart. */
+    readonly resumeCommand?: string;
+    /** Token budget for context nodes created for this agent. Overrides VTSettings.contextNodeTokenBudget. */
+    readonly contextTokenBudget?: number;
+    /** Name of the context template (a file in the vault's ctx-templates/ folder) used for this agent's context nodes. */
+    readonly contextTemplate?: string;
 }
 
 export const AGENT_NAMES: readonly string[] = [
@@ -31,6 +39,15 @@ export function getUniqueAgentName(baseName: string, existingNames: Set<string>)
     return getUniqueAgentName(`${baseName}_1`, existingNames);
 }
 
+/**
+ * The configured agent launched with the given command, if any.
+ */
+export function findAgentByCommand(settings: VTSettings, agentCommand: string | undefined): AgentConfig | undefined {
+    return agentCommand !== undefined
+        ? (settings.agents ?? []).find((agent: AgentConfig) => agent.command === agentCommand)
+        : undefined
+}
+
 export type EnvVarValue = string | readonly string[];
 
 // Hotkey configuration types
@@ -60,6 +77,16 @@ export interface HotkeySettings {
     readonly voiceRecording: HotkeyBinding; // Option+R toggle voice recording
 }
 
+/** What happens to context nodes the retention policy doesn't keep. */
+export type ContextNodeRetentionAction = 'archive' | 'delete';
+
+export interface ContextNodeRetentionSettings {
+    /** How many of the newest context nodes to keep for each task node. Nodes attached to a terminal are always kept. */
+    readonly keepPerTask: number;
+    /** Move the other context nodes into a dated archive folder, or delete them. */
+    readonly action: ContextNodeRetentionAction;
+}
+
 export interface VTSettings {
     readonly terminalSpawnPathRelativeToWatchedDirectory: string;
     readonly agents: readonly AgentConfig[];
@@ -69,6 +96,13 @@ export interface VTSettings {
     readonly contextNodeMaxDistance: number;
     /** Maximum traversal distance when creating context nodes in Ask mode (from each relevant node) */
     readonly askModeContextDistance: number;
+    /**
+     * Approximate token budget for a context node's node contents. The most relevant nodes are
+     * included in full; less relevant ones are shortened to a summary line, then to their title.
+     */
+    readonly contextNodeTokenBudget?: number;
+    /** Which context nodes File > Clean Up Context Nodes keeps, and whether it archives or deletes the rest */
+    readonly contextNodeRetention?: ContextNodeRetentionSettings;
     /** Whether user has been prompted about agent permission mode (auto-run vs safe mode) */
     readonly agentPermissionModeChosen?: boolean;
     /** User email for PostHog identification - stored here to persist across app updates */
@@ -88,6 +122,23 @@ export interface VTSettings {
     readonly feedbackDialogShown?: boolean;
     /** Dark mode preference */
     readonly darkMode?: boolean;
+    /**
+     * Soft limit on loaded nodes. Vaults above it are loaded in large-vault mode:
+     * only the most recent files up-front, the rest expanded lazily around focused nodes.
+     */
+    readonly largeVaultThreshold?: number;
+    /**
+     * Maximum number of agents the dependency scheduler runs at once. Task nodes whose
+     * depends_on prerequisites are done wait in the queue while this many are running.
+     */
+    readonly maxConcurrentScheduledAgents?: number;
+    /**
+     * Caps on agents spawned by other agents (spawn_agent). Spawns over the running caps
+     * are queued until an agent exits; spawns deeper than maxAgentSpawnDepth are rejected.
+     */
+    readonly maxRunningAgents?: number;
+    readonly maxRunningChildrenPerAgent?: number;
+    readonly maxAgentSpawnDepth?: number;
 }
 
 /**
@@ -101,6 +152,10 @@ export interface VaultConfig {
     readonly writePath: string;
     /** Additional paths to fully load - all files are visible immediately */
     readonly readPaths: readonly string[];
+    /** Relationship types edge labels are normalized against (default vocabulary if absent) */
+    readonly relationshipVocabulary?: RelationshipVocabulary;
+    /** Task nodes whose scheduled agent has finished, so the scheduler doesn't rerun them */
+    readonly doneScheduledTaskNodeIds?: readonly string[];
 }
 
 /**
@@ -0,0 +1,19 @@
+export type {
+    GitWorktree,
+    WorktreeOwner,
+    WorktreeDiffSummary,
+    ManagedWorktree,
+    WorktreeMergeStrategy,
+} from './types';
+
+export {
+    WORKTREES_DIR_NAME,
+    parseWorktreeList,
+    isManagedWorktree,
+    getWorktreeName,
+    isTerminalInWorktree,
+    findWorktreeOwner,
+    parseDiffShortStat,
+    formatWorktreeDiffSummary,
+    partitionOrphanedWorktrees,
+} from './worktrees';
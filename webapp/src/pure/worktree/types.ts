@@ -0,0 +1,47 @@
+import type { NodeIdAndFilePath } from '@/pure/graph';
+
+/**
+ * One entry of `git worktree list --porcelain`.
+ */
+export type GitWorktree = {
+    readonly path: string;
+    readonly head: string;
+    readonly branch: string | null; // null when detached or bare
+    readonly isBare: boolean;
+    readonly isPrunable: boolean; // directory is gone, `git worktree prune` would remove it
+};
+
+/**
+ * The terminal that created a worktree (or was spawned inside it).
+ */
+export type WorktreeOwner = {
+    readonly terminalId: string;
+    readonly agentName: string;
+    readonly taskNodeId: NodeIdAndFilePath | null;
+};
+
+/**
+ * What a worktree's branch changed relative to the base branch.
+ * Counts include uncommitted changes in the worktree.
+ */
+export type WorktreeDiffSummary = {
+    readonly baseBranch: string;
+    readonly filesChanged: number;
+    readonly insertions: number;
+    readonly deletions: number;
+    readonly commitsAhead: number;
+    readonly hasUncommittedChanges: boolean;
+};
+
+/**
+ * A worktree under .worktrees/ together with its owner and diff, as listed to the UI and MCP.
+ */
+export type ManagedWorktree = {
+    readonly name: string;
+    readonly path: string;
+    readonly branch: string | null;
+    readonly owner: WorktreeOwner | null; // null = orphaned (its terminal is gone)
+    readonly diff: WorktreeDiffSummary | null; // null if git could not compute it
+};
+
+export type WorktreeMergeStrategy = 'merge' | 'rebase';
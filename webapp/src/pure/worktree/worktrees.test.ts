@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import * as O from 'fp-ts/lib/Option.js';
+import {
+    parseWorktreeList,
+    isManagedWorktree,
+    findWorktreeOwner,
+    parseDiffShortStat,
+    formatWorktreeDiffSummary,
+    partitionOrphanedWorktrees,
+} from './worktrees';
+import type { GitWorktree, ManagedWorktree, WorktreeDiffSummary } from './types';
+import type { TerminalData } from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType';
+import type { TerminalId } from '@/shell/edge/UI-edge/floating-windows/types';
+
+function createTerminal(agentName: string, overrides: Partial<TerminalData> = {}): TerminalData {
+    return {
+        type: 'Terminal',
+        terminalId: agentName as TerminalId,
+        attachedToNodeId: `/repo/vault/ctx-nodes/${agentName}.md`,
+        anchoredToNodeId: O.some('/repo/vault/task.md'),
+        terminalCount: 0,
+        title: 'Task',
+        resizable: true,
+        shadowNodeDimensions: { width: 340, height: 380 },
+        isPinned: true,
+        isDone: false,
+        lastOutputTime: 0,
+        activityCount: 0,
+        parentTerminalId: null,
+        agentName,
+        ...overrides,
+    };
+}
+
+const CLEAN_DIFF: WorktreeDiffSummary = {
+    baseBranch: 'main',
+    filesChanged: 0,
+    insertions: 0,
+    deletions: 0,
+    commitsAhead: 0,
+    hasUncommittedChanges: false,
+};
+
+function createManagedWorktree(name: string, owned: boolean, diff: WorktreeDiffSummary | null): ManagedWorktree {
+    return {
+        name,
+        path: `/repo/.worktrees/${name}`,
+        branch: name,
+        owner: owned ? { terminalId: 'Ama', agentName: 'Ama', taskNodeId: null } : null,
+        diff,
+    };
+}
+
+describe('parseWorktreeList', () => {
+    it('parses branches, detached heads and prunable entries', () => {
+        const porcelain: string = [
+            'worktree /repo',
+            'HEAD 1111111',
+            'branch refs/heads/main',
+            '',
+            'worktree /repo/.worktrees/wt-fix-login-ab12',
+            'HEAD 2222222',
+            'branch refs/heads/wt-fix-login-ab12',
+            '',
+            'worktree /repo/.worktrees/wt-gone-cd34',
+            'HEAD 3333333',
+            'detached',
+            'prunable gitdir file points to non-existent location',
+            '',
+        ].join('\n');
+
+        const worktrees: readonly GitWorktree[] = parseWorktreeList(porcelain);
+
+        expect(worktrees).toEqual([
+            { path: '/repo', head: '1111111', branch: 'main', isBare: false, isPrunable: false },
+            { path: '/repo/.worktrees/wt-fix-login-ab12', head: '2222222', branch: 'wt-fix-login-ab12', isBare: false, isPrunable: false },
+            { path: '/repo/.worktrees/wt-gone-cd34', head: '3333333', branch: null, isBare: false, isPrunable: true },
+        ]);
+        expect(worktrees.map(w => isManagedWorktree('/repo', w))).toEqual([false, true, true]);
+    });
+});
+
+describe('findWorktreeOwner', () => {
+    const worktreePath: string = '/repo/.worktrees/wt-fix-login-ab12';
+
+    it('matches the worktree prefix in the agent command', () => {
+        const terminals: readonly TerminalData[] = [
+            createTerminal('Ben', { initialCommand: 'claude' }),
+            createTerminal('Ama', {
+                initialCommand: 'REL=$(git rev-parse --show-prefix) && git worktree add -b "wt-fix-login-ab12" ".worktrees/wt-fix-login-ab12" && cd ".worktrees/wt-fix-login-ab12/$REL" && claude',
+            }),
+        ];
+
+        expect(findWorktreeOwner(worktreePath, terminals)).toEqual({
+            terminalId: 'Ama',
+            agentName: 'Ama',
+            taskNodeId: '/repo/vault/task.md',
+        });
+    });
+
+    it('prefers the parent over subagents spawned inside the worktree', () => {
+        const terminals: readonly TerminalData[] = [
+            createTerminal('Ama', { initialSpawnDirectory: `${worktreePath}/vault` }),
+            createTerminal('Cy', { initialSpawnDirectory: `${worktreePath}/vault`, parentTerminalId: 'Ama' as TerminalId }),
+        ];
+
+        expect(findWorktreeOwner(worktreePath, terminals)?.terminalId).toBe('Ama');
+        expect(findWorktreeOwner('/repo/.worktrees/wt-fix-login-ab1', terminals)).toBeNull();
+    });
+});
+
+describe('parseDiffShortStat / formatWorktreeDiffSummary', () => {
+    it('reads counts and formats a one-line summary', () => {
+        const counts: Pick<WorktreeDiffSummary, 'filesChanged' | 'insertions' | 'deletions'> =
+            parseDiffShortStat(' 1 file changed, 10 insertions(+)\n');
+
+        expect(counts).toEqual({ filesChanged: 1, insertions: 10, deletions: 0 });
+        expect(parseDiffShortStat('')).toEqual({ filesChanged: 0, insertions: 0, deletions: 0 });
+        expect(formatWorktreeDiffSummary({ ...CLEAN_DIFF, ...counts, commitsAhead: 2, hasUncommittedChanges: true }))
+            .toBe('1 file, +10 −0 vs main · 2 commits ahead · uncommitted changes');
+    });
+});
+
+describe('partitionOrphanedWorktrees', () => {
+    it('only collects orphans without unmerged work', () => {
+        const { collectable, withUnmergedWork } = partitionOrphanedWorktrees([
+            createManagedWorktree('owned', true, CLEAN_DIFF),
+            createManagedWorktree('clean', false, CLEAN_DIFF),
+            createManagedWorktree('ahead', false, { ...CLEAN_DIFF, commitsAhead: 1 }),
+            createManagedWorktree('dirty', false, { ...CLEAN_DIFF, hasUncommittedChanges: true }),
+            createManagedWorktree('unknown', false, null),
+        ]);
+
+        expect(collectable.map(w => w.name)).toEqual(['clean']);
+        expect(withUnmergedWork.map(w => w.name)).toEqual(['ahead', 'dirty', 'unknown']);
+    });
+});
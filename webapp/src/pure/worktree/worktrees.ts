@@ -0,0 +1,118 @@
+import * as O from 'fp-ts/lib/Option.js';
+import type { TerminalData } from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType';
+import type { GitWorktree, ManagedWorktree, WorktreeDiffSummary, WorktreeOwner } from './types';
+
+/** Directory (relative to the repo root) that agent worktrees are created in */
+export const WORKTREES_DIR_NAME: string = '.worktrees';
+
+/**
+ * Parse the output of `git worktree list --porcelain`.
+ * Entries are separated by blank lines; the first entry is the main worktree.
+ */
+export function parseWorktreeList(porcelain: string): readonly GitWorktree[] {
+    return porcelain
+        .split(/\n\s*\n/)
+        .map(block => block.split('\n').map(line => line.trim()).filter(line => line !== ''))
+        .filter(lines => lines.length > 0 && lines[0].startsWith('worktree '))
+        .map((lines): GitWorktree => {
+            const valueOf: (key: string) => string | undefined = (key: string): string | undefined =>
+                lines.find(line => line === key || line.startsWith(`${key} `))?.slice(key.length + 1);
+            const branchRef: string | undefined = valueOf('branch');
+            return {
+                path: valueOf('worktree') ?? '',
+                head: valueOf('HEAD') ?? '',
+                branch: branchRef ? branchRef.replace(/^refs\/heads\//, '') : null,
+                isBare: lines.includes('bare'),
+                isPrunable: lines.some(line => line === 'prunable' || line.startsWith('prunable ')),
+            };
+        });
+}
+
+/**
+ * Whether a worktree lives under <repoRoot>/.worktrees/ (i.e. was created for an agent).
+ */
+export function isManagedWorktree(repoRoot: string, worktree: GitWorktree): boolean {
+    const prefix: string = `${repoRoot.replace(/\/+$/, '')}/${WORKTREES_DIR_NAME}/`;
+    return worktree.path.startsWith(prefix);
+}
+
+export function getWorktreeName(worktreePath: string): string {
+    return worktreePath.split('/').filter(segment => segment !== '').pop() ?? worktreePath;
+}
+
+/**
+ * Whether a terminal created or runs inside a worktree: either its spawn directory is
+ * inside the worktree (MCP subagents), or its command carries the worktree prefix from
+ * the agent command popup (`git worktree add ... ".worktrees/<name>" && cd ...`).
+ */
+export function isTerminalInWorktree(terminal: TerminalData, worktreePath: string): boolean {
+    const spawnDirectory: string | undefined = terminal.initialSpawnDirectory;
+    if (spawnDirectory && (spawnDirectory === worktreePath || spawnDirectory.startsWith(`${worktreePath}/`))) {
+        return true;
+    }
+    const marker: string = `${WORKTREES_DIR_NAME}/${getWorktreeName(worktreePath)}`;
+    const command: string = terminal.initialCommand ?? '';
+    return command.includes(`${marker}"`) || command.includes(`${marker}/`);
+}
+
+/**
+ * The terminal owning a worktree. Terminals are passed in spawn order, so a parent
+ * agent owns the worktree over subagents it spawned into it.
+ */
+export function findWorktreeOwner(worktreePath: string, terminals: readonly TerminalData[]): WorktreeOwner | null {
+    const terminal: TerminalData | undefined = terminals.find(t => isTerminalInWorktree(t, worktreePath));
+    if (!terminal) {
+        return null;
+    }
+    return {
+        terminalId: terminal.terminalId,
+        agentName: terminal.agentName,
+        taskNodeId: O.isSome(terminal.anchoredToNodeId) ? terminal.anchoredToNodeId.value : null,
+    };
+}
+
+/**
+ * Parse `git diff --shortstat`, e.g. " 3 files changed, 10 insertions(+), 2 deletions(-)".
+ * Empty output (no changes) yields zeros.
+ */
+export function parseDiffShortStat(shortStat: string): Pick<WorktreeDiffSummary, 'filesChanged' | 'insertions' | 'deletions'> {
+    const countOf: (pattern: RegExp) => number = (pattern: RegExp): number => {
+        const match: RegExpMatchArray | null = shortStat.match(pattern);
+        return match ? Number(match[1]) : 0;
+    };
+    return {
+        filesChanged: countOf(/(\d+) files? changed/),
+        insertions: countOf(/(\d+) insertions?\(\+\)/),
+        deletions: countOf(/(\d+) deletions?\(-\)/),
+    };
+}
+
+/**
+ * One-line summary, e.g. "3 files, +10 −2 vs main · 2 commits ahead · uncommitted changes".
+ */
+export function formatWorktreeDiffSummary(diff: WorktreeDiffSummary): string {
+    const parts: readonly string[] = [
+        `${diff.filesChanged} file${diff.filesChanged === 1 ? '' : 's'}, +${diff.insertions} −${diff.deletions} vs ${diff.baseBranch}`,
+        `${diff.commitsAhead} commit${diff.commitsAhead === 1 ? '' : 's'} ahead`,
+        ...(diff.hasUncommittedChanges ? ['uncommitted changes'] : []),
+    ];
+    return parts.join(' · ');
+}
+
+/**
+ * Orphaned worktrees (no live terminal) that can be removed without losing work:
+ * nothing uncommitted and no commits the base branch doesn't already have.
+ * Orphans with unmerged work are kept for the user to merge or remove explicitly.
+ */
+export function partitionOrphanedWorktrees(worktrees: readonly ManagedWorktree[]): {
+    readonly collectable: readonly ManagedWorktree[];
+    readonly withUnmergedWork: readonly ManagedWorktree[];
+} {
+    const orphans: readonly ManagedWorktree[] = worktrees.filter(w => w.owner === null);
+    const isCollectable: (w: ManagedWorktree) => boolean = (w: ManagedWorktree): boolean =>
+        w.diff !== null && w.diff.commitsAhead === 0 && !w.diff.hasUncommittedChanges;
+    return {
+        collectable: orphans.filter(isCollectable),
+        withUnmergedWork: orphans.filter(w => !isCollectable(w)),
+    };
+}
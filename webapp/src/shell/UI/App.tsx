@@ -2,16 +2,46 @@ import VoiceTreeTranscribe from "@/shell/UI/views/renderers/voicetree-transcribe
 import {useFolderWatcher} from "@/shell/UI/views/hooks/useFolderWatcher";
 import {VoiceTreeGraphView} from "@/shell/UI/views/VoiceTreeGraphView";
 import {AgentStatsPanel} from "@/shell/UI/views/AgentStatsPanel";
+import {HistoryTimelinePanel} from "@/shell/UI/views/HistoryTimelinePanel";
+import {WorktreesPanel} from "@/shell/UI/views/WorktreesPanel";
+import {RelationshipsPanel} from "@/shell/UI/views/RelationshipsPanel";
+import {TagsPanel} from "@/shell/UI/views/TagsPanel";
+import {LinkHealthPanel} from "@/shell/UI/views/LinkHealthPanel";
+import {KanbanPanel} from "@/shell/UI/views/KanbanPanel";
 import {VaultPathSelector} from "@/shell/UI/views/components/VaultPathSelector";
+import {SidePanel} from "@/shell/UI/views/components/SidePanel";
 import {ProjectSelectionScreen} from "@/shell/UI/ProjectSelectionScreen";
 import {useEffect, useRef, useState, useCallback} from "react";
 import type { JSX } from "react/jsx-runtime";
-import type { RefObject } from "react";
+import type { ComponentType, RefObject } from "react";
 import type {} from "@/shell/electron";
 import type { SavedProject } from "@/pure/project/types";
 
 type AppView = 'project-selection' | 'graph-view';
 
+// Each side panel is toggled by a `toggle-${id}-panel` window event
+type SidePanelId = 'stats' | 'history' | 'worktrees' | 'relationships' | 'tags' | 'link-health' | 'kanban';
+
+interface SidePanelDefinition {
+    readonly title: string;
+    readonly testIdPrefix: string;
+    readonly widthClassName?: string;
+    readonly Content: ComponentType;
+}
+
+const SIDE_PANELS: Readonly<Record<SidePanelId, SidePanelDefinition>> = {
+    'stats': { title: 'Agent Statistics', testIdPrefix: 'agent-stats', Content: AgentStatsPanel },
+    'history': { title: 'History', testIdPrefix: 'history', Content: HistoryTimelinePanel },
+    'worktrees': { title: 'Worktrees', testIdPrefix: 'worktrees', Content: WorktreesPanel },
+    'relationships': { title: 'Relationships', testIdPrefix: 'relationships', Content: RelationshipsPanel },
+    'tags': { title: 'Tags', testIdPrefix: 'tags', Content: TagsPanel },
+    'link-health': { title: 'Link Health', testIdPrefix: 'link-health', Content: LinkHealthPanel },
+    // Wide enough for one column per status
+    'kanban': { title: 'Tasks', testIdPrefix: 'kanban', widthClassName: 'w-[64rem] max-w-full', Content: KanbanPanel },
+};
+
+const SIDE_PANEL_IDS: readonly SidePanelId[] = Object.keys(SIDE_PANELS) as SidePanelId[];
+
 function App(): JSX.Element {
     // App navigation state
     const [currentView, setCurrentView] = useState<AppView>('project-selection');
@@ -28,8 +58,8 @@ function App(): JSX.Element {
     // Ref for graph container
     const graphContainerRef: RefObject<HTMLDivElement | null> = useRef<HTMLDivElement>(null);
 
-    // State for agent stats panel visibility
-    const [isStatsPanelOpen, setIsStatsPanelOpen] = useState(false);
+    // Side panel open on the right (one at a time, opening another replaces it)
+    const [openPanel, setOpenPanel] = useState<SidePanelId | null>(null);
 
     // Handle project selection
     const handleProjectSelected: (project: SavedProject) => Promise<void> = useCallback(async (project: SavedProject): Promise<void> => {
@@ -63,16 +93,19 @@ function App(): JSX.Element {
         setCurrentView('project-selection');
     }, [stopWatching]);
 
-    // Listen for stats panel toggle event from SpeedDial menu
+    // Listen for side panel toggle events from SpeedDial menu
     useEffect(() => {
-        const handleToggleStats: () => void = (): void => setIsStatsPanelOpen(prev => !prev);
-        window.addEventListener('toggle-stats-panel', handleToggleStats);
-        return () => window.removeEventListener('toggle-stats-panel', handleToggleStats);
+        const cleanups: readonly (() => void)[] = SIDE_PANEL_IDS.map((panelId: SidePanelId) => {
+            const handleToggle: () => void = (): void => setOpenPanel(prev => prev === panelId ? null : panelId);
+            window.addEventListener(`toggle-${panelId}-panel`, handleToggle);
+            return () => window.removeEventListener(`toggle-${panelId}-panel`, handleToggle);
+        });
+        return () => cleanups.forEach(cleanup => cleanup());
     }, []);
 
     // Listen for stats panel close event (dispatched when clicking on graph canvas)
     useEffect(() => {
-        const handleCloseStats: () => void = (): void => setIsStatsPanelOpen(false);
+        const handleCloseStats: () => void = (): void => setOpenPanel(prev => prev === 'stats' ? null : prev);
         window.addEventListener('close-stats-panel', handleCloseStats);
         return () => window.removeEventListener('close-stats-panel', handleCloseStats);
     }, []);
@@ -170,6 +203,8 @@ function App(): JSX.Element {
         return <ProjectSelectionScreen onProjectSelected={(project) => void handleProjectSelected(project)} />;
     }
 
+    const openPanelDefinition: SidePanelDefinition | null = openPanel !== null ? SIDE_PANELS[openPanel] : null;
+
     // Render graph view
     return (
         <div className="h-screen flex flex-col overflow-hidden bg-background">
@@ -193,25 +228,17 @@ function App(): JSX.Element {
                 </div>
             </div>
 
-            {/* Agent Stats Panel - slide out from right */}
-            {isStatsPanelOpen && (
-                <div
-                    data-testid="agent-stats-panel-container"
-                    className="fixed right-0 top-0 bottom-0 w-96 bg-card border-l border-border shadow-lg z-[1200] overflow-y-auto"
+            {/* Side panel - slide out from right */}
+            {openPanelDefinition && (
+                <SidePanel
+                    key={openPanel}
+                    title={openPanelDefinition.title}
+                    testIdPrefix={openPanelDefinition.testIdPrefix}
+                    widthClassName={openPanelDefinition.widthClassName}
+                    onClose={() => setOpenPanel(null)}
                 >
-                    <div className="sticky top-0 bg-card border-b border-border p-2 flex items-center justify-between">
-                        <h2 className="font-mono text-sm font-semibold text-foreground">Agent Statistics</h2>
-                        <button
-                            data-testid="agent-stats-close-button"
-                            onClick={() => setIsStatsPanelOpen(false)}
-                            className="text-muted-foreground px-2 py-1 rounded bg-muted hover:bg-accent transition-colors font-mono text-xs"
-                            title="Close panel"
-                        >
-                            ✕
-                        </button>
-                    </div>
-                    <AgentStatsPanel/>
-                </div>
+                    <openPanelDefinition.Content/>
+                </SidePanel>
             )}
         </div>
     );
@@ -13,4 +13,13 @@ export const CONTEXT_CONTAINED_CLASS: "context-contained" = 'context-contained'
 export const CONTEXT_EDGE_CLASS: "context-edge" = 'context-edge' as const;
 
 // CSS class name for active terminal highlighting
-export const TERMINAL_ACTIVE_CLASS: "terminal-active" = 'terminal-active' as const;
\ No newline at end of file
+export const TERMINAL_ACTIVE_CLASS: "terminal-active" = 'terminal-active' as const;
+// CSS class names for the schedule state of task nodes with dependencies
+export const TASK_BLOCKED_CLASS: "task-blocked" = 'task-blocked' as const;
+export const TASK_QUEUED_CLASS: "task-queued" = 'task-queued' as const;
+export const TASK_RUNNING_CLASS: "task-running" = 'task-running' as const;
+export const TASK_DONE_CLASS: "task-done" = 'task-done' as const;
+// CSS class name for edges whose relationship type is hidden by the relationship filter
+export const RELATIONSHIP_HIDDEN_CLASS: "relationship-hidden" = 'relationship-hidden' as const;
+// CSS class name for nodes dimmed by the tag filter
+export const TAG_FILTERED_CLASS: "filtered" = 'filtered' as const;
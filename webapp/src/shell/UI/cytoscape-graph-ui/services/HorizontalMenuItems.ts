@@ -5,9 +5,12 @@
 
 import type { Core } from 'cytoscape';
 import type { IconNode } from 'lucide';
-import { Plus, Play, Trash2, Clipboard, ChevronDown, Edit2, createElement } from 'lucide';
+import { Plus, Play, Trash2, Clipboard, ChevronDown, Edit2, Split, FolderInput, RefreshCw, createElement } from 'lucide';
 import type { GraphNode } from "@/pure/graph";
 import { createNewChildNodeFromUI, deleteNodesFromUI } from "@/shell/edge/UI-edge/graph/handleUIActions";
+import { splitNodeFromUI } from "@/shell/edge/UI-edge/graph/splitNodeFromUI";
+import { moveNodesFromUI } from "@/shell/edge/UI-edge/graph/moveNodesFromUI";
+import { refreshContextNodeFromUI } from "@/shell/edge/UI-edge/graph/refreshContextNodeFromUI";
 import {
     spawnTerminalWithNewContextNode,
     spawnTerminalWithCommandEditor,
@@ -302,7 +305,7 @@ export function getNodeMenuItems(input: NodeMenuItemsInput): HorizontalMenuItem[
         ],
     });
 
-    // Expandable "more" menu with Copy Content and additional agents
+    // Expandable "more" menu with Copy Content, Split (or Refresh Context), Move and additional agents
     const moreSubMenu: HorizontalMenuItem[] = [
         {
             icon: Clipboard,
@@ -312,6 +315,21 @@ export function getNodeMenuItems(input: NodeMenuItemsInput): HorizontalMenuItem[
                 void navigator.clipboard.writeText(graphNode.contentWithoutYamlOrLinks);
             },
         },
+        // Context nodes are generated snapshots: refresh them instead of splitting
+        ...(isContextNode ? [{
+            icon: RefreshCw,
+            label: 'Refresh Context',
+            action: () => { void refreshContextNodeFromUI(nodeId); },
+        }] : [{
+            icon: Split,
+            label: 'Split by Headings',
+            action: () => { void splitNodeFromUI(nodeId); },
+        }]),
+        {
+            icon: FolderInput,
+            label: 'Move to Folder',
+            action: () => { void moveNodesFromUI([nodeId]); },
+        },
     ];
 
     // Add non-default agents (skip first which is default, used by Run button)
@@ -177,6 +177,40 @@ export class StyleService {
         }
       },
 
+      // Schedule state of task nodes with dependencies (agent scheduler)
+      {
+        selector: 'node.task-blocked',
+        style: {
+          'border-style': 'dashed',
+          'border-width': 2,
+          'border-color': '#9ca3af',
+        }
+      },
+      {
+        selector: 'node.task-queued',
+        style: {
+          'border-style': 'dashed',
+          'border-width': 2,
+          'border-color': '#f59e0b',
+        }
+      },
+      {
+        selector: 'node.task-running',
+        style: {
+          'border-style': 'solid',
+          'border-width': 3,
+          'border-color': '#f59e0b',
+        }
+      },
+      {
+        selector: 'node.task-done',
+        style: {
+          'border-style': 'solid',
+          'border-width': 2,
+          'border-color': '#22c55e',
+        }
+      },
+
       // Dangling nodes
       {
         selector: '.dangling',
@@ -224,6 +258,28 @@ export class StyleService {
         }
       },
 
+      // Relationship types - color and line style from the project's vocabulary
+      {
+        selector: 'edge[relationshipColor]',
+        style: {
+          'line-color': 'data(relationshipColor)',
+          'target-arrow-color': 'data(relationshipColor)',
+          'line-opacity': 0.8,
+        }
+      },
+      {
+        selector: 'edge[relationshipLineStyle]',
+        style: {
+          'line-style': 'data(relationshipLineStyle)' as cytoscape.Css.LineStyle,
+        }
+      },
+      {
+        selector: 'edge.relationship-hidden',
+        style: {
+          'display': 'none',
+        }
+      },
+
       // Connected hover states
       {
         selector: 'edge.connected-hover',
@@ -244,11 +300,12 @@ export class StyleService {
         }
       },
 
-      // Filtered nodes
+      // Filtered nodes (tag filter) stay in place but fade out
       {
         selector: 'node.filtered',
         style: {
-          'display': 'none',
+          'opacity': 0.15,
+          'events': 'no',
         }
       },
 
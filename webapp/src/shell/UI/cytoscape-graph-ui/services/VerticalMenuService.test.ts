@@ -65,7 +65,7 @@ describe('VerticalMenuService', () => {
   });
 
   describe('canvas context menu', () => {
-    it('should show context menu with 5 items when right-clicking on canvas', () => {
+    it('should show context menu with 7 items when right-clicking on canvas', () => {
       service = new VerticalMenuService();
       service.initialize(cy, mockDeps);
       /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
@@ -73,7 +73,7 @@ describe('VerticalMenuService', () => {
 
       expect(mockCtxmenuShow).toHaveBeenCalledTimes(1);
       const menuItems: MenuItem[] = mockCtxmenuShow.mock.calls[0]?.[0] as MenuItem[];
-      expect(menuItems).toHaveLength(5);
+      expect(menuItems).toHaveLength(7);
     });
 
     it('should have Delete disabled when no nodes selected, enabled when nodes selected', () => {
@@ -162,6 +162,34 @@ describe('VerticalMenuService', () => {
       expect(runAgentItem3 && 'disabled' in runAgentItem3 && runAgentItem3.disabled).toBeFalsy();
       expect(runAgentItem3 && 'text' in runAgentItem3 && runAgentItem3.text).toContain('Run Agent on Selected (2)');
     });
+
+    it('should have Move Selected to Folder after Run Agent, enabled only when nodes are selected, then Move Folder', () => {
+      service = new VerticalMenuService();
+      service.initialize(cy, mockDeps);
+
+      // No selection - Move should be disabled
+      /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
+      cy.emit('cxttap', { target: cy, position: { x: 300, y: 300 }, renderedPosition: { x: 300, y: 300 } } as any);
+      let menuItems: MenuItem[] = mockCtxmenuShow.mock.calls[0]?.[0] as MenuItem[];
+      const moveItem1: MenuItem | undefined = menuItems[4];
+      expect(moveItem1 && 'disabled' in moveItem1 && moveItem1.disabled).toBe(true);
+      expect(moveItem1 && 'text' in moveItem1 && moveItem1.text).toContain('Move to Folder (0 nodes selected)');
+
+      // With selection - Move should be enabled with count in text
+      mockCtxmenuShow.mockClear();
+      cy.getElementById('node1').select();
+      /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
+      cy.emit('cxttap', { target: cy, position: { x: 300, y: 300 }, renderedPosition: { x: 300, y: 300 } } as any);
+      menuItems = mockCtxmenuShow.mock.calls[0]?.[0] as MenuItem[];
+      const moveItem2: MenuItem | undefined = menuItems[4];
+      expect(moveItem2 && 'disabled' in moveItem2 && moveItem2.disabled).toBeFalsy();
+      expect(moveItem2 && 'text' in moveItem2 && moveItem2.text).toContain('Move Selected to Folder (1)');
+
+      // Move Folder doesn't depend on the selection
+      const moveFolderItem: MenuItem | undefined = menuItems[5];
+      expect(moveFolderItem && 'text' in moveFolderItem && moveFolderItem.text).toBe('Move Folder…');
+      expect(moveFolderItem && 'disabled' in moveFolderItem && moveFolderItem.disabled).toBeFalsy();
+    });
   });
 
 });
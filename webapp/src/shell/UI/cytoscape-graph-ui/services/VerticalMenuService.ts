@@ -1,6 +1,7 @@
 import type {Core, Position as CyPosition} from 'cytoscape';
 import ctxmenu from '@/shell/UI/lib/ctxmenu.js';
 import {mergeSelectedNodesFromUI} from "@/shell/edge/UI-edge/graph/mergeSelectedNodesFromUI";
+import {moveFolderFromUI, moveNodesFromUI} from "@/shell/edge/UI-edge/graph/moveNodesFromUI";
 import {deleteSelectedNodesAction} from "@/shell/UI/cytoscape-graph-ui/actions/graphActions";
 import {getNextTerminalCount, getTerminals} from "@/shell/edge/UI-edge/state/TerminalStore";
 import type {TerminalId} from "@/shell/edge/UI-edge/floating-windows/types";
@@ -173,6 +174,25 @@ export class VerticalMenuService {
             },
         });
 
+        // Move selected nodes to a folder - always show but disable when no nodes selected
+        menuItems.push({
+            text: noNodesSelected ? 'Move to Folder (0 nodes selected)' : `Move Selected to Folder (${selectedCount})`,
+            disabled: noNodesSelected,
+            action: async () => {
+                if (noNodesSelected) return;
+                const selectedNodeIds: string[] = this.cy!.$(':selected').nodes().map(n => n.id());
+                await moveNodesFromUI(selectedNodeIds);
+            },
+        });
+
+        // Move a whole folder (links rewritten, one undo step)
+        menuItems.push({
+            text: 'Move Folder…',
+            action: async () => {
+                await moveFolderFromUI();
+            },
+        });
+
         // Terminal icon SVG (Lucide Terminal icon)
         const terminalIcon: string = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" style="flex-shrink: 0;"><polyline points="4 17 10 11 4 5"></polyline><line x1="12" y1="19" x2="20" y2="19"></line></svg>';
         menuItems.push({
@@ -20,6 +20,9 @@ import { languages } from '@codemirror/language-data';
 import { oneDark } from '@codemirror/theme-one-dark';
 import tagParser from 'codemirror-rich-markdoc/src/tagParser';
 import ctxmenu from '@/shell/UI/lib/ctxmenu.js';
+import type { RelationshipType } from '@/pure/graph/relationships';
+import { getRelationshipVocabulary } from '@/shell/edge/UI-edge/state/RelationshipVocabularyStore';
+import { findWikilinkAnchorOffset } from '@/pure/graph/markdown-parsing/wikilink-anchor';
 
 // Combined highlight style: code syntax colors from defaultHighlightStyle + custom heading styles (no underlines)
 // We can't use defaultHighlightStyle directly because it has heading underlines we don't want
@@ -381,7 +384,8 @@ export class CodeMirrorEditorView extends Disposable {
 
   /**
    * Setup context menu handler for right-click actions in the editor.
-   * Shows a menu with "Add Link" option to insert wikilink and trigger autocomplete.
+   * Shows a menu with "Add Link" option to insert wikilink and trigger autocomplete,
+   * and "Add Typed Link" to pick a relationship type from the project's vocabulary first.
    */
   private setupContextMenuHandler(): Extension {
     return EditorView.domEventHandlers({
@@ -393,13 +397,25 @@ export class CodeMirrorEditorView extends Disposable {
 
         event.preventDefault();
 
-        const menuItems: Array<{ text?: string; html?: string; action?: () => void }> = [
+        const relationshipItems: Array<{ text: string; action: () => void }> = getRelationshipVocabulary()
+          .map((type: RelationshipType) => ({
+            text: type.name,
+            action: () => {
+              this.insertWikilinkAndTriggerCompletion(view, type.name);
+            },
+          }));
+
+        const menuItems: Array<{ text?: string; html?: string; action?: () => void; subMenu?: Array<{ text: string; action: () => void }> }> = [
           {
             html: '<span style="display: flex; align-items: center; gap: 8px; white-space: nowrap;">🔗 Add Link</span>',
             action: () => {
               this.insertWikilinkAndTriggerCompletion(view);
             },
           },
+          ...(relationshipItems.length > 0 ? [{
+            html: '<span style="display: flex; align-items: center; gap: 8px; white-space: nowrap;">🏷️ Add Typed Link</span>',
+            subMenu: relationshipItems,
+          }] : []),
         ];
 
         ctxmenu.show(menuItems, event);
@@ -411,14 +427,22 @@ export class CodeMirrorEditorView extends Disposable {
   /**
    * Insert wikilink brackets at cursor and trigger autocomplete.
    * Inserts [[]], positions cursor between brackets, and opens node picker.
+   * With a relationship label, inserts a `- label [[]]` list item instead, on a new line
+   * unless the cursor is at the start of one (the label is the text before the link).
    */
-  private insertWikilinkAndTriggerCompletion(view: EditorView): void {
+  private insertWikilinkAndTriggerCompletion(view: EditorView, relationshipLabel?: string): void {
     const cursor: number = view.state.selection.main.head;
+    const textBeforeCursor: string = view.state.sliceDoc(view.state.doc.lineAt(cursor).from, cursor);
+    const atListItemStart: boolean = /^\s*[-*+]\s*$/.test(textBeforeCursor);
+    const listMarker: string = atListItemStart ? (/\s$/.test(textBeforeCursor) ? '' : ' ') : '- ';
+    const lineBreak: string = textBeforeCursor.trim() !== '' && !atListItemStart ? '\n' : '';
+    const linkPrefix: string = relationshipLabel === undefined ? '' : `${lineBreak}${listMarker}${relationshipLabel} `;
+    const insert: string = `${linkPrefix}[[]]`;
 
     // Insert [[]] and position cursor between the brackets
     view.dispatch({
-      changes: { from: cursor, insert: '[[]]' },
-      selection: { anchor: cursor + 2 }, // Position cursor after [[
+      changes: { from: cursor, insert },
+      selection: { anchor: cursor + insert.length - 2 }, // Position cursor after [[
       userEvent: 'input'
     });
 
@@ -504,6 +528,23 @@ export class CodeMirrorEditorView extends Disposable {
     this.view.focus();
   }
 
+  /**
+   * Move the cursor to the heading or block a wikilink anchor points to and scroll it to the top
+   * @param anchor - Wikilink anchor, e.g. "#Section" or "^block-id"
+   * @returns false if the anchor is not in the document
+   */
+  scrollToAnchor(anchor: string): boolean {
+    const offset: number | undefined = findWikilinkAnchorOffset(this.getValue(), anchor);
+    if (offset === undefined) {
+      return false;
+    }
+    this.view.dispatch({
+      selection: { anchor: offset },
+      effects: EditorView.scrollIntoView(offset, { y: 'start' })
+    });
+    return true;
+  }
+
   /**
    * Register a callback for content changes
    * @param callback - Function called with new content when editor changes
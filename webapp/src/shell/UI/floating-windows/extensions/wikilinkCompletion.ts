@@ -4,7 +4,7 @@
  * Provides autocomplete suggestions when typing wikilinks ([[...]])
  * - Triggers on [[ or when cursor is inside [[...]]
  * - Shows nodes ordered by recency (recently visited first)
- * - Filters as user types
+ * - Filters as user types, matching titles, paths and frontmatter aliases
  * - Inserts relative path (from watched folder) on selection
  */
 
@@ -33,6 +33,7 @@ interface NodeCompletionData {
     id: string;
     title: string;
     firstLine: string;
+    aliases: readonly string[];
 }
 
 /**
@@ -56,6 +57,7 @@ function getOrderedNodes(): NodeCompletionData[] {
         const id: string = node.id();
         const label: string = (node.data('label') as string) ?? id;
         const content: string = (node.data('content') as string) ?? '';
+        const aliases: readonly string[] = (node.data('aliases') as readonly string[] | undefined) ?? [];
 
         // Extract first line of content for description
         const firstLine: string = content.split('\n')[0].trim();
@@ -64,6 +66,7 @@ function getOrderedNodes(): NodeCompletionData[] {
             id,
             title: label,
             firstLine: firstLine.length > 100 ? firstLine.substring(0, 100) + '...' : firstLine,
+            aliases,
         });
     });
 
@@ -145,12 +148,15 @@ async function wikilinkCompletionSource(context: CompletionContext): Promise<Com
     // Get all nodes ordered by recency
     const allNodes: NodeCompletionData[] = getOrderedNodes();
 
-    // Filter by search text (match against title or id)
+    // Filter by search text (match against title, id or an alias)
+    const findMatchingAlias: (node: NodeCompletionData) => string | undefined = (node: NodeCompletionData): string | undefined =>
+        searchText ? node.aliases.find((alias: string) => alias.toLowerCase().includes(lowerSearch)) : undefined;
     const filteredNodes: NodeCompletionData[] = searchText
         ? allNodes.filter(
               (node: NodeCompletionData) =>
                   node.title.toLowerCase().includes(lowerSearch) ||
-                  node.id.toLowerCase().includes(lowerSearch)
+                  node.id.toLowerCase().includes(lowerSearch) ||
+                  findMatchingAlias(node) !== undefined
           )
         : allNodes;
 
@@ -159,13 +165,20 @@ async function wikilinkCompletionSource(context: CompletionContext): Promise<Com
 
     // Convert to CodeMirror completion format
     // Insert relative path (from project root) instead of absolute path
-    const options: Completion[] = filteredNodes.map((node: NodeCompletionData) => ({
-        label: node.title,
-        detail: node.firstLine !== node.title ? node.firstLine : undefined,
-        apply: toRelativePath(projectRoot, node.id), // Insert relative path for wikilink
-        type: 'text',
-        boost: 0, // Maintain our custom order
-    }));
+    // Nodes found only by an alias are labelled (and so filtered by CodeMirror) by that alias
+    const options: Completion[] = filteredNodes.map((node: NodeCompletionData): Completion => {
+        const matchedAlias: string | undefined = node.title.toLowerCase().includes(lowerSearch) ? undefined : findMatchingAlias(node);
+        return {
+            label: matchedAlias ?? node.title,
+            displayLabel: node.title,
+            detail: matchedAlias !== undefined
+                ? `alias: ${matchedAlias}`
+                : node.firstLine !== node.title ? node.firstLine : undefined,
+            apply: toRelativePath(projectRoot, node.id), // Insert relative path for wikilink
+            type: 'text',
+            boost: 0, // Maintain our custom order
+        };
+    });
 
     return {
         from,
@@ -20,6 +20,7 @@ import {
 import { RangeSet, type Range, type Line } from '@codemirror/state';
 import type { Core, NodeSingular } from 'cytoscape';
 import { linkMatchScore, getPathComponents } from '@/pure/graph/markdown-parsing/extract-edges';
+import { getAnchorDisplayText, splitWikilinkAnchor, type WikilinkParts } from '@/pure/graph/markdown-parsing/wikilink-anchor';
 
 // Regex to match wikilinks: [[nodeId]]
 const WIKILINK_REGEX: RegExp = /\[\[([^\]]+)\]\]/g;
@@ -43,6 +44,7 @@ interface WikilinkNodeMatch {
  * Find node matching the wikilink text using fuzzy suffix matching.
  * Uses linkMatchScore for path resolution (same logic as edge resolution).
  * Returns title and resolved ID for navigation.
+ * Expects link text without a heading/block anchor.
  */
 function findNodeForWikilink(linkText: string): WikilinkNodeMatch | null {
     const cy: Core | undefined = getCytoscapeInstance();
@@ -103,7 +105,7 @@ function buildViewportDecorations(view: EditorView): DecorationSet {
             WIKILINK_REGEX.lastIndex = 0; // Reset regex state
 
             while ((match = WIKILINK_REGEX.exec(lineText)) !== null) {
-                const linkText: string = match[1];
+                const { path: linkText, anchor }: WikilinkParts = splitWikilinkAnchor(match[1]);
                 const wikilinkStart: number = line.from + match.index;
                 const wikilinkEnd: number = wikilinkStart + match[0].length;
 
@@ -126,8 +128,9 @@ function buildViewportDecorations(view: EditorView): DecorationSet {
                 const decoration: Decoration = Decoration.mark({
                     class: cursorInside ? 'cm-wikilink-title cm-wikilink-editing' : 'cm-wikilink-title',
                     attributes: {
-                        'data-title': nodeMatch.title,
+                        'data-title': anchor ? `${nodeMatch.title} › ${getAnchorDisplayText(anchor)}` : nodeMatch.title,
                         'data-node-id': nodeMatch.resolvedId,
+                        ...(anchor ? { 'data-anchor': anchor } : {}),
                     },
                 });
 
@@ -163,6 +166,7 @@ class WikilinkTitlePlugin {
 /**
  * Click handler for wikilink navigation.
  * Uses event delegation - listens on editor, checks if target is a wikilink.
+ * Links with a heading/block anchor also open the target's editor at that anchor.
  */
 const wikilinkClickHandler = EditorView.domEventHandlers({
     mousedown(event: MouseEvent, view: EditorView): boolean {
@@ -183,8 +187,9 @@ const wikilinkClickHandler = EditorView.domEventHandlers({
         event.preventDefault();
         event.stopPropagation();
 
+        const anchor: string | undefined = target.dataset.anchor;
         window.dispatchEvent(new CustomEvent('voicetree-navigate', {
-            detail: { nodeId }
+            detail: anchor ? { nodeId, anchor } : { nodeId }
         }));
 
         return true;
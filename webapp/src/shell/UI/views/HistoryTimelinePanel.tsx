@@ -0,0 +1,199 @@
+import type { JSX } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { cn } from '@/utils/lib/utils';
+import { describeDeltaSource, type DeltaJournalSummary, type JournalNodeChange } from '@/pure/graph/undo';
+import type {} from '@/shell/electron';
+
+// Deltas arrive in bursts (agent writes, bulk loads); refetch once they settle
+const REFRESH_DEBOUNCE_MS: number = 500;
+const PREVIEW_MAX_CHARS: number = 600;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function baseName(nodeId: string): string {
+  return nodeId.split(/[\\/]/).pop() ?? nodeId;
+}
+
+function describeChanges(entry: DeltaJournalSummary): string {
+  const first: string = entry.changes[0] ? `${entry.changes[0].kind} ${baseName(entry.changes[0].nodeId)}` : 'no changes';
+  return entry.changes.length > 1 ? `${first} +${entry.changes.length - 1} more` : first;
+}
+
+function truncate(content: string): string {
+  return content.length > PREVIEW_MAX_CHARS ? `${content.slice(0, PREVIEW_MAX_CHARS)}…` : content;
+}
+
+/**
+ * Timeline of the project's delta journal.
+ *
+ * Scrub with the slider (or click an entry) to preview what it changed; shift-click a
+ * second entry to select a range, then revert that range in one step.
+ */
+export function HistoryTimelinePanel(): JSX.Element {
+  const [entries, setEntries] = useState<readonly DeltaJournalSummary[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [anchorIndex, setAnchorIndex] = useState<number | null>(null);
+  const [preview, setPreview] = useState<readonly JournalNodeChange[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const fetchTimeline: () => Promise<void> = useCallback(async (): Promise<void> => {
+    const timeline: readonly DeltaJournalSummary[] | undefined = await window.electronAPI?.main.getDeltaJournalTimeline();
+    setEntries(timeline ?? []);
+  }, []);
+
+  // Every journaled delta is also broadcast to the UI as a graph update
+  useEffect(() => {
+    void fetchTimeline();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe: (() => void) | undefined = window.electronAPI?.graph.onGraphUpdate(() => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => void fetchTimeline(), REFRESH_DEBOUNCE_MS);
+    });
+    return () => {
+      clearTimeout(timeoutId);
+      unsubscribe?.();
+    };
+  }, [fetchTimeline]);
+
+  const selectedEntry: DeltaJournalSummary | undefined = selectedIndex !== null ? entries[selectedIndex] : undefined;
+
+  const selectedEntryId: number | undefined = selectedEntry?.id;
+
+  useEffect(() => {
+    if (selectedEntryId === undefined) {
+      setPreview([]);
+      return;
+    }
+    void window.electronAPI?.main.previewDeltaJournalEntry(selectedEntryId)
+      .then((changes: readonly JournalNodeChange[]) => setPreview(changes));
+  }, [selectedEntryId]);
+
+  // Selected range as inclusive indices into entries (oldest first)
+  const range: { readonly low: number; readonly high: number } | null = useMemo(() => {
+    if (selectedIndex === null) return null;
+    const anchor: number = anchorIndex ?? selectedIndex;
+    return { low: Math.min(anchor, selectedIndex), high: Math.max(anchor, selectedIndex) };
+  }, [anchorIndex, selectedIndex]);
+
+  const selectEntry: (index: number, extendRange: boolean) => void = (index: number, extendRange: boolean): void => {
+    if (!extendRange) {
+      setAnchorIndex(index);
+    }
+    setSelectedIndex(index);
+    setStatus(null);
+  };
+
+  const revertRange: () => Promise<void> = async (): Promise<void> => {
+    if (!range) return;
+    const fromEntry: DeltaJournalSummary = entries[range.low];
+    const toEntry: DeltaJournalSummary = entries[range.high];
+
+    // Warn before overwriting nodes that were changed again after the range
+    const rangeNodeIds: ReadonlySet<string> = new Set(
+      entries.slice(range.low, range.high + 1).flatMap(e => e.changes.map(c => c.nodeId))
+    );
+    const laterNodeIds: readonly string[] = [...new Set(
+      entries.slice(range.high + 1).flatMap(e => e.changes.map(c => c.nodeId))
+    )].filter(nodeId => rangeNodeIds.has(nodeId));
+    if (laterNodeIds.length > 0 && !window.confirm(
+      `${laterNodeIds.length} node(s) were changed again later and will lose those changes:\n${laterNodeIds.map(baseName).join('\n')}\n\nRevert anyway?`
+    )) {
+      return;
+    }
+
+    const result: { readonly revertedNodeCount: number } | undefined =
+      await window.electronAPI?.main.revertDeltaJournalRange(fromEntry.id, toEntry.id);
+    setStatus(result ? `Reverted ${result.revertedNodeCount} node(s)` : 'Revert failed');
+    setAnchorIndex(null);
+    setSelectedIndex(null);
+    await fetchTimeline();
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div data-testid="history-timeline-panel" className="p-3 font-mono text-xs text-muted-foreground">
+        No history yet for this project.
+      </div>
+    );
+  }
+
+  return (
+    <div data-testid="history-timeline-panel" className="flex flex-col gap-3 p-3 bg-background text-foreground font-mono text-xs">
+      {/* Scrubber */}
+      <div className="flex flex-col gap-1">
+        <input
+          type="range"
+          min={0}
+          max={entries.length - 1}
+          value={selectedIndex ?? entries.length - 1}
+          onChange={(e) => selectEntry(Number(e.target.value), false)}
+          aria-label="Scrub history"
+        />
+        <div className="flex justify-between text-[10px] text-gray-500">
+          <span>{formatTime(entries[0].timestamp)}</span>
+          <span>{formatTime(entries[entries.length - 1].timestamp)}</span>
+        </div>
+      </div>
+
+      {/* Range actions */}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-500">
+          {range ? `${range.high - range.low + 1} entr${range.high === range.low ? 'y' : 'ies'} selected` : 'Select an entry (shift-click for a range)'}
+        </span>
+        <button
+          data-testid="history-revert-button"
+          disabled={!range}
+          onClick={() => void revertRange()}
+          className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors disabled:opacity-50"
+        >
+          Revert
+        </button>
+      </div>
+      {status && <div className="text-gray-500">{status}</div>}
+
+      {/* Entries, newest first */}
+      <ul className="flex flex-col gap-0.5 max-h-72 overflow-y-auto">
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <li key={entry.id}>
+            <button
+              onClick={(e) => selectEntry(index, e.shiftKey)}
+              className={cn(
+                'w-full text-left px-2 py-1 rounded transition-colors',
+                range && index >= range.low && index <= range.high ? 'bg-blue-100 text-blue-900' : 'hover:bg-gray-100'
+              )}
+            >
+              <span className="text-gray-500">{formatTime(entry.timestamp)}</span>{' '}
+              <span className="font-semibold">{describeDeltaSource(entry.source)}</span>{' '}
+              <span>{describeChanges(entry)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {/* Preview of the selected entry */}
+      {selectedEntry && (
+        <div className="flex flex-col gap-2 border-t border-border pt-2">
+          {preview.map(change => (
+            <div key={change.nodeId} className="flex flex-col gap-1">
+              <div className="font-semibold">{change.kind} {baseName(change.nodeId)}</div>
+              {change.contentBefore !== null && (
+                <pre className="whitespace-pre-wrap bg-red-50 text-red-900 rounded p-1">{truncate(change.contentBefore)}</pre>
+              )}
+              {change.contentAfter !== null && (
+                <pre className="whitespace-pre-wrap bg-green-50 text-green-900 rounded p-1">{truncate(change.contentAfter)}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
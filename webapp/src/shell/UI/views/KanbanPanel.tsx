@@ -0,0 +1,122 @@
+import type { JSX } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import type { Graph, GraphDelta, GraphNode, NodeIdAndFilePath } from '@/pure/graph';
+import { getNodeTitle } from '@/pure/graph/markdown-parsing';
+import { getFrontmatterString } from '@/pure/graph/frontmatter';
+import {
+  computeSetTaskStatusDelta,
+  groupTaskNodesByStatus,
+  TASK_STATUS_LABELS,
+  TASK_STATUSES,
+  type TaskStatus,
+} from '@/pure/graph/task-status/taskStatus';
+import type {} from '@/shell/electron';
+
+// Agents update statuses in bursts (spawn, idle, exit); refetch once they settle
+const REFRESH_DEBOUNCE_MS: number = 500;
+
+// dataTransfer type carrying the dragged card's node ID
+const TASK_NODE_DRAG_TYPE: string = 'application/x-voicetree-task-node';
+
+function baseName(nodeId: string): string {
+  return nodeId.split(/[\\/]/).pop() ?? nodeId;
+}
+
+/**
+ * Task nodes (nodes with a status frontmatter field) as a kanban board, one column per status.
+ * Dropping a card on another column writes the new status as a graph delta, so it can be undone.
+ */
+export function KanbanPanel(): JSX.Element {
+  const [graph, setGraph] = useState<Graph | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+
+  const fetchGraph: () => Promise<void> = useCallback(async (): Promise<void> => {
+    const currentGraph: Graph | undefined = await window.electronAPI?.main.getGraph();
+    setGraph(currentGraph ?? null);
+  }, []);
+
+  useEffect(() => {
+    void fetchGraph();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe: (() => void) | undefined = window.electronAPI?.graph.onGraphUpdate(() => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => void fetchGraph(), REFRESH_DEBOUNCE_MS);
+    });
+    return () => {
+      clearTimeout(timeoutId);
+      unsubscribe?.();
+    };
+  }, [fetchGraph]);
+
+  if (graph === null) {
+    return (
+      <div data-testid="kanban-panel" className="p-3 font-mono text-xs text-muted-foreground">
+        No project loaded.
+      </div>
+    );
+  }
+
+  const columns: Readonly<Record<TaskStatus, readonly NodeIdAndFilePath[]>> = groupTaskNodesByStatus(graph);
+
+  const moveCard: (nodeId: NodeIdAndFilePath, status: TaskStatus) => Promise<void> = async (nodeId: NodeIdAndFilePath, status: TaskStatus): Promise<void> => {
+    const delta: GraphDelta = computeSetTaskStatusDelta(graph, nodeId, status);
+    if (delta.length === 0) {
+      return;
+    }
+    await window.electronAPI?.main.applyGraphDeltaToDBThroughMemUIAndEditorExposed(delta);
+    await fetchGraph();
+  };
+
+  return (
+    <div data-testid="kanban-panel" className="flex gap-2 p-3 bg-background text-foreground font-mono text-xs min-h-full">
+      {TASK_STATUSES.map((status: TaskStatus) => (
+        <section
+          key={status}
+          data-testid={`kanban-column-${status}`}
+          onDragOver={(e) => {
+            if (e.dataTransfer.types.includes(TASK_NODE_DRAG_TYPE)) {
+              e.preventDefault();
+              setDropTarget(status);
+            }
+          }}
+          onDragLeave={() => setDropTarget(current => (current === status ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDropTarget(null);
+            const nodeId: string = e.dataTransfer.getData(TASK_NODE_DRAG_TYPE);
+            if (nodeId) {
+              void moveCard(nodeId, status);
+            }
+          }}
+          className={`flex-1 min-w-0 flex flex-col gap-2 rounded border p-2 ${dropTarget === status ? 'border-primary bg-accent' : 'border-border bg-muted'}`}
+        >
+          <h3 className="font-semibold">
+            {TASK_STATUS_LABELS[status]} <span className="text-gray-500">{columns[status].length}</span>
+          </h3>
+          {columns[status].map((nodeId: NodeIdAndFilePath) => {
+            const node: GraphNode = graph.nodes[nodeId];
+            const agentName: string | undefined = getFrontmatterString(node.nodeUIMetadata.additionalYAMLProps, 'agent_name');
+            return (
+              <article
+                key={nodeId}
+                data-testid={`kanban-card-${baseName(nodeId)}`}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(TASK_NODE_DRAG_TYPE, nodeId);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                className="flex flex-col gap-1 rounded border border-border bg-card p-2 cursor-grab"
+                title={nodeId}
+              >
+                <span className="break-words">{getNodeTitle(node)}</span>
+                <span className="text-gray-500 truncate">
+                  {baseName(nodeId)}{agentName !== undefined ? ` · ${agentName}` : ''}
+                </span>
+              </article>
+            );
+          })}
+        </section>
+      ))}
+    </div>
+  );
+}
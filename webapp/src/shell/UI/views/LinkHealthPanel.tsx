@@ -0,0 +1,135 @@
+import type { JSX } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import type { Graph, GraphDelta } from '@/pure/graph';
+import { getBrokenLinks, type BrokenLink } from '@/pure/graph/link-health/brokenLinks';
+import { rankLinkCandidates, type LinkCandidate } from '@/pure/graph/link-health/rankLinkCandidates';
+import {
+  computeCreateMissingNodeDelta,
+  computeRemoveLinkDelta,
+  computeRetargetLinkDelta,
+} from '@/pure/graph/link-health/computeLinkRepairDelta';
+import type {} from '@/shell/electron';
+
+// Graph deltas arrive in bursts (e.g. a move rewrites many nodes); refetch once they settle
+const REFRESH_DEBOUNCE_MS: number = 500;
+
+function baseName(nodeId: string): string {
+  return nodeId.split(/[\\/]/).pop() ?? nodeId;
+}
+
+/**
+ * Unresolved wikilinks of the project, each with the nodes containing it and the nodes it most
+ * likely meant. Every fix (link to a candidate, create the missing note, remove the link) is a
+ * single graph delta, so it can be undone like any other edit.
+ */
+export function LinkHealthPanel(): JSX.Element {
+  const [graph, setGraph] = useState<Graph | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const fetchGraph: () => Promise<void> = useCallback(async (): Promise<void> => {
+    const currentGraph: Graph | undefined = await window.electronAPI?.main.getGraph();
+    setGraph(currentGraph ?? null);
+  }, []);
+
+  useEffect(() => {
+    void fetchGraph();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe: (() => void) | undefined = window.electronAPI?.graph.onGraphUpdate(() => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => void fetchGraph(), REFRESH_DEBOUNCE_MS);
+    });
+    return () => {
+      clearTimeout(timeoutId);
+      unsubscribe?.();
+    };
+  }, [fetchGraph]);
+
+  const applyFix: (delta: GraphDelta, description: string) => Promise<void> = async (delta: GraphDelta, description: string): Promise<void> => {
+    if (delta.length === 0) {
+      setStatus(`Could not ${description}`);
+      return;
+    }
+    await window.electronAPI?.main.applyGraphDeltaToDBThroughMemUIAndEditorExposed(delta);
+    setStatus(`Done: ${description} (undo to revert)`);
+    await fetchGraph();
+  };
+
+  if (graph === null) {
+    return (
+      <div data-testid="link-health-panel" className="p-3 font-mono text-xs text-muted-foreground">
+        No project loaded.
+      </div>
+    );
+  }
+
+  const brokenLinks: readonly BrokenLink[] = getBrokenLinks(graph);
+
+  return (
+    <div data-testid="link-health-panel" className="flex flex-col gap-3 p-3 bg-background text-foreground font-mono text-xs">
+      <span className="text-gray-500">
+        {brokenLinks.length === 0
+          ? 'Every wikilink resolves.'
+          : `${brokenLinks.length} unresolved link${brokenLinks.length === 1 ? '' : 's'}`}
+      </span>
+      {status && <div className="text-gray-500">{status}</div>}
+
+      <ul className="flex flex-col gap-2">
+        {brokenLinks.map(({ linkText, sourceNodeIds }: BrokenLink) => {
+          const candidates: readonly LinkCandidate[] = rankLinkCandidates(linkText, graph, sourceNodeIds);
+          return (
+            <li key={linkText} data-testid={`broken-link-${linkText}`} className="flex flex-col gap-2 border border-border rounded p-2">
+              <span className="font-semibold break-all">[[{linkText}]]</span>
+              <span className="text-gray-500 break-all" title={sourceNodeIds.join('\n')}>
+                in {sourceNodeIds.map(baseName).join(', ')}
+              </span>
+
+              {candidates.length > 0 && (
+                <div className="flex flex-col gap-1">
+                  <span className="text-gray-500">Did you mean</span>
+                  {candidates.map((candidate: LinkCandidate) => (
+                    <button
+                      key={candidate.nodeId}
+                      onClick={() => void applyFix(
+                        computeRetargetLinkDelta(linkText, sourceNodeIds, candidate.nodeId, graph),
+                        `link [[${linkText}]] to ${baseName(candidate.nodeId)}`
+                      )}
+                      className="text-left px-2 py-1 rounded bg-muted hover:bg-accent transition-colors truncate"
+                      title={candidate.nodeId}
+                    >
+                      {candidate.title} <span className="text-gray-500">{baseName(candidate.nodeId)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  data-testid={`create-missing-${linkText}`}
+                  onClick={() => void applyFix(
+                    computeCreateMissingNodeDelta(linkText, sourceNodeIds, graph),
+                    `create ${linkText}`
+                  )}
+                  className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors"
+                  title="Create the missing note next to the first linking node"
+                >
+                  Create note
+                </button>
+                <button
+                  data-testid={`remove-link-${linkText}`}
+                  onClick={() => void applyFix(
+                    computeRemoveLinkDelta(linkText, sourceNodeIds, graph),
+                    `remove [[${linkText}]]`
+                  )}
+                  className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors"
+                  title="Keep the text but remove the link"
+                >
+                  Remove link
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import type { JSX } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import type { EdgeSingular } from 'cytoscape';
+import {
+  OTHER_RELATIONSHIP_KEY,
+  UNLABELED_RELATIONSHIP_KEY,
+  getRelationshipFilterKey,
+  type RelationshipType,
+  type RelationshipVocabulary,
+} from '@/pure/graph/relationships';
+import {
+  getHiddenRelationshipKeys,
+  getRelationshipVocabulary,
+  subscribeToRelationshipVocabulary,
+} from '@/shell/edge/UI-edge/state/RelationshipVocabularyStore';
+import { getCyInstance, isCyInitialized } from '@/shell/edge/UI-edge/state/cytoscape-state';
+import { setRelationshipVisible } from '@/shell/edge/UI-edge/graph/relationshipEdges';
+import type {} from '@/shell/electron';
+
+const DEFAULT_NEW_TYPE_COLOR: string = '#6b7280';
+
+function countEdgesByRelationship(vocabulary: RelationshipVocabulary): ReadonlyMap<string, number> {
+  const counts: Map<string, number> = new Map();
+  if (!isCyInitialized()) {
+    return counts;
+  }
+  getCyInstance().edges('[relationshipLabel]').forEach((edge: EdgeSingular) => {
+    const key: string = getRelationshipFilterKey(edge.data('relationshipLabel') as string, vocabulary);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+function parseAliases(text: string): readonly string[] {
+  return text.split(',').map((alias: string) => alias.trim()).filter((alias: string) => alias !== '');
+}
+
+/**
+ * Relationship types of the open project: show or hide the graph's edges per type, and
+ * add or remove types from the project's vocabulary.
+ */
+export function RelationshipsPanel(): JSX.Element {
+  const [vocabulary, setVocabulary] = useState<RelationshipVocabulary>(getRelationshipVocabulary());
+  const [hiddenKeys, setHiddenKeys] = useState<ReadonlySet<string>>(new Set(getHiddenRelationshipKeys()));
+  const [status, setStatus] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newAliases, setNewAliases] = useState('');
+  const [newColor, setNewColor] = useState(DEFAULT_NEW_TYPE_COLOR);
+
+  useEffect(() => {
+    return subscribeToRelationshipVocabulary(() => {
+      setVocabulary(getRelationshipVocabulary());
+      setHiddenKeys(new Set(getHiddenRelationshipKeys()));
+    });
+  }, []);
+
+  const toggleVisible: (key: string) => void = useCallback((key: string): void => {
+    if (isCyInitialized()) {
+      setRelationshipVisible(getCyInstance(), key, hiddenKeys.has(key));
+    }
+  }, [hiddenKeys]);
+
+  const saveVocabulary: (next: RelationshipVocabulary, message: string) => Promise<void> = async (
+    next: RelationshipVocabulary,
+    message: string
+  ): Promise<void> => {
+    const result: { success: boolean; error?: string } | undefined = await window.electronAPI?.main.saveRelationshipVocabulary(next);
+    setStatus(result?.success ? message : result?.error ?? 'Failed to save relationship types');
+  };
+
+  const addType: () => Promise<void> = async (): Promise<void> => {
+    const name: string = newName.trim();
+    if (name === '') {
+      return;
+    }
+    if (vocabulary.some((type: RelationshipType) => type.name.toLowerCase() === name.toLowerCase())) {
+      setStatus(`"${name}" already exists`);
+      return;
+    }
+    const aliases: readonly string[] = parseAliases(newAliases);
+    await saveVocabulary([...vocabulary, { name, color: newColor, ...(aliases.length > 0 ? { aliases } : {}) }], `Added "${name}"`);
+    setNewName('');
+    setNewAliases('');
+  };
+
+  const removeType: (name: string) => Promise<void> = (name: string): Promise<void> =>
+    saveVocabulary(vocabulary.filter((type: RelationshipType) => type.name !== name), `Removed "${name}"`);
+
+  const counts: ReadonlyMap<string, number> = countEdgesByRelationship(vocabulary);
+  const filterRows: readonly { readonly key: string; readonly type: RelationshipType | null }[] = [
+    ...vocabulary.map((type: RelationshipType) => ({ key: type.name, type })),
+    { key: OTHER_RELATIONSHIP_KEY, type: null },
+    { key: UNLABELED_RELATIONSHIP_KEY, type: null },
+  ];
+
+  return (
+    <div data-testid="relationships-panel" className="flex flex-col gap-3 p-3 bg-background text-foreground font-mono text-xs">
+      <span className="text-gray-500">Edge labels matching a type or alias are normalized to the type's name.</span>
+      {status && <div className="text-gray-500">{status}</div>}
+
+      <ul className="flex flex-col gap-1">
+        {filterRows.map(({ key, type }) => (
+          <li key={key} className="flex items-center gap-2 border border-border rounded p-2">
+            <input
+              type="checkbox"
+              data-testid={`relationship-visible-${key}`}
+              checked={!hiddenKeys.has(key)}
+              onChange={() => toggleVisible(key)}
+              title="Show edges of this type"
+            />
+            <span
+              className="inline-block w-3 h-3 rounded-full shrink-0"
+              style={{ backgroundColor: type?.color ?? 'transparent', border: type?.color ? 'none' : '1px solid currentColor' }}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold">{key}</div>
+              {type?.aliases && type.aliases.length > 0 && (
+                <div className="text-gray-500 truncate">{type.aliases.join(', ')}</div>
+              )}
+            </div>
+            <span className="text-gray-500">{counts.get(key) ?? 0}</span>
+            {type && (
+              <button
+                onClick={() => void removeType(type.name)}
+                className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors text-red-600"
+                title="Remove this type from the vocabulary"
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-col gap-1 border border-border rounded p-2">
+        <input
+          data-testid="relationship-new-name"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="New type, e.g. supersedes"
+          className="px-2 py-1 rounded bg-muted"
+        />
+        <input
+          value={newAliases}
+          onChange={e => setNewAliases(e.target.value)}
+          placeholder="Aliases, comma-separated"
+          className="px-2 py-1 rounded bg-muted"
+        />
+        <div className="flex items-center gap-2 justify-end">
+          <input type="color" value={newColor} onChange={e => setNewColor(e.target.value)} title="Edge color" />
+          <button
+            data-testid="relationship-add-button"
+            disabled={newName.trim() === ''}
+            onClick={() => void addType()}
+            className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors disabled:opacity-50"
+          >
+            Add type
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
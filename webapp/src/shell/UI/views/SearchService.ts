@@ -6,12 +6,17 @@
  * - Builds searchable data from Cytoscape nodes
  * - Handles node selection and navigation
  * - Updates search data when nodes change
+ * - Lists tags as facets that toggle the graph's tag filter
  */
 
 import type { Core, NodeCollection, NodeSingular } from 'cytoscape';
 import 'ninja-keys';
 import { getRecentlyVisited } from '@/shell/edge/UI-edge/state/RecentlyVisitedStore';
 import type { GraphDelta } from '@/pure/graph';
+import { getSelectedTags } from '@/shell/edge/UI-edge/state/TagFilterStore';
+import { countNodesByTag, toggleTagFilter } from '@/shell/edge/UI-edge/graph/tagFilter';
+
+const TAG_FACET_ID_PREFIX: string = 'tag:';
 
 // Extend HTMLElement for ninja-keys custom element
 interface NinjaAction {
@@ -30,6 +35,18 @@ interface NinjaKeysElement extends HTMLElement {
   close(): void;
 }
 
+function isTagFacet(action: NinjaAction): boolean {
+  return action.id.startsWith(TAG_FACET_ID_PREFIX);
+}
+
+/**
+ * Searchable text for a node's tags, e.g. "#decision #project/alpha"
+ */
+function getTagKeywords(node: NodeSingular): string {
+  const tags: readonly string[] = node.data('tags') as readonly string[] | undefined ?? [];
+  return tags.map((tag: string) => `#${tag}`).join(' ');
+}
+
 /**
  * SearchService manages the command palette search integration
  */
@@ -76,7 +93,7 @@ export class SearchService {
    * Called on open() to reflect latest recently visited state.
    */
   private reorderByRecency(): void {
-    const currentData: NinjaAction[] = this.ninjaKeys.data;
+    const currentData: NinjaAction[] = this.ninjaKeys.data.filter((action: NinjaAction) => !isTagFacet(action));
     if (currentData.length === 0) return;
 
     const recentlyVisited: string[] = getRecentlyVisited();
@@ -112,7 +129,25 @@ export class SearchService {
       return { ...action, section: 'All Nodes' };
     });
 
-    this.ninjaKeys.data = prefixed;
+    this.ninjaKeys.data = [...prefixed, ...this.buildTagFacets()];
+  }
+
+  /**
+   * One action per tag in the graph; selecting it toggles the tag in the graph's tag filter.
+   * Facets are rebuilt on open() rather than per delta, since counting tags is O(N).
+   */
+  private buildTagFacets(): NinjaAction[] {
+    const selectedTags: ReadonlySet<string> = getSelectedTags();
+    return countNodesByTag(this.cy).map(({ tag, count }) => ({
+      id: `${TAG_FACET_ID_PREFIX}${tag}`,
+      title: `#${tag} (${count})`,
+      section: 'Tags',
+      description: selectedTags.has(tag) ? 'Remove from tag filter' : 'Dim nodes without this tag',
+      keywords: `#${tag} tag`,
+      handler: () => {
+        toggleTagFilter(this.cy, tag);
+      }
+    }));
   }
 
   /**
@@ -138,6 +173,7 @@ export class SearchService {
       const nodeId: string = node.id();
       const label: string = node.data('label') as string ?? nodeId;
       const content: string = node.data('content') as string ?? '';
+      const tagKeywords: string = getTagKeywords(node);
 
       // Extract first line of content for description (max 300 chars)
       const firstLine: string = content.split('\n')[0].trim();
@@ -148,8 +184,8 @@ export class SearchService {
       return {
         id: nodeId,
         title: label,
-        description: description ?? undefined,
-        keywords: content.substring(0, 500),
+        description: tagKeywords ? `${tagKeywords} ${description}` : description,
+        keywords: `${tagKeywords} ${content.substring(0, 500)}`,
         handler: () => {
           //console.log('[SearchService] Handler called for nodeId:', nodeId);
           this.onNodeSelect(nodeId);
@@ -186,7 +222,7 @@ export class SearchService {
       return { ...action, section: 'All Nodes' };
     });
 
-    this.ninjaKeys.data = prefixedSearchData;
+    this.ninjaKeys.data = [...prefixedSearchData, ...this.buildTagFacets()];
 
     //console.log(`[SearchService] Updated search data: ${searchData.length} nodes`);
   }
@@ -209,6 +245,7 @@ export class SearchService {
         const nodeId: string = node.id();
         const label: string = node.data('label') as string ?? nodeId;
         const content: string = node.data('content') as string ?? '';
+        const tagKeywords: string = getTagKeywords(node);
 
         const firstLine: string = content.split('\n')[0].trim();
         const description: string = firstLine.length > 300
@@ -218,8 +255,8 @@ export class SearchService {
         const newAction: NinjaAction = {
           id: nodeId,
           title: label,
-          description: description ?? undefined,
-          keywords: content.substring(0, 500),
+          description: tagKeywords ? `${tagKeywords} ${description}` : description,
+          keywords: `${tagKeywords} ${content.substring(0, 500)}`,
           handler: () => {
             //console.log('[SearchService] Handler called for nodeId:', nodeId);
             this.onNodeSelect(nodeId);
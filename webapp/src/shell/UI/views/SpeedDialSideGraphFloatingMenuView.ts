@@ -18,6 +18,12 @@ export interface SpeedDialMenuViewOptions {
   onSettings?: () => void;
   onAbout?: () => void;
   onStats?: () => void;
+  onHistory?: () => void;
+  onWorktrees?: () => void;
+  onRelationships?: () => void;
+  onTags?: () => void;
+  onLinkHealth?: () => void;
+  onKanban?: () => void;
   onFeedback?: () => void;
   isDarkMode: boolean;
 }
@@ -25,7 +31,7 @@ export interface SpeedDialMenuViewOptions {
 interface MenuItem {
   id: string;
   label: string;
-  iconName: 'sun' | 'moon' | 'settings' | 'info' | 'bar-chart' | 'message-square';
+  iconName: 'sun' | 'moon' | 'settings' | 'info' | 'bar-chart' | 'history' | 'git-branch' | 'link' | 'tag' | 'unlink' | 'kanban' | 'message-square';
   onClick: () => void;
   isDanger?: boolean;
 }
@@ -69,6 +75,42 @@ export class SpeedDialSideGraphFloatingMenuView extends Disposable {
         iconName: 'bar-chart',
         onClick: options.onStats ?? (() => { /* no-op */ }),
       },
+      {
+        id: 'history',
+        label: 'History',
+        iconName: 'history',
+        onClick: options.onHistory ?? (() => { /* no-op */ }),
+      },
+      {
+        id: 'worktrees',
+        label: 'Worktrees',
+        iconName: 'git-branch',
+        onClick: options.onWorktrees ?? (() => { /* no-op */ }),
+      },
+      {
+        id: 'relationships',
+        label: 'Relationships',
+        iconName: 'link',
+        onClick: options.onRelationships ?? (() => { /* no-op */ }),
+      },
+      {
+        id: 'tags',
+        label: 'Tags',
+        iconName: 'tag',
+        onClick: options.onTags ?? (() => { /* no-op */ }),
+      },
+      {
+        id: 'link-health',
+        label: 'Link Health',
+        iconName: 'unlink',
+        onClick: options.onLinkHealth ?? (() => { /* no-op */ }),
+      },
+      {
+        id: 'kanban',
+        label: 'Tasks',
+        iconName: 'kanban',
+        onClick: options.onKanban ?? (() => { /* no-op */ }),
+      },
       {
         id: 'feedback',
         label: 'Feedback',
@@ -135,7 +177,7 @@ export class SpeedDialSideGraphFloatingMenuView extends Disposable {
   /**
    * Create an SVG icon element
    */
-  private createIcon(name: 'sun' | 'moon' | 'settings' | 'info' | 'bar-chart' | 'message-square'): SVGElement {
+  private createIcon(name: 'sun' | 'moon' | 'settings' | 'info' | 'bar-chart' | 'history' | 'git-branch' | 'link' | 'tag' | 'unlink' | 'kanban' | 'message-square'): SVGElement {
     const svg: SVGSVGElement = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
     svg.setAttribute('class', 'speed-dial-icon');
     svg.setAttribute('width', '20');
@@ -160,6 +202,12 @@ export class SpeedDialSideGraphFloatingMenuView extends Disposable {
       ],
       info: ['M12 22a10 10 0 1 0 0-20 10 10 0 0 0 0 20z', 'M12 16v-4', 'M12 8h.01'],
       'bar-chart': ['M12 20V10', 'M18 20V4', 'M6 20v-4'],
+      history: ['M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8', 'M3 3v5h5', 'M12 7v5l4 2'],
+      'git-branch': ['M6 3v12', 'M18 9a3 3 0 1 0 0-6 3 3 0 0 0 0 6z', 'M6 21a3 3 0 1 0 0-6 3 3 0 0 0 0 6z', 'M18 9a9 9 0 0 1-9 9'],
+      link: ['M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71', 'M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71'],
+      tag: ['M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z', 'M7 7h.01'],
+      unlink: ['m18.84 12.25 1.72-1.71h-.02a5.004 5.004 0 0 0-.12-7.07 5.006 5.006 0 0 0-6.95 0l-1.72 1.71', 'm5.17 11.75-1.71 1.71a5.004 5.004 0 0 0 .12 7.07 5.006 5.006 0 0 0 6.95 0l1.71-1.71', 'M8 2v3', 'M2 8h3', 'M16 19v3', 'M19 16h3'],
+      kanban: ['M6 5v11', 'M12 5v6', 'M18 5v14'],
       'message-square': ['M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z'],
     };
 
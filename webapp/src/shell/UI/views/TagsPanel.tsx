@@ -0,0 +1,59 @@
+import type { JSX } from 'react';
+import { useState, useEffect } from 'react';
+import { getSelectedTags, subscribeToTagFilter } from '@/shell/edge/UI-edge/state/TagFilterStore';
+import { getCyInstance, isCyInitialized } from '@/shell/edge/UI-edge/state/cytoscape-state';
+import { clearTagFilter, countNodesByTag, toggleTagFilter } from '@/shell/edge/UI-edge/graph/tagFilter';
+
+/**
+ * Tags of the graph's nodes (frontmatter `tags:` and inline #tags). Selecting tags dims
+ * every node that carries none of them; a parent tag also selects its nested tags.
+ */
+export function TagsPanel(): JSX.Element {
+  const [selectedTags, setSelectedTags] = useState<ReadonlySet<string>>(new Set(getSelectedTags()));
+
+  useEffect(() => {
+    return subscribeToTagFilter(() => setSelectedTags(new Set(getSelectedTags())));
+  }, []);
+
+  const tagCounts: readonly { readonly tag: string; readonly count: number }[] = isCyInitialized()
+    ? countNodesByTag(getCyInstance())
+    : [];
+
+  return (
+    <div data-testid="tags-panel" className="flex flex-col gap-3 p-3 bg-background text-foreground font-mono text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-500">
+          {selectedTags.size === 0 ? 'Select tags to dim other nodes.' : `Filtering by ${[...selectedTags].map((tag: string) => `#${tag}`).join(', ')}`}
+        </span>
+        <button
+          data-testid="tags-clear-button"
+          disabled={selectedTags.size === 0}
+          onClick={() => isCyInitialized() && clearTagFilter(getCyInstance())}
+          className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      {tagCounts.length === 0 ? (
+        <div className="text-gray-500">No tagged nodes in this project.</div>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {tagCounts.map(({ tag, count }) => (
+            <li key={tag} className="flex items-center gap-2 border border-border rounded p-2">
+              <input
+                type="checkbox"
+                data-testid={`tag-filter-${tag}`}
+                checked={selectedTags.has(tag)}
+                onChange={() => isCyInitialized() && toggleTagFilter(getCyInstance(), tag)}
+                title="Only highlight nodes with this tag"
+              />
+              <span className="flex-1 min-w-0 truncate font-semibold">#{tag}</span>
+              <span className="text-gray-500">{count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
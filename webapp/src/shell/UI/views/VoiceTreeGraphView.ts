@@ -70,7 +70,7 @@ import {getResponsivePadding} from '@/utils/responsivePadding';
 import {SpeedDialSideGraphFloatingMenuView} from './SpeedDialSideGraphFloatingMenuView';
 import type {Graph} from '@/pure/graph';
 import {createEmptyGraph} from '@/pure/graph/createGraph';
-import {setupBasicCytoscapeEventListeners, setupCytoscape, initializeCytoscapeInstance, setupGraphViewDOM, initializeNavigatorMinimap, type GraphViewDOMElements, type NavigatorMinimapResult} from './VoiceTreeGraphViewHelpers';
+import {setupBasicCytoscapeEventListeners, setupFolderDropTargets, setupCytoscape, initializeCytoscapeInstance, setupGraphViewDOM, initializeNavigatorMinimap, type GraphViewDOMElements, type NavigatorMinimapResult} from './VoiceTreeGraphViewHelpers';
 import {setupViewSubscriptions, cleanupViewSubscriptions, type ViewSubscriptionCleanups} from '@/shell/edge/UI-edge/graph/setupViewSubscriptions';
 import {subscribeToGraphUpdates} from '@/shell/edge/UI-edge/graph/subscribeToGraphUpdates';
 import {createSettingsEditor, closeSettingsEditor, isSettingsEditorOpen} from "@/shell/edge/UI-edge/settings/createSettingsEditor";
@@ -232,6 +232,12 @@ export class VoiceTreeGraphView extends Disposable implements IVoiceTreeGraphVie
                 onSettings: () => void createSettingsEditor(this.cy),
                 onAbout: () => window.open('https://voicetree.io', '_blank'),
                 onStats: () => window.dispatchEvent(new Event('toggle-stats-panel')),
+                onHistory: () => window.dispatchEvent(new Event('toggle-history-panel')),
+                onWorktrees: () => window.dispatchEvent(new Event('toggle-worktrees-panel')),
+                onRelationships: () => window.dispatchEvent(new Event('toggle-relationships-panel')),
+                onTags: () => window.dispatchEvent(new Event('toggle-tags-panel')),
+                onLinkHealth: () => window.dispatchEvent(new Event('toggle-link-health-panel')),
+                onKanban: () => window.dispatchEvent(new Event('toggle-kanban-panel')),
                 onFeedback: () => void collectFeedback()
             }
         });
@@ -303,6 +309,8 @@ export class VoiceTreeGraphView extends Disposable implements IVoiceTreeGraphVie
             this.styleService,
             this.container
         );
+        // Registered after the basic listeners, so a drop on a folder saves restored positions last
+        setupFolderDropTargets(this.cy, this.container);
     }
 
     private setupCytoscape(): void {
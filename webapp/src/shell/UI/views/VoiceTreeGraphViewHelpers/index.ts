@@ -2,6 +2,7 @@
  * Helper functions extracted from VoiceTreeGraphView for better modularity
  */
 export { setupBasicCytoscapeEventListeners } from './setupBasicCytoscapeEventListeners';
+export { setupFolderDropTargets } from './setupFolderDropTargets';
 export { setupCytoscape } from './setupCytoscape';
 export type { SetupCytoscapeParams } from './setupCytoscape';
 export { initializeCytoscapeInstance } from './initializeCytoscapeInstance';
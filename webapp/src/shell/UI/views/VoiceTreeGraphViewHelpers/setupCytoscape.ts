@@ -12,6 +12,8 @@ import {
 
 } from '@/shell/edge/UI-edge/floating-windows/editors/FloatingEditorCRUD';
 import {handleAddNodeAtPosition} from "@/shell/edge/UI-edge/floating-windows/editors/OpenHoverEditor";
+// Import ElectronAPI type for window.electronAPI access
+import type {} from "@/shell/electron";
 
 export interface SetupCytoscapeParams {
     cy: Core;
@@ -54,6 +56,9 @@ export function setupCytoscape(params: SetupCytoscapeParams): {
         // Emit node selected event
         onNodeSelected(nodeId);
 
+        // Large-vault mode: materialize the focused node's unloaded neighbors (no-op otherwise)
+        void window.electronAPI?.main.expandLargeVaultAroundNode(nodeId);
+
         // Don't open floating editor for image nodes
         if (isImageNode(nodeId)) {
             return;
@@ -0,0 +1,147 @@
+/**
+ * Folder drop targets: drag nodes onto a folder to move them into it.
+ *
+ * While nodes are dragged, a bar listing the vault's folders appears along the bottom of the
+ * graph. Releasing the nodes over a folder puts them back where the drag started and moves
+ * them into the folder (links rewritten, one undo step - see moveNodesToFolderFromUI).
+ */
+import type { Core, NodeDefinition, NodeSingular, Position } from 'cytoscape';
+import type { FilePath, NodeIdAndFilePath } from '@/pure/graph';
+import { getMoveTargetFolders, moveNodesToFolderFromUI } from '@/shell/edge/UI-edge/graph/moveNodesFromUI';
+// Import to make Window.electronAPI type available
+import type {} from '@/shell/electron';
+
+const FOLDER_ATTRIBUTE: string = 'data-drop-folder';
+
+function createFolderBar(container: HTMLElement, folders: readonly string[]): HTMLDivElement {
+  const rect: DOMRect = container.getBoundingClientRect();
+  const bar: HTMLDivElement = document.createElement('div');
+  bar.id = 'folder-drop-targets';
+  bar.style.cssText = `
+    position: fixed;
+    left: ${rect.left + rect.width / 2}px;
+    bottom: ${window.innerHeight - rect.bottom + 16}px;
+    transform: translateX(-50%);
+    display: flex;
+    flex-wrap: wrap;
+    justify-content: center;
+    gap: 6px;
+    max-width: ${Math.round(rect.width * 0.8)}px;
+    max-height: 120px;
+    overflow-y: auto;
+    padding: 8px;
+    background: var(--background);
+    border: 1px solid var(--border);
+    border-radius: var(--radius);
+    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+    z-index: 50;
+    font-family: inherit;
+    font-size: 0.8rem;
+  `;
+
+  const title: HTMLSpanElement = document.createElement('span');
+  title.textContent = 'Drop on a folder to move';
+  title.style.cssText = 'align-self: center; color: var(--muted-foreground); padding: 0 4px;';
+  bar.appendChild(title);
+
+  folders.forEach((folder: string) => {
+    const chip: HTMLDivElement = document.createElement('div');
+    chip.setAttribute(FOLDER_ATTRIBUTE, folder);
+    chip.textContent = folder.slice(folder.lastIndexOf('/') + 1) || folder;
+    chip.title = folder;
+    chip.style.cssText = `
+      padding: 4px 10px;
+      border: 1px dashed var(--border);
+      border-radius: calc(var(--radius) - 4px);
+      background: var(--muted);
+      color: var(--foreground);
+      white-space: nowrap;
+    `;
+    bar.appendChild(chip);
+  });
+
+  document.body.appendChild(bar);
+  return bar;
+}
+
+function getFolderAtPoint(x: number, y: number): string | null {
+  const element: Element | null = document.elementFromPoint(x, y);
+  return element?.closest(`[${FOLDER_ATTRIBUTE}]`)?.getAttribute(FOLDER_ATTRIBUTE) ?? null;
+}
+
+function highlightFolderAtPoint(bar: HTMLDivElement, x: number, y: number): void {
+  const hovered: string | null = getFolderAtPoint(x, y);
+  bar.querySelectorAll<HTMLElement>(`[${FOLDER_ATTRIBUTE}]`).forEach((chip: HTMLElement) => {
+    const isHovered: boolean = chip.getAttribute(FOLDER_ATTRIBUTE) === hovered;
+    chip.style.background = isHovered ? 'var(--primary)' : 'var(--muted)';
+    chip.style.color = isHovered ? 'var(--primary-foreground)' : 'var(--foreground)';
+  });
+}
+
+export function setupFolderDropTargets(cy: Core, container: HTMLElement): void {
+  // Where each grabbed node was when the drag started
+  let startPositions: Map<string, Position> = new Map();
+  let isDragging: boolean = false;
+  let bar: HTMLDivElement | null = null;
+  let pointer: { x: number; y: number } | null = null;
+
+  const onPointerMove: (event: PointerEvent) => void = (event: PointerEvent): void => {
+    pointer = { x: event.clientX, y: event.clientY };
+    if (bar) {
+      highlightFolderAtPoint(bar, event.clientX, event.clientY);
+    }
+  };
+
+  const endDrag: () => void = (): void => {
+    window.removeEventListener('pointermove', onPointerMove);
+    bar?.remove();
+    bar = null;
+    pointer = null;
+    isDragging = false;
+    startPositions = new Map();
+  };
+
+  // Fires for every node the drag moves, e.g. all selected nodes
+  cy.on('grab', 'node', (e) => {
+    const node: NodeSingular = e.target;
+    startPositions.set(node.id(), { ...node.position() });
+  });
+
+  // Show the folders once nodes actually move - a plain click also grabs them
+  cy.on('drag', 'node', (e) => {
+    if (isDragging || (e.target as NodeSingular).data('isShadowNode')) return;
+    isDragging = true;
+    window.addEventListener('pointermove', onPointerMove);
+    void (async (): Promise<void> => {
+      const vaultPaths: readonly FilePath[] = await window.electronAPI?.main.getVaultPaths() ?? [];
+      if (!isDragging || bar) return;
+      const nodeIds: readonly NodeIdAndFilePath[] = cy.nodes()
+        .filter((node: NodeSingular) => !node.data('isShadowNode'))
+        .map((node: NodeSingular) => node.id());
+      bar = createFolderBar(container, getMoveTargetFolders(nodeIds, vaultPaths));
+    })();
+  });
+
+  // 'free' fires once per released node - the first one handles the drop
+  cy.on('free', 'node', () => {
+    if (!isDragging) {
+      startPositions = new Map();
+      return;
+    }
+    const folder: string | null = pointer ? getFolderAtPoint(pointer.x, pointer.y) : null;
+    const draggedNodeIds: readonly NodeIdAndFilePath[] = [...startPositions.keys()]
+      .filter((nodeId: string) => !cy.getElementById(nodeId).data('isShadowNode'));
+    const positionsToRestore: ReadonlyMap<string, Position> = startPositions;
+    endDrag();
+    if (folder === null) return;
+
+    positionsToRestore.forEach((position: Position, nodeId: string) => {
+      cy.getElementById(nodeId).position(position);
+    });
+    void (async (): Promise<void> => {
+      // The drop spot isn't a position the user chose - save the restored ones before moving
+      await window.electronAPI?.main.saveNodePositions(cy.nodes().jsons() as NodeDefinition[]);
+      await moveNodesToFolderFromUI(draggedNodeIds, folder);
+    })();
+  });
+}
@@ -20,6 +20,12 @@ export interface SpeedDialCallbacks {
     onSettings: () => void;
     onAbout: () => void;
     onStats: () => void;
+    onHistory: () => void;
+    onWorktrees: () => void;
+    onRelationships: () => void;
+    onTags: () => void;
+    onLinkHealth: () => void;
+    onKanban: () => void;
     onFeedback: () => void;
 }
 
@@ -0,0 +1,140 @@
+import type { JSX } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { formatWorktreeDiffSummary, type ManagedWorktree, type WorktreeMergeStrategy } from '@/pure/worktree';
+import type {} from '@/shell/electron';
+
+const REFRESH_INTERVAL_MS: number = 5000;
+
+function baseName(nodeId: string): string {
+  return nodeId.split(/[\\/]/).pop() ?? nodeId;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Agent git worktrees of the open project, with owner, task node and diff against the
+ * base branch. Each worktree can be merged, rebased or removed; orphans (terminal gone)
+ * without unmerged work can be cleaned up in one step.
+ */
+export function WorktreesPanel(): JSX.Element {
+  const [worktrees, setWorktrees] = useState<readonly ManagedWorktree[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busyPath, setBusyPath] = useState<string | null>(null);
+
+  const fetchWorktrees: () => Promise<void> = useCallback(async (): Promise<void> => {
+    const result: readonly ManagedWorktree[] | undefined = await window.electronAPI?.main.listWorktrees();
+    setWorktrees(result ?? []);
+  }, []);
+
+  useEffect(() => {
+    void fetchWorktrees();
+    const intervalId: NodeJS.Timeout = setInterval(() => void fetchWorktrees(), REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [fetchWorktrees]);
+
+  const runAction: (worktree: ManagedWorktree, action: () => Promise<string>) => Promise<void> = async (
+    worktree: ManagedWorktree,
+    action: () => Promise<string>
+  ): Promise<void> => {
+    setBusyPath(worktree.path);
+    try {
+      setStatus(await action());
+    } catch (error) {
+      setStatus(errorMessage(error));
+    }
+    setBusyPath(null);
+    await fetchWorktrees();
+  };
+
+  const merge: (worktree: ManagedWorktree, strategy: WorktreeMergeStrategy) => Promise<void> = (
+    worktree: ManagedWorktree,
+    strategy: WorktreeMergeStrategy
+  ): Promise<void> => runAction(worktree, async (): Promise<string> => {
+    await window.electronAPI?.main.mergeWorktree(worktree.path, strategy);
+    return `${strategy === 'rebase' ? 'Rebased and merged' : 'Merged'} ${worktree.branch ?? worktree.name}`;
+  });
+
+  const remove: (worktree: ManagedWorktree) => Promise<void> = (worktree: ManagedWorktree): Promise<void> => {
+    const hasUnmergedWork: boolean = worktree.diff === null || worktree.diff.commitsAhead > 0 || worktree.diff.hasUncommittedChanges;
+    if (hasUnmergedWork && !window.confirm(`${worktree.name} has unmerged work that will be lost. Remove anyway?`)) {
+      return Promise.resolve();
+    }
+    return runAction(worktree, async (): Promise<string> => {
+      await window.electronAPI?.main.removeWorktree(worktree.path, { deleteBranch: true, force: hasUnmergedWork });
+      return `Removed ${worktree.name}`;
+    });
+  };
+
+  const cleanUpOrphans: () => Promise<void> = async (): Promise<void> => {
+    try {
+      const result: { readonly removed: readonly string[]; readonly keptWithUnmergedWork: readonly string[] } | undefined =
+        await window.electronAPI?.main.garbageCollectWorktrees();
+      setStatus(result
+        ? `Removed ${result.removed.length} orphaned worktree(s)${result.keptWithUnmergedWork.length > 0 ? `, kept ${result.keptWithUnmergedWork.length} with unmerged work` : ''}`
+        : null);
+    } catch (error) {
+      setStatus(errorMessage(error));
+    }
+    await fetchWorktrees();
+  };
+
+  const orphanCount: number = worktrees.filter(w => w.owner === null).length;
+
+  return (
+    <div data-testid="worktrees-panel" className="flex flex-col gap-3 p-3 bg-background text-foreground font-mono text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-500">
+          {worktrees.length === 0 ? 'No agent worktrees.' : `${worktrees.length} worktree(s), ${orphanCount} orphaned`}
+        </span>
+        <button
+          data-testid="worktrees-gc-button"
+          disabled={orphanCount === 0}
+          onClick={() => void cleanUpOrphans()}
+          className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors disabled:opacity-50"
+        >
+          Clean up orphans
+        </button>
+      </div>
+      {status && <div className="text-gray-500">{status}</div>}
+
+      <ul className="flex flex-col gap-2">
+        {worktrees.map(worktree => (
+          <li key={worktree.path} className="flex flex-col gap-1 border border-border rounded p-2">
+            <div className="font-semibold" title={worktree.path}>{worktree.branch ?? worktree.name}</div>
+            <div className="text-gray-500">
+              {worktree.owner
+                ? `${worktree.owner.agentName}${worktree.owner.taskNodeId ? ` · ${baseName(worktree.owner.taskNodeId)}` : ''}`
+                : 'orphaned'}
+            </div>
+            <div>{worktree.diff ? formatWorktreeDiffSummary(worktree.diff) : 'Diff unavailable'}</div>
+            <div className="flex gap-1 justify-end">
+              <button
+                disabled={busyPath !== null || worktree.diff?.hasUncommittedChanges !== false}
+                onClick={() => void merge(worktree, 'merge')}
+                className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors disabled:opacity-50"
+              >
+                Merge
+              </button>
+              <button
+                disabled={busyPath !== null || worktree.diff?.hasUncommittedChanges !== false}
+                onClick={() => void merge(worktree, 'rebase')}
+                className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors disabled:opacity-50"
+              >
+                Rebase
+              </button>
+              <button
+                disabled={busyPath !== null}
+                onClick={() => void remove(worktree)}
+                className="px-2 py-1 rounded bg-muted hover:bg-accent transition-colors disabled:opacity-50 text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { JSX, ReactNode } from 'react';
+
+interface SidePanelProps {
+    title: string;
+    // Prefix of the container and close button test ids, e.g. "history" -> "history-panel-container"
+    testIdPrefix: string;
+    // Tailwind width classes; the kanban board needs one column per status
+    widthClassName?: string;
+    onClose: () => void;
+    children: ReactNode;
+}
+
+/**
+ * Panel sliding out from the right edge of the graph view, with a title bar and close button.
+ */
+export function SidePanel({ title, testIdPrefix, widthClassName = 'w-96', onClose, children }: SidePanelProps): JSX.Element {
+    return (
+        <div
+            data-testid={`${testIdPrefix}-panel-container`}
+            className={`fixed right-0 top-0 bottom-0 ${widthClassName} bg-card border-l border-border shadow-lg z-[1200] overflow-y-auto`}
+        >
+            <div className="sticky top-0 bg-card border-b border-border p-2 flex items-center justify-between">
+                <h2 className="font-mono text-sm font-semibold text-foreground">{title}</h2>
+                <button
+                    data-testid={`${testIdPrefix}-close-button`}
+                    onClick={onClose}
+                    className="text-muted-foreground px-2 py-1 rounded bg-muted hover:bg-accent transition-colors font-mono text-xs"
+                    title="Close panel"
+                >
+                    ✕
+                </button>
+            </div>
+            {children}
+        </div>
+    );
+}
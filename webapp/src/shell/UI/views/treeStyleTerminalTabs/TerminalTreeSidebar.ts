@@ -5,8 +5,9 @@
  * - Vertical sidebar showing terminals in hierarchical tree structure
  * - Child terminals (spawned via spawn_agent) indented under parent
  * - Status indicators: ◌ running (dashed border animated), ● done (green filled)
+ * - Agent spawns queued behind the agent limits shown as pending under their parent
  * - Click to navigate to terminal
- * - Close button appears on hover
+ * - Close and "Revert agent" buttons appear on hover
  * - Resizable sidebar (60-300px range)
  *
  * Architecture:
@@ -24,11 +25,14 @@ import {
     getDisplayOrder,
     syncDisplayOrder,
 } from '@/shell/edge/UI-edge/state/AgentTabsStore';
-import { clearTerminals, getActiveTerminalId } from '@/shell/edge/UI-edge/state/TerminalStore';
+import { clearTerminals, getActiveTerminalId, getPendingAgentSpawns } from '@/shell/edge/UI-edge/state/TerminalStore';
+import type { PendingAgentSpawn } from '@/shell/edge/main/terminals/spawn-queue';
+import type {} from '@/shell/electron';
 import {
     startTerminalActivityPolling,
     stopTerminalActivityPolling,
 } from '@/shell/edge/UI-edge/floating-windows/terminals/terminalActivityPolling';
+import { showAgentRevertPrompt } from '@/shell/edge/UI-edge/floating-windows/terminals/agentRevertPreviewPopup';
 // Re-export activity tracking functions for backwards compatibility
 export { markTerminalActivityForContextNode, clearActivityForTerminal } from './agentTabsActivity';
 
@@ -170,8 +174,58 @@ export function renderTerminalTree(
         containerElement.appendChild(nodeElement);
     }
 
+    // Queued spawns, indented one level below their parent terminal
+    const depthByTerminalId: Map<string, number> = new Map(
+        treeNodes.map((treeNode: TerminalTreeNode) => [getTerminalId(treeNode.terminal), treeNode.depth])
+    );
+    const pendingSpawns: readonly PendingAgentSpawn[] = getPendingAgentSpawns();
+    for (const pending of pendingSpawns) {
+        const parentDepth: number | undefined = pending.parentTerminalId !== null
+            ? depthByTerminalId.get(pending.parentTerminalId)
+            : undefined;
+        containerElement.appendChild(createPendingSpawnNode(pending, parentDepth === undefined ? 0 : parentDepth + 1));
+    }
+
     // Update visibility based on whether we have terminals
-    sidebarElement.style.display = terminals.length > 0 ? 'flex' : 'none';
+    sidebarElement.style.display = terminals.length > 0 || pendingSpawns.length > 0 ? 'flex' : 'none';
+}
+
+/**
+ * Create a DOM element for an agent spawn waiting for a free slot.
+ * Its close button cancels the spawn.
+ */
+function createPendingSpawnNode(pending: PendingAgentSpawn, depth: number): HTMLElement {
+    const node: HTMLDivElement = document.createElement('div');
+    node.className = 'terminal-tree-node pending';
+    node.setAttribute('data-depth', String(depth));
+    node.setAttribute('data-pending-id', pending.pendingId);
+    node.title = `Queued: ${pending.reason}`;
+
+    const status: HTMLSpanElement = document.createElement('span');
+    status.className = 'terminal-tree-status queued';
+    node.appendChild(status);
+
+    const title: HTMLSpanElement = document.createElement('span');
+    title.className = 'terminal-tree-title';
+    title.textContent = pending.title;
+    node.appendChild(title);
+
+    const cancelBtn: HTMLButtonElement = document.createElement('button');
+    cancelBtn.className = 'terminal-tree-close';
+    cancelBtn.textContent = '×';
+    cancelBtn.title = 'Cancel queued agent';
+    cancelBtn.addEventListener('click', (e: MouseEvent) => {
+        e.stopPropagation();
+        void window.electronAPI?.main.cancelPendingAgentSpawn(pending.pendingId);
+    });
+    node.appendChild(cancelBtn);
+
+    // Prevent drag in sidebar
+    node.addEventListener('mousedown', (e: MouseEvent) => {
+        e.stopPropagation();
+    });
+
+    return node;
 }
 
 /**
@@ -217,6 +271,17 @@ function createTreeNode(
         node.appendChild(tooltipSpan);
     }
 
+    // Revert agent button - previews, then reverts everything this agent changed
+    const revertBtn: HTMLButtonElement = document.createElement('button');
+    revertBtn.className = 'terminal-tree-revert';
+    revertBtn.textContent = '↶';
+    revertBtn.title = 'Revert agent';
+    revertBtn.addEventListener('click', (e: MouseEvent) => {
+        e.stopPropagation();
+        void showAgentRevertPrompt(terminalId);
+    });
+    node.appendChild(revertBtn);
+
     // Close button
     const closeBtn: HTMLButtonElement = document.createElement('button');
     closeBtn.className = 'terminal-tree-close';
@@ -288,10 +353,10 @@ export function setActiveTerminal(terminalId: TerminalId | null): void {
             const tooltipSpan: HTMLSpanElement = document.createElement('span');
             tooltipSpan.className = 'terminal-tab-shortcut-hint';
             tooltipSpan.textContent = hint;
-            // Insert before close button (last child)
-            const closeBtn: Element | null = node.querySelector('.terminal-tree-close');
-            if (closeBtn) {
-                node.insertBefore(tooltipSpan, closeBtn);
+            // Insert before the hover buttons (revert, close)
+            const firstButton: Element | null = node.querySelector('.terminal-tree-revert, .terminal-tree-close');
+            if (firstButton) {
+                node.insertBefore(tooltipSpan, firstButton);
             } else {
                 node.appendChild(tooltipSpan);
             }
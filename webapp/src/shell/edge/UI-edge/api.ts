@@ -15,15 +15,30 @@ import {
     createAnchoredFloatingEditor,
     updateFloatingEditors
 } from "@/shell/edge/UI-edge/floating-windows/editors/FloatingEditorCRUD";
-import {getCyInstance} from "@/shell/edge/UI-edge/state/cytoscape-state";
+import {getCyInstance, isCyInitialized} from "@/shell/edge/UI-edge/state/cytoscape-state";
 import {getResponsivePadding} from "@/utils/responsivePadding";
 import type {GraphDelta, NodeIdAndFilePath} from "@/pure/graph";
 import {isImageNode} from "@/pure/graph";
 import type {Core} from "cytoscape";
 import type {TerminalRecord} from "@/shell/edge/main/terminals/terminal-registry";
-import {syncFromMain} from "@/shell/edge/UI-edge/state/TerminalStore";
+import type {TaskScheduleState} from "@/pure/agentScheduling";
+import {
+    TASK_BLOCKED_CLASS,
+    TASK_DONE_CLASS,
+    TASK_QUEUED_CLASS,
+    TASK_RUNNING_CLASS,
+} from "@/shell/UI/cytoscape-graph-ui/constants";
+import {syncFromMain, syncPendingAgentSpawnsFromMain} from "@/shell/edge/UI-edge/state/TerminalStore";
+import type {PendingAgentSpawn} from "@/shell/edge/main/terminals/spawn-queue";
 import {setIsTrackpadScrolling} from "@/shell/edge/UI-edge/state/trackpad-state";
 import {closeTerminalById} from "@/shell/edge/UI-edge/floating-windows/terminals/closeTerminalById";
+import {showTerminalSessionRestorePrompt} from "@/shell/edge/UI-edge/floating-windows/terminals/terminalSessionRestorePopup";
+import {showWorktreeClosePrompt} from "@/shell/edge/UI-edge/floating-windows/terminals/worktreeClosePopup";
+import type {RelationshipVocabulary} from "@/pure/graph/relationships";
+import {setRelationshipVocabularyFromMain} from "@/shell/edge/UI-edge/state/RelationshipVocabularyStore";
+import {updateRelationshipVocabulary} from "@/shell/edge/UI-edge/graph/relationshipEdges";
+import {exportGraphFromUI} from "@/shell/edge/UI-edge/graph/exportGraphFromUI";
+import {cleanUpContextNodesFromUI} from "@/shell/edge/UI-edge/graph/cleanUpContextNodesFromUI";
 
 /**
  * Update floating editors from external FS changes
@@ -72,6 +87,48 @@ function syncTerminals(records: TerminalRecord[]): void {
     syncFromMain(records);
 }
 
+/**
+ * Sync agent spawns queued behind the agent limits, shown as pending in the terminal tree.
+ */
+function syncPendingAgentSpawns(pending: readonly PendingAgentSpawn[]): void {
+    syncPendingAgentSpawnsFromMain(pending);
+}
+
+const TASK_SCHEDULE_STATE_CLASSES: Record<TaskScheduleState, string> = {
+    blocked: TASK_BLOCKED_CLASS,
+    queued: TASK_QUEUED_CLASS,
+    running: TASK_RUNNING_CLASS,
+    done: TASK_DONE_CLASS,
+};
+
+/**
+ * Show the schedule state of task nodes that take part in a dependency DAG.
+ * Called from the main process agent scheduler with the full set of states.
+ */
+function setTaskScheduleStates(states: Record<NodeIdAndFilePath, TaskScheduleState>): void {
+    const cy: Core = getCyInstance();
+    const allClasses: string = Object.values(TASK_SCHEDULE_STATE_CLASSES).join(' ');
+    cy.batch(() => {
+        cy.nodes().removeClass(allClasses);
+        for (const [nodeId, state] of Object.entries(states)) {
+            cy.getElementById(nodeId).addClass(TASK_SCHEDULE_STATE_CLASSES[state]);
+        }
+    });
+}
+
+/**
+ * Use the project's relationship vocabulary for the link picker, edge styles and filter.
+ * Called from main when a project opens (possibly before the graph view exists) or
+ * its vocabulary is edited.
+ */
+function setRelationshipVocabulary(vocabulary: RelationshipVocabulary): void {
+    if (isCyInitialized()) {
+        updateRelationshipVocabulary(getCyInstance(), vocabulary);
+    } else {
+        setRelationshipVocabularyFromMain(vocabulary);
+    }
+}
+
 // Export as object (like mainAPI)
 // eslint-disable-next-line @typescript-eslint/typedef
 export const uiAPIHandler = {
@@ -80,8 +137,15 @@ export const uiAPIHandler = {
     createEditorForExternalNode,
     fitViewport,
     syncTerminals,
+    syncPendingAgentSpawns,
     setIsTrackpadScrolling,
     closeTerminalById,
+    showTerminalSessionRestorePrompt,
+    showWorktreeClosePrompt,
+    setTaskScheduleStates,
+    setRelationshipVocabulary,
+    exportGraphFromUI,
+    cleanUpContextNodesFromUI,
 };
 
 export type UIAPIType = typeof uiAPIHandler;
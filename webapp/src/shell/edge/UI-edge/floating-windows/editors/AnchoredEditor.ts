@@ -4,7 +4,8 @@ import * as O from 'fp-ts/lib/Option.js';
 
 import type {NodeIdAndFilePath} from '@/pure/graph';
 import {type EditorId, getEditorId, getShadowNodeId} from '@/shell/edge/UI-edge/floating-windows/types';
-import type {EditorData} from '@/shell/edge/UI-edge/state/UIAppState';
+import {type EditorData, vanillaFloatingWindowInstances} from '@/shell/edge/UI-edge/state/UIAppState';
+import {CodeMirrorEditorView} from '@/shell/UI/floating-windows/editors/CodeMirrorEditorView';
 import {addToAutoPinQueue, getEditorByNodeId} from '@/shell/edge/UI-edge/state/EditorStore';
 import {anchorToNode} from '@/shell/edge/UI-edge/floating-windows/anchor-to-node';
 import {setPendingPanToNode} from '@/shell/edge/UI-edge/state/PendingPanStore';
@@ -83,6 +84,31 @@ export async function createAnchoredFloatingEditor(
     }
 }
 
+// =============================================================================
+// Open Floating Editor at a Wikilink Anchor
+// =============================================================================
+
+/**
+ * Open (or bring into view) a node's anchored editor, scrolled to the heading or block
+ * a wikilink points into, e.g. "#Section" or "^block-id".
+ */
+export async function openFloatingEditorAtAnchor(
+    cy: Core,
+    nodeId: NodeIdAndFilePath,
+    anchor: string
+): Promise<void> {
+    await createAnchoredFloatingEditor(cy, nodeId);
+
+    const editor: O.Option<EditorData> = getEditorByNodeId(nodeId);
+    if (O.isNone(editor)) return;
+    const instance: { dispose: () => void } | undefined = vanillaFloatingWindowInstances.get(getEditorId(editor.value));
+    if (!(instance instanceof CodeMirrorEditorView)) return;
+
+    if (!instance.scrollToAnchor(anchor)) {
+        console.warn('[FloatingEditorManager-v2] Anchor not found in node:', nodeId, anchor);
+    }
+}
+
 // =============================================================================
 // Create Floating Editor for UI-Created Node
 // =============================================================================
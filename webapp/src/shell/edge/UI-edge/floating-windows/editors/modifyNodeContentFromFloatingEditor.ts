@@ -3,6 +3,7 @@ import type {Core} from "cytoscape";
 import {getNodeFromMainToUI} from "@/shell/edge/UI-edge/graph/getNodeFromMainToUI";
 import {fromContentChangeToGraphDelta} from "@/pure/graph/graphDelta/uiInteractionsToGraphDeltas";
 import {mergeNodeUIMetadata} from "@/shell/edge/UI-edge/graph/handleUIActions";
+import {getRelationshipVocabulary} from "@/shell/edge/UI-edge/state/RelationshipVocabularyStore";
 // Import to make Window.electronAPI type available
 import type {} from '@/shell/electron';
 
@@ -21,7 +22,7 @@ export async function modifyNodeContentFromUI(
     }
 
     // Create GraphDelta with previousNode for undo support and recent tabs filtering
-    const graphDeltaFromContent: GraphDelta = fromContentChangeToGraphDelta(currentNode, newContent, currentGraph);
+    const graphDeltaFromContent: GraphDelta = fromContentChangeToGraphDelta(currentNode, newContent, currentGraph, getRelationshipVocabulary());
 
     // Need to merge metadata since fromContentChangeToGraphDelta uses parseMarkdownToGraphNode
     // which doesn't preserve position and other metadata from the original node
@@ -42,5 +43,5 @@ export async function modifyNodeContentFromUI(
     }];
 
     // Editor path: MEM + GraphUI + FS, editors updated via broadcast but deduplication prevents loop
-    await window.electronAPI?.main.applyGraphDeltaToDBThroughMemAndUIExposed(graphDelta);
+    await window.electronAPI?.main.applyGraphDeltaToDBThroughMemAndUIExposed(graphDelta, true, {type: 'floating-editor'});
 }
\ No newline at end of file
@@ -0,0 +1,200 @@
+/**
+ * Agent Revert Preview Popup
+ *
+ * Shown from the "Revert agent" button on a terminal tab. Lists every node the revert
+ * would create, restore or delete, with expandable before/after content, and warns about
+ * nodes someone else changed after the agent. Nothing is applied until the user confirms.
+ *
+ * Pattern follows terminalSessionRestorePopup.ts
+ */
+
+import type {JournalNodeChange, JournalNodeChangeKind} from "@/pure/graph/undo";
+import type {AgentRevertPreview} from "@/shell/edge/main/graph/agentRevertOperations";
+// Import ElectronAPI type for window.electronAPI access
+import type {} from "@/shell/electron";
+
+// Labels describe what the revert does, so they read the other way round from the journal
+const REVERT_LABELS: Record<JournalNodeChangeKind, string> = {
+    created: 'Restore',
+    updated: 'Restore',
+    deleted: 'Delete',
+};
+
+function getFileName(nodeId: string): string {
+    return nodeId.split('/').pop() ?? nodeId;
+}
+
+function createContentBlock(label: string, content: string | null): HTMLElement {
+    const block: HTMLDivElement = document.createElement('div');
+    block.style.cssText = 'flex: 1; min-width: 0;';
+
+    const heading: HTMLDivElement = document.createElement('div');
+    heading.style.cssText = 'font-size: 0.75rem; color: var(--muted-foreground); margin-bottom: 4px;';
+    heading.textContent = label;
+
+    const pre: HTMLPreElement = document.createElement('pre');
+    pre.style.cssText = `
+        margin: 0;
+        padding: 8px;
+        max-height: 160px;
+        overflow: auto;
+        border: 1px solid var(--border);
+        border-radius: calc(var(--radius) - 2px);
+        background: var(--muted);
+        font-size: 0.75rem;
+        white-space: pre-wrap;
+    `;
+    // textContent, not innerHTML - contents come from user markdown
+    pre.textContent = content ?? '(none)';
+
+    block.appendChild(heading);
+    block.appendChild(pre);
+    return block;
+}
+
+function createChangeRow(change: JournalNodeChange, isConflicting: boolean): HTMLElement {
+    const details: HTMLDetailsElement = document.createElement('details');
+    details.dataset.nodeId = change.nodeId;
+
+    const summary: HTMLElement = document.createElement('summary');
+    summary.style.cssText = 'cursor: pointer; font-size: 0.9rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+    summary.textContent = `${REVERT_LABELS[change.kind]} · ${getFileName(change.nodeId)}${isConflicting ? ' ⚠' : ''}`;
+    summary.title = change.nodeId;
+
+    const diff: HTMLDivElement = document.createElement('div');
+    diff.style.cssText = 'display: flex; gap: 8px; margin-top: 8px;';
+    diff.appendChild(createContentBlock('Now', change.contentBefore));
+    diff.appendChild(createContentBlock('After revert', change.contentAfter));
+
+    details.appendChild(summary);
+    details.appendChild(diff);
+    return details;
+}
+
+/**
+ * Shows the revert preview for an agent.
+ *
+ * @returns Promise resolving to true if the user confirmed the revert
+ */
+export function showAgentRevertPreviewDialog(preview: AgentRevertPreview): Promise<boolean> {
+    return new Promise((resolve: (value: boolean) => void) => {
+        const dialog: HTMLDialogElement = document.createElement('dialog');
+        dialog.id = 'agent-revert-preview-dialog';
+        dialog.style.cssText = `
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            background: var(--background);
+            color: var(--foreground);
+            padding: 24px;
+            max-width: 720px;
+            width: 90%;
+            box-shadow: 0 4px 24px rgba(0, 0, 0, 0.2);
+            position: fixed;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            margin: 0;
+        `;
+
+        const hasChanges: boolean = preview.changes.length > 0;
+
+        dialog.innerHTML = `
+            <form method="dialog" style="display: flex; flex-direction: column; gap: 16px;">
+                <h2 id="revert-title" style="margin: 0; font-size: 1.1rem; font-weight: 600;"></h2>
+                <p id="revert-description" style="margin: 0; color: var(--muted-foreground); font-size: 0.9rem;"></p>
+                <div id="change-list" style="display: flex; flex-direction: column; gap: 8px; max-height: 50vh; overflow-y: auto;"></div>
+                <div style="display: flex; gap: 8px; justify-content: flex-end;">
+                    <button
+                        type="button"
+                        id="cancel-button"
+                        data-testid="cancel-agent-revert-button"
+                        style="
+                            padding: 8px 16px;
+                            border: 1px solid var(--border);
+                            border-radius: calc(var(--radius) - 2px);
+                            background: transparent;
+                            color: var(--foreground);
+                            cursor: pointer;
+                            font-size: 0.9rem;
+                        "
+                    >Cancel</button>
+                    <button
+                        type="submit"
+                        id="revert-button"
+                        data-testid="confirm-agent-revert-button"
+                        style="
+                            padding: 8px 16px;
+                            border: none;
+                            border-radius: calc(var(--radius) - 2px);
+                            background: var(--destructive);
+                            color: var(--primary-foreground);
+                            cursor: pointer;
+                            font-size: 0.9rem;
+                        "
+                    >Revert</button>
+                </div>
+            </form>
+        `;
+
+        document.body.appendChild(dialog);
+
+        const form: HTMLFormElement = dialog.querySelector('form')!;
+        const title: HTMLHeadingElement = dialog.querySelector('#revert-title')!;
+        const description: HTMLParagraphElement = dialog.querySelector('#revert-description')!;
+        const list: HTMLDivElement = dialog.querySelector('#change-list')!;
+        const cancelButton: HTMLButtonElement = dialog.querySelector('#cancel-button')!;
+        const revertButton: HTMLButtonElement = dialog.querySelector('#revert-button')!;
+
+        title.textContent = `Revert ${preview.agentName}`;
+        if (!hasChanges) {
+            description.textContent = `${preview.agentName} has no changes left to revert.`;
+            revertButton.style.display = 'none';
+        } else if (preview.conflictingNodeIds.length > 0) {
+            description.textContent = `${preview.changes.length} node(s) will be reverted. Nodes marked ⚠ were changed after ${preview.agentName} - reverting overwrites those changes too.`;
+        } else {
+            description.textContent = `${preview.changes.length} node(s) will be reverted. You can undo this afterwards.`;
+        }
+
+        const conflicting: ReadonlySet<string> = new Set(preview.conflictingNodeIds);
+        for (const change of preview.changes) {
+            list.appendChild(createChangeRow(change, conflicting.has(change.nodeId)));
+        }
+
+        cancelButton.addEventListener('click', () => {
+            dialog.close();
+            resolve(false);
+        });
+
+        form.addEventListener('submit', (e: Event) => {
+            e.preventDefault();
+            dialog.close();
+            resolve(hasChanges);
+        });
+
+        dialog.addEventListener('close', () => {
+            dialog.remove();
+        });
+
+        // Escape cancels
+        dialog.addEventListener('cancel', () => {
+            resolve(false);
+        });
+
+        dialog.showModal();
+    });
+}
+
+/**
+ * Fetches the revert preview for a terminal's agent from main, shows it,
+ * and applies the revert if the user confirms.
+ */
+export async function showAgentRevertPrompt(terminalId: string): Promise<void> {
+    const preview: AgentRevertPreview | null | undefined = await window.electronAPI?.main.previewAgentRevert(terminalId);
+    if (!preview) {
+        return;
+    }
+    const confirmed: boolean = await showAgentRevertPreviewDialog(preview);
+    if (confirmed) {
+        await window.electronAPI?.main.revertAgent(terminalId);
+    }
+}
@@ -46,6 +46,22 @@ async function waitForNode(
     return null;
 }
 
+/**
+ * Ask main to spawn the agent terminal. Main rejects spawns over the agent limits
+ * (settings.maxRunningAgents); tell the user instead of failing silently.
+ */
+async function spawnAgentTerminalInMain(
+    parentNodeId: NodeIdAndFilePath,
+    command: string,
+    terminalCount: number
+): Promise<void> {
+    try {
+        await window.electronAPI?.main.spawnTerminalWithContextNode(parentNodeId, command, terminalCount);
+    } catch (error) {
+        alert(`Could not start agent: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 interface AgentLaunchConfig {
     finalCommand: string;
     popupWasShown: boolean;
@@ -203,11 +219,7 @@ export async function spawnTerminalWithCommandEditor(
 
     // Spawn terminal with the (possibly modified) command
     // Worktree prefix is already in result.command if user enabled worktree toggle
-    await window.electronAPI?.main.spawnTerminalWithContextNode(
-        parentNodeId,
-        result.command,
-        terminalCount
-    );
+    await spawnAgentTerminalInMain(parentNodeId, result.command, terminalCount);
 }
 
 /**
@@ -279,9 +291,7 @@ export async function spawnTerminalWithNewContextNode(
 
     // Delegate to main process which has immediate graph access
     // Worktree prefix is already in command if user enabled worktree toggle in popup
-    await window.electronAPI?.main.spawnTerminalWithContextNode(
-        parentNodeId, command, terminalCount
-    );
+    await spawnAgentTerminalInMain(parentNodeId, command, terminalCount);
 }
 
 /**
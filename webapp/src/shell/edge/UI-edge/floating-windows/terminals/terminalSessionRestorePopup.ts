@@ -0,0 +1,180 @@
+/**
+ * Terminal Session Restore Popup
+ *
+ * Shown when a project is opened that had terminals running when the app last quit.
+ * Lists the saved agents as a tree and lets the user choose, per agent, whether to
+ * resume it, relaunch it, or skip it. The choice is sent back to main, which spawns
+ * the terminals parent-first so the tree-style tabs are rebuilt.
+ *
+ * Pattern follows agentCommandEditorPopup.ts
+ */
+
+import type {RestorableTerminalSession, SessionRestoreMode} from "@/pure/agentTabs/terminalSessions";
+// Import ElectronAPI type for window.electronAPI access
+import type {} from "@/shell/electron";
+
+const MODE_LABELS: Record<SessionRestoreMode, string> = {
+    resume: 'Resume',
+    relaunch: 'Relaunch',
+    skip: 'Skip',
+};
+
+function createSessionRow(restorable: RestorableTerminalSession): {row: HTMLElement; select: HTMLSelectElement} {
+    const row: HTMLDivElement = document.createElement('div');
+    row.style.cssText = `
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 12px;
+        padding-left: ${restorable.depth * 16}px;
+    `;
+
+    const label: HTMLSpanElement = document.createElement('span');
+    label.style.cssText = 'font-size: 0.9rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+    // textContent, not innerHTML - titles come from user markdown
+    label.textContent = `${restorable.depth > 0 ? '└ ' : ''}${restorable.session.agentName} · ${restorable.session.title}`;
+    label.title = restorable.session.initialCommand ?? '';
+
+    const select: HTMLSelectElement = document.createElement('select');
+    select.dataset.terminalId = restorable.session.terminalId;
+    select.style.cssText = `
+        padding: 4px 8px;
+        border: 1px solid var(--border);
+        border-radius: calc(var(--radius) - 2px);
+        background: var(--input);
+        color: var(--foreground);
+        font-size: 0.85rem;
+    `;
+    for (const mode of restorable.availableModes) {
+        const option: HTMLOptionElement = document.createElement('option');
+        option.value = mode;
+        option.textContent = MODE_LABELS[mode];
+        select.appendChild(option);
+    }
+    // Default to the first available mode (resume when the agent supports it)
+    select.value = restorable.availableModes[0];
+
+    row.appendChild(label);
+    row.appendChild(select);
+    return {row, select};
+}
+
+/**
+ * Shows the restore dialog for the given sessions.
+ *
+ * @returns Promise resolving to the chosen mode per terminalId, or null if the user discarded all sessions
+ */
+export function showTerminalSessionRestoreDialog(
+    sessions: readonly RestorableTerminalSession[]
+): Promise<Record<string, SessionRestoreMode> | null> {
+    return new Promise((resolve: (value: Record<string, SessionRestoreMode> | null) => void) => {
+        const dialog: HTMLDialogElement = document.createElement('dialog');
+        dialog.id = 'terminal-session-restore-dialog';
+        dialog.style.cssText = `
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            background: var(--background);
+            color: var(--foreground);
+            padding: 24px;
+            max-width: 520px;
+            width: 90%;
+            box-shadow: 0 4px 24px rgba(0, 0, 0, 0.2);
+            position: fixed;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            margin: 0;
+        `;
+
+        dialog.innerHTML = `
+            <form method="dialog" style="display: flex; flex-direction: column; gap: 16px;">
+                <h2 style="margin: 0; font-size: 1.1rem; font-weight: 600;">
+                    Restore Agents
+                </h2>
+                <p style="margin: 0; color: var(--muted-foreground); font-size: 0.9rem;">
+                    These agents were running when this project was last closed.
+                </p>
+                <div id="session-list" style="display: flex; flex-direction: column; gap: 8px; max-height: 50vh; overflow-y: auto;"></div>
+                <div style="display: flex; gap: 8px; justify-content: flex-end;">
+                    <button
+                        type="button"
+                        id="discard-button"
+                        data-testid="discard-sessions-button"
+                        style="
+                            padding: 8px 16px;
+                            border: 1px solid var(--border);
+                            border-radius: calc(var(--radius) - 2px);
+                            background: transparent;
+                            color: var(--foreground);
+                            cursor: pointer;
+                            font-size: 0.9rem;
+                        "
+                    >Discard</button>
+                    <button
+                        type="submit"
+                        id="restore-button"
+                        data-testid="restore-sessions-button"
+                        style="
+                            padding: 8px 16px;
+                            border: none;
+                            border-radius: calc(var(--radius) - 2px);
+                            background: var(--primary);
+                            color: var(--primary-foreground);
+                            cursor: pointer;
+                            font-size: 0.9rem;
+                        "
+                    >Restore</button>
+                </div>
+            </form>
+        `;
+
+        document.body.appendChild(dialog);
+
+        const form: HTMLFormElement = dialog.querySelector('form')!;
+        const list: HTMLDivElement = dialog.querySelector('#session-list')!;
+        const discardButton: HTMLButtonElement = dialog.querySelector('#discard-button')!;
+
+        const selects: readonly HTMLSelectElement[] = sessions.map((restorable: RestorableTerminalSession) => {
+            const {row, select} = createSessionRow(restorable);
+            list.appendChild(row);
+            return select;
+        });
+
+        discardButton.addEventListener('click', () => {
+            dialog.close();
+            resolve(null);
+        });
+
+        form.addEventListener('submit', (e: Event) => {
+            e.preventDefault();
+            const choices: Record<string, SessionRestoreMode> = Object.fromEntries(
+                selects.map((select: HTMLSelectElement) => [select.dataset.terminalId ?? '', select.value as SessionRestoreMode])
+            );
+            dialog.close();
+            resolve(choices);
+        });
+
+        dialog.addEventListener('close', () => {
+            dialog.remove();
+        });
+
+        // Prevent Escape key from closing without resolving
+        dialog.addEventListener('cancel', (e: Event) => {
+            e.preventDefault();
+        });
+
+        dialog.showModal();
+    });
+}
+
+/**
+ * Called from main (via uiAPI) after a project with saved sessions is opened.
+ * Discarding restores nothing, which also forgets the saved sessions.
+ */
+export async function showTerminalSessionRestorePrompt(sessions: readonly RestorableTerminalSession[]): Promise<void> {
+    if (sessions.length === 0) {
+        return;
+    }
+    const choices: Record<string, SessionRestoreMode> | null = await showTerminalSessionRestoreDialog(sessions);
+    await window.electronAPI?.main.restoreTerminalSessions(choices ?? {});
+}
@@ -0,0 +1,128 @@
+/**
+ * Worktree Close Popup
+ *
+ * Shown when an agent that ran in a git worktree closes. Shows the worktree's diff
+ * against the base branch and offers to merge it, rebase and fast-forward it, remove
+ * it, or keep it for later (it then shows up in the Worktrees panel).
+ *
+ * Pattern follows terminalSessionRestorePopup.ts
+ */
+
+import {formatWorktreeDiffSummary, type ManagedWorktree} from "@/pure/worktree";
+// Import ElectronAPI type for window.electronAPI access
+import type {} from "@/shell/electron";
+
+export type WorktreeCloseAction = 'merge' | 'rebase' | 'remove' | 'keep';
+
+const ACTION_LABELS: Record<WorktreeCloseAction, string> = {
+    merge: 'Merge',
+    rebase: 'Rebase & merge',
+    remove: 'Remove',
+    keep: 'Keep',
+};
+
+/**
+ * Shows the close dialog for a worktree.
+ *
+ * @returns Promise resolving to the chosen action ('keep' if dismissed)
+ */
+export function showWorktreeCloseDialog(worktree: ManagedWorktree): Promise<WorktreeCloseAction> {
+    return new Promise((resolve: (value: WorktreeCloseAction) => void) => {
+        const dialog: HTMLDialogElement = document.createElement('dialog');
+        dialog.id = 'worktree-close-dialog';
+        dialog.style.cssText = `
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            background: var(--background);
+            color: var(--foreground);
+            padding: 24px;
+            max-width: 520px;
+            width: 90%;
+            box-shadow: 0 4px 24px rgba(0, 0, 0, 0.2);
+            position: fixed;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            margin: 0;
+        `;
+
+        dialog.innerHTML = `
+            <div style="display: flex; flex-direction: column; gap: 16px;">
+                <h2 id="worktree-title" style="margin: 0; font-size: 1.1rem; font-weight: 600;"></h2>
+                <p id="worktree-description" style="margin: 0; color: var(--muted-foreground); font-size: 0.9rem;"></p>
+                <p id="worktree-diff" style="margin: 0; font-family: monospace; font-size: 0.85rem;"></p>
+                <div id="worktree-actions" style="display: flex; gap: 8px; justify-content: flex-end;"></div>
+            </div>
+        `;
+
+        document.body.appendChild(dialog);
+
+        // textContent, not innerHTML - names come from node titles
+        dialog.querySelector('#worktree-title')!.textContent = `Worktree ${worktree.branch ?? worktree.name}`;
+        dialog.querySelector('#worktree-description')!.textContent =
+            `${worktree.owner?.agentName ?? 'The agent'} has closed. What should happen to its worktree?`;
+        dialog.querySelector('#worktree-diff')!.textContent = worktree.diff
+            ? formatWorktreeDiffSummary(worktree.diff)
+            : 'Diff unavailable';
+
+        const actions: HTMLDivElement = dialog.querySelector('#worktree-actions')!;
+        const availableActions: readonly WorktreeCloseAction[] = worktree.diff?.hasUncommittedChanges
+            // Uncommitted changes must be committed before merging
+            ? ['keep', 'remove']
+            : ['keep', 'remove', 'rebase', 'merge'];
+
+        const finish: (action: WorktreeCloseAction) => void = (action: WorktreeCloseAction): void => {
+            dialog.close();
+            resolve(action);
+        };
+
+        for (const action of availableActions) {
+            const button: HTMLButtonElement = document.createElement('button');
+            button.type = 'button';
+            button.dataset.testid = `worktree-${action}-button`;
+            button.textContent = ACTION_LABELS[action];
+            const isPrimary: boolean = action === 'merge';
+            button.style.cssText = `
+                padding: 8px 16px;
+                border: ${isPrimary ? 'none' : '1px solid var(--border)'};
+                border-radius: calc(var(--radius) - 2px);
+                background: ${isPrimary ? 'var(--primary)' : 'transparent'};
+                color: ${isPrimary ? 'var(--primary-foreground)' : action === 'remove' ? 'var(--destructive)' : 'var(--foreground)'};
+                cursor: pointer;
+                font-size: 0.9rem;
+            `;
+            button.addEventListener('click', () => finish(action));
+            actions.appendChild(button);
+        }
+
+        dialog.addEventListener('close', () => {
+            dialog.remove();
+        });
+
+        // Escape keeps the worktree
+        dialog.addEventListener('cancel', () => {
+            resolve('keep');
+        });
+
+        dialog.showModal();
+    });
+}
+
+/**
+ * Called from main (via uiAPI) when an agent owning a worktree closes.
+ * Failures (e.g. merge conflicts) are reported and leave the worktree in place.
+ */
+export async function showWorktreeClosePrompt(worktree: ManagedWorktree): Promise<void> {
+    const action: WorktreeCloseAction = await showWorktreeCloseDialog(worktree);
+    try {
+        if (action === 'merge' || action === 'rebase') {
+            await window.electronAPI?.main.mergeWorktree(worktree.path, action);
+            await window.electronAPI?.main.removeWorktree(worktree.path, {deleteBranch: true});
+        } else if (action === 'remove') {
+            // The user chose to discard the worktree, including unmerged work
+            await window.electronAPI?.main.removeWorktree(worktree.path, {deleteBranch: true, force: true});
+        }
+    } catch (error) {
+        window.alert(`${ACTION_LABELS[action]} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
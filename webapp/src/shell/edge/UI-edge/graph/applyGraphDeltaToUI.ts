@@ -3,6 +3,7 @@ import type {GraphDelta, GraphNode} from "@/pure/graph";
 import * as O from 'fp-ts/lib/Option.js';
 import {getNodeTitle} from "@/pure/graph/markdown-parsing";
 import {hasActualContentChanged} from "@/pure/graph/contentChangeDetection";
+import {getNodeAliases} from "@/pure/graph/graph-operations/linkResolutionIndexes";
 import posthog from "posthog-js";
 import {markTerminalActivityForContextNode} from "@/shell/UI/views/treeStyleTerminalTabs/agentTabsActivity";
 import type {} from '@/utils/types/cytoscape-layout-utilities';
@@ -12,6 +13,10 @@ import {getEditorByNodeId} from "@/shell/edge/UI-edge/state/EditorStore";
 import {scheduleIdleWork} from "@/utils/scheduleIdleWork";
 import {getTerminals} from "@/shell/edge/UI-edge/state/TerminalStore";
 import {getShadowNodeId, getTerminalId} from "@/shell/edge/UI-edge/floating-windows/types";
+import {applyRelationshipToEdge} from "@/shell/edge/UI-edge/graph/relationshipEdges";
+import {applyTagsToNode} from "@/shell/edge/UI-edge/graph/tagFilter";
+import {getNodeTags} from "@/pure/graph/tags";
+import {getFrontmatterString} from "@/pure/graph/frontmatter";
 
 /**
  * Validates if a color value is a valid CSS color using the browser's CSS.supports API
@@ -99,7 +104,7 @@ export function applyGraphDeltaToUI(cy: Core, delta: GraphDelta): ApplyGraphDelt
 
                     //console.log(`[applyGraphDeltaToUI] Creating node ${nodeId} with color:`, colorValue);
 
-                    cy.add({
+                    const addedNode: CollectionReturnValue = cy.add({
                         group: 'nodes' as const,
                         data: {
                             id: nodeId,
@@ -107,16 +112,18 @@ export function applyGraphDeltaToUI(cy: Core, delta: GraphDelta): ApplyGraphDelt
                             content: node.contentWithoutYamlOrLinks,
                             summary: '',
                             color: colorValue,
-                            isContextNode: node.nodeUIMetadata.isContextNode === true
+                            isContextNode: node.nodeUIMetadata.isContextNode === true,
+                            aliases: getNodeAliases(node)
                         },
                         position: {
                             x: pos.x,
                             y: pos.y
                         }
                     });
+                    applyTagsToNode(addedNode, getNodeTags(node));
 
                     // Create edge from terminal to node if agent_name matches terminal's agentName
-                    const nodeAgentName: string | undefined = node.nodeUIMetadata.additionalYAMLProps.get('agent_name');
+                    const nodeAgentName: string | undefined = getFrontmatterString(node.nodeUIMetadata.additionalYAMLProps, 'agent_name');
                     if (nodeAgentName) {
                         // Find terminal with matching agentName
                         const terminals: Map<string, import('@/shell/edge/UI-edge/floating-windows/types').TerminalData> = getTerminals();
@@ -164,6 +171,8 @@ export function applyGraphDeltaToUI(cy: Core, delta: GraphDelta): ApplyGraphDelt
                         existingNode.data('color', color);
                     }
                     existingNode.data('isContextNode', node.nodeUIMetadata.isContextNode === true);
+                    existingNode.data('aliases', getNodeAliases(node));
+                    applyTagsToNode(existingNode, getNodeTags(node));
                     // Only emit content-changed (blue animation) if actual content changed, not just links
                     if (O.isSome(nodeDelta.previousNode) &&
                         hasActualContentChanged(
@@ -222,6 +231,7 @@ export function applyGraphDeltaToUI(cy: Core, delta: GraphDelta): ApplyGraphDelt
                     // If edge already exists, update its label
                     if (existingEdge.length > 0) {
                         existingEdge.data('label', newLabel);
+                        applyRelationshipToEdge(existingEdge, edge.label);
                         return;
                     }
 
@@ -246,7 +256,7 @@ export function applyGraphDeltaToUI(cy: Core, delta: GraphDelta): ApplyGraphDelt
                             }
 
                             //console.log(`[applyGraphDeltaToUI] Adding new edge: ${edgeId} with label ${edge.label}`);
-                            cy.add({
+                            const addedEdge: CollectionReturnValue = cy.add({
                                 group: 'edges' as const,
                                 data: {
                                     id: edgeId,
@@ -255,6 +265,7 @@ export function applyGraphDeltaToUI(cy: Core, delta: GraphDelta): ApplyGraphDelt
                                     label: newLabel
                                 }
                             });
+                            applyRelationshipToEdge(addedEdge, edge.label);
                             // Mark terminal activity for both source and target nodes
                             // markTerminalActivityForContextNode checks both attachedToNodeId (context) and anchoredToNodeId (task)
                             // Deferred via requestIdleCallback since activity dots are non-critical visual feedback
@@ -0,0 +1,41 @@
+import type {Graph, GraphNode, NodeIdAndFilePath} from "@/pure/graph";
+import {DEFAULT_CONTEXT_NODE_RETENTION} from "@/pure/graph/context-retention/planContextNodeRetention";
+import {getNodeTitle} from "@/pure/graph/markdown-parsing";
+import type {ContextNodeRetentionSettings, VTSettings} from "@/pure/settings/types";
+import {showContextNodeCleanupPopup, type ContextNodeCleanupChoice} from "@/shell/edge/UI-edge/graph/contextNodeCleanupPopup";
+
+// Import ElectronAPI type for window.electronAPI access
+import type {ElectronAPI} from "@/shell/electron";
+
+/**
+ * Clean up old context nodes (from the application menu).
+ * - Previews which context nodes the retention policy would archive or delete
+ * - On confirm, removes the previewed nodes and saves the policy as the new default
+ */
+export async function cleanUpContextNodesFromUI(): Promise<void> {
+    const main: ElectronAPI['main'] | undefined = window.electronAPI?.main;
+    if (!main) {
+        return;
+    }
+    const currentGraph: Graph = await main.getGraph();
+    const settings: VTSettings = await main.loadSettings() as VTSettings;
+
+    const choice: ContextNodeCleanupChoice | null = await showContextNodeCleanupPopup({
+        initialPolicy: settings.contextNodeRetention ?? DEFAULT_CONTEXT_NODE_RETENTION,
+        loadPreview: (policy: ContextNodeRetentionSettings) => main.previewContextNodeCleanup(policy),
+        getNodeLabel: (nodeId: NodeIdAndFilePath): string => {
+            const node: GraphNode | undefined = currentGraph.nodes[nodeId];
+            return node ? getNodeTitle(node) : nodeId;
+        }
+    });
+    if (choice === null) {
+        return;
+    }
+
+    try {
+        await main.saveSettings({...settings, contextNodeRetention: choice.policy});
+        await main.cleanUpContextNodes(choice.policy, choice.nodeIds);
+    } catch (error) {
+        console.error('[cleanUpContextNodesFromUI] Failed to clean up context nodes:', error);
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * Context Node Cleanup Popup
+ *
+ * Displays an HTML dialog for the context node retention policy (how many context nodes
+ * to keep per task, archive or delete the rest) with a dry-run preview of the nodes that
+ * would be removed. The preview refreshes whenever the policy changes.
+ *
+ * Pattern follows exportGraphPopup.ts
+ */
+
+import type {NodeIdAndFilePath} from "@/pure/graph";
+import type {ContextNodeRetentionPlan, RemovedContextNode} from "@/pure/graph/context-retention/planContextNodeRetention";
+import type {ContextNodeRetentionSettings} from "@/pure/settings/types";
+
+export interface ContextNodeCleanupChoice {
+    readonly policy: ContextNodeRetentionSettings;
+    // The previewed nodes the user confirmed removing
+    readonly nodeIds: readonly NodeIdAndFilePath[];
+}
+
+export interface ContextNodeCleanupPopupOptions {
+    readonly initialPolicy: ContextNodeRetentionSettings;
+    readonly loadPreview: (policy: ContextNodeRetentionSettings) => Promise<ContextNodeRetentionPlan>;
+    readonly getNodeLabel: (nodeId: NodeIdAndFilePath) => string;
+}
+
+function formatCreatedAt(createdAt: number | undefined): string {
+    return createdAt !== undefined ? new Date(createdAt).toLocaleString() : 'unknown date';
+}
+
+/**
+ * Shows a modal dialog previewing the cleanup.
+ *
+ * @returns Promise resolving to the confirmed policy and nodes, or null if cancelled
+ */
+export function showContextNodeCleanupPopup(options: ContextNodeCleanupPopupOptions): Promise<ContextNodeCleanupChoice | null> {
+    return new Promise((resolve: (value: ContextNodeCleanupChoice | null) => void) => {
+        const dialog: HTMLDialogElement = document.createElement('dialog');
+        dialog.id = 'context-node-cleanup-dialog';
+        dialog.style.cssText = `
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            background: var(--background);
+            color: var(--foreground);
+            padding: 24px;
+            max-width: 560px;
+            width: 90%;
+            box-shadow: 0 4px 24px rgba(0, 0, 0, 0.2);
+            position: fixed;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            margin: 0;
+        `;
+
+        dialog.innerHTML = `
+            <form method="dialog" style="display: flex; flex-direction: column; gap: 16px;">
+                <h2 style="margin: 0; font-size: 1.1rem; font-weight: 600;">Clean Up Context Nodes</h2>
+                <div style="display: flex; flex-direction: column; gap: 8px; font-size: 0.9rem;">
+                    <label>
+                        Keep the newest
+                        <input
+                            id="keep-per-task-input"
+                            data-testid="keep-per-task-input"
+                            type="number"
+                            min="0"
+                            step="1"
+                            value="${options.initialPolicy.keepPerTask}"
+                            style="
+                                width: 64px;
+                                padding: 2px 6px;
+                                border: 1px solid var(--border);
+                                border-radius: calc(var(--radius) - 2px);
+                                background: var(--input);
+                                color: var(--foreground);
+                                font-family: inherit;
+                            "
+                        />
+                        context nodes per task
+                    </label>
+                    <span style="color: var(--muted-foreground); font-size: 0.8rem;">
+                        Context nodes attached to a terminal are always kept.
+                    </span>
+                    <div style="display: flex; gap: 16px;">
+                        <label><input type="radio" name="action" value="archive" ${options.initialPolicy.action === 'archive' ? 'checked' : ''} /> Archive the rest</label>
+                        <label><input type="radio" name="action" value="delete" ${options.initialPolicy.action === 'delete' ? 'checked' : ''} /> Delete the rest</label>
+                    </div>
+                </div>
+                <div data-testid="cleanup-summary" style="font-size: 0.9rem;"></div>
+                <ul
+                    data-testid="cleanup-preview"
+                    style="
+                        margin: 0;
+                        padding: 8px 8px 8px 24px;
+                        max-height: 240px;
+                        overflow-y: auto;
+                        border: 1px solid var(--border);
+                        border-radius: calc(var(--radius) - 2px);
+                        font-size: 0.8rem;
+                    "
+                ></ul>
+                <div style="display: flex; gap: 8px; justify-content: flex-end;">
+                    <button
+                        type="button"
+                        id="cancel-button"
+                        data-testid="cancel-button"
+                        style="
+                            padding: 8px 16px;
+                            border: 1px solid var(--border);
+                            border-radius: calc(var(--radius) - 2px);
+                            background: transparent;
+                            color: var(--foreground);
+                            cursor: pointer;
+                            font-size: 0.9rem;
+                        "
+                    >Cancel</button>
+                    <button
+                        type="submit"
+                        id="confirm-button"
+                        data-testid="confirm-button"
+                        disabled
+                        style="
+                            padding: 8px 16px;
+                            border: none;
+                            border-radius: calc(var(--radius) - 2px);
+                            background: var(--primary);
+                            color: var(--primary-foreground);
+                            cursor: pointer;
+                            font-size: 0.9rem;
+                        "
+                    >Clean Up</button>
+                </div>
+            </form>
+        `;
+
+        document.body.appendChild(dialog);
+
+        const form: HTMLFormElement = dialog.querySelector('form')!;
+        const keepInput: HTMLInputElement = dialog.querySelector('#keep-per-task-input')!;
+        const summary: HTMLElement = dialog.querySelector('[data-testid="cleanup-summary"]')!;
+        const previewList: HTMLUListElement = dialog.querySelector('[data-testid="cleanup-preview"]')!;
+        const confirmButton: HTMLButtonElement = dialog.querySelector('#confirm-button')!;
+        const cancelButton: HTMLButtonElement = dialog.querySelector('#cancel-button')!;
+
+        const getPolicy: () => ContextNodeRetentionSettings = (): ContextNodeRetentionSettings => {
+            const checked: HTMLInputElement | null = dialog.querySelector('input[name="action"]:checked');
+            const keepPerTask: number = Math.floor(Number(keepInput.value));
+            return {
+                keepPerTask: Number.isFinite(keepPerTask) && keepPerTask >= 0 ? keepPerTask : options.initialPolicy.keepPerTask,
+                action: checked?.value === 'delete' ? 'delete' : 'archive'
+            };
+        };
+
+        // The preview shown when the user confirms - a newer request replaces an older one
+        const previewState: { plan: ContextNodeRetentionPlan | null; requestId: number } = {plan: null, requestId: 0};
+
+        const renderPreview: (plan: ContextNodeRetentionPlan) => void = (plan: ContextNodeRetentionPlan): void => {
+            const keptByTerminal: number = plan.kept.filter(kept => kept.reason === 'terminal').length;
+            const verb: string = plan.policy.action === 'archive' ? 'archived' : 'deleted';
+            summary.textContent = `${plan.removed.length} context node${plan.removed.length !== 1 ? 's' : ''} will be ${verb}. `
+                + `${plan.kept.length} kept (${keptByTerminal} attached to a terminal).`;
+            // Node titles are user content - set as text, not HTML
+            previewList.replaceChildren(...plan.removed.map((removed: RemovedContextNode): HTMLLIElement => {
+                const item: HTMLLIElement = document.createElement('li');
+                const task: string = removed.taskNodeId !== undefined ? ` - task: ${options.getNodeLabel(removed.taskNodeId)}` : '';
+                item.textContent = `${options.getNodeLabel(removed.nodeId)} (${formatCreatedAt(removed.createdAt)})${task}`;
+                item.title = removed.nodeId;
+                return item;
+            }));
+            confirmButton.textContent = plan.policy.action === 'archive' ? `Archive ${plan.removed.length}` : `Delete ${plan.removed.length}`;
+            confirmButton.disabled = plan.removed.length === 0;
+        };
+
+        const refreshPreview: () => void = (): void => {
+            const requestId: number = previewState.requestId + 1;
+            previewState.requestId = requestId;
+            previewState.plan = null;
+            confirmButton.disabled = true;
+            summary.textContent = 'Loading preview...';
+            options.loadPreview(getPolicy())
+                .then((plan: ContextNodeRetentionPlan) => {
+                    if (previewState.requestId === requestId) {
+                        previewState.plan = plan;
+                        renderPreview(plan);
+                    }
+                })
+                .catch((error: unknown) => {
+                    if (previewState.requestId === requestId) {
+                        summary.textContent = `Could not load the preview: ${error instanceof Error ? error.message : String(error)}`;
+                    }
+                });
+        };
+
+        keepInput.addEventListener('input', refreshPreview);
+        dialog.querySelectorAll('input[name="action"]').forEach((radio: Element) => {
+            radio.addEventListener('change', refreshPreview);
+        });
+
+        // Cancel button click handler
+        cancelButton.addEventListener('click', () => {
+            dialog.close();
+            resolve(null);
+        });
+
+        // Form submit (confirm button) handler - removes exactly what the preview showed
+        form.addEventListener('submit', (e: Event) => {
+            e.preventDefault();
+            const plan: ContextNodeRetentionPlan | null = previewState.plan;
+            if (plan === null || plan.removed.length === 0) {
+                return;
+            }
+            dialog.close();
+            resolve({policy: plan.policy, nodeIds: plan.removed.map(removed => removed.nodeId)});
+        });
+
+        // Clean up dialog on close
+        dialog.addEventListener('close', () => {
+            dialog.remove();
+        });
+
+        // Prevent Escape key from closing without resolving
+        dialog.addEventListener('cancel', (e: Event) => {
+            e.preventDefault();
+        });
+
+        dialog.showModal();
+        refreshPreview();
+    });
+}
@@ -0,0 +1,48 @@
+import type {Graph, GraphNode, NodeIdAndFilePath} from "@/pure/graph";
+import {exportGraph, GRAPH_EXPORT_FORMAT_LABELS, type GraphExportFormat} from "@/pure/graph/export/exportGraph";
+import {getGraphForExportScope} from "@/pure/graph/export/graphExportScope";
+import {getNodeTitle} from "@/pure/graph/markdown-parsing";
+import type {VTSettings} from "@/pure/settings/types";
+import {getCyInstance, isCyInitialized} from "@/shell/edge/UI-edge/state/cytoscape-state";
+import {showExportGraphPopup, type ExportGraphChoice} from "@/shell/edge/UI-edge/graph/exportGraphPopup";
+
+// Import ElectronAPI type for window.electronAPI access
+import type {} from "@/shell/electron";
+
+const DEFAULT_EXPORT_DISTANCE: number = 5;
+
+/**
+ * Export the graph in the given format (from the application menu).
+ * - The user picks the whole vault, the selected nodes, or the neighborhood of the selected node
+ * - The export is copied to the clipboard or saved to a file
+ */
+export async function exportGraphFromUI(format: GraphExportFormat): Promise<void> {
+    const currentGraph: Graph | undefined = await window.electronAPI?.main.getGraph();
+    if (!currentGraph) {
+        console.error('[exportGraphFromUI] NO GRAPH IN STATE');
+        return;
+    }
+
+    const selectedNodeIds: readonly NodeIdAndFilePath[] = isCyInitialized()
+        ? getCyInstance().$(':selected').nodes().map(n => n.id()).filter(id => currentGraph.nodes[id] !== undefined)
+        : [];
+    const singleSelectedNode: GraphNode | undefined = selectedNodeIds.length === 1 ? currentGraph.nodes[selectedNodeIds[0]] : undefined;
+    const settings: VTSettings | undefined = await window.electronAPI?.main.loadSettings() as VTSettings | undefined;
+
+    const choice: ExportGraphChoice | null = await showExportGraphPopup({
+        formatLabel: GRAPH_EXPORT_FORMAT_LABELS[format],
+        selectedNodeIds,
+        selectedNodeTitle: singleSelectedNode ? getNodeTitle(singleSelectedNode) : undefined,
+        defaultDistance: settings?.contextNodeMaxDistance ?? DEFAULT_EXPORT_DISTANCE
+    });
+    if (choice === null) {
+        return;
+    }
+
+    if (choice.action === 'save') {
+        await window.electronAPI?.main.exportGraphToFile(format, choice.scope);
+        return;
+    }
+    await navigator.clipboard.writeText(exportGraph(getGraphForExportScope(currentGraph, choice.scope), format));
+}
+
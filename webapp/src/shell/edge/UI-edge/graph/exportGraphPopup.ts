@@ -0,0 +1,187 @@
+/**
+ * Export Graph Popup
+ *
+ * Displays an HTML dialog for choosing what part of the graph to export
+ * (whole vault, selection, or the neighborhood of the selected node) and
+ * whether to copy the export or save it to a file.
+ *
+ * Pattern follows taskInputPopup.ts
+ */
+
+import type {NodeIdAndFilePath} from "@/pure/graph";
+import type {GraphExportScope} from "@/pure/graph/export/graphExportScope";
+
+export interface ExportGraphChoice {
+    readonly scope: GraphExportScope;
+    readonly action: 'copy' | 'save';
+}
+
+export interface ExportGraphPopupOptions {
+    readonly formatLabel: string;
+    readonly selectedNodeIds: readonly NodeIdAndFilePath[];
+    // Title of the single selected node, offered for the neighborhood scope
+    readonly selectedNodeTitle: string | undefined;
+    readonly defaultDistance: number;
+}
+
+/**
+ * Shows a modal dialog for choosing the export scope.
+ *
+ * @returns Promise resolving to the chosen scope and action, or null if cancelled
+ */
+export function showExportGraphPopup(options: ExportGraphPopupOptions): Promise<ExportGraphChoice | null> {
+    return new Promise((resolve: (value: ExportGraphChoice | null) => void) => {
+        const selectedCount: number = options.selectedNodeIds.length;
+        const canExportNeighborhood: boolean = selectedCount === 1;
+
+        const dialog: HTMLDialogElement = document.createElement('dialog');
+        dialog.id = 'export-graph-dialog';
+        dialog.style.cssText = `
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            background: var(--background);
+            color: var(--foreground);
+            padding: 24px;
+            max-width: 440px;
+            width: 90%;
+            box-shadow: 0 4px 24px rgba(0, 0, 0, 0.2);
+            position: fixed;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            margin: 0;
+        `;
+
+        const buttonStyle: string = `
+            padding: 8px 16px;
+            border: 1px solid var(--border);
+            border-radius: calc(var(--radius) - 2px);
+            background: transparent;
+            color: var(--foreground);
+            cursor: pointer;
+            font-size: 0.9rem;
+        `;
+
+        dialog.innerHTML = `
+            <form method="dialog" style="display: flex; flex-direction: column; gap: 16px;">
+                <h2 style="margin: 0; font-size: 1.1rem; font-weight: 600;"></h2>
+                <div style="display: flex; flex-direction: column; gap: 8px; font-size: 0.9rem;">
+                    <label><input type="radio" name="scope" value="vault" checked /> Whole vault</label>
+                    <label style="opacity: ${selectedCount > 0 ? '1' : '0.5'};">
+                        <input type="radio" name="scope" value="selection" ${selectedCount > 0 ? '' : 'disabled'} />
+                        Selection (${selectedCount} node${selectedCount !== 1 ? 's' : ''})
+                    </label>
+                    <label style="opacity: ${canExportNeighborhood ? '1' : '0.5'};">
+                        <input type="radio" name="scope" value="neighborhood" ${canExportNeighborhood ? '' : 'disabled'} />
+                        Neighborhood <span data-testid="neighborhood-title"></span> within
+                        <input
+                            id="distance-input"
+                            data-testid="distance-input"
+                            type="number"
+                            min="1"
+                            step="0.5"
+                            value="${options.defaultDistance}"
+                            ${canExportNeighborhood ? '' : 'disabled'}
+                            style="
+                                width: 64px;
+                                padding: 2px 6px;
+                                border: 1px solid var(--border);
+                                border-radius: calc(var(--radius) - 2px);
+                                background: var(--input);
+                                color: var(--foreground);
+                                font-family: inherit;
+                            "
+                        />
+                    </label>
+                </div>
+                <div style="display: flex; gap: 8px; justify-content: flex-end;">
+                    <button type="button" id="cancel-button" data-testid="cancel-button" style="${buttonStyle}">Cancel</button>
+                    <button type="button" id="copy-button" data-testid="copy-button" style="${buttonStyle}">Copy</button>
+                    <button
+                        type="submit"
+                        id="save-button"
+                        data-testid="save-button"
+                        style="
+                            padding: 8px 16px;
+                            border: none;
+                            border-radius: calc(var(--radius) - 2px);
+                            background: var(--primary);
+                            color: var(--primary-foreground);
+                            cursor: pointer;
+                            font-size: 0.9rem;
+                        "
+                    >Save...</button>
+                </div>
+            </form>
+        `;
+
+        // Titles are user content - set as text, not HTML
+        dialog.querySelector('h2')!.textContent = `Export Graph as ${options.formatLabel}`;
+        dialog.querySelector('[data-testid="neighborhood-title"]')!.textContent =
+            options.selectedNodeTitle !== undefined ? `of "${options.selectedNodeTitle}"` : '(select one node)';
+
+        document.body.appendChild(dialog);
+
+        const form: HTMLFormElement = dialog.querySelector('form')!;
+        const distanceInput: HTMLInputElement = dialog.querySelector('#distance-input')!;
+        const copyButton: HTMLButtonElement = dialog.querySelector('#copy-button')!;
+        const cancelButton: HTMLButtonElement = dialog.querySelector('#cancel-button')!;
+
+        const getScope: () => GraphExportScope = (): GraphExportScope => {
+            const checked: HTMLInputElement | null = dialog.querySelector('input[name="scope"]:checked');
+            const distance: number = Number(distanceInput.value);
+            switch (checked?.value) {
+                case 'selection':
+                    return {kind: 'selection', nodeIds: options.selectedNodeIds};
+                case 'neighborhood':
+                    return {
+                        kind: 'neighborhood',
+                        nodeId: options.selectedNodeIds[0],
+                        distance: Number.isFinite(distance) && distance > 0 ? distance : options.defaultDistance
+                    };
+                default:
+                    return {kind: 'vault'};
+            }
+        };
+
+        // Editing the distance selects the neighborhood scope
+        distanceInput.addEventListener('focus', () => {
+            const neighborhoodRadio: HTMLInputElement | null = dialog.querySelector('input[value="neighborhood"]');
+            if (neighborhoodRadio) {
+                neighborhoodRadio.checked = true;
+            }
+        });
+
+        // Cancel button click handler
+        cancelButton.addEventListener('click', () => {
+            dialog.close();
+            resolve(null);
+        });
+
+        copyButton.addEventListener('click', () => {
+            const scope: GraphExportScope = getScope();
+            dialog.close();
+            resolve({scope, action: 'copy'});
+        });
+
+        // Form submit (Save button) handler
+        form.addEventListener('submit', (e: Event) => {
+            e.preventDefault();
+            const scope: GraphExportScope = getScope();
+            dialog.close();
+            resolve({scope, action: 'save'});
+        });
+
+        // Clean up dialog on close
+        dialog.addEventListener('close', () => {
+            dialog.remove();
+        });
+
+        // Prevent Escape key from closing without resolving
+        dialog.addEventListener('cancel', (e: Event) => {
+            e.preventDefault();
+        });
+
+        dialog.showModal();
+    });
+}
@@ -58,7 +58,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -82,7 +82,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -132,7 +132,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 300, y: 300 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -166,7 +166,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -209,7 +209,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -237,7 +237,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.some('#ff0000'),
                     position: O.some({ x: 500, y: 500 }), // Different position
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -283,7 +283,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -296,7 +296,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.some('#00ff00'),
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -309,7 +309,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 300, y: 300 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -345,7 +345,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -358,7 +358,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -381,7 +381,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 300, y: 300 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -393,7 +393,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -434,7 +434,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -447,7 +447,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -482,7 +482,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -495,7 +495,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -527,7 +527,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -540,7 +540,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -575,7 +575,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -588,7 +588,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -617,7 +617,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -630,7 +630,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -659,7 +659,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -672,7 +672,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -701,7 +701,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -714,7 +714,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -743,7 +743,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -756,7 +756,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -784,7 +784,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -796,7 +796,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -833,7 +833,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -879,7 +879,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
                 absoluteFilePathIsID: id,
                 contentWithoutYamlOrLinks: `# ${id}`,
                 outgoingEdges: edges,
-                nodeUIMetadata: { color: O.none, position: O.some({ x: 0, y: 0 }), additionalYAMLProps: new Map(), isContextNode: false }
+                nodeUIMetadata: { color: O.none, position: O.some({ x: 0, y: 0 }), additionalYAMLProps: {}, isContextNode: false }
             })
 
             // CASE 1: Edge created when child arrives in same delta as parent update (race condition fix)
@@ -923,7 +923,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.some(color),
                     position: O.some({ x: i * 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }))
@@ -958,7 +958,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.some(color),
                     position: O.some({ x: i * 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }))
@@ -988,7 +988,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.some('#ff0000'),
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -1009,7 +1009,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.some('cyancyan'),
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -1039,7 +1039,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
                 nodeUIMetadata: {
                     color: O.some('orange'),
                     position: O.some({ x: -9.184850993605149e-14, y: -500 }),
-                    additionalYAMLProps: new Map([['agent_name', 'Victor'], ['node_id', '141']]),
+                    additionalYAMLProps: { agent_name: 'Victor', node_id: '141' },
                     isContextNode: false
                 }
             }
@@ -1069,7 +1069,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 3.061616997868383e-14, y: 500 }),
-                    additionalYAMLProps: new Map([['node_id', '5']]),
+                    additionalYAMLProps: { node_id: '5' },
                     isContextNode: false
                 }
             }
@@ -1092,7 +1092,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 1.5e6, y: -2.5e5 }), // 1,500,000 and -250,000
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -1123,7 +1123,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -1154,7 +1154,7 @@ describe('applyGraphDeltaToUI - Integration', () => {
 
                     color: O.some('#ff0000'),
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
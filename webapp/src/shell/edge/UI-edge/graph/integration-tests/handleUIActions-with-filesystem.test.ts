@@ -201,7 +201,7 @@ Child content`
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.of({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             },
@@ -212,7 +212,7 @@ Child content`
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.of({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -388,7 +388,7 @@ Child content`
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.of({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             },
@@ -399,7 +399,7 @@ Child content`
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.of({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -61,7 +61,7 @@ describe('createNewChildNodeFromUI - Integration', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             },
@@ -72,7 +72,7 @@ describe('createNewChildNodeFromUI - Integration', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 200, y: 200 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -241,7 +241,7 @@ describe('modifyNodeContentFromUI - Integration', () => {
                 nodeUIMetadata: {
                     color: O.some('#FF0000'),
                     position: O.some({ x: 100, y: 100 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
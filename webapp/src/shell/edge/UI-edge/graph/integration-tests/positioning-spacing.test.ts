@@ -13,9 +13,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import type { Core, Position, NodeCollection, CollectionReturnValue, NodeSingular } from 'cytoscape'
 import cytoscape from 'cytoscape'
 import * as O from 'fp-ts/lib/Option.js'
-import * as E from 'fp-ts/lib/Either.js'
 import { loadGraphFromDisk } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
-import type { FileLimitExceededError } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce'
 import { applyGraphDeltaToUI } from '@/shell/edge/UI-edge/graph/applyGraphDeltaToUI'
 import type { Graph, GraphDelta, GraphNode, UpsertNodeDelta } from '@/pure/graph'
 import { mapNewGraphToDelta } from '@/pure/graph'
@@ -49,9 +47,7 @@ describe('Node Positioning Spacing - Integration', () => {
     const exampleFolderPath: string = path.resolve(process.cwd(), 'example_folder_fixtures', 'example_real_large')
 
     // WHEN: Load graph from disk (this applies positions)
-    const loadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([exampleFolderPath], exampleFolderPath)
-    if (E.isLeft(loadResult)) throw new Error('Expected Right')
-    const graph: Graph = loadResult.right
+    const graph: Graph = await loadGraphFromDisk([exampleFolderPath], exampleFolderPath)
 
     // AND: Convert graph to delta and apply to UI
     const delta: GraphDelta = mapNewGraphToDelta(graph)
@@ -120,9 +116,7 @@ describe('Node Positioning Spacing - Integration', () => {
   it.skip('should investigate child node position: simulates bug where cytoscape position diverges from graph model', async () => {
     // GIVEN: Load example_real_large folder
     const exampleFolderPath: string = path.resolve(process.cwd(), 'example_folder_fixtures', 'example_real_large')
-    const loadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([exampleFolderPath], exampleFolderPath)
-    if (E.isLeft(loadResult)) throw new Error('Expected Right')
-    const graph: Graph = loadResult.right
+    const graph: Graph = await loadGraphFromDisk([exampleFolderPath], exampleFolderPath)
 
     // AND: Apply graph to cytoscape UI
     const delta: GraphDelta = mapNewGraphToDelta(graph)
@@ -73,7 +73,7 @@ describe('Terminal to created node edges', () => {
             nodeUIMetadata: {
                 color: O.none,
                 position: O.some({ x: 0, y: 0 }),
-                additionalYAMLProps: new Map(),
+                additionalYAMLProps: {},
                 isContextNode: false
             }
         }
@@ -87,7 +87,7 @@ describe('Terminal to created node edges', () => {
             nodeUIMetadata: {
                 color: O.some('blue'),
                 position: O.some({ x: 200, y: 200 }),
-                additionalYAMLProps: new Map([['agent_name', 'Sam']]),
+                additionalYAMLProps: { agent_name: 'Sam' },
                 isContextNode: false
             }
         }
@@ -130,7 +130,7 @@ describe('Terminal to created node edges', () => {
             nodeUIMetadata: {
                 color: O.some('green'),
                 position: O.some({ x: 200, y: 200 }),
-                additionalYAMLProps: new Map([['agent_name', 'Sam']]),
+                additionalYAMLProps: { agent_name: 'Sam' },
                 isContextNode: false
             }
         }
@@ -170,7 +170,7 @@ describe('Terminal to created node edges', () => {
             nodeUIMetadata: {
                 color: O.none,
                 position: O.some({ x: 200, y: 200 }),
-                additionalYAMLProps: new Map(),
+                additionalYAMLProps: {},
                 isContextNode: false
             }
         }
@@ -0,0 +1,127 @@
+import type {FilePath, Graph, GraphDelta, NodeIdAndFilePath} from "@/pure/graph";
+import {
+    computeMoveFolderDelta,
+    computeMoveNodesDelta,
+    getNodeFolders,
+    resolveMoveTargetFolder
+} from "@/pure/graph/move/computeMoveNodesDelta";
+import {showMoveToFolderPopup} from "@/shell/edge/UI-edge/graph/moveToFolderPopup";
+import * as O from 'fp-ts/lib/Option.js';
+
+// Import ElectronAPI type for window.electronAPI access
+import type {} from "@/shell/electron";
+
+interface MoveContext {
+    readonly graph: Graph;
+    readonly writePath: string;
+    readonly vaultPaths: readonly FilePath[];
+}
+
+async function loadMoveContext(): Promise<MoveContext | null> {
+    const graph: Graph | undefined = await window.electronAPI?.main.getGraph();
+    if (!graph) {
+        console.error('[moveNodesFromUI] NO GRAPH IN STATE');
+        return null;
+    }
+
+    const writePathOption: O.Option<string> | undefined = await window.electronAPI?.main.getWritePath();
+    const writePath: string = writePathOption ? O.getOrElse(() => '')(writePathOption) : '';
+    const vaultPaths: readonly FilePath[] = await window.electronAPI?.main.getVaultPaths() ?? [];
+    return {graph, writePath, vaultPaths};
+}
+
+/**
+ * Folders offered as move targets: the vault folders plus every folder holding one of the nodes.
+ */
+export function getMoveTargetFolders(nodeIds: readonly NodeIdAndFilePath[], vaultPaths: readonly FilePath[]): readonly string[] {
+    return [...new Set([...vaultPaths, ...getNodeFolders(nodeIds)])].sort();
+}
+
+function resolveFolder(folder: string, context: MoveContext): string | undefined {
+    const resolved: string | undefined = resolveMoveTargetFolder(folder, context.writePath, context.vaultPaths);
+    if (resolved === undefined) {
+        console.error(`[moveNodesFromUI] ${folder} is outside the loaded vault folders`);
+    }
+    return resolved;
+}
+
+async function applyMoveDelta(graphDelta: GraphDelta): Promise<void> {
+    if (graphDelta.length === 0) {
+        return;
+    }
+    // Persist to backend
+    await window.electronAPI?.main.applyGraphDeltaToDBThroughMemUIAndEditorExposed(graphDelta);
+}
+
+/**
+ * Move nodes into a folder without asking, e.g. when they are dropped onto it.
+ * - Every link to a moved node is rewritten so it keeps resolving
+ * - Positions are kept, colliding file names get _2, _3, ...
+ * - The whole move is one undo step
+ */
+export async function moveNodesToFolderFromUI(nodeIds: readonly NodeIdAndFilePath[], folder: string): Promise<void> {
+    if (nodeIds.length === 0) {
+        return;
+    }
+    const context: MoveContext | null = await loadMoveContext();
+    const targetFolder: string | undefined = context ? resolveFolder(folder, context) : undefined;
+    if (!context || targetFolder === undefined) {
+        return;
+    }
+    await applyMoveDelta(computeMoveNodesDelta(nodeIds, targetFolder, context.graph));
+}
+
+/**
+ * Move nodes into a folder picked by the user. See moveNodesToFolderFromUI.
+ */
+export async function moveNodesFromUI(nodeIds: readonly NodeIdAndFilePath[]): Promise<void> {
+    if (nodeIds.length === 0) {
+        return;
+    }
+    const context: MoveContext | null = await loadMoveContext();
+    if (!context) {
+        return;
+    }
+
+    const chosenFolder: string | null = await showMoveToFolderPopup(
+        getMoveTargetFolders(Object.keys(context.graph.nodes), context.vaultPaths),
+        `Move ${nodeIds.length} Node${nodeIds.length !== 1 ? 's' : ''} to Folder`
+    );
+    const targetFolder: string | undefined = chosenFolder !== null ? resolveFolder(chosenFolder, context) : undefined;
+    if (targetFolder === undefined) {
+        return;
+    }
+    await applyMoveDelta(computeMoveNodesDelta(nodeIds, targetFolder, context.graph));
+}
+
+/**
+ * Move a folder (with its subfolders) into another folder, both picked by the user.
+ * Links are rewritten and the move is one undo step, as for nodes.
+ */
+export async function moveFolderFromUI(): Promise<void> {
+    const context: MoveContext | null = await loadMoveContext();
+    if (!context) {
+        return;
+    }
+    const folders: readonly string[] = getMoveTargetFolders(Object.keys(context.graph.nodes), context.vaultPaths);
+
+    // Vault folders themselves stay put - only their subfolders can be moved
+    const chosenSource: string | null = await showMoveToFolderPopup(
+        folders.filter((folder: string) => !context.vaultPaths.includes(folder)),
+        'Choose Folder to Move'
+    );
+    const sourceFolder: string | undefined = chosenSource !== null ? resolveFolder(chosenSource, context) : undefined;
+    if (sourceFolder === undefined || context.vaultPaths.includes(sourceFolder)) {
+        return;
+    }
+
+    const chosenTarget: string | null = await showMoveToFolderPopup(
+        folders.filter((folder: string) => folder !== sourceFolder && !folder.startsWith(`${sourceFolder}/`)),
+        `Move ${sourceFolder.slice(sourceFolder.lastIndexOf('/') + 1)} into Folder`
+    );
+    const targetFolder: string | undefined = chosenTarget !== null ? resolveFolder(chosenTarget, context) : undefined;
+    if (targetFolder === undefined) {
+        return;
+    }
+    await applyMoveDelta(computeMoveFolderDelta(sourceFolder, targetFolder, context.graph));
+}
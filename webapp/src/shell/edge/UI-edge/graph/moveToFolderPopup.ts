@@ -0,0 +1,185 @@
+/**
+ * Move To Folder Popup
+ *
+ * Displays an HTML dialog for picking a folder: the folder to move nodes (or a folder) into,
+ * or the folder to move. Existing folders are listed; a new folder path can also be typed.
+ *
+ * Pattern follows taskInputPopup.ts
+ */
+
+/**
+ * Shows a modal dialog for choosing a destination folder.
+ *
+ * @param folders - Folders offered as targets (absolute paths)
+ * @param title - Dialog title, e.g. "Move 3 Nodes to Folder"
+ * @returns Promise resolving to the chosen folder on confirm, or null if cancelled/empty
+ */
+export function showMoveToFolderPopup(folders: readonly string[], title: string): Promise<string | null> {
+    return new Promise((resolve: (value: string | null) => void) => {
+        const dialog: HTMLDialogElement = document.createElement('dialog');
+        dialog.id = 'move-to-folder-dialog';
+        dialog.style.cssText = `
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            background: var(--background);
+            color: var(--foreground);
+            padding: 24px;
+            max-width: 520px;
+            width: 90%;
+            box-shadow: 0 4px 24px rgba(0, 0, 0, 0.2);
+            position: fixed;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            margin: 0;
+        `;
+
+        dialog.innerHTML = `
+            <form method="dialog" style="display: flex; flex-direction: column; gap: 16px;">
+                <h2 style="margin: 0; font-size: 1.1rem; font-weight: 600;"></h2>
+                <p style="margin: 0; color: var(--muted-foreground); font-size: 0.9rem;">
+                    Links to the moved nodes are rewritten. Undo restores everything in one step.
+                </p>
+                <ul data-testid="folder-list" style="
+                    margin: 0;
+                    padding: 8px;
+                    list-style: none;
+                    border: 1px solid var(--border);
+                    border-radius: calc(var(--radius) - 2px);
+                    background: var(--muted);
+                    max-height: 200px;
+                    overflow-y: auto;
+                "></ul>
+                <label style="display: flex; flex-direction: column; gap: 6px;">
+                    <span style="font-size: 0.85rem; color: var(--muted-foreground);">Destination folder</span>
+                    <input
+                        id="folder-input"
+                        data-testid="folder-input"
+                        placeholder="/path/to/folder"
+                        style="
+                            width: 100%;
+                            padding: 8px 12px;
+                            border: 1px solid var(--border);
+                            border-radius: calc(var(--radius) - 2px);
+                            background: var(--input);
+                            color: var(--foreground);
+                            font-family: inherit;
+                            font-size: 0.9rem;
+                            box-sizing: border-box;
+                        "
+                    />
+                </label>
+                <div style="display: flex; gap: 8px; justify-content: flex-end;">
+                    <button
+                        type="button"
+                        id="cancel-button"
+                        data-testid="cancel-button"
+                        style="
+                            padding: 8px 16px;
+                            border: 1px solid var(--border);
+                            border-radius: calc(var(--radius) - 2px);
+                            background: transparent;
+                            color: var(--foreground);
+                            cursor: pointer;
+                            font-size: 0.9rem;
+                        "
+                    >Cancel</button>
+                    <button
+                        type="submit"
+                        id="confirm-button"
+                        data-testid="confirm-button"
+                        disabled
+                        style="
+                            padding: 8px 16px;
+                            border: none;
+                            border-radius: calc(var(--radius) - 2px);
+                            background: var(--primary);
+                            color: var(--primary-foreground);
+                            cursor: not-allowed;
+                            font-size: 0.9rem;
+                            opacity: 0.5;
+                        "
+                    >Move</button>
+                </div>
+            </form>
+        `;
+
+        document.body.appendChild(dialog);
+
+        // Set as text - folder names come from the file system
+        dialog.querySelector('h2')!.textContent = title;
+
+        const form: HTMLFormElement = dialog.querySelector('form')!;
+        const input: HTMLInputElement = dialog.querySelector('#folder-input')!;
+        const confirmButton: HTMLButtonElement = dialog.querySelector('#confirm-button')!;
+        const cancelButton: HTMLButtonElement = dialog.querySelector('#cancel-button')!;
+
+        // Enable confirm button only when a folder is chosen
+        const updateConfirmButton: () => void = () => {
+            const hasFolder: boolean = input.value.trim().length > 0;
+            confirmButton.disabled = !hasFolder;
+            confirmButton.style.opacity = hasFolder ? '1' : '0.5';
+            confirmButton.style.cursor = hasFolder ? 'pointer' : 'not-allowed';
+        };
+        input.addEventListener('input', updateConfirmButton);
+
+        // Listed folders: click fills the input, double-click moves right away
+        const folderList: HTMLUListElement = dialog.querySelector('[data-testid="folder-list"]')!;
+        folders.forEach((folder: string) => {
+            const option: HTMLButtonElement = document.createElement('button');
+            option.type = 'button';
+            option.textContent = folder;
+            option.style.cssText = `
+                width: 100%;
+                text-align: left;
+                padding: 4px 8px;
+                border: none;
+                border-radius: calc(var(--radius) - 4px);
+                background: transparent;
+                color: inherit;
+                cursor: pointer;
+                font-size: 0.85rem;
+            `;
+            option.addEventListener('click', () => {
+                input.value = folder;
+                updateConfirmButton();
+                input.focus();
+            });
+            option.addEventListener('dblclick', () => {
+                input.value = folder;
+                form.requestSubmit();
+            });
+            const item: HTMLLIElement = document.createElement('li');
+            item.appendChild(option);
+            folderList.appendChild(item);
+        });
+
+        // Cancel button click handler
+        cancelButton.addEventListener('click', () => {
+            dialog.close();
+            resolve(null);
+        });
+
+        // Form submit (Confirm button) handler
+        form.addEventListener('submit', (e: Event) => {
+            e.preventDefault();
+            const folder: string = input.value.trim();
+            dialog.close();
+            resolve(folder === '' ? null : folder);
+        });
+
+        // Clean up dialog on close
+        dialog.addEventListener('close', () => {
+            dialog.remove();
+        });
+
+        // Prevent Escape key from closing without resolving
+        dialog.addEventListener('cancel', (e: Event) => {
+            e.preventDefault();
+        });
+
+        dialog.showModal();
+        input.focus();
+    });
+}
+
@@ -0,0 +1,17 @@
+import type {NodeIdAndFilePath} from "@/pure/graph";
+
+// Import ElectronAPI type for window.electronAPI access
+import type {} from "@/shell/electron";
+
+/**
+ * Refresh a context node in place (from the node menu).
+ * - Recomputes its neighborhood and lists the added/removed nodes in the node
+ * - Sends a summary of the changes to the agents running on it
+ */
+export async function refreshContextNodeFromUI(contextNodeId: NodeIdAndFilePath): Promise<void> {
+    try {
+        await window.electronAPI?.main.refreshContextNode(contextNodeId, {notifyTerminals: true});
+    } catch (error) {
+        console.error('[refreshContextNodeFromUI] Failed to refresh context node:', error);
+    }
+}
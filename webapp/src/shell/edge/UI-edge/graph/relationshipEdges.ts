@@ -0,0 +1,66 @@
+/**
+ * Relationship styling and filtering of graph edges.
+ *
+ * Each edge keeps its full label in `relationshipLabel`. Its relationship type (from the
+ * project's vocabulary) sets `relationshipColor` / `relationshipLineStyle`, which
+ * StyleService maps to line styles, and edges of hidden types get RELATIONSHIP_HIDDEN_CLASS.
+ */
+
+import type { Core, EdgeSingular } from 'cytoscape';
+import {
+    findRelationshipType,
+    getRelationshipFilterKey,
+    type RelationshipType,
+    type RelationshipVocabulary,
+} from '@/pure/graph/relationships';
+import {
+    getHiddenRelationshipKeys,
+    getRelationshipVocabulary,
+    setRelationshipKeyHidden,
+    setRelationshipVocabularyFromMain,
+} from '@/shell/edge/UI-edge/state/RelationshipVocabularyStore';
+import { RELATIONSHIP_HIDDEN_CLASS } from '@/shell/UI/cytoscape-graph-ui/constants';
+
+function setOrRemoveData(edge: EdgeSingular, key: string, value: string | undefined): void {
+    if (value === undefined) {
+        edge.removeData(key);
+    } else {
+        edge.data(key, value);
+    }
+}
+
+/**
+ * Set an edge's relationship label and derive its style and visibility from it.
+ */
+export function applyRelationshipToEdge(edge: EdgeSingular, label: string): void {
+    const vocabulary: RelationshipVocabulary = getRelationshipVocabulary();
+    const type: RelationshipType | undefined = findRelationshipType(label, vocabulary);
+    edge.data('relationshipLabel', label);
+    setOrRemoveData(edge, 'relationshipColor', type?.color);
+    setOrRemoveData(edge, 'relationshipLineStyle', type?.lineStyle);
+    edge.toggleClass(RELATIONSHIP_HIDDEN_CLASS, getHiddenRelationshipKeys().has(getRelationshipFilterKey(label, vocabulary)));
+}
+
+function reapplyRelationshipsToEdges(cy: Core): void {
+    cy.batch(() => {
+        cy.edges('[relationshipLabel]').forEach((edge: EdgeSingular) => {
+            applyRelationshipToEdge(edge, edge.data('relationshipLabel') as string);
+        });
+    });
+}
+
+/**
+ * Replace the vocabulary (pushed from main) and restyle every edge.
+ */
+export function updateRelationshipVocabulary(cy: Core, vocabulary: RelationshipVocabulary): void {
+    setRelationshipVocabularyFromMain(vocabulary);
+    reapplyRelationshipsToEdges(cy);
+}
+
+/**
+ * Show or hide the edges of one relationship type (a getRelationshipFilterKey key).
+ */
+export function setRelationshipVisible(cy: Core, key: string, visible: boolean): void {
+    setRelationshipKeyHidden(key, !visible);
+    reapplyRelationshipsToEdges(cy);
+}
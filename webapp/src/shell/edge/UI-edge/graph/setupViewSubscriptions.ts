@@ -15,6 +15,7 @@ import {getTerminalId, getShadowNodeId} from '@/shell/edge/UI-edge/floating-wind
 import {renderRecentNodeTabsV2} from '@/shell/UI/views/RecentNodeTabsBar';
 import {getRecentNodeHistory} from '@/shell/edge/UI-edge/state/RecentNodeHistoryStore';
 import {TERMINAL_ACTIVE_CLASS} from '@/shell/UI/cytoscape-graph-ui/constants';
+import {openFloatingEditorAtAnchor} from '@/shell/edge/UI-edge/floating-windows/editors/AnchoredEditor';
 
 export interface ViewSubscriptionDeps {
     cy: Core;
@@ -77,10 +78,16 @@ export function setupViewSubscriptions(deps: ViewSubscriptionDeps): ViewSubscrip
         }
     );
 
-    // Navigation event listener - handles SSE activity panel navigation
+    // Navigation event listener - handles SSE activity panel and wikilink navigation
+    // Wikilinks into a heading or block also open the target's editor at that anchor
     const handleNavigateEvent: (event: Event) => void = (event: Event): void => {
-        const customEvent: CustomEvent<{nodeId: string}> = event as CustomEvent<{nodeId: string}>;
-        navigationService.handleSearchSelect(customEvent.detail.nodeId);
+        const customEvent: CustomEvent<{nodeId: string; anchor?: string}> = event as CustomEvent<{nodeId: string; anchor?: string}>;
+        const {nodeId, anchor} = customEvent.detail;
+        if (anchor) {
+            void openFloatingEditorAtAnchor(cy, nodeId, anchor);
+            return;
+        }
+        navigationService.handleSearchSelect(nodeId);
     };
     window.addEventListener('voicetree-navigate', handleNavigateEvent);
     const navigationListener: () => void = (): void => {
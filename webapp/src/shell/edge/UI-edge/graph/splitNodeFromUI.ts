@@ -0,0 +1,28 @@
+import type {Graph, GraphDelta, NodeIdAndFilePath} from "@/pure/graph";
+import {computeSplitGraphDelta} from "@/pure/graph/graph-operations/split/computeSplitGraphDelta";
+
+// Import ElectronAPI type for window.electronAPI access
+import type {} from "@/shell/electron";
+
+/**
+ * Split a node into one child node per `##` section.
+ * - Each section becomes a child titled by its heading, keeping the wikilinks written in it
+ * - The node keeps the text before the first heading and links to the children
+ */
+export async function splitNodeFromUI(nodeId: NodeIdAndFilePath): Promise<void> {
+    const currentGraph: Graph | undefined = await window.electronAPI?.main.getGraph();
+    if (!currentGraph) {
+        console.error('[splitNodeFromUI] NO GRAPH IN STATE');
+        return;
+    }
+
+    // Compute the split delta (pure function)
+    const graphDelta: GraphDelta = computeSplitGraphDelta(nodeId, currentGraph);
+
+    if (graphDelta.length === 0) {
+        return;
+    }
+
+    // Persist to backend (recorded for undo like any other UI delta)
+    await window.electronAPI?.main.applyGraphDeltaToDBThroughMemUIAndEditorExposed(graphDelta);
+}
@@ -0,0 +1,70 @@
+/**
+ * Tag filtering of graph nodes.
+ *
+ * Each node keeps its tags in `tags` node data. While tags are selected in the filter,
+ * nodes carrying none of them (nested tags included) get TAG_FILTERED_CLASS, which
+ * StyleService renders dimmed. Context and shadow nodes are never dimmed.
+ */
+
+import type { Core, NodeSingular } from 'cytoscape';
+import { normalizeTag, tagMatches } from '@/pure/graph/tags';
+import {
+    clearSelectedTags,
+    getSelectedTags,
+    setTagSelected,
+} from '@/shell/edge/UI-edge/state/TagFilterStore';
+import { TAG_FILTERED_CLASS } from '@/shell/UI/cytoscape-graph-ui/constants';
+
+function isFilteredOut(tags: readonly string[], selectedTags: ReadonlySet<string>): boolean {
+    if (selectedTags.size === 0) {
+        return false;
+    }
+    return !tags.some((tag: string) => [...selectedTags].some((selected: string) => tagMatches(tag, selected)));
+}
+
+/**
+ * Set a node's tags and derive whether the tag filter dims it.
+ */
+export function applyTagsToNode(node: NodeSingular, tags: readonly string[]): void {
+    node.data('tags', tags);
+    const exempt: boolean = node.data('isContextNode') === true || node.data('isShadowNode') === true;
+    node.toggleClass(TAG_FILTERED_CLASS, !exempt && isFilteredOut(tags, getSelectedTags()));
+}
+
+function reapplyTagFilterToNodes(cy: Core): void {
+    cy.batch(() => {
+        cy.nodes('[tags]').forEach((node: NodeSingular) => {
+            applyTagsToNode(node, node.data('tags') as readonly string[]);
+        });
+    });
+}
+
+/**
+ * Tags of the graph's nodes with how many nodes carry each, most used first.
+ */
+export function countNodesByTag(cy: Core): readonly { readonly tag: string; readonly count: number }[] {
+    const counts: Map<string, number> = new Map();
+    cy.nodes('[tags]').forEach((node: NodeSingular) => {
+        (node.data('tags') as readonly string[]).forEach((tag: string) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    });
+    return [...counts.entries()]
+        .map(([tag, count]: [string, number]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Add a tag to the filter or remove it, and re-dim the graph.
+ */
+export function setTagFilterSelected(cy: Core, tag: string, selected: boolean): void {
+    setTagSelected(tag, selected);
+    reapplyTagFilterToNodes(cy);
+}
+
+export function toggleTagFilter(cy: Core, tag: string): void {
+    setTagFilterSelected(cy, tag, !getSelectedTags().has(normalizeTag(tag)));
+}
+
+export function clearTagFilter(cy: Core): void {
+    clearSelectedTags();
+    reapplyTagFilterToNodes(cy);
+}
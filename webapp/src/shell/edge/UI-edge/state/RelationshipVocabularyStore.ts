@@ -0,0 +1,54 @@
+/**
+ * RelationshipVocabularyStore - Renderer copy of the project's relationship vocabulary
+ *
+ * Main pushes the vocabulary when a project opens and when it is edited. The store also
+ * holds which relationship types the graph filter hides (renderer-only, not persisted).
+ */
+
+import { DEFAULT_RELATIONSHIP_VOCABULARY, type RelationshipVocabulary } from '@/pure/graph/relationships';
+
+type Listener = () => void;
+
+// Module-level state (follows project pattern)
+let vocabulary: RelationshipVocabulary = DEFAULT_RELATIONSHIP_VOCABULARY;
+const hiddenRelationshipKeys: Set<string> = new Set();
+const listeners: Set<Listener> = new Set();
+
+function notify(): void {
+    listeners.forEach((listener: Listener) => listener());
+}
+
+export function getRelationshipVocabulary(): RelationshipVocabulary {
+    return vocabulary;
+}
+
+export function setRelationshipVocabularyFromMain(next: RelationshipVocabulary): void {
+    vocabulary = next;
+    notify();
+}
+
+/**
+ * Filter keys (see getRelationshipFilterKey) of the relationship types hidden in the graph.
+ */
+export function getHiddenRelationshipKeys(): ReadonlySet<string> {
+    return hiddenRelationshipKeys;
+}
+
+export function setRelationshipKeyHidden(key: string, hidden: boolean): void {
+    if (hidden) {
+        hiddenRelationshipKeys.add(key);
+    } else {
+        hiddenRelationshipKeys.delete(key);
+    }
+    notify();
+}
+
+/**
+ * Subscribe to vocabulary and filter changes. Returns an unsubscribe function.
+ */
+export function subscribeToRelationshipVocabulary(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
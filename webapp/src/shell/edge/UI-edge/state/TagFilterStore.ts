@@ -0,0 +1,49 @@
+/**
+ * TagFilterStore - Tags selected in the graph's tag filter (renderer-only, not persisted)
+ *
+ * When any tag is selected, nodes carrying none of them are dimmed (see tagFilter.ts).
+ */
+
+import { normalizeTag } from '@/pure/graph/tags';
+
+type Listener = () => void;
+
+// Module-level state (follows project pattern)
+const selectedTags: Set<string> = new Set();
+const listeners: Set<Listener> = new Set();
+
+function notify(): void {
+    listeners.forEach((listener: Listener) => listener());
+}
+
+export function getSelectedTags(): ReadonlySet<string> {
+    return selectedTags;
+}
+
+export function setTagSelected(tag: string, selected: boolean): void {
+    const normalized: string = normalizeTag(tag);
+    if (normalized === '') {
+        return;
+    }
+    if (selected) {
+        selectedTags.add(normalized);
+    } else {
+        selectedTags.delete(normalized);
+    }
+    notify();
+}
+
+export function clearSelectedTags(): void {
+    selectedTags.clear();
+    notify();
+}
+
+/**
+ * Subscribe to tag filter changes. Returns an unsubscribe function.
+ */
+export function subscribeToTagFilter(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -5,10 +5,14 @@ import * as O from "fp-ts/lib/Option.js";
 import {type Option} from "fp-ts/lib/Option.js";
 import type {TerminalData} from "@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType";
 import type {TerminalRecord} from "@/shell/edge/main/terminals/terminal-registry";
+import type {PendingAgentSpawn} from "@/shell/edge/main/terminals/spawn-queue";
 import {resetAgentTabsStore} from "@/shell/edge/UI-edge/state/AgentTabsStore";
 
 const terminals: Map<TerminalId, TerminalData> = new Map<TerminalId, TerminalData>();
 
+// Agent spawns queued in main behind the agent limits (display-only, pushed from main)
+let pendingAgentSpawns: readonly PendingAgentSpawn[] = [];
+
 // Subscription callbacks for terminal changes
 type TerminalChangeCallback = (terminals: TerminalData[]) => void;
 const subscribers: Set<TerminalChangeCallback> = new Set();
@@ -102,6 +106,19 @@ export function syncFromMain(records: TerminalRecord[]): void {
     notifySubscribers();
 }
 
+/**
+ * Sync the queued agent spawns from main. Subscribers to terminal changes are
+ * notified so the terminal tree shows them as pending.
+ */
+export function syncPendingAgentSpawnsFromMain(pending: readonly PendingAgentSpawn[]): void {
+    pendingAgentSpawns = pending;
+    notifySubscribers();
+}
+
+export function getPendingAgentSpawns(): readonly PendingAgentSpawn[] {
+    return pendingAgentSpawns;
+}
+
 /**
  * Set the UI reference for a terminal (renderer-local state).
  * Called by launchTerminalOntoUI after creating the floating window.
@@ -231,6 +248,7 @@ export function getNextTerminalCount(
  */
 export function clearTerminals(): void {
     terminals.clear();
+    pendingAgentSpawns = [];
     activeTerminalId = null;
     notifySubscribers();
     notifyActiveTerminalChange();
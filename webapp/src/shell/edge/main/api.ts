@@ -10,15 +10,23 @@ import {
 } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/applyGraphDeltaToDBThroughMemAndUI'
 import {getGraph, getNode} from '@/shell/edge/main/state/graph-store'
 import {loadSettings, saveSettings as saveSettings} from './settings/settings_IO'
+import {getRelationshipVocabulary, saveRelationshipVocabulary} from './graph/watch_folder/relationship-vocabulary'
 import {getWatchStatus, loadPreviousFolder, markFrontendReady, startFileWatching, stopFileWatching, getVaultPaths, getReadPaths, getWritePath, setWritePath, addReadPath, removeReadPath, getAvailableFoldersForSelector} from './graph/watch_folder/watchFolder'
 import {getBackendPort, getAppSupportPath} from "@/shell/edge/main/state/app-electron-state";
 import {createContextNode} from "@/shell/edge/main/graph/context-nodes/createContextNode";
+import {refreshContextNode} from "@/shell/edge/main/graph/context-nodes/refreshContextNode";
+import {cleanUpContextNodes, previewContextNodeCleanup} from "@/shell/edge/main/graph/context-nodes/cleanUpContextNodes";
 import {getPreviewContainedNodeIds} from "@/shell/edge/main/graph/context-nodes/getPreviewContainedNodeIds";
 import {saveNodePositions} from "@/shell/edge/main/saveNodePositions";
 import {performUndo, performRedo} from './graph/undoOperations'
+import {getDeltaJournalTimeline, previewDeltaJournalEntry, revertDeltaJournalRange} from './graph/deltaJournalOperations'
+import {previewAgentRevert, revertAgent} from './graph/agentRevertOperations'
+import {listWorktrees, mergeWorktree, removeWorktree, garbageCollectWorktrees} from './worktree/worktreeManager'
 import {spawnTerminalWithContextNode} from './terminals/spawnTerminalWithContextNode'
 import {updateTerminalIsDone, updateTerminalPinned, updateTerminalActivityState, removeTerminalFromRegistry} from './terminals/terminal-registry'
 import {spawnPlainTerminal, spawnPlainTerminalWithNode} from './terminals/spawnPlainTerminal'
+import {restoreTerminalSessions} from './terminals/terminal-session-store'
+import {getPendingAgentSpawns, cancelPendingAgentSpawn} from './terminals/spawn-queue'
 import {
     applyGraphDeltaToDBThroughMemAndUIAndEditors
 } from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange";
@@ -29,6 +37,8 @@ import {isMcpIntegrationEnabled, setMcpIntegration} from './mcp-server/mcp-clien
 import {saveClipboardImage} from './clipboard/saveClipboardImage';
 import {readImageAsDataUrl} from './clipboard/readImageAsDataUrl';
 import {findFileByName} from './graph/loading/findFileByName';
+import {expandLargeVaultAroundNode} from './graph/loading/expandLargeVault';
+import {exportGraphToFile} from './graph/exportGraphToFile';
 import {runAgentOnSelectedNodes} from './runAgentOnSelectedNodes';
 import {scanForProjects, getDefaultSearchDirectories} from './project-scanner';
 import {loadProjects, saveProject, removeProject} from './project-store';
@@ -96,11 +106,24 @@ export const mainAPI = {
   removeReadPath,
   getAvailableFoldersForSelector,
 
+  // Relationship vocabulary of the open project (edge label types)
+  getRelationshipVocabulary,
+  saveRelationshipVocabulary,
+
+  // Large-vault mode - materialize unloaded neighbors of a focused node
+  expandLargeVaultAroundNode,
+
   // Backend port
   getBackendPort,
 
   createContextNode,
 
+  refreshContextNode,
+
+  // Context node retention - dry-run preview, then archive or delete
+  previewContextNodeCleanup,
+  cleanUpContextNodes,
+
   getPreviewContainedNodeIds,
 
   // App paths
@@ -110,6 +133,21 @@ export const mainAPI = {
   performUndo,
   performRedo,
 
+  // Delta journal timeline (persistent, attributed history)
+  getDeltaJournalTimeline,
+  previewDeltaJournalEntry,
+  revertDeltaJournalRange,
+
+  // Agent-scoped rollback
+  previewAgentRevert,
+  revertAgent,
+
+  // Git worktrees of agents
+  listWorktrees,
+  mergeWorktree,
+  removeWorktree,
+  garbageCollectWorktrees,
+
   // Terminal spawning
   spawnTerminalWithContextNode,
 
@@ -125,6 +163,13 @@ export const mainAPI = {
   updateTerminalActivityState,
   removeTerminalFromRegistry,
 
+  // Agent spawns waiting for a free slot
+  getPendingAgentSpawns,
+  cancelPendingAgentSpawn,
+
+  // Restore terminals saved when the project was last closed
+  restoreTerminalSessions,
+
   // Ask mode operations
   askQuery,
 
@@ -146,6 +191,9 @@ export const mainAPI = {
   // File search
   findFileByName,
 
+  // Graph export (JSON, GraphML, DOT, Mermaid)
+  exportGraphToFile,
+
   // Run Agent on Selected Nodes
   runAgentOnSelectedNodes,
 
@@ -12,6 +12,7 @@ import type {VTSettings} from '@/pure/settings/types';
 import {getNextAgentName, getUniqueAgentName} from '@/pure/settings/types';
 import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types';
 import {getExistingAgentNames} from '@/shell/edge/main/terminals/terminal-registry';
+import {assertAgentSlotAvailable, markAgentSlotStarting} from '@/shell/edge/main/terminals/agent-slots';
 import {getAppSupportPath} from '@/shell/edge/main/state/app-electron-state';
 import {getGraph} from '@/shell/edge/main/state/graph-store';
 import {loadSettings} from '@/shell/edge/main/settings/settings_IO';
@@ -20,8 +21,11 @@ import {createContextNodeFromQuestion} from '@/shell/edge/main/graph/context-nod
 import type {TerminalData} from "@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType";
 import {getWritePath} from "@/shell/edge/main/graph/watch_folder/vault-allowlist";
 import {getProjectRootWatchedDirectory} from "@/shell/edge/main/state/watch-folder-store";
+import {getMcpPort} from "@/shell/edge/main/state/mcp-port-store";
 
 export async function askModeCreateAndSpawn(relevantNodeIds: readonly string[], question: string): Promise<void> {
+  await assertAgentSlotAvailable(null);
+
   // Get graph - node IDs are now absolute paths that match graph keys directly
   const graph: Graph = getGraph();
   const watchedDir: string | null = getProjectRootWatchedDirectory();
@@ -103,6 +107,7 @@ export async function askModeCreateAndSpawn(relevantNodeIds: readonly string[],
     CONTEXT_NODE_PATH: contextNodeAbsolutePath,
     TASK_NODE_PATH: taskNodeAbsolutePath,
     VOICETREE_TERMINAL_ID: agentName, // Same as AGENT_NAME
+    VOICETREE_MCP_PORT: String(getMcpPort()), // For agent hooks (tools/*-hook.cjs)
     AGENT_NAME: agentName,
     ...resolvedEnvVars,
   };
@@ -123,4 +128,5 @@ export async function askModeCreateAndSpawn(relevantNodeIds: readonly string[],
 
   // 5. Launch terminal via UI API
   void uiAPI.launchTerminalOntoUI(contextNodeId, terminalData);
+  markAgentSlotStarting(terminalId, null);
 }
@@ -7,6 +7,7 @@
 // Module-level variable to store the backend port
 
 import {getBackendPort} from "@/shell/edge/main/state/app-electron-state";
+import {searchNodesLocally} from "@/shell/edge/main/local-search";
 
 /**
  * Get the backend base URL using the dynamically discovered port
@@ -106,6 +107,7 @@ export interface AskQueryResponse {
 /**
  * Query the graph using hybrid search (BM25 + vector).
  * Returns relevant nodes for context creation in Ask mode.
+ * Falls back to the in-process index (see local-search.ts) when the backend is unavailable.
  *
  * @param query - The question to search for
  * @param topK - Number of results to return (default 10)
@@ -115,6 +117,15 @@ export async function askQuery(
   query: string,
   topK: number = 10
 ): Promise<AskQueryResponse> {
+  try {
+    return await askBackendQuery(query, topK);
+  } catch (error) {
+    console.warn('[Backend API] Ask query failed, using local search:', error);
+    return searchNodesLocally(query, topK);
+  }
+}
+
+async function askBackendQuery(query: string, topK: number): Promise<AskQueryResponse> {
   const baseUrl: string = await getBackendBaseUrl();
   const response: Response = await fetch(`${baseUrl}/ask`, {
     method: 'POST',
@@ -5,6 +5,8 @@
 import { app, Menu, dialog } from 'electron'
 import type { MenuItemConstructorOptions } from 'electron'
 import { startFileWatching } from '@/shell/edge/main/graph/watch_folder/watchFolder'
+import { uiAPI } from '@/shell/edge/main/ui-api-proxy'
+import { GRAPH_EXPORT_FORMATS, GRAPH_EXPORT_FORMAT_LABELS, type GraphExportFormat } from '@/pure/graph/export/exportGraph'
 
 export function setupApplicationMenu(): void {
     const template: MenuItemConstructorOptions[] = [
@@ -49,6 +51,24 @@ export function setupApplicationMenu(): void {
                             }
                         })()
                     }
+                },
+                {type: 'separator'},
+                {
+                    // The renderer asks for the scope (vault, selection, neighborhood) since it owns the selection
+                    label: 'Export Graph',
+                    submenu: GRAPH_EXPORT_FORMATS.map((format: GraphExportFormat): MenuItemConstructorOptions => ({
+                        label: `${GRAPH_EXPORT_FORMAT_LABELS[format]}...`,
+                        click: () => {
+                            void uiAPI.exportGraphFromUI(format)
+                        }
+                    }))
+                },
+                {
+                    // Shows a dry-run preview in the renderer before anything is archived or deleted
+                    label: 'Clean Up Context Nodes...',
+                    click: () => {
+                        void uiAPI.cleanUpContextNodesFromUI()
+                    }
                 }
             ]
         },
@@ -19,11 +19,13 @@ import {startOTLPReceiver, stopOTLPReceiver} from '@/shell/edge/main/metrics/otl
 import {registerTerminalIpcHandlers} from '@/shell/edge/main/terminals/ipc-terminal-handlers';
 import {setupRPCHandlers} from '@/shell/edge/main/edge-auto-rpc/rpc-handler';
 import {writeAllPositionsSync} from '@/shell/edge/main/graph/writeAllPositionsOnExit';
-import {getGraph} from '@/shell/edge/main/state/graph-store';
+import {getGraph, setOnGraphChanged} from '@/shell/edge/main/state/graph-store';
 import {startMcpServer} from '@/shell/edge/main/mcp-server/mcp-server';
 import {cleanupOrphanedContextNodes} from '@/shell/edge/main/saveNodePositions';
 import {cleanupOldScreenRecordingVideos} from '@/shell/edge/main/screen-recording/cleanupOldScreenRecordingVideos';
-import {setOnFolderSwitchCleanup, setStartupFolderOverride} from "@/shell/edge/main/state/watch-folder-store";
+import {setOnFolderLoaded, setOnFolderSwitchCleanup, setStartupFolderOverride} from "@/shell/edge/main/state/watch-folder-store";
+import {offerTerminalSessionRestore} from '@/shell/edge/main/terminals/terminal-session-store';
+import {requestAgentSchedulerTick} from '@/shell/edge/main/terminals/agent-scheduler';
 // Conditionally load trackpad detection (macOS only, optional dependency)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let trackpadDetect: { startMonitoring: () => boolean; stopMonitoring: () => void; isTrackpadScroll: () => boolean } | null = null;
@@ -354,6 +356,14 @@ setOnFolderSwitchCleanup(() => {
     terminalManager.cleanup();
 });
 
+// Offer to restore terminals that were running when the loaded project was last closed
+setOnFolderLoaded((projectRoot: string) => {
+    void offerTerminalSessionRestore(projectRoot);
+});
+
+// Re-run the agent scheduler when task dependencies may have changed
+setOnGraphChanged(requestAgentSchedulerTick);
+
 // App event handlers
 void app.whenReady().then(async () => {
     console.time('[Startup] Total time to window');
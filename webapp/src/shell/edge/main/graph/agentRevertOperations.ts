@@ -0,0 +1,62 @@
+import type { NodeIdAndFilePath } from '@/pure/graph'
+import {
+    buildAgentRevert,
+    previewDelta,
+    type AgentSession,
+    type JournalNodeChange,
+    type RangeRevert
+} from '@/pure/graph/undo'
+import { getDeltaJournalEntries } from '@/shell/edge/main/state/delta-journal-store'
+import { getGraph } from '@/shell/edge/main/state/graph-store'
+import { getTerminalAgentSession } from '@/shell/edge/main/terminals/terminal-registry'
+import {
+    applyGraphDeltaToDBThroughMemAndUIAndEditors
+} from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange";
+
+export interface AgentRevertPreview {
+    readonly agentName: string
+    readonly changes: readonly JournalNodeChange[]
+    /** Nodes someone else changed after the agent - reverting overwrites those changes */
+    readonly conflictingNodeIds: readonly NodeIdAndFilePath[]
+}
+
+function buildRevertForTerminal(terminalId: string): { readonly session: AgentSession; readonly revert: RangeRevert } | undefined {
+    const session: AgentSession | undefined = getTerminalAgentSession(terminalId)
+    if (!session) {
+        return undefined
+    }
+    return { session, revert: buildAgentRevert(getDeltaJournalEntries(), session, getGraph()) }
+}
+
+/**
+ * Computes, without applying, the changes that reverting an agent's session would make.
+ * Returns null if the terminal was never in the registry.
+ */
+export function previewAgentRevert(terminalId: string): AgentRevertPreview | null {
+    const built: { readonly session: AgentSession; readonly revert: RangeRevert } | undefined = buildRevertForTerminal(terminalId)
+    if (!built) {
+        return null
+    }
+    return {
+        agentName: built.session.agentName,
+        changes: previewDelta(built.revert.delta),
+        conflictingNodeIds: built.revert.conflictingNodeIds,
+    }
+}
+
+/**
+ * Reverts every node the agent created or modified during its session as one delta,
+ * so a single undo restores the agent's work. Returns null if the terminal was never in the registry.
+ */
+export async function revertAgent(
+    terminalId: string
+): Promise<{ readonly revertedNodeCount: number; readonly conflictingNodeIds: readonly NodeIdAndFilePath[] } | null> {
+    const built: { readonly session: AgentSession; readonly revert: RangeRevert } | undefined = buildRevertForTerminal(terminalId)
+    if (!built) {
+        return null
+    }
+    if (built.revert.delta.length > 0) {
+        await applyGraphDeltaToDBThroughMemAndUIAndEditors(built.revert.delta, true, { type: 'revert' })
+    }
+    return { revertedNodeCount: built.revert.delta.length, conflictingNodeIds: built.revert.conflictingNodeIds }
+}
@@ -0,0 +1,191 @@
+/**
+ * Applies the context node retention policy: previews which context nodes would go,
+ * then archives or deletes them.
+ *
+ * Archived nodes are copied to {userData}/context-node-archive/{vault}/{YYYY-MM-DD}/, keeping
+ * their path relative to the write path, before being deleted from the vault. The archive
+ * lives outside the vault so the graph doesn't load the archived nodes again.
+ */
+
+import path from 'path'
+import {promises as fs} from 'fs'
+import * as O from 'fp-ts/lib/Option.js'
+import type {Graph, GraphDelta, NodeIdAndFilePath} from '@/pure/graph'
+import {
+    DEFAULT_CONTEXT_NODE_RETENTION,
+    getContextNodeArchiveFolderName,
+    getContextNodeTimestampFromId,
+    planContextNodeRetention,
+    type ContextNodeRetentionPlan
+} from '@/pure/graph/context-retention/planContextNodeRetention'
+import type {ContextNodeRetentionAction, ContextNodeRetentionSettings, VTSettings} from '@/pure/settings/types'
+import {USER_DELTA_SOURCE} from '@/pure/graph/undo'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getAppSupportPath} from '@/shell/edge/main/state/app-electron-state'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {getWritePath} from '@/shell/edge/main/graph/watch_folder/vault-allowlist'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {getPersistedSessionNodeIds} from '@/shell/edge/main/terminals/terminal-session-store'
+import {
+    applyGraphDeltaToDBThroughMemAndUIAndEditors
+} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+
+const ARCHIVE_FOLDER: string = 'context-node-archive'
+
+export interface ContextNodeCleanupResult {
+    readonly action: ContextNodeRetentionAction
+    readonly removedNodeIds: readonly NodeIdAndFilePath[]
+    // Previewed nodes that weren't removed: a terminal attached to them since, or archiving failed
+    readonly skippedNodeIds: readonly NodeIdAndFilePath[]
+    // Where the removed nodes were archived (archive action only)
+    readonly archiveFolder?: string
+}
+
+/**
+ * Context nodes a terminal references, whether its agent is still running or has exited,
+ * plus those of persisted sessions so they can still be restored.
+ */
+function getTerminalContextNodeIds(): ReadonlySet<NodeIdAndFilePath> {
+    return new Set([
+        ...getTerminalRecords().flatMap((record: TerminalRecord) => [
+            record.terminalData.attachedToNodeId,
+            ...(O.isSome(record.terminalData.anchoredToNodeId) ? [record.terminalData.anchoredToNodeId.value] : [])
+        ]),
+        ...getPersistedSessionNodeIds()
+    ])
+}
+
+/**
+ * Creation time from the file name, falling back to the file's modification time.
+ */
+async function getContextNodeCreationTimes(graph: Graph): Promise<ReadonlyMap<NodeIdAndFilePath, number>> {
+    const times: readonly (readonly [NodeIdAndFilePath, number] | undefined)[] = await Promise.all(
+        Object.values(graph.nodes)
+            .filter(node => node.nodeUIMetadata.isContextNode === true)
+            .map(async (node): Promise<readonly [NodeIdAndFilePath, number] | undefined> => {
+                const nodeId: NodeIdAndFilePath = node.absoluteFilePathIsID
+                const fromName: number | undefined = getContextNodeTimestampFromId(nodeId)
+                if (fromName !== undefined) {
+                    return [nodeId, fromName]
+                }
+                try {
+                    return [nodeId, (await fs.stat(nodeId)).mtimeMs]
+                } catch {
+                    return undefined
+                }
+            })
+    )
+    return new Map(times.filter((entry): entry is readonly [NodeIdAndFilePath, number] => entry !== undefined))
+}
+
+async function getRetentionPolicy(policy: ContextNodeRetentionSettings | undefined): Promise<ContextNodeRetentionSettings> {
+    if (policy) {
+        return policy
+    }
+    const settings: VTSettings = await loadSettings()
+    return settings.contextNodeRetention ?? DEFAULT_CONTEXT_NODE_RETENTION
+}
+
+/**
+ * Dry run: which context nodes the policy would keep and remove. Nothing is changed.
+ *
+ * @param policy - Retention policy to preview (defaults to settings.contextNodeRetention)
+ */
+export async function previewContextNodeCleanup(policy?: ContextNodeRetentionSettings): Promise<ContextNodeRetentionPlan> {
+    const graph: Graph = getGraph()
+    return planContextNodeRetention({
+        graph,
+        terminalNodeIds: getTerminalContextNodeIds(),
+        createdAt: await getContextNodeCreationTimes(graph),
+        policy: await getRetentionPolicy(policy)
+    })
+}
+
+/**
+ * Copies each node's file into the archive folder. Returns the nodes that were copied.
+ */
+async function archiveContextNodes(
+    nodeIds: readonly NodeIdAndFilePath[],
+    writePath: string,
+    archiveFolder: string
+): Promise<readonly NodeIdAndFilePath[]> {
+    const archived: readonly (NodeIdAndFilePath | undefined)[] = await Promise.all(
+        nodeIds.map(async (nodeId: NodeIdAndFilePath): Promise<NodeIdAndFilePath | undefined> => {
+            const relativePath: string = path.relative(writePath, nodeId)
+            const archivePath: string = path.join(
+                archiveFolder,
+                relativePath.startsWith('..') || path.isAbsolute(relativePath) ? path.basename(nodeId) : relativePath
+            )
+            try {
+                await fs.mkdir(path.dirname(archivePath), {recursive: true})
+                await fs.copyFile(nodeId, archivePath)
+                return nodeId
+            } catch (error) {
+                console.error(`[cleanUpContextNodes] Could not archive ${nodeId}, keeping it:`, error)
+                return undefined
+            }
+        })
+    )
+    return archived.filter((nodeId): nodeId is NodeIdAndFilePath => nodeId !== undefined)
+}
+
+async function deleteContextNodes(nodeIds: readonly NodeIdAndFilePath[]): Promise<void> {
+    const graph: Graph = getGraph()
+    const delta: GraphDelta = nodeIds
+        .filter(nodeId => graph.nodes[nodeId] !== undefined)
+        .map(nodeId => ({
+            type: 'DeleteNode' as const,
+            nodeId,
+            deletedNode: O.some(graph.nodes[nodeId])
+        }))
+    if (delta.length > 0) {
+        await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, true, USER_DELTA_SOURCE)
+    }
+}
+
+function getSkippedNodeIds(
+    previewedNodeIds: readonly NodeIdAndFilePath[],
+    removedNodeIds: readonly NodeIdAndFilePath[]
+): readonly NodeIdAndFilePath[] {
+    const removed: ReadonlySet<NodeIdAndFilePath> = new Set(removedNodeIds)
+    return previewedNodeIds.filter(nodeId => !removed.has(nodeId))
+}
+
+/**
+ * Archives or deletes the previewed context nodes the policy still removes.
+ *
+ * The plan is recomputed first, so a node a terminal attached to after the preview is kept,
+ * and only nodes that were in the preview are removed. The deletion is recorded for undo.
+ *
+ * @param policy - Retention policy the preview was made with
+ * @param previewedNodeIds - The nodes the user confirmed removing
+ */
+export async function cleanUpContextNodes(
+    policy: ContextNodeRetentionSettings,
+    previewedNodeIds: readonly NodeIdAndFilePath[]
+): Promise<ContextNodeCleanupResult> {
+    const plan: ContextNodeRetentionPlan = await previewContextNodeCleanup(policy)
+    const stillRemoved: ReadonlySet<NodeIdAndFilePath> = new Set(plan.removed.map(removed => removed.nodeId))
+    const toRemove: readonly NodeIdAndFilePath[] = previewedNodeIds.filter(nodeId => stillRemoved.has(nodeId))
+
+    if (policy.action === 'delete') {
+        await deleteContextNodes(toRemove)
+        return {action: 'delete', removedNodeIds: toRemove, skippedNodeIds: getSkippedNodeIds(previewedNodeIds, toRemove)}
+    }
+
+    const writePath: O.Option<string> = await getWritePath()
+    if (O.isNone(writePath)) {
+        return {action: 'archive', removedNodeIds: [], skippedNodeIds: previewedNodeIds}
+    }
+    const archiveFolder: string = path.join(
+        getAppSupportPath(), ARCHIVE_FOLDER, path.basename(writePath.value), getContextNodeArchiveFolderName(new Date())
+    )
+    const archivedNodeIds: readonly NodeIdAndFilePath[] = await archiveContextNodes(toRemove, writePath.value, archiveFolder)
+    await deleteContextNodes(archivedNodeIds)
+    return {
+        action: 'archive',
+        removedNodeIds: archivedNodeIds,
+        skippedNodeIds: getSkippedNodeIds(previewedNodeIds, archivedNodeIds),
+        archiveFolder
+    }
+}
@@ -1,12 +1,30 @@
 import type {Graph, GraphDelta, NodeIdAndFilePath, GraphNode} from '@/pure/graph'
 import {getSubgraphByDistance, getUnionSubgraphByDistance, graphToAscii, makeBidirectionalEdges, CONTEXT_NODES_FOLDER} from '@/pure/graph'
-import {askQuery, type SearchSimilarResult} from '@/shell/edge/main/backend-api'
+import {askQuery, type AskQueryResponse, type SearchSimilarResult} from '@/shell/edge/main/backend-api'
+import {searchNodesLocally} from '@/shell/edge/main/local-search'
 import {getNodeTitle, parseMarkdownToGraphNode} from '@/pure/graph/markdown-parsing'
 import {getGraph} from '@/shell/edge/main/state/graph-store'
 import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
 import * as O from 'fp-ts/lib/Option.js'
 import path from 'path'
+import {promises as fs} from 'fs'
 import {type VTSettings} from '@/pure/settings/types'
+import {rankContextNodes, type RankedContextNode} from '@/pure/graph/context-budget/rankContextNodes'
+import {
+    assignContextDetailLevels,
+    estimateTokens,
+    getContextTokenBudget,
+    getSummaryLine,
+    TRUNCATED_NODE_IDS_KEY,
+    type BudgetedContextNode
+} from '@/pure/graph/context-budget/budgetContextNodes'
+import {
+    DEFAULT_CONTEXT_TEMPLATE,
+    getAncestorIds,
+    getSiblingIds,
+    renderContextTemplate
+} from '@/pure/graph/context-templates/renderContextTemplate'
+import {loadContextTemplate} from '@/shell/edge/main/graph/context-nodes/loadContextTemplate'
 import {calculateInitialPositionForChild} from '@/pure/graph/positioning/calculateInitialPosition'
 import {uiAPI as _uiAPI} from '@/shell/edge/main/ui-api-proxy'
 import {
@@ -18,7 +36,7 @@ import {getWritePath} from "@/shell/edge/main/graph/watch_folder/vault-allowlist
 
 /**
  * Get semantically relevant nodes via vector search with timeout.
- * Returns empty array on error/timeout (graceful fallback).
+ * Falls back to the in-process index on error/timeout.
  *
  * @param query - The text to search for
  * @param topK - Number of results to return
@@ -30,12 +48,12 @@ async function getSemanticRelevantNodes(
 ): Promise<readonly NodeIdAndFilePath[]> {
     if (topK <= 0 || !query.trim()) return []
 
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 1000)
+    const controller: AbortController = new AbortController()
+    const timeoutId: ReturnType<typeof setTimeout> = setTimeout(() => controller.abort(), 1000)
 
     try {
         // Race the askQuery against the abort signal
-        const response = await Promise.race([
+        const response: AskQueryResponse = await Promise.race([
             askQuery(query, topK),
             new Promise<never>((_, reject) => {
                 controller.signal.addEventListener('abort', () => {
@@ -46,39 +64,66 @@ async function getSemanticRelevantNodes(
         clearTimeout(timeoutId)
         return response.relevant_nodes.map((n: SearchSimilarResult) => n.node_path)
     } catch {
-        // Timeout or error: graceful fallback to distance-only
+        // Timeout or error: fall back to local search
         clearTimeout(timeoutId)
-        return []
+        const response: AskQueryResponse = await searchNodesLocally(query, topK)
+        return response.relevant_nodes.map((n: SearchSimilarResult) => n.node_path)
     }
 }
 
 /**
- * Creates a context node for a given parent node.
- *
- * This orchestrator function:
- * 1. Extracts subgraph within distance 7 using weighted BFS
- * 2. Converts subgraph to ASCII visualization
- * 3. Creates a new context node with the visualization
- * 4. Persists via GraphDelta pipeline
- *
- * @param parentNodeId - The node to create context for
- * @returns The NodeId of the newly created context node
+ * Last modification time of each node's file, for ranking by recency.
+ * Nodes whose file can't be read (e.g. not yet written) are left out.
  */
-export async function createContextNode(
-    parentNodeId: NodeIdAndFilePath
-): Promise<NodeIdAndFilePath> {
-    //console.log("[createContextNode] START - parentNodeId:", parentNodeId)
+async function getModifiedTimes(
+    nodeIds: readonly NodeIdAndFilePath[]
+): Promise<ReadonlyMap<NodeIdAndFilePath, number>> {
+    const times: readonly (readonly [NodeIdAndFilePath, number] | undefined)[] = await Promise.all(
+        nodeIds.map(async (nodeId: NodeIdAndFilePath) => {
+            try {
+                const stats: Awaited<ReturnType<typeof fs.stat>> = await fs.stat(nodeId)
+                return [nodeId, stats.mtimeMs] as const
+            } catch {
+                return undefined
+            }
+        })
+    )
+    return new Map(times.filter((entry): entry is readonly [NodeIdAndFilePath, number] => entry !== undefined))
+}
 
-    // 1. EDGE: Read current graph from state
-    const currentGraph: Graph = getGraph()
-    //console.log("[createContextNode] Got graph with", Object.keys(currentGraph.nodes).length, "nodes")
+export interface ContextNodeOptions {
+    // Token budget for the node contents (defaults to the settings' contextNodeTokenBudget)
+    readonly tokenBudget?: number
+    // Context template from the vault's ctx-templates/ folder (defaults to DEFAULT_CONTEXT_TEMPLATE)
+    readonly templateName?: string
+}
+
+export interface ContextNodeMarkdown {
+    readonly content: string
+    // Non-context nodes the context covers, the task node first
+    readonly containedNodeIds: readonly NodeIdAndFilePath[]
+}
 
+/**
+ * Gathers the neighborhood of a task node and lays it out as context node markdown:
+ * 1. Extracts subgraph within distance using weighted BFS (plus semantic search hits)
+ * 2. Converts subgraph to ASCII visualization
+ * 3. Ranks the subgraph's nodes and shortens the less relevant ones to fit the token budget
+ * 4. Lays out the content with the agent's context template
+ *
+ * Shared by createContextNode and refreshContextNode.
+ */
+export async function buildContextNodeMarkdown(
+    currentGraph: Graph,
+    parentNodeId: NodeIdAndFilePath,
+    options: ContextNodeOptions = {}
+): Promise<ContextNodeMarkdown> {
     // Validate parent node exists
     if (!currentGraph.nodes[parentNodeId]) {
         throw new Error(`Node ${parentNodeId} not found in graph`)
     }
 
-    // 2. PURE: Extract subgraph within distance
+    // 1. PURE: Extract subgraph within distance
     const settings: VTSettings = await loadSettings()
     const maxDistance: number = settings.contextNodeMaxDistance
 
@@ -104,7 +149,7 @@ export async function createContextNode(
     )
     //console.log("[createContextNode] Subgraph has", Object.keys(subgraph.nodes).length, "nodes")
 
-    // 3. PURE: Convert subgraph to ASCII visualization
+    // 2. PURE: Convert subgraph to ASCII visualization
     // Make edges bidirectional so parents are shown as "children" in the tree.
     // This ensures nodes reachable via incoming edges (parents) appear in the ASCII tree,
     // not just nodes reachable via outgoing edges (children).
@@ -114,7 +159,80 @@ export async function createContextNode(
     })
     //console.log("[createContextNode] ASCII tree length:", asciiTree.length)
 
-    // 4. EDGE: Generate unique context node ID
+    // 3. Rank nodes by distance, recency, semantic score and degree, then fit them to the budget.
+    // The parent node's content appears twice (node list and task) and the ASCII tree once.
+    const rankedNodes: readonly RankedContextNode[] = rankContextNodes({
+        subgraph,
+        graph: currentGraph,
+        startNodeId: parentNodeId,
+        maxDistance,
+        semanticNodeIds,
+        modifiedAt: await getModifiedTimes(Object.keys(subgraph.nodes))
+    })
+    const nodeContentsBudget: number = (options.tokenBudget ?? getContextTokenBudget(settings))
+        - estimateTokens(asciiTree)
+        - 2 * estimateTokens(parentNode.contentWithoutYamlOrLinks)
+    const budgetedNodes: readonly BudgetedContextNode[] = assignContextDetailLevels(
+        rankedNodes.map((ranked: RankedContextNode) => ranked.nodeId),
+        subgraph,
+        nodeContentsBudget
+    )
+
+    // 4. Lay out the body with the agent's context template, if it chose one that exists
+    // Context node is orphaned (no edges to task node) - terminal shadow will connect to it
+    const template: string = (options.templateName !== undefined
+        ? await loadContextTemplate(options.templateName)
+        : undefined) ?? DEFAULT_CONTEXT_TEMPLATE
+
+    // Collect all node IDs from the subgraph (excluding context nodes to prevent self-referencing)
+    const containedNodeIds: readonly NodeIdAndFilePath[] = Object.keys(subgraph.nodes)
+        .filter(nodeId => !subgraph.nodes[nodeId].nodeUIMetadata.isContextNode)
+
+    const content: string = buildContextNodeContent(
+        parentNodeId,
+        getNodeTitle(parentNode),
+        maxDistance,
+        asciiTree,
+        subgraph,
+        semanticNodeIds,
+        budgetedNodes,
+        containedNodeIds,
+        template,
+        currentGraph
+    )
+    //console.log("[createContextNode] Content length:", content.length)
+
+    return {content, containedNodeIds}
+}
+
+/**
+ * Creates a context node for a given parent node.
+ *
+ * This orchestrator function:
+ * 1. Builds the context markdown (neighborhood, ASCII tree, budgeted contents) via buildContextNodeMarkdown
+ * 2. Creates a new context node with it
+ * 3. Persists via GraphDelta pipeline
+ *
+ * @param parentNodeId - The node to create context for
+ * @param options - Token budget and template for the agent the context node is for
+ * @returns The NodeId of the newly created context node
+ */
+export async function createContextNode(
+    parentNodeId: NodeIdAndFilePath,
+    options: ContextNodeOptions = {}
+): Promise<NodeIdAndFilePath> {
+    //console.log("[createContextNode] START - parentNodeId:", parentNodeId)
+
+    // 1. EDGE: Read current graph from state
+    const currentGraph: Graph = getGraph()
+    //console.log("[createContextNode] Got graph with", Object.keys(currentGraph.nodes).length, "nodes")
+
+    // 2. Build markdown content with frontmatter
+    //console.log("[createContextNode] Building content...")
+    const {content}: ContextNodeMarkdown = await buildContextNodeMarkdown(currentGraph, parentNodeId, options)
+    const parentNode: GraphNode = currentGraph.nodes[parentNodeId]
+
+    // 3. EDGE: Generate unique context node ID
     const timestamp: number = Date.now()
     const parentIdWithoutExtension: string = parentNodeId.replace(/\.md$/, '')
     // Don't prepend ctx-nodes/ if the parent path already contains it (prevents infinite nesting)
@@ -134,23 +252,7 @@ export async function createContextNode(
     const contextNodeId: string = ensureUniqueNodeId(candidateContextNodeId, existingIds)
     //console.log("[createContextNode] Generated contextNodeId:", contextNodeId)
 
-    // 5. EDGE: Get parent node info for context
-    const parentTitle: string = getNodeTitle(parentNode)
-
-    // 6. EDGE: Build markdown content with frontmatter
-    // Context node is orphaned (no edges to task node) - terminal shadow will connect to it
-    //console.log("[createContextNode] Building content...")
-    const content: string = buildContextNodeContent(
-        parentNodeId,
-        parentTitle,
-        maxDistance,
-        asciiTree,
-        subgraph,
-        semanticNodeIds
-    )
-    //console.log("[createContextNode] Content length:", content.length)
-
-    // 7. PURE: Create orphaned context node (no parent edge)
+    // 4. PURE: Create orphaned context node (no parent edge)
     // The terminal's shadow node will create a cytoscape edge to this context node
     //console.log("[createContextNode] Creating delta for orphaned context node...")
     const parsedNode: GraphNode = parseMarkdownToGraphNode(content, contextNodeId, currentGraph)
@@ -172,16 +274,16 @@ export async function createContextNode(
     ]
     //console.log("[createContextNode] Delta created with", contextNodeDelta.length, "actions (orphaned, no parent edge)")
 
-    // 8a. Notify UI immediately (before DB write, ensures node exists in Cytoscape for terminal anchoring)
+    // 5a. Notify UI immediately (before DB write, ensures node exists in Cytoscape for terminal anchoring)
     //console.log("[createContextNode] BEFORE UIAPI")
     // void uiAPI.applyGraphDeltaToUI(contextNodeDelta) TODO
 
-    // 8b. EDGE: Apply via GraphDelta pipeline (writes to disk)
+    // 5b. EDGE: Apply via GraphDelta pipeline (writes to disk)
     //console.log("[createContextNode] BEFORE applyGraphDeltaToDBThroughMem")
     await applyGraphDeltaToDBThroughMemAndUIAndEditors(contextNodeDelta)
     //console.log("[createContextNode] AFTER applyGraphDeltaToDBThroughMem")
 
-    // 9. Return the created node ID
+    // 6. Return the created node ID
     //console.log("[createContextNode] DONE - returning:", contextNodeId)
     return contextNodeId
 }
@@ -191,77 +293,100 @@ export async function createContextNode(
  */
 function buildContextNodeContent(
     parentNodeId: NodeIdAndFilePath,
-    _parentTitle: string,
+    parentTitle: string,
     _maxDistance: number,
     asciiTree: string,
     subgraph: Graph,
-    semanticNodeIds: readonly NodeIdAndFilePath[]
+    semanticNodeIds: readonly NodeIdAndFilePath[],
+    budgetedNodes: readonly BudgetedContextNode[],
+    containedNodeIds: readonly NodeIdAndFilePath[],
+    template: string,
+    graph: Graph
 ): string {
     // todo this should be done by creatingGraphNode, and then calling to markdown function on it.
-    const nodeDetailsList: string = generateNodeDetailsList(subgraph, parentNodeId, semanticNodeIds)
-
-    // Collect all node IDs from the subgraph (excluding context nodes to prevent self-referencing)
-    const containedNodeIds: readonly string[] = Object.keys(subgraph.nodes)
-        .filter(nodeId => !subgraph.nodes[nodeId].nodeUIMetadata.isContextNode)
+    const nodeDetailsList: string = generateNodeDetailsList(subgraph, parentNodeId, semanticNodeIds, budgetedNodes)
 
     // Format containedNodeIds as YAML array
     const containedNodeIdsYaml: string = containedNodeIds.length > 0
         ? `containedNodeIds:\n${containedNodeIds.map(id => `  - ${id}`).join('\n')}\n`
         : ''
 
+    // Nodes shortened to fit the budget, so get_unseen_nodes_nearby can offer their full content later
+    const truncatedNodeIds: readonly NodeIdAndFilePath[] = budgetedNodes
+        .filter((budgeted: BudgetedContextNode) => budgeted.level !== 'full')
+        .map((budgeted: BudgetedContextNode) => budgeted.nodeId)
+    const truncatedNodeIdsYaml: string = truncatedNodeIds.length > 0
+        ? `${TRUNCATED_NODE_IDS_KEY}:\n${truncatedNodeIds.map(id => `  - ${id}`).join('\n')}\n`
+        : ''
+
+    const body: string = renderContextTemplate(template, {
+        taskNodeId: parentNodeId,
+        taskTitle: parentTitle,
+        taskContent: escapeLinkStars(subgraph.nodes[parentNodeId].contentWithoutYamlOrLinks),
+        ancestorIds: getAncestorIds(graph, parentNodeId),
+        siblingIds: getSiblingIds(graph, parentNodeId),
+        neighborhoodAscii: asciiTree,
+        nodeContents: nodeDetailsList,
+        semanticNodeIds,
+        unseenNodeIds: truncatedNodeIds,
+        containedNodeIds
+    }, graph)
+
     // Context node is orphaned - no wikilink edge to parent
     // The terminal's shadow node will create a cytoscape edge to this context node
     return `---
 title: "ctx"
 isContextNode: true
-${containedNodeIdsYaml}---
-# ctx
-Nearby nodes to: ${parentNodeId}
-\`\`\`
-${asciiTree}
-\`\`\`
-
-## Node Contents 
-${nodeDetailsList}
+${containedNodeIdsYaml}${truncatedNodeIdsYaml}---
+${body}`
+}
 
-`
+/**
+ * Convert [link]* markers to [\[link]\] to show they were wikilinks, while preventing them from
+ * being parsed as actual [[link]] wikilinks when written to disk.
+ */
+function escapeLinkStars(content: string): string {
+    return content.replace(/\[([^\]]+)\]\*/g, '[\\[$1]\\]')
 }
 
 /**
- * Generate markdown list of node details in depth-first traversal order.
- * Matches the order of nodes in the ASCII tree visualization.
- * Nodes found via semantic search are marked with [SEMANTIC].
+ * Generate markdown list of node details, the parent node first, then the other nodes
+ * most relevant first at their budgeted detail level.
+ * Nodes found via semantic search are marked with [SEMANTIC]; shortened nodes with [SUMMARY] or [TITLE ONLY].
  */
 function generateNodeDetailsList(
     subgraph: Graph,
     _startNodeId: NodeIdAndFilePath,
-    semanticNodeIds: readonly NodeIdAndFilePath[]
+    semanticNodeIds: readonly NodeIdAndFilePath[],
+    budgetedNodes: readonly BudgetedContextNode[]
 ): string {
-    const lines: string[] = []
+    const startNode: GraphNode = subgraph.nodes[_startNodeId]
+    const startNodeContent: string = escapeLinkStars(startNode.contentWithoutYamlOrLinks)
 
-    // Iterate over all nodes in subgraph
-    // Note: Order won't match ASCII tree exactly, but ensures all nodes are included
-    // (getNodeIdsInTraversalOrder only follows outgoing edges, missing nodes reachable via incoming edges)
-    for (const nodeId of Object.keys(subgraph.nodes)) {
+    const formatNode: (budgeted: BudgetedContextNode) => string = ({nodeId, level}: BudgetedContextNode): string => {
         const node: GraphNode = subgraph.nodes[nodeId]
-        // Skip context nodes to prevent self-referencing in generated context
-        if (node.nodeUIMetadata.isContextNode) {
-            continue
-        }
         // Mark nodes found via semantic search
-        const isSemantic: boolean = semanticNodeIds.includes(nodeId)
-        const marker: string = isSemantic ? ' [SEMANTIC]' : ''
-        // Convert [link]* markers to [\[link]\] to show they were wikilinks, while preventing them from
-        // being parsed as actual [[link]] wikilinks when written to disk.
-        const contentWithoutLinkStars: string = node.contentWithoutYamlOrLinks.replace(/\[([^\]]+)\]\*/g, '[\\[$1]\\]')
-        lines.push(`<${node.absoluteFilePathIsID}>${marker} \n ${contentWithoutLinkStars} \n </${node.absoluteFilePathIsID}>`)
+        const marker: string = semanticNodeIds.includes(nodeId) ? ' [SEMANTIC]' : ''
+        switch (level) {
+            case 'full':
+                return `<${nodeId}>${marker} \n ${escapeLinkStars(node.contentWithoutYamlOrLinks)} \n </${nodeId}>`
+            case 'summary':
+                return `<${nodeId}>${marker} [SUMMARY] ${getNodeTitle(node)}: ${getSummaryLine(node)} </${nodeId}>`
+            case 'title':
+                return `<${nodeId}>${marker} [TITLE ONLY] ${getNodeTitle(node)} </${nodeId}>`
+        }
     }
 
-    // Convert [link]* markers from the start node content too
-    const startNodeContent: string = subgraph.nodes[_startNodeId].contentWithoutYamlOrLinks.replace(/\[([^\]]+)\]\*/g, '[\\[$1]\\]')
-
-    lines.push(`<TASK> IMPORTANT. YOUR specific task, and the most relevant context is the source note you were spawned from, which is:
-        ${_startNodeId}: ${startNodeContent} </TASK>`)
+    const truncatedCount: number = budgetedNodes.filter((budgeted: BudgetedContextNode) => budgeted.level !== 'full').length
+    const truncationNote: readonly string[] = truncatedCount > 0
+        ? [`(${truncatedCount} less relevant node${truncatedCount === 1 ? ' was' : 's were'} shortened to fit the context budget. Use get_unseen_nodes_nearby to read them in full.)`]
+        : []
 
-    return lines.join('\n')
+    return [
+        `<${_startNodeId}> \n ${startNodeContent} \n </${_startNodeId}>`,
+        ...budgetedNodes.map(formatNode),
+        ...truncationNote,
+        `<TASK> IMPORTANT. YOUR specific task, and the most relevant context is the source note you were spawned from, which is:
+        ${_startNodeId}: ${startNodeContent} </TASK>`
+    ].join('\n')
 }
@@ -3,6 +3,7 @@ import { getSubgraphByDistance } from '@/pure/graph'
 import { getGraph } from '@/shell/edge/main/state/graph-store'
 import { loadSettings } from '@/shell/edge/main/settings/settings_IO'
 import { type VTSettings } from '@/pure/settings/types'
+import { getTruncatedNodeIds } from '@/pure/graph/context-budget/budgetContextNodes'
 
 /**
  * Result type for unseen nodes
@@ -21,6 +22,9 @@ export interface UnseenNode {
  * 3. Re-runs the same graph traversal (getSubgraphByDistance with contextNodeMaxDistance from settings)
  * 4. Returns nodes that are in the new traversal but NOT in containedNodeIds
  *
+ * Nodes the context node shortened to fit its token budget were seen, so they aren't
+ * included - see getTruncatedNodesOfContextNode.
+ *
  * @param contextNodeId - The ID of the context node
  * @param searchFromNode - Optional override for the starting node (defaults to task node from containedNodeIds[0])
  * @returns Array of unseen nodes with their content (without YAML/frontmatter)
@@ -58,15 +62,37 @@ export async function getUnseenNodesAroundContextNode(
     const seenNodeIds: ReadonlySet<NodeIdAndFilePath> = new Set(containedNodeIds)
 
     // 6. Filter to nodes NOT in containedNodeIds (excluding context nodes)
-    const unseenNodes: readonly UnseenNode[] = Object.values(subgraph.nodes)
+    const unseenNodes: readonly GraphNode[] = Object.values(subgraph.nodes)
         .filter((node: GraphNode) =>
             !seenNodeIds.has(node.absoluteFilePathIsID) &&
             !node.nodeUIMetadata.isContextNode
         )
+
+    return unseenNodes.map((node: GraphNode) => ({
+        nodeId: node.absoluteFilePathIsID,
+        content: node.contentWithoutYamlOrLinks
+    }))
+}
+
+/**
+ * Gets the nodes a context node shortened (summary or title-only) to fit its token budget,
+ * with their full current content. Nodes deleted since are left out.
+ *
+ * @param contextNodeId - The ID of the context node
+ * @returns Array of shortened nodes with their content (without YAML/frontmatter)
+ */
+export function getTruncatedNodesOfContextNode(contextNodeId: NodeIdAndFilePath): readonly UnseenNode[] {
+    const currentGraph: Graph = getGraph()
+    const contextNode: GraphNode | undefined = currentGraph.nodes[contextNodeId]
+    if (!contextNode) {
+        throw new Error(`Context node ${contextNodeId} not found in graph`)
+    }
+
+    return getTruncatedNodeIds(contextNode)
+        .map((nodeId: NodeIdAndFilePath) => currentGraph.nodes[nodeId])
+        .filter((node: GraphNode | undefined): node is GraphNode => node !== undefined)
         .map((node: GraphNode) => ({
             nodeId: node.absoluteFilePathIsID,
             content: node.contentWithoutYamlOrLinks
         }))
-
-    return unseenNodes
 }
@@ -0,0 +1,29 @@
+import path from 'path'
+import {promises as fs} from 'fs'
+import * as O from 'fp-ts/lib/Option.js'
+import {CONTEXT_TEMPLATES_FOLDER, getContextTemplateBody} from '@/pure/graph/context-templates/renderContextTemplate'
+import {getWritePath} from '@/shell/edge/main/graph/watch_folder/vault-allowlist'
+
+/**
+ * Reads a context template from {writePath}/ctx-templates/{name}.md and returns its body
+ * (without frontmatter). Returns undefined, with a warning, if the template can't be read,
+ * so the caller falls back to the default layout.
+ *
+ * @param templateName - File name of the template, with or without .md
+ */
+export async function loadContextTemplate(templateName: string): Promise<string | undefined> {
+    const writePath: O.Option<string> = await getWritePath()
+    if (O.isNone(writePath)) {
+        return undefined
+    }
+
+    // Template names come from settings - keep them inside the templates folder
+    const fileName: string = path.basename(templateName.endsWith('.md') ? templateName : `${templateName}.md`)
+    const templatePath: string = path.join(writePath.value, CONTEXT_TEMPLATES_FOLDER, fileName)
+    try {
+        return getContextTemplateBody(await fs.readFile(templatePath, 'utf-8'))
+    } catch (error) {
+        console.warn(`[loadContextTemplate] Could not read context template ${templatePath}, using the default layout:`, error)
+        return undefined
+    }
+}
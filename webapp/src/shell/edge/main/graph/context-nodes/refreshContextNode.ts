@@ -0,0 +1,111 @@
+import type {Graph, GraphDelta, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {parseMarkdownToGraphNode} from '@/pure/graph/markdown-parsing'
+import {
+    formatContextRefreshChanges,
+    formatContextRefreshSummary,
+    getContextRefreshDiff,
+    isEmptyContextRefreshDiff,
+    type ContextRefreshDiff
+} from '@/pure/graph/context-refresh/contextRefreshDiff'
+import {getContextTokenBudget} from '@/pure/graph/context-budget/budgetContextNodes'
+import {findAgentByCommand, type VTSettings} from '@/pure/settings/types'
+import {type DeltaSource, USER_DELTA_SOURCE} from '@/pure/graph/undo'
+import * as O from 'fp-ts/lib/Option.js'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {
+    applyGraphDeltaToDBThroughMemAndUIAndEditors
+} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {buildContextNodeMarkdown, type ContextNodeMarkdown, type ContextNodeOptions} from '@/shell/edge/main/graph/context-nodes/createContextNode'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {sendTextToTerminal} from '@/shell/edge/main/terminals/send-text-to-terminal'
+
+export interface RefreshContextNodeOptions {
+    // Send a summary of the changes to the running terminals attached to the context node
+    readonly notifyTerminals?: boolean
+    // Who the refresh is recorded as in the undo journal
+    readonly source?: DeltaSource
+}
+
+export interface ContextNodeRefreshResult {
+    readonly contextNodeId: NodeIdAndFilePath
+    readonly diff: ContextRefreshDiff
+    readonly notifiedTerminalIds: readonly string[]
+}
+
+/**
+ * Refreshes a context node in place instead of creating a new one.
+ *
+ * Recomputes the neighborhood of its task node (the first containedNodeId) with the same
+ * settings, budget and template as a new context node for the attached agent, rewrites the
+ * node with a "Changes since last refresh" diff of added/removed nodes, and updates containedNodeIds.
+ *
+ * @param contextNodeId - The context node to refresh
+ * @param options - Whether to notify attached terminals, and the undo journal source
+ * @returns The added/removed nodes and the terminals that were notified
+ */
+export async function refreshContextNode(
+    contextNodeId: NodeIdAndFilePath,
+    options: RefreshContextNodeOptions = {}
+): Promise<ContextNodeRefreshResult> {
+    const currentGraph: Graph = getGraph()
+
+    // 1. Validate the context node and find its task node
+    const contextNode: GraphNode | undefined = currentGraph.nodes[contextNodeId]
+    if (!contextNode?.nodeUIMetadata.isContextNode) {
+        throw new Error(`Context node ${contextNodeId} not found in graph`)
+    }
+    const previousNodeIds: readonly NodeIdAndFilePath[] = contextNode.nodeUIMetadata.containedNodeIds ?? []
+    if (previousNodeIds.length === 0) {
+        throw new Error(`Context node ${contextNodeId} has no containedNodeIds metadata`)
+    }
+    const taskNodeId: NodeIdAndFilePath = previousNodeIds[0]
+
+    // 2. Use the budget and template of the agent running on this context node
+    const attachedTerminals: readonly TerminalRecord[] = getTerminalRecords().filter(
+        (record: TerminalRecord) => record.terminalData.attachedToNodeId === contextNodeId && record.status === 'running'
+    )
+    const settings: VTSettings = await loadSettings()
+    const agentCommand: string | undefined = attachedTerminals[0]?.terminalData.initialCommand
+    const contextOptions: ContextNodeOptions = {
+        tokenBudget: getContextTokenBudget(settings, agentCommand),
+        templateName: findAgentByCommand(settings, agentCommand)?.contextTemplate
+    }
+
+    // 3. Recompute the context and diff it against the previous one
+    const markdown: ContextNodeMarkdown = await buildContextNodeMarkdown(currentGraph, taskNodeId, contextOptions)
+    const diff: ContextRefreshDiff = getContextRefreshDiff(previousNodeIds, markdown.containedNodeIds)
+    const content: string = `${markdown.content}${formatContextRefreshChanges(diff, currentGraph, new Date().toLocaleString())}`
+
+    // 4. Update the node in place, keeping its position
+    const parsedNode: GraphNode = parseMarkdownToGraphNode(content, contextNodeId, currentGraph)
+    const refreshedNode: GraphNode = {
+        ...parsedNode,
+        absoluteFilePathIsID: contextNodeId,
+        nodeUIMetadata: {
+            ...parsedNode.nodeUIMetadata,
+            position: contextNode.nodeUIMetadata.position
+        }
+    }
+    const delta: GraphDelta = [
+        {
+            type: 'UpsertNode',
+            nodeToUpsert: refreshedNode,
+            previousNode: O.some(contextNode)
+        }
+    ]
+    await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, true, options.source ?? USER_DELTA_SOURCE)
+
+    // 5. Optionally tell the attached agents what changed
+    const terminalsToNotify: readonly TerminalRecord[] = options.notifyTerminals && !isEmptyContextRefreshDiff(diff)
+        ? attachedTerminals
+        : []
+    const summary: string = formatContextRefreshSummary(diff, currentGraph, contextNodeId)
+    await Promise.all(terminalsToNotify.map((record: TerminalRecord) => sendTextToTerminal(record.terminalId, summary)))
+
+    return {
+        contextNodeId,
+        diff,
+        notifiedTerminalIds: terminalsToNotify.map((record: TerminalRecord) => record.terminalId)
+    }
+}
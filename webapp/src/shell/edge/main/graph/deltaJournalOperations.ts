@@ -0,0 +1,46 @@
+import type { NodeIdAndFilePath } from '@/pure/graph'
+import {
+    buildRangeRevert,
+    previewJournalEntry,
+    summarizeJournalEntry,
+    type DeltaJournalEntry,
+    type DeltaJournalSummary,
+    type JournalNodeChange,
+    type RangeRevert
+} from '@/pure/graph/undo'
+import { getDeltaJournalEntries } from '@/shell/edge/main/state/delta-journal-store'
+import { getGraph } from '@/shell/edge/main/state/graph-store'
+import {
+    applyGraphDeltaToDBThroughMemAndUIAndEditors
+} from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange";
+
+/**
+ * Lists the journal of the open project, oldest first, for the timeline panel.
+ */
+export function getDeltaJournalTimeline(): readonly DeltaJournalSummary[] {
+    return getDeltaJournalEntries().map(summarizeJournalEntry)
+}
+
+/**
+ * Returns the before/after content of every node changed by one journal entry.
+ * Returns an empty list if the entry is no longer in the journal.
+ */
+export function previewDeltaJournalEntry(entryId: number): readonly JournalNodeChange[] {
+    const entry: DeltaJournalEntry | undefined = getDeltaJournalEntries().find(e => e.id === entryId)
+    return entry ? previewJournalEntry(entry) : []
+}
+
+/**
+ * Reverts journal entries fromId..toId (inclusive), restoring every node they touched
+ * to its state before the range. The revert is itself recorded for undo and journaled.
+ */
+export async function revertDeltaJournalRange(
+    fromId: number,
+    toId: number
+): Promise<{ readonly revertedNodeCount: number; readonly conflictingNodeIds: readonly NodeIdAndFilePath[] }> {
+    const revert: RangeRevert = buildRangeRevert(getDeltaJournalEntries(), fromId, toId, getGraph())
+    if (revert.delta.length > 0) {
+        await applyGraphDeltaToDBThroughMemAndUIAndEditors(revert.delta, true, { type: 'revert' })
+    }
+    return { revertedNodeCount: revert.delta.length, conflictingNodeIds: revert.conflictingNodeIds }
+}
@@ -0,0 +1,51 @@
+/**
+ * Saves an export of the graph (JSON, GraphML, DOT or Mermaid) to a file picked by the user.
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { dialog } from 'electron'
+import * as O from 'fp-ts/lib/Option.js'
+import type { Graph } from '@/pure/graph'
+import { exportGraph, GRAPH_EXPORT_FILE_EXTENSIONS, type GraphExportFormat } from '@/pure/graph/export/exportGraph'
+import { getGraphForExportScope, type GraphExportScope } from '@/pure/graph/export/graphExportScope'
+import { getGraph } from '@/shell/edge/main/state/graph-store'
+import { getWritePath } from '@/shell/edge/main/graph/watch_folder/watchFolder'
+
+export interface GraphExportFileResult {
+    readonly success: boolean
+    readonly path?: string
+    readonly error?: string
+}
+
+function getDefaultFileName(scope: GraphExportScope, format: GraphExportFormat): string {
+    const baseName: string = scope.kind === 'neighborhood'
+        ? `${path.basename(scope.nodeId, '.md')}-neighborhood`
+        : scope.kind === 'selection' ? 'graph-selection' : 'graph'
+    return `${baseName}.${GRAPH_EXPORT_FILE_EXTENSIONS[format]}`
+}
+
+/**
+ * Exports the scope of the current graph and writes it where the user chooses
+ * (the save dialog starts in the write path).
+ */
+export async function exportGraphToFile(format: GraphExportFormat, scope: GraphExportScope): Promise<GraphExportFileResult> {
+    const graph: Graph = getGraphForExportScope(getGraph(), scope)
+    if (Object.keys(graph.nodes).length === 0) {
+        return { success: false, error: 'Nothing to export' }
+    }
+
+    const writePath: O.Option<string> = await getWritePath()
+    const defaultFileName: string = getDefaultFileName(scope, format)
+    const result: Electron.SaveDialogReturnValue = await dialog.showSaveDialog({
+        title: 'Export Graph',
+        defaultPath: O.isSome(writePath) ? path.join(writePath.value, defaultFileName) : defaultFileName,
+        filters: [{ name: format.toUpperCase(), extensions: [GRAPH_EXPORT_FILE_EXTENSIONS[format]] }]
+    })
+    if (result.canceled || !result.filePath) {
+        return { success: false, error: 'Export cancelled' }
+    }
+
+    await fs.writeFile(result.filePath, exportGraph(graph, format), 'utf-8')
+    return { success: true, path: result.filePath }
+}
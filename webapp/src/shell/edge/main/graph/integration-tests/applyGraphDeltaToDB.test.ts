@@ -61,7 +61,7 @@ describe('applyGraphDeltaToDB - Integration Tests', () => {
 
           color: O.none,
           position: O.none,
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -103,7 +103,7 @@ describe('applyGraphDeltaToDB - Integration Tests', () => {
 
           color: O.some('#FF5733'),
           position: O.some({ x: 100, y: 200 }),
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -142,7 +142,7 @@ describe('applyGraphDeltaToDB - Integration Tests', () => {
 
           color: O.none,
           position: O.none,
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -191,7 +191,7 @@ describe('applyGraphDeltaToDB - Integration Tests', () => {
 
           color: O.none,
           position: O.none,
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -213,7 +213,7 @@ describe('applyGraphDeltaToDB - Integration Tests', () => {
 
           color: O.none,
           position: O.none,
-          additionalYAMLProps: new Map(),
+          additionalYAMLProps: {},
           isContextNode: false
         }
       }
@@ -257,7 +257,7 @@ describe('applyGraphDeltaToDB - Integration Tests', () => {
 
             color: O.none,
             position: O.none,
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: false
           }
         },
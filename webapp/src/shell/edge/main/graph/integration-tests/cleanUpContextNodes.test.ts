@@ -0,0 +1,162 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
+import {promises as fs} from 'fs'
+import os from 'os'
+import path from 'path'
+import * as O from 'fp-ts/lib/Option.js'
+import type {DeleteNode, Graph, GraphDelta, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types'
+import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
+
+const testDirs: {vault: string; userData: string} = {vault: '', userData: ''}
+
+vi.mock('electron', () => ({
+    app: {
+        getPath: vi.fn(() => testDirs.userData)
+    }
+}))
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/settings/settings_IO', () => ({
+    loadSettings: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/graph/watch_folder/vault-allowlist', () => ({
+    getWritePath: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
+    getTerminalRecords: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/terminal-session-store', () => ({
+    getPersistedSessionNodeIds: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange', () => ({
+    applyGraphDeltaToDBThroughMemAndUIAndEditors: vi.fn()
+}))
+
+import {cleanUpContextNodes, previewContextNodeCleanup, type ContextNodeCleanupResult} from '@/shell/edge/main/graph/context-nodes/cleanUpContextNodes'
+import type {ContextNodeRetentionPlan} from '@/pure/graph/context-retention/planContextNodeRetention'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {getWritePath} from '@/shell/edge/main/graph/watch_folder/vault-allowlist'
+import {getTerminalRecords} from '@/shell/edge/main/terminals/terminal-registry'
+import {getPersistedSessionNodeIds} from '@/shell/edge/main/terminals/terminal-session-store'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {DEFAULT_SETTINGS} from '@/pure/settings/DEFAULT_SETTINGS'
+
+function contextNodeId(timestamp: number): NodeIdAndFilePath {
+    return path.join(testDirs.vault, 'ctx-nodes', `task_context_${timestamp}.md`)
+}
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, containedNodeIds?: readonly NodeIdAndFilePath[]): GraphNode {
+    return {
+        outgoingEdges: [],
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: `# ${path.basename(nodeId)}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode: containedNodeIds !== undefined,
+            containedNodeIds
+        }
+    }
+}
+
+// Three context nodes for the same task, oldest first
+function buildGraph(): Graph {
+    const taskNodeId: NodeIdAndFilePath = path.join(testDirs.vault, 'task.md')
+    return createGraph({
+        [taskNodeId]: buildGraphNode(taskNodeId),
+        ...Object.fromEntries([1000000000001, 1000000000002, 1000000000003].map(timestamp => [
+            contextNodeId(timestamp),
+            buildGraphNode(contextNodeId(timestamp), [taskNodeId])
+        ]))
+    })
+}
+
+function attachTerminalTo(nodeId: NodeIdAndFilePath): void {
+    const terminalData: TerminalData = createTerminalData({
+        terminalId: 'Wendy' as TerminalId,
+        attachedToNodeId: nodeId,
+        terminalCount: 0,
+        title: 'Task',
+        executeCommand: true,
+        agentName: 'Wendy'
+    })
+    vi.mocked(getTerminalRecords).mockReturnValue([{terminalId: 'Wendy', terminalData, status: 'exited'}])
+}
+
+function deletedNodeIds(): readonly NodeIdAndFilePath[] {
+    return vi.mocked(applyGraphDeltaToDBThroughMemAndUIAndEditors).mock.calls
+        .flatMap(call => call[0] as GraphDelta)
+        .map(nodeDelta => (nodeDelta as DeleteNode).nodeId)
+}
+
+describe('cleanUpContextNodes', () => {
+    beforeEach(async () => {
+        vi.clearAllMocks()
+        testDirs.vault = await fs.mkdtemp(path.join(os.tmpdir(), 'ctx-cleanup-vault-'))
+        testDirs.userData = await fs.mkdtemp(path.join(os.tmpdir(), 'ctx-cleanup-userdata-'))
+        await fs.mkdir(path.join(testDirs.vault, 'ctx-nodes'))
+        await Promise.all(Object.keys(buildGraph().nodes).map(nodeId => fs.writeFile(nodeId, `# ${path.basename(nodeId)}`)))
+        vi.mocked(getGraph).mockReturnValue(buildGraph())
+        vi.mocked(loadSettings).mockResolvedValue(DEFAULT_SETTINGS)
+        vi.mocked(getWritePath).mockResolvedValue(O.some(testDirs.vault))
+        vi.mocked(getTerminalRecords).mockReturnValue([])
+        vi.mocked(getPersistedSessionNodeIds).mockReturnValue(new Set())
+    })
+
+    afterEach(async () => {
+        await fs.rm(testDirs.vault, {recursive: true, force: true})
+        await fs.rm(testDirs.userData, {recursive: true, force: true})
+    })
+
+    it('should preview without touching the vault', async () => {
+        const plan: ContextNodeRetentionPlan = await previewContextNodeCleanup({keepPerTask: 1, action: 'delete'})
+
+        expect(plan.removed.map(removed => removed.nodeId)).toEqual([contextNodeId(1000000000001), contextNodeId(1000000000002)])
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+    })
+
+    it('should copy archived nodes into a dated folder before deleting them', async () => {
+        const result: ContextNodeCleanupResult = await cleanUpContextNodes(
+            {keepPerTask: 2, action: 'archive'},
+            [contextNodeId(1000000000001)]
+        )
+
+        expect(result.removedNodeIds).toEqual([contextNodeId(1000000000001)])
+        expect(result.archiveFolder).toMatch(/context-node-archive[/\\]ctx-cleanup-vault-\w+[/\\]\d{4}-\d{2}-\d{2}$/)
+        const archived: string = await fs.readFile(path.join(result.archiveFolder!, 'ctx-nodes', 'task_context_1000000000001.md'), 'utf-8')
+        expect(archived).toBe('# task_context_1000000000001.md')
+        expect(deletedNodeIds()).toEqual([contextNodeId(1000000000001)])
+    })
+
+    it('should skip a previewed node that a terminal attached to after the preview', async () => {
+        const plan: ContextNodeRetentionPlan = await previewContextNodeCleanup({keepPerTask: 1, action: 'delete'})
+        attachTerminalTo(contextNodeId(1000000000001))
+
+        const result: ContextNodeCleanupResult = await cleanUpContextNodes(
+            plan.policy,
+            plan.removed.map(removed => removed.nodeId)
+        )
+
+        expect(result.removedNodeIds).toEqual([contextNodeId(1000000000002)])
+        expect(result.skippedNodeIds).toEqual([contextNodeId(1000000000001)])
+        expect(deletedNodeIds()).toEqual([contextNodeId(1000000000002)])
+    })
+
+    it('should keep context nodes of persisted sessions', async () => {
+        vi.mocked(getPersistedSessionNodeIds).mockReturnValue(new Set([contextNodeId(1000000000001)]))
+
+        const plan: ContextNodeRetentionPlan = await previewContextNodeCleanup({keepPerTask: 1, action: 'delete'})
+
+        expect(plan.removed.map(removed => removed.nodeId)).toEqual([contextNodeId(1000000000002)])
+    })
+})
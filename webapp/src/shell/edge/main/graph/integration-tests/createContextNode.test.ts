@@ -33,11 +33,9 @@ import { setGraph } from '@/shell/edge/main/state/graph-store'
 import { setVaultPath, getVaultPath } from '@/shell/edge/main/graph/watch_folder/watchFolder'
 import { EXAMPLE_SMALL_PATH, EXAMPLE_LARGE_PATH } from '@/utils/test-utils/fixture-paths'
 import * as O from 'fp-ts/lib/Option.js'
-import * as E from 'fp-ts/lib/Either.js'
 import { promises as fs } from 'fs'
 import path from 'path'
 import type { NodeIdAndFilePath, Edge, GraphNode, Graph } from '@/pure/graph'
-import type { FileLimitExceededError } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce'
 
 describe('createContextNode - Integration Tests', () => {
   let createdContextNodeId: NodeIdAndFilePath | null = null
@@ -48,9 +46,7 @@ describe('createContextNode - Integration Tests', () => {
     setVaultPath(EXAMPLE_SMALL_PATH)
 
     // Load the graph from disk
-    const loadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([EXAMPLE_SMALL_PATH])
-    if (E.isLeft(loadResult)) throw new Error('Expected Right')
-    const graph: Graph = loadResult.right
+    const graph: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH])
     setGraph(graph)
 
     // Clear parent node backups
@@ -171,9 +167,7 @@ describe('createContextNode - Integration Tests', () => {
       createdContextNodeId = contextNodeId
 
       // AND: Reload graph from disk
-      const reloadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([EXAMPLE_SMALL_PATH])
-      if (E.isLeft(reloadResult)) throw new Error('Expected Right')
-      const reloadedGraph: Graph = reloadResult.right
+      const reloadedGraph: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH])
 
       // THEN: The context node should be present in reloaded graph
       expect(reloadedGraph.nodes[contextNodeId]).toBeDefined()
@@ -275,9 +269,7 @@ describe('createContextNode - Integration Tests', () => {
     it('should create context node with only one edge to parent, not one edge per subgraph node', async () => {
       // GIVEN: example_real_large fixture with at least 5 nodes
       setVaultPath(EXAMPLE_LARGE_PATH)
-      const largeLoadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([EXAMPLE_LARGE_PATH])
-      if (E.isLeft(largeLoadResult)) throw new Error('Expected Right')
-      const largeGraph: Graph = largeLoadResult.right
+      const largeGraph: Graph = await loadGraphFromDisk([EXAMPLE_LARGE_PATH])
       setGraph(largeGraph)
 
       // VERIFY: Graph has at least 5 nodes
@@ -343,9 +335,7 @@ describe('createContextNode - Integration Tests', () => {
       }
 
       // THEN: Reload graph to get the context node
-      const largeReloadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([EXAMPLE_LARGE_PATH])
-      if (E.isLeft(largeReloadResult)) throw new Error('Expected Right')
-      const reloadedGraph: Graph = largeReloadResult.right
+      const reloadedGraph: Graph = await loadGraphFromDisk([EXAMPLE_LARGE_PATH])
 
       // VERIFY: Context node exists in reloaded graph
       expect(reloadedGraph.nodes[contextNodeId]).toBeDefined()
@@ -1,14 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import * as fs from 'fs/promises'
 import * as path from 'path'
-import * as E from 'fp-ts/lib/Either.js'
 import { loadGraphFromDisk } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
 import { mapNewGraphToDelta } from '@/pure/graph/graphDelta/mapNewGraphtoDelta'
 import cytoscape from 'cytoscape'
 import type { Core } from 'cytoscape'
 import { applyGraphDeltaToUI } from '@/shell/edge/UI-edge/graph/applyGraphDeltaToUI'
 import type { Graph, GraphNode, GraphDelta, NodeDelta } from '@/pure/graph'
-import type { FileLimitExceededError } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce'
 
 /**
  * Integration test for edge labels through the full pipeline:
@@ -67,9 +65,7 @@ Setup instructions.`
     console.log('✓ Step 1: Created markdown files on disk')
 
     // STEP 2: Load graph from disk
-    const loadResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([tempDir])
-    if (E.isLeft(loadResult)) throw new Error('Expected Right')
-    const graph: Graph = loadResult.right
+    const graph: Graph = await loadGraphFromDisk([tempDir])
 
     console.log('✓ Step 2: Loaded graph from disk')
     console.log('  Graph nodes:', Object.keys(graph.nodes))
@@ -149,9 +145,7 @@ _Links:_
     await fs.writeFile(path.join(tempDir, 'node-b.md'), '# Node B', 'utf-8')
     await fs.writeFile(path.join(tempDir, 'node-c.md'), '# Node C', 'utf-8')
 
-    const loadResult2: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([tempDir])
-    if (E.isLeft(loadResult2)) throw new Error('Expected Right')
-    const graph: Graph = loadResult2.right
+    const graph: Graph = await loadGraphFromDisk([tempDir])
     const delta: GraphDelta = mapNewGraphToDelta(graph)
     applyGraphDeltaToUI(cy, delta)
 
@@ -91,7 +91,7 @@ describe('saveNodePositions - Integration Tests', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.none,
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -132,7 +132,7 @@ describe('saveNodePositions - Integration Tests', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.none,
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -144,7 +144,7 @@ describe('saveNodePositions - Integration Tests', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.none,
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -185,7 +185,7 @@ describe('saveNodePositions - Integration Tests', () => {
                 nodeUIMetadata: {
                     color: O.none,
                     position: O.some({ x: 500, y: 600 }),
-                    additionalYAMLProps: new Map(),
+                    additionalYAMLProps: {},
                     isContextNode: false
                 }
             }
@@ -0,0 +1,56 @@
+import * as O from 'fp-ts/lib/Option.js'
+import type { Graph, GraphDelta, NodeIdAndFilePath } from '@/pure/graph'
+import { applyGraphDeltaToGraph } from '@/pure/graph'
+import { applyPositions } from '@/pure/graph/positioning'
+import { findUnloadedNeighborFiles } from '@/pure/graph/large-vault/largeVaultIndex'
+import { getGraph, setGraph } from '@/shell/edge/main/state/graph-store'
+import { getLargeVaultIndex, isLargeVaultModeActive } from '@/shell/edge/main/state/large-vault-store'
+import { loadFileAsNode } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
+import { broadcastGraphDeltaToUI } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/applyGraphDeltaToDBThroughMemAndUI'
+
+/**
+ * Materialize the unloaded neighbors of a node in large-vault mode.
+ *
+ * Called from the renderer when a node is focused. Loads every indexed file that links
+ * to or is linked from the node, then commits and broadcasts in a single delta.
+ * No-op when no vault of the project was loaded in large-vault mode.
+ *
+ * @param nodeId - The focused node
+ * @returns Number of nodes materialized
+ */
+export async function expandLargeVaultAroundNode(nodeId: NodeIdAndFilePath): Promise<number> {
+    if (!isLargeVaultModeActive()) {
+        return 0
+    }
+
+    const graph: Graph = getGraph()
+    const filesToLoad: readonly NodeIdAndFilePath[] = findUnloadedNeighborFiles(getLargeVaultIndex(), graph, nodeId)
+    if (filesToLoad.length === 0) {
+        return 0
+    }
+
+    let workingGraph: Graph = graph
+    const upsertedNodeIds: Set<NodeIdAndFilePath> = new Set()
+    for (const filePath of filesToLoad) {
+        const delta: GraphDelta = await loadFileAsNode(filePath, workingGraph)
+        workingGraph = applyGraphDeltaToGraph(workingGraph, delta)
+        delta.forEach(d => {
+            if (d.type === 'UpsertNode') {
+                upsertedNodeIds.add(d.nodeToUpsert.absoluteFilePathIsID)
+            }
+        })
+    }
+
+    // Position the new nodes around their already-placed neighbors
+    const graphWithPositions: Graph = applyPositions(workingGraph)
+    const resultDelta: GraphDelta = [...upsertedNodeIds].map(id => ({
+        type: 'UpsertNode' as const,
+        nodeToUpsert: graphWithPositions.nodes[id],
+        previousNode: O.fromNullable(graph.nodes[id])
+    }))
+
+    setGraph(graphWithPositions)
+    broadcastGraphDeltaToUI(resultDelta)
+
+    return filesToLoad.filter(filePath => graphWithPositions.nodes[filePath]).length
+}
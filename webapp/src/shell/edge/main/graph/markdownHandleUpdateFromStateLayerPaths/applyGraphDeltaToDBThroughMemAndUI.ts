@@ -4,11 +4,16 @@ import {pipe} from 'fp-ts/lib/function.js'
 import {applyGraphDeltaToGraph, type Env, type Graph, type GraphDelta} from '@/pure/graph'
 import {apply_graph_deltas_to_db} from '@/shell/edge/main/graph/graphActionsToDBEffects'
 import {recordUserActionAndSetDeltaHistoryState} from '@/shell/edge/main/state/undo-store'
+import {recordDeltaInJournal} from '@/shell/edge/main/state/delta-journal-store'
+import {recordAgentFileWrite} from '@/shell/edge/main/state/recent-file-writes-store'
+import {USER_DELTA_SOURCE, type DeltaSource, type FileWriter} from '@/pure/graph/undo'
 import type {Either} from "fp-ts/es6/Either";
-import {getGraph, setGraph} from "@/shell/edge/main/state/graph-store";
+import {getGraph, getOnGraphChanged, setGraph} from "@/shell/edge/main/state/graph-store";
 import {getMainWindow} from "@/shell/edge/main/state/app-electron-state";
 import {resolveLinkedNodesInWatchedFolder} from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk";
 import {getProjectRootWatchedDirectory} from "@/shell/edge/main/state/watch-folder-store";
+import {isLargeVaultModeActive} from "@/shell/edge/main/state/large-vault-store";
+import {applyGraphDeltaToLocalSearch} from "@/shell/edge/main/state/local-search-store";
 
 /**
  * Applies a delta to the in-memory graph state and resolves any new wikilinks.
@@ -16,6 +21,7 @@ import {getProjectRootWatchedDirectory} from "@/shell/edge/main/state/watch-fold
  * This is the unified path for both FS events and editor changes.
  * After applying the delta, it resolves any wikilinks that point to files
  * in the watched folder (lazy resolution).
+ * In large-vault mode links are not resolved here - nodes are expanded on focus instead.
  *
  * @param delta - The delta to apply
  * @returns The merged delta (original + any resolved links) for UI broadcast
@@ -28,7 +34,7 @@ export async function applyGraphDeltaToMemState(delta: GraphDelta): Promise<Grap
     // Skip for delete-only deltas - we don't want to re-add deleted nodes via link resolution
     const hasAddOrUpdate: boolean = delta.some(d => d.type === 'AddNode' || d.type === 'UpdateNode');
 
-    if (hasAddOrUpdate) {
+    if (hasAddOrUpdate && !isLargeVaultModeActive()) {
         const watchedDir: string | null = getProjectRootWatchedDirectory();
         if (watchedDir) {
             const resolutionDelta: GraphDelta = await resolveLinkedNodesInWatchedFolder(newGraph, watchedDir);
@@ -41,6 +47,9 @@ export async function applyGraphDeltaToMemState(delta: GraphDelta): Promise<Grap
     }
 
     setGraph(newGraph);
+    applyGraphDeltaToLocalSearch(currentGraph, newGraph, delta);
+    // depends_on frontmatter may have changed
+    getOnGraphChanged()?.();
     return delta;
 }
 
@@ -56,7 +65,8 @@ export function broadcastGraphDeltaToUI(delta: GraphDelta): void {
 
 export async function applyGraphDeltaToDBThroughMemAndUI(
     delta: GraphDelta,
-    recordForUndo: boolean = true
+    recordForUndo: boolean = true,
+    source: DeltaSource = USER_DELTA_SOURCE
 ): Promise<void> {
     // Extract watched directory (fail fast at edge)
     const watchedDirectory: string = pipe(
@@ -74,6 +84,18 @@ export async function applyGraphDeltaToDBThroughMemAndUI(
     // Apply to memory and resolve any new wikilinks (returns merged delta)
     const mergedDelta: GraphDelta = await applyGraphDeltaToMemState(delta)
 
+    // Journal the original delta (resolved links are loads, not changes)
+    recordDeltaInJournal(delta, source)
+
+    // Agent (MCP) writes: FS events for these files belong to the agent, should they get past the echo check
+    if (source.type === 'agent') {
+        const writer: FileWriter = {agentName: source.agentName, terminalId: source.terminalId}
+        delta.forEach(nodeDelta => recordAgentFileWrite(
+            nodeDelta.type === 'UpsertNode' ? nodeDelta.nodeToUpsert.absoluteFilePathIsID : nodeDelta.nodeId,
+            writer
+        ))
+    }
+
     // Broadcast merged delta (includes resolved links) to UI
     broadcastGraphDeltaToUI(mergedDelta)
 
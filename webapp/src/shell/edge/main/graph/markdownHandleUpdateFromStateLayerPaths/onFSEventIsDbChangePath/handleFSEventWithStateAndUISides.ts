@@ -2,16 +2,23 @@ import type {FSEvent, GraphDelta, Graph} from "@/pure/graph";
 import {mapFSEventsToGraphDelta} from "@/pure/graph";
 import type {BrowserWindow} from "electron";
 import {getGraph} from "@/shell/edge/main/state/graph-store";
+import {getRelationshipVocabulary} from "@/shell/edge/main/state/relationship-vocabulary-store";
 import {uiAPI} from "@/shell/edge/main/ui-api-proxy";
 import {
     applyGraphDeltaToMemState,
     broadcastGraphDeltaToUI
 } from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/applyGraphDeltaToDBThroughMemAndUI";
 import {isOurRecentDelta} from "@/shell/edge/main/state/recent-deltas-store";
+import {recordDeltaInJournal} from "@/shell/edge/main/state/delta-journal-store";
+import {deriveFSEventSource} from "@/pure/graph/undo";
+import {getFileWriter} from "@/shell/edge/main/terminals/file-writer-attribution";
+import {getLargeVaultIndex, isLargeVaultModeActive, setLargeVaultIndex} from "@/shell/edge/main/state/large-vault-store";
+import {applyFSEventToLargeVaultIndex} from "@/pure/graph/large-vault/largeVaultIndex";
 
 /**
  * Handle filesystem events by:
- * 1. Checking if this is our own recent write (skip if so)
+ * 1. Keeping the large-vault index in step (including for our own writes)
+ *    and checking if this is our own recent write (skip if so)
  * 2. Computing the GraphDelta from the filesystem event
  * 3. Applying delta to graph state (includes lazy wikilink resolution)
  * 4. Broadcasting to UI (graph UI + floating editors)
@@ -32,11 +39,16 @@ export function handleFSEventWithStateAndUISides(
 ): void {
     //console.log("[handleFSEvent] external write from: ", fsEvent.absolutePath)
 
+    // 1. Keep the large-vault index in step so expansion never loads deleted files
+    if (isLargeVaultModeActive()) {
+        setLargeVaultIndex(applyFSEventToLargeVaultIndex(getLargeVaultIndex(), fsEvent, Date.now()))
+    }
+
     // 2. Get current graph state to resolve wikilinks
     const currentGraph: Graph = getGraph()
 
     // 3. Map filesystem event to graph delta (pure) - node IDs are absolute paths
-    const delta: GraphDelta = mapFSEventsToGraphDelta(fsEvent, currentGraph)
+    const delta: GraphDelta = mapFSEventsToGraphDelta(fsEvent, currentGraph, getRelationshipVocabulary())
 
     //  Check if this is our own recent write - skip if so
     if (isOurRecentDelta(delta)) {
@@ -57,6 +69,9 @@ async function applyAndBroadcast(delta: GraphDelta): Promise<void> {
     // Apply to memory and resolve any new wikilinks (returns merged delta)
     const mergedDelta: GraphDelta = await applyGraphDeltaToMemState(delta)
 
+    // Journal the external change, attributed to the agent terminal that wrote the file if known
+    recordDeltaInJournal(delta, deriveFSEventSource(delta, getFileWriter))
+
     // Broadcast merged delta (includes resolved links) to UI
     broadcastGraphDeltaToUI(mergedDelta)
 
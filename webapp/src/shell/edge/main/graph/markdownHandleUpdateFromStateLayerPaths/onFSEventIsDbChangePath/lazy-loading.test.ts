@@ -2,11 +2,9 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import * as os from 'os'
-import * as E from 'fp-ts/lib/Either.js'
 import { loadGraphFromDisk, isReadPath, extractLinkTargets, resolveLinkTarget } from './loadGraphFromDisk'
 import { applyGraphDeltaToGraph } from '@/pure/graph'
 import type { Graph, GraphDelta, GraphNode, Edge } from '@/pure/graph'
-import type { FileLimitExceededError } from './fileLimitEnforce'
 
 /**
  * Tests for isReadPath helper and resolveLinkedNodesInWatchedFolder.
@@ -38,7 +36,7 @@ function createMockGraphNode(outgoingEdges: readonly Edge[]): GraphNode {
         nodeUIMetadata: {
             color: { _tag: 'None' },
             position: { _tag: 'None' },
-            additionalYAMLProps: new Map()
+            additionalYAMLProps: {}
         }
     } as GraphNode
 }
@@ -104,6 +102,10 @@ describe('resolveLinkTarget', () => {
         await fs.writeFile(path.join(tmpDir, 'subdir', 'common.md'), '# Common in subdir')
         await fs.writeFile(path.join(tmpDir, 'other', 'common.md'), '# Common in other')
         await fs.writeFile(path.join(tmpDir, 'nested', 'deep', 'common.md'), '# Common in nested/deep')
+
+        // Context template
+        await fs.mkdir(path.join(tmpDir, 'ctx-templates'), { recursive: true })
+        await fs.writeFile(path.join(tmpDir, 'ctx-templates', 'codex.md'), '{{NODE_CONTENTS}}')
     })
 
     afterAll(async () => {
@@ -169,6 +171,11 @@ describe('resolveLinkTarget', () => {
 
         expect(result).toBe(path.join(tmpDir, 'unique-note.md'))
     })
+
+    it('should not resolve links to context templates', async () => {
+        expect(await resolveLinkTarget('codex', tmpDir)).toBeUndefined()
+        expect(await resolveLinkTarget(path.join(tmpDir, 'ctx-templates', 'codex'), tmpDir)).toBeUndefined()
+    })
 })
 
 describe('resolveLinkedNodesInWatchedFolder', () => {
@@ -222,13 +229,10 @@ End of chain.`
         const { resolveLinkedNodesInWatchedFolder } = await import('./loadGraphFromDisk')
 
         // First load just the writePath
-        const initialResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk(
+        const initialGraph: Graph = await loadGraphFromDisk(
             [writePath]
         )
 
-        if (E.isLeft(initialResult)) throw new Error('Expected Right')
-        const initialGraph: Graph = initialResult.right
-
         // Only A should be loaded initially
         expect(Object.keys(initialGraph.nodes)).toHaveLength(1)
         expect(Object.keys(initialGraph.nodes)[0]).toContain('a.md')
@@ -3,12 +3,10 @@ import * as fs from 'fs/promises'
 import * as path from 'path'
 import * as os from 'os'
 import * as O from 'fp-ts/lib/Option.js'
-import * as E from 'fp-ts/lib/Either.js'
-import { loadGraphFromDisk, loadVaultPathAdditively } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
-import type { Graph, GraphNode, GraphDelta } from '@/pure/graph'
+import { loadGraphFromDisk, loadVaultPathAdditively, type AdditiveLoadResult } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
+import type { Graph, GraphNode } from '@/pure/graph'
 import { createGraph } from '@/pure/graph/createGraph'
 import { getNodeTitle } from '@/pure/graph/markdown-parsing'
-import type { FileLimitExceededError } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce'
 
 describe('loadGraphFromDisk', () => {
   const testVaultPaths: { testVault: string; emptyVault: string; } = {
@@ -87,6 +85,10 @@ This is in a subfolder.`
       0x42, 0x60, 0x82 // IEND chunk
     ])
     await fs.writeFile(path.join(testVaultPath, 'test-image.png'), minimalPng)
+
+    // Context templates are not nodes
+    await fs.mkdir(path.join(testVaultPath, 'ctx-templates'), { recursive: true })
+    await fs.writeFile(path.join(testVaultPath, 'ctx-templates', 'codex.md'), '{{NODE_CONTENTS}}')
   })
 
   afterAll(async () => {
@@ -95,17 +97,13 @@ This is in a subfolder.`
   })
 
   it('should load empty graph from empty directory', async () => {
-    const r1: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.emptyVault])
-    if (E.isLeft(r1)) throw new Error('Expected Right')
-    const graph: Graph = r1.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.emptyVault])
 
     expect(Object.keys(graph.nodes)).toHaveLength(0)
   })
 
   it('should load all nodes from vault including images', async () => {
-    const r2: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r2)) throw new Error('Expected Right')
-    const graph: Graph = r2.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     // Node IDs are now absolute paths (4 markdown + 1 image)
     expect(Object.keys(graph.nodes)).toHaveLength(5)
@@ -114,12 +112,11 @@ This is in a subfolder.`
     expect(graph.nodes[path.join(testVaultPaths.testVault, 'node3.md')]).toBeDefined()
     expect(graph.nodes[path.join(testVaultPaths.testVault, 'subfolder/nested.md')]).toBeDefined()
     expect(graph.nodes[path.join(testVaultPaths.testVault, 'test-image.png')]).toBeDefined()
+    expect(graph.nodes[path.join(testVaultPaths.testVault, 'ctx-templates/codex.md')]).toBeUndefined()
   })
 
   it('should load image nodes with empty content and no edges', async () => {
-    const r: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r)) throw new Error('Expected Right')
-    const graph: Graph = r.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     const imageNode: GraphNode = graph.nodes[path.join(testVaultPaths.testVault, 'test-image.png')]
     expect(imageNode).toBeDefined()
@@ -128,9 +125,7 @@ This is in a subfolder.`
   })
 
   it('should parse node properties from frontmatter', async () => {
-    const r3: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r3)) throw new Error('Expected Right')
-    const graph: Graph = r3.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     const node1: GraphNode = graph.nodes[path.join(testVaultPaths.testVault, 'node1.md')]
     // contentWithoutYamlOrLinks should NOT contain YAML frontmatter (it's stripped)
@@ -146,9 +141,7 @@ This is in a subfolder.`
   })
 
   it('should use absolute file path as node_id', async () => {
-    const r4: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r4)) throw new Error('Expected Right')
-    const graph: Graph = r4.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     const node3Path: string = path.join(testVaultPaths.testVault, 'node3.md')
     expect(graph.nodes[node3Path]).toBeDefined()
@@ -156,17 +149,13 @@ This is in a subfolder.`
   })
 
   it('should extract title from heading when not in frontmatter', async () => {
-    const r5: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r5)) throw new Error('Expected Right')
-    const graph: Graph = r5.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     expect(graph.nodes[path.join(testVaultPaths.testVault, 'node3.md')].contentWithoutYamlOrLinks).toContain('# Node Three')
   })
 
   it('should build outgoingEdges from wikilinks', async () => {
-    const r6: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r6)) throw new Error('Expected Right')
-    const graph: Graph = r6.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     const node1Path: string = path.join(testVaultPaths.testVault, 'node1.md')
     const node2Path: string = path.join(testVaultPaths.testVault, 'node2.md')
@@ -177,17 +166,13 @@ This is in a subfolder.`
   })
 
   it('should handle nodes with no links', async () => {
-    const r7: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r7)) throw new Error('Expected Right')
-    const graph: Graph = r7.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     expect(graph.nodes[path.join(testVaultPaths.testVault, 'node3.md')].outgoingEdges).toEqual([])
   })
 
   it('should handle nested directory structure', async () => {
-    const r8: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r8)) throw new Error('Expected Right')
-    const graph: Graph = r8.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     const nestedPath: string = path.join(testVaultPaths.testVault, 'subfolder/nested.md')
     expect(graph.nodes[nestedPath]).toBeDefined()
@@ -195,9 +180,7 @@ This is in a subfolder.`
   })
 
   it('should derive title from Markdown heading (single source of truth)', async () => {
-    const r9: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r9)) throw new Error('Expected Right')
-    const graph: Graph = r9.right
+    const graph: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     const node1: GraphNode = graph.nodes[path.join(testVaultPaths.testVault, 'node1.md')]
     // Node1 has BOTH frontmatter title "Node One" AND heading "# Node One Content"
@@ -207,12 +190,8 @@ This is in a subfolder.`
   })
 
   it('should be a pure IO function (same input -> same IO)', async () => {
-    const r10: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r10)) throw new Error('Expected Right')
-    const graph1: Graph = r10.right
-    const r11: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([testVaultPaths.testVault])
-    if (E.isLeft(r11)) throw new Error('Expected Right')
-    const graph2: Graph = r11.right
+    const graph1: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
+    const graph2: Graph = await loadGraphFromDisk([testVaultPaths.testVault])
 
     expect(Object.keys(graph1.nodes).sort()).toEqual(Object.keys(graph2.nodes).sort())
   })
@@ -270,9 +249,7 @@ Content for new file 2. Links to [[existing]].`
 
   it('should merge new vault nodes into existing graph', async () => {
     // GIVEN: Load initial graph from primary vault
-    const initialResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([primaryVaultPath])
-    if (E.isLeft(initialResult)) throw new Error('Expected Right')
-    const existingGraph: Graph = initialResult.right
+    const existingGraph: Graph = await loadGraphFromDisk([primaryVaultPath])
 
     // Node IDs are now absolute paths
     const existingNodePath: string = path.join(primaryVaultPath, 'existing.md')
@@ -280,12 +257,11 @@ Content for new file 2. Links to [[existing]].`
     expect(existingGraph.nodes[existingNodePath]).toBeDefined()
 
     // WHEN: Load secondary vault additively
-    const additiveResult: E.Either<FileLimitExceededError, { graph: Graph; delta: GraphDelta }> =
+    const { graph: mergedGraph, delta, mode }: AdditiveLoadResult =
       await loadVaultPathAdditively(secondaryVaultPath, existingGraph)
 
-    // THEN: Result should be Right with merged graph
-    if (E.isLeft(additiveResult)) throw new Error('Expected Right')
-    const { graph: mergedGraph, delta } = additiveResult.right
+    // THEN: Small vaults are loaded fully
+    expect(mode).toBe('full')
 
     // THEN: Merged graph should contain all nodes (original + new)
     const newFile1Path: string = path.join(secondaryVaultPath, 'newfile1.md')
@@ -305,29 +281,25 @@ Content for new file 2. Links to [[existing]].`
 
   it('should preserve existing node positions when merging', async () => {
     // GIVEN: Load initial graph and set a position on existing node
-    const initialResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([primaryVaultPath])
-    if (E.isLeft(initialResult)) throw new Error('Expected Right')
+    const initialGraph: Graph = await loadGraphFromDisk([primaryVaultPath])
 
     // Node IDs are now absolute paths
     const existingNodePath: string = path.join(primaryVaultPath, 'existing.md')
     const existingGraph: Graph = createGraph({
-      ...initialResult.right.nodes,
+      ...initialGraph.nodes,
       [existingNodePath]: {
-        ...initialResult.right.nodes[existingNodePath],
+        ...initialGraph.nodes[existingNodePath],
         nodeUIMetadata: {
-          ...initialResult.right.nodes[existingNodePath].nodeUIMetadata,
+          ...initialGraph.nodes[existingNodePath].nodeUIMetadata,
           position: O.some({ x: 100, y: 200 })
         }
       }
     })
 
     // WHEN: Load secondary vault additively
-    const additiveResult: E.Either<FileLimitExceededError, { graph: Graph; delta: GraphDelta }> =
+    const { graph: mergedGraph }: AdditiveLoadResult =
       await loadVaultPathAdditively(secondaryVaultPath, existingGraph)
 
-    if (E.isLeft(additiveResult)) throw new Error('Expected Right')
-    const { graph: mergedGraph } = additiveResult.right
-
     // THEN: Existing node position should be preserved
     const existingNode: GraphNode = mergedGraph.nodes[existingNodePath]
     expect(O.isSome(existingNode.nodeUIMetadata.position)).toBe(true)
@@ -338,25 +310,44 @@ Content for new file 2. Links to [[existing]].`
 
   it('should return empty delta when adding empty vault', async () => {
     // GIVEN: Existing graph with nodes
-    const initialResult: E.Either<FileLimitExceededError, Graph> = await loadGraphFromDisk([primaryVaultPath])
-    if (E.isLeft(initialResult)) throw new Error('Expected Right')
-    const existingGraph: Graph = initialResult.right
+    const existingGraph: Graph = await loadGraphFromDisk([primaryVaultPath])
 
     // AND: Create an empty vault
     const emptyVaultPath: string = path.join(watchedDir, 'empty-vault')
     await fs.mkdir(emptyVaultPath, { recursive: true })
 
     // WHEN: Load empty vault additively
-    const additiveResult: E.Either<FileLimitExceededError, { graph: Graph; delta: GraphDelta }> =
+    const { graph: mergedGraph, delta }: AdditiveLoadResult =
       await loadVaultPathAdditively(emptyVaultPath, existingGraph)
 
-    if (E.isLeft(additiveResult)) throw new Error('Expected Right')
-    const { graph: mergedGraph, delta } = additiveResult.right
-
     // THEN: Graph should be unchanged
     expect(Object.keys(mergedGraph.nodes)).toHaveLength(1)
 
     // THEN: Delta should be empty
     expect(delta).toHaveLength(0)
   })
+
+  it('should switch to large-vault mode above the threshold instead of failing', async () => {
+    // GIVEN: Existing graph with one node, and newfile1 modified more recently than newfile2
+    const existingGraph: Graph = await loadGraphFromDisk([primaryVaultPath])
+    await fs.utimes(path.join(secondaryVaultPath, 'newfile1.md'), new Date(2000), new Date(2000))
+    await fs.utimes(path.join(secondaryVaultPath, 'newfile2.md'), new Date(1000), new Date(1000))
+
+    // WHEN: Load secondary vault with a threshold of 2 nodes (1 existing + 2 new exceeds it)
+    const { graph: mergedGraph, delta, mode, indexedFiles }: AdditiveLoadResult =
+      await loadVaultPathAdditively(secondaryVaultPath, existingGraph, 2)
+
+    // THEN: Only the most recent file is loaded, up to the threshold
+    expect(mode).toBe('large-vault')
+    expect(Object.keys(mergedGraph.nodes)).toHaveLength(2)
+    expect(mergedGraph.nodes[path.join(secondaryVaultPath, 'newfile1.md')]).toBeDefined()
+    expect(delta).toHaveLength(1)
+
+    // THEN: Every file of the vault is indexed with its links for lazy expansion
+    expect(indexedFiles.map(file => file.absolutePath).sort()).toEqual([
+      path.join(secondaryVaultPath, 'newfile1.md'),
+      path.join(secondaryVaultPath, 'newfile2.md')
+    ])
+    expect(indexedFiles.find(file => file.absolutePath.endsWith('newfile2.md'))?.linkTexts).toEqual(['existing'])
+  })
 })
@@ -2,22 +2,45 @@ import * as fs from 'fs/promises'
 import fsSync from 'fs'
 import * as path from 'path'
 import normalizePath from 'normalize-path'
-import * as E from "fp-ts/lib/Either.js";
 import * as O from "fp-ts/lib/Option.js";
 import type { Graph, FSUpdate, GraphDelta, GraphNode } from '@/pure/graph'
 import { createEmptyGraph, isImageNode } from '@/pure/graph'
 import type { Dirent } from 'fs'
-import { enforceFileLimit, type FileLimitExceededError } from './fileLimitEnforce'
 import { applyPositions } from '@/pure/graph/positioning'
 import { addNodeToGraphWithEdgeHealingFromFSEvent } from '@/pure/graph/graphDelta/addNodeToGraphWithEdgeHealingFromFSEvent'
 import { applyGraphDeltaToGraph } from '@/pure/graph/graphDelta/applyGraphDeltaToGraph'
 import { linkMatchScore } from '@/pure/graph/markdown-parsing/extract-edges'
+import { CONTEXT_TEMPLATES_FOLDER, isInContextTemplatesFolder } from '@/pure/graph/context-templates/renderContextTemplate'
 import { findFileByName } from '@/shell/edge/main/graph/loading/findFileByName'
+import { getModifiedAt } from '@/shell/edge/main/graph/watch_folder/folder-scanner'
+import { getRelationshipVocabulary } from '@/shell/edge/main/state/relationship-vocabulary-store'
+import {
+    DEFAULT_LARGE_VAULT_THRESHOLD,
+    chooseVaultLoadMode,
+    extractLinkTexts,
+    selectSeedFiles,
+    type IndexedVaultFile,
+    type VaultLoadMode
+} from '@/pure/graph/large-vault/largeVaultIndex'
+
+/**
+ * Result of loading a vault path into an existing graph.
+ */
+export type AdditiveLoadResult = {
+    /** Merged graph */
+    readonly graph: Graph
+    /** New nodes only (for UI broadcast) */
+    readonly delta: GraphDelta
+    readonly mode: VaultLoadMode
+    /** Every file of the vault path, indexed for lazy expansion (large-vault mode only, empty otherwise) */
+    readonly indexedFiles: readonly IndexedVaultFile[]
+}
 
 /**
  * Loads a graph from the filesystem using progressive edge validation.
  *
  * IO function: Performs side effects (file I/O) and returns a Promise<Graph>.
+ * Always loads every file - large-vault mode only applies to loadVaultPathAdditively.
  *
  * Algorithm (progressive, order-independent):
  * 1. Scan all vault directories recursively for .md files
@@ -41,9 +64,9 @@ import { findFileByName } from '@/shell/edge/main/graph/loading/findFileByName'
  */
 export async function loadGraphFromDisk(
     vaultPaths: readonly string[]
-): Promise<E.Either<FileLimitExceededError, Graph>> {
+): Promise<Graph> {
     if (vaultPaths.length === 0) {
-        return E.right(createEmptyGraph());
+        return createEmptyGraph();
     }
 
     // Step 1: Scan all vault directories for markdown files
@@ -57,12 +80,6 @@ export async function loadGraphFromDisk(
         )
     ).flat();
 
-    // Step 1.5: Enforce file limit (will show error dialog and return Left if exceeded)
-    const limitCheck: E.Either<FileLimitExceededError, void> = enforceFileLimit(allFiles.length);
-    if (E.isLeft(limitCheck)) {
-        return E.left(limitCheck.left);
-    }
-
     // Step 2: Progressively build graph by adding nodes one at a time
     // Each addition validates edges and heals incoming edges (order-independent)
     const graph: Graph = await allFiles.reduce(
@@ -79,14 +96,14 @@ export async function loadGraphFromDisk(
             }
 
             // Use unified function (same as incremental!)
-            const delta: GraphDelta = addNodeToGraphWithEdgeHealingFromFSEvent(fsEvent, currentGraph)
+            const delta: GraphDelta = addNodeToGraphWithEdgeHealingFromFSEvent(fsEvent, currentGraph, getRelationshipVocabulary())
             return applyGraphDeltaToGraph(currentGraph, delta)
         },
         Promise.resolve(createEmptyGraph())
     )
 
     // Step 3: Apply positions to all nodes that don't have a position
-    return E.right(applyPositions(graph));
+    return applyPositions(graph);
 }
 
 /**
@@ -101,16 +118,22 @@ export async function loadGraphFromDisk(
  * - Pure function (no module state like time-based guards)
  * - Consistent with initial loadGraphFromDisk pattern
  *
+ * Large-vault mode: when the graph would exceed largeVaultThreshold nodes, only the most
+ * recently modified files are loaded (up to the threshold). Every file of the vault path is
+ * returned as an index so the caller can materialize the rest lazily around focused nodes.
+ *
  * Node IDs are absolute paths (normalized with forward slashes).
  *
  * @param vaultPath - Absolute path to the new vault directory to load
  * @param existingGraph - The current graph to merge new nodes into
- * @returns Either FileLimitExceededError or { graph: merged graph, delta: new nodes only }
+ * @param largeVaultThreshold - Soft limit on graph size above which loading switches to large-vault mode
+ * @returns { graph: merged graph, delta: new nodes only, mode, indexedFiles }
  */
 export async function loadVaultPathAdditively(
     vaultPath: string,
-    existingGraph: Graph
-): Promise<E.Either<FileLimitExceededError, { graph: Graph; delta: GraphDelta }>> {
+    existingGraph: Graph,
+    largeVaultThreshold: number = DEFAULT_LARGE_VAULT_THRESHOLD
+): Promise<AdditiveLoadResult> {
     // Step 1: Scan the new vault path for markdown files
     const files: readonly string[] = await scanMarkdownFiles(vaultPath);
 
@@ -121,21 +144,27 @@ export async function loadVaultPathAdditively(
         return !(nodeId in existingGraph.nodes);
     });
 
-    // Step 3: Check file limit (existing + genuinely new files)
+    // Step 3: Choose load mode (existing + genuinely new files)
     const existingCount: number = Object.keys(existingGraph.nodes).length;
-    const totalCount: number = existingCount + newFiles.length;
-    const limitCheck: E.Either<FileLimitExceededError, void> = enforceFileLimit(totalCount);
-    if (E.isLeft(limitCheck)) {
-        return E.left(limitCheck.left);
-    }
+    const mode: VaultLoadMode = chooseVaultLoadMode(existingCount + newFiles.length, largeVaultThreshold);
+
+    // Large-vault mode: index everything, load only the most recent files that fit under the threshold
+    const indexedFiles: readonly IndexedVaultFile[] = mode === 'large-vault'
+        ? await indexVaultFiles(vaultPath, files)
+        : [];
+    const filesToLoad: readonly string[] = mode === 'large-vault'
+        ? selectSeedFiles(
+            indexedFiles.filter(file => !(file.absolutePath in existingGraph.nodes)),
+            largeVaultThreshold - existingCount
+        )
+        : files.map(relativePath => path.join(vaultPath, relativePath));
 
-    // Step 3: Build graph additively, tracking new node IDs for delta
+    // Step 4: Build graph additively, tracking new node IDs for delta
     const newNodeIds: string[] = [];
 
-    const mergedGraph: Graph = await files.reduce(
-        async (graphPromise, relativePath) => {
+    const mergedGraph: Graph = await filesToLoad.reduce(
+        async (graphPromise, fullPath) => {
             const currentGraph: Graph = await graphPromise;
-            const fullPath: string = path.join(vaultPath, relativePath);
             // Image files have empty content (don't read binary as UTF-8)
             const content: string = isImageNode(fullPath) ? '' : await fs.readFile(fullPath, 'utf-8');
 
@@ -146,7 +175,7 @@ export async function loadVaultPathAdditively(
             };
 
             // Use unified function (same as loadGraphFromDisk)
-            const delta: GraphDelta = addNodeToGraphWithEdgeHealingFromFSEvent(fsEvent, currentGraph);
+            const delta: GraphDelta = addNodeToGraphWithEdgeHealingFromFSEvent(fsEvent, currentGraph, getRelationshipVocabulary());
 
             // Track new node IDs from this delta
             delta.forEach(d => {
@@ -160,17 +189,62 @@ export async function loadVaultPathAdditively(
         Promise.resolve(existingGraph)
     );
 
-    // Step 4: Apply positions only to new nodes (existing nodes keep their positions)
+    // Step 5: Apply positions only to new nodes (existing nodes keep their positions)
     const graphWithPositions: Graph = applyPositions(mergedGraph);
 
-    // Step 5: Build delta containing only the new nodes (for UI broadcast)
+    // Step 6: Build delta containing only the new nodes (for UI broadcast)
     const resultDelta: GraphDelta = newNodeIds.map(nodeId => ({
         type: 'UpsertNode' as const,
         nodeToUpsert: graphWithPositions.nodes[nodeId],
         previousNode: O.none  // All new nodes
     }));
 
-    return E.right({ graph: graphWithPositions, delta: resultDelta });
+    return { graph: graphWithPositions, delta: resultDelta, mode, indexedFiles };
+}
+
+// Files are indexed in batches to avoid exhausting file descriptors on very large vaults
+const INDEX_BATCH_SIZE: 64 = 64 as const;
+
+/**
+ * Index files of a vault for large-vault mode: mtime and raw wikilink texts, without building nodes.
+ *
+ * @param vaultPath - Absolute path to the vault directory
+ * @param relativePaths - Files to index (as returned by scanMarkdownFiles)
+ */
+export async function indexVaultFiles(
+    vaultPath: string,
+    relativePaths: readonly string[]
+): Promise<readonly IndexedVaultFile[]> {
+    const indexFile: (relativePath: string) => Promise<readonly IndexedVaultFile[]> = async (relativePath: string) => {
+        const fullPath: string = path.join(vaultPath, relativePath);
+        const modifiedAt: number | undefined = await getModifiedAt(fullPath);
+        if (modifiedAt === undefined) {
+            // File might have been removed since the scan - skip
+            return [];
+        }
+        try {
+            // Image files have no links (don't read binary as UTF-8)
+            const linkTexts: readonly string[] = isImageNode(fullPath)
+                ? []
+                : extractLinkTexts(await fs.readFile(fullPath, 'utf-8'));
+            return [{ absolutePath: normalizePath(fullPath), modifiedAt, linkTexts }];
+        } catch {
+            return [];
+        }
+    };
+
+    const batches: readonly (readonly string[])[] = Array.from(
+        { length: Math.ceil(relativePaths.length / INDEX_BATCH_SIZE) },
+        (_, batchIndex: number) => relativePaths.slice(batchIndex * INDEX_BATCH_SIZE, (batchIndex + 1) * INDEX_BATCH_SIZE)
+    );
+    return batches.reduce<Promise<readonly IndexedVaultFile[]>>(
+        async (indexedPromise, batch) => {
+            const indexed: readonly IndexedVaultFile[] = await indexedPromise;
+            const batchResults: readonly (readonly IndexedVaultFile[])[] = await Promise.all(batch.map(indexFile));
+            return [...indexed, ...batchResults.flat()];
+        },
+        Promise.resolve([])
+    );
 }
 
 /**
@@ -183,6 +257,7 @@ function isSupportedFile(filename: string): boolean {
 
 /**
  * Scans vault directory recursively for markdown and image files.
+ * Skips ctx-templates/ folders.
  *
  * @param vaultPath - Absolute absolutePath to vault directory
  * @returns Array of relative file paths (e.g., ["note.md", "subfolder/other.md", "image.png"])
@@ -200,7 +275,8 @@ export async function scanMarkdownFiles(vaultPath: string): Promise<readonly str
         const relPath: string = relativePath ? path.join(relativePath, entry.name) : entry.name
 
         if (entry.isDirectory()) {
-          return scan(fullPath, relPath)
+          // Context templates are read on demand, not loaded as nodes
+          return entry.name === CONTEXT_TEMPLATES_FOLDER ? [] : scan(fullPath, relPath)
         } else if (entry.isFile() && isSupportedFile(entry.name)) {
           return [relPath]
         }
@@ -247,6 +323,7 @@ export function extractLinkTargets(node: GraphNode): readonly string[] {
  * - Relative path links: use findFileByName() to suffix-match in watchedFolder
  *
  * Uses linkMatchScore to pick the best match when multiple files match.
+ * Files in ctx-templates/ folders never resolve.
  *
  * @param linkTarget - The link target to resolve (from wikilink)
  * @param watchedFolder - The root folder to search for linked files
@@ -260,7 +337,7 @@ export async function resolveLinkTarget(
     if (linkTarget.startsWith('/')) {
         // Ensure .md extension
         const targetPath: string = linkTarget.endsWith('.md') ? linkTarget : `${linkTarget}.md`;
-        if (fsSync.existsSync(targetPath)) {
+        if (!isInContextTemplatesFolder(targetPath) && fsSync.existsSync(targetPath)) {
             return targetPath;
         }
         return undefined;
@@ -273,7 +350,8 @@ export async function resolveLinkTarget(
 
     if (!searchPattern) return undefined;
 
-    const matchingFiles: readonly string[] = await findFileByName(searchPattern, watchedFolder);
+    const matchingFiles: readonly string[] = (await findFileByName(searchPattern, watchedFolder))
+        .filter((filePath: string) => !isInContextTemplatesFolder(filePath));
 
     if (matchingFiles.length === 0) return undefined;
 
@@ -335,12 +413,13 @@ async function findUnresolvedLinks(
 /**
  * Loads a single file and returns the delta.
  * I/O function - reads file from disk.
+ * Also used by large-vault expansion to materialize indexed files.
  *
  * @param filePath - Absolute path to file to load
  * @param graph - Current graph (for edge healing)
  * @returns GraphDelta for the loaded node, or empty array on error
  */
-async function loadFileAsNode(
+export async function loadFileAsNode(
     filePath: string,
     graph: Graph
 ): Promise<GraphDelta> {
@@ -354,7 +433,7 @@ async function loadFileAsNode(
             eventType: 'Added'
         };
 
-        return addNodeToGraphWithEdgeHealingFromFSEvent(fsEvent, graph);
+        return addNodeToGraphWithEdgeHealingFromFSEvent(fsEvent, graph, getRelationshipVocabulary());
     } catch {
         // File might not exist or be inaccessible - skip
         return [];
@@ -1,4 +1,5 @@
 import type {GraphDelta} from "@/pure/graph";
+import {USER_DELTA_SOURCE, type DeltaSource} from "@/pure/graph/undo";
 import {uiAPI} from "@/shell/edge/main/ui-api-proxy";
 import {
     applyGraphDeltaToDBThroughMemAndUI
@@ -6,8 +7,9 @@ import {
 
 export async function applyGraphDeltaToDBThroughMemAndUIAndEditors(
     delta: GraphDelta,
-    recordForUndo: boolean = true
+    recordForUndo: boolean = true,
+    source: DeltaSource = USER_DELTA_SOURCE
 ): Promise<void> {
-    await applyGraphDeltaToDBThroughMemAndUI(delta, recordForUndo)
+    await applyGraphDeltaToDBThroughMemAndUI(delta, recordForUndo, source)
     uiAPI.updateFloatingEditorsFromExternal(delta)
 }
\ No newline at end of file
@@ -14,7 +14,7 @@ export async function performUndo(): Promise<boolean> {
         return false
     }
     // Apply reverse delta WITHOUT recording for undo (would create infinite loop)
-    await applyGraphDeltaToDBThroughMemAndUIAndEditors(reverseDelta, false)
+    await applyGraphDeltaToDBThroughMemAndUIAndEditors(reverseDelta, false, { type: 'undo' })
     return true
 }
 
@@ -28,6 +28,6 @@ export async function performRedo(): Promise<boolean> {
         return false
     }
     // Apply delta WITHOUT recording for undo (it's already in the stack)
-    await applyGraphDeltaToDBThroughMemAndUIAndEditors(deltaToApply, false)
+    await applyGraphDeltaToDBThroughMemAndUIAndEditors(deltaToApply, false, { type: 'redo' })
     return true
 }
@@ -56,7 +56,7 @@ export async function createStarterNode(vaultPath: string): Promise<Graph> {
         nodeUIMetadata: {
             color: O.none,
             position: O.some({ x: 0, y: 0 }),
-            additionalYAMLProps: new Map(),
+            additionalYAMLProps: {},
             isContextNode: false
         },
     }
@@ -14,6 +14,7 @@ import chokidar from "chokidar";
 import type { FSWatcher } from "chokidar";
 import type { FilePath, FSUpdate, FSDelete } from "@/pure/graph";
 import { isImageNode } from "@/pure/graph";
+import { isInContextTemplatesFolder } from "@/pure/graph/context-templates/renderContextTemplate";
 import { handleFSEventWithStateAndUISides } from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/handleFSEventWithStateAndUISides";
 import { getMainWindow } from "@/shell/edge/main/state/app-electron-state";
 import { getWatcher, setWatcher } from "@/shell/edge/main/state/watch-folder-store";
@@ -56,6 +57,10 @@ export async function setupWatcher(vaultPaths: readonly FilePath[], watchedDir:
         ignored: [
             // Only watch .md and image files (directories must pass through for traversal)
             (filePath: string, stats?: Stats) => {
+                // Context templates are read on demand, not loaded as nodes
+                if (isInContextTemplatesFolder(filePath)) {
+                    return true;
+                }
                 // If stats available, use it to detect directories
                 if (stats?.isDirectory()) {
                     return false;
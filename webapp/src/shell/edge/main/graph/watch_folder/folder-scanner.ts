@@ -1,18 +1,17 @@
 /**
- * Folder scanning functions for the folder selector UI.
+ * Folder scanning functions for the folder selector UI and vault file indexing.
  *
  * Shell layer functions that scan the filesystem and use pure transforms
  * to produce the final available folders list.
  */
 
-import { promises as fs } from 'fs';
+import { promises as fs, type Stats } from 'fs';
 import path from 'path';
 import normalizePath from 'normalize-path';
 import type { AbsolutePath, AvailableFolderItem } from '@/pure/folders/types';
 import { toAbsolutePath } from '@/pure/folders/types';
 import { getAvailableFolders, parseSearchQuery } from '@/pure/folders/transforms';
 import { getProjectRootWatchedDirectory } from '@/shell/edge/main/state/watch-folder-store';
-import { getVaultPaths } from './vault-allowlist';
 
 /**
  * Security validation: ensure target path is within project root.
@@ -46,6 +45,19 @@ export async function isValidSubdirectory(
     }
 }
 
+/**
+ * Modification time of a file or folder in ms, or undefined if it can't be stat'ed
+ * (removed since it was listed, permission issues, etc.).
+ */
+export async function getModifiedAt(fsPath: string): Promise<number | undefined> {
+    try {
+        const stat: Stats = await fs.stat(fsPath);
+        return stat.mtime.getTime();
+    } catch {
+        return undefined;
+    }
+}
+
 /**
  * Scan project root for immediate subfolders with modification timestamps.
  * Returns folders sorted by modifiedAt descending (most recent first).
@@ -58,10 +70,13 @@ export async function getSubfoldersWithModifiedAt(
 
     try {
         // Include the root folder itself
-        const rootStat = await fs.stat(projectRoot);
+        const rootModifiedAt: number | undefined = await getModifiedAt(projectRoot);
+        if (rootModifiedAt === undefined) {
+            return [];
+        }
         results.push({
             path: projectRoot,
-            modifiedAt: rootStat.mtime.getTime(),
+            modifiedAt: rootModifiedAt,
         });
 
         // Read directory entries
@@ -74,14 +89,13 @@ export async function getSubfoldersWithModifiedAt(
                 if (entry.name.startsWith('.')) continue;
 
                 const fullPath = normalizePath(path.join(projectRoot, entry.name));
-                try {
-                    const stat = await fs.stat(fullPath);
+                const modifiedAt: number | undefined = await getModifiedAt(fullPath);
+                // Skip folders we can't stat (permission issues, etc.)
+                if (modifiedAt !== undefined) {
                     results.push({
                         path: toAbsolutePath(fullPath),
-                        modifiedAt: stat.mtime.getTime(),
+                        modifiedAt,
                     });
-                } catch {
-                    // Skip folders we can't stat (permission issues, etc.)
                 }
             }
         }
@@ -97,20 +111,23 @@ export async function getSubfoldersWithModifiedAt(
 }
 
 /**
- * IPC-exposed function for getting available folders.
+ * Available folders for the folder selector (exposed via watchFolder's getAvailableFoldersForSelector).
  * Supports lazy path expansion: typing "docs/" scans the docs subdirectory.
  *
  * Uses parseSearchQuery to determine:
  * - Which directory to scan (basePath or project root)
  * - What text to filter results by (filterText)
+ *
+ * @param searchQuery - What the user typed in the selector
+ * @param vaultPaths - Currently loaded vault paths (marked as loaded in the results)
  */
-export async function getAvailableFoldersForSelector(
-    searchQuery: string
+export async function scanAvailableFolders(
+    searchQuery: string,
+    vaultPaths: readonly string[]
 ): Promise<readonly AvailableFolderItem[]> {
     const projectRoot = getProjectRootWatchedDirectory();
     if (!projectRoot) return [];
 
-    const vaultPaths = await getVaultPaths();
     const loadedPaths = vaultPaths.map(p => toAbsolutePath(p));
 
     // Parse the search query to determine scan target
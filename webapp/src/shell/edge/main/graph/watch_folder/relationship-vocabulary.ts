@@ -0,0 +1,51 @@
+/**
+ * Relationship vocabulary of the open project (see pure/graph/relationships).
+ *
+ * Stored in the project's vault config in voicetree-config.json, loaded into the
+ * relationship-vocabulary store when a folder is opened, and pushed to the renderer
+ * for the link picker, edge styling and the relationship filter.
+ */
+
+import type { FilePath } from "@/pure/graph";
+import type { VaultConfig } from "@/pure/settings/types";
+import { parseRelationshipVocabulary, type RelationshipVocabulary } from "@/pure/graph/relationships";
+import { getProjectRootWatchedDirectory } from "@/shell/edge/main/state/watch-folder-store";
+import { getRelationshipVocabulary, setRelationshipVocabulary } from "@/shell/edge/main/state/relationship-vocabulary-store";
+import { uiAPI } from "@/shell/edge/main/ui-api-proxy";
+import { getVaultConfigForDirectory, saveVaultConfigForDirectory } from "./voicetree-config-io";
+
+export { getRelationshipVocabulary };
+
+/**
+ * Load a project's vocabulary into the store. Call before the project's nodes are parsed.
+ */
+export async function loadRelationshipVocabulary(watchedDir: FilePath): Promise<RelationshipVocabulary> {
+    const config: VaultConfig | undefined = await getVaultConfigForDirectory(watchedDir);
+    const vocabulary: RelationshipVocabulary = parseRelationshipVocabulary(config?.relationshipVocabulary);
+    setRelationshipVocabulary(vocabulary);
+    void uiAPI.setRelationshipVocabulary(vocabulary);
+    return vocabulary;
+}
+
+/**
+ * Replace the open project's vocabulary. Edges already in the graph keep their labels
+ * until their node is parsed again; the renderer restyles them straight away.
+ */
+export async function saveRelationshipVocabulary(
+    vocabulary: RelationshipVocabulary
+): Promise<{ success: boolean; error?: string }> {
+    const watchedDir: FilePath | null = getProjectRootWatchedDirectory();
+    if (!watchedDir) {
+        return { success: false, error: 'No directory is being watched' };
+    }
+    const config: VaultConfig | undefined = await getVaultConfigForDirectory(watchedDir);
+    const validated: RelationshipVocabulary = parseRelationshipVocabulary(vocabulary);
+    await saveVaultConfigForDirectory(watchedDir, {
+        writePath: config?.writePath ?? watchedDir,
+        readPaths: config?.readPaths ?? [],
+        relationshipVocabulary: validated,
+    });
+    setRelationshipVocabulary(validated);
+    void uiAPI.setRelationshipVocabulary(validated);
+    return { success: true };
+}
@@ -35,20 +35,18 @@ import {
   saveVaultConfigForDirectory,
 } from './voicetree-config-io'
 import { setGraph } from '@/shell/edge/main/state/graph-store'
+import { getLargeVaultIndex, isLargeVaultModeActive, setLargeVaultIndex } from '@/shell/edge/main/state/large-vault-store'
+import { createEmptyLargeVaultIndex, type IndexedVaultFile } from '@/pure/graph/large-vault/largeVaultIndex'
 import { createEmptyGraph } from '@/pure/graph/createGraph'
 import type { VaultConfig } from '@/pure/settings/types'
 
 // Mock graph loading - we'll control the return value per test
 import { loadVaultPathAdditively, resolveLinkedNodesInWatchedFolder } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk'
-import type { FileLimitExceededError } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce'
 import { createStarterNode } from './create-starter-node'
 import { notifyTextToTreeServerOfDirectory } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/notifyTextToTreeServerOfDirectory'
 
 vi.mock('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk', () => ({
-  loadVaultPathAdditively: vi.fn().mockResolvedValue({
-    _tag: 'Right',
-    right: { graph: { nodes: {} }, delta: [] }
-  }),
+  loadVaultPathAdditively: vi.fn().mockResolvedValue({ graph: { nodes: {} }, delta: [], mode: 'full', indexedFiles: [] }),
   resolveLinkedNodesInWatchedFolder: vi.fn().mockResolvedValue([])
 }))
 
@@ -60,7 +58,7 @@ vi.mock('./create-starter-node', () => ({
         absoluteFilePathIsID: '/test/starter-node.md',
         outgoingEdges: [],
         contentWithoutYamlOrLinks: '# Starter',
-        nodeUIMetadata: { color: { _tag: 'None' }, position: { _tag: 'Some', value: { x: 0, y: 0 } }, additionalYAMLProps: new Map(), isContextNode: false }
+        nodeUIMetadata: { color: { _tag: 'None' }, position: { _tag: 'Some', value: { x: 0, y: 0 } }, additionalYAMLProps: {}, isContextNode: false }
       }
     }
   })
@@ -191,6 +189,7 @@ describe('vault-allowlist: loadAndMergeVaultPath helper', () => {
     }
     clearWatchFolderState()
     setGraph(createEmptyGraph())
+    setLargeVaultIndex(createEmptyLargeVaultIndex())
     vi.clearAllMocks()
   })
 
@@ -202,10 +201,7 @@ describe('vault-allowlist: loadAndMergeVaultPath helper', () => {
     // AND: loadVaultPathAdditively returns success with a delta
     const mockGraph: { nodes: { 'test-node': object } } = { nodes: { 'test-node': {} } }
     const mockDelta: { type: string; nodeId: string }[] = [{ type: 'CreateNode', nodeId: 'test-node' }]
-    vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-      _tag: 'Right',
-      right: { graph: mockGraph, delta: mockDelta }
-    })
+    vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({ graph: mockGraph, delta: mockDelta, mode: 'full', indexedFiles: [] })
 
     // WHEN: loadAndMergeVaultPath is called (impure edge function)
     const result: LoadVaultPathResult = await loadAndMergeVaultPath(vaultPath)
@@ -214,144 +210,50 @@ describe('vault-allowlist: loadAndMergeVaultPath helper', () => {
     expect(result.success).toBe(true)
   })
 
-  it('returns error when file limit is exceeded', async () => {
+  it('indexes the vault and skips link resolution in large-vault mode', async () => {
     // GIVEN: A vault path
     const vaultPath: string = path.join(testTmpDir, 'vault')
     await fs.mkdir(vaultPath, { recursive: true })
 
-    // AND: loadVaultPathAdditively returns Left(FileLimitExceededError)
-    const fileLimitError: FileLimitExceededError = {
-      _tag: 'FileLimitExceededError',
-      fileCount: 500,
-      maxFiles: 300,
-      message: 'Directory contains 500 markdown files, which exceeds the limit of 300'
-    }
-    vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-      _tag: 'Left',
-      left: fileLimitError
-    })
+    // AND: loadVaultPathAdditively loaded only a seed set and indexed the rest
+    const indexedFiles: readonly IndexedVaultFile[] = [
+      { absolutePath: path.join(vaultPath, 'seed.md'), modifiedAt: 2, linkTexts: [] },
+      { absolutePath: path.join(vaultPath, 'deferred.md'), modifiedAt: 1, linkTexts: ['seed'] }
+    ]
+    vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({ graph: createEmptyGraph(), delta: [], mode: 'large-vault', indexedFiles })
 
     // WHEN: loadAndMergeVaultPath is called (impure edge function)
     const result: LoadVaultPathResult = await loadAndMergeVaultPath(vaultPath)
 
-    // THEN: Should return error
-    expect(result.success).toBe(false)
-    expect(result.error).toContain('File limit exceeded')
-    expect(result.error).toContain('500')
-    expect(result.error).toContain('300')
-  })
-})
-
-describe('vault-allowlist: file limit exceeded error handling', () => {
-  let testTmpDir: string
-
-  beforeEach(async () => {
-    testTmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vault-file-limit-test-'))
-    // Ensure mock userData path exists
-    await fs.mkdir(mockUserDataPath, { recursive: true })
-    // Initialize graph state
-    setGraph(createEmptyGraph())
-    // Clear watch folder state
-    clearWatchFolderState()
-    // Mock watcher to avoid null issues
-    setWatcher({
-      add: vi.fn(),
-      unwatch: vi.fn(),
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } as any)
-  })
-
-  afterEach(async () => {
-    await fs.rm(testTmpDir, { recursive: true, force: true })
-    // Clean up config file
-    try {
-      await fs.rm(path.join(mockUserDataPath, 'voicetree-config.json'), { force: true })
-    } catch {
-      // ignore
-    }
-    clearWatchFolderState()
-    setGraph(createEmptyGraph())
-    vi.clearAllMocks()
+    // THEN: Should succeed, keep the index for lazy expansion, and not load linked files transitively
+    expect(result.success).toBe(true)
+    expect(isLargeVaultModeActive()).toBe(true)
+    expect([...getLargeVaultIndex().files.keys()]).toEqual(indexedFiles.map(file => file.absolutePath))
+    expect(resolveLinkedNodesInWatchedFolder).not.toHaveBeenCalled()
   })
 
-  describe('addReadPath returns error when file limit exceeded', () => {
-    it('returns error when file limit is exceeded', async () => {
-      // GIVEN: A watched directory with a config
-      const watchedDir: string = path.join(testTmpDir, 'project')
-      const writePath: string = path.join(watchedDir, 'voicetree')
-      const newReadPath: string = path.join(watchedDir, 'too-many-files')
-      await fs.mkdir(writePath, { recursive: true })
-      await fs.mkdir(newReadPath, { recursive: true })
-      setProjectRootWatchedDirectory(watchedDir)
+  it('adds a read path above the large-vault threshold instead of failing', async () => {
+    // GIVEN: A project with a write path and a large folder to add as read path
+    const writePath: string = path.join(testTmpDir, 'voicetree')
+    const largeReadPath: string = path.join(testTmpDir, 'large-vault')
+    await fs.mkdir(writePath, { recursive: true })
+    await fs.mkdir(largeReadPath, { recursive: true })
+    await saveVaultConfigForDirectory(testTmpDir, { writePath, readPaths: [] })
 
-      const config: VaultConfig = {
-        writePath: writePath,
-        readPaths: []
-      }
-      await saveVaultConfigForDirectory(watchedDir, config)
-
-      // AND: loadVaultPathAdditively will return Left(FileLimitExceededError)
-      const fileLimitError: FileLimitExceededError = {
-        _tag: 'FileLimitExceededError',
-        fileCount: 500,
-        maxFiles: 300,
-        message: 'Directory contains 500 markdown files, which exceeds the limit of 300'
-      }
-      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Left',
-        left: fileLimitError
-      })
-
-      // WHEN: addReadPath is called
-      const result: { success: boolean; error?: string } = await addReadPath(newReadPath)
-
-      // THEN: Should return error with file limit message
-      expect(result.success).toBe(false)
-      expect(result.error).toBeDefined()
-      expect(result.error).toContain('File limit exceeded')
-      expect(result.error).toContain('500')
-      expect(result.error).toContain('300')
+    // AND: the folder is loaded in large-vault mode
+    vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
+      graph: createEmptyGraph(),
+      delta: [],
+      mode: 'large-vault',
+      indexedFiles: [{ absolutePath: path.join(largeReadPath, 'note.md'), modifiedAt: 1, linkTexts: [] }]
     })
-  })
 
-  describe('setWritePath returns error when file limit exceeded', () => {
-    it('returns error when file limit is exceeded', async () => {
-      // GIVEN: A watched directory with a config
-      const watchedDir: string = path.join(testTmpDir, 'project')
-      const currentWritePath: string = path.join(watchedDir, 'voicetree')
-      const newWritePath: string = path.join(watchedDir, 'too-many-files')
-      await fs.mkdir(currentWritePath, { recursive: true })
-      await fs.mkdir(newWritePath, { recursive: true })
-      setProjectRootWatchedDirectory(watchedDir)
+    // WHEN: addReadPath is called
+    const result: { success: boolean; error?: string } = await addReadPath(largeReadPath)
 
-      const config: VaultConfig = {
-        writePath: currentWritePath,
-        readPaths: []
-      }
-      await saveVaultConfigForDirectory(watchedDir, config)
-
-      // AND: loadVaultPathAdditively will return Left(FileLimitExceededError)
-      const fileLimitError: FileLimitExceededError = {
-        _tag: 'FileLimitExceededError',
-        fileCount: 450,
-        maxFiles: 300,
-        message: 'Directory contains 450 markdown files, which exceeds the limit of 300'
-      }
-      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Left',
-        left: fileLimitError
-      })
-
-      // WHEN: setWritePath is called
-      const result: { success: boolean; error?: string } = await setWritePath(newWritePath)
-
-      // THEN: Should return error with file limit message
-      expect(result.success).toBe(false)
-      expect(result.error).toBeDefined()
-      expect(result.error).toContain('File limit exceeded')
-      expect(result.error).toContain('450')
-      expect(result.error).toContain('300')
-    })
+    // THEN: The read path is added
+    expect(result.success).toBe(true)
+    expect(await getVaultPaths()).toContain(largeReadPath)
   })
 })
 
@@ -381,6 +283,7 @@ describe('vault-allowlist: loadAndMergeVaultPath isWritePath behavior', () => {
     }
     clearWatchFolderState()
     setGraph(createEmptyGraph())
+    setLargeVaultIndex(createEmptyLargeVaultIndex())
     vi.clearAllMocks()
   })
 
@@ -391,10 +294,7 @@ describe('vault-allowlist: loadAndMergeVaultPath isWritePath behavior', () => {
       await fs.mkdir(vaultPath, { recursive: true })
 
       // AND: loadVaultPathAdditively returns empty graph (no files found)
-      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Right',
-        right: { graph: { nodes: {} }, delta: [] }
-      })
+      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({ graph: { nodes: {} }, delta: [], mode: 'full', indexedFiles: [] })
 
       // WHEN: loadAndMergeVaultPath is called with isWritePath: true
       const result: LoadVaultPathResult = await loadAndMergeVaultPath(vaultPath, { isWritePath: true })
@@ -414,11 +314,10 @@ describe('vault-allowlist: loadAndMergeVaultPath isWritePath behavior', () => {
       // AND: loadVaultPathAdditively returns graph with existing node
       const existingNodeId: string = path.join(vaultPath, 'existing-file.md')
       vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Right',
-        right: {
-          graph: { nodes: { [existingNodeId]: { absoluteFilePathIsID: existingNodeId } } },
-          delta: [{ type: 'CreateNode', nodeId: existingNodeId }]
-        }
+        graph: { nodes: { [existingNodeId]: { absoluteFilePathIsID: existingNodeId } } },
+        delta: [{ type: 'CreateNode', nodeId: existingNodeId }],
+        mode: 'full',
+        indexedFiles: []
       })
 
       // WHEN: loadAndMergeVaultPath is called with isWritePath: true
@@ -431,16 +330,34 @@ describe('vault-allowlist: loadAndMergeVaultPath isWritePath behavior', () => {
       expect(createStarterNode).not.toHaveBeenCalled()
     })
 
+    it('does not create starter node when a large vault has no node loaded from it', async () => {
+      // GIVEN: A large vault path whose seed budget was used up by nodes already in the graph
+      const vaultPath: string = path.join(testTmpDir, 'large-vault')
+      await fs.mkdir(vaultPath, { recursive: true })
+
+      // AND: loadVaultPathAdditively loaded nothing from it but indexed its files
+      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
+        graph: { nodes: {} },
+        delta: [],
+        mode: 'large-vault',
+        indexedFiles: [{ absolutePath: path.join(vaultPath, 'note.md'), modifiedAt: 1, linkTexts: [] }]
+      })
+
+      // WHEN: loadAndMergeVaultPath is called with isWritePath: true
+      const result: LoadVaultPathResult = await loadAndMergeVaultPath(vaultPath, { isWritePath: true })
+
+      // THEN: Should return success without a starter node (folder not empty)
+      expect(result.success).toBe(true)
+      expect(createStarterNode).not.toHaveBeenCalled()
+    })
+
     it('notifies backend for write paths', async () => {
       // GIVEN: A vault path
       const vaultPath: string = path.join(testTmpDir, 'write-vault')
       await fs.mkdir(vaultPath, { recursive: true })
 
       // AND: loadVaultPathAdditively returns success
-      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Right',
-        right: { graph: { nodes: {} }, delta: [] }
-      })
+      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({ graph: { nodes: {} }, delta: [], mode: 'full', indexedFiles: [] })
 
       // WHEN: loadAndMergeVaultPath is called with isWritePath: true
       const result: LoadVaultPathResult = await loadAndMergeVaultPath(vaultPath, { isWritePath: true })
@@ -460,11 +377,10 @@ describe('vault-allowlist: loadAndMergeVaultPath isWritePath behavior', () => {
       // AND: loadVaultPathAdditively returns a graph with nodes
       const nodeId: string = path.join(vaultPath, 'note.md')
       vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Right',
-        right: {
-          graph: { nodes: { [nodeId]: { absoluteFilePathIsID: nodeId } } },
-          delta: [{ type: 'CreateNode', nodeId }]
-        }
+        graph: { nodes: { [nodeId]: { absoluteFilePathIsID: nodeId } } },
+        delta: [{ type: 'CreateNode', nodeId }],
+        mode: 'full',
+        indexedFiles: []
       })
 
       // WHEN: loadAndMergeVaultPath is called
@@ -482,10 +398,7 @@ describe('vault-allowlist: loadAndMergeVaultPath isWritePath behavior', () => {
       await fs.mkdir(vaultPath, { recursive: true })
 
       // AND: loadVaultPathAdditively returns empty graph
-      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Right',
-        right: { graph: { nodes: {} }, delta: [] }
-      })
+      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({ graph: { nodes: {} }, delta: [], mode: 'full', indexedFiles: [] })
 
       // WHEN: loadAndMergeVaultPath is called with isWritePath: false
       const result: LoadVaultPathResult = await loadAndMergeVaultPath(vaultPath, { isWritePath: false })
@@ -503,10 +416,7 @@ describe('vault-allowlist: loadAndMergeVaultPath isWritePath behavior', () => {
       await fs.mkdir(vaultPath, { recursive: true })
 
       // AND: loadVaultPathAdditively returns success
-      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Right',
-        right: { graph: { nodes: {} }, delta: [] }
-      })
+      vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({ graph: { nodes: {} }, delta: [], mode: 'full', indexedFiles: [] })
 
       // WHEN: loadAndMergeVaultPath is called with isWritePath: false
       const result: LoadVaultPathResult = await loadAndMergeVaultPath(vaultPath, { isWritePath: false })
@@ -526,11 +436,10 @@ describe('vault-allowlist: loadAndMergeVaultPath isWritePath behavior', () => {
       // AND: loadVaultPathAdditively returns a graph with nodes
       const nodeId: string = path.join(vaultPath, 'note.md')
       vi.mocked(loadVaultPathAdditively).mockResolvedValueOnce({
-        _tag: 'Right',
-        right: {
-          graph: { nodes: { [nodeId]: { absoluteFilePathIsID: nodeId } } },
-          delta: [{ type: 'CreateNode', nodeId }]
-        }
+        graph: { nodes: { [nodeId]: { absoluteFilePathIsID: nodeId } } },
+        delta: [{ type: 'CreateNode', nodeId }],
+        mode: 'full',
+        indexedFiles: []
       })
 
       // WHEN: loadAndMergeVaultPath is called with isWritePath: false
@@ -14,12 +14,17 @@ import type { FSWatcher } from "chokidar";
 import * as O from "fp-ts/lib/Option.js";
 import type { FilePath, Graph, GraphDelta, DeleteNode } from "@/pure/graph";
 import { applyGraphDeltaToGraph } from "@/pure/graph";
-import type { VaultConfig } from "@/pure/settings/types";
-import { loadVaultPathAdditively, resolveLinkedNodesInWatchedFolder } from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk";
+import type { VaultConfig, VTSettings } from "@/pure/settings/types";
+import {
+    loadVaultPathAdditively,
+    resolveLinkedNodesInWatchedFolder,
+    type AdditiveLoadResult
+} from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/loadGraphFromDisk";
 import { createStarterNode } from "./create-starter-node";
-import type { FileLimitExceededError } from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce";
-import * as E from "fp-ts/lib/Either.js";
+import { addFilesToLargeVaultIndex, filterLargeVaultIndex, DEFAULT_LARGE_VAULT_THRESHOLD } from "@/pure/graph/large-vault/largeVaultIndex";
 import { setGraph, getGraph } from "@/shell/edge/main/state/graph-store";
+import { getLargeVaultIndex, isLargeVaultModeActive, setLargeVaultIndex } from "@/shell/edge/main/state/large-vault-store";
+import { loadSettings } from "@/shell/edge/main/settings/settings_IO";
 import {
     getProjectRootWatchedDirectory,
     setProjectRootWatchedDirectory,
@@ -122,12 +127,14 @@ export async function getWritePath(): Promise<O.Option<FilePath>> {
  * Load files from a vault path and merge into the existing graph.
  *
  * IMPURE EDGE FUNCTION: Handles all side effects internally.
- * Shared by setWritePath, addReadPath, loadFolder, and createNewWorkspaceOnFileLimitExceeded.
+ * Shared by setWritePath, addReadPath and loadFolder.
  *
  * Handles internally:
  * - Reads current graph from global state (getGraph)
  * - Reads project root from global state (getProjectRootWatchedDirectory)
  * - Loads files and resolves wikilinks
+ * - Switches to large-vault mode above settings.largeVaultThreshold (indexes the vault,
+ *   skips transitive link resolution - nodes are then expanded lazily)
  * - Creates starter node for empty write paths
  * - Commits to graph store (setGraph)
  * - Broadcasts to UI (broadcastGraphDeltaToUI)
@@ -144,21 +151,21 @@ export async function loadAndMergeVaultPath(
     const existingGraph: Graph = getGraph();
     const watchedFolderPath: FilePath | null = getProjectRootWatchedDirectory();
 
-    const loadResult: E.Either<FileLimitExceededError, { graph: Graph; delta: GraphDelta }> =
-        await loadVaultPathAdditively(vaultPath, existingGraph);
+    const settings: VTSettings = await loadSettings();
+
+    const loadResult: AdditiveLoadResult =
+        await loadVaultPathAdditively(vaultPath, existingGraph, settings.largeVaultThreshold ?? DEFAULT_LARGE_VAULT_THRESHOLD);
 
-    if (E.isLeft(loadResult)) {
-        return {
-            success: false,
-            error: `File limit exceeded: ${loadResult.left.fileCount} files (max: ${loadResult.left.maxFiles})`
-        };
+    if (loadResult.mode === 'large-vault') {
+        setLargeVaultIndex(addFilesToLargeVaultIndex(getLargeVaultIndex(), loadResult.indexedFiles));
     }
 
-    let currentGraph: Graph = loadResult.right.graph;
-    let accumulatedDelta: GraphDelta = loadResult.right.delta;
+    let currentGraph: Graph = loadResult.graph;
+    let accumulatedDelta: GraphDelta = loadResult.delta;
 
     // Resolve wikilinks for loaded files
-    if (watchedFolderPath) {
+    // (not in large-vault mode: transitive resolution would load the whole vault)
+    if (watchedFolderPath && !isLargeVaultModeActive()) {
         const resolutionDelta: GraphDelta = await resolveLinkedNodesInWatchedFolder(currentGraph, watchedFolderPath);
         if (resolutionDelta.length > 0) {
             currentGraph = applyGraphDeltaToGraph(currentGraph, resolutionDelta);
@@ -167,11 +174,12 @@ export async function loadAndMergeVaultPath(
     }
 
     // Handle starter node creation for empty write paths
+    // (a large vault may have no node loaded from this path yet, so its indexed files count too)
     if (options.isWritePath) {
         const nodesInPath: readonly string[] = Object.keys(currentGraph.nodes).filter(nodeId =>
             nodeId.startsWith(vaultPath + '/') || nodeId === vaultPath
         );
-        if (nodesInPath.length === 0) {
+        if (nodesInPath.length === 0 && loadResult.indexedFiles.length === 0) {
             const starterGraph: Graph = await createStarterNode(vaultPath);
             currentGraph = { ...currentGraph, nodes: { ...currentGraph.nodes, ...starterGraph.nodes } };
             const starterNodeId: string = Object.keys(starterGraph.nodes)[0];
@@ -339,6 +347,11 @@ export async function removeReadPath(vaultPath: FilePath): Promise<{ success: bo
         !isInPathToKeep(nodeId)
     );
 
+    // Forget the lazily indexed files of this vault path (large-vault mode)
+    setLargeVaultIndex(filterLargeVaultIndex(getLargeVaultIndex(), (filePath: string) =>
+        !(filePath.startsWith(normalizedVaultPath + '/')) || isInPathToKeep(filePath)
+    ));
+
     if (nodesToRemove.length > 0) {
         // Create delete deltas for each node
         const deleteDelta: GraphDelta = nodesToRemove.map((nodeId): DeleteNode => ({
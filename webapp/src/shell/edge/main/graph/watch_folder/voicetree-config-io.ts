@@ -3,7 +3,7 @@
  *
  * Handles reading/writing the voicetree-config.json file which stores:
  * - Last watched directory (for auto-open on launch)
- * - Per-directory vault configs (allowlist, write path)
+ * - Per-directory vault configs (allowlist, write path, relationship vocabulary)
  */
 
 import { app } from "electron";
@@ -71,9 +71,13 @@ export async function getVaultConfigForDirectory(directoryPath: string): Promise
     return config.vaultConfig?.[directoryPath];
 }
 
+/**
+ * Save a directory's vault config. Optional fields missing from vaultConfig keep
+ * their saved values, so path updates don't drop e.g. the relationship vocabulary.
+ */
 export async function saveVaultConfigForDirectory(directoryPath: string, vaultConfig: VaultConfig): Promise<void> {
     const config: VoiceTreeConfig = await loadConfig();
     config.vaultConfig ??= {};
-    config.vaultConfig[directoryPath] = vaultConfig;
+    config.vaultConfig[directoryPath] = { ...config.vaultConfig[directoryPath], ...vaultConfig };
     await saveConfig(config);
 }
@@ -25,6 +25,7 @@ import { getOnboardingDirectory } from "@/shell/edge/main/electron/onboarding-se
 import { copyMarkdownFiles, pathExists, generateDateSubfolder, findExistingVoicetreeDir } from "@/shell/edge/main/project-utils";
 import { loadSettings } from "@/shell/edge/main/settings/settings_IO";
 import { type VTSettings } from "@/pure/settings/types";
+import type { AvailableFolderItem } from "@/pure/folders/types";
 import {
     getWatcher,
     setWatcher,
@@ -32,6 +33,7 @@ import {
     setProjectRootWatchedDirectory,
     getStartupFolderOverride,
     getOnFolderSwitchCleanup,
+    getOnFolderLoaded,
 } from "@/shell/edge/main/state/watch-folder-store";
 
 // Import from extracted modules
@@ -43,10 +45,16 @@ import {
 import {
     resolveAllowlistForProject,
     loadAndMergeVaultPath,
+    getVaultPaths,
     type LoadVaultPathResult,
 } from "./vault-allowlist";
 import { setupWatcher } from "./file-watcher-setup";
+import { scanAvailableFolders } from "./folder-scanner";
+import { loadRelationshipVocabulary } from "./relationship-vocabulary";
 import { createEmptyGraph } from "@/pure/graph/createGraph";
+import { createEmptyLargeVaultIndex } from "@/pure/graph/large-vault/largeVaultIndex";
+import { setLargeVaultIndex } from "@/shell/edge/main/state/large-vault-store";
+import { loadDeltaJournal } from "@/shell/edge/main/state/delta-journal-store";
 
 // Re-export vault-allowlist functions for api.ts and tests
 export {
@@ -61,8 +69,13 @@ export {
     clearVaultPath,
 } from "./vault-allowlist";
 
-// Re-export folder-scanner functions for api.ts
-export { getAvailableFoldersForSelector } from "./folder-scanner";
+/**
+ * Folders the user can add as vault paths, marking the ones already loaded.
+ * Exposed to the renderer via api.ts.
+ */
+export async function getAvailableFoldersForSelector(searchQuery: string): Promise<readonly AvailableFolderItem[]> {
+    return scanAvailableFolders(searchQuery, await getVaultPaths());
+}
 
 export async function initialLoad(): Promise<void> {
     // If already watching a directory, don't reload
@@ -193,23 +206,19 @@ export async function loadFolder(watchedFolderPath: FilePath): Promise<{ success
     const config: { writePath: string; readPaths: readonly string[]; allowlist: readonly string[] } =
         await resolveOrCreateConfig(watchedFolderPath);
 
-    // Clear graph in memory before loading paths
+    // Clear graph (and any large-vault index) in memory before loading paths
     setGraph(createEmptyGraph());
+    setLargeVaultIndex(createEmptyLargeVaultIndex());
+
+    // Switch to this project's delta journal (history persists across sessions)
+    await loadDeltaJournal(watchedFolderPath);
+
+    // Edge labels are normalized against the project's vocabulary while its files load
+    await loadRelationshipVocabulary(watchedFolderPath);
 
     // Load write path first (handles all side effects internally)
     const writeResult: LoadVaultPathResult = await loadAndMergeVaultPath(config.writePath, { isWritePath: true });
     if (!writeResult.success) {
-        // Check for file limit exceeded error
-        if (writeResult.error?.includes('File limit exceeded')) {
-            const match: RegExpMatchArray | null = writeResult.error.match(/(\d+) files/);
-            const fileCount: number = match ? parseInt(match[1], 10) : 0;
-            return createNewWorkspaceOnFileLimitExceeded(
-                watchedFolderPath,
-                fileCount,
-                mainWindow,
-                config.readPaths
-            );
-        }
         return { success: false };
     }
 
@@ -217,17 +226,6 @@ export async function loadFolder(watchedFolderPath: FilePath): Promise<{ success
     for (const readPath of config.readPaths) {
         const readResult: LoadVaultPathResult = await loadAndMergeVaultPath(readPath, { isWritePath: false });
         if (!readResult.success) {
-            // Check for file limit exceeded error
-            if (readResult.error?.includes('File limit exceeded')) {
-                const match: RegExpMatchArray | null = readResult.error.match(/(\d+) files/);
-                const fileCount: number = match ? parseInt(match[1], 10) : 0;
-                return createNewWorkspaceOnFileLimitExceeded(
-                    watchedFolderPath,
-                    fileCount,
-                    mainWindow,
-                    config.readPaths
-                );
-            }
             // Log but continue with remaining paths for non-fatal errors
             console.warn(`[loadFolder] Failed to load read path ${readPath}: ${readResult.error}`);
             continue;
@@ -247,60 +245,8 @@ export async function loadFolder(watchedFolderPath: FilePath): Promise<{ success
         timestamp: new Date().toISOString()
     });
 
-    return { success: true };
-}
-
-/**
- * Handle file limit exceeded by creating a new voicetree-{date} workspace.
- * Used by both savedConfig and no-savedConfig paths to avoid duplication.
- */
-async function createNewWorkspaceOnFileLimitExceeded(
-    watchedFolderPath: FilePath,
-    fileCount: number,
-    mainWindow: Electron.CrossProcessExports.BrowserWindow,
-    existingReadPaths: readonly string[]
-): Promise<{ success: boolean }> {
-    const subfolder: string = generateDateSubfolder();
-    const newSubfolderPath: string = path.join(watchedFolderPath, subfolder);
-    await fs.mkdir(newSubfolderPath, { recursive: true });
-
-    // Show info dialog (non-blocking)
-    void dialog.showMessageBox(mainWindow, {
-        type: 'info',
-        title: 'New Workspace Created',
-        message: `Previous workspace has ${fileCount} markdown files (limit: 300).\n\nCreated new workspace:\n${newSubfolderPath}`,
-        buttons: ['OK']
-    });
-
-    // Save new config with the new subfolder, keeping readPaths for linking
-    await saveVaultConfigForDirectory(watchedFolderPath, {
-        writePath: newSubfolderPath,
-        readPaths: existingReadPaths
-    });
-
-    // Clear graph before loading new workspace
-    setGraph(createEmptyGraph());
-
-    // Load from the new subfolder (handles all side effects internally, including starter node)
-    const writeResult: LoadVaultPathResult = await loadAndMergeVaultPath(newSubfolderPath, { isWritePath: true });
-    if (!writeResult.success) {
-        // Should not happen with empty folder, but handle gracefully
-        return { success: false };
-    }
-
-    // Setup file watcher for the new workspace
-    const newAllowlist: readonly string[] = [newSubfolderPath, ...existingReadPaths];
-    await setupWatcher(newAllowlist, watchedFolderPath);
-
-    // Save as last directory for auto-start on next launch
-    await saveLastDirectory(watchedFolderPath);
-
-    // Notify UI that watching has started
-    mainWindow.webContents.send('watching-started', {
-        directory: getProjectRootWatchedDirectory(),
-        writePath: newSubfolderPath,
-        timestamp: new Date().toISOString()
-    });
+    // Run startup-layer follow-ups (e.g., offering to restore terminals from the last session)
+    getOnFolderLoaded()?.(watchedFolderPath);
 
     return { success: true };
 }
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type { Graph, GraphDelta, GraphNode, NodeIdAndFilePath } from '@/pure/graph'
+import { applyGraphDeltaToGraph } from '@/pure/graph'
+import { createEmptyGraph, createGraph } from '@/pure/graph/createGraph'
+import { getGraph, setGraph } from '@/shell/edge/main/state/graph-store'
+import { applyGraphDeltaToLocalSearch, setEmbeddingProvider } from '@/shell/edge/main/state/local-search-store'
+import { searchNodesLocally } from './local-search'
+import { askQuery, type AskQueryResponse } from './backend-api'
+
+vi.mock('@/shell/edge/main/state/app-electron-state', () => ({
+    getBackendPort: () => 1
+}))
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, content: string): GraphNode {
+    return {
+        outgoingEdges: [],
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode: false
+        }
+    }
+}
+
+function resultPaths(response: AskQueryResponse): readonly string[] {
+    return response.relevant_nodes.map(node => node.node_path)
+}
+
+const graph: Graph = createGraph({
+    '/vault/auth.md': buildGraphNode('/vault/auth.md', '# Authentication\nLogin with OAuth.'),
+    '/vault/billing.md': buildGraphNode('/vault/billing.md', '# Billing\nInvoices and login for the billing portal.'),
+})
+
+describe('searchNodesLocally', () => {
+    afterEach(() => {
+        setGraph(createEmptyGraph())
+        setEmbeddingProvider(null)
+        vi.unstubAllGlobals()
+    })
+
+    it('searches the current graph and follows incremental deltas', async () => {
+        setGraph(graph)
+        expect(resultPaths(await searchNodesLocally('oauth', 5))).toEqual(['/vault/auth.md'])
+
+        const delta: GraphDelta = [{
+            type: 'UpsertNode',
+            nodeToUpsert: buildGraphNode('/vault/sso.md', '# OAuth SSO\nSingle sign-on.'),
+            previousNode: O.none
+        }]
+        const nextGraph: Graph = applyGraphDeltaToGraph(getGraph(), delta)
+        setGraph(nextGraph)
+        applyGraphDeltaToLocalSearch(graph, nextGraph, delta)
+
+        expect(resultPaths(await searchNodesLocally('oauth', 5))).toEqual(['/vault/sso.md', '/vault/auth.md'])
+    })
+
+    it('re-ranks BM25 candidates with the registered embedding provider', async () => {
+        setGraph(graph)
+        setEmbeddingProvider({
+            // The query (first text) points the same way as the billing note only
+            embed: async (texts: readonly string[]) => texts.map((text, i) => i === 0 || text.startsWith('Billing') ? [1, 0] : [0, 1])
+        })
+
+        expect(resultPaths(await searchNodesLocally('login', 5))[0]).toBe('/vault/billing.md')
+    })
+
+    it('is used by askQuery when the backend is unreachable', async () => {
+        setGraph(graph)
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNREFUSED')))
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+        const response: AskQueryResponse = await askQuery('invoices', 3)
+
+        expect(resultPaths(response)).toEqual(['/vault/billing.md'])
+        expect(response.relevant_nodes[0].title).toBe('Billing')
+    })
+})
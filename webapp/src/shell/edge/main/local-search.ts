@@ -0,0 +1,79 @@
+/**
+ * In-process node search, used when the Python backend is unavailable.
+ *
+ * BM25 over the current graph, re-ranked with embeddings when an EmbeddingProvider
+ * has been registered via setEmbeddingProvider.
+ */
+
+import type {Graph, NodeIdAndFilePath} from '@/pure/graph'
+import {
+    cosineSimilarity,
+    fuseHybridScores,
+    searchLocalIndex,
+    type EmbeddingProvider,
+    type LocalSearchHit,
+    type LocalSearchIndex,
+    type SearchDocument,
+} from '@/pure/graph/search/localSearchIndex'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getEmbeddingProvider, getLocalSearchIndex} from '@/shell/edge/main/state/local-search-store'
+import type {AskQueryResponse} from '@/shell/edge/main/backend-api'
+
+// BM25 candidates considered for embedding re-ranking, per requested result
+const HYBRID_CANDIDATE_MULTIPLIER: number = 3
+const HYBRID_SEMANTIC_WEIGHT: number = 0.5
+
+async function rerankWithEmbeddings(
+    provider: EmbeddingProvider,
+    index: LocalSearchIndex,
+    query: string,
+    candidates: readonly LocalSearchHit[]
+): Promise<readonly LocalSearchHit[]> {
+    const documents: readonly SearchDocument[] = candidates
+        .map(hit => index.documents.get(hit.nodeId))
+        .filter((document): document is SearchDocument => document !== undefined)
+    const [queryVector, ...documentVectors] = await provider.embed([query, ...documents.map(document => document.text)])
+    if (!queryVector) {
+        return candidates
+    }
+    const similarityByNodeId: ReadonlyMap<NodeIdAndFilePath, number> = new Map(
+        documents.map((document, i) => [document.nodeId, cosineSimilarity(queryVector, documentVectors[i] ?? [])])
+    )
+    return fuseHybridScores(candidates, similarityByNodeId, HYBRID_SEMANTIC_WEIGHT)
+}
+
+/**
+ * Search the in-memory graph. Same response shape as the backend /ask endpoint,
+ * except node_path is the absolute node ID.
+ *
+ * @param query - The text to search for
+ * @param topK - Number of results to return
+ */
+export async function searchNodesLocally(query: string, topK: number = 10): Promise<AskQueryResponse> {
+    const graph: Graph = getGraph()
+    const index: LocalSearchIndex = getLocalSearchIndex(graph)
+    const provider: EmbeddingProvider | null = getEmbeddingProvider()
+
+    const candidates: readonly LocalSearchHit[] = searchLocalIndex(
+        index,
+        query,
+        provider ? topK * HYBRID_CANDIDATE_MULTIPLIER : topK
+    )
+
+    let hits: readonly LocalSearchHit[] = candidates
+    if (provider && candidates.length > 0) {
+        try {
+            hits = await rerankWithEmbeddings(provider, index, query, candidates)
+        } catch (error) {
+            console.warn('[Local Search] Embedding provider failed, using BM25 ranking only:', error)
+        }
+    }
+
+    return {
+        relevant_nodes: hits.slice(0, topK).map(hit => ({
+            node_path: hit.nodeId,
+            score: hit.score,
+            title: hit.title,
+        }))
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * MCP Tool: add_edge
+ * Adds a (optionally labeled) link from one node to another.
+ */
+
+import type {Graph, GraphDelta, NodeIdAndFilePath} from '@/pure/graph'
+import {addLabeledEdge} from '@/pure/graph/graph-operations/editNodeContent'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {normalizeRelationshipLabel} from '@/pure/graph/relationships'
+import {getRelationshipVocabulary} from '@/shell/edge/main/state/relationship-vocabulary-store'
+import {type McpToolResponse, buildJsonResponse} from './types'
+import {resolveNodeId} from './resolveNodeId'
+
+export interface AddEdgeParams {
+    callerTerminalId: string
+    sourceNodeId: string
+    targetNodeId: string
+    label?: string
+}
+
+export async function addEdgeTool({
+    callerTerminalId,
+    sourceNodeId,
+    targetNodeId,
+    label
+}: AddEdgeParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const callerRecord: TerminalRecord | undefined = getTerminalRecords().find(
+        (r: TerminalRecord) => r.terminalId === callerTerminalId
+    )
+    if (!callerRecord) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Resolve both endpoints
+    const graph: Graph = getGraph()
+    const resolvedSourceId: NodeIdAndFilePath | undefined = resolveNodeId(graph, sourceNodeId)
+    if (!resolvedSourceId) {
+        return buildJsonResponse({
+            success: false,
+            error: `Source node ${sourceNodeId} not found.`
+        }, true)
+    }
+    const resolvedTargetId: NodeIdAndFilePath | undefined = resolveNodeId(graph, targetNodeId)
+    if (!resolvedTargetId) {
+        return buildJsonResponse({
+            success: false,
+            error: `Target node ${targetNodeId} not found.`
+        }, true)
+    }
+
+    // 3. Build and apply the delta (empty if the edge already exists)
+    try {
+        const delta: GraphDelta = addLabeledEdge(
+            graph,
+            resolvedSourceId,
+            resolvedTargetId,
+            label === undefined ? undefined : normalizeRelationshipLabel(label, getRelationshipVocabulary())
+        )
+        if (delta.length > 0) {
+            await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, true, agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId))
+        }
+
+        return buildJsonResponse({
+            success: true,
+            sourceNodeId: resolvedSourceId,
+            targetNodeId: resolvedTargetId,
+            message: delta.length > 0
+                ? `Added edge ${resolvedSourceId} -> ${resolvedTargetId}`
+                : `Edge ${resolvedSourceId} -> ${resolvedTargetId} already exists`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
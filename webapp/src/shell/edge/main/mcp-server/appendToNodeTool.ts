@@ -0,0 +1,64 @@
+/**
+ * MCP Tool: append_to_node
+ * Appends markdown to the end of an existing node. Existing content and edges are kept.
+ */
+
+import type {Graph, GraphDelta, NodeIdAndFilePath} from '@/pure/graph'
+import {appendToNodeContent} from '@/pure/graph/graph-operations/editNodeContent'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {type McpToolResponse, buildJsonResponse} from './types'
+import {resolveNodeId} from './resolveNodeId'
+
+export interface AppendToNodeParams {
+    callerTerminalId: string
+    nodeId: string
+    content: string
+}
+
+export async function appendToNodeTool({
+    callerTerminalId,
+    nodeId,
+    content
+}: AppendToNodeParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const callerRecord: TerminalRecord | undefined = getTerminalRecords().find(
+        (r: TerminalRecord) => r.terminalId === callerTerminalId
+    )
+    if (!callerRecord) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Resolve target node
+    const graph: Graph = getGraph()
+    const resolvedNodeId: NodeIdAndFilePath | undefined = resolveNodeId(graph, nodeId)
+    if (!resolvedNodeId) {
+        return buildJsonResponse({
+            success: false,
+            error: `Node ${nodeId} not found.`
+        }, true)
+    }
+
+    // 3. Build and apply the delta
+    try {
+        const delta: GraphDelta = appendToNodeContent(graph, resolvedNodeId, content)
+        await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, true, agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId))
+
+        return buildJsonResponse({
+            success: true,
+            nodeId: resolvedNodeId,
+            message: `Appended to node ${resolvedNodeId}`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * MCP Tool: create_node
+ * Creates a node in the graph on behalf of the calling agent.
+ */
+
+import * as O from 'fp-ts/lib/Option.js'
+import type {Graph, GraphDelta, NodeIdAndFilePath} from '@/pure/graph'
+import {createAgentNode} from '@/pure/graph/graph-operations/createAgentNode'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getWritePath} from '@/shell/edge/main/graph/watch_folder/watchFolder'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {type McpToolResponse, buildJsonResponse} from './types'
+import {resolveNodeId} from './resolveNodeId'
+
+export interface CreateNodeParams {
+    callerTerminalId: string
+    title: string
+    content?: string
+    parentNodeId?: string
+    color?: string
+}
+
+export async function createNodeTool({
+    callerTerminalId,
+    title,
+    content = '',
+    parentNodeId,
+    color
+}: CreateNodeParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists (its agent name is stamped on the node)
+    const callerRecord: TerminalRecord | undefined = getTerminalRecords().find(
+        (r: TerminalRecord) => r.terminalId === callerTerminalId
+    )
+    if (!callerRecord) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    if (!title || title.trim() === '') {
+        return buildJsonResponse({
+            success: false,
+            error: 'title cannot be empty'
+        }, true)
+    }
+
+    const writePathOpt: O.Option<string> = await getWritePath()
+    if (O.isNone(writePathOpt)) {
+        return buildJsonResponse({
+            success: false,
+            error: 'No vault loaded. Please load a folder in the UI first.'
+        }, true)
+    }
+
+    // 2. Resolve parent node (optional)
+    const graph: Graph = getGraph()
+    const resolvedParentId: NodeIdAndFilePath | undefined = parentNodeId
+        ? resolveNodeId(graph, parentNodeId)
+        : undefined
+    if (parentNodeId && !resolvedParentId) {
+        return buildJsonResponse({
+            success: false,
+            error: `Parent node ${parentNodeId} not found.`
+        }, true)
+    }
+
+    // 3. Build and apply the delta
+    try {
+        const delta: GraphDelta = createAgentNode({
+            title: title.trim(),
+            content,
+            agentName: callerRecord.terminalData.agentName,
+            graph,
+            writePath: writePathOpt.value,
+            parentNodeId: resolvedParentId,
+            color
+        })
+        const nodeId: NodeIdAndFilePath = delta[0].type === 'UpsertNode'
+            ? delta[0].nodeToUpsert.absoluteFilePathIsID
+            : delta[0].nodeId
+
+        await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, true, agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId))
+
+        return buildJsonResponse({
+            success: true,
+            nodeId,
+            message: `Created node "${title.trim()}"`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
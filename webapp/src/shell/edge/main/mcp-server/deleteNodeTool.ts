@@ -0,0 +1,71 @@
+/**
+ * MCP Tool: delete_node
+ * Deletes a node, reconnecting its parents to its children so the graph stays connected.
+ */
+
+import type {Graph, GraphDelta, NodeIdAndFilePath} from '@/pure/graph'
+import {deleteNodeMaintainingTransitiveEdges} from '@/pure/graph/graph-operations/removeNodeMaintainingTransitiveEdges'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {type McpToolResponse, buildJsonResponse} from './types'
+import {resolveNodeId} from './resolveNodeId'
+
+export interface DeleteNodeParams {
+    callerTerminalId: string
+    nodeId: string
+}
+
+export async function deleteNodeTool({
+    callerTerminalId,
+    nodeId
+}: DeleteNodeParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const terminalRecords: TerminalRecord[] = getTerminalRecords()
+    const callerRecord: TerminalRecord | undefined = terminalRecords.find(
+        (r: TerminalRecord) => r.terminalId === callerTerminalId
+    )
+    if (!callerRecord) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Resolve target node
+    const graph: Graph = getGraph()
+    const resolvedNodeId: NodeIdAndFilePath | undefined = resolveNodeId(graph, nodeId)
+    if (!resolvedNodeId) {
+        return buildJsonResponse({
+            success: false,
+            error: `Node ${nodeId} not found.`
+        }, true)
+    }
+
+    // Context nodes are owned by terminals - they are removed when the terminal closes
+    if (terminalRecords.some((r: TerminalRecord) => r.terminalData.attachedToNodeId === resolvedNodeId)) {
+        return buildJsonResponse({
+            success: false,
+            error: `Node ${resolvedNodeId} is attached to a terminal and cannot be deleted.`
+        }, true)
+    }
+
+    // 3. Build and apply the delta
+    try {
+        const delta: GraphDelta = deleteNodeMaintainingTransitiveEdges(graph, resolvedNodeId)
+        await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, true, agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId))
+
+        return buildJsonResponse({
+            success: true,
+            nodeId: resolvedNodeId,
+            message: `Deleted node ${resolvedNodeId}`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
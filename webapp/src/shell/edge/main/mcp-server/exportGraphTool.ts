@@ -0,0 +1,77 @@
+/**
+ * MCP Tool: export_graph
+ * Exports the graph as JSON, GraphML, DOT or a Mermaid flowchart, for the whole vault,
+ * a set of nodes, or the neighborhood of one node. Read-only.
+ */
+
+import type {Graph, NodeIdAndFilePath} from '@/pure/graph'
+import {exportGraph, type GraphExportFormat} from '@/pure/graph/export/exportGraph'
+import {getGraphForExportScope, type GraphExportScope} from '@/pure/graph/export/graphExportScope'
+import type {VTSettings} from '@/pure/settings/types'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {resolveNodeId} from './resolveNodeId'
+import {type McpToolResponse, buildJsonResponse} from './types'
+
+export interface ExportGraphParams {
+    format: GraphExportFormat
+    nodeIds?: string[]
+    nodeId?: string
+    distance?: number
+}
+
+export async function exportGraphTool({
+    format,
+    nodeIds,
+    nodeId,
+    distance
+}: ExportGraphParams): Promise<McpToolResponse> {
+    if (nodeId !== undefined && nodeIds !== undefined) {
+        return buildJsonResponse({
+            success: false,
+            error: 'Pass nodeIds (selection) or nodeId (neighborhood), not both.'
+        }, true)
+    }
+
+    try {
+        const graph: Graph = getGraph()
+
+        // 1. Resolve nodes
+        const requestedIds: readonly string[] = nodeId !== undefined ? [nodeId] : (nodeIds ?? [])
+        const resolvedIds: readonly (NodeIdAndFilePath | undefined)[] = requestedIds.map(
+            (id: string) => resolveNodeId(graph, id)
+        )
+        const missingIds: readonly string[] = requestedIds.filter((_, index: number) => resolvedIds[index] === undefined)
+        if (missingIds.length > 0) {
+            return buildJsonResponse({
+                success: false,
+                error: `Nodes not found: ${missingIds.join(', ')}`
+            }, true)
+        }
+        const foundIds: readonly NodeIdAndFilePath[] = resolvedIds.filter((id): id is NodeIdAndFilePath => id !== undefined)
+
+        // 2. Pick the scope
+        const settings: VTSettings = await loadSettings()
+        const scope: GraphExportScope = nodeId !== undefined
+            ? {kind: 'neighborhood', nodeId: foundIds[0], distance: distance ?? settings.contextNodeMaxDistance}
+            : nodeIds !== undefined
+                ? {kind: 'selection', nodeIds: foundIds}
+                : {kind: 'vault'}
+
+        // 3. Export
+        const scopedGraph: Graph = getGraphForExportScope(graph, scope)
+        return buildJsonResponse({
+            success: true,
+            format,
+            scope: scope.kind,
+            nodeCount: Object.keys(scopedGraph.nodes).length,
+            content: exportGraph(scopedGraph, format)
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
@@ -1,12 +1,17 @@
 /**
  * MCP Tool: get_unseen_nodes_nearby
- * Gets nodes near your context that were created after your context was generated.
+ * Gets nodes near your context that were created after your context was generated,
+ * plus the full content of the nodes your context shortened to fit its token budget.
  */
 
 import type {Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
 import {getNodeTitle} from '@/pure/graph/markdown-parsing'
 import {getGraph} from '@/shell/edge/main/state/graph-store'
-import {getUnseenNodesAroundContextNode, type UnseenNode} from '@/shell/edge/main/graph/context-nodes/getUnseenNodesAroundContextNode'
+import {
+    getTruncatedNodesOfContextNode,
+    getUnseenNodesAroundContextNode,
+    type UnseenNode
+} from '@/shell/edge/main/graph/context-nodes/getUnseenNodesAroundContextNode'
 import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
 import {type McpToolResponse, buildJsonResponse} from './types'
 
@@ -43,18 +48,29 @@ export async function getUnseenNodesNearbyTool({
             search_from_node as NodeIdAndFilePath | undefined
         )
 
-        const nodes: Array<{nodeId: string; title: string}> = unseenNodes.map((node: UnseenNode) => {
-            const graphNode: GraphNode | undefined = graph.nodes[node.nodeId]
-            return {
+        const getTitle: (nodeId: NodeIdAndFilePath) => string = (nodeId: NodeIdAndFilePath): string => {
+            const graphNode: GraphNode | undefined = graph.nodes[nodeId]
+            return graphNode ? getNodeTitle(graphNode) : nodeId
+        }
+
+        const nodes: Array<{nodeId: string; title: string}> = unseenNodes.map((node: UnseenNode) => ({
+            nodeId: node.nodeId,
+            title: getTitle(node.nodeId)
+        }))
+
+        // 4. Shortened nodes were seen in part - return their full content to read here
+        const truncatedNodes: Array<{nodeId: string; title: string; content: string}> = getTruncatedNodesOfContextNode(contextNodeId)
+            .map((node: UnseenNode) => ({
                 nodeId: node.nodeId,
-                title: graphNode ? getNodeTitle(graphNode) : node.nodeId
-            }
-        })
+                title: getTitle(node.nodeId),
+                content: node.content
+            }))
 
         return buildJsonResponse({
             success: true,
             contextNodeId,
-            unseenNodes: nodes
+            unseenNodes: nodes,
+            truncatedNodes
         })
     } catch (error) {
         const errorMessage: string = error instanceof Error ? error.message : String(error)
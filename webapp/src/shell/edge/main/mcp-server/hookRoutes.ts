@@ -0,0 +1,207 @@
+/**
+ * Agent hook routes
+ *
+ * HTTP endpoints for agent CLI hooks (tools/*-hook.cjs), served by the MCP express app.
+ * Hooks find the server through $VOICETREE_MCP_PORT and identify the agent by
+ * $VOICETREE_TERMINAL_ID:
+ * - GET  /hook/unseen-nodes/:terminalId  - stop hook: unseen nearby nodes and the agent's progress nodes
+ * - POST /hook/session-start/:terminalId - session-start hook: context to inject into the session
+ * - POST /hook/pre-tool/:terminalId      - pre-tool hook: records written markdown, reports new nearby nodes
+ */
+
+import type {Express, Request, Response} from 'express'
+import type {Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {getNodeTitle} from '@/pure/graph/markdown-parsing'
+import {getFrontmatterString} from '@/pure/graph/frontmatter'
+import {
+    formatNewNearbyNodesContext,
+    formatSessionStartContext,
+    getWrittenMarkdownFile,
+    type HookNodeSummary,
+} from '@/pure/agentHooks'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getUnseenNodesAroundContextNode, type UnseenNode} from '@/shell/edge/main/graph/context-nodes/getUnseenNodesAroundContextNode'
+import {getTerminalRecords, getTerminalSpawnTime, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {recordAgentFileWrite} from '@/shell/edge/main/state/recent-file-writes-store'
+import {getNewNodesForAgent} from './getNewNodesForAgent'
+
+/**
+ * What the hooks have seen of an agent during its terminal's lifetime.
+ */
+interface AgentHookState {
+    // Agent names (= terminal ids) are recycled, so state belongs to one spawn
+    readonly spawnTime: number | undefined
+    // Unseen nodes already reported by the pre-tool hook
+    readonly reportedUnseenNodeIds: Set<NodeIdAndFilePath>
+    // Markdown files the agent wrote through its tools
+    readonly writtenMarkdownFiles: Set<string>
+}
+
+const hookStateByTerminal: Map<string, AgentHookState> = new Map()
+
+function getHookState(terminalId: string): AgentHookState {
+    const spawnTime: number | undefined = getTerminalSpawnTime(terminalId)
+    const existing: AgentHookState | undefined = hookStateByTerminal.get(terminalId)
+    if (existing && existing.spawnTime === spawnTime) {
+        return existing
+    }
+    const created: AgentHookState = {spawnTime, reportedUnseenNodeIds: new Set(), writtenMarkdownFiles: new Set()}
+    hookStateByTerminal.set(terminalId, created)
+    return created
+}
+
+function findTerminalRecord(terminalId: string): TerminalRecord | undefined {
+    return getTerminalRecords().find((record: TerminalRecord) => record.terminalId === terminalId)
+}
+
+function toNodeSummary(graph: Graph, nodeId: string): HookNodeSummary {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    return {id: nodeId, title: node ? getNodeTitle(node) : nodeId}
+}
+
+/**
+ * Unseen nodes around the agent's context, excluding nodes the agent created itself.
+ * Empty if the context node is gone or has no traversal metadata.
+ */
+async function getUnseenNodesForAgent(record: TerminalRecord): Promise<readonly HookNodeSummary[]> {
+    const graph: Graph = getGraph()
+    try {
+        const unseenNodes: readonly UnseenNode[] = await getUnseenNodesAroundContextNode(record.terminalData.attachedToNodeId)
+        return unseenNodes
+            .filter((unseen: UnseenNode) =>
+                getFrontmatterString(graph.nodes[unseen.nodeId]?.nodeUIMetadata.additionalYAMLProps, 'agent_name') !== record.terminalData.agentName
+            )
+            .map((unseen: UnseenNode) => toNodeSummary(graph, unseen.nodeId))
+    } catch (error) {
+        console.error(`[hooks] Failed to get unseen nodes for ${record.terminalId}:`, error)
+        return []
+    }
+}
+
+/**
+ * Nodes the agent created (agent_name frontmatter) or markdown files it wrote.
+ */
+function getProgressNodesForAgent(record: TerminalRecord): readonly HookNodeSummary[] {
+    const graph: Graph = getGraph()
+    const createdNodeIds: readonly string[] = getNewNodesForAgent(graph, record.terminalData.agentName)
+        .map((node: {nodeId: string; title: string}) => node.nodeId)
+    const writtenFiles: readonly string[] = [...getHookState(record.terminalId).writtenMarkdownFiles]
+    return [...new Set([...createdNodeIds, ...writtenFiles])].map((nodeId: string) => toNodeSummary(graph, nodeId))
+}
+
+/**
+ * Stop hook payload. Unknown terminals get empty lists, so the hook lets them stop.
+ */
+export async function getStopHookPayload(terminalId: string): Promise<{
+    readonly unseenNodes: readonly HookNodeSummary[]
+    readonly progressNodes: readonly HookNodeSummary[]
+}> {
+    const record: TerminalRecord | undefined = findTerminalRecord(terminalId)
+    if (!record) {
+        return {unseenNodes: [], progressNodes: []}
+    }
+    return {
+        unseenNodes: await getUnseenNodesForAgent(record),
+        progressNodes: getProgressNodesForAgent(record),
+    }
+}
+
+/**
+ * Session-start hook payload: the agent's task, context node and unseen nearby nodes.
+ */
+export async function getSessionStartHookPayload(terminalId: string): Promise<{readonly additionalContext: string | null}> {
+    const record: TerminalRecord | undefined = findTerminalRecord(terminalId)
+    if (!record) {
+        return {additionalContext: null}
+    }
+    const graph: Graph = getGraph()
+    const taskNodeId: string | undefined = record.terminalData.initialEnvVars?.TASK_NODE_PATH
+    const unseenNodes: readonly HookNodeSummary[] = await getUnseenNodesForAgent(record)
+    // The session knows these now - don't repeat them before the next tool call
+    for (const node of unseenNodes) {
+        getHookState(terminalId).reportedUnseenNodeIds.add(node.id)
+    }
+    return {
+        additionalContext: formatSessionStartContext(
+            record.terminalData.agentName,
+            taskNodeId ? toNodeSummary(graph, taskNodeId) : null,
+            record.terminalData.attachedToNodeId,
+            unseenNodes
+        ),
+    }
+}
+
+/**
+ * Pre-tool hook payload. Records markdown files the tool call writes, and reports
+ * nearby nodes that appeared since they were last reported.
+ */
+export async function handlePreToolHook(
+    terminalId: string,
+    hookInput: {readonly tool_name?: unknown; readonly tool_input?: unknown}
+): Promise<{readonly additionalContext: string | null}> {
+    const record: TerminalRecord | undefined = findTerminalRecord(terminalId)
+    if (!record) {
+        return {additionalContext: null}
+    }
+    const state: AgentHookState = getHookState(terminalId)
+    const writtenFile: string | null = getWrittenMarkdownFile(hookInput.tool_name, hookInput.tool_input)
+    if (writtenFile) {
+        state.writtenMarkdownFiles.add(writtenFile)
+        // The FS event for this write is attributed to this terminal
+        recordAgentFileWrite(writtenFile, {agentName: record.terminalData.agentName, terminalId})
+    }
+
+    const newNodes: readonly HookNodeSummary[] = (await getUnseenNodesForAgent(record))
+        .filter((node: HookNodeSummary) => !state.reportedUnseenNodeIds.has(node.id))
+    for (const node of newNodes) {
+        state.reportedUnseenNodeIds.add(node.id)
+    }
+    return {additionalContext: formatNewNearbyNodesContext(newNodes)}
+}
+
+/**
+ * Reply with the handler's payload, or with the fallback if it fails. The fallback
+ * lets the hook continue (stop, start the session, run the tool) without context,
+ * so a main-process error never blocks the agent.
+ */
+async function replyWithHookPayload<T>(
+    res: Response,
+    hookName: string,
+    terminalId: string,
+    getPayload: () => Promise<T>,
+    fallback: T
+): Promise<void> {
+    try {
+        res.json(await getPayload())
+    } catch (error) {
+        console.error(`[hooks] ${hookName} hook failed for ${terminalId}:`, error)
+        res.json(fallback)
+    }
+}
+
+/**
+ * Register the /hook/* routes on the MCP express app.
+ */
+export function registerHookRoutes(app: Express): void {
+    app.get('/hook/unseen-nodes/:terminalId', async (req: Request<{terminalId: string}>, res: Response) => {
+        const terminalId: string = req.params.terminalId
+        await replyWithHookPayload(res, 'stop', terminalId, () => getStopHookPayload(terminalId), {unseenNodes: [], progressNodes: []})
+    })
+
+    app.post('/hook/session-start/:terminalId', async (req: Request<{terminalId: string}>, res: Response) => {
+        const terminalId: string = req.params.terminalId
+        await replyWithHookPayload(res, 'session-start', terminalId, () => getSessionStartHookPayload(terminalId), {additionalContext: null})
+    })
+
+    app.post('/hook/pre-tool/:terminalId', async (req: Request<{terminalId: string}>, res: Response) => {
+        const terminalId: string = req.params.terminalId
+        const body: unknown = req.body
+        await replyWithHookPayload(
+            res,
+            'pre-tool',
+            terminalId,
+            () => handlePreToolHook(terminalId, typeof body === 'object' && body !== null ? body : {}),
+            {additionalContext: null}
+        )
+    })
+}
@@ -0,0 +1,86 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type {Edge, Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/settings/settings_IO', () => ({
+    loadSettings: vi.fn()
+}))
+
+import {exportGraphTool} from '@/shell/edge/main/mcp-server/exportGraphTool'
+import type {McpToolResponse} from '@/shell/edge/main/mcp-server/types'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {DEFAULT_SETTINGS} from '@/pure/settings/DEFAULT_SETTINGS'
+
+type Payload = {
+    success: boolean
+    error?: string
+    scope?: string
+    nodeCount?: number
+    content?: string
+}
+
+function parsePayload(response: McpToolResponse): Payload {
+    return JSON.parse(response.content[0].text) as Payload
+}
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, edges: readonly Edge[] = []): GraphNode {
+    return {
+        outgoingEdges: edges,
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: `# ${nodeId.replace('/vault/', '').replace('.md', '')}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode: false
+        }
+    }
+}
+
+describe('MCP export_graph tool', () => {
+    // api -> db -> disk
+    const graph: Graph = createGraph({
+        '/vault/api.md': buildGraphNode('/vault/api.md', [{targetId: '/vault/db.md', label: 'depends on'}]),
+        '/vault/db.md': buildGraphNode('/vault/db.md', [{targetId: '/vault/disk.md', label: ''}]),
+        '/vault/disk.md': buildGraphNode('/vault/disk.md')
+    })
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(getGraph).mockReturnValue(graph)
+        vi.mocked(loadSettings).mockResolvedValue(DEFAULT_SETTINGS)
+    })
+
+    it('exports the whole vault by default', async () => {
+        const payload: Payload = parsePayload(await exportGraphTool({format: 'mermaid'}))
+
+        expect(payload).toMatchObject({success: true, scope: 'vault', nodeCount: 3})
+        expect(payload.content).toContain('n0 -->|depends on| n1')
+    })
+
+    it('exports only the given nodes', async () => {
+        const payload: Payload = parsePayload(await exportGraphTool({format: 'dot', nodeIds: ['api', 'db']}))
+
+        expect(payload.scope).toBe('selection')
+        expect(payload.content).toBe('digraph G {\n  "api.md" [label="api"];\n  "db.md" [label="db"];\n  "api.md" -> "db.md" [label="depends on"];\n}\n')
+    })
+
+    it('exports the neighborhood of a node', async () => {
+        const payload: Payload = parsePayload(await exportGraphTool({format: 'json', nodeId: 'api', distance: 2}))
+
+        expect(payload).toMatchObject({scope: 'neighborhood', nodeCount: 2})
+    })
+
+    it('reports unknown nodes', async () => {
+        const response: McpToolResponse = await exportGraphTool({format: 'json', nodeIds: ['api', 'nope']})
+
+        expect(response.isError).toBe(true)
+        expect(parsePayload(response).error).toBe('Nodes not found: nope')
+    })
+})
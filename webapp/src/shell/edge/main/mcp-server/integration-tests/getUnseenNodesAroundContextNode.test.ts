@@ -31,7 +31,6 @@ import { setVaultPath, getVaultPath } from '@/shell/edge/main/graph/watch_folder
 import { addNodeToGraphWithEdgeHealingFromFSEvent } from '@/pure/graph/graphDelta/addNodeToGraphWithEdgeHealingFromFSEvent'
 import { EXAMPLE_SMALL_PATH } from '@/utils/test-utils/fixture-paths'
 import * as O from 'fp-ts/lib/Option.js'
-import * as E from 'fp-ts/lib/Either.js'
 import { promises as fs } from 'fs'
 import path from 'path'
 import type { NodeIdAndFilePath, FSUpdate, Graph, GraphDelta } from '@/pure/graph'
@@ -49,12 +48,7 @@ describe('getUnseenNodesAroundContextNode - Integration Tests', () => {
         setVaultPath(EXAMPLE_SMALL_PATH)
 
         // Load the graph from disk
-        const loadResult: E.Either<
-            import('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce').FileLimitExceededError,
-            Graph
-        > = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
-        if (E.isLeft(loadResult)) throw new Error('Expected Right')
-        const graph: Graph = loadResult.right
+        const graph: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
         setGraph(graph)
 
         // Clear parent node backups
@@ -150,12 +144,8 @@ describe('getUnseenNodesAroundContextNode - Integration Tests', () => {
             createdContextNodeId = contextNodeId
 
             // Reload graph to include the context node
-            const loadResult1: E.Either<
-                import('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce').FileLimitExceededError,
-                Graph
-            > = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
-            if (E.isLeft(loadResult1)) throw new Error('Expected Right')
-            setGraph(loadResult1.right)
+            const loadResult1: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
+            setGraph(loadResult1)
 
             // AND: Add a new node linked to the parent
             const newNodeId: NodeIdAndFilePath = 'test_unseen_node_integration.md'
@@ -166,12 +156,8 @@ describe('getUnseenNodesAroundContextNode - Integration Tests', () => {
             )
 
             // Reload graph to include the new node
-            const loadResult2: E.Either<
-                import('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce').FileLimitExceededError,
-                Graph
-            > = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
-            if (E.isLeft(loadResult2)) throw new Error('Expected Right')
-            setGraph(loadResult2.right)
+            const loadResult2: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
+            setGraph(loadResult2)
 
             // THEN: Call getUnseenNodesAroundContextNode
             const unseenNodes: readonly UnseenNode[] = await getUnseenNodesAroundContextNode(contextNodeId)
@@ -193,12 +179,8 @@ describe('getUnseenNodesAroundContextNode - Integration Tests', () => {
             createdContextNodeId = contextNodeId
 
             // Reload graph to include the context node
-            const loadResult: E.Either<
-                import('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce').FileLimitExceededError,
-                Graph
-            > = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
-            if (E.isLeft(loadResult)) throw new Error('Expected Right')
-            setGraph(loadResult.right)
+            const loadResult: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
+            setGraph(loadResult)
 
             // THEN: Call getUnseenNodesAroundContextNode without adding any new nodes
             const unseenNodes: readonly UnseenNode[] = await getUnseenNodesAroundContextNode(contextNodeId)
@@ -243,12 +225,8 @@ describe('getUnseenNodesAroundContextNode - Integration Tests', () => {
             createdContextNodeId = contextNodeId
 
             // Reload graph
-            const loadResult1: E.Either<
-                import('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce').FileLimitExceededError,
-                Graph
-            > = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
-            if (E.isLeft(loadResult1)) throw new Error('Expected Right')
-            setGraph(loadResult1.right)
+            const loadResult1: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
+            setGraph(loadResult1)
 
             // Add a new node with YAML frontmatter in the markdown
             const newNodeId: NodeIdAndFilePath = 'test_yaml_content_node.md'
@@ -267,12 +245,8 @@ This is the actual content without frontmatter.`
             )
 
             // Reload graph
-            const loadResult2: E.Either<
-                import('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onFSEventIsDbChangePath/fileLimitEnforce').FileLimitExceededError,
-                Graph
-            > = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
-            if (E.isLeft(loadResult2)) throw new Error('Expected Right')
-            setGraph(loadResult2.right)
+            const loadResult2: Graph = await loadGraphFromDisk([EXAMPLE_SMALL_PATH], EXAMPLE_SMALL_PATH)
+            setGraph(loadResult2)
 
             // WHEN: Get unseen nodes
             const unseenNodes: readonly UnseenNode[] = await getUnseenNodesAroundContextNode(contextNodeId)
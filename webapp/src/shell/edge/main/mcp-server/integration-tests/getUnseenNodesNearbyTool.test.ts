@@ -0,0 +1,95 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type {Edge, FrontmatterProps, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+import {DEFAULT_SETTINGS} from '@/pure/settings/DEFAULT_SETTINGS'
+import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types'
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/settings/settings_IO', () => ({
+    loadSettings: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
+    getTerminalRecords: vi.fn()
+}))
+
+import {getUnseenNodesNearbyTool} from '@/shell/edge/main/mcp-server/getUnseenNodesNearbyTool'
+import {getUnseenNodesAroundContextNode, type UnseenNode} from '@/shell/edge/main/graph/context-nodes/getUnseenNodesAroundContextNode'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {getTerminalRecords} from '@/shell/edge/main/terminals/terminal-registry'
+
+function createNode(
+    id: NodeIdAndFilePath,
+    content: string,
+    targetIds: readonly NodeIdAndFilePath[] = [],
+    metadata: {readonly containedNodeIds?: readonly NodeIdAndFilePath[]; readonly additionalYAMLProps?: FrontmatterProps} = {}
+): GraphNode {
+    return {
+        absoluteFilePathIsID: id,
+        outgoingEdges: targetIds.map((targetId: NodeIdAndFilePath): Edge => ({targetId, label: ''})),
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: metadata.additionalYAMLProps ?? {},
+            isContextNode: metadata.containedNodeIds !== undefined,
+            containedNodeIds: metadata.containedNodeIds
+        }
+    }
+}
+
+// The context node saw task.md and seen.md in full and shortened.md as a summary; new.md came later
+function setUpGraph(): void {
+    vi.mocked(getGraph).mockReturnValue(createGraph({
+        'task.md': createNode('task.md', '# Task', ['seen.md', 'shortened.md', 'new.md']),
+        'seen.md': createNode('seen.md', '# Seen\n\nseen in full'),
+        'shortened.md': createNode('shortened.md', '# Shortened\n\nthe full body'),
+        'new.md': createNode('new.md', '# New\n\nadded later'),
+        'ctx.md': createNode('ctx.md', '# ctx', [], {
+            containedNodeIds: ['task.md', 'seen.md', 'shortened.md'],
+            additionalYAMLProps: {truncatedNodeIds: ['shortened.md']}
+        })
+    }))
+}
+
+describe('get_unseen_nodes_nearby', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        setUpGraph()
+        vi.mocked(loadSettings).mockResolvedValue(DEFAULT_SETTINGS)
+        vi.mocked(getTerminalRecords).mockReturnValue([{
+            terminalId: 'Wendy',
+            terminalData: createTerminalData({
+                terminalId: 'Wendy' as TerminalId,
+                agentName: 'Wendy',
+                attachedToNodeId: 'ctx.md',
+                terminalCount: 1,
+                title: 'Task',
+                executeCommand: true
+            }),
+            status: 'running'
+        }])
+    })
+
+    it('should not count shortened nodes as unseen', async () => {
+        const unseenNodes: readonly UnseenNode[] = await getUnseenNodesAroundContextNode('ctx.md')
+
+        expect(unseenNodes.map((node: UnseenNode) => node.nodeId)).toEqual(['new.md'])
+    })
+
+    it('should return shortened nodes in full in their own list', async () => {
+        const response: Awaited<ReturnType<typeof getUnseenNodesNearbyTool>> = await getUnseenNodesNearbyTool({callerTerminalId: 'Wendy'})
+
+        expect(JSON.parse(response.content[0].text)).toEqual({
+            success: true,
+            contextNodeId: 'ctx.md',
+            unseenNodes: [{nodeId: 'new.md', title: 'New'}],
+            truncatedNodes: [{nodeId: 'shortened.md', title: 'Shortened', content: '# Shortened\n\nthe full body'}]
+        })
+    })
+})
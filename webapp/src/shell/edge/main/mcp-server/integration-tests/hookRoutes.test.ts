@@ -0,0 +1,60 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import type {Express, Request, Response} from 'express'
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/graph/context-nodes/getUnseenNodesAroundContextNode', () => ({
+    getUnseenNodesAroundContextNode: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
+    getTerminalRecords: vi.fn(),
+    getTerminalSpawnTime: vi.fn()
+}))
+
+import {registerHookRoutes} from '@/shell/edge/main/mcp-server/hookRoutes'
+import {getTerminalRecords} from '@/shell/edge/main/terminals/terminal-registry'
+
+type RouteHandler = (req: Request<{terminalId: string}>, res: Response) => Promise<void>
+
+function registerRoutes(): Map<string, RouteHandler> {
+    const routes: Map<string, RouteHandler> = new Map()
+    const app: Express = {
+        get: (path: string, handler: RouteHandler) => routes.set(`GET ${path}`, handler),
+        post: (path: string, handler: RouteHandler) => routes.set(`POST ${path}`, handler)
+    } as unknown as Express
+    registerHookRoutes(app)
+    return routes
+}
+
+async function callRoute(route: string, body: unknown = {}): Promise<unknown> {
+    const json: ReturnType<typeof vi.fn> = vi.fn()
+    const handler: RouteHandler | undefined = registerRoutes().get(route)
+    await handler?.({params: {terminalId: 'Wendy'}, body} as unknown as Request<{terminalId: string}>, {json} as unknown as Response)
+    expect(json).toHaveBeenCalledTimes(1)
+    return json.mock.calls[0][0]
+}
+
+describe('agent hook routes', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.spyOn(console, 'error').mockImplementation(() => undefined)
+        vi.mocked(getTerminalRecords).mockImplementation(() => {
+            throw new Error('registry unavailable')
+        })
+    })
+
+    it('should let the agent stop when the stop hook fails', async () => {
+        expect(await callRoute('GET /hook/unseen-nodes/:terminalId')).toEqual({unseenNodes: [], progressNodes: []})
+    })
+
+    it('should start the session without context when the session-start hook fails', async () => {
+        expect(await callRoute('POST /hook/session-start/:terminalId')).toEqual({additionalContext: null})
+    })
+
+    it('should run the tool without context when the pre-tool hook fails', async () => {
+        expect(await callRoute('POST /hook/pre-tool/:terminalId', {tool_name: 'Write'})).toEqual({additionalContext: null})
+    })
+})
@@ -0,0 +1,76 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type {Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+import {listNodesByTagTool} from '@/shell/edge/main/mcp-server/listNodesByTagTool'
+import type {McpToolResponse} from '@/shell/edge/main/mcp-server/types'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+
+type Payload = {
+    success: boolean
+    tag?: string
+    tags?: {tag: string; count: number}[]
+    nodes?: {nodeId: string; title: string; tags: string[]}[]
+}
+
+function parsePayload(response: McpToolResponse): Payload {
+    return JSON.parse(response.content[0].text) as Payload
+}
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, content: string, tags?: readonly string[]): GraphNode {
+    return {
+        outgoingEdges: [],
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: tags ? {tags} : {},
+            isContextNode: false
+        }
+    }
+}
+
+describe('MCP list_nodes_by_tag tool', () => {
+    const graph: Graph = createGraph({
+        '/vault/choice.md': buildGraphNode('/vault/choice.md', '# Use SQLite\n\n#decision', ['spec/storage']),
+        '/vault/crash.md': buildGraphNode('/vault/crash.md', '# Crash on save\n\n#bug'),
+        '/vault/api.md': buildGraphNode('/vault/api.md', '# API spec', ['spec'])
+    })
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(getGraph).mockReturnValue(graph)
+    })
+
+    it('lists every tag with its node count when no tag is given', () => {
+        const payload: Payload = parsePayload(listNodesByTagTool({}))
+
+        expect(payload.tags).toEqual([
+            {tag: 'bug', count: 1},
+            {tag: 'decision', count: 1},
+            {tag: 'spec', count: 1},
+            {tag: 'spec/storage', count: 1}
+        ])
+    })
+
+    it('lists the nodes carrying a tag, including nested tags', () => {
+        const payload: Payload = parsePayload(listNodesByTagTool({tag: '#Spec'}))
+
+        expect(payload.tag).toBe('spec')
+        expect(payload.nodes?.map(node => node.nodeId).sort()).toEqual(['/vault/api.md', '/vault/choice.md'])
+        expect(payload.nodes?.find(node => node.nodeId === '/vault/choice.md')).toMatchObject({
+            title: 'Use SQLite',
+            tags: ['spec/storage', 'decision']
+        })
+    })
+
+    it('returns an empty list for an unknown tag', () => {
+        expect(parsePayload(listNodesByTagTool({tag: 'unknown'})).nodes).toEqual([])
+    })
+})
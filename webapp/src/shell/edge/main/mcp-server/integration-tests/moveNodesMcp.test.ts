@@ -0,0 +1,127 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type {Graph, GraphDelta, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types'
+import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
+
+vi.mock('@/shell/edge/main/graph/watch_folder/watchFolder', () => ({
+    getWritePath: vi.fn(),
+    getVaultPaths: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
+    getTerminalRecords: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange', () => ({
+    applyGraphDeltaToDBThroughMemAndUIAndEditors: vi.fn()
+}))
+
+import {moveNodesTool} from '@/shell/edge/main/mcp-server/moveNodesTool'
+import type {McpToolResponse} from '@/shell/edge/main/mcp-server/types'
+import {getVaultPaths, getWritePath} from '@/shell/edge/main/graph/watch_folder/watchFolder'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getTerminalRecords} from '@/shell/edge/main/terminals/terminal-registry'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+
+type Payload = {
+    success: boolean
+    error?: string
+    moved?: readonly {readonly from: string; readonly to: string}[]
+}
+
+function parsePayload(response: McpToolResponse): Payload {
+    return JSON.parse(response.content[0].text) as Payload
+}
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, content: string, targetIds: readonly NodeIdAndFilePath[] = []): GraphNode {
+    return {
+        outgoingEdges: targetIds.map(targetId => ({targetId, label: ''})),
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.some({x: 0, y: 0}),
+            additionalYAMLProps: {},
+            isContextNode: false
+        }
+    }
+}
+
+function mockCallerTerminal(attachedToNodeId: NodeIdAndFilePath = '/vault/ctx-nodes/caller.md'): void {
+    const callerTerminalData: TerminalData = createTerminalData({
+        terminalId: 'Wendy' as TerminalId,
+        attachedToNodeId,
+        terminalCount: 0,
+        title: 'Caller',
+        executeCommand: true,
+        agentName: 'Wendy'
+    })
+    vi.mocked(getTerminalRecords).mockReturnValue([
+        {terminalId: 'Wendy', terminalData: callerTerminalData, status: 'running'}
+    ])
+}
+
+function lastAppliedDelta(): GraphDelta {
+    const calls: unknown[][] = vi.mocked(applyGraphDeltaToDBThroughMemAndUIAndEditors).mock.calls
+    return calls[calls.length - 1][0] as GraphDelta
+}
+
+describe('MCP move_nodes tool', () => {
+    const graph: Graph = createGraph({
+        '/vault/drafts/idea.md': buildGraphNode('/vault/drafts/idea.md', '# Idea'),
+        '/vault/drafts/plan.md': buildGraphNode('/vault/drafts/plan.md', '# Plan'),
+        '/vault/index.md': buildGraphNode('/vault/index.md', '# Index\n- [drafts/idea]*', ['/vault/drafts/idea.md'])
+    })
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockCallerTerminal()
+        vi.mocked(getGraph).mockReturnValue(graph)
+        vi.mocked(getWritePath).mockResolvedValue(O.some('/vault'))
+        vi.mocked(getVaultPaths).mockResolvedValue(['/vault'])
+    })
+
+    it('moves resolved nodes into a folder relative to the write path', async () => {
+        const response: McpToolResponse = await moveNodesTool({callerTerminalId: 'Wendy', nodeIds: ['idea'], targetFolder: 'archive'})
+
+        expect(parsePayload(response).moved).toEqual([{from: '/vault/drafts/idea.md', to: '/vault/archive/idea.md'}])
+        expect(lastAppliedDelta()).toHaveLength(3)
+    })
+
+    it('moves a whole folder', async () => {
+        const response: McpToolResponse = await moveNodesTool({callerTerminalId: 'Wendy', folder: 'drafts', targetFolder: '/vault/archive'})
+
+        expect(parsePayload(response).moved?.map(move => move.to)).toEqual([
+            '/vault/archive/drafts/idea.md',
+            '/vault/archive/drafts/plan.md'
+        ])
+    })
+
+    it('rejects target folders outside the vault', async () => {
+        const response: McpToolResponse = await moveNodesTool({callerTerminalId: 'Wendy', nodeIds: ['idea'], targetFolder: '/etc'})
+
+        expect(response.isError).toBe(true)
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+    })
+
+    it('requires exactly one of nodeIds and folder', async () => {
+        const response: McpToolResponse = await moveNodesTool({callerTerminalId: 'Wendy', targetFolder: 'archive'})
+
+        expect(parsePayload(response).error).toBe('Pass either nodeIds or folder.')
+    })
+
+    it('refuses to move a node attached to a terminal', async () => {
+        mockCallerTerminal('/vault/drafts/plan.md')
+
+        const response: McpToolResponse = await moveNodesTool({callerTerminalId: 'Wendy', folder: 'drafts', targetFolder: 'archive'})
+
+        expect(response.isError).toBe(true)
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,208 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type {Graph, GraphDelta, GraphNode, NodeIdAndFilePath, UpsertNodeDelta} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types'
+import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
+
+vi.mock('@/shell/edge/main/graph/watch_folder/watchFolder', () => ({
+    getWritePath: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
+    getTerminalRecords: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange', () => ({
+    applyGraphDeltaToDBThroughMemAndUIAndEditors: vi.fn()
+}))
+
+import {createNodeTool} from '@/shell/edge/main/mcp-server/createNodeTool'
+import {updateNodeTool} from '@/shell/edge/main/mcp-server/updateNodeTool'
+import {appendToNodeTool} from '@/shell/edge/main/mcp-server/appendToNodeTool'
+import {addEdgeTool} from '@/shell/edge/main/mcp-server/addEdgeTool'
+import {deleteNodeTool} from '@/shell/edge/main/mcp-server/deleteNodeTool'
+import {splitNodeTool} from '@/shell/edge/main/mcp-server/splitNodeTool'
+import type {McpToolResponse} from '@/shell/edge/main/mcp-server/types'
+import {getWritePath} from '@/shell/edge/main/graph/watch_folder/watchFolder'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getTerminalRecords} from '@/shell/edge/main/terminals/terminal-registry'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+
+type Payload = {success: boolean; nodeId?: string; error?: string; message?: string}
+
+function parsePayload(response: McpToolResponse): Payload {
+    return JSON.parse(response.content[0].text) as Payload
+}
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, content: string): GraphNode {
+    return {
+        outgoingEdges: [],
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: content,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.some({x: 0, y: 0}),
+            additionalYAMLProps: {},
+            isContextNode: false
+        }
+    }
+}
+
+function mockCallerTerminal(attachedToNodeId: NodeIdAndFilePath = '/vault/ctx-nodes/caller.md'): void {
+    const callerTerminalData: TerminalData = createTerminalData({
+        terminalId: 'Wendy' as TerminalId,
+        attachedToNodeId,
+        terminalCount: 0,
+        title: 'Caller',
+        executeCommand: true,
+        agentName: 'Wendy'
+    })
+    vi.mocked(getTerminalRecords).mockReturnValue([
+        {terminalId: 'Wendy', terminalData: callerTerminalData, status: 'running'}
+    ])
+}
+
+function lastAppliedDelta(): GraphDelta {
+    const calls: unknown[][] = vi.mocked(applyGraphDeltaToDBThroughMemAndUIAndEditors).mock.calls
+    return calls[calls.length - 1][0] as GraphDelta
+}
+
+describe('MCP node editing tools', () => {
+    const graph: Graph = createGraph({
+        '/vault/task.md': buildGraphNode('/vault/task.md', '# Task'),
+        '/vault/other.md': buildGraphNode('/vault/other.md', '# Other'),
+        '/vault/notes.md': buildGraphNode('/vault/notes.md', '# Notes\n## Plan\nplan\n## Risks\nrisks')
+    })
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        mockCallerTerminal()
+        vi.mocked(getGraph).mockReturnValue(graph)
+        vi.mocked(getWritePath).mockResolvedValue(O.some('/vault'))
+    })
+
+    describe('create_node', () => {
+        it('creates a node under the parent stamped with the caller agent name', async () => {
+            const response: McpToolResponse = await createNodeTool({
+                callerTerminalId: 'Wendy',
+                title: 'Progress Update',
+                content: 'Did the thing',
+                parentNodeId: 'task'
+            })
+
+            const payload: Payload = parsePayload(response)
+            expect(payload.success).toBe(true)
+            expect(payload.nodeId).toBe('/vault/progress_update.md')
+
+            const created: GraphNode = (lastAppliedDelta()[0] as UpsertNodeDelta).nodeToUpsert
+            expect(created.nodeUIMetadata.additionalYAMLProps.agent_name).toBe('Wendy')
+            expect(created.outgoingEdges.map(e => e.targetId)).toEqual(['/vault/task.md'])
+        })
+
+        it('returns an error for an unknown caller', async () => {
+            const response: McpToolResponse = await createNodeTool({callerTerminalId: 'Nobody', title: 'X'})
+
+            expect(response.isError).toBe(true)
+            expect(parsePayload(response).error).toContain('Unknown caller terminal')
+            expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+        })
+
+        it('returns an error when the parent does not exist', async () => {
+            const response: McpToolResponse = await createNodeTool({callerTerminalId: 'Wendy', title: 'X', parentNodeId: 'missing'})
+
+            expect(response.isError).toBe(true)
+            expect(parsePayload(response).error).toContain('not found')
+        })
+
+        it('returns an error when no vault is loaded', async () => {
+            vi.mocked(getWritePath).mockResolvedValue(O.none)
+
+            const response: McpToolResponse = await createNodeTool({callerTerminalId: 'Wendy', title: 'X'})
+
+            expect(response.isError).toBe(true)
+            expect(parsePayload(response).error).toContain('No vault loaded')
+        })
+    })
+
+    describe('update_node', () => {
+        it('replaces content and returns the resolved node ID', async () => {
+            const response: McpToolResponse = await updateNodeTool({callerTerminalId: 'Wendy', nodeId: 'task.md', content: '# Task v2'})
+
+            expect(parsePayload(response).nodeId).toBe('/vault/task.md')
+            const updated: GraphNode = (lastAppliedDelta()[0] as UpsertNodeDelta).nodeToUpsert
+            expect(updated.contentWithoutYamlOrLinks).toContain('# Task v2')
+        })
+
+        it('returns an error for a missing node', async () => {
+            const response: McpToolResponse = await updateNodeTool({callerTerminalId: 'Wendy', nodeId: 'missing', content: 'x'})
+
+            expect(response.isError).toBe(true)
+        })
+    })
+
+    describe('append_to_node', () => {
+        it('appends content to the node', async () => {
+            await appendToNodeTool({callerTerminalId: 'Wendy', nodeId: '/vault/task.md', content: 'More detail'})
+
+            const updated: GraphNode = (lastAppliedDelta()[0] as UpsertNodeDelta).nodeToUpsert
+            expect(updated.contentWithoutYamlOrLinks).toContain('# Task')
+            expect(updated.contentWithoutYamlOrLinks).toContain('More detail')
+        })
+    })
+
+    describe('add_edge', () => {
+        it('adds a labeled edge between resolved nodes', async () => {
+            const response: McpToolResponse = await addEdgeTool({
+                callerTerminalId: 'Wendy',
+                sourceNodeId: 'task',
+                targetNodeId: 'other',
+                label: 'depends on'
+            })
+
+            expect(parsePayload(response).success).toBe(true)
+            const updated: GraphNode = (lastAppliedDelta()[0] as UpsertNodeDelta).nodeToUpsert
+            expect(updated.outgoingEdges).toEqual([{targetId: '/vault/other.md', label: 'depends on'}])
+        })
+    })
+
+    describe('delete_node', () => {
+        it('deletes the resolved node', async () => {
+            const response: McpToolResponse = await deleteNodeTool({callerTerminalId: 'Wendy', nodeId: 'other'})
+
+            expect(parsePayload(response).nodeId).toBe('/vault/other.md')
+            expect(lastAppliedDelta()[0]).toMatchObject({type: 'DeleteNode', nodeId: '/vault/other.md'})
+        })
+
+        it('refuses to delete a node attached to a terminal', async () => {
+            mockCallerTerminal('/vault/other.md')
+
+            const response: McpToolResponse = await deleteNodeTool({callerTerminalId: 'Wendy', nodeId: 'other'})
+
+            expect(response.isError).toBe(true)
+            expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('split_node', () => {
+        it('splits the resolved node into one child per section', async () => {
+            const response: McpToolResponse = await splitNodeTool({callerTerminalId: 'Wendy', nodeId: 'notes'})
+
+            const payload: Payload & {childNodeIds?: readonly string[]} = parsePayload(response)
+            expect(payload.success).toBe(true)
+            expect(payload.childNodeIds).toEqual(['/vault/plan.md', '/vault/risks.md'])
+            expect(lastAppliedDelta()).toHaveLength(3)
+        })
+
+        it('returns an error when the node has no headings of the level', async () => {
+            const response: McpToolResponse = await splitNodeTool({callerTerminalId: 'Wendy', nodeId: 'task'})
+
+            expect(response.isError).toBe(true)
+            expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+        })
+    })
+})
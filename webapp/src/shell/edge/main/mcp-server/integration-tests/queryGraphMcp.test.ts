@@ -0,0 +1,117 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type {Edge, Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/settings/settings_IO', () => ({
+    loadSettings: vi.fn()
+}))
+
+import {queryGraphTool} from '@/shell/edge/main/mcp-server/queryGraphTool'
+import type {McpToolResponse} from '@/shell/edge/main/mcp-server/types'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {DEFAULT_SETTINGS} from '@/pure/settings/DEFAULT_SETTINGS'
+
+type Payload = {
+    success: boolean
+    error?: string
+    ascii?: string
+    length?: number
+    parents?: {nodeId: string; label: string}[]
+    children?: {nodeId: string; label: string}[]
+    path?: {nodeId: string; direction?: string; label?: string}[]
+    nodes?: {nodeId: string}[]
+}
+
+function parsePayload(response: McpToolResponse): Payload {
+    return JSON.parse(response.content[0].text) as Payload
+}
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, edges: readonly Edge[] = []): GraphNode {
+    return {
+        outgoingEdges: edges,
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: `# ${nodeId.replace('/vault/', '').replace('.md', '')}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode: false
+        }
+    }
+}
+
+describe('MCP query_graph tool', () => {
+    // root -> task -(implements)-> impl, other -> impl, lonely
+    const graph: Graph = createGraph({
+        '/vault/root.md': buildGraphNode('/vault/root.md', [{targetId: '/vault/task.md', label: ''}]),
+        '/vault/task.md': buildGraphNode('/vault/task.md', [{targetId: '/vault/impl.md', label: 'implements'}]),
+        '/vault/impl.md': buildGraphNode('/vault/impl.md'),
+        '/vault/other.md': buildGraphNode('/vault/other.md', [{targetId: '/vault/impl.md', label: ''}]),
+        '/vault/lonely.md': buildGraphNode('/vault/lonely.md')
+    })
+
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(getGraph).mockReturnValue(graph)
+        vi.mocked(loadSettings).mockResolvedValue(DEFAULT_SETTINGS)
+    })
+
+    it('lists parents and children with edge labels', async () => {
+        const payload: Payload = parsePayload(await queryGraphTool({query: 'neighbors', nodeId: 'task'}))
+
+        expect(payload.parents).toMatchObject([{nodeId: '/vault/root.md', label: ''}])
+        expect(payload.children).toMatchObject([{nodeId: '/vault/impl.md', label: 'implements'}])
+    })
+
+    it('renders neighbors as ASCII', async () => {
+        const payload: Payload = parsePayload(await queryGraphTool({query: 'neighbors', nodeId: 'task', format: 'ascii'}))
+
+        expect(payload.ascii).toContain('root')
+        expect(payload.ascii).toContain('impl')
+    })
+
+    it('returns the shortest path with the direction of each hop', async () => {
+        const payload: Payload = parsePayload(await queryGraphTool({query: 'path', nodeId: 'task', targetNodeId: 'other'}))
+
+        expect(payload.length).toBe(2)
+        expect(payload.path).toEqual([
+            {nodeId: '/vault/task.md', title: 'task'},
+            {nodeId: '/vault/impl.md', title: 'impl', direction: 'outgoing', label: 'implements'},
+            {nodeId: '/vault/other.md', title: 'other', direction: 'incoming', label: ''}
+        ])
+    })
+
+    it('returns an error when no path exists', async () => {
+        const response: McpToolResponse = await queryGraphTool({query: 'path', nodeId: 'task', targetNodeId: 'lonely'})
+
+        expect(response.isError).toBe(true)
+        expect(parsePayload(response).error).toContain('No path')
+    })
+
+    it('requires a target for path queries', async () => {
+        const response: McpToolResponse = await queryGraphTool({query: 'path', nodeId: 'task'})
+
+        expect(response.isError).toBe(true)
+    })
+
+    it('returns the subgraph within the given distance', async () => {
+        const payload: Payload = parsePayload(await queryGraphTool({query: 'subgraph', nodeId: 'task', distance: 2}))
+
+        const nodeIds: string[] = (payload.nodes ?? []).map(n => n.nodeId)
+        expect(nodeIds).toEqual(expect.arrayContaining(['/vault/task.md', '/vault/root.md', '/vault/impl.md']))
+        expect(nodeIds).not.toContain('/vault/lonely.md')
+    })
+
+    it('returns an error for an unknown node', async () => {
+        const response: McpToolResponse = await queryGraphTool({query: 'neighbors', nodeId: 'missing'})
+
+        expect(response.isError).toBe(true)
+        expect(parsePayload(response).error).toContain('not found')
+    })
+})
@@ -0,0 +1,173 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type {Edge, Graph, GraphDelta, GraphNode, NodeIdAndFilePath, UpsertNodeDelta} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types'
+import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
+
+vi.mock('electron', () => ({
+    app: {
+        getPath: vi.fn(() => '/tmp/test-userdata-nonexistent-' + Date.now())
+    }
+}))
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/settings/settings_IO', () => ({
+    loadSettings: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
+    getTerminalRecords: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/send-text-to-terminal', () => ({
+    sendTextToTerminal: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange', () => ({
+    applyGraphDeltaToDBThroughMemAndUIAndEditors: vi.fn()
+}))
+
+// No semantic search backend: context is distance-only
+vi.mock('@/shell/edge/main/backend-api', () => ({
+    askQuery: vi.fn().mockRejectedValue(new Error('offline'))
+}))
+
+vi.mock('@/shell/edge/main/local-search', () => ({
+    searchNodesLocally: vi.fn().mockResolvedValue({relevant_nodes: []})
+}))
+
+import {refreshContextNodeTool} from '@/shell/edge/main/mcp-server/refreshContextNodeTool'
+import type {McpToolResponse} from '@/shell/edge/main/mcp-server/types'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {getTerminalRecords} from '@/shell/edge/main/terminals/terminal-registry'
+import {sendTextToTerminal} from '@/shell/edge/main/terminals/send-text-to-terminal'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {DEFAULT_SETTINGS} from '@/pure/settings/DEFAULT_SETTINGS'
+
+type Payload = {
+    success: boolean
+    error?: string
+    contextNodeId?: string
+    added?: {nodeId: string; title: string}[]
+    removed?: {nodeId: string; title: string}[]
+    notifiedTerminalIds?: string[]
+}
+
+function parsePayload(response: McpToolResponse): Payload {
+    return JSON.parse(response.content[0].text) as Payload
+}
+
+const CONTEXT_NODE_ID: NodeIdAndFilePath = '/vault/ctx-nodes/task_context_1.md'
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, title: string, edges: readonly Edge[] = []): GraphNode {
+    return {
+        outgoingEdges: edges,
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: `# ${title}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {},
+            isContextNode: false
+        }
+    }
+}
+
+// The context node was made when task had one child (/vault/old.md, since deleted); now it has /vault/child.md
+function buildGraph(): Graph {
+    const contextNode: GraphNode = {
+        ...buildGraphNode(CONTEXT_NODE_ID, 'ctx'),
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.some({x: 40, y: 80}),
+            additionalYAMLProps: {},
+            isContextNode: true,
+            containedNodeIds: ['/vault/task.md', '/vault/old.md']
+        }
+    }
+    return createGraph({
+        '/vault/task.md': buildGraphNode('/vault/task.md', 'Task', [{targetId: '/vault/child.md', label: ''}]),
+        '/vault/child.md': buildGraphNode('/vault/child.md', 'Child'),
+        [CONTEXT_NODE_ID]: contextNode
+    })
+}
+
+function mockTerminals(): void {
+    const terminalData: TerminalData = createTerminalData({
+        terminalId: 'Wendy' as TerminalId,
+        attachedToNodeId: CONTEXT_NODE_ID,
+        terminalCount: 0,
+        title: 'Task',
+        executeCommand: true,
+        agentName: 'Wendy'
+    })
+    vi.mocked(getTerminalRecords).mockReturnValue([
+        {terminalId: 'Wendy', terminalData, status: 'running'}
+    ])
+}
+
+function lastAppliedDelta(): GraphDelta {
+    const calls: unknown[][] = vi.mocked(applyGraphDeltaToDBThroughMemAndUIAndEditors).mock.calls
+    return calls[calls.length - 1][0] as GraphDelta
+}
+
+describe('MCP refresh_context_node tool', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(getGraph).mockReturnValue(buildGraph())
+        vi.mocked(loadSettings).mockResolvedValue(DEFAULT_SETTINGS)
+        vi.mocked(sendTextToTerminal).mockResolvedValue({success: true})
+        mockTerminals()
+    })
+
+    it('should update the caller\'s context node in place with the added and removed nodes', async () => {
+        const response: McpToolResponse = await refreshContextNodeTool({callerTerminalId: 'Wendy'})
+        const payload: Payload = parsePayload(response)
+
+        expect(payload).toMatchObject({
+            success: true,
+            contextNodeId: CONTEXT_NODE_ID,
+            added: [{nodeId: '/vault/child.md', title: 'Child'}],
+            removed: [{nodeId: '/vault/old.md', title: '/vault/old.md'}],
+            notifiedTerminalIds: []
+        })
+
+        const delta: GraphDelta = lastAppliedDelta()
+        expect(delta).toHaveLength(1)
+        const upsert: UpsertNodeDelta = delta[0] as UpsertNodeDelta
+        expect(upsert.nodeToUpsert.absoluteFilePathIsID).toBe(CONTEXT_NODE_ID)
+        expect(O.isSome(upsert.previousNode)).toBe(true)
+        expect(upsert.nodeToUpsert.nodeUIMetadata.containedNodeIds).toEqual(['/vault/task.md', '/vault/child.md'])
+        expect(upsert.nodeToUpsert.nodeUIMetadata.position).toEqual(O.some({x: 40, y: 80}))
+        expect(upsert.nodeToUpsert.contentWithoutYamlOrLinks).toContain('+ Child (/vault/child.md)')
+        expect(upsert.nodeToUpsert.contentWithoutYamlOrLinks).toContain('- /vault/old.md')
+        expect(sendTextToTerminal).not.toHaveBeenCalled()
+    })
+
+    it('should send a summary to attached terminals when asked', async () => {
+        const response: McpToolResponse = await refreshContextNodeTool({callerTerminalId: 'Wendy', notifyTerminals: true})
+
+        expect(parsePayload(response).notifiedTerminalIds).toEqual(['Wendy'])
+        expect(sendTextToTerminal).toHaveBeenCalledWith('Wendy', expect.stringContaining('Your context node was refreshed'))
+    })
+
+    it('should reject nodes that are not context nodes', async () => {
+        const response: McpToolResponse = await refreshContextNodeTool({callerTerminalId: 'Wendy', contextNodeId: '/vault/task.md'})
+
+        expect(response.isError).toBe(true)
+        expect(parsePayload(response).error).toContain('not found')
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+    })
+
+    it('should reject unknown caller terminals', async () => {
+        const response: McpToolResponse = await refreshContextNodeTool({callerTerminalId: 'Nobody'})
+
+        expect(response.isError).toBe(true)
+        expect(parsePayload(response).error).toContain('Unknown caller terminal')
+    })
+})
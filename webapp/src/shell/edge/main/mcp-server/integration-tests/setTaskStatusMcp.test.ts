@@ -0,0 +1,187 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import type {FrontmatterProps, Graph, GraphDelta, GraphNode, NodeIdAndFilePath, UpsertNodeDelta} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types'
+import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
+
+vi.mock('electron', () => ({
+    app: {
+        getPath: vi.fn(() => '/tmp/test-userdata-nonexistent-' + Date.now())
+    }
+}))
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
+    getTerminalRecords: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange', () => ({
+    applyGraphDeltaToDBThroughMemAndUIAndEditors: vi.fn()
+}))
+
+import {setTaskStatusTool} from '@/shell/edge/main/mcp-server/setTaskStatusTool'
+import type {McpToolResponse} from '@/shell/edge/main/mcp-server/types'
+import {syncTaskStatusWithTerminal, TASK_STATUS_SETTLE_MS} from '@/shell/edge/main/terminals/sync-task-status'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getTerminalRecords} from '@/shell/edge/main/terminals/terminal-registry'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+
+type Payload = {
+    success: boolean
+    error?: string
+    nodeId?: string
+    title?: string
+    previousStatus?: string | null
+    status?: string
+}
+
+function parsePayload(response: McpToolResponse): Payload {
+    return JSON.parse(response.content[0].text) as Payload
+}
+
+const TASK_NODE_ID: NodeIdAndFilePath = '/vault/task_1.md'
+const CONTEXT_NODE_ID: NodeIdAndFilePath = '/vault/ctx-nodes/task_1_context_1.md'
+
+function buildGraphNode(nodeId: NodeIdAndFilePath, title: string, additionalYAMLProps: FrontmatterProps = {}): GraphNode {
+    return {
+        outgoingEdges: [],
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: `# ${title}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps,
+            isContextNode: false
+        }
+    }
+}
+
+function buildGraph(): Graph {
+    const contextNode: GraphNode = buildGraphNode(CONTEXT_NODE_ID, 'ctx')
+    return createGraph({
+        [TASK_NODE_ID]: buildGraphNode(TASK_NODE_ID, 'Fix the login bug', {status: 'in-progress'}),
+        '/vault/other.md': buildGraphNode('/vault/other.md', 'Other task', {status: 'todo'}),
+        [CONTEXT_NODE_ID]: {
+            ...contextNode,
+            nodeUIMetadata: {...contextNode.nodeUIMetadata, isContextNode: true, containedNodeIds: [TASK_NODE_ID]}
+        }
+    })
+}
+
+// A terminal attached to the context node; restored terminals may not be anchored to the task node
+function buildTerminalData(anchoredToNodeId?: NodeIdAndFilePath): TerminalData {
+    return createTerminalData({
+        terminalId: 'Wendy' as TerminalId,
+        attachedToNodeId: CONTEXT_NODE_ID,
+        anchoredToNodeId,
+        terminalCount: 0,
+        title: 'Fix the login bug',
+        executeCommand: true,
+        agentName: 'Wendy'
+    })
+}
+
+function lastAppliedDelta(): GraphDelta {
+    const calls: unknown[][] = vi.mocked(applyGraphDeltaToDBThroughMemAndUIAndEditors).mock.calls
+    return calls[calls.length - 1][0] as GraphDelta
+}
+
+describe('MCP set_task_status tool', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.mocked(getGraph).mockReturnValue(buildGraph())
+        vi.mocked(getTerminalRecords).mockReturnValue([
+            {terminalId: 'Wendy', terminalData: buildTerminalData(), status: 'running'}
+        ])
+    })
+
+    it('should set the status of the caller\'s task node, found through its context node', async () => {
+        const payload: Payload = parsePayload(await setTaskStatusTool({callerTerminalId: 'Wendy', status: 'blocked'}))
+
+        expect(payload).toEqual({
+            success: true,
+            nodeId: TASK_NODE_ID,
+            title: 'Fix the login bug',
+            previousStatus: 'in-progress',
+            status: 'blocked'
+        })
+        const upsert: UpsertNodeDelta = lastAppliedDelta()[0] as UpsertNodeDelta
+        expect(upsert.nodeToUpsert.nodeUIMetadata.additionalYAMLProps).toEqual({status: 'blocked'})
+        expect(vi.mocked(applyGraphDeltaToDBThroughMemAndUIAndEditors).mock.calls[0][1]).toBe(true)
+    })
+
+    it('should set the status of another node by short name', async () => {
+        const payload: Payload = parsePayload(await setTaskStatusTool({callerTerminalId: 'Wendy', status: 'done', nodeId: 'other.md'}))
+
+        expect(payload).toMatchObject({success: true, nodeId: '/vault/other.md', previousStatus: 'todo', status: 'done'})
+    })
+
+    it('should not write anything when the status is unchanged', async () => {
+        const payload: Payload = parsePayload(await setTaskStatusTool({callerTerminalId: 'Wendy', status: 'in-progress'}))
+
+        expect(payload.success).toBe(true)
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+    })
+
+    it('should reject unknown callers and context nodes', async () => {
+        const unknown: Payload = parsePayload(await setTaskStatusTool({callerTerminalId: 'Nobody', status: 'done'}))
+        const contextNode: Payload = parsePayload(await setTaskStatusTool({callerTerminalId: 'Wendy', status: 'done', nodeId: CONTEXT_NODE_ID}))
+
+        expect(unknown).toMatchObject({success: false, error: 'Unknown caller terminal: Nobody'})
+        expect(contextNode.success).toBe(false)
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+    })
+})
+
+describe('syncTaskStatusWithTerminal', () => {
+    beforeEach(() => {
+        vi.useFakeTimers()
+        vi.clearAllMocks()
+        vi.mocked(getGraph).mockReturnValue(buildGraph())
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should move the anchored task node to review once its agent stays idle, as the agent and without recording undo', async () => {
+        await syncTaskStatusWithTerminal(buildTerminalData(TASK_NODE_ID), 'idle')
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+
+        await vi.advanceTimersByTimeAsync(TASK_STATUS_SETTLE_MS)
+
+        const upsert: UpsertNodeDelta = lastAppliedDelta()[0] as UpsertNodeDelta
+        expect(upsert.nodeToUpsert.absoluteFilePathIsID).toBe(TASK_NODE_ID)
+        expect(upsert.nodeToUpsert.nodeUIMetadata.additionalYAMLProps).toEqual({status: 'review'})
+        expect(vi.mocked(applyGraphDeltaToDBThroughMemAndUIAndEditors).mock.calls[0].slice(1)).toEqual([
+            false,
+            {type: 'agent', agentName: 'Wendy', terminalId: 'Wendy'}
+        ])
+    })
+
+    it('should not write a status that only flipped briefly', async () => {
+        await syncTaskStatusWithTerminal(buildTerminalData(TASK_NODE_ID), 'idle')
+        await vi.advanceTimersByTimeAsync(TASK_STATUS_SETTLE_MS / 2)
+        await syncTaskStatusWithTerminal(buildTerminalData(TASK_NODE_ID), 'active')
+
+        await vi.advanceTimersByTimeAsync(TASK_STATUS_SETTLE_MS)
+
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+    })
+
+    it('should move the task to review right away when its agent exits', async () => {
+        await syncTaskStatusWithTerminal(buildTerminalData(TASK_NODE_ID), 'exited')
+
+        expect((lastAppliedDelta()[0] as UpsertNodeDelta).nodeToUpsert.nodeUIMetadata.additionalYAMLProps).toEqual({status: 'review'})
+    })
+
+    it('should leave the task alone when the event does not change its status', async () => {
+        await syncTaskStatusWithTerminal(buildTerminalData(TASK_NODE_ID), 'spawned')
+
+        expect(applyGraphDeltaToDBThroughMemAndUIAndEditors).not.toHaveBeenCalled()
+    })
+})
@@ -21,7 +21,12 @@ vi.mock('@/shell/edge/main/graph/context-nodes/getUnseenNodesAroundContextNode',
 }))
 
 vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
-    getTerminalRecords: vi.fn()
+    getTerminalRecords: vi.fn(),
+    getTerminalSpawnDepth: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/settings/settings_IO', () => ({
+    loadSettings: vi.fn()
 }))
 
 import {spawnAgentTool, listAgentsTool} from '@/shell/edge/main/mcp-server/mcp-server'
@@ -29,7 +34,10 @@ import {getWritePath} from '@/shell/edge/main/graph/watch_folder/watchFolder'
 import {getGraph} from '@/shell/edge/main/state/graph-store'
 import {spawnTerminalWithContextNode} from '@/shell/edge/main/terminals/spawnTerminalWithContextNode'
 import {getUnseenNodesAroundContextNode} from '@/shell/edge/main/graph/context-nodes/getUnseenNodesAroundContextNode'
-import {getTerminalRecords} from '@/shell/edge/main/terminals/terminal-registry'
+import {getTerminalRecords, getTerminalSpawnDepth} from '@/shell/edge/main/terminals/terminal-registry'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {resetSpawnQueue} from '@/shell/edge/main/terminals/spawn-queue'
+import {DEFAULT_SETTINGS} from '@/pure/settings/DEFAULT_SETTINGS'
 import type {TerminalData} from "@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType";
 
 type McpToolResponse = {
@@ -49,7 +57,7 @@ function buildGraphNode(nodeId: NodeIdAndFilePath, content: string, agentName?:
         nodeUIMetadata: {
             color: O.none,
             position: O.none,
-            additionalYAMLProps: agentName ? new Map([['agent_name', agentName]]) : new Map(),
+            additionalYAMLProps: agentName ? { agent_name: agentName } : {},
             isContextNode: false
         }
     }
@@ -70,6 +78,9 @@ function mockCallerTerminal(): void {
 describe('MCP spawn_agent tool', () => {
     beforeEach(() => {
         vi.clearAllMocks()
+        resetSpawnQueue()
+        vi.mocked(loadSettings).mockResolvedValue(DEFAULT_SETTINGS)
+        vi.mocked(getTerminalSpawnDepth).mockReturnValue(0)
     })
 
     it('spawns an agent on an existing node', async () => {
@@ -81,7 +92,9 @@ describe('MCP spawn_agent tool', () => {
             },
             incomingEdgesIndex: new Map(),
             nodeByBaseName: new Map(),
-            unresolvedLinksIndex: new Map()
+            nodeByAlias: new Map(),
+            unresolvedLinksIndex: new Map(),
+            tagIndex: new Map()
         })
 
         vi.mocked(spawnTerminalWithContextNode).mockResolvedValue({
@@ -118,7 +131,9 @@ describe('MCP spawn_agent tool', () => {
             nodes: {},
             incomingEdgesIndex: new Map(),
             nodeByBaseName: new Map(),
-            unresolvedLinksIndex: new Map()
+            nodeByAlias: new Map(),
+            unresolvedLinksIndex: new Map(),
+            tagIndex: new Map()
         })
 
         const response: McpToolResponse = await spawnAgentTool({nodeId: 'missing-node.md', callerTerminalId: 'caller-terminal-99'})
@@ -141,7 +156,9 @@ describe('MCP spawn_agent tool', () => {
             },
             incomingEdgesIndex: new Map(),
             nodeByBaseName: new Map([['fix-test', [fullPath]]]),
-            unresolvedLinksIndex: new Map()
+            nodeByAlias: new Map(),
+            unresolvedLinksIndex: new Map(),
+            tagIndex: new Map()
         })
 
         vi.mocked(spawnTerminalWithContextNode).mockResolvedValue({
@@ -188,7 +205,9 @@ describe('MCP spawn_agent tool', () => {
             },
             incomingEdgesIndex: new Map(),
             nodeByBaseName: new Map(),
-            unresolvedLinksIndex: new Map()
+            nodeByAlias: new Map(),
+            unresolvedLinksIndex: new Map(),
+            tagIndex: new Map()
         })
 
         vi.mocked(spawnTerminalWithContextNode).mockResolvedValue({
@@ -203,6 +222,54 @@ describe('MCP spawn_agent tool', () => {
         expect(payload.terminalId).toBe('node-1-terminal-0')
         expect(spawnTerminalWithContextNode).toHaveBeenCalledTimes(1)
     })
+
+    it('queues the spawn when the agent limit is reached', async () => {
+        mockCallerTerminal()
+        vi.mocked(loadSettings).mockResolvedValue({...DEFAULT_SETTINGS, maxRunningAgents: 1})
+        vi.mocked(getWritePath).mockResolvedValue(O.some('/vault'))
+        vi.mocked(getGraph).mockReturnValue({
+            nodes: {
+                'node-1.md': buildGraphNode('node-1.md', '# Node One')
+            },
+            incomingEdgesIndex: new Map(),
+            nodeByBaseName: new Map(),
+            nodeByAlias: new Map(),
+            unresolvedLinksIndex: new Map(),
+            tagIndex: new Map()
+        })
+
+        const response: McpToolResponse = await spawnAgentTool({nodeId: 'node-1.md', callerTerminalId: 'caller-terminal-99'})
+        const payload: {success: boolean; queued: boolean; queuePosition: number} =
+            parsePayload(response) as {success: boolean; queued: boolean; queuePosition: number}
+
+        expect(payload.success).toBe(true)
+        expect(payload.queued).toBe(true)
+        expect(payload.queuePosition).toBe(1)
+        expect(spawnTerminalWithContextNode).not.toHaveBeenCalled()
+    })
+
+    it('returns an error when the caller is at the maximum spawn depth', async () => {
+        mockCallerTerminal()
+        vi.mocked(getTerminalSpawnDepth).mockReturnValue(3)
+        vi.mocked(getWritePath).mockResolvedValue(O.some('/vault'))
+        vi.mocked(getGraph).mockReturnValue({
+            nodes: {
+                'node-1.md': buildGraphNode('node-1.md', '# Node One')
+            },
+            incomingEdgesIndex: new Map(),
+            nodeByBaseName: new Map(),
+            nodeByAlias: new Map(),
+            unresolvedLinksIndex: new Map(),
+            tagIndex: new Map()
+        })
+
+        const response: McpToolResponse = await spawnAgentTool({nodeId: 'node-1.md', callerTerminalId: 'caller-terminal-99'})
+        const payload: {success: boolean; error: string} = parsePayload(response) as {success: boolean; error: string}
+
+        expect(response.isError).toBe(true)
+        expect(payload.error).toContain('Maximum agent spawn depth')
+        expect(spawnTerminalWithContextNode).not.toHaveBeenCalled()
+    })
 })
 
 describe('MCP list_agents tool', () => {
@@ -249,7 +316,9 @@ describe('MCP list_agents tool', () => {
             },
             incomingEdgesIndex: new Map(),
             nodeByBaseName: new Map(),
-            unresolvedLinksIndex: new Map()
+            nodeByAlias: new Map(),
+            unresolvedLinksIndex: new Map(),
+            tagIndex: new Map()
         })
 
         const response: McpToolResponse = await listAgentsTool()
@@ -301,7 +370,7 @@ describe('MCP list_agents tool', () => {
 
         vi.mocked(getTerminalRecords).mockReturnValue(records)
         vi.mocked(getUnseenNodesAroundContextNode).mockResolvedValue([])
-        vi.mocked(getGraph).mockReturnValue({nodes: {}, incomingEdgesIndex: new Map(), nodeByBaseName: new Map(), unresolvedLinksIndex: new Map()})
+        vi.mocked(getGraph).mockReturnValue({nodes: {}, incomingEdgesIndex: new Map(), nodeByBaseName: new Map(), nodeByAlias: new Map(), unresolvedLinksIndex: new Map(), tagIndex: new Map()})
 
         const response: McpToolResponse = await listAgentsTool()
         const payload: {agents: Array<{status: string}>} = parsePayload(response) as {agents: Array<{status: string}>}
@@ -2,7 +2,7 @@ import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
 import {createTerminalData} from '@/shell/edge/UI-edge/floating-windows/types'
 import type {TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
 import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
-import type {Graph} from '@/pure/graph'
+import type {FrontmatterProps, Graph} from '@/pure/graph'
 
 vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
     getTerminalRecords: vi.fn()
@@ -25,14 +25,14 @@ function createMockGraphWithAgentNodes(
 ): Graph {
     const nodes: Record<string, {
         absoluteFilePathIsID: string
-        nodeUIMetadata: {additionalYAMLProps: Map<string, string>}
+        nodeUIMetadata: {additionalYAMLProps: FrontmatterProps}
         contentWithoutYamlOrLinks: string
     }> = {}
     for (const {agentName, nodeId, title} of agentNodePairs) {
         nodes[nodeId] = {
             absoluteFilePathIsID: nodeId,
             nodeUIMetadata: {
-                additionalYAMLProps: new Map([['agent_name', agentName]])
+                additionalYAMLProps: { agent_name: agentName }
             },
             // Title is extracted from first heading or first line
             contentWithoutYamlOrLinks: `# ${title}\n\nContent here.`
@@ -1,11 +1,13 @@
 /**
  * MCP Tool: list_agents
- * Lists running agent terminals with their status and newly created nodes.
+ * Lists running agent terminals with their status and newly created nodes,
+ * and spawns still queued behind the agent limits.
  */
 
 import type {Graph} from '@/pure/graph'
 import {getGraph} from '@/shell/edge/main/state/graph-store'
 import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {getPendingAgentSpawns, type PendingAgentSpawn} from '@/shell/edge/main/terminals/spawn-queue'
 import {type McpToolResponse, buildJsonResponse} from './types'
 import {getNewNodesForAgent} from './getNewNodesForAgent'
 
@@ -48,5 +50,14 @@ export async function listAgentsTool(): Promise<McpToolResponse> {
         })
     }
 
-    return buildJsonResponse({agents})
+    const pendingSpawns: Array<{pendingId: string; title: string; taskNodeId: string; parentTerminalId: string | null; reason: string}> =
+        getPendingAgentSpawns().map((pending: PendingAgentSpawn) => ({
+            pendingId: pending.pendingId,
+            title: pending.title,
+            taskNodeId: pending.taskNodeId,
+            parentTerminalId: pending.parentTerminalId,
+            reason: pending.reason
+        }))
+
+    return buildJsonResponse({agents, pendingSpawns})
 }
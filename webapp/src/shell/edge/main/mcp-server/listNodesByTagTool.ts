@@ -0,0 +1,35 @@
+/**
+ * MCP Tool: list_nodes_by_tag
+ * Lists the nodes carrying a tag (frontmatter `tags:` or inline #tag), including nested
+ * tags ("project" also lists "project/alpha"). Without a tag, lists every tag with its node count.
+ */
+
+import type {Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {getNodeIdsWithTag} from '@/pure/graph/graph-operations/tagIndex'
+import {getNodeTitle} from '@/pure/graph/markdown-parsing'
+import {getNodeTags, normalizeTag} from '@/pure/graph/tags'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {type McpToolResponse, buildJsonResponse} from './types'
+
+export interface ListNodesByTagParams {
+    tag?: string
+}
+
+export function listNodesByTagTool({tag}: ListNodesByTagParams): McpToolResponse {
+    const graph: Graph = getGraph()
+
+    if (tag === undefined || normalizeTag(tag) === '') {
+        const tags: readonly {readonly tag: string; readonly count: number}[] = Array.from(graph.tagIndex.entries())
+            .map(([indexedTag, nodeIds]) => ({tag: indexedTag, count: nodeIds.length}))
+            .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+        return buildJsonResponse({success: true, tags})
+    }
+
+    const nodes: readonly {readonly nodeId: NodeIdAndFilePath; readonly title: string; readonly tags: readonly string[]}[] =
+        getNodeIdsWithTag(graph.tagIndex, tag)
+            .map(nodeId => graph.nodes[nodeId])
+            .filter((node: GraphNode | undefined): node is GraphNode => node !== undefined)
+            .map(node => ({nodeId: node.absoluteFilePathIsID, title: getNodeTitle(node), tags: getNodeTags(node)}))
+
+    return buildJsonResponse({success: true, tag: normalizeTag(tag), nodes})
+}
@@ -0,0 +1,31 @@
+/**
+ * MCP Tool: list_worktrees
+ * Lists agent git worktrees with their owning terminal and diff against the base branch.
+ */
+
+import type {ManagedWorktree} from '@/pure/worktree'
+import {listWorktrees} from '@/shell/edge/main/worktree/worktreeManager'
+import {type McpToolResponse, buildJsonResponse} from './types'
+
+export async function listWorktreesTool(): Promise<McpToolResponse> {
+    try {
+        const worktrees: readonly ManagedWorktree[] = await listWorktrees()
+        return buildJsonResponse({
+            worktrees: worktrees.map((worktree: ManagedWorktree) => ({
+                name: worktree.name,
+                path: worktree.path,
+                branch: worktree.branch,
+                ownerTerminalId: worktree.owner?.terminalId ?? null,
+                taskNodeId: worktree.owner?.taskNodeId ?? null,
+                orphaned: worktree.owner === null,
+                diff: worktree.diff
+            }))
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
@@ -7,7 +7,7 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { getMcpPort } from './mcp-server';
+import { getMcpPort } from '@/shell/edge/main/state/mcp-port-store';
 import {getProjectRootWatchedDirectory} from "@/shell/edge/main/state/watch-folder-store";
 
 const VOICETREE_MCP_SERVER_NAME: 'voicetree' = 'voicetree' as const;
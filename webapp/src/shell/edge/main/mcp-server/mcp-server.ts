@@ -1,7 +1,7 @@
 /**
  * MCP Server for Voicetree
  *
- * Exposes graph operations (spawn_agent, list_agents) via Model Context Protocol.
+ * Exposes graph operations (spawn_agent, list_agents, create_node, query_graph, ...) via Model Context Protocol.
  * This server uses HTTP transport so it can run in-process with Electron and share state.
  *
  * Architecture:
@@ -16,17 +16,38 @@ import {StreamableHTTPServerTransport} from '@modelcontextprotocol/sdk/server/st
 import {z} from 'zod'
 import express, {type Express} from 'express'
 import {findAvailablePort} from '@/shell/edge/main/electron/port-utils'
+import {MCP_BASE_PORT, setMcpPort} from '@/shell/edge/main/state/mcp-port-store'
 
 // Import tool implementations
 import {spawnAgentTool} from './spawnAgentTool'
 import {listAgentsTool} from './listAgentsTool'
 import {waitForAgentsTool} from './waitForAgentsTool'
 import {getUnseenNodesNearbyTool} from './getUnseenNodesNearbyTool'
+import {refreshContextNodeTool} from './refreshContextNodeTool'
+import {setTaskStatusTool} from './setTaskStatusTool'
 import {sendMessageTool} from './sendMessageTool'
 import {closeAgentTool} from './closeAgentTool'
 import {readTerminalOutputTool} from './readTerminalOutputTool'
 import {searchNodesTool} from './searchNodesTool'
 import {extractMoreScreenshotsTool} from './extractMoreScreenshotsTool'
+import {createNodeTool} from './createNodeTool'
+import {updateNodeTool} from './updateNodeTool'
+import {appendToNodeTool} from './appendToNodeTool'
+import {addEdgeTool} from './addEdgeTool'
+import {deleteNodeTool} from './deleteNodeTool'
+import {splitNodeTool} from './splitNodeTool'
+import {moveNodesTool} from './moveNodesTool'
+import {queryGraphTool} from './queryGraphTool'
+import {exportGraphTool} from './exportGraphTool'
+import {GRAPH_EXPORT_FORMATS} from '@/pure/graph/export/exportGraph'
+import {TASK_STATUSES} from '@/pure/graph/task-status/taskStatus'
+import {listNodesByTagTool} from './listNodesByTagTool'
+import {revertAgentTool} from './revertAgentTool'
+import {listWorktreesTool} from './listWorktreesTool'
+import {mergeWorktreeTool} from './mergeWorktreeTool'
+import {removeWorktreeTool} from './removeWorktreeTool'
+import {pruneWorktreesTool} from './pruneWorktreesTool'
+import {registerHookRoutes} from './hookRoutes'
 
 // Re-export types and tool functions for external use
 export type {McpToolResponse} from './types'
@@ -38,6 +59,10 @@ export type {WaitForAgentsParams} from './waitForAgentsTool'
 export {waitForAgentsTool} from './waitForAgentsTool'
 export type {GetUnseenNodesNearbyParams} from './getUnseenNodesNearbyTool'
 export {getUnseenNodesNearbyTool} from './getUnseenNodesNearbyTool'
+export type {RefreshContextNodeParams} from './refreshContextNodeTool'
+export {refreshContextNodeTool} from './refreshContextNodeTool'
+export type {SetTaskStatusParams} from './setTaskStatusTool'
+export {setTaskStatusTool} from './setTaskStatusTool'
 export type {SendMessageParams} from './sendMessageTool'
 export {sendMessageTool} from './sendMessageTool'
 export type {CloseAgentParams} from './closeAgentTool'
@@ -48,9 +73,35 @@ export type {SearchNodesParams} from './searchNodesTool'
 export {searchNodesTool} from './searchNodesTool'
 export type {ExtractMoreScreenshotsParams} from './extractMoreScreenshotsTool'
 export {extractMoreScreenshotsTool} from './extractMoreScreenshotsTool'
-
-const MCP_BASE_PORT: 3001 = 3001 as const
-let mcpPort: number = MCP_BASE_PORT
+export type {CreateNodeParams} from './createNodeTool'
+export {createNodeTool} from './createNodeTool'
+export type {UpdateNodeParams} from './updateNodeTool'
+export {updateNodeTool} from './updateNodeTool'
+export type {AppendToNodeParams} from './appendToNodeTool'
+export {appendToNodeTool} from './appendToNodeTool'
+export type {AddEdgeParams} from './addEdgeTool'
+export {addEdgeTool} from './addEdgeTool'
+export type {DeleteNodeParams} from './deleteNodeTool'
+export {deleteNodeTool} from './deleteNodeTool'
+export type {SplitNodeParams} from './splitNodeTool'
+export {splitNodeTool} from './splitNodeTool'
+export type {MoveNodesParams} from './moveNodesTool'
+export {moveNodesTool} from './moveNodesTool'
+export type {QueryGraphParams} from './queryGraphTool'
+export {queryGraphTool} from './queryGraphTool'
+export type {ExportGraphParams} from './exportGraphTool'
+export {exportGraphTool} from './exportGraphTool'
+export type {ListNodesByTagParams} from './listNodesByTagTool'
+export {listNodesByTagTool} from './listNodesByTagTool'
+export type {RevertAgentParams} from './revertAgentTool'
+export {revertAgentTool} from './revertAgentTool'
+export {listWorktreesTool} from './listWorktreesTool'
+export type {MergeWorktreeParams} from './mergeWorktreeTool'
+export {mergeWorktreeTool} from './mergeWorktreeTool'
+export type {RemoveWorktreeParams} from './removeWorktreeTool'
+export {removeWorktreeTool} from './removeWorktreeTool'
+export {pruneWorktreesTool} from './pruneWorktreesTool'
+export {getStopHookPayload, getSessionStartHookPayload, handlePreToolHook} from './hookRoutes'
 
 /**
  * Creates and configures the MCP server with Voicetree tools.
@@ -72,7 +123,9 @@ export function createMcpServer(): McpServer {
 
 **Pattern:** Decompose into nodes → spawn agents → wait_for_agents → review with get_unseen_nodes_nearby.
 
-If you already have a node detailing the task, use nodeId. Otherwise, use task+parentNodeId to create a new task node first.`,
+If you already have a node detailing the task, use nodeId. Otherwise, use task+parentNodeId to create a new task node first.
+
+**Limits:** The number of running agents (globally and per parent) and the spawn depth are capped. Over a running cap the agent is queued (queued: true) and starts automatically when a slot frees up; past the maximum depth spawn_agent returns an error - do the task yourself.`,
             inputSchema: {
                 nodeId: z.string().optional().describe('Target node ID to attach the spawned agent (use this OR task+parentNodeId)'),
                 callerTerminalId: z.string().describe('Your terminal ID, you must echo $VOICETREE_TERMINAL_ID to retrieve it if you have not yet.'),
@@ -90,7 +143,7 @@ If you already have a node detailing the task, use nodeId. Otherwise, use task+p
         'list_agents',
         {
             title: 'List Agents',
-            description: 'List running agent terminals with their status and newly created nodes.',
+            description: 'List running agent terminals with their status and newly created nodes, plus spawns still queued behind the agent limits.',
             inputSchema: {}
         },
         listAgentsTool
@@ -118,7 +171,7 @@ If you already have a node detailing the task, use nodeId. Otherwise, use task+p
         'get_unseen_nodes_nearby',
         {
             title: 'Get Unseen Nodes Nearby',
-            description: 'Get nodes near your context that were created after your context was generated. The user or other agents may have added nodes for you to read. Call this to check for new relevant information.',
+            description: 'Get nodes near your context that were created after your context was generated. The user or other agents may have added nodes for you to read. Call this to check for new relevant information. Also returns truncatedNodes: the nodes your context shortened ([SUMMARY] or [TITLE ONLY]) to fit its budget, with their full content.',
             inputSchema: {
                 callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
                 search_from_node: z.string().optional().describe('Optional node ID to search from instead of your task node')
@@ -128,6 +181,38 @@ If you already have a node detailing the task, use nodeId. Otherwise, use task+p
             getUnseenNodesNearbyTool({callerTerminalId, search_from_node})
     )
 
+    // Tool: refresh_context_node
+    server.registerTool(
+        'refresh_context_node',
+        {
+            title: 'Refresh Context Node',
+            description: 'Recompute the neighborhood of a context node (by default your own) and update it in place, instead of working from stale context. Returns the nodes added to and removed from the context; the node also lists them under "Changes since last refresh". Re-read the context node afterwards.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                contextNodeId: z.string().optional().describe('Context node to refresh (defaults to the context node you were spawned with)'),
+                notifyTerminals: z.boolean().optional().describe('Also send a summary of the changes to the agents attached to the context node (default false)')
+            }
+        },
+        async ({callerTerminalId, contextNodeId, notifyTerminals}) =>
+            refreshContextNodeTool({callerTerminalId, contextNodeId, notifyTerminals})
+    )
+
+    // Tool: set_task_status
+    server.registerTool(
+        'set_task_status',
+        {
+            title: 'Set Task Status',
+            description: 'Set the status of a task node (by default the one you were spawned on): todo, in-progress, blocked, review or done. Starting and finishing work moves your task between in-progress and review automatically; set blocked when you cannot continue without help, and done only when the work is complete. The status shows on the kanban board.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                status: z.enum(TASK_STATUSES).describe('New status of the task'),
+                nodeId: z.string().optional().describe('Task node to update (defaults to the task node you were spawned on)')
+            }
+        },
+        async ({callerTerminalId, status, nodeId}) =>
+            setTaskStatusTool({callerTerminalId, status, nodeId})
+    )
+
     // Tool: close_agent
     server.registerTool(
         'close_agent',
@@ -202,12 +287,247 @@ If you already have a node detailing the task, use nodeId. Otherwise, use task+p
         async ({context_node_path}) => extractMoreScreenshotsTool({context_node_path})
     )
 
+    // Tool: create_node
+    server.registerTool(
+        'create_node',
+        {
+            title: 'Create Node',
+            description: 'Create a node in the graph. Prefer this over writing markdown files by hand: the filename is derived from the title, your agent_name is recorded, the node is placed next to its parent, and wikilinks in content are resolved. Returns the new node ID.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                title: z.string().describe('Node title (becomes the heading and the filename)'),
+                content: z.string().optional().describe('Markdown body without frontmatter. [[wikilinks]] to other nodes are allowed.'),
+                parentNodeId: z.string().optional().describe('Node ID to link the new node to as its parent (e.g. your task node)'),
+                color: z.string().optional().describe('Optional node color')
+            }
+        },
+        async ({callerTerminalId, title, content, parentNodeId, color}) =>
+            createNodeTool({callerTerminalId, title, content, parentNodeId, color})
+    )
+
+    // Tool: update_node
+    server.registerTool(
+        'update_node',
+        {
+            title: 'Update Node',
+            description: 'Replace the markdown content of an existing node. Frontmatter (position, color, agent_name, ...) is preserved. Edges are re-derived from the [[wikilinks]] in the new content.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                nodeId: z.string().describe('ID of the node to update (full path or short name)'),
+                content: z.string().describe('New markdown content without frontmatter')
+            }
+        },
+        async ({callerTerminalId, nodeId, content}) =>
+            updateNodeTool({callerTerminalId, nodeId, content})
+    )
+
+    // Tool: append_to_node
+    server.registerTool(
+        'append_to_node',
+        {
+            title: 'Append to Node',
+            description: 'Append markdown to the end of an existing node. Existing content and links are kept.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                nodeId: z.string().describe('ID of the node to append to (full path or short name)'),
+                content: z.string().describe('Markdown to append, without frontmatter')
+            }
+        },
+        async ({callerTerminalId, nodeId, content}) =>
+            appendToNodeTool({callerTerminalId, nodeId, content})
+    )
+
+    // Tool: add_edge
+    server.registerTool(
+        'add_edge',
+        {
+            title: 'Add Edge',
+            description: 'Link one node to another. The optional label describes the relationship (e.g. "blocks", "depends on", "implements", "contradicts"); labels matching the project\'s relationship vocabulary are normalized to its type names.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                sourceNodeId: z.string().describe('ID of the node the link is written in'),
+                targetNodeId: z.string().describe('ID of the node being linked to'),
+                label: z.string().optional().describe('Optional relationship label')
+            }
+        },
+        async ({callerTerminalId, sourceNodeId, targetNodeId, label}) =>
+            addEdgeTool({callerTerminalId, sourceNodeId, targetNodeId, label})
+    )
+
+    // Tool: delete_node
+    server.registerTool(
+        'delete_node',
+        {
+            title: 'Delete Node',
+            description: 'Delete a node. Its parents are reconnected to its children so the graph stays connected. Can be undone by the user.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                nodeId: z.string().describe('ID of the node to delete (full path or short name)')
+            }
+        },
+        async ({callerTerminalId, nodeId}) =>
+            deleteNodeTool({callerTerminalId, nodeId})
+    )
+
+    // Tool: split_node
+    server.registerTool(
+        'split_node',
+        {
+            title: 'Split Node',
+            description: 'Split a node with many heading sections into one child node per section. Each child is titled by its heading and keeps the wikilinks written in its section; the parent keeps the text before the first heading and links to the children. Can be undone by the user.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                nodeId: z.string().describe('ID of the node to split (full path or short name)'),
+                headingLevel: z.number().int().min(1).max(6).optional().describe('Heading level that starts a section (default 2, i.e. "##")')
+            }
+        },
+        async ({callerTerminalId, nodeId, headingLevel}) =>
+            splitNodeTool({callerTerminalId, nodeId, headingLevel})
+    )
+
+    // Tool: move_nodes
+    server.registerTool(
+        'move_nodes',
+        {
+            title: 'Move Nodes',
+            description: 'Move nodes, or a whole folder with its subfolders, into another folder of the vault. Every wikilink to a moved node is rewritten so it keeps resolving, positions are kept, and colliding file names get a _2, _3 suffix. Pass either nodeIds or folder. Can be undone by the user in one step.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                targetFolder: z.string().describe('Destination folder: absolute, or relative to the vault write folder'),
+                nodeIds: z.array(z.string()).optional().describe('IDs of the nodes to move (full path or short name)'),
+                folder: z.string().optional().describe('Folder to move instead of nodeIds: absolute, or relative to the vault write folder')
+            }
+        },
+        async ({callerTerminalId, targetFolder, nodeIds, folder}) =>
+            moveNodesTool({callerTerminalId, targetFolder, nodeIds, folder})
+    )
+
+    // Tool: query_graph
+    server.registerTool(
+        'query_graph',
+        {
+            title: 'Query Graph',
+            description: 'Query the graph structure without reading files. "neighbors" lists the parents and children of a node with edge labels. "path" returns the shortest path between nodeId and targetNodeId (edges followed in either direction). "subgraph" returns every node within `distance` of nodeId (outgoing hops cost 1.5, incoming hops cost 1). Output is JSON or an ASCII tree.',
+            inputSchema: {
+                query: z.enum(['neighbors', 'path', 'subgraph']).describe('Which query to run'),
+                nodeId: z.string().describe('Node to query from (full path or short name)'),
+                targetNodeId: z.string().optional().describe('Destination node for "path" queries'),
+                distance: z.number().optional().describe('Maximum distance for "subgraph" queries (default: the context node distance setting)'),
+                format: z.enum(['json', 'ascii']).optional().describe('Output format (default: json)'),
+                relationship: z.string().optional().describe('Only list "neighbors" linked by this relationship type (e.g. "depends on"; aliases match their type)')
+            }
+        },
+        async ({query, nodeId, targetNodeId, distance, format, relationship}) =>
+            queryGraphTool({query, nodeId, targetNodeId, distance, format, relationship})
+    )
+
+    // Tool: export_graph
+    server.registerTool(
+        'export_graph',
+        {
+            title: 'Export Graph',
+            description: 'Export the graph as JSON (nodes, edges, labels, positions, metadata), GraphML (Gephi, yEd), DOT (Graphviz) or a Mermaid flowchart, e.g. to paste an architecture map into a PR or design doc. Exports the whole vault by default, only the given nodeIds, or every node within `distance` of nodeId. Context nodes are left out. Node IDs are relative to the folder containing all exported nodes.',
+            inputSchema: {
+                format: z.enum(GRAPH_EXPORT_FORMATS).describe('Export format'),
+                nodeIds: z.array(z.string()).optional().describe('Export only these nodes and the edges between them'),
+                nodeId: z.string().optional().describe('Export the neighborhood of this node'),
+                distance: z.number().optional().describe('Neighborhood distance (outgoing hops cost 1.5, incoming hops cost 1; default: the context node distance setting)')
+            }
+        },
+        async ({format, nodeIds, nodeId, distance}) => exportGraphTool({format, nodeIds, nodeId, distance})
+    )
+
+    // Tool: list_nodes_by_tag
+    server.registerTool(
+        'list_nodes_by_tag',
+        {
+            title: 'List Nodes by Tag',
+            description: 'List the nodes carrying a tag, from `tags:` frontmatter or inline #tags (e.g. "decision", "bug", "spec"). Nested tags are included: "project" also lists "project/alpha". Without a tag, lists every tag with its node count.',
+            inputSchema: {
+                tag: z.string().optional().describe('Tag to list nodes for, with or without the leading # (omit to list all tags)')
+            }
+        },
+        async ({tag}) => listNodesByTagTool({tag})
+    )
+
+    // Tool: revert_agent
+    server.registerTool(
+        'revert_agent',
+        {
+            title: 'Revert Agent',
+            description: 'Revert every node an agent created or modified during its session, including edits to nodes that existed before it started. Without confirm, returns a diff preview (before/after content per node) and changes nothing. Nodes changed by someone else afterwards are listed in conflictingNodeIds. Can be undone by the user.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                terminalId: z.string().describe('Terminal ID of the agent whose changes to revert'),
+                confirm: z.boolean().optional().describe('Set to true to apply the revert (default: preview only)')
+            }
+        },
+        async ({callerTerminalId, terminalId, confirm}) =>
+            revertAgentTool({callerTerminalId, terminalId, confirm})
+    )
+
+    // Tool: list_worktrees
+    server.registerTool(
+        'list_worktrees',
+        {
+            title: 'List Worktrees',
+            description: 'List agent git worktrees (under .worktrees/) with the terminal that owns each one, its task node, and a diff summary against the base branch (files changed, insertions, deletions, commits ahead, uncommitted changes). Worktrees whose terminal is gone are marked orphaned.',
+            inputSchema: {}
+        },
+        async () => listWorktreesTool()
+    )
+
+    // Tool: merge_worktree
+    server.registerTool(
+        'merge_worktree',
+        {
+            title: 'Merge Worktree',
+            description: 'Merge an agent worktree\'s branch into the base branch checked out in the main repository. "merge" creates a merge commit; "rebase" rebases the branch onto the base branch and fast-forwards. Fails without changing anything if the worktree has uncommitted changes or on conflicts.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                worktree: z.string().describe('Worktree name (e.g. wt-fix-login-ab12) or absolute path'),
+                strategy: z.enum(['merge', 'rebase']).optional().describe('How to integrate the branch (default: merge)')
+            }
+        },
+        async ({callerTerminalId, worktree, strategy}) =>
+            mergeWorktreeTool({callerTerminalId, worktree, strategy})
+    )
+
+    // Tool: remove_worktree
+    server.registerTool(
+        'remove_worktree',
+        {
+            title: 'Remove Worktree',
+            description: 'Remove an agent worktree and (by default) its branch. Without force, refuses if the worktree has uncommitted changes or the branch is not merged.',
+            inputSchema: {
+                callerTerminalId: z.string().describe('Your terminal ID from $VOICETREE_TERMINAL_ID env var'),
+                worktree: z.string().describe('Worktree name (e.g. wt-fix-login-ab12) or absolute path'),
+                deleteBranch: z.boolean().optional().describe('Also delete the worktree\'s branch (default: true)'),
+                force: z.boolean().optional().describe('Discard uncommitted changes and unmerged commits (default: false)')
+            }
+        },
+        async ({callerTerminalId, worktree, deleteBranch, force}) =>
+            removeWorktreeTool({callerTerminalId, worktree, deleteBranch, force})
+    )
+
+    // Tool: prune_worktrees
+    server.registerTool(
+        'prune_worktrees',
+        {
+            title: 'Prune Worktrees',
+            description: 'Garbage-collect orphaned agent worktrees whose terminals are gone. Only worktrees with no uncommitted changes and no unmerged commits are removed; the others are listed in keptWithUnmergedWork.',
+            inputSchema: {}
+        },
+        async () => pruneWorktreesTool()
+    )
+
     return server
 }
 
 /**
  * Starts the MCP server with HTTP transport.
  * This allows the server to run in-process with Electron and share state.
+ * The same app serves the /hook/* routes used by agent CLI hooks.
  */
 export async function startMcpServer(): Promise<void> {
     const mcpServer: McpServer = createMcpServer()
@@ -229,16 +549,12 @@ export async function startMcpServer(): Promise<void> {
         await transport.handleRequest(req, res, req.body)
     })
 
-    mcpPort = await findAvailablePort(MCP_BASE_PORT)
+    registerHookRoutes(app)
+
+    const mcpPort: number = await findAvailablePort(MCP_BASE_PORT)
+    setMcpPort(mcpPort)
 
     app.listen(mcpPort, '127.0.0.1', () => {
         //console.log(`[MCP] Voicetree MCP Server running on http://localhost:${mcpPort}/mcp`)
     })
 }
-
-/**
- * Returns the MCP server port for configuration.
- */
-export function getMcpPort(): number {
-    return mcpPort
-}
@@ -0,0 +1,47 @@
+/**
+ * MCP Tool: merge_worktree
+ * Merges (or rebases and fast-forwards) an agent worktree's branch into the base branch.
+ */
+
+import type {WorktreeMergeStrategy} from '@/pure/worktree'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {mergeWorktree} from '@/shell/edge/main/worktree/worktreeManager'
+import {type McpToolResponse, buildJsonResponse} from './types'
+
+export interface MergeWorktreeParams {
+    callerTerminalId: string
+    worktree: string
+    strategy?: WorktreeMergeStrategy
+}
+
+export async function mergeWorktreeTool({
+    callerTerminalId,
+    worktree,
+    strategy = 'merge'
+}: MergeWorktreeParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const terminalRecords: TerminalRecord[] = getTerminalRecords()
+    if (!terminalRecords.some((r: TerminalRecord) => r.terminalId === callerTerminalId)) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Merge - conflicts are aborted and reported
+    try {
+        const {branch, baseBranch} = await mergeWorktree(worktree, strategy)
+        return buildJsonResponse({
+            success: true,
+            branch,
+            baseBranch,
+            message: `${strategy === 'rebase' ? 'Rebased and fast-forwarded' : 'Merged'} ${branch} into ${baseBranch}`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * MCP Tool: move_nodes
+ * Moves nodes, or a whole folder, into another folder of the vault. Every link to a moved node
+ * is rewritten so it keeps resolving, and the move is undone in one step.
+ */
+
+import * as O from 'fp-ts/lib/Option.js'
+import type {FilePath, Graph, GraphDelta, NodeIdAndFilePath} from '@/pure/graph'
+import {computeMovePlanDelta, planMoveFolder, planMoveNodes, resolveMoveTargetFolder, type MovePlan} from '@/pure/graph/move/computeMoveNodesDelta'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getVaultPaths, getWritePath} from '@/shell/edge/main/graph/watch_folder/watchFolder'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {type McpToolResponse, buildJsonResponse} from './types'
+import {resolveNodeId} from './resolveNodeId'
+
+export interface MoveNodesParams {
+    callerTerminalId: string
+    targetFolder: string
+    nodeIds?: string[]
+    folder?: string
+}
+
+export async function moveNodesTool({
+    callerTerminalId,
+    targetFolder,
+    nodeIds,
+    folder
+}: MoveNodesParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const terminalRecords: TerminalRecord[] = getTerminalRecords()
+    const callerRecord: TerminalRecord | undefined = terminalRecords.find(
+        (r: TerminalRecord) => r.terminalId === callerTerminalId
+    )
+    if (!callerRecord) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    if ((nodeIds === undefined || nodeIds.length === 0) === (folder === undefined)) {
+        return buildJsonResponse({
+            success: false,
+            error: 'Pass either nodeIds or folder.'
+        }, true)
+    }
+
+    const writePathOpt: O.Option<string> = await getWritePath()
+    if (O.isNone(writePathOpt)) {
+        return buildJsonResponse({
+            success: false,
+            error: 'No vault loaded. Please load a folder in the UI first.'
+        }, true)
+    }
+
+    // 2. Resolve folders (both must be inside the loaded vaults)
+    const vaultPaths: readonly FilePath[] = await getVaultPaths()
+    const resolvedTargetFolder: string | undefined = resolveMoveTargetFolder(targetFolder, writePathOpt.value, vaultPaths)
+    if (resolvedTargetFolder === undefined) {
+        return buildJsonResponse({
+            success: false,
+            error: `Target folder ${targetFolder} is outside the loaded vault folders.`
+        }, true)
+    }
+    const resolvedSourceFolder: string | undefined = folder !== undefined
+        ? resolveMoveTargetFolder(folder, writePathOpt.value, vaultPaths)
+        : undefined
+    if (folder !== undefined && resolvedSourceFolder === undefined) {
+        return buildJsonResponse({
+            success: false,
+            error: `Folder ${folder} is outside the loaded vault folders.`
+        }, true)
+    }
+
+    // 3. Resolve nodes
+    const graph: Graph = getGraph()
+    const resolvedNodeIds: readonly (NodeIdAndFilePath | undefined)[] = (nodeIds ?? []).map(
+        (nodeId: string) => resolveNodeId(graph, nodeId)
+    )
+    const missingNodeIds: readonly string[] = (nodeIds ?? []).filter((_, index: number) => resolvedNodeIds[index] === undefined)
+    if (missingNodeIds.length > 0) {
+        return buildJsonResponse({
+            success: false,
+            error: `Nodes not found: ${missingNodeIds.join(', ')}`
+        }, true)
+    }
+
+    // 4. Build and apply the delta
+    const plan: MovePlan = resolvedSourceFolder !== undefined
+        ? planMoveFolder(resolvedSourceFolder, resolvedTargetFolder, graph)
+        : planMoveNodes(
+            resolvedNodeIds.filter((id): id is NodeIdAndFilePath => id !== undefined),
+            resolvedTargetFolder,
+            graph
+        )
+    if (plan.size === 0) {
+        return buildJsonResponse({
+            success: false,
+            error: 'Nothing to move: the nodes are already in the target folder (or the folder is empty).'
+        }, true)
+    }
+
+    // Context nodes are owned by terminals - moving them would detach the terminal
+    const attachedNodeIds: readonly NodeIdAndFilePath[] = [...plan.keys()].filter((id: NodeIdAndFilePath) =>
+        terminalRecords.some((r: TerminalRecord) => r.terminalData.attachedToNodeId === id)
+    )
+    if (attachedNodeIds.length > 0) {
+        return buildJsonResponse({
+            success: false,
+            error: `Nodes attached to a terminal cannot be moved: ${attachedNodeIds.join(', ')}`
+        }, true)
+    }
+
+    try {
+        const delta: GraphDelta = computeMovePlanDelta(plan, graph)
+        await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, true, agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId))
+
+        const moved: readonly {readonly from: NodeIdAndFilePath; readonly to: NodeIdAndFilePath}[] = Array.from(
+            plan.entries(),
+            ([from, to]) => ({from, to})
+        )
+        return buildJsonResponse({
+            success: true,
+            moved,
+            message: `Moved ${moved.length} node${moved.length === 1 ? '' : 's'} to ${resolvedTargetFolder}`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
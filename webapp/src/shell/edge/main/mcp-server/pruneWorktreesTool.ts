@@ -0,0 +1,25 @@
+/**
+ * MCP Tool: prune_worktrees
+ * Garbage-collects orphaned agent worktrees (terminal gone) that hold no unmerged work.
+ */
+
+import {garbageCollectWorktrees} from '@/shell/edge/main/worktree/worktreeManager'
+import {type McpToolResponse, buildJsonResponse} from './types'
+
+export async function pruneWorktreesTool(): Promise<McpToolResponse> {
+    try {
+        const {removed, keptWithUnmergedWork} = await garbageCollectWorktrees()
+        return buildJsonResponse({
+            success: true,
+            removed,
+            keptWithUnmergedWork,
+            message: `Removed ${removed.length} orphaned worktree(s); ${keptWithUnmergedWork.length} orphan(s) with unmerged work kept`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
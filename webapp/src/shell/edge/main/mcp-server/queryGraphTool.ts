@@ -0,0 +1,199 @@
+/**
+ * MCP Tool: query_graph
+ * Structured, read-only queries over the graph: neighbors of a node, the shortest
+ * path between two nodes, or the subgraph around a node. Results are JSON or ASCII.
+ * Neighbors can be limited to one relationship type (edge label).
+ */
+
+import type {Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {findShortestPath, getNodeIdsInTraversalOrder, getSubgraphByDistance, graphToAscii} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+import {getIncomingNodes} from '@/pure/graph/graph-operations/getIncomingNodes'
+import {getNodeTitle} from '@/pure/graph/markdown-parsing'
+import {normalizeRelationshipLabel, toRelationshipKey, type RelationshipVocabulary} from '@/pure/graph/relationships'
+import type {VTSettings} from '@/pure/settings/types'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {getRelationshipVocabulary} from '@/shell/edge/main/state/relationship-vocabulary-store'
+import {resolveNodeId} from './resolveNodeId'
+import {type McpToolResponse, buildJsonResponse} from './types'
+
+export type GraphQuery = 'neighbors' | 'path' | 'subgraph'
+export type GraphQueryFormat = 'json' | 'ascii'
+
+export interface QueryGraphParams {
+    query: GraphQuery
+    nodeId: string
+    targetNodeId?: string
+    distance?: number
+    format?: GraphQueryFormat
+    relationship?: string
+}
+
+interface NodeSummary {
+    readonly nodeId: NodeIdAndFilePath
+    readonly title: string
+}
+
+interface NeighborSummary extends NodeSummary {
+    readonly label: string
+}
+
+interface PathStep extends NodeSummary {
+    // Direction of the edge from the previous step to this one; undefined for the first step
+    readonly direction?: 'outgoing' | 'incoming'
+    readonly label?: string
+}
+
+function summarize(graph: Graph, nodeId: NodeIdAndFilePath): NodeSummary {
+    const node: GraphNode | undefined = graph.nodes[nodeId]
+    return {nodeId, title: node ? getNodeTitle(node) : nodeId}
+}
+
+function findEdgeLabel(graph: Graph, sourceId: NodeIdAndFilePath, targetId: NodeIdAndFilePath): string | undefined {
+    return graph.nodes[sourceId]?.outgoingEdges.find(edge => edge.targetId === targetId)?.label
+}
+
+/**
+ * Whether an edge label has the given relationship type. Both are normalized against
+ * the vocabulary, so aliases match their type.
+ */
+function hasRelationship(label: string, relationship: string, vocabulary: RelationshipVocabulary): boolean {
+    return toRelationshipKey(normalizeRelationshipLabel(label, vocabulary))
+        === toRelationshipKey(normalizeRelationshipLabel(relationship, vocabulary))
+}
+
+function queryNeighbors(
+    graph: Graph,
+    nodeId: NodeIdAndFilePath,
+    format: GraphQueryFormat,
+    relationship: string | undefined
+): McpToolResponse {
+    const node: GraphNode = graph.nodes[nodeId]
+    const vocabulary: RelationshipVocabulary = getRelationshipVocabulary()
+    const isIncluded: (neighbor: NeighborSummary) => boolean = (neighbor: NeighborSummary): boolean =>
+        relationship === undefined || hasRelationship(neighbor.label, relationship, vocabulary)
+    const parents: readonly NeighborSummary[] = getIncomingNodes(node, graph).map(parent => ({
+        ...summarize(graph, parent.absoluteFilePathIsID),
+        label: findEdgeLabel(graph, parent.absoluteFilePathIsID, nodeId) ?? ''
+    })).filter(isIncluded)
+    const children: readonly NeighborSummary[] = node.outgoingEdges
+        .filter(edge => graph.nodes[edge.targetId] !== undefined)
+        .map(edge => ({...summarize(graph, edge.targetId), label: edge.label}))
+        .filter(isIncluded)
+
+    if (format === 'ascii') {
+        const neighborhood: Graph = createGraph(Object.fromEntries(
+            [nodeId, ...parents.map(p => p.nodeId), ...children.map(c => c.nodeId)]
+                .map(id => [id, graph.nodes[id]] as const)
+        ))
+        return buildJsonResponse({success: true, nodeId, ascii: graphToAscii(neighborhood)})
+    }
+
+    return buildJsonResponse({success: true, node: summarize(graph, nodeId), parents, children})
+}
+
+function queryPath(
+    graph: Graph,
+    startNodeId: NodeIdAndFilePath,
+    endNodeId: NodeIdAndFilePath,
+    format: GraphQueryFormat
+): McpToolResponse {
+    const path: readonly NodeIdAndFilePath[] | undefined = findShortestPath(graph, startNodeId, endNodeId)
+    if (!path) {
+        return buildJsonResponse({
+            success: false,
+            error: `No path between ${startNodeId} and ${endNodeId}`
+        }, true)
+    }
+
+    const steps: readonly PathStep[] = path.map((id, index) => {
+        if (index === 0) {
+            return summarize(graph, id)
+        }
+        const previousId: NodeIdAndFilePath = path[index - 1]
+        const outgoingLabel: string | undefined = findEdgeLabel(graph, previousId, id)
+        return outgoingLabel !== undefined
+            ? {...summarize(graph, id), direction: 'outgoing', label: outgoingLabel}
+            : {...summarize(graph, id), direction: 'incoming', label: findEdgeLabel(graph, id, previousId) ?? ''}
+    })
+
+    if (format === 'ascii') {
+        const ascii: string = steps
+            .map(step => step.direction === undefined
+                ? step.title
+                : `${step.direction === 'outgoing' ? '->' : '<-'}${step.label ? ` (${step.label})` : ''} ${step.title}`)
+            .join('\n')
+        return buildJsonResponse({success: true, length: path.length - 1, ascii})
+    }
+
+    return buildJsonResponse({success: true, length: path.length - 1, path: steps})
+}
+
+function querySubgraph(graph: Graph, nodeId: NodeIdAndFilePath, distance: number, format: GraphQueryFormat): McpToolResponse {
+    const subgraph: Graph = getSubgraphByDistance(graph, nodeId, distance)
+
+    if (format === 'ascii') {
+        return buildJsonResponse({success: true, nodeId, distance, ascii: graphToAscii(subgraph)})
+    }
+
+    const nodes: readonly (NodeSummary & {readonly outgoingEdges: readonly {readonly targetId: NodeIdAndFilePath; readonly label: string}[]})[] =
+        getNodeIdsInTraversalOrder(subgraph).map(id => ({
+            ...summarize(subgraph, id),
+            outgoingEdges: subgraph.nodes[id].outgoingEdges.map(edge => ({targetId: edge.targetId, label: edge.label}))
+        }))
+
+    return buildJsonResponse({success: true, nodeId, distance, nodes})
+}
+
+export async function queryGraphTool({
+    query,
+    nodeId,
+    targetNodeId,
+    distance,
+    format = 'json',
+    relationship
+}: QueryGraphParams): Promise<McpToolResponse> {
+    try {
+        const graph: Graph = getGraph()
+
+        const resolvedNodeId: NodeIdAndFilePath | undefined = resolveNodeId(graph, nodeId)
+        if (!resolvedNodeId) {
+            return buildJsonResponse({
+                success: false,
+                error: `Node ${nodeId} not found.`
+            }, true)
+        }
+
+        switch (query) {
+            case 'neighbors':
+                return queryNeighbors(graph, resolvedNodeId, format, relationship)
+            case 'path': {
+                if (!targetNodeId) {
+                    return buildJsonResponse({
+                        success: false,
+                        error: 'targetNodeId is required for path queries.'
+                    }, true)
+                }
+                const resolvedTargetId: NodeIdAndFilePath | undefined = resolveNodeId(graph, targetNodeId)
+                if (!resolvedTargetId) {
+                    return buildJsonResponse({
+                        success: false,
+                        error: `Node ${targetNodeId} not found.`
+                    }, true)
+                }
+                return queryPath(graph, resolvedNodeId, resolvedTargetId, format)
+            }
+            case 'subgraph': {
+                const settings: VTSettings = await loadSettings()
+                return querySubgraph(graph, resolvedNodeId, distance ?? settings.contextNodeMaxDistance, format)
+            }
+        }
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * MCP Tool: refresh_context_node
+ * Recomputes a context node's neighborhood and updates the node in place, reporting added/removed nodes.
+ */
+
+import type {Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {getNodeTitle} from '@/pure/graph/markdown-parsing'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {refreshContextNode, type ContextNodeRefreshResult} from '@/shell/edge/main/graph/context-nodes/refreshContextNode'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {type McpToolResponse, buildJsonResponse} from './types'
+import {resolveNodeId} from './resolveNodeId'
+
+export interface RefreshContextNodeParams {
+    callerTerminalId: string
+    contextNodeId?: string
+    notifyTerminals?: boolean
+}
+
+export async function refreshContextNodeTool({
+    callerTerminalId,
+    contextNodeId,
+    notifyTerminals = false
+}: RefreshContextNodeParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const callerRecord: TerminalRecord | undefined = getTerminalRecords().find(
+        (r: TerminalRecord) => r.terminalId === callerTerminalId
+    )
+    if (!callerRecord) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Resolve the context node (defaults to the caller's own)
+    const graph: Graph = getGraph()
+    const resolvedNodeId: NodeIdAndFilePath | undefined = contextNodeId !== undefined
+        ? resolveNodeId(graph, contextNodeId)
+        : callerRecord.terminalData.attachedToNodeId
+    if (!resolvedNodeId || !graph.nodes[resolvedNodeId]?.nodeUIMetadata.isContextNode) {
+        return buildJsonResponse({
+            success: false,
+            error: `Context node ${contextNodeId ?? callerRecord.terminalData.attachedToNodeId} not found.`
+        }, true)
+    }
+
+    // 3. Refresh
+    try {
+        const result: ContextNodeRefreshResult = await refreshContextNode(resolvedNodeId, {
+            notifyTerminals,
+            source: agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId)
+        })
+
+        const refreshedGraph: Graph = getGraph()
+        const describe: (nodeId: NodeIdAndFilePath) => {nodeId: string; title: string} = (nodeId: NodeIdAndFilePath) => {
+            const node: GraphNode | undefined = refreshedGraph.nodes[nodeId]
+            return {nodeId, title: node ? getNodeTitle(node) : nodeId}
+        }
+        return buildJsonResponse({
+            success: true,
+            contextNodeId: result.contextNodeId,
+            added: result.diff.added.map(describe),
+            removed: result.diff.removed.map(describe),
+            notifiedTerminalIds: result.notifiedTerminalIds
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * MCP Tool: remove_worktree
+ * Removes an agent worktree and its branch.
+ */
+
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {removeWorktree} from '@/shell/edge/main/worktree/worktreeManager'
+import {type McpToolResponse, buildJsonResponse} from './types'
+
+export interface RemoveWorktreeParams {
+    callerTerminalId: string
+    worktree: string
+    deleteBranch?: boolean
+    force?: boolean
+}
+
+export async function removeWorktreeTool({
+    callerTerminalId,
+    worktree,
+    deleteBranch = true,
+    force = false
+}: RemoveWorktreeParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const terminalRecords: TerminalRecord[] = getTerminalRecords()
+    if (!terminalRecords.some((r: TerminalRecord) => r.terminalId === callerTerminalId)) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Remove - without force, git refuses to drop uncommitted or unmerged work
+    try {
+        const {name, deletedBranch} = await removeWorktree(worktree, {deleteBranch, force})
+        return buildJsonResponse({
+            success: true,
+            name,
+            deletedBranch,
+            message: `Removed worktree ${name}`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
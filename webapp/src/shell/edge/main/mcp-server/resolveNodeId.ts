@@ -0,0 +1,15 @@
+/**
+ * Resolve a node ID passed by an agent to a node in the graph.
+ * Supports both full absolute paths and short names (e.g., "fix-test.md" or "fix-test").
+ */
+
+import type {Graph, NodeIdAndFilePath} from '@/pure/graph'
+import {findBestMatchingNode} from '@/pure/graph/markdown-parsing/extract-edges'
+
+export function resolveNodeId(graph: Graph, nodeId: string): NodeIdAndFilePath | undefined {
+    const resolvedNodeId: NodeIdAndFilePath | undefined = graph.nodes[nodeId]
+        ? nodeId
+        : findBestMatchingNode(nodeId, graph.nodes, graph.nodeByBaseName, graph.nodeByAlias)
+
+    return resolvedNodeId && graph.nodes[resolvedNodeId] ? resolvedNodeId : undefined
+}
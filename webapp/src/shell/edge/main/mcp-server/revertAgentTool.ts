@@ -0,0 +1,82 @@
+/**
+ * MCP Tool: revert_agent
+ * Reverts everything an agent created or modified during its session as a single delta.
+ * Without confirm it only returns the diff preview, so the caller can check it first.
+ */
+
+import type {NodeIdAndFilePath} from '@/pure/graph'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {
+    previewAgentRevert,
+    revertAgent,
+    type AgentRevertPreview
+} from '@/shell/edge/main/graph/agentRevertOperations'
+import {type McpToolResponse, buildJsonResponse} from './types'
+
+export interface RevertAgentParams {
+    terminalId: string
+    callerTerminalId: string
+    confirm?: boolean
+}
+
+export async function revertAgentTool({
+    terminalId,
+    callerTerminalId,
+    confirm = false
+}: RevertAgentParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const terminalRecords: TerminalRecord[] = getTerminalRecords()
+    if (!terminalRecords.some((r: TerminalRecord) => r.terminalId === callerTerminalId)) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Compute the revert for the target terminal's session
+    const preview: AgentRevertPreview | null = previewAgentRevert(terminalId)
+    if (!preview) {
+        return buildJsonResponse({
+            success: false,
+            error: `Terminal not found: ${terminalId}`
+        }, true)
+    }
+
+    if (!confirm) {
+        return buildJsonResponse({
+            success: true,
+            terminalId,
+            agentName: preview.agentName,
+            applied: false,
+            changes: preview.changes,
+            conflictingNodeIds: preview.conflictingNodeIds,
+            message: `Preview of ${preview.changes.length} change(s). Call again with confirm: true to apply.`
+        })
+    }
+
+    // 3. Apply it
+    try {
+        const result: { readonly revertedNodeCount: number; readonly conflictingNodeIds: readonly NodeIdAndFilePath[] } | null = await revertAgent(terminalId)
+        if (!result) {
+            return buildJsonResponse({
+                success: false,
+                error: `Terminal not found: ${terminalId}`
+            }, true)
+        }
+        return buildJsonResponse({
+            success: true,
+            terminalId,
+            agentName: preview.agentName,
+            applied: true,
+            revertedNodeCount: result.revertedNodeCount,
+            conflictingNodeIds: result.conflictingNodeIds,
+            message: `Reverted ${result.revertedNodeCount} node(s) changed by ${preview.agentName}`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
@@ -1,9 +1,10 @@
 /**
  * MCP Tool: search_nodes
  * Searches for semantically relevant nodes using hybrid vector + BM25 search.
+ * Falls back to the in-process BM25 index when the backend is unavailable.
  */
 
-import {askQuery, type SearchSimilarResult} from '@/shell/edge/main/backend-api'
+import {askQuery, type AskQueryResponse, type SearchSimilarResult} from '@/shell/edge/main/backend-api'
 import {type McpToolResponse, buildJsonResponse} from './types'
 
 export interface SearchNodesParams {
@@ -23,7 +24,7 @@ export async function searchNodesTool({
     }
 
     try {
-        const response = await askQuery(query, top_k)
+        const response: AskQueryResponse = await askQuery(query, top_k)
         const results: Array<{node_path: string; title: string; score: number}> = response.relevant_nodes.map(
             (node: SearchSimilarResult) => ({
                 node_path: node.node_path,
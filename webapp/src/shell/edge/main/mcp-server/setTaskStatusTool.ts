@@ -0,0 +1,79 @@
+/**
+ * MCP Tool: set_task_status
+ * Sets the status frontmatter (todo / in-progress / blocked / review / done) of a task node.
+ */
+
+import type {Graph, GraphDelta, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {getNodeTitle} from '@/pure/graph/markdown-parsing'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {computeSetTaskStatusDelta, getTaskStatus, type TaskStatus} from '@/pure/graph/task-status/taskStatus'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {getTerminalTaskNodeId} from '@/shell/edge/main/terminals/sync-task-status'
+import {
+    applyGraphDeltaToDBThroughMemAndUIAndEditors
+} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {type McpToolResponse, buildJsonResponse} from './types'
+import {resolveNodeId} from './resolveNodeId'
+
+export interface SetTaskStatusParams {
+    callerTerminalId: string
+    status: TaskStatus
+    nodeId?: string
+}
+
+export async function setTaskStatusTool({
+    callerTerminalId,
+    status,
+    nodeId
+}: SetTaskStatusParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const callerRecord: TerminalRecord | undefined = getTerminalRecords().find(
+        (r: TerminalRecord) => r.terminalId === callerTerminalId
+    )
+    if (!callerRecord) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Resolve the task node (defaults to the one the caller was spawned on)
+    const graph: Graph = getGraph()
+    const resolvedNodeId: NodeIdAndFilePath | undefined = nodeId !== undefined
+        ? resolveNodeId(graph, nodeId)
+        : getTerminalTaskNodeId(callerRecord.terminalData, graph)
+    const node: GraphNode | undefined = resolvedNodeId ? graph.nodes[resolvedNodeId] : undefined
+    if (!resolvedNodeId || !node || node.nodeUIMetadata.isContextNode) {
+        return buildJsonResponse({
+            success: false,
+            error: `Task node ${nodeId ?? getTerminalTaskNodeId(callerRecord.terminalData, graph)} not found.`
+        }, true)
+    }
+
+    // 3. Update the status
+    try {
+        const previousStatus: TaskStatus | undefined = getTaskStatus(node)
+        const delta: GraphDelta = computeSetTaskStatusDelta(graph, resolvedNodeId, status)
+        if (delta.length > 0) {
+            await applyGraphDeltaToDBThroughMemAndUIAndEditors(
+                delta,
+                true,
+                agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId)
+            )
+        }
+        return buildJsonResponse({
+            success: true,
+            nodeId: resolvedNodeId,
+            title: getNodeTitle(node),
+            previousStatus: previousStatus ?? null,
+            status
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
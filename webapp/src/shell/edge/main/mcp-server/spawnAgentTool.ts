@@ -10,8 +10,9 @@ import {createTaskNode} from '@/pure/graph/graph-operations/createTaskNode'
 import {getGraph} from '@/shell/edge/main/state/graph-store'
 import {getWritePath} from '@/shell/edge/main/graph/watch_folder/watchFolder'
 import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
-import {spawnTerminalWithContextNode} from '@/shell/edge/main/terminals/spawnTerminalWithContextNode'
+import {requestAgentSpawn, type AgentSpawnResult} from '@/shell/edge/main/terminals/spawn-queue'
 import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {agentDeltaSource} from '@/pure/graph/undo'
 import {type McpToolResponse, buildJsonResponse} from './types'
 
 export interface SpawnAgentParams {
@@ -23,6 +24,24 @@ export interface SpawnAgentParams {
     spawnDirectory?: string
 }
 
+/**
+ * Response for a spawn held back by the agent limits. It starts by itself once a slot
+ * frees up; its terminal then shows up in list_agents.
+ */
+function buildQueuedResponse(
+    spawn: Extract<AgentSpawnResult, {kind: 'queued'}>,
+    node: {taskNodeId: string} | {nodeId: string}
+): McpToolResponse {
+    return buildJsonResponse({
+        success: true,
+        queued: true,
+        pendingId: spawn.pending.pendingId,
+        queuePosition: spawn.position,
+        ...node,
+        message: `Agent limit reached (${spawn.pending.reason}). The agent is queued at position ${spawn.position} and starts automatically when a running agent exits. Use list_agents to see when it has started.`
+    })
+}
+
 export async function spawnAgentTool({nodeId, callerTerminalId, task, details, parentNodeId, spawnDirectory}: SpawnAgentParams): Promise<McpToolResponse> {
     //console.log(`[MCP] spawn_agent called by terminal: ${callerTerminalId}`)
 
@@ -32,10 +51,10 @@ export async function spawnAgentTool({nodeId, callerTerminalId, task, details, p
     // (openspec: consolidate-terminal-registry) makes terminal-registry the single source
     // of truth. If this guard still fails after that change, remove it entirely.
     const terminalRecords: TerminalRecord[] = getTerminalRecords()
-    const callerExists: boolean = terminalRecords.some(
+    const callerRecord: TerminalRecord | undefined = terminalRecords.find(
         (record: TerminalRecord) => record.terminalId === callerTerminalId
     )
-    if (!callerExists) {
+    if (!callerRecord) {
         return buildJsonResponse({
             success: false,
             error: `Unknown caller terminal: ${callerTerminalId}`
@@ -66,7 +85,7 @@ export async function spawnAgentTool({nodeId, callerTerminalId, task, details, p
         // Resolve parent node
         const resolvedParentId: NodeIdAndFilePath | undefined = graph.nodes[parentNodeId]
             ? parentNodeId
-            : findBestMatchingNode(parentNodeId, graph.nodes, graph.nodeByBaseName)
+            : findBestMatchingNode(parentNodeId, graph.nodes, graph.nodeByBaseName, graph.nodeByAlias)
 
         if (!resolvedParentId || !graph.nodes[resolvedParentId]) {
             return buildJsonResponse({
@@ -110,17 +129,23 @@ export async function spawnAgentTool({nodeId, callerTerminalId, task, details, p
             }
 
             // Apply task node to graph
-            await applyGraphDeltaToDBThroughMemAndUIAndEditors(taskNodeDelta)
-
-            // Spawn terminal on the new task node (with parent terminal for tree-style tabs)
-            const {terminalId, contextNodeId}: {terminalId: string; contextNodeId: string} =
-                await spawnTerminalWithContextNode(taskNodeId, undefined, undefined, true, false, undefined, spawnDirectory, callerTerminalId)
+            await applyGraphDeltaToDBThroughMemAndUIAndEditors(
+                taskNodeDelta,
+                true,
+                agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId)
+            )
+
+            // Spawn (or queue) an agent on the new task node (with parent terminal for tree-style tabs)
+            const spawn: AgentSpawnResult = await requestAgentSpawn(taskNodeId, callerTerminalId, spawnDirectory)
+            if (spawn.kind === 'queued') {
+                return buildQueuedResponse(spawn, {taskNodeId})
+            }
 
             return buildJsonResponse({
                 success: true,
-                terminalId,
+                terminalId: spawn.terminalId,
                 taskNodeId,
-                contextNodeId,
+                contextNodeId: spawn.contextNodeId,
                 message: `Created task node and spawned agent for "${task}"`
             })
         } catch (error) {
@@ -144,7 +169,7 @@ export async function spawnAgentTool({nodeId, callerTerminalId, task, details, p
     // First try direct lookup, then fall back to findBestMatchingNode for short names
     const resolvedNodeId: NodeIdAndFilePath | undefined = graph.nodes[nodeId]
         ? nodeId
-        : findBestMatchingNode(nodeId, graph.nodes, graph.nodeByBaseName)
+        : findBestMatchingNode(nodeId, graph.nodes, graph.nodeByBaseName, graph.nodeByAlias)
 
     if (!resolvedNodeId || !graph.nodes[resolvedNodeId]) {
         return buildJsonResponse({
@@ -154,16 +179,17 @@ export async function spawnAgentTool({nodeId, callerTerminalId, task, details, p
     }
 
     try {
-        // Pass skipFitAnimation: true for MCP spawns to avoid interrupting user's viewport
-        // Pass callerTerminalId as parentTerminalId for tree-style tabs
-        const {terminalId, contextNodeId}: {terminalId: string; contextNodeId: string} =
-            await spawnTerminalWithContextNode(resolvedNodeId, undefined, undefined, true, false, undefined, spawnDirectory, callerTerminalId)
+        // Pass callerTerminalId as parentTerminalId for tree-style tabs and per-parent limits
+        const spawn: AgentSpawnResult = await requestAgentSpawn(resolvedNodeId, callerTerminalId, spawnDirectory)
+        if (spawn.kind === 'queued') {
+            return buildQueuedResponse(spawn, {nodeId: resolvedNodeId})
+        }
 
         return buildJsonResponse({
             success: true,
-            terminalId,
+            terminalId: spawn.terminalId,
             nodeId: resolvedNodeId,
-            contextNodeId,
+            contextNodeId: spawn.contextNodeId,
             message: `Spawned agent for node ${resolvedNodeId}`
         })
     } catch (error) {
@@ -0,0 +1,75 @@
+/**
+ * MCP Tool: split_node
+ * Splits a node into one child node per heading section. The parent keeps its intro and links to the children.
+ */
+
+import type {Graph, GraphDelta, NodeIdAndFilePath} from '@/pure/graph'
+import {computeSplitGraphDelta, DEFAULT_SPLIT_HEADING_LEVEL} from '@/pure/graph/graph-operations/split/computeSplitGraphDelta'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {applyGraphDeltaToDBThroughMemAndUIAndEditors} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import {getTerminalRecords, type TerminalRecord} from '@/shell/edge/main/terminals/terminal-registry'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {type McpToolResponse, buildJsonResponse} from './types'
+import {resolveNodeId} from './resolveNodeId'
+
+export interface SplitNodeParams {
+    callerTerminalId: string
+    nodeId: string
+    headingLevel?: number
+}
+
+export async function splitNodeTool({
+    callerTerminalId,
+    nodeId,
+    headingLevel = DEFAULT_SPLIT_HEADING_LEVEL
+}: SplitNodeParams): Promise<McpToolResponse> {
+    // 1. Validate caller terminal exists
+    const callerRecord: TerminalRecord | undefined = getTerminalRecords().find(
+        (r: TerminalRecord) => r.terminalId === callerTerminalId
+    )
+    if (!callerRecord) {
+        return buildJsonResponse({
+            success: false,
+            error: `Unknown caller terminal: ${callerTerminalId}`
+        }, true)
+    }
+
+    // 2. Resolve target node
+    const graph: Graph = getGraph()
+    const resolvedNodeId: NodeIdAndFilePath | undefined = resolveNodeId(graph, nodeId)
+    if (!resolvedNodeId) {
+        return buildJsonResponse({
+            success: false,
+            error: `Node ${nodeId} not found.`
+        }, true)
+    }
+
+    // 3. Build and apply the delta
+    const delta: GraphDelta = computeSplitGraphDelta(resolvedNodeId, graph, headingLevel)
+    if (delta.length === 0) {
+        return buildJsonResponse({
+            success: false,
+            error: `Node ${resolvedNodeId} has no ${'#'.repeat(headingLevel)} headings to split on.`
+        }, true)
+    }
+
+    try {
+        await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, true, agentDeltaSource(callerRecord.terminalData.agentName, callerTerminalId))
+
+        const childNodeIds: readonly NodeIdAndFilePath[] = delta
+            .flatMap(action => action.type === 'UpsertNode' ? [action.nodeToUpsert.absoluteFilePathIsID] : [])
+            .filter(id => id !== resolvedNodeId)
+        return buildJsonResponse({
+            success: true,
+            nodeId: resolvedNodeId,
+            childNodeIds,
+            message: `Split ${resolvedNodeId} into ${childNodeIds.length} nodes`
+        })
+    } catch (error) {
+        const errorMessage: string = error instanceof Error ? error.message : String(error)
+        return buildJsonResponse({
+            success: false,
+            error: errorMessage
+        }, true)
+    }
+}
@@ -2,6 +2,7 @@ import type {NodeDefinition} from "cytoscape";
 import type {Graph, GraphNode, GraphDelta} from "@/pure/graph";
 import {getGraph, setGraph} from "@/shell/edge/main/state/graph-store";
 import {getTerminalRecords} from "@/shell/edge/main/terminals/terminal-registry";
+import {getPersistedSessionNodeIds} from "@/shell/edge/main/terminals/terminal-session-store";
 import {applyGraphDeltaToDBThroughMemAndUI} from "@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/applyGraphDeltaToDBThroughMemAndUI";
 import * as O from "fp-ts/lib/Option.js";
 
@@ -49,13 +50,16 @@ export function saveNodePositions(cyNodes: readonly NodeDefinition[]): void {
         nodes: updatedNodes,
         incomingEdgesIndex: graph.incomingEdgesIndex,
         nodeByBaseName: graph.nodeByBaseName,
-        unresolvedLinksIndex: graph.unresolvedLinksIndex
+        nodeByAlias: graph.nodeByAlias,
+        unresolvedLinksIndex: graph.unresolvedLinksIndex,
+        tagIndex: graph.tagIndex
     });
 }
 
 /**
  * Find and delete context nodes that are not attached to any active terminal.
  * Context nodes are temporary - they should be cleaned up when their terminal closes.
+ * Context nodes of persisted terminal sessions are kept so those sessions can be restored.
  *
  * Called on app quit to clean up any remaining context nodes.
  * NOT called during normal operation to avoid race conditions with terminal spawning.
@@ -72,10 +76,11 @@ export async function cleanupOrphanedContextNodes(): Promise<void> {
         return;
     }
 
-    // Get all node IDs attached to active terminals
-    const activeTerminalNodeIds: Set<string> = new Set(
-        getTerminalRecords().map(record => record.terminalData.attachedToNodeId)
-    );
+    // Get all node IDs attached to active or persisted terminals
+    const activeTerminalNodeIds: Set<string> = new Set([
+        ...getTerminalRecords().map(record => record.terminalData.attachedToNodeId),
+        ...getPersistedSessionNodeIds()
+    ]);
 
     // Find orphaned context nodes (not attached to any terminal)
     const orphanedContextNodeIds: string[] = contextNodeIds.filter(
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterAll } from 'vitest'
+import * as O from 'fp-ts/lib/Option.js'
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import type { GraphDelta, GraphNode } from '@/pure/graph'
+import { MAX_JOURNAL_ENTRIES, type DeltaJournalEntry } from '@/pure/graph/undo'
+import { getDeltaJournalEntries, loadDeltaJournal, recordDeltaInJournal } from './delta-journal-store'
+
+const mockUserDataPath: string = path.join(os.tmpdir(), `test-userdata-${Date.now()}-${Math.random().toString(36).substring(7)}`)
+
+vi.mock('electron', () => ({
+    app: {
+        getPath: vi.fn(() => mockUserDataPath)
+    }
+}))
+
+const makeDelta: (nodeId: string, content: string) => GraphDelta = (nodeId, content) => {
+    const node: GraphNode = {
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: content,
+        outgoingEdges: [],
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: { agent_name: 'Ana' }
+        }
+    }
+    return [{ type: 'UpsertNode', nodeToUpsert: node, previousNode: O.none }]
+}
+
+describe('delta-journal-store', () => {
+    afterAll(async () => {
+        await fs.rm(mockUserDataPath, { recursive: true, force: true })
+    })
+
+    it('persists entries per project and reloads them', async () => {
+        await loadDeltaJournal('/projects/alpha')
+        recordDeltaInJournal(makeDelta('/projects/alpha/a.md', '# A'), { type: 'user' })
+        recordDeltaInJournal(makeDelta('/projects/alpha/b.md', '# B'), { type: 'agent', agentName: 'Ana', terminalId: 'Ana-1' })
+
+        // Switching projects starts from that project's own (empty) journal
+        await loadDeltaJournal('/projects/beta')
+        expect(getDeltaJournalEntries()).toEqual([])
+
+        await loadDeltaJournal('/projects/alpha')
+        const entries: readonly DeltaJournalEntry[] = getDeltaJournalEntries()
+        expect(entries.map(e => e.id)).toEqual([1, 2])
+        expect(entries[1].source).toEqual({ type: 'agent', agentName: 'Ana', terminalId: 'Ana-1' })
+        expect(entries[1].delta).toEqual(makeDelta('/projects/alpha/b.md', '# B'))
+    })
+
+    it('compacts the file while the project is open once the entry cap drops enough lines', async () => {
+        await loadDeltaJournal('/projects/delta')
+        Array.from({ length: MAX_JOURNAL_ENTRIES + 250 }, (_, i) => i).forEach(i => {
+            recordDeltaInJournal(makeDelta(`/projects/delta/${i}.md`, `# ${i}`), { type: 'user' })
+        })
+
+        // Switching projects flushes pending writes without compacting this project's file on load
+        await loadDeltaJournal('/projects/epsilon')
+        const journalDir: string = path.join(mockUserDataPath, 'delta-journals')
+        const fileNames: readonly string[] = await fs.readdir(journalDir)
+        const lineCounts: readonly number[] = await Promise.all(fileNames.map(async fileName =>
+            (await fs.readFile(path.join(journalDir, fileName), 'utf-8')).split('\n').filter(line => line !== '').length
+        ))
+        expect(Math.max(...lineCounts)).toBeLessThan(MAX_JOURNAL_ENTRIES + 200)
+
+        await loadDeltaJournal('/projects/delta')
+        const entries: readonly DeltaJournalEntry[] = getDeltaJournalEntries()
+        expect(entries).toHaveLength(MAX_JOURNAL_ENTRIES)
+        expect(entries[entries.length - 1].id).toBe(MAX_JOURNAL_ENTRIES + 250)
+    })
+
+    it('ignores empty deltas', async () => {
+        await loadDeltaJournal('/projects/gamma')
+        recordDeltaInJournal([], { type: 'user' })
+        expect(getDeltaJournalEntries()).toEqual([])
+    })
+})
@@ -0,0 +1,121 @@
+/**
+ * Persistent delta journal for the open project.
+ *
+ * Every applied GraphDelta is appended as one JSON line to
+ * userData/delta-journals/<project hash>.jsonl, so history survives restarts and
+ * agent bursts that would overflow the in-memory undo stack.
+ *
+ * Entries are appended while the project is open; coalescing of editor saves and the
+ * MAX_JOURNAL_ENTRIES cap are applied in memory, and the file is rewritten from memory
+ * once enough of its lines have been dropped (or when the journal is loaded again).
+ */
+
+import { app } from 'electron';
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { GraphDelta } from '@/pure/graph';
+import {
+    appendJournalEntry,
+    nextJournalEntryId,
+    parseJournal,
+    serializeJournalEntry,
+    type DeltaJournalEntry,
+    type DeltaSource
+} from '@/pure/graph/undo';
+
+let journalEntries: readonly DeltaJournalEntry[] = [];
+
+// Journal file of the open project, null until a project is loaded
+let journalFilePath: string | null = null;
+
+// Lines in the journal file, including ones coalescing or the entry cap have since dropped
+let journalFileLineCount: number = 0;
+
+// Serialize file writes so entries are appended in order
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Rewrite the file once it holds this many lines more than the in-memory journal
+const COMPACTION_THRESHOLD_LINES: number = 200;
+
+function getJournalFilePath(projectRoot: string): string {
+    const projectHash: string = crypto.createHash('sha256').update(projectRoot).digest('hex').slice(0, 16);
+    return path.join(app.getPath('userData'), 'delta-journals', `${projectHash}.jsonl`);
+}
+
+function queueWrite(write: () => Promise<void>): void {
+    writeQueue = writeQueue
+        .then(write)
+        .catch((error: unknown) => {
+            console.error('[delta-journal-store] Failed to write delta journal:', error);
+        });
+}
+
+/**
+ * Rewrite the journal file with the in-memory entries, dropping coalesced and capped lines.
+ */
+function compactJournalFile(filePath: string): void {
+    const compacted: string = journalEntries.map(entry => serializeJournalEntry(entry) + '\n').join('');
+    journalFileLineCount = journalEntries.length;
+    queueWrite(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, compacted, 'utf-8');
+    });
+}
+
+/**
+ * Load the journal of a project, replacing the one in memory.
+ * Called when a folder is loaded.
+ */
+export async function loadDeltaJournal(projectRoot: string): Promise<void> {
+    await writeQueue;
+    const filePath: string = getJournalFilePath(projectRoot);
+    journalFilePath = filePath;
+
+    let text: string = '';
+    try {
+        text = await fs.readFile(filePath, 'utf-8');
+    } catch {
+        // No journal yet for this project
+    }
+    journalEntries = parseJournal(text);
+
+    // Compact the file if coalescing or the entry cap dropped lines
+    journalFileLineCount = text.split('\n').filter(line => line.trim() !== '').length;
+    if (journalFileLineCount > journalEntries.length) {
+        compactJournalFile(filePath);
+    }
+}
+
+/**
+ * Append a delta to the journal of the open project.
+ * No-op for empty deltas or before a project has been loaded.
+ */
+export function recordDeltaInJournal(delta: GraphDelta, source: DeltaSource): void {
+    const filePath: string | null = journalFilePath;
+    if (!filePath || delta.length === 0) {
+        return;
+    }
+
+    const entry: DeltaJournalEntry = {
+        id: nextJournalEntryId(journalEntries),
+        timestamp: Date.now(),
+        source,
+        delta
+    };
+    journalEntries = appendJournalEntry(journalEntries, entry);
+
+    journalFileLineCount += 1;
+    if (journalFileLineCount - journalEntries.length >= COMPACTION_THRESHOLD_LINES) {
+        compactJournalFile(filePath);
+        return;
+    }
+    queueWrite(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.appendFile(filePath, serializeJournalEntry(entry) + '\n', 'utf-8');
+    });
+}
+
+export const getDeltaJournalEntries: () => readonly DeltaJournalEntry[] = (): readonly DeltaJournalEntry[] => {
+    return journalEntries;
+};
@@ -14,6 +14,17 @@ export const setGraph: (graph: Graph) => void = (graph: Graph): void => {
     currentGraph = graph;
 };
 
+// Notified after graph deltas are applied (registered by main.ts, avoids importing the terminal layer)
+let onGraphChanged: (() => void) | null = null;
+
+export const getOnGraphChanged: () => (() => void) | null = (): (() => void) | null => {
+    return onGraphChanged;
+};
+
+export const setOnGraphChanged: (callback: (() => void) | null) => void = (callback: (() => void) | null): void => {
+    onGraphChanged = callback;
+};
+
 export const getNode: (nodeId: string) => GraphNode | undefined = (nodeId: string): GraphNode | undefined => {
     return currentGraph.nodes[nodeId];
 };
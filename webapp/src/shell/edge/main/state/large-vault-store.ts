@@ -0,0 +1,23 @@
+/**
+ * State store for large-vault mode.
+ *
+ * Holds the index of files that exist on disk but were not loaded into the graph
+ * because their vault exceeded the large-vault threshold. Empty when every vault
+ * of the current project was loaded fully.
+ */
+
+import { createEmptyLargeVaultIndex, type LargeVaultIndex } from "@/pure/graph/large-vault/largeVaultIndex";
+
+let largeVaultIndex: LargeVaultIndex = createEmptyLargeVaultIndex();
+
+export const getLargeVaultIndex: () => LargeVaultIndex = (): LargeVaultIndex => {
+    return largeVaultIndex;
+};
+
+export const setLargeVaultIndex: (index: LargeVaultIndex) => void = (index: LargeVaultIndex): void => {
+    largeVaultIndex = index;
+};
+
+export const isLargeVaultModeActive: () => boolean = (): boolean => {
+    return largeVaultIndex.files.size > 0;
+};
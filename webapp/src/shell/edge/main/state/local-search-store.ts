@@ -0,0 +1,56 @@
+/**
+ * State store for the in-process search index.
+ *
+ * The index is updated incrementally from the deltas applied in applyGraphDeltaToMemState.
+ * When the graph is replaced wholesale (folder load, large-vault expansion) the index no
+ * longer matches the graph it was synced to, and is rebuilt lazily on the next search.
+ */
+
+import type { Graph, GraphDelta } from "@/pure/graph";
+import { createEmptyGraph } from "@/pure/graph/createGraph";
+import {
+    applyGraphDeltaToLocalSearchIndex,
+    buildLocalSearchIndex,
+    createEmptyLocalSearchIndex,
+    type EmbeddingProvider,
+    type LocalSearchIndex,
+} from "@/pure/graph/search/localSearchIndex";
+
+let localSearchIndex: LocalSearchIndex = createEmptyLocalSearchIndex();
+let syncedGraph: Graph = createEmptyGraph();
+let embeddingProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the index for the given graph, rebuilding it if it was synced to a different graph.
+ */
+export const getLocalSearchIndex: (graph: Graph) => LocalSearchIndex = (graph: Graph): LocalSearchIndex => {
+    if (graph !== syncedGraph) {
+        localSearchIndex = buildLocalSearchIndex(graph);
+        syncedGraph = graph;
+    }
+    return localSearchIndex;
+};
+
+/**
+ * Apply a delta that turned previousGraph into nextGraph.
+ * Only updates incrementally when the index was in sync with previousGraph.
+ */
+export const applyGraphDeltaToLocalSearch: (previousGraph: Graph, nextGraph: Graph, delta: GraphDelta) => void = (
+    previousGraph: Graph,
+    nextGraph: Graph,
+    delta: GraphDelta
+): void => {
+    if (previousGraph !== syncedGraph) {
+        return;
+    }
+    localSearchIndex = applyGraphDeltaToLocalSearchIndex(localSearchIndex, delta);
+    syncedGraph = nextGraph;
+};
+
+export const getEmbeddingProvider: () => EmbeddingProvider | null = (): EmbeddingProvider | null => {
+    return embeddingProvider;
+};
+
+export const setEmbeddingProvider: (provider: EmbeddingProvider | null) => void = (provider: EmbeddingProvider | null): void => {
+    embeddingProvider = provider;
+};
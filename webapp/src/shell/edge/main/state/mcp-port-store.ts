@@ -0,0 +1,18 @@
+/**
+ * Port the in-process MCP server listens on.
+ *
+ * Kept out of mcp-server.ts so terminal spawning can pass it to agents
+ * ($VOICETREE_MCP_PORT) without importing the MCP tools.
+ */
+
+export const MCP_BASE_PORT: 3001 = 3001 as const
+
+let mcpPort: number = MCP_BASE_PORT
+
+export const getMcpPort: () => number = (): number => {
+    return mcpPort
+}
+
+export const setMcpPort: (port: number) => void = (port: number): void => {
+    mcpPort = port
+}
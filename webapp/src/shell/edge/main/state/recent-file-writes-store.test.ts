@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import {
+    recordAgentFileWrite,
+    getRecentFileWriter,
+    clearRecentFileWrites
+} from './recent-file-writes-store'
+
+describe('recent-file-writes-store', () => {
+    beforeEach(() => {
+        clearRecentFileWrites()
+        vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('returns the latest terminal that wrote a path', () => {
+        recordAgentFileWrite('/vault/user-note.md', { agentName: 'Ana', terminalId: 'Ana' })
+        recordAgentFileWrite('/vault/user-note.md', { agentName: 'Bob', terminalId: 'Bob' })
+
+        expect(getRecentFileWriter('/vault/user-note.md')).toEqual({ agentName: 'Bob', terminalId: 'Bob' })
+        expect(getRecentFileWriter('/vault/other.md')).toBeUndefined()
+    })
+
+    it('forgets writes after the TTL', () => {
+        recordAgentFileWrite('/vault/user-note.md', { agentName: 'Ana', terminalId: 'Ana' })
+        vi.advanceTimersByTime(61000)
+
+        expect(getRecentFileWriter('/vault/user-note.md')).toBeUndefined()
+    })
+})
@@ -0,0 +1,53 @@
+/**
+ * Tracks which agent terminal recently wrote each file.
+ *
+ * Purpose: external filesystem events don't say who wrote a file. Agent tool calls
+ * (reported by the pre-tool hook) and MCP writes are recorded here by path, so the
+ * resulting FS event can be attributed to the terminal that wrote the file.
+ *
+ * TTL: Entries expire after 60s - the pre-tool hook fires before the tool runs, and
+ * long tool calls or slow watchers can delay the FS event.
+ */
+
+import normalizePath from 'normalize-path'
+import type { FileWriter } from '@/pure/graph/undo'
+
+const RECENT_WRITE_TTL_MS: number = 60000
+
+interface RecentFileWrite {
+    readonly writer: FileWriter
+    readonly timestamp: number
+}
+
+const recentFileWrites: Map<string, RecentFileWrite> = new Map()
+
+/**
+ * Record that an agent terminal is writing a file. The latest writer of a path wins.
+ */
+export function recordAgentFileWrite(filePath: string, writer: FileWriter): void {
+    const now: number = Date.now()
+
+    // Clean up expired entries
+    for (const [key, write] of recentFileWrites) {
+        if (now - write.timestamp > RECENT_WRITE_TTL_MS) {
+            recentFileWrites.delete(key)
+        }
+    }
+
+    recentFileWrites.set(normalizePath(filePath), { writer, timestamp: now })
+}
+
+/**
+ * The agent terminal that wrote a file within the TTL, if any.
+ */
+export function getRecentFileWriter(filePath: string): FileWriter | undefined {
+    const write: RecentFileWrite | undefined = recentFileWrites.get(normalizePath(filePath))
+    return write && Date.now() - write.timestamp <= RECENT_WRITE_TTL_MS ? write.writer : undefined
+}
+
+/**
+ * Clear all entries (for testing).
+ */
+export function clearRecentFileWrites(): void {
+    recentFileWrites.clear()
+}
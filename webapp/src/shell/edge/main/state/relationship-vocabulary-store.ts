@@ -0,0 +1,18 @@
+/**
+ * State store for the relationship vocabulary of the current project.
+ *
+ * Loaded from the project's vault config when a folder is opened; edge labels of
+ * nodes parsed in the main process are normalized against it.
+ */
+
+import { DEFAULT_RELATIONSHIP_VOCABULARY, type RelationshipVocabulary } from "@/pure/graph/relationships";
+
+let relationshipVocabulary: RelationshipVocabulary = DEFAULT_RELATIONSHIP_VOCABULARY;
+
+export const getRelationshipVocabulary: () => RelationshipVocabulary = (): RelationshipVocabulary => {
+    return relationshipVocabulary;
+};
+
+export const setRelationshipVocabulary: (vocabulary: RelationshipVocabulary) => void = (vocabulary: RelationshipVocabulary): void => {
+    relationshipVocabulary = vocabulary;
+};
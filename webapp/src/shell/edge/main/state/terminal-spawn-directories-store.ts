@@ -0,0 +1,19 @@
+/**
+ * Spawn directories of the running agent terminals.
+ *
+ * Published by the terminal registry on every mutation, so the FS-event path can attribute
+ * a change to the agent working in that directory (e.g. a worktree) without importing the
+ * registry - which pulls in the terminal manager and node-pty.
+ */
+
+import type { TerminalSpawnDirectory } from '@/pure/graph/undo'
+
+let runningTerminalSpawnDirectories: readonly TerminalSpawnDirectory[] = []
+
+export function getRunningTerminalSpawnDirectories(): readonly TerminalSpawnDirectory[] {
+    return runningTerminalSpawnDirectories
+}
+
+export function setRunningTerminalSpawnDirectories(spawnDirectories: readonly TerminalSpawnDirectory[]): void {
+    runningTerminalSpawnDirectories = spawnDirectories
+}
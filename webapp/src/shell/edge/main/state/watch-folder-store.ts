@@ -6,6 +6,7 @@
  * - Currently watched directory path
  * - Startup folder override (CLI arg)
  * - Folder switch cleanup callback
+ * - Folder loaded callback
  */
 
 import type { FSWatcher } from "chokidar";
@@ -55,6 +56,17 @@ export const setOnFolderSwitchCleanup: (cleanup: (() => void) | null) => void =
     onFolderSwitchCleanup = cleanup;
 };
 
+// Callback run after a folder's vault has loaded and is being watched (e.g., offering to restore terminals)
+let onFolderLoaded: ((projectRoot: string) => void) | null = null;
+
+export const getOnFolderLoaded: () => ((projectRoot: string) => void) | null = (): ((projectRoot: string) => void) | null => {
+    return onFolderLoaded;
+};
+
+export const setOnFolderLoaded: (callback: ((projectRoot: string) => void) | null) => void = (callback: ((projectRoot: string) => void) | null): void => {
+    onFolderLoaded = callback;
+};
+
 /**
  * Clear all watch folder state (for testing or cleanup).
  */
@@ -63,4 +75,5 @@ export const clearWatchFolderState: () => void = (): void => {
     projectRootWatchedDirectory = null;
     startupFolderOverride = null;
     onFolderSwitchCleanup = null;
+    onFolderLoaded = null;
 };
@@ -0,0 +1,198 @@
+/**
+ * Agent scheduler: spawns the agent of a task node once all its prerequisites are done.
+ *
+ * Task nodes declare prerequisites with `depends_on` frontmatter (see pure/agentScheduling).
+ * Whenever the terminal registry or the graph changes,
+ * the scheduler recomputes the DAG, starts queued tasks up to
+ * settings.maxConcurrentScheduledAgents through the spawn queue (so the global agent caps
+ * apply), and pushes the queued / running / blocked / done state of every DAG node to the
+ * renderer.
+ *
+ * A prerequisite is done once an agent anchored to it has exited (or its terminal was
+ * closed). Done tasks are saved in the project's vault config, so finished tasks are not
+ * run again after a restart.
+ */
+
+import * as O from 'fp-ts/lib/Option.js';
+import type { FilePath, NodeIdAndFilePath } from '@/pure/graph';
+import type { VaultConfig, VTSettings } from '@/pure/settings/types';
+import {
+    buildTaskDependencyMap,
+    computeTaskScheduleStates,
+    selectTasksToSpawn,
+    type TaskAgentStatus,
+    type TaskScheduleState,
+} from '@/pure/agentScheduling';
+import { getGraph } from '@/shell/edge/main/state/graph-store';
+import { loadSettings } from '@/shell/edge/main/settings/settings_IO';
+import { getProjectRootWatchedDirectory } from '@/shell/edge/main/state/watch-folder-store';
+import { getVaultConfigForDirectory, saveVaultConfigForDirectory } from '@/shell/edge/main/graph/watch_folder/voicetree-config-io';
+import { getTerminalRecords, type TerminalRecord } from './terminal-registry';
+import { requestAgentSpawn } from './spawn-queue';
+import { uiAPI } from '@/shell/edge/main/ui-api-proxy';
+
+export const DEFAULT_MAX_CONCURRENT_SCHEDULED_AGENTS: number = 3;
+
+// Task nodes whose agent has exited
+const doneTaskNodeIds: Set<NodeIdAndFilePath> = new Set();
+// Project whose saved done tasks have been loaded into doneTaskNodeIds
+let doneTasksProjectRoot: FilePath | null = null;
+// Task nodes with a running agent at the last tick (to notice agents that disappeared)
+let runningTaskNodeIds: ReadonlySet<NodeIdAndFilePath> = new Set();
+// Task nodes spawned by the scheduler whose terminal has not registered yet
+const pendingSpawnTaskNodeIds: Set<NodeIdAndFilePath> = new Set();
+// Task nodes whose spawn failed - not retried until the app restarts
+const failedTaskNodeIds: Set<NodeIdAndFilePath> = new Set();
+
+let tickScheduled: boolean = false;
+// Ticks run one after another so a task is never spawned twice
+let tickChain: Promise<void> = Promise.resolve();
+let lastPushedStates: string = '';
+
+function getAnchoredTaskNodeId(record: TerminalRecord): NodeIdAndFilePath | null {
+    const anchored: O.Option<NodeIdAndFilePath> = record.terminalData.anchoredToNodeId;
+    return O.isSome(anchored) ? anchored.value : null;
+}
+
+/**
+ * Derive the agent status of every task node from the registry, updating the
+ * done/pending bookkeeping as agents start, exit or disappear.
+ */
+function collectAgentStatus(): ReadonlyMap<NodeIdAndFilePath, TaskAgentStatus> {
+    const records: TerminalRecord[] = getTerminalRecords().filter((r: TerminalRecord) => r.terminalData.executeCommand === true);
+    const running: Set<NodeIdAndFilePath> = new Set();
+    for (const record of records) {
+        const taskNodeId: NodeIdAndFilePath | null = getAnchoredTaskNodeId(record);
+        if (!taskNodeId) {
+            continue;
+        }
+        if (record.status === 'running') {
+            running.add(taskNodeId);
+            pendingSpawnTaskNodeIds.delete(taskNodeId);
+        } else {
+            doneTaskNodeIds.add(taskNodeId);
+        }
+    }
+    // Agents whose terminal was closed while running count as exited
+    for (const taskNodeId of runningTaskNodeIds) {
+        if (!running.has(taskNodeId)) {
+            doneTaskNodeIds.add(taskNodeId);
+        }
+    }
+    runningTaskNodeIds = running;
+
+    const status: Map<NodeIdAndFilePath, TaskAgentStatus> = new Map();
+    for (const taskNodeId of doneTaskNodeIds) status.set(taskNodeId, 'done');
+    for (const taskNodeId of failedTaskNodeIds) status.set(taskNodeId, 'failed');
+    for (const taskNodeId of [...running, ...pendingSpawnTaskNodeIds]) status.set(taskNodeId, 'running');
+    return status;
+}
+
+/**
+ * Load the open project's saved done tasks, once per project.
+ */
+async function loadDoneTasks(projectRoot: FilePath): Promise<void> {
+    if (doneTasksProjectRoot === projectRoot) {
+        return;
+    }
+    const config: VaultConfig | undefined = await getVaultConfigForDirectory(projectRoot);
+    for (const taskNodeId of config?.doneScheduledTaskNodeIds ?? []) {
+        doneTaskNodeIds.add(taskNodeId);
+    }
+    doneTasksProjectRoot = projectRoot;
+}
+
+async function saveDoneTasks(projectRoot: FilePath): Promise<void> {
+    const config: VaultConfig | undefined = await getVaultConfigForDirectory(projectRoot);
+    await saveVaultConfigForDirectory(projectRoot, {
+        writePath: config?.writePath ?? projectRoot,
+        readPaths: config?.readPaths ?? [],
+        doneScheduledTaskNodeIds: [...doneTaskNodeIds],
+    });
+}
+
+function pushStatesToRenderer(states: ReadonlyMap<NodeIdAndFilePath, TaskScheduleState>): void {
+    const serialized: string = JSON.stringify([...states]);
+    if (serialized === lastPushedStates) {
+        return;
+    }
+    lastPushedStates = serialized;
+    void uiAPI.setTaskScheduleStates(Object.fromEntries(states));
+}
+
+async function runSchedulerTick(): Promise<void> {
+    const projectRoot: FilePath | null = getProjectRootWatchedDirectory();
+    if (projectRoot) {
+        await loadDoneTasks(projectRoot);
+    }
+    const doneCountBefore: number = doneTaskNodeIds.size;
+    const dependencies: ReadonlyMap<NodeIdAndFilePath, readonly NodeIdAndFilePath[]> = buildTaskDependencyMap(getGraph());
+    const agentStatus: ReadonlyMap<NodeIdAndFilePath, TaskAgentStatus> = collectAgentStatus();
+    if (projectRoot && doneTaskNodeIds.size > doneCountBefore) {
+        await saveDoneTasks(projectRoot).catch((error: unknown) => {
+            console.error('[agent-scheduler] Failed to save done tasks:', error);
+        });
+    }
+    const states: ReadonlyMap<NodeIdAndFilePath, TaskScheduleState> = computeTaskScheduleStates(dependencies, agentStatus);
+
+    // Registry updates are frequent (activity, output) - only read settings when something is queued
+    const hasQueuedTasks: boolean = [...states.values()].includes('queued');
+    const settings: VTSettings | null = hasQueuedTasks ? await loadSettings() : null;
+    const maxConcurrent: number = settings?.maxConcurrentScheduledAgents ?? DEFAULT_MAX_CONCURRENT_SCHEDULED_AGENTS;
+    const toSpawn: readonly NodeIdAndFilePath[] = hasQueuedTasks ? selectTasksToSpawn(states, maxConcurrent) : [];
+
+    // Show spawned tasks as running straight away; their terminals register asynchronously
+    const displayedStates: ReadonlyMap<NodeIdAndFilePath, TaskScheduleState> = new Map([
+        ...states,
+        ...toSpawn.map((taskNodeId: NodeIdAndFilePath) => [taskNodeId, 'running'] as const),
+    ]);
+    pushStatesToRenderer(displayedStates);
+
+    for (const taskNodeId of toSpawn) {
+        pendingSpawnTaskNodeIds.add(taskNodeId);
+        try {
+            // A spawn held back by the global agent cap stays pending until the queue starts it,
+            // or until it is cancelled from the terminal tree - then the task is scheduled again
+            await requestAgentSpawn(taskNodeId, null, undefined, () => {
+                pendingSpawnTaskNodeIds.delete(taskNodeId);
+                requestAgentSchedulerTick();
+            });
+        } catch (error) {
+            console.error(`[agent-scheduler] Failed to spawn agent for ${taskNodeId}:`, error);
+            pendingSpawnTaskNodeIds.delete(taskNodeId);
+            failedTaskNodeIds.add(taskNodeId);
+            requestAgentSchedulerTick();
+        }
+    }
+}
+
+/**
+ * Re-evaluate the dependency DAG soon. Calls are coalesced, so this is cheap to
+ * call after every registry or graph change.
+ */
+export function requestAgentSchedulerTick(): void {
+    if (tickScheduled) {
+        return;
+    }
+    tickScheduled = true;
+    setTimeout(() => {
+        tickScheduled = false;
+        tickChain = tickChain
+            .then(runSchedulerTick)
+            .catch((error: unknown) => {
+                console.error('[agent-scheduler] Scheduler tick failed:', error);
+            });
+    }, 0);
+}
+
+/**
+ * Forget all scheduling state, e.g. when switching projects.
+ */
+export function resetAgentScheduler(): void {
+    doneTaskNodeIds.clear();
+    doneTasksProjectRoot = null;
+    pendingSpawnTaskNodeIds.clear();
+    failedTaskNodeIds.clear();
+    runningTaskNodeIds = new Set();
+    lastPushedStates = '';
+}
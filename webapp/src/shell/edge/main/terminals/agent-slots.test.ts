@@ -0,0 +1,66 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest'
+import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types'
+import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
+
+vi.mock('@/shell/edge/main/terminals/terminal-registry', () => ({
+    getTerminalRecords: vi.fn(),
+    getTerminalSpawnDepth: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/settings/settings_IO', () => ({
+    loadSettings: vi.fn()
+}))
+
+import {assertAgentSlotAvailable, clearStartingAgentSlots, getOccupiedSlots, markAgentSlotStarting} from './agent-slots'
+import {getTerminalRecords, getTerminalSpawnDepth} from '@/shell/edge/main/terminals/terminal-registry'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {DEFAULT_SETTINGS} from '@/pure/settings/DEFAULT_SETTINGS'
+
+function buildAgentTerminalData(terminalCount: number): TerminalData {
+    return createTerminalData({
+        terminalId: `agent-${terminalCount}` as TerminalId,
+        agentName: `agent-${terminalCount}`,
+        attachedToNodeId: `ctx-nodes/task_${terminalCount}.md`,
+        terminalCount,
+        title: `Task ${terminalCount}`,
+        executeCommand: true
+    })
+}
+
+describe('agent slots', () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        clearStartingAgentSlots()
+        vi.mocked(loadSettings).mockResolvedValue({...DEFAULT_SETTINGS, maxRunningAgents: 2})
+        vi.mocked(getTerminalRecords).mockReturnValue([
+            {terminalId: 'agent-1', terminalData: buildAgentTerminalData(1), status: 'running'}
+        ])
+    })
+
+    it('should allow a direct spawn while there is a free slot', async () => {
+        await expect(assertAgentSlotAvailable(null)).resolves.toBeUndefined()
+    })
+
+    it('should reject a direct spawn once launched terminals fill the remaining slots', async () => {
+        markAgentSlotStarting('agent-2', null)
+
+        expect(getOccupiedSlots()).toHaveLength(2)
+        await expect(assertAgentSlotAvailable(null)).rejects.toThrow('Agent limit reached: 2 of 2 agents are running')
+    })
+
+    it('should free the starting slot once the terminal registers', async () => {
+        markAgentSlotStarting('agent-2', null)
+        vi.mocked(getTerminalRecords).mockReturnValue([
+            {terminalId: 'agent-1', terminalData: buildAgentTerminalData(1), status: 'running'},
+            {terminalId: 'agent-2', terminalData: buildAgentTerminalData(2), status: 'exited'}
+        ])
+
+        await expect(assertAgentSlotAvailable(null)).resolves.toBeUndefined()
+    })
+
+    it('should reject spawns past the maximum depth', async () => {
+        vi.mocked(getTerminalSpawnDepth).mockReturnValue(3)
+
+        await expect(assertAgentSlotAvailable('agent-1')).rejects.toThrow('Maximum agent spawn depth')
+    })
+})
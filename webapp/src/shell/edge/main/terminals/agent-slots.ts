@@ -0,0 +1,94 @@
+/**
+ * Agent slots: the running agents counted against the spawn limits (see
+ * pure/agentScheduling/spawnLimits).
+ *
+ * Every agent spawn checks the limits here before it launches a terminal - spawn_agent
+ * requests and scheduled tasks through the spawn queue, and spawns from the UI, run-agent
+ * and ask mode directly. A launched terminal holds its slot while it starts up, until it
+ * registers in the terminal registry.
+ */
+
+import type { VTSettings } from '@/pure/settings/types';
+import {
+    checkSpawnLimits,
+    getSpawnDepth,
+    type AgentSpawnLimits,
+    type OccupiedAgentSlot,
+    type SpawnLimitCheck,
+} from '@/pure/agentScheduling';
+import { loadSettings } from '@/shell/edge/main/settings/settings_IO';
+import { getTerminalRecords, getTerminalSpawnDepth, type TerminalRecord } from './terminal-registry';
+
+export const DEFAULT_AGENT_SPAWN_LIMITS: AgentSpawnLimits = {
+    maxRunningAgents: 10,
+    maxRunningChildrenPerAgent: 5,
+    maxSpawnDepth: 3,
+};
+
+// A launched terminal holds its slot until it registers, or this long at most
+export const STARTING_SPAWN_TIMEOUT_MS: number = 30_000;
+
+// Terminals launched but not registered yet, by terminal id
+const startingSpawns: Map<string, OccupiedAgentSlot & { readonly startedAt: number }> = new Map();
+
+export async function loadSpawnLimits(): Promise<AgentSpawnLimits> {
+    const settings: VTSettings = await loadSettings();
+    return {
+        maxRunningAgents: settings.maxRunningAgents ?? DEFAULT_AGENT_SPAWN_LIMITS.maxRunningAgents,
+        maxRunningChildrenPerAgent: settings.maxRunningChildrenPerAgent ?? DEFAULT_AGENT_SPAWN_LIMITS.maxRunningChildrenPerAgent,
+        maxSpawnDepth: settings.maxAgentSpawnDepth ?? DEFAULT_AGENT_SPAWN_LIMITS.maxSpawnDepth,
+    };
+}
+
+/**
+ * Running agents plus terminals still starting up.
+ */
+export function getOccupiedSlots(): readonly OccupiedAgentSlot[] {
+    const records: TerminalRecord[] = getTerminalRecords();
+    const registeredIds: ReadonlySet<string> = new Set(records.map((r: TerminalRecord) => r.terminalId));
+    const now: number = Date.now();
+    for (const [terminalId, starting] of startingSpawns) {
+        if (registeredIds.has(terminalId) || now - starting.startedAt > STARTING_SPAWN_TIMEOUT_MS) {
+            startingSpawns.delete(terminalId);
+        }
+    }
+    const running: readonly OccupiedAgentSlot[] = records
+        .filter((r: TerminalRecord) => r.terminalData.executeCommand === true && r.status === 'running')
+        .map((r: TerminalRecord) => ({ parentTerminalId: r.terminalData.parentTerminalId }));
+    return [...running, ...startingSpawns.values()];
+}
+
+/**
+ * Check the spawn limits for a new agent of the given parent (null for root agents).
+ */
+export async function checkAgentSlot(parentTerminalId: string | null): Promise<SpawnLimitCheck> {
+    const limits: AgentSpawnLimits = await loadSpawnLimits();
+    const depth: number = getSpawnDepth(parentTerminalId, getTerminalSpawnDepth);
+    return checkSpawnLimits(parentTerminalId, depth, getOccupiedSlots(), limits);
+}
+
+/**
+ * Reject a spawn that doesn't fit the limits now.
+ *
+ * @throws Error with the reason if the spawn is over a cap or too deep
+ */
+export async function assertAgentSlotAvailable(parentTerminalId: string | null): Promise<void> {
+    const check: SpawnLimitCheck = await checkAgentSlot(parentTerminalId);
+    if (check.kind !== 'allowed') {
+        throw new Error(check.kind === 'atCapacity' ? `Agent limit reached: ${check.reason}` : check.reason);
+    }
+}
+
+/**
+ * Hold a slot for a launched terminal until it registers.
+ */
+export function markAgentSlotStarting(terminalId: string, parentTerminalId: string | null): void {
+    startingSpawns.set(terminalId, { parentTerminalId, startedAt: Date.now() });
+}
+
+/**
+ * Release all slots of terminals still starting up, e.g. when switching projects.
+ */
+export function clearStartingAgentSlots(): void {
+    startingSpawns.clear();
+}
@@ -0,0 +1,14 @@
+import {findFileWriterBySpawnDirectory, type FileWriter} from '@/pure/graph/undo'
+import {getRecentFileWriter} from '@/shell/edge/main/state/recent-file-writes-store'
+import {getRunningTerminalSpawnDirectories} from '@/shell/edge/main/state/terminal-spawn-directories-store'
+import {getProjectRootWatchedDirectory} from '@/shell/edge/main/state/watch-folder-store'
+
+/**
+ * The agent terminal that wrote an externally changed file: the one that recently wrote it
+ * through a tool call or MCP, else the only running terminal spawned in a directory (e.g. a
+ * worktree) holding the file. Undefined means the write is not attributable to an agent.
+ */
+export function getFileWriter(filePath: string): FileWriter | undefined {
+    return getRecentFileWriter(filePath)
+        ?? findFileWriterBySpawnDirectory(filePath, getRunningTerminalSpawnDirectories(), getProjectRootWatchedDirectory())
+}
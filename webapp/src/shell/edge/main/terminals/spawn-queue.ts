@@ -0,0 +1,189 @@
+/**
+ * Spawn queue: caps how many agents can be spawned by agents (see pure/agentScheduling/spawnLimits).
+ *
+ * spawn_agent requests go through requestAgentSpawn. Requests over the global or
+ * per-parent cap wait here and are started in order as running agents exit; requests
+ * past the maximum recursion depth are rejected. Pending spawns are pushed to the
+ * renderer so the terminal tree can show them. Slots and limits are shared with direct
+ * spawns (see agent-slots).
+ */
+
+import type { NodeIdAndFilePath, GraphNode } from '@/pure/graph';
+import { getNodeTitle } from '@/pure/graph/markdown-parsing';
+import {
+    selectQueuedSpawnsToStart,
+    type AgentSpawnLimits,
+    type SpawnLimitCheck,
+} from '@/pure/agentScheduling';
+import { getGraph } from '@/shell/edge/main/state/graph-store';
+import {
+    checkAgentSlot,
+    clearStartingAgentSlots,
+    getOccupiedSlots,
+    loadSpawnLimits,
+    STARTING_SPAWN_TIMEOUT_MS,
+} from './agent-slots';
+import { spawnTerminalWithContextNode } from './spawnTerminalWithContextNode';
+import { uiAPI } from '@/shell/edge/main/ui-api-proxy';
+
+/** A spawn request waiting for a free slot (shown in the terminal tree) */
+export interface PendingAgentSpawn {
+    readonly pendingId: string;
+    readonly taskNodeId: NodeIdAndFilePath;
+    readonly title: string;
+    readonly parentTerminalId: string | null;
+    readonly queuedAt: number;
+    /** Which cap the request is waiting on */
+    readonly reason: string;
+}
+
+interface QueuedSpawn extends PendingAgentSpawn {
+    readonly spawnDirectory: string | undefined;
+    readonly onCancelled: (() => void) | undefined;
+}
+
+export type AgentSpawnResult =
+    | { readonly kind: 'spawned'; readonly terminalId: string; readonly contextNodeId: NodeIdAndFilePath }
+    | { readonly kind: 'queued'; readonly pending: PendingAgentSpawn; readonly position: number };
+
+const spawnQueue: QueuedSpawn[] = [];
+
+let nextPendingId: number = 1;
+let drainScheduled: boolean = false;
+// Checks and spawns run one after another so two requests never take the same slot
+let spawnChain: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result: Promise<T> = spawnChain.then(task);
+    spawnChain = result.catch(() => undefined);
+    return result;
+}
+
+function toPendingAgentSpawn({ spawnDirectory: _spawnDirectory, onCancelled: _onCancelled, ...pending }: QueuedSpawn): PendingAgentSpawn {
+    return pending;
+}
+
+function pushPendingSpawnsToRenderer(): void {
+    void uiAPI.syncPendingAgentSpawns(getPendingAgentSpawns());
+}
+
+async function startSpawn(
+    taskNodeId: NodeIdAndFilePath,
+    parentTerminalId: string | null,
+    spawnDirectory: string | undefined
+): Promise<{ terminalId: string; contextNodeId: NodeIdAndFilePath }> {
+    // skipFitAnimation: agent spawns shouldn't move the user's viewport
+    const result: { terminalId: string; contextNodeId: NodeIdAndFilePath } = await spawnTerminalWithContextNode(
+        taskNodeId, undefined, undefined, true, false, undefined, spawnDirectory, parentTerminalId ?? undefined
+    );
+    // Free the slot if the terminal never registers
+    setTimeout(requestSpawnQueueDrain, STARTING_SPAWN_TIMEOUT_MS + 1000);
+    return result;
+}
+
+/**
+ * Spawn an agent on a task node now if the limits allow it, otherwise queue it.
+ *
+ * @param onCancelled - Called if the request is queued and then cancelled before it starts
+ * @throws Error if the spawn would exceed the maximum recursion depth
+ */
+export function requestAgentSpawn(
+    taskNodeId: NodeIdAndFilePath,
+    parentTerminalId: string | null,
+    spawnDirectory?: string,
+    onCancelled?: () => void
+): Promise<AgentSpawnResult> {
+    return serialized(async (): Promise<AgentSpawnResult> => {
+        const check: SpawnLimitCheck = await checkAgentSlot(parentTerminalId);
+
+        if (check.kind === 'tooDeep') {
+            throw new Error(check.reason);
+        }
+        if (check.kind === 'atCapacity') {
+            const taskNode: GraphNode | undefined = getGraph().nodes[taskNodeId];
+            const queued: QueuedSpawn = {
+                pendingId: `pending-${nextPendingId++}`,
+                taskNodeId,
+                title: taskNode ? getNodeTitle(taskNode) : taskNodeId,
+                parentTerminalId,
+                queuedAt: Date.now(),
+                reason: check.reason,
+                spawnDirectory,
+                onCancelled,
+            };
+            spawnQueue.push(queued);
+            pushPendingSpawnsToRenderer();
+            return { kind: 'queued', pending: toPendingAgentSpawn(queued), position: spawnQueue.length };
+        }
+
+        const { terminalId, contextNodeId } = await startSpawn(taskNodeId, parentTerminalId, spawnDirectory);
+        return { kind: 'spawned', terminalId, contextNodeId };
+    });
+}
+
+async function drainSpawnQueue(): Promise<void> {
+    if (spawnQueue.length === 0) {
+        return;
+    }
+    const limits: AgentSpawnLimits = await loadSpawnLimits();
+    const toStart: readonly QueuedSpawn[] = selectQueuedSpawnsToStart(spawnQueue, getOccupiedSlots(), limits);
+    if (toStart.length === 0) {
+        return;
+    }
+    for (const queued of toStart) {
+        spawnQueue.splice(spawnQueue.indexOf(queued), 1);
+    }
+    pushPendingSpawnsToRenderer();
+
+    for (const queued of toStart) {
+        try {
+            await startSpawn(queued.taskNodeId, queued.parentTerminalId, queued.spawnDirectory);
+        } catch (error) {
+            console.error(`[spawn-queue] Failed to start queued agent for ${queued.taskNodeId}:`, error);
+        }
+    }
+}
+
+/**
+ * Start queued spawns that fit now. Calls are coalesced, so this is cheap to call
+ * after every registry change.
+ */
+export function requestSpawnQueueDrain(): void {
+    if (drainScheduled) {
+        return;
+    }
+    drainScheduled = true;
+    setTimeout(() => {
+        drainScheduled = false;
+        serialized(drainSpawnQueue).catch((error: unknown) => {
+            console.error('[spawn-queue] Failed to drain spawn queue:', error);
+        });
+    }, 0);
+}
+
+export function getPendingAgentSpawns(): readonly PendingAgentSpawn[] {
+    return spawnQueue.map(toPendingAgentSpawn);
+}
+
+/**
+ * Drop a queued spawn before it starts. Returns false if it is no longer queued.
+ */
+export function cancelPendingAgentSpawn(pendingId: string): boolean {
+    const index: number = spawnQueue.findIndex((queued: QueuedSpawn) => queued.pendingId === pendingId);
+    if (index === -1) {
+        return false;
+    }
+    const cancelled: QueuedSpawn = spawnQueue.splice(index, 1)[0];
+    pushPendingSpawnsToRenderer();
+    cancelled.onCancelled?.();
+    return true;
+}
+
+/**
+ * Forget all queued and starting spawns, e.g. when switching projects.
+ */
+export function resetSpawnQueue(): void {
+    spawnQueue.length = 0;
+    clearStartingAgentSlots();
+    pushPendingSpawnsToRenderer();
+}
@@ -18,6 +18,7 @@
 import path from 'path';
 import * as O from 'fp-ts/lib/Option.js';
 import { createContextNode } from '@/shell/edge/main/graph/context-nodes/createContextNode';
+import { getContextTokenBudget } from '@/pure/graph/context-budget/budgetContextNodes';
 import { createContextNodeFromSelectedNodes } from '@/shell/edge/main/graph/context-nodes/createContextNodeFromSelectedNodes';
 import { getGraph } from '@/shell/edge/main/state/graph-store';
 import { loadSettings } from '@/shell/edge/main/settings/settings_IO';
@@ -29,11 +30,13 @@ import { getNodeTitle } from '@/pure/graph/markdown-parsing';
 import { findFirstParentNode } from '@/pure/graph/graph-operations/findFirstParentNode';
 import type { VTSettings } from '@/pure/settings';
 import { resolveEnvVars, expandEnvVarsInValues } from '@/pure/settings';
-import { getNextAgentName, getUniqueAgentName } from '@/pure/settings/types';
+import { findAgentByCommand, getNextAgentName, getUniqueAgentName } from '@/pure/settings/types';
 import { getNextTerminalCountForNode, getExistingAgentNames } from '@/shell/edge/main/terminals/terminal-registry';
+import { assertAgentSlotAvailable, markAgentSlotStarting } from '@/shell/edge/main/terminals/agent-slots';
 import type {TerminalData} from "@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType";
 import {getWatchStatus} from "@/shell/edge/main/graph/watch_folder/watchFolder";
 import {getVaultPaths, getWritePath} from "@/shell/edge/main/graph/watch_folder/vault-allowlist";
+import {getMcpPort} from "@/shell/edge/main/state/mcp-port-store";
 
 /**
  * Spawn a terminal with a context node, orchestrated from main process
@@ -49,6 +52,7 @@ import {getVaultPaths, getWritePath} from "@/shell/edge/main/graph/watch_folder/
  * @param startUnpinned - If true, terminal starts unpinned (used for MCP spawns)
  * @param selectedNodeIds - If provided, creates context from these nodes instead of subgraph
  * @param parentTerminalId - Parent terminal ID for tree-style tabs (used for MCP spawn_agent)
+ * @throws Error if the agent limits don't allow another agent now (spawn_agent queues instead, see spawn-queue)
  */
 export async function spawnTerminalWithContextNode(
     taskNodeId: NodeIdAndFilePath,
@@ -60,6 +64,8 @@ export async function spawnTerminalWithContextNode(
     spawnDirectory?: string,
     parentTerminalId?: string
 ): Promise<{terminalId: string; contextNodeId: NodeIdAndFilePath}> {
+    await assertAgentSlotAvailable(parentTerminalId ?? null);
+
     // Load settings to get agents
     const settings: VTSettings = await loadSettings();
     if (!settings) {
@@ -92,7 +98,10 @@ export async function spawnTerminalWithContextNode(
         // Create context node for the task node
         contextNodeId = selectedNodeIds
             ? await createContextNodeFromSelectedNodes(taskNodeId, selectedNodeIds)
-            : await createContextNode(taskNodeId);
+            : await createContextNode(taskNodeId, {
+                tokenBudget: getContextTokenBudget(settings, command),
+                templateName: findAgentByCommand(settings, command)?.contextTemplate
+            });
         resolvedTaskNodeId = taskNodeId;
     }
 
@@ -120,6 +129,7 @@ export async function spawnTerminalWithContextNode(
     // Call UI to launch terminal (via UI API pattern)
     // Note: uiAPI sends IPC message, no need to await (fire-and-forget)
     void uiAPI.launchTerminalOntoUI(contextNodeId, terminalData, skipFitAnimation);
+    markAgentSlotStarting(getTerminalId(terminalData), parentTerminalId ?? null);
 
     return {
         terminalId: getTerminalId(terminalData),
@@ -217,6 +227,7 @@ async function prepareTerminalDataInMain(
         CONTEXT_NODE_PATH: contextNodeAbsolutePath,
         TASK_NODE_PATH: taskNodeAbsolutePath,
         VOICETREE_TERMINAL_ID: agentName, // Same as AGENT_NAME
+        VOICETREE_MCP_PORT: String(getMcpPort()), // For agent hooks (tools/*-hook.cjs)
         AGENT_NAME: agentName,
         ...resolvedEnvVars,
     };
@@ -0,0 +1,62 @@
+import * as O from 'fp-ts/lib/Option.js'
+import type {Graph, GraphDelta, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
+import {computeTaskStatusDeltaForTerminalEvent, type TerminalLifecycleEvent} from '@/pure/graph/task-status/taskStatus'
+import {agentDeltaSource} from '@/pure/graph/undo'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {
+    applyGraphDeltaToDBThroughMemAndUIAndEditors
+} from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange'
+import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
+
+/**
+ * The task node a terminal works on: the node its shadow is anchored to, else the task node
+ * of its context node (the first containedNodeId), else the node it is attached to.
+ */
+export function getTerminalTaskNodeId(terminalData: TerminalData, graph: Graph): NodeIdAndFilePath {
+    if (O.isSome(terminalData.anchoredToNodeId)) {
+        return terminalData.anchoredToNodeId.value
+    }
+    const attachedNode: GraphNode | undefined = graph.nodes[terminalData.attachedToNodeId]
+    return (attachedNode?.nodeUIMetadata.isContextNode ? attachedNode.nodeUIMetadata.containedNodeIds?.[0] : undefined)
+        ?? terminalData.attachedToNodeId
+}
+
+// Idle/active flips must hold this long before they are written, so a brief pause doesn't rewrite the task node
+export const TASK_STATUS_SETTLE_MS: number = 10_000
+
+const pendingStatusSyncByTerminal: Map<string, ReturnType<typeof setTimeout>> = new Map()
+
+/**
+ * Advances the status of the terminal's task node after a lifecycle event.
+ * Idle and active events are written once they settle (a newer event for the terminal
+ * replaces a pending one), spawned and exited right away.
+ * Automatic status changes are journaled as the terminal's agent and not recorded for undo,
+ * like other bookkeeping writes.
+ * Never throws - a failed status update must not disrupt the terminal.
+ */
+export async function syncTaskStatusWithTerminal(terminalData: TerminalData, event: TerminalLifecycleEvent): Promise<void> {
+    const terminalId: string = terminalData.terminalId
+    clearTimeout(pendingStatusSyncByTerminal.get(terminalId))
+    pendingStatusSyncByTerminal.delete(terminalId)
+
+    if (event === 'idle' || event === 'active') {
+        pendingStatusSyncByTerminal.set(terminalId, setTimeout(() => {
+            pendingStatusSyncByTerminal.delete(terminalId)
+            void applyTaskStatusForTerminalEvent(terminalData, event)
+        }, TASK_STATUS_SETTLE_MS))
+        return
+    }
+    await applyTaskStatusForTerminalEvent(terminalData, event)
+}
+
+async function applyTaskStatusForTerminalEvent(terminalData: TerminalData, event: TerminalLifecycleEvent): Promise<void> {
+    try {
+        const graph: Graph = getGraph()
+        const delta: GraphDelta = computeTaskStatusDeltaForTerminalEvent(graph, getTerminalTaskNodeId(terminalData, graph), event)
+        if (delta.length > 0) {
+            await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, false, agentDeltaSource(terminalData.agentName, terminalData.terminalId))
+        }
+    } catch (error) {
+        console.error(`[sync-task-status] Failed to update task status after ${event}:`, error)
+    }
+}
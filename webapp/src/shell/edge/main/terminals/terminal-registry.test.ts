@@ -22,7 +22,9 @@ import {
     updateTerminalIsDone,
     updateTerminalPinned,
     updateTerminalActivityState,
-    markTerminalExited
+    markTerminalExited,
+    removeTerminalFromRegistry,
+    getTerminalAgentSession
 } from '@/shell/edge/main/terminals/terminal-registry'
 
 // Mock uiAPI for Phase 2A tests
@@ -430,3 +432,29 @@ describe('Terminal Registry - Phase 2A: syncTerminals', () => {
         })
     })
 })
+
+describe('Terminal Registry - agent sessions', () => {
+    beforeEach(() => {
+        clearTerminalRecords()
+    })
+
+    it('keeps a closed terminal\'s session so its changes can still be reverted', () => {
+        const terminalData: TerminalData = createTerminalData({
+            terminalId: 'agent-node.md-terminal-0' as TerminalId,
+            attachedToNodeId: 'agent-node.md',
+            terminalCount: 0,
+            title: 'Agent Terminal',
+            agentName: 'Wendy'
+        })
+
+        recordTerminalSpawn('agent-node.md-terminal-0', terminalData)
+        removeTerminalFromRegistry('agent-node.md-terminal-0')
+
+        expect(getTerminalRecords()).toHaveLength(0)
+        expect(getTerminalAgentSession('agent-node.md-terminal-0')).toMatchObject({
+            agentName: 'Wendy',
+            terminalId: 'agent-node.md-terminal-0',
+            spawnTime: expect.any(Number)
+        })
+    })
+})
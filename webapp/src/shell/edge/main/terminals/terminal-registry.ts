@@ -2,7 +2,16 @@ import type {Graph, GraphNode, NodeIdAndFilePath} from '@/pure/graph'
 import {getGraph} from '@/shell/edge/main/state/graph-store'
 import {getUnseenNodesAroundContextNode, type UnseenNode} from '@/shell/edge/main/graph/context-nodes/getUnseenNodesAroundContextNode'
 import {getNodeTitle} from '@/pure/graph/markdown-parsing'
+import {getFrontmatterString} from '@/pure/graph/frontmatter'
 import {sendTextToTerminal} from './send-text-to-terminal'
+import {persistTerminalSessions} from './terminal-session-store'
+import {offerWorktreeActionsOnClose} from '@/shell/edge/main/worktree/worktreeManager'
+import {requestAgentSchedulerTick, resetAgentScheduler} from './agent-scheduler'
+import {requestSpawnQueueDrain, resetSpawnQueue} from './spawn-queue'
+import {syncTaskStatusWithTerminal} from './sync-task-status'
+import {getSpawnDepth} from '@/pure/agentScheduling'
+import type {AgentSession, TerminalSpawnDirectory} from '@/pure/graph/undo'
+import {setRunningTerminalSpawnDirectories} from '@/shell/edge/main/state/terminal-spawn-directories-store'
 
 import type {TerminalData} from "@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType";
 import {uiAPI} from '@/shell/edge/main/ui-api-proxy';
@@ -30,12 +39,42 @@ const notificationStateByTerminal: Map<string, UnseenNodesNotificationState> = n
 
 const NOTIFICATION_COOLDOWN_MS: number = 5 * 60 * 1000 // 5 minutes
 
+/**
+ * Depth of each terminal along its parentTerminalId chain (root = 0).
+ * Kept after a terminal is removed so the depth of its descendants stays correct.
+ */
+const spawnDepthByTerminal: Map<string, number> = new Map()
+
+/**
+ * Agent name and spawn time of each terminal.
+ * Kept after a terminal is removed so a closed agent's session can still be reverted.
+ */
+const agentSessionByTerminal: Map<string, AgentSession> = new Map()
+
+function getRunningTerminalSpawnDirectories(): readonly TerminalSpawnDirectory[] {
+    return getTerminalRecords()
+        .filter((record: TerminalRecord) => record.status === 'running')
+        .flatMap((record: TerminalRecord): readonly TerminalSpawnDirectory[] => {
+            const spawnDirectory: string | undefined = record.terminalData.initialSpawnDirectory
+            return spawnDirectory
+                ? [{writer: {agentName: record.terminalData.agentName, terminalId: record.terminalId}, spawnDirectory}]
+                : []
+        })
+}
+
 /**
  * Push current terminal state to renderer via uiAPI.
  * Called after every mutation to keep renderer in sync.
+ * Also persists the registry so sessions can be restored after a restart, publishes the
+ * running terminals' spawn directories for file attribution, and lets the agent scheduler
+ * and spawn queue react to agents starting or exiting.
  */
 function pushStateToRenderer(): void {
     uiAPI.syncTerminals(getTerminalRecords())
+    setRunningTerminalSpawnDirectories(getRunningTerminalSpawnDirectories())
+    persistTerminalSessions(getTerminalRecords())
+    requestAgentSchedulerTick()
+    requestSpawnQueueDrain()
 }
 
 /**
@@ -78,7 +117,7 @@ async function notifyAgentOfUnseenNodes(terminalId: string, record: TerminalReco
         const nodesFromOthers: readonly UnseenNode[] = unseenNodes.filter((node: UnseenNode) => {
             const graphNode: GraphNode | undefined = graph.nodes[node.nodeId]
             if (!graphNode) return true
-            const nodeAgentName: string | undefined = graphNode.nodeUIMetadata.additionalYAMLProps.get('agent_name')
+            const nodeAgentName: string | undefined = getFrontmatterString(graphNode.nodeUIMetadata.additionalYAMLProps, 'agent_name')
             return nodeAgentName !== agentName
         })
 
@@ -119,14 +158,23 @@ export function recordTerminalSpawn(terminalId: string, terminalData: TerminalDa
         status: 'running'
     })
 
+    spawnDepthByTerminal.set(
+        terminalId,
+        getSpawnDepth(terminalData.parentTerminalId, (parentId: string) => spawnDepthByTerminal.get(parentId))
+    )
+
+    const spawnTime: number = Date.now()
+    agentSessionByTerminal.set(terminalId, {agentName: terminalData.agentName, terminalId, spawnTime})
+
     // Initialize notification tracking state for this terminal
     notificationStateByTerminal.set(terminalId, {
         lastNotificationTime: 0,
-        spawnTime: Date.now(),
+        spawnTime,
         alertedNodeIds: new Set()
     })
 
     pushStateToRenderer()
+    void syncTaskStatusWithTerminal(terminalData, 'spawned')
 }
 
 export function updateTerminalIsDone(terminalId: string, isDone: boolean): void {
@@ -149,6 +197,11 @@ export function updateTerminalIsDone(terminalId: string, isDone: boolean): void
     if (wasNotDone && isNowDone) {
         void notifyAgentOfUnseenNodes(terminalId, terminalRecords.get(terminalId)!)
     }
+
+    // Hook: Move the task node to review when the agent goes idle, back to in-progress when it resumes
+    if (record.terminalData.isDone !== isDone) {
+        void syncTaskStatusWithTerminal(record.terminalData, isNowDone ? 'idle' : 'active')
+    }
 }
 
 export function updateTerminalPinned(terminalId: string, isPinned: boolean): void {
@@ -194,6 +247,7 @@ export function markTerminalExited(terminalId: string): void {
         status: 'exited'
     })
     pushStateToRenderer()
+    void syncTaskStatusWithTerminal(record.terminalData, 'exited')
 }
 
 /**
@@ -202,11 +256,14 @@ export function markTerminalExited(terminalId: string): void {
  * Phase 3: Ensures main registry stays in sync when renderer closes terminals.
  */
 export function removeTerminalFromRegistry(terminalId: string): void {
-    if (terminalRecords.has(terminalId)) {
+    const record: TerminalRecord | undefined = terminalRecords.get(terminalId)
+    if (record) {
         terminalRecords.delete(terminalId)
         // Clean up notification tracking state
         notificationStateByTerminal.delete(terminalId)
         pushStateToRenderer()
+        // Offer merge/remove if this agent owned a worktree
+        void offerWorktreeActionsOnClose(record)
     }
 }
 
@@ -214,6 +271,30 @@ export function getTerminalRecords(): TerminalRecord[] {
     return Array.from(terminalRecords.values())
 }
 
+/**
+ * When a terminal was spawned, or undefined if it was never in the registry.
+ * Bounds the journal entries attributed to an agent, since agent names are recycled.
+ */
+export function getTerminalSpawnTime(terminalId: string): number | undefined {
+    return agentSessionByTerminal.get(terminalId)?.spawnTime
+}
+
+/**
+ * A terminal's agent session, also after its terminal was closed, or undefined if it
+ * was never in the registry.
+ */
+export function getTerminalAgentSession(terminalId: string): AgentSession | undefined {
+    return agentSessionByTerminal.get(terminalId)
+}
+
+/**
+ * Depth of a terminal along its parentTerminalId chain (root = 0), or undefined if it
+ * was never in the registry.
+ */
+export function getTerminalSpawnDepth(terminalId: string): number | undefined {
+    return spawnDepthByTerminal.get(terminalId)
+}
+
 /**
  * Get all existing agent names from the terminal registry.
  * Used for collision detection when spawning new terminals.
@@ -226,6 +307,11 @@ export function getExistingAgentNames(): Set<string> {
 export function clearTerminalRecords(): void {
     terminalRecords.clear()
     notificationStateByTerminal.clear()
+    spawnDepthByTerminal.clear()
+    agentSessionByTerminal.clear()
+    setRunningTerminalSpawnDirectories([])
+    resetAgentScheduler()
+    resetSpawnQueue()
 }
 
 export function getNextTerminalCountForNode(nodeId: NodeIdAndFilePath): number {
@@ -0,0 +1,129 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest'
+import {promises as fs} from 'fs'
+import os from 'os'
+import path from 'path'
+import * as O from 'fp-ts/lib/Option.js'
+import type {GraphNode} from '@/pure/graph'
+import {createGraph} from '@/pure/graph/createGraph'
+import {toPersistedTerminalSession, type PersistedTerminalSession} from '@/pure/agentTabs/terminalSessions'
+import {DEFAULT_SETTINGS} from '@/pure/settings/DEFAULT_SETTINGS'
+import {createTerminalData, type TerminalId} from '@/shell/edge/UI-edge/floating-windows/types'
+import type {TerminalData} from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType'
+
+const testDirs: {userData: string} = {userData: ''}
+const PROJECT_ROOT: string = '/projects/notes'
+
+vi.mock('electron', () => ({
+    app: {
+        getPath: vi.fn(() => testDirs.userData)
+    }
+}))
+
+vi.mock('@/shell/edge/main/state/watch-folder-store', () => ({
+    getProjectRootWatchedDirectory: vi.fn(() => PROJECT_ROOT)
+}))
+
+vi.mock('@/shell/edge/main/state/graph-store', () => ({
+    getGraph: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/settings/settings_IO', () => ({
+    loadSettings: vi.fn()
+}))
+
+vi.mock('@/shell/edge/main/ui-api-proxy', () => ({
+    uiAPI: {
+        showTerminalSessionRestorePrompt: vi.fn(),
+        launchTerminalOntoUI: vi.fn()
+    }
+}))
+
+import {
+    getPersistedSessionNodeIds,
+    loadTerminalSessions,
+    offerTerminalSessionRestore,
+    persistTerminalSessions,
+    restoreTerminalSessions
+} from './terminal-session-store'
+import {getGraph} from '@/shell/edge/main/state/graph-store'
+import {loadSettings} from '@/shell/edge/main/settings/settings_IO'
+import {uiAPI} from '@/shell/edge/main/ui-api-proxy'
+
+function buildGraphNode(nodeId: string): GraphNode {
+    return {
+        outgoingEdges: [],
+        absoluteFilePathIsID: nodeId,
+        contentWithoutYamlOrLinks: `# ${nodeId}`,
+        nodeUIMetadata: {
+            color: O.none,
+            position: O.none,
+            additionalYAMLProps: {}
+        }
+    }
+}
+
+function buildAgentTerminalData(agentName: string): TerminalData {
+    return createTerminalData({
+        terminalId: agentName as TerminalId,
+        agentName,
+        attachedToNodeId: `ctx-nodes/${agentName}.md`,
+        terminalCount: 0,
+        title: agentName,
+        initialCommand: 'claude',
+        executeCommand: true
+    })
+}
+
+// Waits for the queued session file writes
+async function flushSessionWrites(): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 20))
+}
+
+async function loadSessionsOnDisk(): Promise<readonly PersistedTerminalSession[]> {
+    await flushSessionWrites()
+    return loadTerminalSessions(PROJECT_ROOT)
+}
+
+describe('terminal session store', () => {
+    beforeEach(async () => {
+        vi.clearAllMocks()
+        testDirs.userData = await fs.mkdtemp(path.join(os.tmpdir(), 'terminal-sessions-'))
+        await fs.writeFile(
+            path.join(testDirs.userData, 'terminal-sessions.json'),
+            JSON.stringify({[PROJECT_ROOT]: [toPersistedTerminalSession(buildAgentTerminalData('Wendy'))]})
+        )
+        vi.mocked(getGraph).mockReturnValue(createGraph({
+            'ctx-nodes/Wendy.md': buildGraphNode('ctx-nodes/Wendy.md'),
+            'ctx-nodes/Omar.md': buildGraphNode('ctx-nodes/Omar.md')
+        }))
+        vi.mocked(loadSettings).mockResolvedValue(DEFAULT_SETTINGS)
+    })
+
+    afterEach(async () => {
+        await flushSessionWrites()
+        await fs.rm(testDirs.userData, {recursive: true, force: true})
+    })
+
+    it('should keep the offered sessions while a terminal spawns before the prompt is answered', async () => {
+        await offerTerminalSessionRestore(PROJECT_ROOT)
+
+        persistTerminalSessions([{terminalId: 'Omar', terminalData: buildAgentTerminalData('Omar'), status: 'running'}])
+
+        expect((await loadSessionsOnDisk()).map(session => session.terminalId)).toEqual(['Wendy', 'Omar'])
+        expect(getPersistedSessionNodeIds()).toEqual(new Set(['ctx-nodes/Wendy.md', 'ctx-nodes/Omar.md']))
+
+        const launched: readonly string[] = await restoreTerminalSessions({Wendy: 'relaunch'})
+
+        expect(launched).toEqual(['Wendy'])
+        expect(uiAPI.launchTerminalOntoUI).toHaveBeenCalledTimes(1)
+    })
+
+    it('should forget the skipped sessions once the prompt is answered', async () => {
+        await offerTerminalSessionRestore(PROJECT_ROOT)
+        persistTerminalSessions([{terminalId: 'Omar', terminalData: buildAgentTerminalData('Omar'), status: 'running'}])
+
+        await restoreTerminalSessions({Wendy: 'skip'})
+
+        expect((await loadSessionsOnDisk()).map(session => session.terminalId)).toEqual(['Omar'])
+    })
+})
@@ -0,0 +1,206 @@
+/**
+ * Persistence for terminal sessions across app restarts.
+ *
+ * The terminal registry is mirrored to terminal-sessions.json (keyed by project root)
+ * after every registry mutation. When a project is opened again, the saved sessions
+ * are offered to the user, who picks per agent whether to resume, relaunch or skip it.
+ *
+ * Note: clearTerminalRecords() (app quit / folder switch) deliberately does NOT persist,
+ * so the last snapshot of a project survives the shutdown.
+ */
+
+import { app } from 'electron';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { NodeIdAndFilePath, Graph } from '@/pure/graph';
+import type { VTSettings } from '@/pure/settings/types';
+import {
+    toPersistedTerminalSession,
+    buildRestorableSessions,
+    orderSessionsParentFirst,
+    getRestoreCommand,
+    type PersistedTerminalSession,
+    type RestorableTerminalSession,
+    type SessionRestoreMode,
+} from '@/pure/agentTabs/terminalSessions';
+import { createTerminalData, type TerminalId } from '@/shell/edge/UI-edge/floating-windows/types';
+import type { TerminalData } from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType';
+import type { TerminalRecord } from '@/shell/edge/main/terminals/terminal-registry';
+import { getProjectRootWatchedDirectory } from '@/shell/edge/main/state/watch-folder-store';
+import { getGraph } from '@/shell/edge/main/state/graph-store';
+import { loadSettings } from '@/shell/edge/main/settings/settings_IO';
+import { uiAPI } from '@/shell/edge/main/ui-api-proxy';
+
+type TerminalSessionsFile = { [projectRoot: string]: readonly PersistedTerminalSession[] };
+
+// Sessions of the currently open project, as last persisted (or loaded on open)
+let currentSessions: readonly PersistedTerminalSession[] = [];
+
+// Sessions of the registry, as last mirrored
+let registrySessions: readonly PersistedTerminalSession[] = [];
+
+// Sessions offered in the restore prompt. Kept in the persisted snapshot until the prompt is
+// answered, so terminals spawned meanwhile don't replace them.
+let offeredSessions: { readonly projectRoot: string; readonly sessions: readonly PersistedTerminalSession[] } | null = null;
+
+// Serialize file writes so rapid registry mutations can't interleave
+let writeQueue: Promise<void> = Promise.resolve();
+
+function getSessionsFilePath(): string {
+    return path.join(app.getPath('userData'), 'terminal-sessions.json');
+}
+
+async function readSessionsFile(): Promise<TerminalSessionsFile> {
+    try {
+        const data: string = await fs.readFile(getSessionsFilePath(), 'utf-8');
+        return JSON.parse(data) as TerminalSessionsFile;
+    } catch {
+        return {};
+    }
+}
+
+async function writeSessionsForProject(projectRoot: string, sessions: readonly PersistedTerminalSession[]): Promise<void> {
+    const file: TerminalSessionsFile = await readSessionsFile();
+    const updated: TerminalSessionsFile = { ...file, [projectRoot]: sessions };
+    const filePath: string = getSessionsFilePath();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(updated, null, 2), 'utf-8');
+}
+
+function queueWrite(projectRoot: string, sessions: readonly PersistedTerminalSession[]): void {
+    currentSessions = sessions;
+    writeQueue = writeQueue
+        .then(() => writeSessionsForProject(projectRoot, sessions))
+        .catch((error: unknown) => {
+            console.error('[terminal-session-store] Failed to persist terminal sessions:', error);
+        });
+}
+
+/**
+ * The registry's sessions plus the offered ones that haven't been answered yet.
+ */
+function withOfferedSessions(projectRoot: string, sessions: readonly PersistedTerminalSession[]): readonly PersistedTerminalSession[] {
+    if (offeredSessions?.projectRoot !== projectRoot) {
+        return sessions;
+    }
+    const liveIds: ReadonlySet<string> = new Set(sessions.map((session: PersistedTerminalSession) => session.terminalId));
+    return [
+        ...offeredSessions.sessions.filter((session: PersistedTerminalSession) => !liveIds.has(session.terminalId)),
+        ...sessions,
+    ];
+}
+
+/**
+ * Mirror the terminal registry to disk for the current project.
+ * Called by terminal-registry after each mutation.
+ */
+export function persistTerminalSessions(records: readonly TerminalRecord[]): void {
+    const projectRoot: string | null = getProjectRootWatchedDirectory();
+    if (!projectRoot) {
+        return;
+    }
+    registrySessions = records.map((record: TerminalRecord) => toPersistedTerminalSession(record.terminalData));
+    queueWrite(projectRoot, withOfferedSessions(projectRoot, registrySessions));
+}
+
+/**
+ * Context nodes referenced by persisted sessions.
+ * These must survive orphaned-context-node cleanup on quit so the sessions can be restored.
+ */
+export function getPersistedSessionNodeIds(): ReadonlySet<NodeIdAndFilePath> {
+    return new Set(currentSessions.map((session: PersistedTerminalSession) => session.attachedToNodeId));
+}
+
+export async function loadTerminalSessions(projectRoot: string): Promise<readonly PersistedTerminalSession[]> {
+    const file: TerminalSessionsFile = await readSessionsFile();
+    return file[projectRoot] ?? [];
+}
+
+/**
+ * Offer to restore the saved sessions of a project that was just opened.
+ * Called after the project's graph has loaded.
+ */
+export async function offerTerminalSessionRestore(projectRoot: string): Promise<void> {
+    const sessions: readonly PersistedTerminalSession[] = await loadTerminalSessions(projectRoot);
+    currentSessions = sessions;
+    registrySessions = [];
+    offeredSessions = sessions.length > 0 ? { projectRoot, sessions } : null;
+    if (sessions.length === 0) {
+        return;
+    }
+
+    const settings: VTSettings = await loadSettings();
+    const restorable: readonly RestorableTerminalSession[] = buildRestorableSessions(sessions, settings.agents ?? []);
+    void uiAPI.showTerminalSessionRestorePrompt(restorable);
+}
+
+/**
+ * Rebuild TerminalData for a persisted session.
+ * Falls back to the task node when the context node no longer exists.
+ */
+function buildRestoredTerminalData(
+    session: PersistedTerminalSession,
+    command: string,
+    graph: Graph
+): TerminalData | undefined {
+    const attachedToNodeId: NodeIdAndFilePath | null = graph.nodes[session.attachedToNodeId]
+        ? session.attachedToNodeId
+        : session.anchoredToNodeId && graph.nodes[session.anchoredToNodeId] ? session.anchoredToNodeId : null;
+    if (!attachedToNodeId) {
+        return undefined;
+    }
+
+    return createTerminalData({
+        terminalId: session.terminalId as TerminalId,
+        attachedToNodeId,
+        terminalCount: session.terminalCount,
+        title: session.title,
+        anchoredToNodeId: session.anchoredToNodeId ?? undefined,
+        initialCommand: command,
+        executeCommand: true,
+        initialSpawnDirectory: session.initialSpawnDirectory,
+        initialEnvVars: session.initialEnvVars,
+        isPinned: session.isPinned,
+        parentTerminalId: session.parentTerminalId as TerminalId | null,
+        agentName: session.agentName,
+    });
+}
+
+/**
+ * Restore the sessions offered for the current project using the user's choice per terminal.
+ * Sessions are launched parent-first so the tree-style tabs are rebuilt.
+ * Sessions without a choice, skipped, or whose nodes no longer exist are forgotten.
+ *
+ * @param choices - Restore mode keyed by terminalId
+ * @returns IDs of the terminals that were launched
+ */
+export async function restoreTerminalSessions(
+    choices: Readonly<Record<string, SessionRestoreMode>>
+): Promise<readonly string[]> {
+    const projectRoot: string | null = getProjectRootWatchedDirectory();
+    if (!projectRoot) {
+        return [];
+    }
+
+    const settings: VTSettings = await loadSettings();
+    const graph: Graph = getGraph();
+    const sessions: readonly PersistedTerminalSession[] = offeredSessions?.projectRoot === projectRoot
+        ? offeredSessions.sessions
+        : [];
+    offeredSessions = null;
+
+    const toLaunch: readonly TerminalData[] = orderSessionsParentFirst(sessions)
+        .flatMap(({ session }) => {
+            const command: string | undefined = getRestoreCommand(session, choices[session.terminalId] ?? 'skip', settings.agents ?? []);
+            const terminalData: TerminalData | undefined = command ? buildRestoredTerminalData(session, command, graph) : undefined;
+            return terminalData ? [terminalData] : [];
+        });
+
+    // Forget the offered sessions not being restored; restored terminals re-persist as they spawn
+    queueWrite(projectRoot, registrySessions);
+
+    for (const terminalData of toLaunch) {
+        void uiAPI.launchTerminalOntoUI(terminalData.attachedToNodeId, terminalData, true);
+    }
+    return toLaunch.map((terminalData: TerminalData) => terminalData.terminalId);
+}
@@ -0,0 +1,285 @@
+/**
+ * Worktree Manager
+ *
+ * Lifecycle of the git worktrees agents run in (created under .worktrees/ by
+ * gitWorktreeCommands.ts or the agent command popup): list them with their owning
+ * terminal and diff against the base branch, merge or rebase them back, remove them,
+ * and garbage-collect orphans whose terminals are gone.
+ *
+ * When an agent that owns a worktree closes, its diff summary is written to the task
+ * node and the user is offered merge/rebase/remove.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as O from 'fp-ts/lib/Option.js';
+import type { GraphNode, GraphDelta } from '@/pure/graph';
+import { agentDeltaSource } from '@/pure/graph/undo';
+import {
+    findWorktreeOwner,
+    formatWorktreeDiffSummary,
+    getWorktreeName,
+    isManagedWorktree,
+    isTerminalInWorktree,
+    parseDiffShortStat,
+    parseWorktreeList,
+    partitionOrphanedWorktrees,
+    type GitWorktree,
+    type ManagedWorktree,
+    type WorktreeDiffSummary,
+    type WorktreeMergeStrategy,
+    type WorktreeOwner,
+} from '@/pure/worktree';
+import type { TerminalData } from '@/shell/edge/UI-edge/floating-windows/terminals/terminalDataType';
+import { getTerminalRecords, type TerminalRecord } from '@/shell/edge/main/terminals/terminal-registry';
+import { getProjectRootWatchedDirectory } from '@/shell/edge/main/state/watch-folder-store';
+import { getGraph } from '@/shell/edge/main/state/graph-store';
+import { applyGraphDeltaToDBThroughMemAndUIAndEditors } from '@/shell/edge/main/graph/markdownHandleUpdateFromStateLayerPaths/onUIChangePath/onUIChange';
+import { uiAPI } from '@/shell/edge/main/ui-api-proxy';
+
+const execFileAsync: (file: string, args: readonly string[], options: { cwd: string }) => Promise<{ stdout: string; stderr: string }> = promisify(execFile);
+
+// Frontmatter key the diff summary is written to on the task node
+const WORKTREE_DIFF_YAML_KEY: string = 'worktree_diff';
+
+async function git(cwd: string, args: readonly string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd });
+    return stdout;
+}
+
+/**
+ * Root of the git repository containing the open project, or null if it is not in one.
+ */
+async function getRepoRoot(): Promise<string | null> {
+    const projectRoot: string | null = getProjectRootWatchedDirectory();
+    if (!projectRoot) {
+        return null;
+    }
+    try {
+        return (await git(projectRoot, ['rev-parse', '--show-toplevel'])).trim();
+    } catch {
+        return null;
+    }
+}
+
+async function requireRepoRoot(): Promise<string> {
+    const repoRoot: string | null = await getRepoRoot();
+    if (!repoRoot) {
+        throw new Error('The open project is not inside a git repository');
+    }
+    return repoRoot;
+}
+
+async function getGitWorktrees(repoRoot: string): Promise<readonly GitWorktree[]> {
+    return parseWorktreeList(await git(repoRoot, ['worktree', 'list', '--porcelain']));
+}
+
+/**
+ * The branch checked out in the main worktree, which agent worktrees branch from.
+ */
+function getBaseBranch(worktrees: readonly GitWorktree[]): string {
+    return worktrees[0]?.branch ?? 'HEAD';
+}
+
+async function getWorktreeDiff(worktree: GitWorktree, baseBranch: string): Promise<WorktreeDiffSummary | null> {
+    if (worktree.isPrunable) {
+        return null;
+    }
+    try {
+        const mergeBase: string = (await git(worktree.path, ['merge-base', baseBranch, 'HEAD'])).trim();
+        // Diff the working tree (not HEAD) so uncommitted agent changes are counted
+        const shortStat: string = await git(worktree.path, ['diff', '--shortstat', mergeBase]);
+        const commitsAhead: string = await git(worktree.path, ['rev-list', '--count', `${baseBranch}..HEAD`]);
+        const status: string = await git(worktree.path, ['status', '--porcelain']);
+        return {
+            baseBranch,
+            ...parseDiffShortStat(shortStat),
+            commitsAhead: Number(commitsAhead.trim()),
+            hasUncommittedChanges: status.trim() !== '',
+        };
+    } catch (error) {
+        console.error(`[worktreeManager] Failed to diff worktree ${worktree.path}:`, error);
+        return null;
+    }
+}
+
+function getLiveTerminals(): readonly TerminalData[] {
+    return getTerminalRecords()
+        .filter((r: TerminalRecord) => r.status === 'running')
+        .map((r: TerminalRecord) => r.terminalData);
+}
+
+/**
+ * List the agent worktrees of the open project's repository, with owner and diff.
+ * Returns an empty list if the project is not in a git repository.
+ */
+export async function listWorktrees(): Promise<readonly ManagedWorktree[]> {
+    const repoRoot: string | null = await getRepoRoot();
+    if (!repoRoot) {
+        return [];
+    }
+    const worktrees: readonly GitWorktree[] = await getGitWorktrees(repoRoot);
+    const baseBranch: string = getBaseBranch(worktrees);
+    const terminals: readonly TerminalData[] = getLiveTerminals();
+
+    return Promise.all(
+        worktrees
+            .filter((worktree: GitWorktree) => isManagedWorktree(repoRoot, worktree))
+            .map(async (worktree: GitWorktree): Promise<ManagedWorktree> => ({
+                name: getWorktreeName(worktree.path),
+                path: worktree.path,
+                branch: worktree.branch,
+                owner: findWorktreeOwner(worktree.path, terminals),
+                diff: await getWorktreeDiff(worktree, baseBranch),
+            }))
+    );
+}
+
+async function findWorktree(repoRoot: string, nameOrPath: string): Promise<GitWorktree> {
+    const worktree: GitWorktree | undefined = (await getGitWorktrees(repoRoot)).find((w: GitWorktree) =>
+        isManagedWorktree(repoRoot, w) && (w.path === nameOrPath || getWorktreeName(w.path) === nameOrPath)
+    );
+    if (!worktree) {
+        throw new Error(`Worktree not found: ${nameOrPath}`);
+    }
+    return worktree;
+}
+
+/**
+ * Bring a worktree's branch into the base branch checked out in the main worktree.
+ * - merge: `git merge --no-ff` the branch
+ * - rebase: rebase the branch onto the base branch, then fast-forward the base branch
+ *
+ * Refuses when the worktree has uncommitted changes. Aborts and throws on conflicts,
+ * leaving both branches as they were.
+ */
+export async function mergeWorktree(
+    nameOrPath: string,
+    strategy: WorktreeMergeStrategy
+): Promise<{ readonly branch: string; readonly baseBranch: string }> {
+    const repoRoot: string = await requireRepoRoot();
+    const worktrees: readonly GitWorktree[] = await getGitWorktrees(repoRoot);
+    const baseBranch: string = getBaseBranch(worktrees);
+    const worktree: GitWorktree = await findWorktree(repoRoot, nameOrPath);
+    const branch: string | null = worktree.branch;
+    if (!branch) {
+        throw new Error(`Worktree ${getWorktreeName(worktree.path)} has no branch checked out`);
+    }
+    if ((await git(worktree.path, ['status', '--porcelain'])).trim() !== '') {
+        throw new Error(`Worktree ${branch} has uncommitted changes - commit or discard them first`);
+    }
+
+    if (strategy === 'rebase') {
+        try {
+            await git(worktree.path, ['rebase', baseBranch]);
+        } catch (error) {
+            await git(worktree.path, ['rebase', '--abort']).catch(() => undefined);
+            throw new Error(`Rebasing ${branch} onto ${baseBranch} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    const mergeArgs: readonly string[] = strategy === 'rebase'
+        ? ['merge', '--ff-only', branch]
+        : ['merge', '--no-ff', '--no-edit', branch];
+    try {
+        await git(repoRoot, mergeArgs);
+    } catch (error) {
+        await git(repoRoot, ['merge', '--abort']).catch(() => undefined);
+        throw new Error(`Merging ${branch} into ${baseBranch} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { branch, baseBranch };
+}
+
+/**
+ * Remove a worktree and (by default) its branch.
+ * Without force, git refuses to remove a worktree with uncommitted changes or
+ * delete a branch that is not merged.
+ */
+export async function removeWorktree(
+    nameOrPath: string,
+    options: { readonly deleteBranch?: boolean; readonly force?: boolean } = {}
+): Promise<{ readonly name: string; readonly deletedBranch: string | null }> {
+    const { deleteBranch = true, force = false } = options;
+    const repoRoot: string = await requireRepoRoot();
+    const worktree: GitWorktree = await findWorktree(repoRoot, nameOrPath);
+
+    await git(repoRoot, ['worktree', 'remove', ...(force ? ['--force'] : []), worktree.path]);
+    if (deleteBranch && worktree.branch) {
+        await git(repoRoot, ['branch', force ? '-D' : '-d', worktree.branch]);
+    }
+    return { name: getWorktreeName(worktree.path), deletedBranch: deleteBranch ? worktree.branch : null };
+}
+
+/**
+ * Remove orphaned worktrees (no live terminal) that hold no unmerged work, and prune
+ * stale worktree metadata. Orphans with unmerged work are reported, not removed.
+ */
+export async function garbageCollectWorktrees(): Promise<{
+    readonly removed: readonly string[];
+    readonly keptWithUnmergedWork: readonly string[];
+}> {
+    const repoRoot: string = await requireRepoRoot();
+    await git(repoRoot, ['worktree', 'prune']);
+
+    const { collectable, withUnmergedWork } = partitionOrphanedWorktrees(await listWorktrees());
+    const removed: string[] = [];
+    for (const worktree of collectable) {
+        try {
+            await removeWorktree(worktree.path);
+            removed.push(worktree.name);
+        } catch (error) {
+            console.error(`[worktreeManager] Failed to remove orphaned worktree ${worktree.name}:`, error);
+        }
+    }
+    return { removed, keptWithUnmergedWork: withUnmergedWork.map((w: ManagedWorktree) => w.name) };
+}
+
+/**
+ * Write a worktree's diff summary into its task node's frontmatter, journaled as the owning agent.
+ */
+async function writeDiffSummaryToTaskNode(worktree: ManagedWorktree): Promise<void> {
+    const owner: WorktreeOwner | null = worktree.owner;
+    const taskNode: GraphNode | undefined = owner?.taskNodeId ? getGraph().nodes[owner.taskNodeId] : undefined;
+    if (!owner || !taskNode || !worktree.diff) {
+        return;
+    }
+    const summary: string = `${worktree.branch ?? worktree.name}: ${formatWorktreeDiffSummary(worktree.diff)}`;
+    if (taskNode.nodeUIMetadata.additionalYAMLProps[WORKTREE_DIFF_YAML_KEY] === summary) {
+        return;
+    }
+    const updatedNode: GraphNode = {
+        ...taskNode,
+        nodeUIMetadata: {
+            ...taskNode.nodeUIMetadata,
+            additionalYAMLProps: { ...taskNode.nodeUIMetadata.additionalYAMLProps, [WORKTREE_DIFF_YAML_KEY]: summary },
+        },
+    };
+    const delta: GraphDelta = [{ type: 'UpsertNode', nodeToUpsert: updatedNode, previousNode: O.some(taskNode) }];
+    await applyGraphDeltaToDBThroughMemAndUIAndEditors(delta, false, agentDeltaSource(owner.agentName, owner.terminalId));
+}
+
+/**
+ * Called when a terminal is removed from the registry. If it owned a worktree that no
+ * other live terminal still runs in, write the diff summary to the task node and offer
+ * merge/rebase/remove.
+ */
+export async function offerWorktreeActionsOnClose(closed: TerminalRecord): Promise<void> {
+    try {
+        const worktrees: readonly ManagedWorktree[] = await listWorktrees();
+        const owned: ManagedWorktree | undefined = worktrees.find((w: ManagedWorktree) =>
+            isTerminalInWorktree(closed.terminalData, w.path)
+            && !getLiveTerminals().some((t: TerminalData) => isTerminalInWorktree(t, w.path))
+        );
+        if (!owned) {
+            return;
+        }
+        const closedOwner: ManagedWorktree = {
+            ...owned,
+            owner: findWorktreeOwner(owned.path, [closed.terminalData]),
+        };
+        await writeDiffSummaryToTaskNode(closedOwner);
+        void uiAPI.showWorktreeClosePrompt(closedOwner);
+    } catch (error) {
+        console.error('[worktreeManager] Failed to check worktree of closed terminal:', error);
+    }
+}